@@ -5,25 +5,34 @@
 import 'dotenv/config';
 
 import { Command } from 'commander';
-import { writeFile, mkdir, copyFile, access, constants } from 'fs/promises';
-import { resolve, dirname } from 'path';
+import { readFile, writeFile, mkdir, copyFile, access, constants } from 'fs/promises';
+import { resolve, dirname, basename, join } from 'path';
 import { fileURLToPath } from 'url';
-import { extractPDF } from '@findata/pdf-extract';
-import { parseBoaStatement, parseBoaMultipleStatements } from '@findata/boa-parser';
-import { ParsedStatementSchema } from '@findata/types';
+import { createInterface } from 'readline';
+import { extractPDF, isPdfPasswordError, type ExtractedPDF, type PdfPasswordReason } from '@findata/pdf-extract';
+import {
+  parseBoaStatement,
+  applyOcrConfidence,
+  createParserRegistry,
+  loadParserConfig,
+  loadParserPlugins,
+  type ParserRegistry,
+} from '@findata/boa-parser';
+import { ParsedStatementSchema, type ParsedStatement } from '@findata/types';
 import {
   resolveSchemaVersion,
   validateOutputOrThrow,
   AVAILABLE_SCHEMA_VERSIONS,
 } from '@findata/types';
-import { toFinalResult, toFinalResultV2, exportOfx, exportOfxByAccount, exportCsv, exportCsvByAccount, detectRecurringFromStatements, type CanonicalOutput } from '@findata/output';
+import { toFinalResult, toFinalResultV2, exportOfx, exportOfxByAccount, exportCsv, exportCsvByAccount, exportQif, exportQifByAccount, exportBeancount, exportLedger, parseAccountingMapping, exportParquet, exportArrow, exportColumnarByAccount, detectRecurringFromStatements, type CanonicalOutput, type AnalyticsOptions, type AccountingMapping, type ColumnarExportOptions, type FinalResultV1, type FinalResultV2, statementsFromFinalResult } from '@findata/output';
 import { enrichWithPlaid, type MergeStrategy } from '@findata/plaid-bridge';
 
-const AVAILABLE_FORMATS = ['json', 'ofx', 'csv'] as const;
+const AVAILABLE_FORMATS = ['json', 'ofx', 'csv', 'qif', 'beancount', 'ledger', 'parquet', 'arrow'] as const;
 type OutputFormat = typeof AVAILABLE_FORMATS[number];
-import { PARSER_VERSION } from '@findata/types';
-import { scanDirectoryForPdfs, validateDirectory } from '@findata/boa-parser';
-import { processBatch, type ParseError } from '@findata/boa-parser';
+import { PARSER_VERSION, normalizeCurrencyCode, parseFxRateTable } from '@findata/types';
+import { scanDirectoryForPdfs, scanDirectoryForStatementFiles, validateDirectory, type ScanOptions } from '@findata/boa-parser';
+import { importStatementFile, isImportFile } from '@findata/boa-parser';
+import { processBatch, loadPdfPasswordConfig, ParseCache, DEFAULT_PARSE_CACHE_DIR, FolderWatcher, type ParseError, type WatchFileStatus } from '@findata/boa-parser';
 import {
   createSupabaseClient,
   importV2Result,
@@ -31,9 +40,52 @@ import {
   needsMigration,
   getMigrationSQL,
   runAutoMigration,
+  type ImportV2ResultOutput,
+  type TransactionRow,
+  type TransactionNeedingReviewRow,
 } from '@findata/store';
-import { HybridCategorizer, generateTrainingData, generateFromParsedTransactions } from '@findata/categorizer-ml';
-import type { TrainingExample } from '@findata/categorizer-ml';
+import { isStorageBackend, LOCAL_USER_ID, DEFAULT_SQLITE_PATH, type SqliteStorage, type StorageAdapter } from '@findata/store';
+import type { SyncItemStore, UnifiedSyncOptions } from '@findata/plaid-bridge';
+import {
+  HybridCategorizer,
+  isMLEngine,
+  ML_ENGINES,
+  CATEGORIES_LIST,
+  SUBCATEGORIES_LIST,
+  generateTrainingData,
+  generateFromParsedTransactions,
+  evaluateCategorizer,
+  formatEvaluationReport,
+} from '@findata/categorizer-ml';
+import type { TrainingExample, MLEngine, LabelledExample, LabelSource } from '@findata/categorizer-ml';
+import {
+  loadCategoryRules,
+  applyCategoryRules,
+  transactionContext,
+  learnRulesFromOverrides,
+  loadLearnedRules,
+  acceptLearnedRules,
+  DEFAULT_LEARNED_RULES_PATH,
+  needsReview,
+  findSimilarTransactions,
+  suggestDecision,
+  sameMerchantItems,
+  parseCategoryAnswer,
+  subcategoryChoices,
+  applyReviewDecisions,
+  reviewItemsFromResult,
+  overridesSidecarPath,
+  loadOverridesSidecar,
+  saveOverridesSidecar,
+  REVIEW_CONFIDENCE_THRESHOLD,
+  REVIEW_CATEGORIES,
+  type CategoryRuleV2,
+  type CategorizationContext,
+  type OverrideExample,
+  type ReviewItem,
+  type ReviewDecision,
+} from '@findata/categorizer';
+import { extractChannel, extractInstitutionChannel } from '@findata/boa-parser';
 
 const program = new Command();
 
@@ -49,14 +101,29 @@ program
   .name('parse-boa')
   .description('Parse Bank of America statement PDFs into structured JSON')
   .version(PARSER_VERSION)
-  .argument('[pdf-file]', 'Path to the Bank of America statement PDF')
-  .option('-d, --inputDir <directory>', 'Directory containing multiple PDF files to process', process.env['BOA_INPUT_DIR'])
+  // Options after a subcommand name belong to the subcommand (watch and plaid reuse names like --inputDir)
+  .enablePositionalOptions()
+  .argument('[pdf-file]', 'Path to a statement PDF, or an OFX/QFX/CSV download')
+  .option('-d, --inputDir <directory>', 'Directory of statement files (PDF, OFX, QFX, CSV) to process', process.env['BOA_INPUT_DIR'])
   .option('-o, --out <file>', 'Output file path (default: stdout)', process.env['BOA_OUTPUT_FILE'])
   .option('-v, --verbose', 'Enable verbose output', envBool('BOA_VERBOSE', false))
   .option('-s, --strict', 'Enable strict validation mode', envBool('BOA_STRICT', false))
   .option('--pretty', 'Pretty-print JSON output', envBool('BOA_PRETTY', true))
   .option('--no-pretty', 'Disable pretty-printing')
   .option('--single', 'Parse as single statement (legacy mode)', envBool('BOA_SINGLE', false))
+  .option('--ocr', 'Read scanned pages without a text layer with OCR', envBool('BOA_OCR', true))
+  .option('--no-ocr', 'Skip OCR; scanned statements fail to parse')
+  .option('--password <password>', 'Password for encrypted PDFs (tried on every PDF)', process.env['BOA_PDF_PASSWORD'])
+  .option('--password-file <file>', 'JSON file of PDF passwords: {"files": {"name.pdf": "..."}, "passwords": [...]}', process.env['BOA_PDF_PASSWORD_FILE'])
+  .option('--concurrency <n>', 'Number of files to parse in parallel on worker threads (directory mode)', process.env['BOA_CONCURRENCY'] ?? '1')
+  .option('--cache', 'Reuse parse results for files unchanged since an earlier run (directory mode)', envBool('BOA_CACHE', true))
+  .option('--no-cache', 'Extract and parse every file again')
+  .option('--cache-dir <dir>', 'Parse cache directory', process.env['BOA_CACHE_DIR'] ?? DEFAULT_PARSE_CACHE_DIR)
+  .option('--recursive', 'Also scan subfolders of the input directory (directory mode)', envBool('BOA_RECURSIVE', false))
+  .option('--include <globs>', 'Comma-separated globs; only matching files are parsed (directory mode)', process.env['BOA_INCLUDE'])
+  .option('--exclude <globs>', 'Comma-separated globs of files to leave out (directory mode)', process.env['BOA_EXCLUDE'])
+  .option('--archives', 'Read statement files out of .zip archives (directory mode)', envBool('BOA_ARCHIVES', true))
+  .option('--no-archives', 'Ignore .zip archives (directory mode)')
   .option(
     '--schema-version <version>',
     `Output schema version (${AVAILABLE_SCHEMA_VERSIONS.join(', ')})`,
@@ -69,22 +136,33 @@ program
   )
   .option(
     '--split-accounts',
-    'Split output into separate files per account (only with --format ofx or csv)',
+    'Split output into separate files per account (only with --format ofx, csv, qif, parquet or arrow)',
     envBool('BOA_SPLIT_ACCOUNTS', false)
   )
+  .option('--base-currency <code>', 'Currency for analytics and rollup totals when accounts use several currencies', process.env['BOA_BASE_CURRENCY'])
+  .option('--fx-rates <file>', 'JSON file of static FX rates into the base currency, e.g. {"EUR": 1.08}', process.env['BOA_FX_RATES'])
+  .option('--accounting-map <file>', 'JSON file mapping accounts and categories to ledger accounts (beancount/ledger formats)', process.env['BOA_ACCOUNTING_MAP'])
   .option('--train-ml', 'Train ML categorizer from parsed transactions', envBool('BOA_TRAIN_ML', false))
   .option('--ml', 'Use ML-based categorization (hybrid mode)', envBool('BOA_ML', false))
   .option('--model <path>', 'Path to ML model directory (for loading or saving)', process.env['BOA_MODEL_PATH'] ?? (envBool('BOA_ML', false) ? './models/categorizer' : undefined))
+  .option('--ml-engine <engine>', `ML classifier for --ml and --train-ml (${ML_ENGINES.join(', ')}); local needs no network`, process.env['BOA_ML_ENGINE'] ?? 'use')
   .option('--model-out <path>', 'Output path for trained ML model', process.env['BOA_MODEL_OUT'])
+  .option('--rules <file>', 'JSON file of categorization rules, merged with the built-in rules by priority', process.env['BOA_RULES'])
+  .option('--learned-rules <file>', 'Accepted rules learned from overrides (see the rules command)', process.env['BOA_LEARNED_RULES'] ?? DEFAULT_LEARNED_RULES_PATH)
+  .option('--no-learned-rules', 'Do not apply rules learned from overrides')
   .option('--epochs <number>', 'Number of training epochs', process.env['BOA_EPOCHS'] ?? '50')
   .option('--detect-recurring', 'Detect recurring transactions and include in output', envBool('BOA_DETECT_RECURRING', false))
   .option('--plaid', 'Enrich output with Plaid transaction data', envBool('BOA_PLAID', false))
   .option('--plaid-item-id <id>', 'Plaid item ID for enrichment', process.env['BOA_PLAID_ITEM_ID'])
   .option('--merge-strategy <strategy>', 'Merge strategy: pdf-primary, plaid-primary, union', process.env['BOA_MERGE_STRATEGY'] ?? 'pdf-primary')
-  .option('--upload', 'Upload parsed results to Supabase database', envBool('BOA_UPLOAD', false))
+  .option('--upload', 'Upload parsed results to the database (see --storage)', envBool('BOA_UPLOAD', false))
+  .option('--storage <backend>', 'Database for --upload: supabase or sqlite', process.env['BOA_STORAGE'] ?? 'supabase')
+  .option('--sqlite-path <file>', 'SQLite database file for --storage sqlite', process.env['BOA_SQLITE_PATH'] ?? DEFAULT_SQLITE_PATH)
   .option('--supabase-url <url>', 'Supabase project URL', process.env['SUPABASE_URL'])
   .option('--supabase-key <key>', 'Supabase anon or service role key', process.env['SUPABASE_ANON_KEY'])
-  .option('--user-id <id>', 'User ID for Supabase RLS (required for --upload)', process.env['BOA_USER_ID'])
+  .option('--user-id <id>', 'User ID for Supabase RLS (required for --upload to Supabase)', process.env['BOA_USER_ID'])
+  .option('--parser-config <file>', 'JSON config listing institution parser plugins to register', process.env['BOA_PARSER_CONFIG'])
+  .option('--parser-plugins <modules>', 'Comma-separated parser plugin packages or paths to register', process.env['BOA_PARSER_PLUGINS'])
   .action(async (pdfFile: string | undefined, options: {
     inputDir?: string;
     out?: string;
@@ -92,22 +170,42 @@ program
     strict: boolean;
     pretty: boolean;
     single: boolean;
+    ocr: boolean;
+    password?: string;
+    passwordFile?: string;
+    concurrency: string;
+    cache: boolean;
+    cacheDir: string;
+    recursive: boolean;
+    include?: string;
+    exclude?: string;
+    archives: boolean;
     schemaVersion?: string;
     format: string;
     splitAccounts: boolean;
+    baseCurrency?: string;
+    fxRates?: string;
+    accountingMap?: string;
     trainMl: boolean;
     ml: boolean;
     model?: string;
+    mlEngine: string;
     modelOut?: string;
+    rules?: string;
+    learnedRules: string | false;
     epochs: string;
     detectRecurring: boolean;
     plaid: boolean;
     plaidItemId?: string;
     mergeStrategy: string;
     upload: boolean;
+    storage: string;
+    sqlitePath: string;
     supabaseUrl?: string;
     supabaseKey?: string;
     userId?: string;
+    parserConfig?: string;
+    parserPlugins?: string;
   }) => {
     try {
       // ML Training mode
@@ -124,7 +222,7 @@ program
         // Single file mode
         await processSingleFile(pdfFile, options);
       } else {
-        console.error('[ERROR] Either a PDF file or --inputDir must be specified');
+        console.error('[ERROR] Either a statement file or --inputDir must be specified');
         process.exit(1);
       }
     } catch (error) {
@@ -288,22 +386,291 @@ interface CliOptions {
   strict: boolean;
   pretty: boolean;
   single: boolean;
+  ocr: boolean;
+  password?: string;
+  passwordFile?: string;
+  concurrency: string;
+  cache: boolean;
+  cacheDir: string;
+  recursive: boolean;
+  include?: string;
+  exclude?: string;
+  archives: boolean;
   schemaVersion?: string;
   format: string;
   splitAccounts: boolean;
+  baseCurrency?: string;
+  fxRates?: string;
+  accountingMap?: string;
   trainMl: boolean;
   ml: boolean;
   model?: string;
+  mlEngine: string;
   modelOut?: string;
+  rules?: string;
+  learnedRules: string | false;
   epochs: string;
   detectRecurring: boolean;
   plaid: boolean;
   plaidItemId?: string;
   mergeStrategy: string;
   upload: boolean;
+  storage: string;
+  sqlitePath: string;
   supabaseUrl?: string;
   supabaseKey?: string;
   userId?: string;
+  parserConfig?: string;
+  parserPlugins?: string;
+}
+
+/**
+ * Build the institution parser registry: built-in parsers plus any plugins
+ * from --parser-config / --parser-plugins. Each call gets a fresh registry, so
+ * plugins never end up in the shared default registry.
+ */
+async function buildParserRegistry(
+  options: { parserConfig?: string | undefined; parserPlugins?: string | undefined; verbose?: boolean | undefined }
+): Promise<ParserRegistry> {
+  const registry = createParserRegistry();
+
+  if (options.parserConfig !== undefined && options.parserConfig !== '') {
+    const loaded = await loadParserConfig(registry, options.parserConfig);
+    if (options.verbose === true) {
+      console.error(`[INFO] Loaded ${loaded.length} parser plugin(s) from ${resolve(options.parserConfig)}`);
+    }
+  }
+
+  if (options.parserPlugins !== undefined && options.parserPlugins !== '') {
+    const specifiers = options.parserPlugins.split(',').map((s) => s.trim()).filter((s) => s !== '');
+    const loaded = await loadParserPlugins(registry, specifiers);
+    if (options.verbose === true) {
+      console.error(`[INFO] Loaded parser plugin(s): ${loaded.map((p) => p.id).join(', ')}`);
+    }
+  }
+
+  if (options.verbose === true) {
+    console.error(`[INFO] Institution parsers: ${registry.list().map((p) => p.id).join(', ')}`);
+  }
+
+  return registry;
+}
+
+/**
+ * Read a password from the terminal without echoing it.
+ */
+function readHiddenInput(prompt: string): Promise<string> {
+  return new Promise((resolveInput) => {
+    const stdin = process.stdin;
+    let value = '';
+
+    const finish = (): void => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write('\n');
+      resolveInput(value);
+    };
+    const onData = (chunk: string): void => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n' || char === '\u0004') {
+          finish();
+          return;
+        }
+        if (char === '\u0003') {
+          finish();
+          process.exit(130);
+        }
+        value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+      }
+    };
+
+    process.stderr.write(prompt);
+    stdin.setRawMode(true);
+    stdin.setEncoding('utf8');
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
+
+/**
+ * Ask for the password of an encrypted PDF when running in a terminal.
+ * Returns null (skip the file) when not interactive or the answer is empty.
+ */
+async function promptPdfPassword(fileName: string, reason: PdfPasswordReason): Promise<string | null> {
+  if (process.stdin.isTTY !== true || process.stderr.isTTY !== true) {
+    return null;
+  }
+  const prefix = reason === 'incorrect' ? 'Incorrect password. ' : '';
+  const password = await readHiddenInput(`${prefix}Password for ${fileName} (Enter to skip): `);
+  return password !== '' ? password : null;
+}
+
+/**
+ * Parse --concurrency: a whole number of files to process in parallel.
+ */
+function parseConcurrency(value: string | undefined): number {
+  if (value === undefined || value === '') return 1;
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency: ${value}. Use a whole number of 1 or more.`);
+  }
+  return concurrency;
+}
+
+/**
+ * Parse cache for --cache / --cache-dir (undefined with --no-cache).
+ */
+function resolveParseCache(options: { cache: boolean; cacheDir: string }): ParseCache | undefined {
+  return options.cache ? new ParseCache(options.cacheDir) : undefined;
+}
+
+/**
+ * Directory scan options from --recursive / --include / --exclude / --archives.
+ */
+function resolveScanOptions(
+  options: { recursive: boolean; include?: string | undefined; exclude?: string | undefined; archives: boolean }
+): ScanOptions {
+  const globs = (value: string | undefined): string[] =>
+    (value ?? '').split(',').map((g) => g.trim()).filter((g) => g !== '');
+  return {
+    recursive: options.recursive,
+    include: globs(options.include),
+    exclude: globs(options.exclude),
+    archives: options.archives,
+  };
+}
+
+/**
+ * Build encrypted-PDF options from --password / --password-file.
+ */
+async function resolvePasswordOptions(
+  options: { password?: string | undefined; passwordFile?: string | undefined }
+): Promise<{ passwordMap: Record<string, string>; passwords: string[] }> {
+  const passwords: string[] = [];
+  let passwordMap: Record<string, string> = {};
+
+  if (options.password !== undefined && options.password !== '') {
+    passwords.push(options.password);
+  }
+  if (options.passwordFile !== undefined && options.passwordFile !== '') {
+    const config = await loadPdfPasswordConfig(options.passwordFile);
+    passwordMap = config.files;
+    passwords.push(...config.passwords);
+  }
+
+  return { passwordMap, passwords };
+}
+
+/**
+ * Validate the ML classifier engine (--ml-engine / BOA_ML_ENGINE).
+ */
+function resolveMLEngine(value: string, flag: string): MLEngine {
+  if (!isMLEngine(value)) {
+    throw new Error(`Invalid ${flag}: ${value}. Use ${ML_ENGINES.join(' or ')}.`);
+  }
+  return value;
+}
+
+/**
+ * Load the --rules file and the accepted learned rules (--learned-rules).
+ * A --rules entry wins over a learned rule with the same id.
+ */
+async function resolveCategoryRules(options: {
+  rules?: string | undefined;
+  learnedRules?: string | false | undefined;
+}): Promise<CategoryRuleV2[]> {
+  const rules = options.rules !== undefined && options.rules !== '' ? await loadCategoryRules(options.rules) : [];
+  if (options.learnedRules === undefined || options.learnedRules === false || options.learnedRules === '') {
+    return rules;
+  }
+
+  const ids = new Set(rules.map((r) => r.id));
+  const learned = (await loadLearnedRules(options.learnedRules)).filter((r) => !ids.has(r.id));
+  return [...rules, ...learned];
+}
+
+/**
+ * Re-categorize parsed transactions with the --rules file and learned rules.
+ */
+function applyUserRules(statements: ParsedStatement[], rules: CategoryRuleV2[]): void {
+  if (rules.length === 0) return;
+  const matched = applyCategoryRules(statements, rules, {
+    channelOf: (description, statement) => extractInstitutionChannel(description, statement.account.institutionId).type,
+  });
+  console.error(`[INFO] User rules: ${matched} transaction(s) matched ${rules.length} user rule(s)`);
+}
+
+/**
+ * Build multi-currency analytics options from --base-currency / --fx-rates.
+ */
+async function resolveAnalyticsOptions(options: CliOptions): Promise<AnalyticsOptions> {
+  const analyticsOptions: AnalyticsOptions = {};
+
+  if (options.baseCurrency !== undefined && options.baseCurrency !== '') {
+    analyticsOptions.baseCurrency = normalizeCurrencyCode(options.baseCurrency);
+  }
+
+  if (options.fxRates !== undefined && options.fxRates !== '') {
+    const fxPath = resolve(options.fxRates);
+    analyticsOptions.fxRates = parseFxRateTable(JSON.parse(await readFile(fxPath, 'utf-8')) as unknown);
+    if (options.verbose) {
+      console.error(`[INFO] Loaded ${Object.keys(analyticsOptions.fxRates).length} FX rate(s) from ${fxPath}`);
+    }
+  }
+
+  return analyticsOptions;
+}
+
+/**
+ * Warn about currencies left out of the v2 rollup for lack of an FX rate.
+ */
+function warnUnconvertedCurrencies(output: FinalResultV1 | FinalResultV2): void {
+  if (output.schemaVersion !== 'v2') return;
+  const { currency, unconvertedCurrencies } = output.analytics;
+  if (currency === undefined || unconvertedCurrencies === undefined) return;
+  console.error(`[WARN] No FX rate for ${unconvertedCurrencies.join(', ')}: left out of the ${currency} totals (see --fx-rates)`);
+}
+
+/**
+ * Load the --accounting-map file used by the beancount and ledger exporters.
+ */
+async function resolveAccountingMapping(options: CliOptions): Promise<AccountingMapping> {
+  if (options.accountingMap === undefined || options.accountingMap === '') {
+    return {};
+  }
+  const mapPath = resolve(options.accountingMap);
+  const mapping = parseAccountingMapping(JSON.parse(await readFile(mapPath, 'utf-8')) as unknown);
+  if (options.verbose) {
+    console.error(`[INFO] Loaded accounting mapping from ${mapPath}`);
+  }
+  return mapping;
+}
+
+/**
+ * Build the v2 output for Parquet/Arrow export. --detect-recurring and
+ * --plaid fill the recurring and Plaid match columns.
+ */
+async function prepareColumnarExport(
+  canonical: CanonicalOutput,
+  analyticsOptions: AnalyticsOptions,
+  options: CliOptions
+): Promise<{ v2Output: FinalResultV2; columnarOptions: ColumnarExportOptions }> {
+  let v2Output = toFinalResultV2(canonical, analyticsOptions);
+  const columnarOptions: ColumnarExportOptions = {};
+
+  if (options.detectRecurring) {
+    columnarOptions.recurring = detectRecurringFromStatements(canonical.statements);
+    if (options.verbose) {
+      console.error(`[INFO] Found ${columnarOptions.recurring.summary.totalPatterns} recurring pattern(s)`);
+    }
+  }
+
+  if (options.plaid) {
+    v2Output = await enrichOutputWithPlaid(v2Output, canonical, options) as FinalResultV2;
+  }
+
+  return { v2Output, columnarOptions };
 }
 
 /**
@@ -314,6 +681,8 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
   
   // Resolve schema version with precedence: CLI > env > config > default
   const schemaVersion = resolveSchemaVersion({ cliVersion: options.schemaVersion });
+  const analyticsOptions = await resolveAnalyticsOptions(options);
+  const concurrency = parseConcurrency(options.concurrency);
 
   if (options.verbose) {
     console.error(`[INFO] Batch mode: scanning directory`);
@@ -321,6 +690,10 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
     console.error(`[INFO] Parser version: ${PARSER_VERSION}`);
     console.error(`[INFO] Schema version: ${schemaVersion}`);
     console.error(`[INFO] Strict mode: ${options.strict ? 'enabled' : 'disabled'}`);
+    if (concurrency > 1) {
+      console.error(`[INFO] Worker threads: ${concurrency}`);
+    }
+    console.error(`[INFO] Parse cache: ${options.cache ? options.cacheDir : 'disabled'}`);
   }
   
   // Validate directory
@@ -330,11 +703,11 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
     process.exit(1);
   }
   
-  // Scan for PDFs
-  const scanResult = await scanDirectoryForPdfs(dirPath);
+  // Scan for PDFs and OFX/QFX/CSV downloads
+  const scanResult = await scanDirectoryForStatementFiles(dirPath, resolveScanOptions(options));
   
   if (scanResult.files.length === 0) {
-    console.error('[ERROR] No PDF files found in directory');
+    console.error('[ERROR] No statement files (PDF, OFX, QFX, CSV) found in directory');
     if (scanResult.skipped.length > 0) {
       console.error('[INFO] Skipped files:');
       for (const skip of scanResult.skipped) {
@@ -345,47 +718,69 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
   }
   
   if (options.verbose) {
-    console.error(`[INFO] Found ${scanResult.files.length} PDF file(s)`);
+    console.error(`[INFO] Found ${scanResult.files.length} statement file(s)`);
     if (scanResult.skipped.length > 0) {
       console.error(`[INFO] Skipped ${scanResult.skipped.length} file(s)`);
     }
     if (options.ml) {
       console.error(`[INFO] ML categorization: enabled`);
-      console.error(`[INFO] Model path: ${options.model ?? './models/categorizer'}`);
+      console.error(`[INFO] Model path: ${options.model ?? './models/categorizer'} (${options.mlEngine})`);
     }
   }
   
-  // Process all PDFs
+  const registry = await buildParserRegistry(options);
+  const cache = resolveParseCache(options);
+  const userRules = await resolveCategoryRules(options);
+
+  // Process all statement files
   const result = await processBatch(scanResult.files, {
     strict: options.strict,
     verbose: options.verbose,
+    ocr: options.ocr,
+    registry,
+    concurrency,
+    ...(cache !== undefined ? { cache } : {}),
+    ...(await resolvePasswordOptions(options)),
+    onPassword: promptPdfPassword,
     onProgress: (current, total, filename) => {
       console.error(`[INFO] Parsing ${current}/${total}: ${filename}`);
     },
     onError: (error: ParseError) => {
       console.error(`[ERROR] Failed to parse ${error.filename}: ${error.error}`);
     },
+    onEncrypted: (error: ParseError) => {
+      console.error(`[WARN] Skipped encrypted ${error.filename}: ${error.error}`);
+    },
   });
   
   // Print summary
   console.error('');
   console.error('=== Batch Processing Summary ===');
-  console.error(`Total PDFs found:       ${result.summary.totalPdfsFound}`);
-  console.error(`PDFs succeeded:         ${result.summary.pdfsSucceeded}`);
-  console.error(`PDFs failed:            ${result.summary.pdfsFailed}`);
+  console.error(`Total files found:      ${result.summary.totalPdfsFound}`);
+  console.error(`Files succeeded:        ${result.summary.pdfsSucceeded}`);
+  console.error(`Files failed:           ${result.summary.pdfsFailed}`);
+  console.error(`Files encrypted:        ${result.summary.pdfsEncrypted}`);
+  if (cache !== undefined) {
+    console.error(`Parse cache hits:       ${result.summary.cacheHits}`);
+  }
   console.error(`Statements before dedup: ${result.summary.statementsBeforeDedup}`);
   console.error(`Statements kept:        ${result.totalStatements}`);
   console.error(`Statements deduped:     ${result.summary.duplicateStatementsRemoved}`);
   console.error(`Transactions merged:    ${result.totalTransactions}`);
   console.error(`Transactions deduped:   ${result.summary.duplicateTransactionsRemoved}`);
+  for (const [parserId, count] of Object.entries(result.summary.pdfsByParser)) {
+    console.error(`Parsed by ${parserId}:`.padEnd(24) + `${count}`);
+  }
   console.error('================================');
 
+  applyUserRules(result.statements, userRules);
+
   // Apply ML categorization if enabled
   if (options.ml) {
     const modelPath = resolve(options.model ?? './models/categorizer');
     console.error(`[INFO] Loading ML model from: ${modelPath}`);
     
-    const categorizer = new HybridCategorizer();
+    const categorizer = new HybridCategorizer({ rules: userRules, engine: resolveMLEngine(options.mlEngine, '--ml-engine') });
     await categorizer.initialize();
     await categorizer.loadMLModel(modelPath);
     
@@ -396,7 +791,7 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
     
     for (const stmt of result.statements) {
       for (const tx of stmt.transactions) {
-        const mlResult = await categorizer.categorizeAsync(tx.description);
+        const mlResult = await categorizer.categorizeAsync(tx.description, undefined, transactionContext(stmt, tx));
         
         // Update if ML provides better categorization
         if (mlResult.source === 'ml' || mlResult.source === 'hybrid') {
@@ -425,11 +820,14 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
     statements: result.statements,
     totalStatements: result.totalStatements,
     totalTransactions: result.totalTransactions,
-    ...(result.parseErrors.length > 0 ? { parseErrors: result.parseErrors } : {}),
+    ...(result.parseErrors.length + result.encryptedFiles.length > 0
+      ? { parseErrors: [...result.parseErrors, ...result.encryptedFiles] }
+      : {}),
   };
 
   // Convert to target schema version
-  const output = toFinalResult(canonical, schemaVersion);
+  const output = toFinalResult(canonical, schemaVersion, analyticsOptions);
+  warnUnconvertedCurrencies(output);
 
   // Validate output against schema (always validate in strict mode)
   if (options.strict) {
@@ -446,7 +844,7 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
   
   if (format === 'ofx') {
     // OFX requires v2 format
-    const v2Output = toFinalResultV2(canonical);
+    const v2Output = toFinalResultV2(canonical, analyticsOptions);
     
     if (options.splitAccounts) {
       // Split into separate files per account
@@ -482,7 +880,7 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
     }
   } else if (format === 'csv') {
     // CSV requires v2 format
-    const v2Output = toFinalResultV2(canonical);
+    const v2Output = toFinalResultV2(canonical, analyticsOptions);
     
     if (options.splitAccounts) {
       // Split into separate files per account
@@ -516,6 +914,98 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
         console.log(outputContent);
       }
     }
+  } else if (format === 'qif') {
+    // QIF requires v2 format
+    const v2Output = toFinalResultV2(canonical, analyticsOptions);
+    
+    if (options.splitAccounts) {
+      // Split into separate files per account
+      const splitResults = exportQifByAccount(v2Output);
+      
+      if (options.verbose) {
+        console.error(`[INFO] Splitting QIF into ${splitResults.length} account file(s)`);
+      }
+      
+      // Determine output directory (use --out as directory or current dir)
+      const outDir = options.out !== undefined ? resolve(options.out) : process.cwd();
+      
+      for (const result of splitResults) {
+        const filePath = resolve(outDir, result.filename);
+        await writeFile(filePath, result.content, 'utf-8');
+        console.error(`[INFO] Written: ${filePath} (${result.accountType} ****${result.accountLast4})`);
+      }
+    } else {
+      // Single combined QIF file
+      const outputContent = exportQif(v2Output);
+      if (options.verbose) {
+        console.error(`[INFO] Generated QIF with ${v2Output.accounts.length} account(s)`);
+      }
+      
+      if (options.out !== undefined) {
+        const outPath = resolve(options.out);
+        await writeFile(outPath, outputContent, 'utf-8');
+        console.error(`[INFO] Output written to: ${outPath}`);
+      } else {
+        // eslint-disable-next-line no-console
+        console.log(outputContent);
+      }
+    }
+  } else if (format === 'beancount' || format === 'ledger') {
+    // Plain-text accounting journals require v2 format; always a single journal
+    const v2Output = toFinalResultV2(canonical, analyticsOptions);
+    const mapping = await resolveAccountingMapping(options);
+    const outputContent = format === 'beancount'
+      ? exportBeancount(v2Output, { mapping })
+      : exportLedger(v2Output, { mapping });
+    if (options.verbose) {
+      console.error(`[INFO] Generated ${format} journal with ${v2Output.accounts.length} account(s)`);
+    }
+
+    if (options.out !== undefined) {
+      const outPath = resolve(options.out);
+      await writeFile(outPath, outputContent, 'utf-8');
+      console.error(`[INFO] Output written to: ${outPath}`);
+    } else {
+      // eslint-disable-next-line no-console
+      console.log(outputContent);
+    }
+  } else if (format === 'parquet' || format === 'arrow') {
+    // Columnar files require v2 format
+    const { v2Output, columnarOptions } = await prepareColumnarExport(canonical, analyticsOptions, options);
+
+    if (options.splitAccounts) {
+      // Split into separate files per account
+      const splitResults = exportColumnarByAccount(v2Output, format, columnarOptions);
+
+      if (options.verbose) {
+        console.error(`[INFO] Splitting ${format} output into ${splitResults.length} account file(s)`);
+      }
+
+      // Determine output directory (use --out as directory or current dir)
+      const outDir = options.out !== undefined ? resolve(options.out) : process.cwd();
+
+      for (const result of splitResults) {
+        const filePath = resolve(outDir, result.filename);
+        await writeFile(filePath, result.content);
+        console.error(`[INFO] Written: ${filePath} (${result.accountType} ****${result.accountLast4})`);
+      }
+    } else {
+      // Single combined file
+      const outputContent = format === 'parquet'
+        ? exportParquet(v2Output, columnarOptions)
+        : exportArrow(v2Output, columnarOptions);
+      if (options.verbose) {
+        console.error(`[INFO] Generated ${format} file with ${v2Output.totalTransactions} transaction(s)`);
+      }
+
+      if (options.out !== undefined) {
+        const outPath = resolve(options.out);
+        await writeFile(outPath, outputContent);
+        console.error(`[INFO] Output written to: ${outPath}`);
+      } else {
+        process.stdout.write(outputContent);
+      }
+    }
   } else {
     // Default JSON output
     let finalOutput: unknown = output;
@@ -561,9 +1051,9 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
     }
   }
   
-  // Upload to Supabase if requested
+  // Upload to the database if requested
   if (options.upload) {
-    await uploadToSupabase(canonical, schemaVersion, options);
+    await uploadParsedResults(canonical, schemaVersion, options);
   }
   
   // Exit with error if ALL PDFs failed
@@ -574,6 +1064,91 @@ async function processDirectory(inputDir: string, options: CliOptions): Promise<
   process.exit(0);
 }
 
+/**
+ * Upload parsed results to the backend selected by --storage.
+ */
+async function uploadParsedResults(
+  canonical: CanonicalOutput,
+  schemaVersion: string,
+  options: CliOptions
+): Promise<void> {
+  if (!isStorageBackend(options.storage)) {
+    console.error(`[ERROR] Invalid --storage: ${options.storage}. Use supabase or sqlite.`);
+    process.exit(1);
+  }
+
+  if (options.storage === 'sqlite') {
+    await uploadToSqlite(canonical, schemaVersion, options);
+  } else {
+    await uploadToSupabase(canonical, schemaVersion, options);
+  }
+}
+
+/**
+ * Print the counters returned by importV2Result.
+ */
+function printUploadSummary(title: string, importResult: ImportV2ResultOutput): void {
+  console.error('');
+  console.error(`=== ${title} Upload Summary ===`);
+  console.error(`Accounts created:       ${importResult.accountsCreated}`);
+  console.error(`Accounts existing:      ${importResult.accountsExisting}`);
+  console.error(`Statements created:     ${importResult.statementsCreated}`);
+  console.error(`Statements updated:     ${importResult.statementsUpdated}`);
+  console.error(`Transactions inserted:  ${importResult.transactionsInserted}`);
+  console.error(`Transactions skipped:   ${importResult.transactionsSkipped}`);
+  console.error('='.repeat(title.length + 22));
+}
+
+/**
+ * Upload parsed results to a local SQLite database.
+ */
+async function uploadToSqlite(
+  canonical: CanonicalOutput,
+  schemaVersion: string,
+  options: CliOptions
+): Promise<void> {
+  const { openSqliteStorage } = await import('@findata/store');
+  const userId = options.userId !== undefined && options.userId !== '' ? options.userId : LOCAL_USER_ID;
+
+  if (options.verbose) {
+    console.error(`[INFO] Uploading to SQLite: ${resolve(options.sqlitePath)}`);
+  }
+
+  try {
+    const storage = openSqliteStorage(options.sqlitePath, userId);
+    try {
+      const v2Output = toFinalResultV2(canonical, await resolveAnalyticsOptions(options));
+
+      const parseRunResult = await storage.importParseRun({
+        schemaVersion,
+        status: 'success',
+        warnings: canonical.statements.flatMap((s) => s.metadata.warnings),
+        outputSnapshot: v2Output,
+      });
+
+      if (options.verbose) {
+        console.error(`[INFO] Created parse run: ${parseRunResult.parseRunId}`);
+      }
+
+      const importResult = await storage.importV2Result({
+        result: v2Output,
+        parseRunId: parseRunResult.parseRunId,
+      });
+
+      printUploadSummary('SQLite', importResult);
+    } finally {
+      await storage.close();
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[ERROR] SQLite upload failed: ${message}`);
+    if (options.verbose && error instanceof Error && error.stack !== undefined) {
+      console.error(error.stack);
+    }
+    process.exit(1);
+  }
+}
+
 /**
  * Upload parsed results to Supabase.
  */
@@ -629,7 +1204,7 @@ async function uploadToSupabase(
     }
 
     // Convert to v2 format for import
-    const v2Output = toFinalResultV2(canonical);
+    const v2Output = toFinalResultV2(canonical, await resolveAnalyticsOptions(options));
 
     // Create parse run record
     const parseRunResult = await importParseRun(client, options.userId, {
@@ -649,15 +1224,7 @@ async function uploadToSupabase(
       parseRunId: parseRunResult.parseRunId,
     });
 
-    console.error('');
-    console.error('=== Supabase Upload Summary ===');
-    console.error(`Accounts created:       ${importResult.accountsCreated}`);
-    console.error(`Accounts existing:      ${importResult.accountsExisting}`);
-    console.error(`Statements created:     ${importResult.statementsCreated}`);
-    console.error(`Statements updated:     ${importResult.statementsUpdated}`);
-    console.error(`Transactions inserted:  ${importResult.transactionsInserted}`);
-    console.error(`Transactions skipped:   ${importResult.transactionsSkipped}`);
-    console.error('===============================');
+    printUploadSummary('Supabase', importResult);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.error(`[ERROR] Supabase upload failed: ${message}`);
@@ -740,7 +1307,7 @@ async function enrichOutputWithPlaid(
   const accounts = await getAccounts(item.accessToken);
 
   // Convert to v2 format for enrichment
-  const v2Output = toFinalResultV2(canonical);
+  const v2Output = toFinalResultV2(canonical, await resolveAnalyticsOptions(options));
 
   // Enrich with Plaid data
   const mergeStrategy = options.mergeStrategy as MergeStrategy;
@@ -789,6 +1356,7 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
 
   // Resolve schema version with precedence: CLI > env > config > default
   const schemaVersion = resolveSchemaVersion({ cliVersion: options.schemaVersion });
+  const analyticsOptions = await resolveAnalyticsOptions(options);
 
   if (options.verbose) {
     console.error(`[INFO] Parsing: ${filePath}`);
@@ -798,22 +1366,52 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
     console.error(`[INFO] Multi-statement mode: ${options.single ? 'disabled' : 'enabled'}`);
   }
 
-  const pdf = await extractPDF(filePath);
+  const userRules = await resolveCategoryRules(options);
 
-  if (options.verbose) {
+  const importFile = isImportFile(filePath);
+  if (importFile && options.single) {
+    console.error('[ERROR] --single only applies to PDF statements');
+    process.exit(1);
+  }
+
+  let pdf: ExtractedPDF | null = null;
+  if (!importFile) {
+    try {
+      pdf = await extractPDF(filePath, {
+        ocr: options.ocr,
+        ...(await resolvePasswordOptions(options)),
+        onPassword: (reason) => promptPdfPassword(basename(filePath), reason),
+      });
+    } catch (error) {
+      if (isPdfPasswordError(error)) {
+        console.error(`[ERROR] ${error.message}. Use --password or --password-file to open ${basename(filePath)}`);
+        process.exit(1);
+      }
+      throw error;
+    }
+  }
+
+  if (options.verbose && pdf !== null) {
     console.error(`[INFO] Extracted ${pdf.totalPages} pages`);
     console.error(`[INFO] Total text length: ${pdf.fullText.length} characters`);
+    const ocrPages = pdf.pages.filter((page) => page.ocrConfidence !== undefined);
+    if (ocrPages.length > 0) {
+      const pageList = ocrPages.map((page) => `${page.pageNumber} (${Math.round((page.ocrConfidence ?? 0) * 100)}%)`).join(', ');
+      console.error(`[INFO] Read scanned page(s) with OCR: ${pageList}`);
+    }
   }
 
   let output: unknown;
   let canonical: CanonicalOutput | null = null;
 
-  if (options.single) {
+  if (options.single && pdf !== null) {
     // Legacy single-statement mode
     const result = parseBoaStatement(pdf, {
       strict: options.strict,
       verbose: options.verbose,
     });
+    result.statement = applyOcrConfidence(result.statement, pdf);
+    applyUserRules([result.statement], userRules);
 
     if (options.verbose) {
       console.error(`[INFO] Detected account type: ${result.statement.account.accountType}`);
@@ -839,11 +1437,30 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
 
     output = result.statement;
   } else {
-    // Multi-statement mode (default)
-    const result = parseBoaMultipleStatements(pdf, {
-      strict: options.strict,
-      verbose: options.verbose,
-    });
+    // Multi-statement mode (default): pick the institution parser via the registry,
+    // or read OFX/QFX/CSV downloads with the importers
+    let statements: ParsedStatement[];
+    if (pdf === null) {
+      const imported = await importStatementFile(filePath);
+      statements = imported.statements;
+      if (options.verbose) {
+        console.error(`[INFO] Importer: ${imported.format}`);
+      }
+    } else {
+      const registry = await buildParserRegistry(options);
+      const parsed = registry.parse(pdf, {
+        strict: options.strict,
+        verbose: options.verbose,
+      });
+      statements = parsed.statements;
+      if (options.verbose) {
+        console.error(`[INFO] Institution parser: ${parsed.parser.institution} (${parsed.parser.id}, confidence ${parsed.confidence.toFixed(2)})`);
+      }
+    }
+    const result = {
+      statements,
+      totalTransactions: statements.reduce((sum, s) => sum + s.transactions.length, 0),
+    };
 
     if (options.verbose) {
       console.error(`[INFO] Found ${result.statements.length} statement(s)`);
@@ -877,12 +1494,14 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
       }
     }
 
+    applyUserRules(result.statements, userRules);
+
     // Apply ML categorization if enabled
     if (options.ml) {
       const modelPath = resolve(options.model ?? './models/categorizer');
       console.error(`[INFO] Loading ML model from: ${modelPath}`);
       
-      const categorizer = new HybridCategorizer();
+      const categorizer = new HybridCategorizer({ rules: userRules, engine: resolveMLEngine(options.mlEngine, '--ml-engine') });
       await categorizer.initialize();
       await categorizer.loadMLModel(modelPath);
       
@@ -893,7 +1512,7 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
       
       for (const stmt of result.statements) {
         for (const tx of stmt.transactions) {
-          const mlResult = await categorizer.categorizeAsync(tx.description);
+          const mlResult = await categorizer.categorizeAsync(tx.description, undefined, transactionContext(stmt, tx));
           
           // Update if ML provides better categorization
           if (mlResult.source === 'ml' || mlResult.source === 'hybrid') {
@@ -925,7 +1544,9 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
     };
 
     // Convert to target schema version
-    output = toFinalResult(canonical, schemaVersion);
+    const finalResult = toFinalResult(canonical, schemaVersion, analyticsOptions);
+    warnUnconvertedCurrencies(finalResult);
+    output = finalResult;
 
     // Validate output against schema (always validate in strict mode)
     if (options.strict) {
@@ -940,7 +1561,7 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
 
   // Generate output based on format
   const format = options.format.toLowerCase() as OutputFormat;
-  let outputContent: string;
+  let outputContent: string | Uint8Array;
   
   if (format === 'ofx') {
     // OFX requires v2 format - build canonical if in single mode
@@ -948,7 +1569,7 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
       console.error('[ERROR] OFX format requires multi-statement mode. Remove --single flag.');
       process.exit(1);
     }
-    const v2Output = toFinalResultV2(canonical);
+    const v2Output = toFinalResultV2(canonical, analyticsOptions);
     outputContent = exportOfx(v2Output);
     if (options.verbose) {
       console.error(`[INFO] Generated OFX with ${v2Output.accounts.length} account(s)`);
@@ -959,17 +1580,55 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
       console.error('[ERROR] CSV format requires multi-statement mode. Remove --single flag.');
       process.exit(1);
     }
-    const v2Output = toFinalResultV2(canonical);
+    const v2Output = toFinalResultV2(canonical, analyticsOptions);
     outputContent = exportCsv(v2Output);
     if (options.verbose) {
       console.error(`[INFO] Generated CSV with ${v2Output.totalTransactions} transaction(s)`);
     }
-  } else {
-    // Default JSON output
-    let finalOutput: unknown = output;
-    
-    // Add recurring detection if enabled (only for multi-statement mode)
-    if (options.detectRecurring && !options.single && canonical !== null) {
+  } else if (format === 'qif') {
+    // QIF requires v2 format - build canonical if in single mode
+    if (options.single || canonical === null) {
+      console.error('[ERROR] QIF format requires multi-statement mode. Remove --single flag.');
+      process.exit(1);
+    }
+    const v2Output = toFinalResultV2(canonical, analyticsOptions);
+    outputContent = exportQif(v2Output);
+    if (options.verbose) {
+      console.error(`[INFO] Generated QIF with ${v2Output.accounts.length} account(s)`);
+    }
+  } else if (format === 'beancount' || format === 'ledger') {
+    // Plain-text accounting journals require v2 format - build canonical if in single mode
+    if (options.single || canonical === null) {
+      console.error(`[ERROR] ${format} format requires multi-statement mode. Remove --single flag.`);
+      process.exit(1);
+    }
+    const v2Output = toFinalResultV2(canonical, analyticsOptions);
+    const mapping = await resolveAccountingMapping(options);
+    outputContent = format === 'beancount'
+      ? exportBeancount(v2Output, { mapping })
+      : exportLedger(v2Output, { mapping });
+    if (options.verbose) {
+      console.error(`[INFO] Generated ${format} journal with ${v2Output.accounts.length} account(s)`);
+    }
+  } else if (format === 'parquet' || format === 'arrow') {
+    // Columnar files require v2 format - build canonical if in single mode
+    if (options.single || canonical === null) {
+      console.error(`[ERROR] ${format} format requires multi-statement mode. Remove --single flag.`);
+      process.exit(1);
+    }
+    const { v2Output, columnarOptions } = await prepareColumnarExport(canonical, analyticsOptions, options);
+    outputContent = format === 'parquet'
+      ? exportParquet(v2Output, columnarOptions)
+      : exportArrow(v2Output, columnarOptions);
+    if (options.verbose) {
+      console.error(`[INFO] Generated ${format} file with ${v2Output.totalTransactions} transaction(s)`);
+    }
+  } else {
+    // Default JSON output
+    let finalOutput: unknown = output;
+    
+    // Add recurring detection if enabled (only for multi-statement mode)
+    if (options.detectRecurring && !options.single && canonical !== null) {
       if (options.verbose) {
         console.error('[INFO] Detecting recurring transactions...');
       }
@@ -1004,18 +1663,24 @@ async function processSingleFile(pdfFile: string, options: CliOptions): Promise<
 
   if (options.out !== undefined) {
     const outPath = resolve(options.out);
-    await writeFile(outPath, outputContent, 'utf-8');
+    if (typeof outputContent === 'string') {
+      await writeFile(outPath, outputContent, 'utf-8');
+    } else {
+      await writeFile(outPath, outputContent);
+    }
     if (options.verbose) {
       console.error(`[INFO] Output written to: ${outPath}`);
     }
-  } else {
+  } else if (typeof outputContent === 'string') {
     // eslint-disable-next-line no-console
     console.log(outputContent);
+  } else {
+    process.stdout.write(outputContent);
   }
 
-  // Upload to Supabase if requested (only for multi-statement mode)
+  // Upload to the database if requested (only for multi-statement mode)
   if (options.upload && !options.single && canonical !== null) {
-    await uploadToSupabase(canonical, schemaVersion, options);
+    await uploadParsedResults(canonical, schemaVersion, options);
   } else if (options.upload && options.single) {
     console.error('[WARN] --upload requires multi-statement mode. Remove --single flag to enable upload.');
   }
@@ -1051,7 +1716,7 @@ async function trainMLModel(options: CliOptions): Promise<void> {
       process.exit(1);
     }
 
-    const scanResult = await scanDirectoryForPdfs(dirPath);
+    const scanResult = await scanDirectoryForPdfs(dirPath, resolveScanOptions(options));
     if (scanResult.files.length === 0) {
       console.error('[ERROR] No PDF files found in directory');
       process.exit(1);
@@ -1063,6 +1728,12 @@ async function trainMLModel(options: CliOptions): Promise<void> {
     const result = await processBatch(scanResult.files, {
       strict: options.strict,
       verbose: options.verbose,
+      ocr: options.ocr,
+      registry: await buildParserRegistry(options),
+      concurrency: parseConcurrency(options.concurrency),
+      ...(options.cache ? { cache: new ParseCache(options.cacheDir) } : {}),
+      ...(await resolvePasswordOptions(options)),
+      onPassword: promptPdfPassword,
       onProgress: (current, total, filename) => {
         console.error(`[INFO] Parsing ${current}/${total}: ${filename}`);
       },
@@ -1108,14 +1779,23 @@ async function trainMLModel(options: CliOptions): Promise<void> {
   }
 
   // Initialize and train the ML categorizer
-  console.error('[INFO] Initializing ML categorizer...');
-  const categorizer = new HybridCategorizer();
+  const engine = resolveMLEngine(options.mlEngine, '--ml-engine');
+  console.error(`[INFO] Initializing ML categorizer (${engine})...`);
+  const categorizer = new HybridCategorizer({ engine });
   await categorizer.initialize();
 
   console.error('[INFO] Training ML model...');
   console.error('[INFO] This may take a few minutes...');
   
-  await categorizer.trainML(trainingData, { epochs, batchSize: 32 });
+  await categorizer.trainML(trainingData, {
+    epochs,
+    batchSize: 32,
+    onEpoch: (epoch, loss, accuracy) => {
+      if (epoch % 10 === 0) {
+        console.error(`[INFO] Epoch ${epoch}: loss = ${loss.toFixed(4)}, accuracy = ${accuracy.toFixed(4)}`);
+      }
+    },
+  });
 
   console.error('[INFO] Training complete!');
   console.error(categorizer.getMLModelSummary());
@@ -1140,6 +1820,857 @@ async function trainMLModel(options: CliOptions): Promise<void> {
 }
 
 // Init command - initialize project with required files
+program
+  .command('watch')
+  .description('Watch a folder and parse new or changed statement files as they land')
+  .option('-d, --inputDir <directory>', 'Folder of statement files (PDF, OFX, QFX, CSV) to watch', process.env['BOA_INPUT_DIR'])
+  .option('-o, --out <file>', 'JSON result file that every statement in the folder is merged into after each change', process.env['BOA_OUTPUT_FILE'])
+  .option('--upload', 'Upload each batch of new or changed files to the database (see --storage)', envBool('BOA_UPLOAD', false))
+  .option('--storage <backend>', 'Database for --upload: supabase or sqlite', process.env['BOA_STORAGE'] ?? 'supabase')
+  .option('--sqlite-path <file>', 'SQLite database file for --storage sqlite', process.env['BOA_SQLITE_PATH'] ?? DEFAULT_SQLITE_PATH)
+  .option('--supabase-url <url>', 'Supabase project URL', process.env['SUPABASE_URL'])
+  .option('--supabase-key <key>', 'Supabase anon or service role key', process.env['SUPABASE_ANON_KEY'])
+  .option('--user-id <id>', 'User ID for Supabase RLS (required for --upload to Supabase)', process.env['BOA_USER_ID'])
+  .option('--status-log <file>', 'JSON Lines log with one entry per handled file (default: <inputDir>/.findata-watch.jsonl)', process.env['BOA_WATCH_STATUS_LOG'])
+  .option('--interval <ms>', 'How often to scan the folder, in milliseconds', process.env['BOA_WATCH_INTERVAL'] ?? '2000')
+  .option('--settle <ms>', 'How long a file must stay unchanged before it is parsed, in milliseconds', process.env['BOA_WATCH_SETTLE'] ?? '2000')
+  .option('--schema-version <version>', `Output schema version (${AVAILABLE_SCHEMA_VERSIONS.join(', ')})`, process.env['FINAL_RESULT_SCHEMA_VERSION'])
+  .option('--no-ocr', 'Skip OCR; scanned statements fail to parse')
+  .option('--password <password>', 'Password for encrypted PDFs (tried on every PDF)', process.env['BOA_PDF_PASSWORD'])
+  .option('--password-file <file>', 'JSON file of PDF passwords', process.env['BOA_PDF_PASSWORD_FILE'])
+  .option('--rules <file>', 'JSON file of categorization rules, merged with the built-in rules by priority', process.env['BOA_RULES'])
+  .option('--learned-rules <file>', 'Accepted rules learned from overrides (see the rules command)', process.env['BOA_LEARNED_RULES'] ?? DEFAULT_LEARNED_RULES_PATH)
+  .option('--no-learned-rules', 'Do not apply rules learned from overrides')
+  .option('--parser-config <file>', 'JSON config listing institution parser plugins to register', process.env['BOA_PARSER_CONFIG'])
+  .option('--parser-plugins <modules>', 'Comma-separated parser plugin packages or paths to register', process.env['BOA_PARSER_PLUGINS'])
+  .option('--concurrency <n>', 'Number of files to parse in parallel on worker threads', process.env['BOA_CONCURRENCY'] ?? '1')
+  .option('--cache', 'Reuse parse results for unchanged files', envBool('BOA_CACHE', true))
+  .option('--no-cache', 'Extract and parse every file again')
+  .option('--cache-dir <dir>', 'Parse cache directory', process.env['BOA_CACHE_DIR'] ?? DEFAULT_PARSE_CACHE_DIR)
+  .option('--recursive', 'Also watch subfolders of the input directory', envBool('BOA_RECURSIVE', false))
+  .option('--include <globs>', 'Comma-separated globs; only matching files are parsed', process.env['BOA_INCLUDE'])
+  .option('--exclude <globs>', 'Comma-separated globs of files to leave out', process.env['BOA_EXCLUDE'])
+  .option('--archives', 'Read statement files out of .zip archives', envBool('BOA_ARCHIVES', true))
+  .option('--no-archives', 'Ignore .zip archives')
+  .option('-s, --strict', 'Enable strict validation mode', envBool('BOA_STRICT', false))
+  .option('-v, --verbose', 'Verbose output', envBool('BOA_VERBOSE', false))
+  .action(async (options: {
+    inputDir?: string;
+    out?: string;
+    upload: boolean;
+    storage: string;
+    sqlitePath: string;
+    supabaseUrl?: string;
+    supabaseKey?: string;
+    userId?: string;
+    statusLog?: string;
+    interval: string;
+    settle: string;
+    schemaVersion?: string;
+    ocr: boolean;
+    password?: string;
+    passwordFile?: string;
+    rules?: string;
+    learnedRules: string | false;
+    parserConfig?: string;
+    parserPlugins?: string;
+    concurrency: string;
+    cache: boolean;
+    cacheDir: string;
+    recursive: boolean;
+    include?: string;
+    exclude?: string;
+    archives: boolean;
+    strict: boolean;
+    verbose: boolean;
+  }) => {
+    try {
+      if (options.inputDir === undefined || options.inputDir === '') {
+        throw new Error('--inputDir is required');
+      }
+      if ((options.out === undefined || options.out === '') && !options.upload) {
+        throw new Error('Nothing to update: pass --out <file>, --upload, or both');
+      }
+      const validation = await validateDirectory(options.inputDir);
+      if (!validation.valid) {
+        throw new Error(validation.error ?? `Cannot access directory: ${options.inputDir}`);
+      }
+
+      const inputDir = resolve(options.inputDir);
+      const schemaVersion = resolveSchemaVersion({ cliVersion: options.schemaVersion });
+      const statusLogPath = resolve(options.statusLog ?? join(inputDir, '.findata-watch.jsonl'));
+      const storage = options.upload ? await openStorage(options, '--upload') : undefined;
+      const cache = resolveParseCache(options);
+      const userRules = await resolveCategoryRules(options);
+      const outPath = options.out !== undefined && options.out !== '' ? resolve(options.out) : undefined;
+      const existingStatements = outPath !== undefined ? await readExistingResultStatements(outPath) : [];
+
+      const watcher = new FolderWatcher({
+        inputDir,
+        existingStatements,
+        pollIntervalMs: parseMilliseconds(options.interval, '--interval'),
+        settleMs: parseMilliseconds(options.settle, '--settle'),
+        statusLogPath,
+        scan: resolveScanOptions(options),
+        batch: {
+          strict: options.strict,
+          verbose: options.verbose,
+          ocr: options.ocr,
+          registry: await buildParserRegistry(options),
+          concurrency: parseConcurrency(options.concurrency),
+          ...(cache !== undefined ? { cache } : {}),
+          ...(await resolvePasswordOptions(options)),
+          onFileParsed: (_file, parsed): void => {
+            applyCategoryRules(parsed.statements, userRules, {
+              channelOf: (description, statement) => extractInstitutionChannel(description, statement.account.institutionId).type,
+            });
+          },
+        },
+        onUpdate: async (update): Promise<void> => {
+          for (const file of update.files) {
+            console.error(`[${file.status === 'parsed' || file.status === 'removed' ? 'INFO' : 'WARN'}] ${describeWatchStatus(file)}`);
+          }
+
+          if (outPath !== undefined) {
+            const output = toFinalResult({
+              statements: update.merged.statements,
+              totalStatements: update.merged.statements.length,
+              totalTransactions: update.merged.totalTransactions,
+            }, schemaVersion);
+            await writeFile(outPath, JSON.stringify(output, null, 2), 'utf-8');
+            console.error(`[INFO] ${outPath}: ${update.merged.statements.length} statement(s), ${update.merged.totalTransactions} transaction(s)`);
+          }
+
+          if (storage !== undefined && update.batch.statements.length > 0) {
+            try {
+              const v2Output = toFinalResultV2({
+                statements: update.batch.statements,
+                totalStatements: update.batch.totalStatements,
+                totalTransactions: update.batch.totalTransactions,
+              });
+              const parseRun = await storage.importParseRun({
+                schemaVersion,
+                status: 'success',
+                warnings: update.batch.statements.flatMap((s) => s.metadata.warnings),
+                outputSnapshot: v2Output,
+              });
+              const importResult = await storage.importV2Result({ result: v2Output, parseRunId: parseRun.parseRunId });
+              printUploadSummary(storage.backend === 'sqlite' ? 'SQLite' : 'Supabase', importResult);
+            } catch (error) {
+              // Keep watching; the files are uploaded again when they change
+              console.error(`[ERROR] Upload failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+        },
+        onError: (error): void => {
+          console.error(`[ERROR] ${error.message}`);
+        },
+      });
+
+      console.error(`[INFO] Watching ${inputDir} (Ctrl+C to stop)`);
+      console.error(`[INFO] Status log: ${statusLogPath}`);
+      if (existingStatements.length > 0) {
+        console.error(`[INFO] Merging into ${existingStatements.length} statement(s) already in ${outPath ?? ''}`);
+      }
+      watcher.start();
+
+      process.on('SIGINT', () => {
+        void watcher.close()
+          .then(() => storage?.close())
+          .then(() => process.exit(0));
+      });
+    } catch (error) {
+      console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Parse a millisecond option such as --interval or --settle.
+ */
+function parseMilliseconds(value: string, flag: string): number {
+  const ms = Number(value);
+  if (!Number.isInteger(ms) || ms < 0) {
+    throw new Error(`Invalid ${flag}: ${value}. Use a whole number of milliseconds.`);
+  }
+  return ms;
+}
+
+/**
+ * Statements already in a result file that `watch --out` merges into; none
+ * when the file does not exist yet.
+ */
+async function readExistingResultStatements(resultPath: string): Promise<ParsedStatement[]> {
+  let content: string;
+  try {
+    content = await readFile(resultPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  try {
+    const result = JSON.parse(content) as { accounts?: unknown; statements?: unknown };
+    if (!Array.isArray(result.accounts) && !Array.isArray(result.statements)) {
+      throw new Error('expected an "accounts" or "statements" array');
+    }
+    const statements = statementsFromFinalResult(result as unknown as FinalResultV1 | FinalResultV2);
+    statements.forEach((statement, i) => {
+      const validation = ParsedStatementSchema.safeParse(statement);
+      if (!validation.success) {
+        const issue = validation.error.issues[0];
+        throw new Error(`Statement ${i + 1}: ${issue?.path.join('.') ?? ''}: ${issue?.message ?? 'invalid'}`);
+      }
+    });
+    return statements;
+  } catch (error) {
+    throw new Error(`Invalid result file ${resultPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * One console line for a watch status log entry.
+ */
+function describeWatchStatus(file: WatchFileStatus): string {
+  switch (file.status) {
+    case 'parsed':
+      return `Parsed ${file.fileName}: ${file.statements} statement(s), ${file.transactions} transaction(s)` +
+        (file.cached === true ? ' (parse cache)' : '');
+    case 'removed':
+      return `Removed ${file.fileName} from the result`;
+    case 'encrypted':
+      return `Skipped encrypted ${file.fileName}: ${file.error ?? ''}`;
+    case 'failed':
+      return `Failed to parse ${file.fileName}: ${file.error ?? ''}`;
+  }
+}
+
+/**
+ * Open the --storage database used by `watch --upload` and `rules learn`.
+ * `purpose` names the command or flag in error messages.
+ */
+async function openStorage(options: {
+  storage: string;
+  sqlitePath: string;
+  supabaseUrl?: string;
+  supabaseKey?: string;
+  userId?: string;
+}, purpose: string): Promise<StorageAdapter> {
+  if (!isStorageBackend(options.storage)) {
+    throw new Error(`Invalid --storage: ${options.storage}. Use supabase or sqlite.`);
+  }
+
+  if (options.storage === 'sqlite') {
+    const { openSqliteStorage } = await import('@findata/store');
+    return openSqliteStorage(options.sqlitePath, options.userId !== undefined && options.userId !== '' ? options.userId : LOCAL_USER_ID);
+  }
+
+  if (options.userId === undefined || options.userId === '') {
+    throw new Error(`--user-id is required for ${purpose}`);
+  }
+  if (options.supabaseUrl === undefined || options.supabaseUrl === '' || options.supabaseKey === undefined || options.supabaseKey === '') {
+    throw new Error(`--supabase-url and --supabase-key (or SUPABASE_URL and SUPABASE_ANON_KEY) are required for ${purpose}`);
+  }
+
+  const { createSupabaseStorage } = await import('@findata/store');
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+  const client = createSupabaseClient({ url: options.supabaseUrl, anonKey: options.supabaseKey });
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+  return createSupabaseStorage(client, options.userId);
+}
+
+program
+  .command('rules')
+  .description('Learn categorization rules from human overrides')
+  .argument('<action>', 'Action: learn, list')
+  .option('--accept <ids>', 'Accept proposals: comma-separated rule ids, or "all" (for learn)')
+  .option('--min-support <n>', 'Minimum agreeing overrides for a proposal', process.env['BOA_LEARN_MIN_SUPPORT'] ?? '2')
+  .option('--min-consistency <ratio>', "Minimum share of a merchant's overrides that agree, 0-1", process.env['BOA_LEARN_MIN_CONSISTENCY'] ?? '0.8')
+  .option('--learned-rules <file>', 'File of accepted learned rules', process.env['BOA_LEARNED_RULES'] ?? DEFAULT_LEARNED_RULES_PATH)
+  .option('--overrides-file <file>', 'Learn from an overrides file written by findata review instead of the database (for learn)')
+  .option('--storage <backend>', 'Database holding the overrides: supabase or sqlite', process.env['BOA_STORAGE'] ?? 'supabase')
+  .option('--sqlite-path <file>', 'SQLite database file for --storage sqlite', process.env['BOA_SQLITE_PATH'] ?? DEFAULT_SQLITE_PATH)
+  .option('--supabase-url <url>', 'Supabase project URL', process.env['SUPABASE_URL'])
+  .option('--supabase-key <key>', 'Supabase anon or service role key', process.env['SUPABASE_ANON_KEY'])
+  .option('--user-id <id>', 'User ID for Supabase RLS', process.env['BOA_USER_ID'])
+  .action(async (action: string, options: {
+    accept?: string;
+    minSupport: string;
+    minConsistency: string;
+    learnedRules: string;
+    overridesFile?: string;
+    storage: string;
+    sqlitePath: string;
+    supabaseUrl?: string;
+    supabaseKey?: string;
+    userId?: string;
+  }) => {
+    try {
+      switch (action) {
+        case 'learn': {
+          const minSupport = Number(options.minSupport);
+          if (!Number.isInteger(minSupport) || minSupport < 1) {
+            throw new Error(`Invalid --min-support: ${options.minSupport}. Use a whole number of 1 or more.`);
+          }
+          const minConsistency = Number(options.minConsistency);
+          if (!Number.isFinite(minConsistency) || minConsistency < 0 || minConsistency > 1) {
+            throw new Error(`Invalid --min-consistency: ${options.minConsistency}. Use a number between 0 and 1.`);
+          }
+
+          let examples: OverrideExample[];
+          if (options.overridesFile !== undefined) {
+            examples = await loadOverridesSidecar(options.overridesFile);
+          } else {
+            const storage = await openStorage(options, 'rules learn');
+            try {
+              examples = await readOverrideExamples(storage);
+            } finally {
+              await storage.close();
+            }
+          }
+
+          const proposals = learnRulesFromOverrides(examples, { minSupport, minConsistency });
+          console.error(`[INFO] ${examples.length} human override(s), ${proposals.length} proposed rule(s)`);
+          for (const proposal of proposals) {
+            const label = proposal.subcategory !== null ? `${proposal.category} / ${proposal.subcategory}` : proposal.category;
+            console.error('');
+            console.error(`  ${proposal.id}`);
+            console.error(`    Merchant:    ${proposal.merchant}`);
+            console.error(`    Category:    ${label}`);
+            if (proposal.direction !== undefined) {
+              console.error(`    Direction:   ${proposal.direction}`);
+            }
+            console.error(`    Support:     ${proposal.support} of ${proposal.total} override(s) (${Math.round(proposal.consistency * 100)}% consistent)`);
+            console.error(`    Examples:    ${proposal.examples.join(' | ')}`);
+          }
+
+          if (options.accept === undefined || options.accept === '') {
+            if (proposals.length > 0) {
+              console.error('');
+              console.error('Accept with: findata rules learn --accept all  (or --accept <id,id,...>)');
+            }
+            break;
+          }
+
+          const accepted = options.accept === 'all'
+            ? proposals
+            : options.accept.split(',').map((id) => id.trim()).filter((id) => id !== '').map((id) => {
+              const proposal = proposals.find((p) => p.id === id);
+              if (proposal === undefined) {
+                throw new Error(`No proposed rule with id ${id}`);
+              }
+              return proposal;
+            });
+          const { added, updated } = await acceptLearnedRules(accepted, options.learnedRules);
+          console.error('');
+          console.error(`[INFO] Accepted ${accepted.length} rule(s) (${added} added, ${updated} updated): ${resolve(options.learnedRules)}`);
+          break;
+        }
+
+        case 'list': {
+          const rules = await loadLearnedRules(options.learnedRules);
+          if (rules.length === 0) {
+            console.error('[INFO] No learned rules accepted yet.');
+            console.error('Use: findata rules learn');
+            break;
+          }
+          console.error('');
+          console.error('=== Learned Rules ===');
+          for (const rule of rules) {
+            const label = rule.subcategory !== null ? `${rule.category} / ${rule.subcategory}` : rule.category;
+            console.error(`  ${rule.id.padEnd(32)} ${label}`);
+          }
+          console.error('');
+          console.error(`Rules file: ${resolve(options.learnedRules)}`);
+          break;
+        }
+
+        default:
+          console.error(`[ERROR] Unknown action: ${action}`);
+          console.error('Valid actions: learn, list');
+          process.exit(1);
+      }
+    } catch (error) {
+      console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Human overrides that set a category, joined with the overridden transactions.
+ */
+async function readOverrideExamples(storage: StorageAdapter): Promise<OverrideExample[]> {
+  const overrides = await storage.getOverridesBySource('human');
+  if (overrides.length === 0) {
+    return [];
+  }
+
+  const transactions = new Map((await storage.getTransactions()).map((tx) => [tx.id, tx]));
+  const examples: OverrideExample[] = [];
+  for (const override of overrides) {
+    const tx = transactions.get(override.transaction_db_id);
+    if (tx === undefined || override.category === null) continue;
+
+    const merchant = override.merchant_normalized_name ?? tx.merchant['normalizedName'] ?? tx.merchant['name'];
+    examples.push({
+      description: tx.description,
+      merchant: typeof merchant === 'string' ? merchant : null,
+      ...(tx.direction === 'debit' || tx.direction === 'credit' ? { direction: tx.direction } : {}),
+      category: override.category,
+      subcategory: override.subcategory,
+    });
+  }
+  return examples;
+}
+
+program
+  .command('ml')
+  .description('Evaluate the ML categorizer on labelled transactions')
+  .argument('<action>', 'Action: evaluate')
+  .option('--ml-engine <engine>', `ML classifier to evaluate (${ML_ENGINES.join(', ')})`, process.env['BOA_ML_ENGINE'] ?? 'use')
+  .option('--model <path>', 'Score this saved model on every example instead of training one per fold')
+  .option('--folds <k>', 'Number of folds for k-fold cross-validation', '5')
+  .option('--holdout <fraction>', 'Hold out this fraction of examples for testing instead of k-fold, 0-1')
+  .option('--epochs <number>', 'Training epochs per fold (default: the engine\'s own)', process.env['BOA_EPOCHS'])
+  .option('--seed <n>', 'Seed for the fold split', '42')
+  .option('--results <files>', 'Comma-separated parse result JSON files; categorized transactions are used as labels')
+  .option('--overrides', 'Use human overrides from --storage as labels', false)
+  .option('--synthetic <n>', 'Number of synthetic examples (0 for none)', '2000')
+  .option('--rules <file>', 'JSON file of categorization rules, merged with the built-in rules', process.env['BOA_RULES'])
+  .option('--learned-rules <file>', 'File of accepted learned rules', process.env['BOA_LEARNED_RULES'] ?? DEFAULT_LEARNED_RULES_PATH)
+  .option('--no-learned-rules', 'Do not apply rules learned from overrides')
+  .option('-o, --out <file>', 'JSON report file', process.env['BOA_ML_REPORT'] ?? 'ml-evaluation.json')
+  .option('--storage <backend>', 'Database holding the overrides: supabase or sqlite', process.env['BOA_STORAGE'] ?? 'supabase')
+  .option('--sqlite-path <file>', 'SQLite database file for --storage sqlite', process.env['BOA_SQLITE_PATH'] ?? DEFAULT_SQLITE_PATH)
+  .option('--supabase-url <url>', 'Supabase project URL', process.env['SUPABASE_URL'])
+  .option('--supabase-key <key>', 'Supabase anon or service role key', process.env['SUPABASE_ANON_KEY'])
+  .option('--user-id <id>', 'User ID for Supabase RLS', process.env['BOA_USER_ID'])
+  .action(async (action: string, options: {
+    mlEngine: string;
+    model?: string;
+    folds: string;
+    holdout?: string;
+    epochs?: string;
+    seed: string;
+    results?: string;
+    overrides: boolean;
+    synthetic: string;
+    rules?: string;
+    learnedRules: string | false;
+    out: string;
+    storage: string;
+    sqlitePath: string;
+    supabaseUrl?: string;
+    supabaseKey?: string;
+    userId?: string;
+  }) => {
+    try {
+      if (action !== 'evaluate') {
+        console.error(`[ERROR] Unknown action: ${action}`);
+        console.error('Valid actions: evaluate');
+        process.exit(1);
+      }
+
+      const engine = resolveMLEngine(options.mlEngine, '--ml-engine');
+      const folds = Number(options.folds);
+      if (!Number.isInteger(folds) || folds < 2) {
+        throw new Error(`Invalid --folds: ${options.folds}. Use a whole number of 2 or more.`);
+      }
+      const holdout = options.holdout !== undefined ? Number(options.holdout) : undefined;
+      if (holdout !== undefined && !(holdout > 0 && holdout < 1)) {
+        throw new Error(`Invalid --holdout: ${options.holdout}. Use a fraction between 0 and 1.`);
+      }
+      const epochs = options.epochs !== undefined && options.epochs !== '' ? Number(options.epochs) : undefined;
+      if (epochs !== undefined && (!Number.isInteger(epochs) || epochs < 1)) {
+        throw new Error(`Invalid --epochs: ${options.epochs}. Use a whole number of 1 or more.`);
+      }
+      const seed = Number(options.seed);
+      if (!Number.isInteger(seed)) {
+        throw new Error(`Invalid --seed: ${options.seed}. Use a whole number.`);
+      }
+      const synthetic = Number(options.synthetic);
+      if (!Number.isInteger(synthetic) || synthetic < 0) {
+        throw new Error(`Invalid --synthetic: ${options.synthetic}. Use a whole number of 0 or more.`);
+      }
+
+      // Labelled examples: overrides, parsed results, then synthetic data
+      const examples: LabelledExample[] = [];
+      if (options.overrides) {
+        const storage = await openStorage(options, 'ml evaluate --overrides');
+        try {
+          examples.push(...labelOverrideExamples(await readOverrideExamples(storage)));
+        } finally {
+          await storage.close();
+        }
+      }
+      if (options.results !== undefined && options.results !== '') {
+        const files = options.results.split(',').map((file) => file.trim()).filter((file) => file !== '');
+        examples.push(...await readResultExamples(files));
+      }
+      examples.push(...generateTrainingData(synthetic).map((e): LabelledExample => ({ ...e, source: 'synthetic' })));
+      if (examples.length === 0) {
+        throw new Error('No labelled examples: use --results, --overrides or --synthetic');
+      }
+
+      const rules = await resolveCategoryRules(options);
+      const report = await evaluateCategorizer(examples, {
+        engine,
+        folds,
+        seed,
+        rules,
+        ...(holdout !== undefined ? { holdout } : {}),
+        ...(epochs !== undefined ? { epochs } : {}),
+        ...(options.model !== undefined && options.model !== '' ? { modelPath: resolve(options.model) } : {}),
+        onProgress: (message) => console.error(`[INFO] ${message}`),
+      });
+
+      console.error(formatEvaluationReport(report));
+      const outPath = resolve(options.out);
+      await mkdir(dirname(outPath), { recursive: true });
+      await writeFile(outPath, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+      console.error(`[INFO] Report written to: ${outPath}`);
+    } catch (error) {
+      console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * A labelled example, or none when the category or subcategory is unknown
+ * or Uncategorized.
+ */
+function labelledExample(
+  description: string,
+  category: string,
+  subcategory: string | null,
+  source: LabelSource,
+  context?: CategorizationContext
+): LabelledExample[] {
+  const knownCategory = CATEGORIES_LIST.find((c) => c === category);
+  const knownSubcategory = SUBCATEGORIES_LIST.find((s) => s === subcategory);
+  if (knownCategory === undefined || knownCategory === 'Uncategorized' || knownSubcategory === undefined) {
+    return [];
+  }
+  return [{
+    description,
+    channelType: extractChannel(description).type,
+    category: knownCategory,
+    subcategory: knownSubcategory,
+    source,
+    ...(context !== undefined ? { context } : {}),
+  }];
+}
+
+/**
+ * Human overrides as labelled examples.
+ */
+function labelOverrideExamples(overrides: OverrideExample[]): LabelledExample[] {
+  return overrides.flatMap((override) => labelledExample(
+    override.description,
+    override.category,
+    override.subcategory,
+    'override',
+    override.direction !== undefined ? { direction: override.direction } : undefined
+  ));
+}
+
+/**
+ * Categorized transactions from parse result JSON files (v1 or v2 schema).
+ */
+async function readResultExamples(files: string[]): Promise<LabelledExample[]> {
+  const examples: LabelledExample[] = [];
+  for (const file of files) {
+    const absolutePath = resolve(file);
+    let statements: unknown;
+    try {
+      const result = JSON.parse(await readFile(absolutePath, 'utf-8')) as { accounts?: unknown; statements?: unknown };
+      statements = result.accounts ?? result.statements;
+    } catch (error) {
+      throw new Error(`Invalid result file ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(statements)) {
+      throw new Error(`Invalid result file ${absolutePath}: expected an "accounts" or "statements" array`);
+    }
+
+    for (const statement of statements as ParsedStatement[]) {
+      for (const tx of statement.transactions) {
+        examples.push(...labelledExample(tx.description, tx.category, tx.subcategory, 'parsed', transactionContext(statement, tx)));
+      }
+    }
+  }
+  return examples;
+}
+
+program
+  .command('review')
+  .description('Review low-confidence and uncategorized transactions interactively')
+  .argument('[result]', 'Parse result JSON to review instead of the database')
+  .option('--overrides-file <file>', 'Where decisions for a result file are saved (default: <result>.overrides.json)')
+  .option('--threshold <confidence>', 'Review transactions below this confidence, 0-1', process.env['BOA_REVIEW_THRESHOLD'] ?? String(REVIEW_CONFIDENCE_THRESHOLD))
+  .option('--limit <n>', 'Review at most this many transactions')
+  .option('--storage <backend>', 'Database to review: supabase or sqlite', process.env['BOA_STORAGE'] ?? 'supabase')
+  .option('--sqlite-path <file>', 'SQLite database file for --storage sqlite', process.env['BOA_SQLITE_PATH'] ?? DEFAULT_SQLITE_PATH)
+  .option('--supabase-url <url>', 'Supabase project URL', process.env['SUPABASE_URL'])
+  .option('--supabase-key <key>', 'Supabase anon or service role key', process.env['SUPABASE_ANON_KEY'])
+  .option('--user-id <id>', 'User ID for Supabase RLS', process.env['BOA_USER_ID'])
+  .action(async (result: string | undefined, options: {
+    overridesFile?: string;
+    threshold: string;
+    limit?: string;
+    storage: string;
+    sqlitePath: string;
+    supabaseUrl?: string;
+    supabaseKey?: string;
+    userId?: string;
+  }) => {
+    let storage: StorageAdapter | null = null;
+    try {
+      const threshold = Number(options.threshold);
+      if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+        throw new Error(`Invalid --threshold: ${options.threshold}. Use a number between 0 and 1.`);
+      }
+      const limit = options.limit !== undefined ? Number(options.limit) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new Error(`Invalid --limit: ${options.limit}. Use a whole number of 1 or more.`);
+      }
+
+      // Queue and history (categorized transactions, for similar-transaction hints)
+      let queue: ReviewItem[];
+      let history: ReviewItem[];
+      let sidecarPath: string | null = null;
+      if (result !== undefined) {
+        const resultPath = resolve(result);
+        let items: ReviewItem[];
+        try {
+          items = reviewItemsFromResult(JSON.parse(await readFile(resultPath, 'utf-8')) as unknown);
+        } catch (error) {
+          throw new Error(`Invalid result file ${resultPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        sidecarPath = resolve(options.overridesFile ?? overridesSidecarPath(resultPath));
+        const decisions = new Map((await loadOverridesSidecar(sidecarPath)).map((o) => [o.transactionId, o]));
+        history = applyReviewDecisions(items, decisions);
+        queue = history.filter((item) => needsReview(item, threshold)).sort((a, b) => b.date.localeCompare(a.date));
+      } else {
+        storage = await openStorage(options, 'review');
+        const accounts = new Map((await storage.getAccounts()).map((a) => [a.id, `${a.account_type} ${a.account_number_masked}`]));
+        const decisions = new Map((await storage.getOverridesBySource('human')).flatMap((o) => {
+          const category = REVIEW_CATEGORIES.find((c) => c === o.category);
+          return category !== undefined ? [[o.transaction_db_id, { category, subcategory: o.subcategory }] as const] : [];
+        }));
+        history = applyReviewDecisions((await storage.getTransactions()).map((row) => reviewItemFromRow(row, accounts)), decisions);
+        if (threshold > REVIEW_CONFIDENCE_THRESHOLD) {
+          // The view stops at its own cut-off, so pick from all transactions instead
+          queue = history
+            .filter((item) => !decisions.has(item.id) && needsReview(item, threshold))
+            .sort((a, b) => b.date.localeCompare(a.date));
+        } else {
+          // The view also lists low-confidence transactions that a human already re-categorized
+          queue = (await storage.getTransactionsNeedingReview())
+            .filter((row) => row.override_source !== 'human')
+            .map((row) => reviewItemFromRow(row, accounts))
+            .filter((item) => needsReview(item, threshold));
+        }
+      }
+      if (limit !== undefined) {
+        queue = queue.slice(0, limit);
+      }
+
+      if (queue.length === 0) {
+        console.error('[INFO] Nothing to review.');
+        return;
+      }
+      console.error(`[INFO] ${queue.length} transaction(s) to review (confidence below ${threshold} or Uncategorized)`);
+
+      const prompt = createLinePrompt();
+      let reviewed = 0;
+      let skipped = 0;
+      try {
+        for (let position = 1; queue.length > 0; position++) {
+          const item = queue.shift()!;
+          const similar = findSimilarTransactions(item, history, 3, threshold);
+          const suggestion = suggestDecision(similar);
+          const others = sameMerchantItems(item, queue);
+          printReviewItem(item, similar, others.length, position, position + queue.length);
+
+          const decision = await askReviewDecision(prompt, suggestion);
+          if (decision === 'quit') {
+            skipped += 1 + queue.length;
+            break;
+          }
+          if (decision === 'skip') {
+            skipped++;
+            continue;
+          }
+
+          const targets = [item];
+          if (others.length > 0) {
+            const answer = await prompt.ask(`  Apply to ${others.length} more from this merchant? [y/N]: `);
+            if (answer !== null && /^y(es)?$/i.test(answer.trim())) {
+              targets.push(...others);
+              queue = queue.filter((other) => !others.includes(other));
+            }
+          }
+
+          if (storage !== null) {
+            const { failed } = await storage.setTransactionOverridesBatch(targets.map((target) => ({
+              transactionDbId: target.id,
+              category: decision.category,
+              subcategory: decision.subcategory,
+              source: 'human' as const,
+            })));
+            if (failed > 0) {
+              throw new Error(`Failed to save ${failed} override(s)`);
+            }
+          } else {
+            const updatedAt = new Date().toISOString();
+            await saveOverridesSidecar(sidecarPath!, targets.map((target) => ({
+              transactionId: target.id,
+              description: target.description,
+              merchant: target.merchant,
+              ...(target.direction !== undefined ? { direction: target.direction } : {}),
+              category: decision.category,
+              subcategory: decision.subcategory,
+              source: 'human' as const,
+              updatedAt,
+            })));
+          }
+          const label = decision.subcategory !== null ? `${decision.category} / ${decision.subcategory}` : decision.category;
+          console.error(`  Saved: ${label} (${targets.length} transaction(s))`);
+
+          reviewed += targets.length;
+          const ids = new Set(targets.map((target) => target.id));
+          history = [
+            ...history.filter((other) => !ids.has(other.id)),
+            ...applyReviewDecisions(targets, new Map(targets.map((target) => [target.id, decision]))),
+          ];
+        }
+      } finally {
+        prompt.close();
+      }
+
+      console.error('');
+      console.error(`[INFO] Reviewed ${reviewed} transaction(s), skipped ${skipped}`);
+      if (reviewed > 0) {
+        console.error(sidecarPath !== null ? `[INFO] Saved to: ${sidecarPath}` : '[INFO] Saved as human overrides (transaction_overrides)');
+        console.error(`Turn repeated corrections into rules with: findata rules learn${sidecarPath !== null ? ` --overrides-file ${sidecarPath}` : ''}`);
+      }
+    } catch (error) {
+      console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    } finally {
+      await storage?.close();
+    }
+  });
+
+/**
+ * Review item for a database row; uses the effective (overridden) category
+ * for rows from the `transactions_needing_review` view.
+ */
+function reviewItemFromRow(row: TransactionRow | TransactionNeedingReviewRow, accounts: Map<string, string>): ReviewItem {
+  const effective = 'effective_category' in row ? row : null;
+  const merchant = effective?.effective_merchant ?? row.merchant['normalizedName'] ?? row.merchant['name'];
+  const item: ReviewItem = {
+    id: row.id,
+    date: row.date,
+    description: row.description,
+    merchant: typeof merchant === 'string' ? merchant : null,
+    amount: row.amount,
+    category: effective?.effective_category ?? row.category ?? 'Uncategorized',
+    subcategory: effective !== null ? effective.effective_subcategory : row.subcategory,
+    confidence: row.confidence,
+    ruleId: row.rule_id,
+    rationale: row.rationale,
+  };
+  if (row.direction === 'debit' || row.direction === 'credit') {
+    item.direction = row.direction;
+  }
+  const account = accounts.get(row.account_id);
+  if (account !== undefined) {
+    item.account = account;
+  }
+  return item;
+}
+
+/**
+ * Line-by-line prompt on stderr that also works with piped answers.
+ * `ask` resolves null once input ends.
+ */
+function createLinePrompt(): { ask(question: string): Promise<string | null>; close(): void } {
+  const rl = createInterface({ input: process.stdin, terminal: false });
+  const lines = rl[Symbol.asyncIterator]();
+  return {
+    async ask(question: string): Promise<string | null> {
+      process.stderr.write(question);
+      const next = await lines.next();
+      return next.done === true ? null : String(next.value);
+    },
+    close(): void {
+      rl.close();
+    },
+  };
+}
+
+function printReviewItem(item: ReviewItem, similar: ReviewItem[], sameMerchant: number, position: number, total: number): void {
+  const current = item.subcategory !== null ? `${item.category} / ${item.subcategory}` : item.category;
+  const confidence = item.confidence !== null ? `${Math.round(item.confidence * 100)}%` : 'n/a';
+
+  console.error('');
+  console.error(`[${position}/${total}] ${item.date}  ${item.amount.toFixed(2)}${item.account !== undefined ? `  ${item.account}` : ''}`);
+  console.error(`  ${item.description}`);
+  if (item.merchant !== null) {
+    console.error(`  Merchant:   ${item.merchant}`);
+  }
+  console.error(`  Current:    ${current} (confidence ${confidence}${item.ruleId !== null ? `, rule ${item.ruleId}` : ''})`);
+  if (item.rationale !== null) {
+    console.error(`  Rationale:  ${item.rationale}`);
+  }
+  for (const [i, other] of similar.entries()) {
+    const label = other.subcategory !== null ? `${other.category} / ${other.subcategory}` : other.category;
+    console.error(`  ${i === 0 ? 'Similar:' : ''.padEnd(8)}    ${other.date}  ${other.description}  → ${label}`);
+  }
+  if (sameMerchant > 0) {
+    console.error(`  ${sameMerchant} more from this merchant in the queue`);
+  }
+}
+
+/**
+ * Ask for a category (and subcategory) until the answer is usable.
+ */
+async function askReviewDecision(
+  prompt: ReturnType<typeof createLinePrompt>,
+  suggestion: ReviewDecision | null
+): Promise<ReviewDecision | 'skip' | 'quit'> {
+  const hint = suggestion !== null
+    ? `Enter = ${suggestion.subcategory !== null ? `${suggestion.category} / ${suggestion.subcategory}` : suggestion.category}, `
+    : '';
+
+  for (;;) {
+    const answer = await prompt.ask(`  Category (number or name; ${hint}l = list, s = skip, q = quit): `);
+    if (answer === null || answer.trim().toLowerCase() === 'q') return 'quit';
+    const trimmed = answer.trim().toLowerCase();
+    if (trimmed === 's') return 'skip';
+    if (trimmed === 'l' || trimmed === '?') {
+      console.error(REVIEW_CATEGORIES.map((c, i) => `    ${String(i + 1).padStart(2)}. ${c}`).join('\n'));
+      continue;
+    }
+    if (trimmed === '' && suggestion !== null) return suggestion;
+
+    const category = parseCategoryAnswer(trimmed);
+    if (category === null) {
+      console.error(`  Unknown or ambiguous category: ${answer.trim()}`);
+      continue;
+    }
+
+    const choices = subcategoryChoices(category);
+    if (choices.length > 0) {
+      console.error(`    ${choices.map((s, i) => `${i + 1}. ${s}`).join('  ')}`);
+    }
+    const subAnswer = (await prompt.ask('  Subcategory (number or name, Enter = none): '))?.trim() ?? '';
+    const subcategory = /^\d+$/.test(subAnswer) ? choices[Number(subAnswer) - 1] ?? subAnswer : subAnswer;
+    return { category, subcategory: subcategory !== '' ? subcategory : null };
+  }
+}
+
 program
   .command('init')
   .description('Initialize project with .env file and ML model directory')
@@ -1253,7 +2784,7 @@ BOA_INPUT_DIR=./statements
 # Output file path (equivalent to --out)
 BOA_OUTPUT_FILE=result.json
 
-# Output format: json, ofx, csv (equivalent to --format)
+# Output format: json, ofx, csv, qif, beancount, ledger, parquet, arrow (equivalent to --format)
 BOA_FORMAT=json
 
 # =============================================================================
@@ -1298,10 +2829,27 @@ program
   .option('--user-id <id>', 'User ID for Plaid operations', process.env['BOA_USER_ID'])
   .option('--username <name>', 'Sandbox username for custom test data (e.g. custom_boa)', process.env['PLAID_SANDBOX_USERNAME'])
   .option('--institution <id>', 'Institution ID to pre-select (e.g. ins_4 for Bank of America)')
-  .option('-d, --inputDir <directory>', 'Directory containing PDF files (for build command)', process.env['BOA_INPUT_DIR'])
+  .option('-d, --inputDir <directory>', 'Directory of statement files — PDF, OFX, QFX, CSV (for build command)', process.env['BOA_INPUT_DIR'])
   .option('--start-date <date>', 'Start date for data range (YYYY-MM-DD). Defaults to earliest PDF date.')
   .option('--end-date <date>', 'End date for data range (YYYY-MM-DD). Defaults to today.')
   .option('--full', 'Full sync (ignore cursor)')
+  .option('-o, --out <file>', 'Output file (for reconcile, merge and build)')
+  .option('--parser-config <file>', 'JSON config listing institution parser plugins (for build command)', process.env['BOA_PARSER_CONFIG'])
+  .option('--parser-plugins <modules>', 'Comma-separated parser plugin packages or paths (for build command)', process.env['BOA_PARSER_PLUGINS'])
+  .option('--concurrency <n>', 'Number of statement files to parse in parallel on worker threads (for build command)', process.env['BOA_CONCURRENCY'] ?? '1')
+  .option('--cache', 'Reuse parse results for unchanged statement files (for build command)', envBool('BOA_CACHE', true))
+  .option('--no-cache', 'Extract and parse every statement file again (for build command)')
+  .option('--cache-dir <dir>', 'Parse cache directory (for build command)', process.env['BOA_CACHE_DIR'] ?? DEFAULT_PARSE_CACHE_DIR)
+  .option('--recursive', 'Also scan subfolders of the input directory (for build command)', envBool('BOA_RECURSIVE', false))
+  .option('--include <globs>', 'Comma-separated globs; only matching files are parsed (for build command)', process.env['BOA_INCLUDE'])
+  .option('--exclude <globs>', 'Comma-separated globs of files to leave out (for build command)', process.env['BOA_EXCLUDE'])
+  .option('--archives', 'Read statement files out of .zip archives (for build command)', envBool('BOA_ARCHIVES', true))
+  .option('--no-archives', 'Ignore .zip archives (for build command)')
+  .option('--rules <file>', 'JSON file of categorization rules (for build command)', process.env['BOA_RULES'])
+  .option('--learned-rules <file>', 'Accepted rules learned from overrides (for build command)', process.env['BOA_LEARNED_RULES'] ?? DEFAULT_LEARNED_RULES_PATH)
+  .option('--no-learned-rules', 'Do not apply rules learned from overrides (for build command)')
+  .option('--storage <backend>', 'Keep Plaid items and the build database in supabase (default) or sqlite', process.env['BOA_STORAGE'])
+  .option('--sqlite-path <file>', 'SQLite database file for --storage sqlite', process.env['BOA_SQLITE_PATH'] ?? DEFAULT_SQLITE_PATH)
   .option('-v, --verbose', 'Verbose output')
   .action(async (action: string, options: {
     itemId?: string;
@@ -1312,6 +2860,19 @@ program
     startDate?: string;
     endDate?: string;
     full?: boolean;
+    parserConfig?: string;
+    parserPlugins?: string;
+    concurrency: string;
+    cache: boolean;
+    cacheDir: string;
+    recursive: boolean;
+    include?: string;
+    exclude?: string;
+    archives: boolean;
+    rules?: string;
+    learnedRules: string | false;
+    storage?: string;
+    sqlitePath: string;
     verbose?: boolean;
   }) => {
     const {
@@ -1328,8 +2889,19 @@ program
       startLinkServer,
     } = await import('@findata/plaid-bridge');
 
-    // Use file-based store for CLI persistence
-    const store = getFilePlaidItemStore();
+    if (options.storage !== undefined && !isStorageBackend(options.storage)) {
+      console.error(`[ERROR] Invalid --storage: ${options.storage}. Use supabase or sqlite.`);
+      process.exit(1);
+    }
+
+    // Use file-based store for CLI persistence, or the SQLite database with --storage sqlite
+    let store: SyncItemStore & { getFilePath(): string } = getFilePlaidItemStore();
+    let sqliteStorage: SqliteStorage | undefined;
+    if (options.storage === 'sqlite') {
+      const { openSqliteStorage, SqlitePlaidItemStore } = await import('@findata/store');
+      sqliteStorage = openSqliteStorage(options.sqlitePath, options.userId ?? LOCAL_USER_ID);
+      store = new SqlitePlaidItemStore(sqliteStorage.getDatabase());
+    }
 
     if (!isPlaidConfigured()) {
       console.error('[ERROR] Plaid is not configured.');
@@ -1666,7 +3238,6 @@ program
 
           // Import reconciliation and parsing modules
           const { reconcileTransactions, formatReconciliationReport } = await import('@findata/plaid-bridge');
-          const { parseBoaMultipleStatements } = await import('@findata/boa-parser');
           const { extractPDF } = await import('@findata/pdf-extract');
           const fs = await import('fs');
           const path = await import('path');
@@ -1731,14 +3302,22 @@ program
                 merchant: null,
               }));
             } else {
-              const parseResult = parseBoaMultipleStatements(pdfData);
+              const parserRegistry = await buildParserRegistry(options);
+              const match = parserRegistry.select(pdfData);
+
+              if (match === null) {
+                console.error('[ERROR] No registered institution parser recognized this PDF');
+                process.exit(1);
+              }
 
-              if (parseResult.statements.length === 0) {
+              const statements = match.parser.parse(pdfData).map((statement) => applyOcrConfidence(statement, pdfData));
+
+              if (statements.length === 0) {
                 console.error('[ERROR] No statements found in PDF');
                 process.exit(1);
               }
 
-              pdfTransactions = parseResult.statements.flatMap((s) => s.transactions);
+              pdfTransactions = statements.flatMap((s) => s.transactions);
             }
           }
 
@@ -1909,20 +3488,24 @@ program
           const buildFs = await import('fs');
           const buildPath = await import('path');
 
-          // Optionally connect Supabase
-          let buildSupabaseClient: unknown = undefined;
+          // Optionally connect Supabase (unless the local SQLite database is selected)
+          let buildSupabaseClient: UnifiedSyncOptions['supabaseClient'] = undefined;
           let buildUserId: string | undefined = undefined;
-          try {
-            const { isSupabaseConfigured, getSupabaseClient: getSbClient } = await import('@findata/store');
-            if (isSupabaseConfigured()) {
-              buildSupabaseClient = getSbClient();
-              buildUserId = options.userId ?? process.env['SUPABASE_USER_ID'];
-              if (buildUserId !== undefined) {
-                console.error('[INFO] Supabase connected — will check for existing data');
+          if (sqliteStorage !== undefined) {
+            console.error(`[INFO] SQLite database: ${resolve(options.sqlitePath)}`);
+          } else {
+            try {
+              const { isSupabaseConfigured, getSupabaseClient: getSbClient } = await import('@findata/store');
+              if (isSupabaseConfigured()) {
+                buildSupabaseClient = getSbClient();
+                buildUserId = options.userId ?? process.env['SUPABASE_USER_ID'];
+                if (buildUserId !== undefined) {
+                  console.error('[INFO] Supabase connected — will check for existing data');
+                }
               }
+            } catch {
+              // Supabase not configured, that's fine
             }
-          } catch {
-            // Supabase not configured, that's fine
           }
 
           // Get input directory: check subcommand option, parent option (consumed by commander),
@@ -1932,7 +3515,7 @@ program
             ?? process.env['BOA_INPUT_DIR'];
 
           // inputDir is optional when DB is configured as source of truth
-          if ((buildInputDir === undefined || buildInputDir === '') && !buildSupabaseClient) {
+          if ((buildInputDir === undefined || buildInputDir === '') && !buildSupabaseClient && sqliteStorage === undefined) {
             console.error('[ERROR] --inputDir is required when no database is configured');
             console.error('Usage:');
             console.error('  pnpm parse-boa plaid build --inputDir ./TEST --out result.json');
@@ -1953,18 +3536,27 @@ program
           const syncResult = await runUnifiedSync({
             inputDir: buildInputDir,
             store,
+            storage: sqliteStorage,
             supabaseClient: buildSupabaseClient,
             userId: buildUserId,
             startDate: options.startDate,
             endDate: options.endDate,
             verbose: options.verbose === true,
             log: (msg) => console.error(msg),
+            registry: await buildParserRegistry(options),
+            concurrency: parseConcurrency(options.concurrency),
+            cache: resolveParseCache(options),
+            scan: resolveScanOptions(options),
+            rules: await resolveCategoryRules(options),
           });
 
           // Summary
           console.error('');
           console.error('=== Build Summary ===');
           console.error(`  PDF files:          ${syncResult.stats.pdfFiles}`);
+          if (syncResult.stats.cacheHits > 0) {
+            console.error(`  Parse cache hits:   ${syncResult.stats.cacheHits}`);
+          }
           console.error(`  Accounts:           ${syncResult.stats.accounts}`);
           console.error(`  PDF transactions:   ${syncResult.stats.pdfTransactions}`);
           console.error(`  Plaid transactions: ${syncResult.stats.plaidTransactions}`);
@@ -2028,7 +3620,7 @@ program
 
             // Train
             const epochs = parseInt(process.env['BOA_EPOCHS'] ?? '50', 10);
-            const categorizer = new HybridCategorizer();
+            const categorizer = new HybridCategorizer({ engine: resolveMLEngine(process.env['BOA_ML_ENGINE'] ?? 'use', 'BOA_ML_ENGINE') });
             await categorizer.initialize();
 
             console.error(`[ML] Training (${epochs} epochs)... this may take a few minutes`);
@@ -1,4 +1,5 @@
 import type { ExtractedPDF, ExtractedPage } from '@findata/pdf-extract';
+import type { DailyBalance } from '@findata/types';
 import { parseUSDate } from '@findata/types';
 import { parseAmount } from '@findata/types';
 import type { RawTransaction, AccountInfo, BalanceInfo } from './types.js';
@@ -42,6 +43,9 @@ const CHECKING_PATTERNS = {
   checksSection: /checks\s*$/i,
   serviceFees: /service\s+fees/i,
   dailyBalanceSection: /daily\s+(?:ending\s+)?balance/i,
+  dailyBalanceTable: /^\s*daily\s+(?:ledger|ending)\s+balances?\b/i,
+  // Daily ledger balance rows hold up to three "MM/DD balance" pairs
+  dailyBalanceEntry: /(\d{2}\/\d{2}(?:\/\d{2,4})?)\s+(-?\$?[0-9,]+\.\d{2})/g,
   totalLine: /^Total\s+/i,
   // Statement boundary detection for multi-statement PDFs
   statementBoundary: /(?:February|March|April|May|June|July|August|September|October|November|December|January)\s+\d{1,2},?\s+\d{4}\s+(?:to|-|through)\s+(?:February|March|April|May|June|July|August|September|October|November|December|January)\s+\d{1,2},?\s+\d{4}/i,
@@ -146,6 +150,7 @@ export function parseMultipleCheckingStatements(pdf: ExtractedPDF): Array<{
   accountInfo: AccountInfo;
   balanceInfo: BalanceInfo;
   transactions: RawTransaction[];
+  dailyBalances: DailyBalance[];
   warnings: string[];
   pageRange: { start: number; end: number };
 }> {
@@ -154,6 +159,7 @@ export function parseMultipleCheckingStatements(pdf: ExtractedPDF): Array<{
     accountInfo: AccountInfo;
     balanceInfo: BalanceInfo;
     transactions: RawTransaction[];
+    dailyBalances: DailyBalance[];
     warnings: string[];
     pageRange: { start: number; end: number };
   }> = [];
@@ -170,11 +176,15 @@ export function parseMultipleCheckingStatements(pdf: ExtractedPDF): Array<{
       accountInfo.statementPeriodStart,
       accountInfo.statementPeriodEnd
     );
+    const dailyBalances = extractDailyBalances(segment.pages, accountInfo).filter(
+      (day) => day.date >= accountInfo.statementPeriodStart && day.date <= accountInfo.statementPeriodEnd
+    );
     
     results.push({
       accountInfo,
       balanceInfo,
       transactions: filteredTransactions,
+      dailyBalances,
       warnings,
       pageRange: { start: segment.startPage, end: segment.endPage },
     });
@@ -207,6 +217,7 @@ export function parseCheckingStatement(pdf: ExtractedPDF): {
   accountInfo: AccountInfo;
   balanceInfo: BalanceInfo;
   transactions: RawTransaction[];
+  dailyBalances: DailyBalance[];
   warnings: string[];
 } {
   const warnings: string[] = [];
@@ -215,8 +226,9 @@ export function parseCheckingStatement(pdf: ExtractedPDF): {
   const accountInfo = extractAccountInfo(fullText, warnings);
   const balanceInfo = extractBalanceInfo(fullText, warnings);
   const transactions = extractTransactions(pdf.pages, accountInfo, warnings);
+  const dailyBalances = extractDailyBalances(pdf.pages, accountInfo);
 
-  return { accountInfo, balanceInfo, transactions, warnings };
+  return { accountInfo, balanceInfo, transactions, dailyBalances, warnings };
 }
 
 function extractAccountInfo(text: string, warnings: string[]): AccountInfo {
@@ -329,7 +341,7 @@ function extractTransactions(
   const transactions: RawTransaction[] = [];
   const statementYear = parseInt(accountInfo.statementPeriodEnd.split('-')[0] ?? '2024', 10);
 
-  let currentSection: 'deposits' | 'withdrawals' | 'checks' | 'fees' | 'unknown' = 'unknown';
+  let currentSection: 'deposits' | 'withdrawals' | 'checks' | 'fees' | 'dailyBalances' | 'unknown' = 'unknown';
   let pendingLine: { line: string; page: number; index: number } | null = null;
 
   for (const page of pages) {
@@ -362,11 +374,18 @@ function extractTransactions(
         pendingLine = null;
         continue;
       }
+      if (CHECKING_PATTERNS.dailyBalanceTable.test(line)) {
+        currentSection = 'dailyBalances';
+        pendingLine = null;
+        continue;
+      }
       if (CHECKING_PATTERNS.dailyBalanceSection.test(line)) {
         currentSection = 'unknown';
         pendingLine = null;
         continue;
       }
+      // "MM/DD balance" rows would otherwise read as transactions
+      if (currentSection === 'dailyBalances') continue;
 
       // Check if this line is just an amount (continuation of previous line)
       const amountOnlyMatch = /^-?[0-9,]+\.\d{2}$/.exec(line.trim());
@@ -420,6 +439,57 @@ function extractTransactions(
   return transactions;
 }
 
+/**
+ * Extract the "Daily ledger balances" table: the account balance at the end
+ * of each day with activity. Rows list up to three date/balance pairs.
+ */
+function extractDailyBalances(pages: ExtractedPage[], accountInfo: AccountInfo): DailyBalance[] {
+  const balances = new Map<string, number>();
+  let inSection = false;
+
+  for (const page of pages) {
+    for (const line of page.lines) {
+      if (CHECKING_PATTERNS.dailyBalanceTable.test(line)) {
+        inSection = true;
+        continue;
+      }
+      if (
+        CHECKING_PATTERNS.depositsSection.test(line) ||
+        CHECKING_PATTERNS.withdrawalsSection.test(line) ||
+        CHECKING_PATTERNS.checksSection.test(line) ||
+        CHECKING_PATTERNS.serviceFees.test(line)
+      ) {
+        inSection = false;
+        continue;
+      }
+      if (!inSection) continue;
+
+      for (const match of line.matchAll(CHECKING_PATTERNS.dailyBalanceEntry)) {
+        const [, dateStr, balanceStr] = match;
+        if (dateStr === undefined || balanceStr === undefined) continue;
+        balances.set(resolveStatementDate(dateStr, accountInfo), parseAmount(balanceStr));
+      }
+    }
+  }
+
+  return [...balances.entries()]
+    .map(([date, balance]) => ({ date, balance }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Resolve an "MM/DD" date against the statement period. Periods that span
+ * New Year put December dates in the year before the period end.
+ */
+function resolveStatementDate(dateStr: string, accountInfo: AccountInfo): string {
+  const endYear = parseInt(accountInfo.statementPeriodEnd.split('-')[0] ?? '2024', 10);
+  const date = parseUSDate(dateStr, endYear);
+  if (dateStr.split('/').length === 2 && accountInfo.statementPeriodEnd !== '' && date > accountInfo.statementPeriodEnd) {
+    return parseUSDate(dateStr, endYear - 1);
+  }
+  return date;
+}
+
 /**
  * Parse multi-column check lines where multiple checks appear on the same line.
  * Format: "Date	Check#	Amount	Date	Check#	Amount"
@@ -0,0 +1,184 @@
+import { parseAmount } from '@findata/types';
+import { extractStatementPeriod, getCell, resolveMonthDay } from './statement-lines.js';
+import type {
+  CapitalOneAccountInfo,
+  CapitalOneBalanceInfo,
+  CapitalOneParsedAccount,
+  CapitalOneRawTransaction,
+  CapitalOneSection,
+  StatementLine,
+} from './types.js';
+
+const MONTH_DAY = /^[A-Za-z]{3}\s+\d{1,2}$/;
+
+const CREDIT_PATTERNS = {
+  accountNumber: /\bending\s+in\s+(\d{4})/i,
+  previousBalance: /Previous\s+Balance\s*[=:]?\s*(-?\s*\$[0-9,]+\.\d{2})/i,
+  newBalance: /New\s+Balance\s*[=:]?\s*(-?\s*\$[0-9,]+\.\d{2})/i,
+  paymentsSection: /^Payments,?\s+Credits\s+(?:and|&)\s+Adjustments$/i,
+  transactionsSection: /^(?:.*#\d{4}:\s*)?Transactions$/i,
+  feesSection: /^Fees$/i,
+  interestSection: /^Interest\s+Charged$/i,
+  endOfActivity: /^(?:Interest\s+Charge\s+Calculation|Totals\s+Year-to-Date)/i,
+  totalLine: /^Total\s+/i,
+  transactionLine: /^([A-Za-z]{3}\s+\d{1,2})\s+([A-Za-z]{3}\s+\d{1,2})\s+(.+?)\s+(-?\s*\$[0-9,]+\.\d{2})$/,
+  undatedChargeLine: /^(.+?)\s+(-?\s*\$[0-9,]+\.\d{2})$/,
+};
+
+/**
+ * Parse a Capital One credit card statement.
+ *
+ * Previous and New Balance are the amount owed, as printed and as reported for
+ * Bank of America cards. Purchases/fees/interest are debits and payments are
+ * credits, so `startingBalance - credits + debits = endingBalance`.
+ */
+export function parseCapitalOneCreditStatement(lines: StatementLine[]): CapitalOneParsedAccount {
+  const warnings: string[] = [];
+  const text = lines.map((l) => l.text).join('\n');
+
+  const accountInfo = extractAccountInfo(text, warnings);
+  const balanceInfo = extractBalanceInfo(text, warnings);
+  const transactions = extractTransactions(lines, accountInfo, warnings);
+
+  return { accountInfo, balanceInfo, transactions, warnings };
+}
+
+function extractAccountInfo(text: string, warnings: string[]): CapitalOneAccountInfo {
+  let accountNumberMasked = '****0000';
+  let statementPeriodStart = '';
+  let statementPeriodEnd = '';
+
+  const accountMatch = CREDIT_PATTERNS.accountNumber.exec(text);
+  if (accountMatch?.[1] !== undefined) {
+    accountNumberMasked = `****${accountMatch[1]}`;
+  } else {
+    warnings.push('Could not extract account number from Capital One credit card statement');
+  }
+
+  const period = extractStatementPeriod(text);
+  if (period !== null) {
+    statementPeriodStart = period.start;
+    statementPeriodEnd = period.end;
+  } else {
+    warnings.push('Could not extract statement period from Capital One credit card statement');
+  }
+
+  return { accountType: 'credit', accountNumberMasked, statementPeriodStart, statementPeriodEnd };
+}
+
+function extractBalanceInfo(text: string, warnings: string[]): CapitalOneBalanceInfo {
+  let startingBalance = 0;
+  let endingBalance = 0;
+
+  const prevMatch = CREDIT_PATTERNS.previousBalance.exec(text);
+  if (prevMatch?.[1] !== undefined) {
+    startingBalance = parseAmount(prevMatch[1]);
+  } else {
+    warnings.push('Could not extract previous balance from Capital One credit card statement');
+  }
+
+  const newMatch = CREDIT_PATTERNS.newBalance.exec(text);
+  if (newMatch?.[1] !== undefined) {
+    endingBalance = parseAmount(newMatch[1]);
+  } else {
+    warnings.push('Could not extract new balance from Capital One credit card statement');
+  }
+
+  return { startingBalance, endingBalance };
+}
+
+function detectSection(text: string): CapitalOneSection | null {
+  if (CREDIT_PATTERNS.paymentsSection.test(text)) return 'payments';
+  if (CREDIT_PATTERNS.transactionsSection.test(text)) return 'transactions';
+  if (CREDIT_PATTERNS.feesSection.test(text)) return 'fees';
+  if (CREDIT_PATTERNS.interestSection.test(text)) return 'interest';
+  if (CREDIT_PATTERNS.endOfActivity.test(text)) return 'unknown';
+  return null;
+}
+
+function extractTransactions(
+  lines: StatementLine[],
+  accountInfo: CapitalOneAccountInfo,
+  warnings: string[]
+): CapitalOneRawTransaction[] {
+  const transactions: CapitalOneRawTransaction[] = [];
+  let section: CapitalOneSection = 'unknown';
+
+  for (const line of lines) {
+    const nextSection = detectSection(line.text);
+    if (nextSection !== null) {
+      section = nextSection;
+      continue;
+    }
+
+    if (section === 'unknown' || CREDIT_PATTERNS.totalLine.test(line.text)) {
+      continue;
+    }
+
+    const txn = parseTransactionLine(line, section, accountInfo.statementPeriodEnd);
+    if (txn !== null) {
+      transactions.push(txn);
+    }
+  }
+
+  if (transactions.length === 0) {
+    warnings.push('No transactions found in Capital One credit card statement');
+  }
+
+  return transactions;
+}
+
+function parseTransactionLine(
+  line: StatementLine,
+  section: CapitalOneSection,
+  periodEnd: string
+): CapitalOneRawTransaction | null {
+  let transDate: string | null = null;
+  let postDate: string | null = null;
+  let description: string | null = null;
+  let amountStr: string | null = null;
+
+  const cellDate = getCell(line, 'trans date', 'transaction date', 'date');
+  const cellAmount = getCell(line, 'amount');
+  if (cellDate !== null && cellAmount !== null && MONTH_DAY.test(cellDate)) {
+    transDate = cellDate;
+    postDate = getCell(line, 'post date', 'posting date');
+    description = getCell(line, 'description');
+    amountStr = cellAmount;
+  } else {
+    const match = CREDIT_PATTERNS.transactionLine.exec(line.text);
+    if (match !== null) {
+      [, transDate = null, postDate = null, description = null, amountStr = null] = match;
+    } else if (section === 'fees' || section === 'interest') {
+      // Interest lines ("Interest Charge on Purchases $12.34") are undated
+      const undated = CREDIT_PATTERNS.undatedChargeLine.exec(line.text);
+      if (undated !== null) {
+        [, description = null, amountStr = null] = undated;
+      }
+    }
+  }
+
+  if (description === null || amountStr === null) {
+    return null;
+  }
+
+  const charge = Math.abs(parseAmount(amountStr));
+  if (charge === 0) {
+    return null;
+  }
+  // Payments and credits reduce what is owed; everything else adds to it.
+  // A leading minus marks a credit inside the transactions section (refunds).
+  const isCredit = section === 'payments' || parseAmount(amountStr) < 0;
+
+  const date = transDate !== null ? resolveMonthDay(transDate, periodEnd) : periodEnd;
+  return {
+    date,
+    postedDate: postDate !== null ? resolveMonthDay(postDate, periodEnd) : null,
+    description: description.trim(),
+    amount: isCredit ? charge : -charge,
+    page: line.page,
+    lineIndex: line.index,
+    originalLine: line.text,
+    section,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Builds the line model shared by the Capital One parsers, either from plain
+ * extracted text or from positioned text items. The layout path reuses the
+ * generic column detection so table cells survive uneven spacing.
+ */
+
+import type { ExtractedPDF } from '@findata/pdf-extract';
+import type { LayoutExtractedPDF } from '@findata/pdf-extract';
+import { groupByRows, detectColumnsFromHeader, mapRowToColumns, type Column } from '@findata/pdf-extract';
+import { parseUSDate } from '@findata/types';
+import type { StatementLine } from './types.js';
+
+/** Header row of a transaction table, e.g. "Trans Date  Post Date  Description  Amount" */
+const TABLE_HEADER = /\bdate\b.*\bdescription\b.*\bamount\b/i;
+
+/** Default page width used for the rightmost column boundary (US Letter) */
+const PAGE_WIDTH = 612;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+export function linesFromText(pdf: ExtractedPDF): StatementLine[] {
+  const lines: StatementLine[] = [];
+  for (const page of pdf.pages) {
+    for (let i = 0; i < page.lines.length; i++) {
+      const text = page.lines[i]?.trim() ?? '';
+      if (text !== '') {
+        lines.push({ text, page: page.pageNumber, index: i });
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Group positioned text items into lines. Rows below a table header on the
+ * same page are split into cells using the header's column boundaries.
+ */
+export function linesFromLayout(layout: LayoutExtractedPDF, yTolerance = 3.0): StatementLine[] {
+  const rows = groupByRows(layout.items, yTolerance);
+  const lines: StatementLine[] = [];
+
+  let columns: Column[] | null = null;
+  let columnPage = -1;
+  let index = 0;
+
+  for (const row of rows) {
+    const text = row.text.trim();
+    if (text === '') continue;
+
+    if (row.page !== columnPage) {
+      columns = null;
+      index = 0;
+    }
+
+    if (TABLE_HEADER.test(text)) {
+      columns = detectColumnsFromHeader(row, PAGE_WIDTH).columns;
+      columnPage = row.page;
+      lines.push({ text, page: row.page, index: index++ });
+      continue;
+    }
+
+    const line: StatementLine = { text, page: row.page, index: index++ };
+    if (columns !== null && columns.length > 0) {
+      const values = mapRowToColumns(row, columns);
+      const cells: Record<string, string> = {};
+      columns.forEach((col, i) => {
+        cells[col.name.toLowerCase()] = values[i]?.trim() ?? '';
+      });
+      line.cells = cells;
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Read a cell by any of its known header names.
+ */
+export function getCell(line: StatementLine, ...names: string[]): string | null {
+  if (line.cells === undefined) return null;
+  for (const name of names) {
+    const value = line.cells[name];
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve a "Jan 5" style date against the statement period. Billing cycles
+ * that cross New Year put December dates in the year before the period end.
+ */
+export function resolveMonthDay(monthDay: string, periodEnd: string): string {
+  const match = /^([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2})$/.exec(monthDay.trim());
+  const month = match?.[1] !== undefined ? MONTHS[match[1].toLowerCase()] : undefined;
+  if (match?.[2] === undefined || month === undefined) {
+    throw new Error(`Unable to parse date: ${monthDay}`);
+  }
+
+  const [endYearStr, endMonthStr] = periodEnd.split('-');
+  const endYear = parseInt(endYearStr ?? '', 10);
+  const endMonth = parseInt(endMonthStr ?? '', 10);
+  const fallbackYear = new Date().getFullYear();
+  const year = Number.isNaN(endYear) ? fallbackYear : month > endMonth ? endYear - 1 : endYear;
+
+  return parseUSDate(`${month}/${match[2]}/${year}`);
+}
+
+/**
+ * Parse "Jan 6, 2025" (or "January 6, 2025") into YYYY-MM-DD.
+ */
+export function parseLongDate(dateStr: string): string {
+  const match = /^([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/.exec(dateStr.trim());
+  const month = match?.[1] !== undefined ? MONTHS[match[1].toLowerCase()] : undefined;
+  if (match?.[2] === undefined || match[3] === undefined || month === undefined) {
+    throw new Error(`Unable to parse date: ${dateStr}`);
+  }
+  return parseUSDate(`${month}/${match[2]}/${match[3]}`);
+}
+
+const PERIOD_PATTERNS = {
+  full: /([A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4})\s*(?:-|–|to)\s*([A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4})/,
+  short: /([A-Za-z]{3,9}\.?\s+\d{1,2})\s*(?:-|–|to)\s*([A-Za-z]{3,9}\.?\s+\d{1,2}),?\s+(\d{4})/,
+};
+
+/**
+ * Find the statement period ("Jan 6, 2025 - Feb 5, 2025" or "Jan 1 - Jan 31, 2025").
+ */
+export function extractStatementPeriod(text: string): { start: string; end: string } | null {
+  const full = PERIOD_PATTERNS.full.exec(text);
+  if (full?.[1] !== undefined && full[2] !== undefined) {
+    return { start: parseLongDate(full[1]), end: parseLongDate(full[2]) };
+  }
+
+  const short = PERIOD_PATTERNS.short.exec(text);
+  if (short?.[1] !== undefined && short[2] !== undefined && short[3] !== undefined) {
+    const end = parseLongDate(`${short[2]}, ${short[3]}`);
+    return { start: resolveMonthDay(short[1], end), end };
+  }
+
+  return null;
+}
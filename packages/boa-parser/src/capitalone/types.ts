@@ -0,0 +1,45 @@
+import type { AccountType } from '@findata/types';
+
+export type CapitalOneSection = 'payments' | 'transactions' | 'fees' | 'interest' | 'activity' | 'unknown';
+
+/**
+ * One line of statement text. Lines produced from a layout extraction also
+ * carry their table cells, keyed by the lower-cased column header.
+ */
+export interface StatementLine {
+  text: string;
+  page: number;
+  index: number;
+  cells?: Record<string, string>;
+}
+
+export interface CapitalOneRawTransaction {
+  date: string;
+  postedDate: string | null;
+  description: string;
+  /** Signed from the account holder's perspective: negative = money out / new charge */
+  amount: number;
+  page: number;
+  lineIndex: number;
+  originalLine: string;
+  section: CapitalOneSection;
+}
+
+export interface CapitalOneAccountInfo {
+  accountType: AccountType;
+  accountNumberMasked: string;
+  statementPeriodStart: string;
+  statementPeriodEnd: string;
+}
+
+export interface CapitalOneBalanceInfo {
+  startingBalance: number;
+  endingBalance: number;
+}
+
+export interface CapitalOneParsedAccount {
+  accountInfo: CapitalOneAccountInfo;
+  balanceInfo: CapitalOneBalanceInfo;
+  transactions: CapitalOneRawTransaction[];
+  warnings: string[];
+}
@@ -0,0 +1,19 @@
+/**
+ * Channel detection for statements that are categorized after parsing
+ * (user rules, learned rules), using the extractor of the statement's
+ * institution.
+ */
+
+import type { ChannelInfo } from '@findata/types';
+import { CHIME_INSTITUTION_ID } from '@findata/types';
+import { extractChannel } from './boa/channel-extractor.js';
+import { extractChimeChannel } from './chime/channel-extractor.js';
+
+/**
+ * Channel of a transaction description for an institution id. Chime has its
+ * own extractor (Round Ups, Spending/Savings transfers, Pay Anyone); every
+ * other institution uses the generic one.
+ */
+export function extractInstitutionChannel(description: string, institutionId?: string): ChannelInfo {
+  return institutionId === CHIME_INSTITUTION_ID ? extractChimeChannel(description) : extractChannel(description);
+}
@@ -0,0 +1,189 @@
+import type { ExtractedPDF } from '@findata/pdf-extract';
+import type { ParsedStatement, ZodTransaction as Transaction, ParserOptions } from '@findata/types';
+import { categorizeTransaction, extractMerchant } from '@findata/categorizer';
+import { amountsEqual, calculateEndingBalance, parseAmount, roundToCurrency, sumAmounts } from '@findata/types';
+import { PARSER_VERSION, CHIME_INSTITUTION_NAME, CHIME_INSTITUTION_ID } from '@findata/types';
+import type { ParseResult, MultiStatementParseResult } from '../boa/index.js';
+import type { InstitutionParser } from '../registry.js';
+import { extractChimeChannel } from './channel-extractor.js';
+import { parseChimeStatementSections } from './statement-parser.js';
+import type { ChimeRawTransaction, ChimeStatementSection } from './types.js';
+
+/**
+ * Score how likely a PDF is a Chime Spending or Savings account statement.
+ * Chime accounts are held at partner banks, so the Bancorp/Stride disclosure
+ * counts as corroborating evidence alongside the Chime name.
+ */
+export function detectChime(pdf: ExtractedPDF): number {
+  const text = pdf.fullText.toLowerCase();
+  const mentionsChime = /\bchime\b/.test(text) || text.includes('chime.com');
+  if (!mentionsChime) {
+    return 0;
+  }
+
+  const hasStatementHeader = /(spending|checking|savings)\s+account\s+statement/.test(text);
+  const mentionsPartnerBank = text.includes('the bancorp bank') || text.includes('stride bank');
+
+  if (hasStatementHeader) return 0.95;
+  if (mentionsPartnerBank) return 0.7;
+  return 0.4;
+}
+
+function normalizeTransactions(rawTransactions: ChimeRawTransaction[]): Transaction[] {
+  return rawTransactions.map((raw) => {
+    const amount = parseAmount(raw.amount);
+    const absAmount = roundToCurrency(Math.abs(amount));
+    const direction: 'debit' | 'credit' = amount >= 0 ? 'credit' : 'debit';
+
+    const channel = extractChimeChannel(raw.description, raw.type);
+    const categorization = categorizeTransaction(raw.description, channel.type);
+    const merchant = extractMerchant(raw.description);
+
+    return {
+      date: raw.date,
+      postedDate: raw.settlementDate,
+      description: raw.description,
+      merchant,
+      amount: direction === 'debit' ? -absAmount : absAmount,
+      direction,
+      category: categorization.category,
+      subcategory: categorization.subcategory,
+      confidence: categorization.confidence,
+      raw: {
+        originalText: raw.originalLine,
+        page: raw.page,
+      },
+    };
+  });
+}
+
+function validateStatement(
+  section: ChimeStatementSection,
+  transactions: Transaction[],
+  totalCredits: number,
+  totalDebits: number,
+  warnings: string[]
+): void {
+  if (section.accountInfo.accountNumberMasked === '****0000') {
+    warnings.push('STRICT: Account number could not be verified');
+  }
+
+  if (section.accountInfo.statementPeriodStart === '' || section.accountInfo.statementPeriodEnd === '') {
+    warnings.push('STRICT: Statement period could not be verified');
+  }
+
+  if (transactions.length === 0) {
+    warnings.push('STRICT: No transactions were parsed');
+  }
+
+  const calculatedBalance = calculateEndingBalance(section.balanceInfo.startingBalance, totalCredits, totalDebits);
+  if (!amountsEqual(calculatedBalance, section.balanceInfo.endingBalance)) {
+    warnings.push(
+      `STRICT: Balance mismatch - calculated ${calculatedBalance}, reported ${section.balanceInfo.endingBalance}`
+    );
+  }
+}
+
+function buildStatement(section: ChimeStatementSection, options: ParserOptions): ParsedStatement {
+  const warnings = [...section.warnings];
+  const transactions = normalizeTransactions(section.transactions);
+
+  // Chime's summary block breaks totals out per transaction type, so derive
+  // credits/debits from the parsed rows instead of adding those lines up
+  const totalCredits = sumAmounts(
+    transactions.filter((t) => t.direction === 'credit').map((t) => t.amount)
+  );
+  const totalDebits = sumAmounts(
+    transactions.filter((t) => t.direction === 'debit').map((t) => Math.abs(t.amount))
+  );
+
+  if (options.strict) {
+    validateStatement(section, transactions, totalCredits, totalDebits, warnings);
+  }
+
+  return {
+    account: {
+      institution: CHIME_INSTITUTION_NAME,
+      institutionId: CHIME_INSTITUTION_ID,
+      accountType: section.accountInfo.accountType,
+      accountNumberMasked: section.accountInfo.accountNumberMasked,
+      statementPeriod: {
+        start: section.accountInfo.statementPeriodStart,
+        end: section.accountInfo.statementPeriodEnd,
+      },
+      currency: 'USD',
+    },
+    summary: {
+      startingBalance: section.balanceInfo.startingBalance,
+      endingBalance: section.balanceInfo.endingBalance,
+      totalCredits,
+      totalDebits,
+    },
+    transactions,
+    metadata: {
+      parserVersion: PARSER_VERSION,
+      parsedAt: new Date().toISOString(),
+      warnings,
+    },
+  };
+}
+
+/**
+ * Parse every Chime statement in a PDF (combined downloads contain the
+ * Spending and Savings statements back to back).
+ */
+export function parseChimeMultipleStatements(
+  pdf: ExtractedPDF,
+  options: ParserOptions = { strict: false, verbose: false }
+): MultiStatementParseResult {
+  const statements = parseChimeStatementSections(pdf).map((section) => buildStatement(section, options));
+  const totalTransactions = statements.reduce((sum, s) => sum + s.transactions.length, 0);
+
+  return {
+    statements,
+    success: statements.length > 0,
+    totalTransactions,
+  };
+}
+
+/**
+ * Parse the first Chime statement in a PDF.
+ */
+export function parseChimeStatement(
+  pdf: ExtractedPDF,
+  options: ParserOptions = { strict: false, verbose: false }
+): ParseResult {
+  const result = parseChimeMultipleStatements(pdf, options);
+  const statement = result.statements[0];
+  if (statement === undefined) {
+    throw new Error('No Chime statement found in PDF');
+  }
+  return { statement, success: true };
+}
+
+/**
+ * Chime institution parser: Spending (checking) and Savings account statements.
+ */
+export const chimeParser: InstitutionParser = {
+  id: 'chime',
+  institution: CHIME_INSTITUTION_NAME,
+  version: PARSER_VERSION,
+  detect: detectChime,
+  parse(pdf: ExtractedPDF, options: ParserOptions = { strict: false, verbose: false }): ParsedStatement[] {
+    const result = parseChimeMultipleStatements(pdf, options);
+    if (!result.success || result.statements.length === 0) {
+      throw new Error('Failed to parse any statements from PDF');
+    }
+    return result.statements;
+  },
+};
+
+export { extractChimeChannel } from './channel-extractor.js';
+export { parseChimeStatementSections } from './statement-parser.js';
+export type {
+  ChimeRawTransaction,
+  ChimeTransactionType,
+  ChimeAccountInfo,
+  ChimeBalanceInfo,
+  ChimeStatementSection,
+} from './types.js';
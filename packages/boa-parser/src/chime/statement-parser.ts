@@ -0,0 +1,267 @@
+import type { ExtractedPDF } from '@findata/pdf-extract';
+import type { AccountType } from '@findata/types';
+import { parseUSDate } from '@findata/types';
+import { parseAmount } from '@findata/types';
+import type {
+  ChimeAccountInfo,
+  ChimeBalanceInfo,
+  ChimeRawTransaction,
+  ChimeStatementSection,
+  ChimeTransactionType,
+} from './types.js';
+
+const CHIME_PATTERNS = {
+  statementHeader: /^(?:Chime\s+)?(Spending|Checking|Savings)\s+Account\s+Statement\b/i,
+  accountNumber: /Account\s+(?:number|no\.?|#)\s*:?[ \t]*([\d*xX•\- \t]{4,})/i,
+  statementPeriod: /([A-Za-z]+\.?\s+\d{1,2},?\s+\d{4})\s*(?:-|–|to|through)\s*([A-Za-z]+\.?\s+\d{1,2},?\s+\d{4})/i,
+  statementPeriodAlt: /(\d{1,2}\/\d{1,2}\/\d{4})\s*(?:-|–|to|through)\s*(\d{1,2}\/\d{1,2}\/\d{4})/i,
+  beginningBalance: /Beginning\s+balance(?:\s+on\s+[\d/]+)?\s*:?\s*(-?\$?[0-9,]+\.\d{2})/i,
+  endingBalance: /Ending\s+balance(?:\s+on\s+[\d/]+)?\s*:?\s*(-?\$?[0-9,]+\.\d{2})/i,
+  transactionLine: /^(\d{1,2}\/\d{1,2}\/\d{2,4})\s+(.+?)\s+(-?\$?[0-9,]+\.\d{2})(?:\s+(-?\$?[0-9,]+\.\d{2}))?(?:\s+(\d{1,2}\/\d{1,2}\/\d{2,4}))?$/,
+  trailingType: /\s+(ATM Withdrawal|Direct Deposit|SpotMe Tip|Round Up|Purchase|Deposit|Transfer|Adjustment|Interest|Fee|Refund|Payment|Withdrawal)$/i,
+};
+
+/** TYPE column values that always move money out of the account */
+const DEBIT_TYPES: ReadonlySet<ChimeTransactionType> = new Set<ChimeTransactionType>([
+  'Purchase',
+  'ATM Withdrawal',
+  'SpotMe Tip',
+  'Fee',
+  'Withdrawal',
+]);
+
+const CANONICAL_TYPES: Record<string, ChimeTransactionType> = {
+  'atm withdrawal': 'ATM Withdrawal',
+  'direct deposit': 'Direct Deposit',
+  'spotme tip': 'SpotMe Tip',
+  'round up': 'Round Up',
+  purchase: 'Purchase',
+  deposit: 'Deposit',
+  transfer: 'Transfer',
+  adjustment: 'Adjustment',
+  interest: 'Interest',
+  fee: 'Fee',
+  refund: 'Refund',
+  payment: 'Payment',
+  withdrawal: 'Withdrawal',
+};
+
+interface SegmentLine {
+  text: string;
+  page: number;
+  index: number;
+}
+
+interface StatementSegment {
+  accountType: AccountType | null;
+  lines: SegmentLine[];
+}
+
+/**
+ * Split a PDF into one segment per "Spending/Savings Account Statement" header.
+ * Chime exports each account as its own statement, but combined downloads
+ * place the Spending and Savings statements back to back.
+ */
+function detectStatementSegments(pdf: ExtractedPDF): StatementSegment[] {
+  const segments: StatementSegment[] = [];
+  let current: StatementSegment = { accountType: null, lines: [] };
+
+  for (const page of pdf.pages) {
+    for (let i = 0; i < page.lines.length; i++) {
+      const text = page.lines[i]?.trim() ?? '';
+      if (text === '') continue;
+
+      const headerMatch = CHIME_PATTERNS.statementHeader.exec(text);
+      if (headerMatch?.[1] !== undefined) {
+        if (current.accountType !== null) {
+          segments.push(current);
+          current = { accountType: null, lines: [] };
+        }
+        current.accountType = headerMatch[1].toLowerCase() === 'savings' ? 'savings' : 'checking';
+      }
+
+      current.lines.push({ text, page: page.pageNumber, index: i });
+    }
+  }
+
+  if (current.lines.length > 0) {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+/**
+ * Parse every Chime statement contained in a PDF.
+ */
+export function parseChimeStatementSections(pdf: ExtractedPDF): ChimeStatementSection[] {
+  return detectStatementSegments(pdf).map((segment) => {
+    const warnings: string[] = [];
+    const text = segment.lines.map((l) => l.text).join('\n');
+
+    if (segment.accountType === null) {
+      warnings.push('Could not find Chime statement header, inferring account type from text');
+    }
+    const accountType = segment.accountType ?? inferAccountType(text);
+
+    const accountInfo = extractAccountInfo(text, accountType, warnings);
+    const balanceInfo = extractBalanceInfo(text, warnings);
+    const transactions = filterTransactionsByPeriod(
+      extractTransactions(segment.lines, accountInfo, warnings),
+      accountInfo.statementPeriodStart,
+      accountInfo.statementPeriodEnd
+    );
+
+    const pages = segment.lines.map((l) => l.page);
+    return {
+      accountInfo,
+      balanceInfo,
+      transactions,
+      warnings,
+      pageRange: { start: Math.min(...pages), end: Math.max(...pages) },
+    };
+  });
+}
+
+function inferAccountType(text: string): AccountType {
+  return /savings\s+account/i.test(text) && !/spending\s+account|checking\s+account/i.test(text)
+    ? 'savings'
+    : 'checking';
+}
+
+function extractAccountInfo(text: string, accountType: AccountType, warnings: string[]): ChimeAccountInfo {
+  let accountNumberMasked = '****0000';
+  let statementPeriodStart = '';
+  let statementPeriodEnd = '';
+
+  const accountMatch = CHIME_PATTERNS.accountNumber.exec(text);
+  const digits = accountMatch?.[1]?.replace(/\D/g, '') ?? '';
+  if (digits.length >= 4) {
+    accountNumberMasked = `****${digits.slice(-4)}`;
+  } else {
+    warnings.push('Could not extract account number from Chime statement');
+  }
+
+  const periodMatch = CHIME_PATTERNS.statementPeriod.exec(text);
+  const periodAltMatch = CHIME_PATTERNS.statementPeriodAlt.exec(text);
+  if (periodMatch?.[1] !== undefined && periodMatch[2] !== undefined) {
+    statementPeriodStart = parseMonthDayYear(periodMatch[1]);
+    statementPeriodEnd = parseMonthDayYear(periodMatch[2]);
+  } else if (periodAltMatch?.[1] !== undefined && periodAltMatch[2] !== undefined) {
+    statementPeriodStart = parseUSDate(periodAltMatch[1]);
+    statementPeriodEnd = parseUSDate(periodAltMatch[2]);
+  } else {
+    warnings.push('Could not extract statement period from Chime statement');
+  }
+
+  return { accountType, accountNumberMasked, statementPeriodStart, statementPeriodEnd };
+}
+
+function parseMonthDayYear(dateStr: string): string {
+  const months: Record<string, string> = {
+    january: '01', february: '02', march: '03', april: '04',
+    may: '05', june: '06', july: '07', august: '08',
+    september: '09', october: '10', november: '11', december: '12',
+    jan: '01', feb: '02', mar: '03', apr: '04',
+    jun: '06', jul: '07', aug: '08', sep: '09', sept: '09', oct: '10', nov: '11', dec: '12',
+  };
+
+  const match = /([A-Za-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})/.exec(dateStr);
+  if (match?.[1] !== undefined && match[2] !== undefined && match[3] !== undefined) {
+    const monthNum = months[match[1].toLowerCase()];
+    if (monthNum !== undefined) {
+      return `${match[3]}-${monthNum}-${match[2].padStart(2, '0')}`;
+    }
+  }
+  throw new Error(`Unable to parse date: ${dateStr}`);
+}
+
+function extractBalanceInfo(text: string, warnings: string[]): ChimeBalanceInfo {
+  let startingBalance = 0;
+  let endingBalance = 0;
+
+  const beginMatch = CHIME_PATTERNS.beginningBalance.exec(text);
+  if (beginMatch?.[1] !== undefined) {
+    startingBalance = parseAmount(beginMatch[1]);
+  } else {
+    warnings.push('Could not extract beginning balance from Chime statement');
+  }
+
+  const endMatch = CHIME_PATTERNS.endingBalance.exec(text);
+  if (endMatch?.[1] !== undefined) {
+    endingBalance = parseAmount(endMatch[1]);
+  } else {
+    warnings.push('Could not extract ending balance from Chime statement');
+  }
+
+  return { startingBalance, endingBalance };
+}
+
+function extractTransactions(
+  lines: SegmentLine[],
+  accountInfo: ChimeAccountInfo,
+  warnings: string[]
+): ChimeRawTransaction[] {
+  const transactions: ChimeRawTransaction[] = [];
+  const statementYear = parseInt(accountInfo.statementPeriodEnd.split('-')[0] ?? '', 10);
+  const year = Number.isNaN(statementYear) ? undefined : statementYear;
+
+  for (const line of lines) {
+    const txn = parseTransactionLine(line, year);
+    if (txn !== null) {
+      transactions.push(txn);
+    }
+  }
+
+  if (transactions.length === 0) {
+    warnings.push('No transactions found in Chime statement');
+  }
+
+  return transactions;
+}
+
+function parseTransactionLine(line: SegmentLine, statementYear: number | undefined): ChimeRawTransaction | null {
+  const match = CHIME_PATTERNS.transactionLine.exec(line.text);
+  if (match === null) return null;
+
+  const [, dateStr, descriptionWithType, amountStr, , settlementStr] = match;
+  if (dateStr === undefined || descriptionWithType === undefined || amountStr === undefined) {
+    return null;
+  }
+
+  let description = descriptionWithType.trim();
+  let type: ChimeTransactionType | null = null;
+  const typeMatch = CHIME_PATTERNS.trailingType.exec(description);
+  if (typeMatch?.[1] !== undefined && typeMatch.index > 0) {
+    type = CANONICAL_TYPES[typeMatch[1].toLowerCase()] ?? null;
+    description = description.slice(0, typeMatch.index).trim();
+  }
+
+  let amount = amountStr;
+  if (type !== null && DEBIT_TYPES.has(type) && !amount.startsWith('-')) {
+    amount = `-${amount}`;
+  }
+
+  return {
+    date: parseUSDate(dateStr, statementYear),
+    settlementDate: settlementStr !== undefined ? parseUSDate(settlementStr, statementYear) : null,
+    description,
+    type,
+    amount,
+    page: line.page,
+    lineIndex: line.index,
+    originalLine: line.text,
+  };
+}
+
+function filterTransactionsByPeriod(
+  transactions: ChimeRawTransaction[],
+  startDate: string,
+  endDate: string
+): ChimeRawTransaction[] {
+  if (!startDate || !endDate) {
+    return transactions;
+  }
+
+  return transactions.filter((txn) => txn.date >= startDate && txn.date <= endDate);
+}
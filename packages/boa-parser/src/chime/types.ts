@@ -0,0 +1,51 @@
+import type { AccountType } from '@findata/types';
+
+/**
+ * Values of the TYPE column in Chime's transaction table.
+ */
+export type ChimeTransactionType =
+  | 'Purchase'
+  | 'ATM Withdrawal'
+  | 'Direct Deposit'
+  | 'Deposit'
+  | 'Transfer'
+  | 'Round Up'
+  | 'Adjustment'
+  | 'Interest'
+  | 'SpotMe Tip'
+  | 'Fee'
+  | 'Refund'
+  | 'Payment'
+  | 'Withdrawal';
+
+export interface ChimeRawTransaction {
+  date: string;
+  /** SETTLEMENT DATE column, when present */
+  settlementDate: string | null;
+  description: string;
+  type: ChimeTransactionType | null;
+  amount: string;
+  page: number;
+  lineIndex: number;
+  originalLine: string;
+}
+
+export interface ChimeAccountInfo {
+  accountType: AccountType;
+  accountNumberMasked: string;
+  statementPeriodStart: string;
+  statementPeriodEnd: string;
+}
+
+export interface ChimeBalanceInfo {
+  startingBalance: number;
+  endingBalance: number;
+}
+
+export interface ChimeStatementSection {
+  accountInfo: ChimeAccountInfo;
+  balanceInfo: ChimeBalanceInfo;
+  transactions: ChimeRawTransaction[];
+  warnings: string[];
+  pageRange: { start: number; end: number };
+}
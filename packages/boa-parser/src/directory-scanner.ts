@@ -1,11 +1,22 @@
-import { readdir, stat } from 'fs/promises';
-import { join, extname, normalize } from 'path';
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, extname, normalize, basename } from 'path';
+import { IMPORT_FILE_EXTENSIONS } from './importers/index.js';
+import { listZipFileEntries, readZipFile, type ZipEntry } from './zip-archive.js';
 
 export interface PdfFileInfo {
   filePath: string;
+  /**
+   * Path relative to the scanned directory with forward slashes
+   * ('2024/checking/jan.pdf', 'bundle.zip/jan.pdf'); the bare file name for
+   * files at the top level. Used as the source file name in results.
+   */
   fileName: string;
   sizeBytes: number;
   modifiedAt: Date;
+  /** ZIP archive the file is read from; filePath is then `<archivePath>/<entryName>` */
+  archivePath?: string;
+  /** Path of the file inside archivePath */
+  entryName?: string;
 }
 
 export interface ScanResult {
@@ -14,58 +25,186 @@ export interface ScanResult {
   directoryPath: string;
 }
 
+export interface ScanOptions {
+  /** Descend into subdirectories, except hidden ones (default: false) */
+  recursive?: boolean;
+  /** Keep only files matching one of these globs */
+  include?: string[];
+  /** Leave out files (or ZIP archives) matching one of these globs */
+  exclude?: string[];
+  /** Read statement files out of .zip archives (default: true) */
+  archives?: boolean;
+}
+
 /**
  * Scans a directory for PDF files, filtering out temporary/invalid files.
  * Returns files sorted by filename ascending for deterministic processing.
  */
-export async function scanDirectoryForPdfs(directoryPath: string): Promise<ScanResult> {
+export async function scanDirectoryForPdfs(directoryPath: string, options: ScanOptions = {}): Promise<ScanResult> {
+  return scanDirectory(directoryPath, ['.pdf'], options);
+}
+
+/**
+ * Scans a directory for statement files: PDFs plus OFX/QFX/CSV downloads
+ * handled by the importers. Same filtering and ordering as scanDirectoryForPdfs.
+ */
+export async function scanDirectoryForStatementFiles(directoryPath: string, options: ScanOptions = {}): Promise<ScanResult> {
+  return scanDirectory(directoryPath, ['.pdf', ...IMPORT_FILE_EXTENSIONS], options);
+}
+
+/**
+ * Read the contents of a scanned file, from disk or out of its ZIP archive.
+ */
+export async function readStatementFile(file: PdfFileInfo): Promise<Buffer> {
+  if (file.archivePath !== undefined && file.entryName !== undefined) {
+    return readZipFile(file.archivePath, file.entryName);
+  }
+  return readFile(file.filePath);
+}
+
+/**
+ * Convert a glob to a regular expression: `**` matches across directories,
+ * `*` and `?` within one path segment, `{a,b}` either alternative.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Whether a relative path matches a glob. Globs without a slash match the
+ * file name in any directory ('*.csv'), like .gitignore.
+ */
+function matchesAnyGlob(relativePath: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) =>
+    globToRegExp(pattern).test(pattern.includes('/') ? relativePath : basename(relativePath))
+  );
+}
+
+async function scanDirectory(
+  directoryPath: string,
+  extensions: readonly string[],
+  options: ScanOptions
+): Promise<ScanResult> {
   const normalizedPath = normalize(directoryPath);
-  const entries = await readdir(normalizedPath, { withFileTypes: true });
-  
   const files: PdfFileInfo[] = [];
   const skipped: Array<{ fileName: string; reason: string }> = [];
-  
-  for (const entry of entries) {
-    // Skip directories
-    if (entry.isDirectory()) {
-      continue;
-    }
-    
-    const fileName = entry.name;
-    const filePath = join(normalizedPath, fileName);
-    
-    // Check if it's a PDF file (case-insensitive)
-    const ext = extname(fileName).toLowerCase();
-    if (ext !== '.pdf') {
-      continue;
-    }
-    
+  const include = options.include ?? [];
+  const exclude = options.exclude ?? [];
+
+  // Check the extension (case-insensitive) and the include/exclude globs
+  const isCandidate = (relativePath: string): boolean =>
+    extensions.includes(extname(relativePath).toLowerCase()) &&
+    (include.length === 0 || matchesAnyGlob(relativePath, include)) &&
+    !(exclude.length > 0 && matchesAnyGlob(relativePath, exclude));
+
+  const skipReason = (relativePath: string, size: number): string | null => {
+    const name = basename(relativePath);
     // Skip temporary files (starting with ~$ or .)
-    if (fileName.startsWith('~$') || fileName.startsWith('.')) {
-      skipped.push({ fileName, reason: 'Temporary file (starts with ~$ or .)' });
-      continue;
-    }
-    
-    // Get file stats
-    const fileStat = await stat(filePath);
-    
+    if (name.startsWith('~$') || name.startsWith('.')) return 'Temporary file (starts with ~$ or .)';
     // Skip zero-byte files
-    if (fileStat.size === 0) {
-      skipped.push({ fileName, reason: 'Zero-byte file' });
-      continue;
+    if (size === 0) return 'Zero-byte file';
+    return null;
+  };
+
+  const scanArchive = async (archivePath: string, relativePath: string, modifiedAt: Date): Promise<void> => {
+    let entries: ZipEntry[];
+    try {
+      entries = await listZipFileEntries(archivePath);
+    } catch (error) {
+      skipped.push({ fileName: relativePath, reason: `Unreadable ZIP archive: ${error instanceof Error ? error.message : String(error)}` });
+      return;
     }
-    
-    files.push({
-      filePath,
-      fileName,
-      sizeBytes: fileStat.size,
-      modifiedAt: fileStat.mtime,
-    });
-  }
-  
+
+    for (const entry of entries) {
+      // macOS resource forks
+      if (entry.name.startsWith('__MACOSX/')) continue;
+      const entryPath = `${relativePath}/${entry.name}`;
+      if (!isCandidate(entryPath)) continue;
+      const reason = skipReason(entryPath, entry.size);
+      if (reason !== null) {
+        skipped.push({ fileName: entryPath, reason });
+        continue;
+      }
+      files.push({
+        filePath: join(archivePath, entry.name),
+        fileName: entryPath,
+        sizeBytes: entry.size,
+        modifiedAt,
+        archivePath,
+        entryName: entry.name,
+      });
+    }
+  };
+
+  const walk = async (dirPath: string, prefix: string): Promise<void> => {
+    const entries = await readdir(dirPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const filePath = join(dirPath, entry.name);
+      const relativePath = prefix + entry.name;
+
+      if (entry.isDirectory()) {
+        if (options.recursive === true && !entry.name.startsWith('.')) {
+          await walk(filePath, `${relativePath}/`);
+        }
+        continue;
+      }
+
+      const isArchive = extname(entry.name).toLowerCase() === '.zip';
+      if (isArchive && options.archives !== false) {
+        if (exclude.length > 0 && matchesAnyGlob(relativePath, exclude)) continue;
+        await scanArchive(filePath, relativePath, (await stat(filePath)).mtime);
+        continue;
+      }
+
+      if (!isCandidate(relativePath)) continue;
+
+      // Get file stats
+      const fileStat = await stat(filePath);
+      const reason = skipReason(relativePath, fileStat.size);
+      if (reason !== null) {
+        skipped.push({ fileName: relativePath, reason });
+        continue;
+      }
+
+      files.push({
+        filePath,
+        fileName: relativePath,
+        sizeBytes: fileStat.size,
+        modifiedAt: fileStat.mtime,
+      });
+    }
+  };
+
+  await walk(normalizedPath, '');
+
   // Sort by filename ascending for deterministic order
   files.sort((a, b) => a.fileName.localeCompare(b.fileName));
-  
+
   return {
     files,
     skipped,
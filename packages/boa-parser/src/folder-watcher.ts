@@ -0,0 +1,294 @@
+/**
+ * Watch-folder mode: poll a directory for new or changed statement files,
+ * parse them once they stop changing, and keep a merged result of every
+ * statement in the folder.
+ */
+
+import { appendFile } from 'fs/promises';
+import { basename } from 'path';
+import type { ParsedStatement } from '@findata/types';
+import { scanDirectoryForStatementFiles, type PdfFileInfo, type ScanOptions } from './directory-scanner.js';
+import {
+  mergeStatementsWithSources,
+  getStatementKey,
+  isCombinedPdfFilename,
+  type MergeResult,
+  type StatementWithSource,
+} from './statement-merger.js';
+import { processBatch, type BatchProcessOptions, type BatchProcessResult, type ParseError } from './batch-processor.js';
+
+export type WatchFileState = 'parsed' | 'failed' | 'encrypted' | 'removed';
+
+/**
+ * One line of the watch status log (JSON Lines)
+ */
+export interface WatchFileStatus {
+  timestamp: string;
+  /** Path relative to the watched folder */
+  fileName: string;
+  filePath: string;
+  status: WatchFileState;
+  /** Institution parser or importer, for parsed files */
+  parserId?: string;
+  statements: number;
+  transactions: number;
+  /** Served from the parse cache */
+  cached?: boolean;
+  error?: string;
+}
+
+export interface WatchUpdate {
+  /** Files handled in this round, in file name order */
+  files: WatchFileStatus[];
+  /** Batch result for the files parsed in this round only */
+  batch: BatchProcessResult;
+  /** Statements of every file currently in the folder, merged and deduplicated */
+  merged: MergeResult;
+}
+
+export interface FolderWatcherOptions {
+  inputDir: string;
+  /** Options for processBatch (registry, cache, passwords, concurrency, ...) */
+  batch?: BatchProcessOptions;
+  /**
+   * Statements of an existing result file to merge into. A statement from
+   * the folder replaces one with the same account and period; removing that
+   * file drops both.
+   */
+  existingStatements?: ParsedStatement[];
+  /** Subfolders, ZIP archives and include/exclude globs */
+  scan?: ScanOptions;
+  /** How often the folder is scanned, in ms (default: 2000) */
+  pollIntervalMs?: number;
+  /** How long a file's size and modification time must stay unchanged before it is parsed, in ms (default: 2000) */
+  settleMs?: number;
+  /** Append one JSON line per handled file to this file */
+  statusLogPath?: string;
+  /** Called after each round that parsed or removed files */
+  onUpdate: (update: WatchUpdate) => Promise<void> | void;
+  /** Called when a round fails (e.g. the folder disappeared); watching continues */
+  onError?: (error: Error) => void;
+}
+
+interface SeenFile {
+  signature: string;
+  /** When the current signature was first seen */
+  since: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_SETTLE_MS = 2000;
+
+function fileSignature(file: PdfFileInfo): string {
+  return `${file.sizeBytes}:${file.modifiedAt.getTime()}`;
+}
+
+function countTransactions(statements: ParsedStatement[]): number {
+  return statements.reduce((sum, s) => sum + s.transactions.length, 0);
+}
+
+/**
+ * Watches a statement folder. Files still being written are debounced: a file
+ * is parsed only after its size and modification time have been stable for
+ * `settleMs` across two scans. Changed files are parsed again, removed files
+ * drop out of the merged result.
+ */
+export class FolderWatcher {
+  private readonly options: FolderWatcherOptions;
+  /** Files waiting to settle, by path */
+  private readonly pending = new Map<string, SeenFile>();
+  /** Each file as it was last handled, by path */
+  private readonly handled = new Map<string, { signature: string; fileName: string }>();
+  /** Statements of each parsed file, by path */
+  private readonly statements = new Map<string, StatementWithSource[]>();
+  /** Statements of the existing result file still in the merged result */
+  private existing: ParsedStatement[];
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<void> | undefined;
+  private closed = false;
+
+  constructor(options: FolderWatcherOptions) {
+    this.options = options;
+    this.existing = options.existingStatements ?? [];
+  }
+
+  /**
+   * Start polling. The first scan runs immediately; files already in the
+   * folder are parsed once they have settled.
+   */
+  start(): void {
+    if (this.running !== undefined && !this.closed) return;
+    this.closed = false;
+    const tick = (): void => {
+      this.running = this.poll()
+        .then(() => undefined)
+        .catch((error: unknown) => {
+          if (this.options.onError !== undefined) {
+            this.options.onError(error instanceof Error ? error : new Error(String(error)));
+          }
+        })
+        .finally(() => {
+          if (!this.closed) {
+            this.timer = setTimeout(tick, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+          }
+        });
+    };
+    tick();
+  }
+
+  /** Stop polling and wait for the current round to finish */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.running;
+  }
+
+  /**
+   * Scan the folder once and parse every file that has settled.
+   * Returns the update passed to onUpdate, or null when nothing changed.
+   */
+  async poll(now: number = Date.now()): Promise<WatchUpdate | null> {
+    const scan = await scanDirectoryForStatementFiles(this.options.inputDir, this.options.scan);
+    const settleMs = this.options.settleMs ?? DEFAULT_SETTLE_MS;
+    const present = new Set(scan.files.map((f) => f.filePath));
+    const ready: PdfFileInfo[] = [];
+
+    for (const file of scan.files) {
+      const signature = fileSignature(file);
+      if (this.handled.get(file.filePath)?.signature === signature) {
+        this.pending.delete(file.filePath);
+        continue;
+      }
+
+      const seen = this.pending.get(file.filePath);
+      if (seen === undefined || seen.signature !== signature) {
+        // New or still being written: wait for the next scan
+        this.pending.set(file.filePath, { signature, since: now });
+      } else if (now - seen.since >= settleMs) {
+        ready.push(file);
+      }
+    }
+
+    const removed = [...this.handled.keys()].filter((path) => !present.has(path)).sort();
+    for (const path of [...this.pending.keys()]) {
+      if (!present.has(path)) this.pending.delete(path);
+    }
+
+    if (ready.length === 0 && removed.length === 0) {
+      return null;
+    }
+
+    const statuses: WatchFileStatus[] = [];
+    const timestamp = new Date(now).toISOString();
+
+    for (const path of removed) {
+      const previous = this.statements.get(path) ?? [];
+      const fileName = this.handled.get(path)?.fileName ?? basename(path);
+      this.handled.delete(path);
+      this.statements.delete(path);
+      const removedKeys = new Set(previous.map((s) => getStatementKey(s.statement)));
+      this.existing = this.existing.filter((statement) => !removedKeys.has(getStatementKey(statement)));
+      statuses.push({
+        timestamp,
+        fileName,
+        filePath: path,
+        status: 'removed',
+        statements: previous.length,
+        transactions: countTransactions(previous.map((s) => s.statement)),
+      });
+    }
+
+    const batchOptions = this.options.batch ?? {};
+    const failure = (file: ParseError, status: WatchFileState): WatchFileStatus => ({
+      timestamp,
+      fileName: file.filename,
+      filePath: file.filePath,
+      status,
+      statements: 0,
+      transactions: 0,
+      error: file.error,
+    });
+    const roundStatuses = new Map<string, WatchFileStatus>();
+
+    const batch = await processBatch(ready, {
+      ...batchOptions,
+      onFileParsed: (file, result) => {
+        this.statements.set(file.filePath, result.statements.map((statement) => ({
+          statement,
+          sourceFile: file.fileName,
+          isCombinedPdf: isCombinedPdfFilename(basename(file.fileName)),
+        })));
+        roundStatuses.set(file.filePath, {
+          timestamp,
+          fileName: file.fileName,
+          filePath: file.filePath,
+          status: 'parsed',
+          parserId: result.parserId,
+          statements: result.statements.length,
+          transactions: countTransactions(result.statements),
+          cached: result.cached,
+        });
+        if (batchOptions.onFileParsed !== undefined) {
+          batchOptions.onFileParsed(file, result);
+        }
+      },
+      onError: (error) => {
+        this.statements.delete(error.filePath);
+        roundStatuses.set(error.filePath, failure(error, 'failed'));
+        if (batchOptions.onError !== undefined) {
+          batchOptions.onError(error);
+        }
+      },
+      onEncrypted: (error) => {
+        this.statements.delete(error.filePath);
+        roundStatuses.set(error.filePath, failure(error, 'encrypted'));
+        if (batchOptions.onEncrypted !== undefined) {
+          batchOptions.onEncrypted(error);
+        }
+      },
+    });
+
+    for (const file of ready) {
+      this.handled.set(file.filePath, { signature: fileSignature(file), fileName: file.fileName });
+      this.pending.delete(file.filePath);
+      const status = roundStatuses.get(file.filePath);
+      if (status !== undefined) statuses.push(status);
+    }
+    statuses.sort((a, b) => a.fileName.localeCompare(b.fileName));
+
+    const update: WatchUpdate = {
+      files: statuses,
+      batch,
+      merged: this.mergeAll(),
+    };
+
+    if (this.options.statusLogPath !== undefined && statuses.length > 0) {
+      await appendFile(this.options.statusLogPath, statuses.map((s) => JSON.stringify(s) + '\n').join(''), 'utf-8');
+    }
+
+    await this.options.onUpdate(update);
+    return update;
+  }
+
+  /**
+   * Merge the existing result's statements with those of every parsed file,
+   * in file name order
+   */
+  private mergeAll(): MergeResult {
+    const parsed = [...this.statements.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, statements]) => statements);
+    const parsedKeys = new Set(parsed.flat().map((s) => getStatementKey(s.statement)));
+    const existing = this.existing
+      .filter((statement) => !parsedKeys.has(getStatementKey(statement)))
+      .map((statement) => ({ statement, sourceFile: '', isCombinedPdf: false }));
+    const sources = existing.length > 0 ? [existing, ...parsed] : parsed;
+
+    return sources.length > 0
+      ? mergeStatementsWithSources(sources)
+      : { statements: [], totalTransactions: 0, duplicateStatementsRemoved: 0, duplicateTransactionsRemoved: 0 };
+  }
+}
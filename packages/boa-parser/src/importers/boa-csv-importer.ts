@@ -0,0 +1,227 @@
+/**
+ * Bank of America CSV Importer
+ *
+ * Reads the activity files downloaded from Bank of America online banking:
+ *
+ * - Checking/savings ("stmt.csv"): a balance summary block followed by
+ *   `Date,Description,Amount,Running Bal.` rows
+ * - Credit card ("<Month><Year>_1234.csv"):
+ *   `Posted Date,Reference Number,Payee,Address,Amount` rows, with charges
+ *   negative and payments positive
+ *
+ * Neither file carries the account number, so it comes from the options or
+ * from a trailing `_1234` in the file name.
+ */
+
+import type { AccountType, ParsedStatement } from '@findata/types';
+import { parseAmount, parseUSDate, BOA_INSTITUTION_ID, BOA_INSTITUTION_NAME, DEFAULT_CURRENCY } from '@findata/types';
+import { buildImportedStatement, maskAccountNumber, type ImportedRow } from './statement-builder.js';
+
+export type BoaCsvKind = 'deposit' | 'credit';
+
+/**
+ * Options for Bank of America CSV import
+ */
+export interface BoaCsvImportOptions {
+  /** File name, used to find the account's last four digits */
+  fileName?: string;
+  /** Full or last-four account number (overrides the file name) */
+  accountNumber?: string;
+  /** Account type for checking/savings downloads (default: 'checking') */
+  accountType?: AccountType;
+}
+
+const DEPOSIT_HEADER = /^date,description,amount,running bal\.?$/i;
+const CREDIT_HEADER = /^posted date,reference number,payee,address,amount$/i;
+const BALANCE_LINE = /^(beginning|ending) balance as of (\d{1,2}\/\d{1,2}\/\d{4})$/i;
+
+/**
+ * Split one CSV line into fields (RFC 4180 quoting, no embedded newlines)
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields.map((field) => field.trim());
+}
+
+function toLines(content: string): string[] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+}
+
+function normalizeHeader(line: string): string {
+  return splitCsvLine(line).join(',');
+}
+
+/**
+ * Detect which Bank of America CSV layout the content uses, or null
+ */
+export function detectBoaCsv(content: string): BoaCsvKind | null {
+  for (const line of toLines(content).slice(0, 20)) {
+    const header = normalizeHeader(line);
+    if (DEPOSIT_HEADER.test(header)) return 'deposit';
+    if (CREDIT_HEADER.test(header)) return 'credit';
+  }
+  return null;
+}
+
+function resolveAccountNumber(options: BoaCsvImportOptions, warnings: string[]): string {
+  if (options.accountNumber !== undefined && options.accountNumber !== '') {
+    return maskAccountNumber(options.accountNumber);
+  }
+  const fromFileName = options.fileName !== undefined ? /_(\d{4})\.csv$/i.exec(options.fileName) : null;
+  if (fromFileName?.[1] !== undefined) {
+    return maskAccountNumber(fromFileName[1]);
+  }
+  warnings.push('Account number not found in CSV or file name; using ****0000');
+  return '****0000';
+}
+
+function parseDepositCsv(lines: string[], options: BoaCsvImportOptions): ParsedStatement {
+  const warnings: string[] = [];
+  const rows: ImportedRow[] = [];
+  let startingBalance: number | undefined;
+  let endingBalance: number | undefined;
+  let periodStart: string | undefined;
+  let periodEnd: string | undefined;
+  let inTransactions = false;
+
+  for (const line of lines) {
+    const fields = splitCsvLine(line);
+
+    if (!inTransactions) {
+      if (DEPOSIT_HEADER.test(fields.join(','))) {
+        inTransactions = true;
+        continue;
+      }
+      // Summary block: "Beginning balance as of 01/01/2025,,"1,000.00""
+      const balanceMatch = BALANCE_LINE.exec(fields[0] ?? '');
+      const amountField = fields[2] ?? '';
+      if (balanceMatch !== null && amountField !== '') {
+        const date = parseUSDate(balanceMatch[2] ?? '');
+        const balance = parseAmount(amountField);
+        if (balanceMatch[1]?.toLowerCase() === 'beginning') {
+          startingBalance = balance;
+          periodStart = date;
+        } else {
+          endingBalance = balance;
+          periodEnd = date;
+        }
+      }
+      continue;
+    }
+
+    const [dateField = '', description = '', amountField = ''] = fields;
+    // The first row repeats the beginning balance without an amount
+    if (amountField === '' || BALANCE_LINE.test(description)) {
+      continue;
+    }
+
+    try {
+      rows.push({
+        date: parseUSDate(dateField),
+        postedDate: null,
+        description,
+        amount: parseAmount(amountField),
+        originalText: line,
+      });
+    } catch (error) {
+      warnings.push(`Skipped CSV row "${line}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return buildImportedStatement(
+    {
+      institution: BOA_INSTITUTION_NAME,
+      institutionId: BOA_INSTITUTION_ID,
+      accountType: options.accountType ?? 'checking',
+      accountNumberMasked: resolveAccountNumber(options, warnings),
+      currency: DEFAULT_CURRENCY,
+      periodStart,
+      periodEnd,
+    },
+    rows,
+    { startingBalance, endingBalance },
+    warnings
+  );
+}
+
+function parseCreditCsv(lines: string[], options: BoaCsvImportOptions): ParsedStatement {
+  const warnings: string[] = [];
+  const rows: ImportedRow[] = [];
+  let inTransactions = false;
+
+  for (const line of lines) {
+    const fields = splitCsvLine(line);
+    if (!inTransactions) {
+      inTransactions = CREDIT_HEADER.test(fields.join(','));
+      continue;
+    }
+
+    const [dateField = '', reference = '', payee = '', , amountField = ''] = fields;
+    try {
+      rows.push({
+        date: parseUSDate(dateField),
+        postedDate: null,
+        description: payee !== '' ? payee : reference,
+        amount: parseAmount(amountField),
+        originalText: line,
+      });
+    } catch (error) {
+      warnings.push(`Skipped CSV row "${line}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return buildImportedStatement(
+    {
+      institution: BOA_INSTITUTION_NAME,
+      institutionId: BOA_INSTITUTION_ID,
+      accountType: 'credit',
+      accountNumberMasked: resolveAccountNumber(options, warnings),
+      currency: DEFAULT_CURRENCY,
+    },
+    rows,
+    {},
+    warnings
+  );
+}
+
+/**
+ * Import a Bank of America checking/savings or credit card CSV download.
+ */
+export function importBoaCsv(content: string, options: BoaCsvImportOptions = {}): ParsedStatement[] {
+  const kind = detectBoaCsv(content);
+  if (kind === null) {
+    throw new Error('Unrecognized CSV layout (expected a Bank of America account activity download)');
+  }
+
+  const lines = toLines(content);
+  return [kind === 'credit' ? parseCreditCsv(lines, options) : parseDepositCsv(lines, options)];
+}
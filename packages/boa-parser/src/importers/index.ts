@@ -0,0 +1,116 @@
+/**
+ * Statement file importers.
+ *
+ * Non-PDF inputs (OFX/QFX downloads and Bank of America CSV activity files)
+ * are read straight into canonical ParsedStatements, so they flow through
+ * categorization, statement merging, batch processing and unified sync the
+ * same way parsed PDFs do.
+ */
+
+import { readFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import type { AccountType, ParsedStatement } from '@findata/types';
+import { importOfx, isOfxContent } from './ofx-importer.js';
+import { detectBoaCsv, importBoaCsv } from './boa-csv-importer.js';
+
+export type ImportFormat = 'ofx' | 'qfx' | 'boa-csv';
+
+/**
+ * File extensions handled by the importers (PDFs go through the parser registry)
+ */
+export const IMPORT_FILE_EXTENSIONS: readonly string[] = ['.ofx', '.qfx', '.csv'];
+
+export interface StatementImportOptions {
+  /** Institution display name for OFX files without a recognizable FI block */
+  institution?: string;
+  /** Full or last-four account number for CSV files, which do not include one */
+  accountNumber?: string;
+  /** Account type for checking/savings CSV downloads (default: 'checking') */
+  accountType?: AccountType;
+}
+
+export interface StatementImportResult {
+  format: ImportFormat;
+  statements: ParsedStatement[];
+}
+
+/**
+ * Check whether a file is read by an importer rather than a PDF parser
+ */
+export function isImportFile(fileName: string): boolean {
+  return IMPORT_FILE_EXTENSIONS.includes(extname(fileName).toLowerCase());
+}
+
+/**
+ * Detect the import format from the file name and content, or null if no
+ * importer understands it.
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFormat | null {
+  if (isOfxContent(content)) {
+    return extname(fileName).toLowerCase() === '.qfx' ? 'qfx' : 'ofx';
+  }
+  if (detectBoaCsv(content) !== null) {
+    return 'boa-csv';
+  }
+  return null;
+}
+
+/**
+ * Import statements from file content.
+ */
+export function importStatements(
+  content: string,
+  fileName: string,
+  options: StatementImportOptions = {}
+): StatementImportResult {
+  const format = detectImportFormat(fileName, content);
+
+  switch (format) {
+    case 'ofx':
+    case 'qfx':
+      return {
+        format,
+        statements: importOfx(content, options.institution !== undefined ? { institution: options.institution } : {}),
+      };
+    case 'boa-csv':
+      return {
+        format,
+        statements: importBoaCsv(content, {
+          fileName: basename(fileName),
+          ...(options.accountNumber !== undefined ? { accountNumber: options.accountNumber } : {}),
+          ...(options.accountType !== undefined ? { accountType: options.accountType } : {}),
+        }),
+      };
+    default:
+      throw new Error(`Unrecognized import file: ${basename(fileName)} (expected OFX, QFX or a Bank of America CSV download)`);
+  }
+}
+
+/**
+ * Read an OFX/QFX/CSV file and import its statements.
+ * OFX 1.x files that declare CHARSET:1252 are decoded as Latin-1.
+ */
+export async function importStatementFile(
+  filePath: string,
+  options: StatementImportOptions = {}
+): Promise<StatementImportResult> {
+  return importStatementBuffer(await readFile(filePath), filePath, options);
+}
+
+/**
+ * Same as importStatementFile, for file contents already in memory (e.g. read
+ * out of a ZIP archive).
+ */
+export function importStatementBuffer(
+  buffer: Buffer,
+  fileName: string,
+  options: StatementImportOptions = {}
+): StatementImportResult {
+  const head = buffer.subarray(0, 512).toString('latin1');
+  const encoding = /CHARSET:\s*(1252|ISO-8859-1)/i.test(head) ? 'latin1' : 'utf-8';
+  return importStatements(buffer.toString(encoding), fileName, options);
+}
+
+export { importOfx, isOfxContent, parseOfxDocument, type OfxImportOptions, type OfxElement } from './ofx-importer.js';
+export { importBoaCsv, detectBoaCsv, type BoaCsvImportOptions, type BoaCsvKind } from './boa-csv-importer.js';
+export { maskAccountNumber } from './statement-builder.js';
@@ -0,0 +1,298 @@
+/**
+ * OFX / QFX Importer
+ *
+ * Reads OFX 1.x (SGML, leaf elements without closing tags), OFX 2.x (XML)
+ * and Quicken QFX downloads into canonical ParsedStatements. Each bank
+ * statement (STMTRS) and credit card statement (CCSTMTRS) becomes one
+ * statement; FITIDs are kept in `raw.originalText` so transaction IDs stay
+ * stable when the same download is imported twice.
+ */
+
+import type { AccountType, ParsedStatement } from '@findata/types';
+import { findInstitution, isValidRoutingNumber, KNOWN_INSTITUTIONS, toInstitutionId, DEFAULT_CURRENCY } from '@findata/types';
+import {
+  buildImportedStatement,
+  maskAccountNumber,
+  type ImportedAccount,
+  type ImportedRow,
+} from './statement-builder.js';
+
+/**
+ * Options for OFX import
+ */
+export interface OfxImportOptions {
+  /** Institution display name (default: from the FI block, FID or bank ID) */
+  institution?: string;
+}
+
+/**
+ * Element in a parsed OFX document. Leaf elements carry a value,
+ * aggregates carry children.
+ */
+export interface OfxElement {
+  name: string;
+  value?: string;
+  children: OfxElement[];
+}
+
+const TAG_PATTERN = /<(\/?)([A-Za-z0-9._]+)>([^<]*)/g;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+}
+
+/**
+ * Check whether text looks like an OFX or QFX document
+ */
+export function isOfxContent(content: string): boolean {
+  return /<OFX>/i.test(content) && (/OFXHEADER/i.test(content) || /<\?OFX|<SIGNONMSGSRSV1>/i.test(content));
+}
+
+/**
+ * Parse an OFX document into an element tree rooted at <OFX>.
+ *
+ * SGML leaf elements end at the next tag, so an opening tag followed by text
+ * is a leaf whether or not a closing tag follows. Closing tags for
+ * aggregates that were never closed (malformed SGML) close everything
+ * opened after them.
+ */
+export function parseOfxDocument(content: string): OfxElement {
+  const start = content.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error('Not an OFX document: missing <OFX> element');
+  }
+
+  const root: OfxElement = { name: 'OFX', children: [] };
+  const stack: OfxElement[] = [root];
+  const tokens = [...content.slice(start).matchAll(TAG_PATTERN)].slice(1);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === undefined) continue;
+    const isClosing = token[1] === '/';
+    const name = (token[2] ?? '').toUpperCase();
+    const text = (token[3] ?? '').trim();
+    const parent = stack[stack.length - 1];
+    if (parent === undefined) break;
+
+    if (isClosing) {
+      const index = stack.map((el) => el.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const next = tokens[i + 1];
+    const closesImmediately = next !== undefined && next[1] === '/' && (next[2] ?? '').toUpperCase() === name;
+
+    if (text !== '' || closesImmediately) {
+      parent.children.push({ name, value: decodeEntities(text), children: [] });
+      if (closesImmediately) i++;
+      continue;
+    }
+
+    const element: OfxElement = { name, children: [] };
+    parent.children.push(element);
+    stack.push(element);
+  }
+
+  return root;
+}
+
+function findChild(element: OfxElement | undefined, name: string): OfxElement | undefined {
+  return element?.children.find((child) => child.name === name);
+}
+
+function childValue(element: OfxElement | undefined, name: string): string | undefined {
+  const value = findChild(element, name)?.value;
+  return value !== undefined && value !== '' ? value : undefined;
+}
+
+function findAll(element: OfxElement, name: string): OfxElement[] {
+  const found: OfxElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) {
+      found.push(child);
+    } else {
+      found.push(...findAll(child, name));
+    }
+  }
+  return found;
+}
+
+/**
+ * Convert an OFX datetime (YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]) to YYYY-MM-DD
+ */
+function parseOfxDate(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (match === null) return undefined;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function parseOfxAmount(value: string | undefined, field: string): number {
+  if (value === undefined) {
+    throw new Error(`OFX transaction is missing ${field}`);
+  }
+  // Some institutions write decimal commas
+  const amount = Number(value.replace(',', '.'));
+  if (!Number.isFinite(amount)) {
+    throw new Error(`Invalid OFX amount in ${field}: ${value}`);
+  }
+  return amount;
+}
+
+function mapBankAccountType(acctType: string | undefined): AccountType {
+  switch (acctType?.toUpperCase()) {
+    case 'SAVINGS':
+    case 'MONEYMRKT':
+    case 'CD':
+      return 'savings';
+    case 'CREDITLINE':
+      return 'credit';
+    default:
+      return 'checking';
+  }
+}
+
+/**
+ * Description from NAME and MEMO. Many banks truncate NAME to 32 characters
+ * and repeat the full text in MEMO.
+ */
+function buildDescription(name: string | undefined, memo: string | undefined): string {
+  if (name === undefined) return memo ?? 'OFX transaction';
+  if (memo === undefined) return name;
+  if (memo.toUpperCase().startsWith(name.toUpperCase())) return memo;
+  if (name.toUpperCase().includes(memo.toUpperCase())) return name;
+  return `${name} ${memo}`;
+}
+
+function toImportedRow(stmtTrn: OfxElement): ImportedRow {
+  const dtPosted = parseOfxDate(childValue(stmtTrn, 'DTPOSTED'));
+  const dtUser = parseOfxDate(childValue(stmtTrn, 'DTUSER'));
+  const date = dtUser ?? dtPosted;
+  if (date === undefined) {
+    throw new Error('OFX transaction is missing DTPOSTED');
+  }
+
+  const name = childValue(stmtTrn, 'NAME') ?? childValue(findChild(stmtTrn, 'PAYEE'), 'NAME');
+  const memo = childValue(stmtTrn, 'MEMO');
+  const checkNum = childValue(stmtTrn, 'CHECKNUM');
+  let description = buildDescription(name, memo);
+  if (checkNum !== undefined && !description.includes(checkNum)) {
+    description = `CHECK ${checkNum} ${description}`;
+  }
+
+  const trnAmt = childValue(stmtTrn, 'TRNAMT');
+  const amount = parseOfxAmount(trnAmt, 'TRNAMT');
+
+  const originalText = [
+    `FITID:${childValue(stmtTrn, 'FITID') ?? ''}`,
+    childValue(stmtTrn, 'TRNTYPE'),
+    childValue(stmtTrn, 'DTPOSTED'),
+    trnAmt,
+    name,
+    memo,
+  ].filter((part): part is string => part !== undefined && part !== '').join(' ');
+
+  return {
+    date,
+    postedDate: dtUser !== undefined && dtPosted !== undefined && dtPosted !== dtUser ? dtPosted : null,
+    description,
+    amount,
+    originalText,
+  };
+}
+
+interface InstitutionIdentity {
+  institution: string;
+  institutionId: string;
+  fid?: string | undefined;
+}
+
+function resolveInstitution(root: OfxElement, bankId: string | undefined, options: OfxImportOptions): InstitutionIdentity {
+  const fi = findChild(findChild(findChild(root, 'SIGNONMSGSRSV1'), 'SONRS'), 'FI');
+  const org = childValue(fi, 'ORG');
+  const fid = childValue(fi, 'FID');
+
+  const known = (options.institution !== undefined ? findInstitution(options.institution) : null)
+    ?? (org !== undefined ? findInstitution(org) : null)
+    ?? (fid !== undefined ? KNOWN_INSTITUTIONS.find((info) => info.fid === fid) ?? null : null);
+
+  const institution = options.institution ?? known?.name ?? org ?? (bankId !== undefined ? `Bank ${bankId}` : 'Unknown Institution');
+  return {
+    institution,
+    institutionId: known?.id ?? toInstitutionId(institution),
+    fid,
+  };
+}
+
+function buildStatementFromOfx(
+  root: OfxElement,
+  stmtRs: OfxElement,
+  options: OfxImportOptions
+): ParsedStatement {
+  const warnings: string[] = [];
+  const isCreditCard = stmtRs.name === 'CCSTMTRS';
+  const acctFrom = findChild(stmtRs, isCreditCard ? 'CCACCTFROM' : 'BANKACCTFROM');
+  const acctId = childValue(acctFrom, 'ACCTID');
+  if (acctId === undefined) {
+    warnings.push('OFX statement has no ACCTID; account number unknown');
+  }
+  const bankId = isCreditCard ? undefined : childValue(acctFrom, 'BANKID');
+  const identity = resolveInstitution(root, bankId, options);
+
+  const tranList = findChild(stmtRs, 'BANKTRANLIST');
+  const rows: ImportedRow[] = [];
+  const stmtTrns = tranList !== undefined ? findAll(tranList, 'STMTTRN') : [];
+  for (const stmtTrn of stmtTrns) {
+    try {
+      rows.push(toImportedRow(stmtTrn));
+    } catch (error) {
+      warnings.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const account: ImportedAccount = {
+    institution: identity.institution,
+    institutionId: identity.institutionId,
+    routingNumber: bankId !== undefined && isValidRoutingNumber(bankId) ? bankId : undefined,
+    fid: identity.fid,
+    accountType: isCreditCard ? 'credit' : mapBankAccountType(childValue(acctFrom, 'ACCTTYPE')),
+    accountNumberMasked: maskAccountNumber(acctId ?? ''),
+    currency: childValue(stmtRs, 'CURDEF')?.toUpperCase() ?? DEFAULT_CURRENCY,
+    periodStart: parseOfxDate(childValue(tranList, 'DTSTART')),
+    periodEnd: parseOfxDate(childValue(tranList, 'DTEND')),
+  };
+
+  // OFX reports a card balance owed as negative; statements report it as positive
+  const balAmt = childValue(findChild(stmtRs, 'LEDGERBAL'), 'BALAMT');
+  let endingBalance: number | undefined;
+  if (balAmt !== undefined) {
+    const ledgerBalance = parseOfxAmount(balAmt, 'LEDGERBAL');
+    endingBalance = isCreditCard ? -ledgerBalance : ledgerBalance;
+  }
+
+  return buildImportedStatement(account, rows, { endingBalance }, warnings);
+}
+
+/**
+ * Import every bank and credit card statement in an OFX/QFX document.
+ */
+export function importOfx(content: string, options: OfxImportOptions = {}): ParsedStatement[] {
+  const root = parseOfxDocument(content);
+  const statementResponses = [...findAll(root, 'STMTRS'), ...findAll(root, 'CCSTMTRS')];
+
+  if (statementResponses.length === 0) {
+    throw new Error('OFX file contains no bank or credit card statements (STMTRS/CCSTMTRS)');
+  }
+
+  return statementResponses.map((stmtRs) => buildStatementFromOfx(root, stmtRs, options));
+}
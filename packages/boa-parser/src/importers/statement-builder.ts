@@ -0,0 +1,153 @@
+/**
+ * Shared helpers for turning imported rows (OFX, CSV) into canonical
+ * ParsedStatements, categorized the same way as parsed PDF transactions.
+ */
+
+import type { AccountType, ParsedStatement, ZodTransaction as Transaction } from '@findata/types';
+import { categorizeTransaction, extractMerchant } from '@findata/categorizer';
+import { addMoney, money, moneyToNumber, roundToCurrency, subtractMoney, sumAmounts, PARSER_VERSION } from '@findata/types';
+
+/**
+ * One imported transaction before categorization
+ */
+export interface ImportedRow {
+  date: string;
+  postedDate: string | null;
+  description: string;
+  /** Signed amount: credits (deposits, card payments) positive, debits negative */
+  amount: number;
+  /** Source text kept as `raw.originalText` */
+  originalText: string;
+}
+
+export interface ImportedAccount {
+  institution: string;
+  institutionId?: string | undefined;
+  routingNumber?: string | undefined;
+  fid?: string | undefined;
+  accountType: AccountType;
+  accountNumberMasked: string;
+  currency: string;
+  /** Statement period; falls back to the first and last transaction dates */
+  periodStart?: string | undefined;
+  periodEnd?: string | undefined;
+}
+
+/**
+ * Balances reported by the source file. For credit cards these follow the
+ * statement convention: a positive balance is the amount owed.
+ */
+export interface ImportedBalances {
+  startingBalance?: number | undefined;
+  endingBalance?: number | undefined;
+}
+
+/**
+ * Mask an account number to the canonical ****1234 form.
+ */
+export function maskAccountNumber(accountNumber: string): string {
+  const digits = accountNumber.replace(/\D/g, '');
+  return `****${digits.slice(-4).padStart(4, '0')}`;
+}
+
+function toTransaction(row: ImportedRow, currency: string): Transaction {
+  const absAmount = roundToCurrency(Math.abs(row.amount), currency);
+  const direction: 'debit' | 'credit' = row.amount >= 0 ? 'credit' : 'debit';
+  const categorization = categorizeTransaction(row.description);
+
+  return {
+    date: row.date,
+    postedDate: row.postedDate,
+    description: row.description,
+    merchant: extractMerchant(row.description),
+    amount: direction === 'debit' ? -absAmount : absAmount,
+    direction,
+    category: categorization.category,
+    subcategory: categorization.subcategory,
+    confidence: categorization.confidence,
+    raw: {
+      originalText: row.originalText,
+      page: 1,
+    },
+  };
+}
+
+/**
+ * Build a ParsedStatement from imported rows.
+ *
+ * A missing starting balance is derived from the ending balance and the
+ * transaction totals. When neither balance is known the statement starts at
+ * zero, so the summary only reflects the period's activity.
+ */
+export function buildImportedStatement(
+  account: ImportedAccount,
+  rows: ImportedRow[],
+  balances: ImportedBalances,
+  warnings: string[]
+): ParsedStatement {
+  const transactions = rows
+    .map((row) => toTransaction(row, account.currency))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const totalCredits = sumAmounts(
+    transactions.filter((t) => t.direction === 'credit').map((t) => t.amount),
+    account.currency
+  );
+  const totalDebits = sumAmounts(
+    transactions.filter((t) => t.direction === 'debit').map((t) => Math.abs(t.amount)),
+    account.currency
+  );
+
+  // Card statements report the amount owed, which charges increase
+  const credits = money(totalCredits, account.currency);
+  const debits = money(totalDebits, account.currency);
+  const netChange = account.accountType === 'credit'
+    ? subtractMoney(debits, credits)
+    : subtractMoney(credits, debits);
+
+  let { startingBalance, endingBalance } = balances;
+  if (startingBalance === undefined && endingBalance === undefined) {
+    warnings.push('No balances in import file; summary reflects period activity only');
+    startingBalance = 0;
+  }
+  if (startingBalance === undefined) {
+    startingBalance = moneyToNumber(subtractMoney(money(endingBalance ?? 0, account.currency), netChange));
+  }
+  if (endingBalance === undefined) {
+    endingBalance = moneyToNumber(addMoney(money(startingBalance, account.currency), netChange));
+  }
+
+  const periodStart = account.periodStart ?? transactions[0]?.date;
+  const periodEnd = account.periodEnd ?? transactions[transactions.length - 1]?.date;
+  if (periodStart === undefined || periodEnd === undefined) {
+    throw new Error('Import file has no statement period and no transactions');
+  }
+
+  return {
+    account: {
+      institution: account.institution,
+      ...(account.institutionId !== undefined ? { institutionId: account.institutionId } : {}),
+      ...(account.routingNumber !== undefined ? { routingNumber: account.routingNumber } : {}),
+      ...(account.fid !== undefined ? { fid: account.fid } : {}),
+      accountType: account.accountType,
+      accountNumberMasked: account.accountNumberMasked,
+      statementPeriod: {
+        start: periodStart,
+        end: periodEnd,
+      },
+      currency: account.currency,
+    },
+    summary: {
+      startingBalance,
+      endingBalance,
+      totalCredits,
+      totalDebits,
+    },
+    transactions,
+    metadata: {
+      parserVersion: PARSER_VERSION,
+      parsedAt: new Date().toISOString(),
+      warnings,
+    },
+  };
+}
@@ -10,10 +10,75 @@ export {
   parseCreditStatement,
   isTransactionDetailsPDF,
   parseTransactionDetails,
+  parseBoaTransactionDetailsStatement,
+  detectBoa,
+  boaParser,
 } from './boa/index.js';
 
 export type { ParseResult, MultiStatementParseResult, RawTransaction, AccountInfo, BalanceInfo, ParseContext } from './boa/index.js';
 
+// Chime parser
+export {
+  detectChime,
+  parseChimeStatement,
+  parseChimeMultipleStatements,
+  parseChimeStatementSections,
+  extractChimeChannel,
+  chimeParser,
+} from './chime/index.js';
+
+export type {
+  ChimeRawTransaction,
+  ChimeTransactionType,
+  ChimeAccountInfo,
+  ChimeBalanceInfo,
+  ChimeStatementSection,
+} from './chime/index.js';
+
+// Capital One parser
+export {
+  detectCapitalOne,
+  detectCapitalOneStatementKind,
+  parseCapitalOneStatements,
+  parseCapitalOneLayout,
+  parseCapitalOneCreditStatement,
+  parse360Statements,
+  capitalOneParser,
+} from './capitalone/index.js';
+
+export type {
+  CapitalOneStatementKind,
+  CapitalOneRawTransaction,
+  CapitalOneAccountInfo,
+  CapitalOneBalanceInfo,
+  CapitalOneParsedAccount,
+  CapitalOneSection,
+  StatementLine as CapitalOneStatementLine,
+} from './capitalone/index.js';
+
+// Institution parser registry
+export {
+  ParserRegistry,
+  createParserRegistry,
+  getDefaultParserRegistry,
+  resetDefaultParserRegistry,
+  isInstitutionParser,
+  loadParserPlugins,
+  loadParserConfig,
+  restoreParserRegistry,
+  DEFAULT_MIN_CONFIDENCE,
+  OCR_MAX_CONFIDENCE,
+  applyOcrConfidence,
+} from './registry.js';
+
+export type {
+  InstitutionParser,
+  ParserMatch,
+  ParserRegistryParseResult,
+  ParserPluginConfig,
+  ParserRegistrySnapshot,
+} from './registry.js';
+
 // Normalizers
 export {
   sortTransactionsByDate,
@@ -25,6 +90,7 @@ export {
 
 // Channel extractor
 export { extractChannelAndReference, extractChannel, extractBankReference } from './boa/channel-extractor.js';
+export { extractInstitutionChannel } from './channels.js';
 
 // Merchant extractor
 export { extractMerchant as extractMerchantV2 } from './boa/merchant-extractor.js';
@@ -38,6 +104,29 @@ export { mergeWrappedLines, parseTransactionLines } from './boa/line-merger.js';
 // Layout parser
 export { parseWithLayout, type LayoutParserConfig } from './boa/layout-parser.js';
 
+// Statement file importers (OFX/QFX, Bank of America CSV)
+export {
+  importStatementFile,
+  importStatementBuffer,
+  importStatements,
+  detectImportFormat,
+  isImportFile,
+  IMPORT_FILE_EXTENSIONS,
+  importOfx,
+  isOfxContent,
+  parseOfxDocument,
+  importBoaCsv,
+  detectBoaCsv,
+  maskAccountNumber,
+  type ImportFormat,
+  type StatementImportOptions,
+  type StatementImportResult,
+  type OfxImportOptions,
+  type OfxElement,
+  type BoaCsvImportOptions,
+  type BoaCsvKind,
+} from './importers/index.js';
+
 // Batch processor
 export {
   processBatch,
@@ -46,14 +135,61 @@ export {
   type BatchProcessOptions,
 } from './batch-processor.js';
 
+// Worker thread pool
+export {
+  runWorkerPool,
+  serveWorkerTasks,
+  requestFromPool,
+  workerModuleUrl,
+  type WorkerPoolOptions,
+} from './worker-pool.js';
+
+// Parse cache
+export {
+  ParseCache,
+  computeParseCacheKey,
+  DEFAULT_PARSE_CACHE_DIR,
+  type ParseCacheEntry,
+} from './parse-cache.js';
+
+// Watch-folder mode
+export {
+  FolderWatcher,
+  type FolderWatcherOptions,
+  type WatchUpdate,
+  type WatchFileStatus,
+  type WatchFileState,
+} from './folder-watcher.js';
+
+export {
+  parsePdfPasswordConfig,
+  loadPdfPasswordConfig,
+  type PdfPasswordConfig,
+} from './pdf-passwords.js';
+
 // Directory scanner
 export {
   scanDirectoryForPdfs,
+  scanDirectoryForStatementFiles,
+  readStatementFile,
   validateDirectory,
   type PdfFileInfo,
   type ScanResult,
+  type ScanOptions,
 } from './directory-scanner.js';
 
+// ZIP archives
+export {
+  listZipEntries,
+  listZipFileEntries,
+  openZipArchive,
+  readZipEntry,
+  readZipFile,
+  MAX_ZIP_ENTRY_SIZE,
+  type ZipArchive,
+  type ZipEntry,
+} from './zip-archive.js';
+
 // Statement merger
 export {
   mergeStatementsWithSources,
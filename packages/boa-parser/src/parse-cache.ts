@@ -0,0 +1,98 @@
+/**
+ * Local parse cache for incremental re-runs.
+ *
+ * Entries are keyed by the SHA-256 of the file contents and hold the extracted
+ * PDF layout plus the parsed statements, one JSON file per entry. Entries
+ * written by another PARSER_VERSION are treated as missing and overwritten,
+ * so upgrading the parser re-parses everything once; PDF entries also record
+ * each registered parser's version, so upgrading a plugin re-parses the files
+ * it could have claimed. Password-protected PDFs
+ * are never cached, since entries are stored unencrypted.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { ExtractedPDF } from '@findata/pdf-extract';
+import { PARSER_VERSION, computeFileSha256, type ParsedStatement } from '@findata/types';
+
+export interface ParseCacheEntry {
+  /** SHA-256 of the file contents */
+  fileHash: string;
+  parserVersion: string;
+  /** Institution parser or importer ('ofx', 'qfx', 'boa-csv') that produced the statements */
+  parserId: string;
+  /** Parsers registered when the PDF was parsed, as `id@version` in registration order (PDFs only) */
+  registeredParsers?: string[];
+  /** Extracted PDF layout (PDFs only) */
+  layout?: ExtractedPDF;
+  /** Whether the statements were parsed in strict mode */
+  strict: boolean;
+  statements: ParsedStatement[];
+  cachedAt: string;
+}
+
+export const DEFAULT_PARSE_CACHE_DIR = join(homedir(), '.boa-parser', 'parse-cache');
+
+/**
+ * Hash a file for parse cache lookups.
+ */
+export async function computeParseCacheKey(filePath: string): Promise<string> {
+  return computeFileSha256(await readFile(filePath));
+}
+
+/**
+ * Directory-backed cache of parse results. Each entry is written atomically,
+ * so several processes or worker threads can share one cache directory.
+ */
+export class ParseCache {
+  private readonly dir: string;
+
+  constructor(dir: string = DEFAULT_PARSE_CACHE_DIR) {
+    this.dir = dir;
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Cached entry for a file hash, or null when missing, unreadable or written
+   * by another parser version.
+   */
+  get(fileHash: string): ParseCacheEntry | null {
+    const path = this.entryPath(fileHash);
+    try {
+      if (!existsSync(path)) return null;
+      const entry = JSON.parse(readFileSync(path, 'utf-8')) as ParseCacheEntry;
+      if (entry.fileHash !== fileHash || entry.parserVersion !== PARSER_VERSION) return null;
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  set(entry: Omit<ParseCacheEntry, 'parserVersion' | 'cachedAt'>): void {
+    const full: ParseCacheEntry = { ...entry, parserVersion: PARSER_VERSION, cachedAt: new Date().toISOString() };
+    const path = this.entryPath(entry.fileHash);
+    const tmpPath = `${path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(tmpPath, JSON.stringify(full), 'utf-8');
+      renameSync(tmpPath, path);
+    } catch {
+      // A cache that cannot be written only costs a re-parse next time
+      rmSync(tmpPath, { force: true });
+    }
+  }
+
+  /** Remove every cached entry */
+  clear(): void {
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  private entryPath(fileHash: string): string {
+    return join(this.dir, `${fileHash}.json`);
+  }
+}
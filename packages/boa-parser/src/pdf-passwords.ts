@@ -0,0 +1,71 @@
+/**
+ * Password file for encrypted statement PDFs.
+ *
+ * ```json
+ * {
+ *   "files": { "eStmt_2025-01-31.pdf": "1234" },
+ *   "passwords": ["1234", "5678"]
+ * }
+ * ```
+ *
+ * `files` maps a file name (or full path) to its password; `passwords` are
+ * tried, in order, on every other encrypted PDF.
+ */
+
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+
+export interface PdfPasswordConfig {
+  /** Passwords keyed by file name or full path */
+  files: Record<string, string>;
+  /** Passwords tried on every encrypted PDF */
+  passwords: string[];
+}
+
+/**
+ * Validate a parsed password file.
+ */
+export function parsePdfPasswordConfig(input: unknown): PdfPasswordConfig {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Password file must be an object with "files" and/or "passwords"');
+  }
+  const raw = input as Record<string, unknown>;
+
+  const files: Record<string, string> = {};
+  if (raw['files'] !== undefined) {
+    if (typeof raw['files'] !== 'object' || raw['files'] === null || Array.isArray(raw['files'])) {
+      throw new Error('Password file "files" must map file names to passwords');
+    }
+    for (const [fileName, password] of Object.entries(raw['files'])) {
+      if (typeof password !== 'string') {
+        throw new Error(`Password for ${fileName} must be a string`);
+      }
+      files[fileName] = password;
+    }
+  }
+
+  const passwords = raw['passwords'] ?? [];
+  if (!Array.isArray(passwords) || !passwords.every((p): p is string => typeof p === 'string')) {
+    throw new Error('Password file "passwords" must be an array of strings');
+  }
+
+  return { files, passwords };
+}
+
+/**
+ * Read and validate a JSON password file.
+ */
+export async function loadPdfPasswordConfig(filePath: string): Promise<PdfPasswordConfig> {
+  const absolutePath = resolve(filePath);
+  const content = await readFile(absolutePath, 'utf-8');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid password file ${absolutePath}: ${message}`);
+  }
+
+  return parsePdfPasswordConfig(parsed);
+}
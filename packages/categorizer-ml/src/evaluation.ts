@@ -0,0 +1,439 @@
+/**
+ * ML categorizer evaluation
+ *
+ * Scores three strategies on labelled transactions so a retrained model can
+ * be compared with the previous one:
+ * - `hybrid`: HybridCategorizer (rules, with the ML classifier for
+ *   uncategorized and medium-confidence transactions)
+ * - `rules`: the built-in and user rules alone
+ * - `ml`: the ML classifier alone
+ *
+ * Examples are split with stratified k-fold or a single holdout, and a fresh
+ * classifier is trained for every fold; with a model path the saved model is
+ * scored on every example instead.
+ */
+
+import type { Category } from '@findata/types';
+import {
+  categorizeWithRules,
+  mergeCategoryRules,
+  type CategorizationContext,
+  type CategorizationResultV2 as CategorizationResult,
+  type CategoryRuleV2 as CategoryRule,
+} from '@findata/categorizer';
+import { CATEGORIES_LIST, type MLCategorizationResult, type TrainingExample } from './ml-categorizer.js';
+import { createClassifier, type MLEngine } from './classifier.js';
+import { HybridCategorizer } from './hybrid-categorizer.js';
+import { seededRandom } from './local-categorizer.js';
+
+export type LabelSource = 'override' | 'parsed' | 'synthetic';
+
+/**
+ * A transaction with a known category
+ */
+export interface LabelledExample extends TrainingExample {
+  source: LabelSource;
+  /** Amount, direction and account, for rules that filter on them */
+  context?: CategorizationContext;
+}
+
+export const EVALUATED_STRATEGIES = ['hybrid', 'rules', 'ml'] as const;
+export type EvaluatedStrategy = typeof EVALUATED_STRATEGIES[number];
+
+export interface EvaluationOptions {
+  /** ML classifier to train and score (default: use) */
+  engine?: MLEngine;
+  /** Number of folds for k-fold cross-validation (default: 5) */
+  folds?: number;
+  /** Fraction of examples held out for testing; replaces k-fold when set */
+  holdout?: number;
+  /** Score this saved model on every example instead of training one per fold */
+  modelPath?: string;
+  /** Training epochs per fold (default: the classifier's own) */
+  epochs?: number;
+  /** Seed for the fold split (default: 42) */
+  seed?: number;
+  /** User rules, merged with the built-in rules */
+  rules?: CategoryRule[];
+  /** Number of equal-width confidence bins (default: 10) */
+  calibrationBins?: number;
+  onProgress?: (message: string) => void;
+}
+
+export interface CategoryMetrics {
+  category: Category;
+  /** Examples labelled with this category */
+  support: number;
+  /** Examples predicted as this category */
+  predicted: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface ConfusionMatrix {
+  labels: Category[];
+  /** counts[actual][predicted], indexed like `labels` */
+  counts: number[][];
+}
+
+export interface StrategyMetrics {
+  accuracy: number;
+  /** Share of examples with both category and subcategory right */
+  subcategoryAccuracy: number;
+  /** Mean F1 over the labelled categories */
+  macroF1: number;
+  /** Share of examples not left Uncategorized */
+  coverage: number;
+  categories: CategoryMetrics[];
+  confusion: ConfusionMatrix;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface CalibrationReport {
+  /** ML predictions that named a category */
+  predictions: number;
+  /** ML predictions below the classifier's threshold (returned Uncategorized) */
+  abstained: number;
+  /** Count-weighted mean of |accuracy - meanConfidence| over the bins */
+  expectedCalibrationError: number;
+  bins: CalibrationBin[];
+}
+
+export interface FoldResult {
+  fold: number;
+  train: number;
+  test: number;
+  accuracy: Record<EvaluatedStrategy, number>;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  engine: MLEngine;
+  method: 'kfold' | 'holdout' | 'pretrained';
+  seed: number;
+  epochs?: number;
+  modelPath?: string;
+  examples: {
+    total: number;
+    bySource: Partial<Record<LabelSource, number>>;
+  };
+  folds: FoldResult[];
+  strategies: Record<EvaluatedStrategy, StrategyMetrics>;
+  /** Calibration of `mlConfidence` for the ML-only predictions */
+  calibration: CalibrationReport;
+}
+
+type Label = Pick<CategorizationResult, 'category' | 'subcategory'>;
+
+const DEFAULT_FOLDS = 5;
+const DEFAULT_SEED = 42;
+const DEFAULT_CALIBRATION_BINS = 10;
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Test indices per fold. Examples are grouped by category and dealt
+ * round-robin, so every fold gets a similar category mix.
+ */
+function splitExamples(examples: LabelledExample[], folds: number, holdout: number | undefined, seed: number): number[][] {
+  const random = seededRandom(seed);
+  const byCategory = new Map<Category, number[]>();
+  examples.forEach((example, index) => {
+    byCategory.set(example.category, [...(byCategory.get(example.category) ?? []), index]);
+  });
+
+  const splits: number[][] = holdout !== undefined ? [[]] : Array.from({ length: folds }, () => []);
+  let next = 0;
+  for (const indices of byCategory.values()) {
+    // Fisher-Yates shuffle
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j]!, indices[i]!];
+    }
+    if (holdout !== undefined) {
+      splits[0]!.push(...indices.slice(0, Math.round(indices.length * holdout)));
+    } else {
+      for (const index of indices) {
+        splits[next++ % folds]!.push(index);
+      }
+    }
+  }
+
+  if (splits.some((test) => test.length === 0 || test.length === examples.length)) {
+    throw new Error(`Not enough labelled examples (${examples.length}) to split for evaluation`);
+  }
+  return splits;
+}
+
+/**
+ * Accuracy, per-category precision/recall/F1 and the confusion matrix of
+ * predictions against labels.
+ */
+export function scoreCategorization(actual: Label[], predicted: Label[]): StrategyMetrics {
+  if (actual.length !== predicted.length) {
+    throw new Error(`Expected one prediction per label, got ${predicted.length} for ${actual.length}`);
+  }
+
+  const seen = new Set<Category>([...actual, ...predicted].map((l) => l.category));
+  const labels = CATEGORIES_LIST.filter((c) => seen.has(c));
+  const labelIndex = new Map(labels.map((c, i) => [c, i]));
+  const counts = labels.map(() => labels.map(() => 0));
+
+  let correct = 0;
+  let subcategoryCorrect = 0;
+  let covered = 0;
+  actual.forEach((label, i) => {
+    const prediction = predicted[i]!;
+    counts[labelIndex.get(label.category)!]![labelIndex.get(prediction.category)!]!++;
+    if (prediction.category === label.category) {
+      correct++;
+      if (prediction.subcategory === label.subcategory) subcategoryCorrect++;
+    }
+    if (prediction.category !== 'Uncategorized') covered++;
+  });
+
+  const categories: CategoryMetrics[] = [];
+  labels.forEach((category, i) => {
+    const support = counts[i]!.reduce((sum, n) => sum + n, 0);
+    if (support === 0) return;
+    const truePositives = counts[i]![i]!;
+    const predictedCount = counts.reduce((sum, row) => sum + row[i]!, 0);
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, support);
+    categories.push({
+      category,
+      support,
+      predicted: predictedCount,
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall),
+    });
+  });
+
+  return {
+    accuracy: ratio(correct, actual.length),
+    subcategoryAccuracy: ratio(subcategoryCorrect, actual.length),
+    macroF1: ratio(categories.reduce((sum, c) => sum + c.f1, 0), categories.length),
+    coverage: ratio(covered, actual.length),
+    categories,
+    confusion: { labels, counts },
+  };
+}
+
+/**
+ * Bin ML predictions by `mlConfidence` and compare each bin's mean
+ * confidence with how often its predictions were right. Predictions the
+ * classifier left Uncategorized are counted as abstained.
+ */
+export function computeCalibration(
+  actual: Label[],
+  predicted: MLCategorizationResult[],
+  binCount: number = DEFAULT_CALIBRATION_BINS
+): CalibrationReport {
+  const bins = Array.from({ length: binCount }, (_, i) => ({ lower: i / binCount, upper: (i + 1) / binCount, count: 0, confidence: 0, correct: 0 }));
+
+  let abstained = 0;
+  predicted.forEach((prediction, i) => {
+    if (prediction.category === 'Uncategorized') {
+      abstained++;
+      return;
+    }
+    const confidence = Math.min(Math.max(prediction.mlConfidence, 0), 1);
+    const bin = bins[Math.min(Math.floor(confidence * binCount), binCount - 1)]!;
+    bin.count++;
+    bin.confidence += confidence;
+    if (prediction.category === actual[i]?.category) bin.correct++;
+  });
+
+  const predictions = predicted.length - abstained;
+  const calibrationBins = bins.map((bin) => ({
+    lower: bin.lower,
+    upper: bin.upper,
+    count: bin.count,
+    meanConfidence: ratio(bin.confidence, bin.count),
+    accuracy: ratio(bin.correct, bin.count),
+  }));
+
+  return {
+    predictions,
+    abstained,
+    expectedCalibrationError: calibrationBins.reduce(
+      (sum, bin) => sum + ratio(bin.count, predictions) * Math.abs(bin.accuracy - bin.meanConfidence),
+      0
+    ),
+    bins: calibrationBins,
+  };
+}
+
+/**
+ * Evaluate hybrid, rules-only and ML-only categorization on labelled
+ * examples. Predictions from all folds are pooled before scoring.
+ */
+export async function evaluateCategorizer(
+  examples: LabelledExample[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const engine = options.engine ?? 'use';
+  const folds = options.folds ?? DEFAULT_FOLDS;
+  const seed = options.seed ?? DEFAULT_SEED;
+  const progress = options.onProgress ?? ((): void => {});
+
+  if (examples.length === 0) {
+    throw new Error('No labelled examples to evaluate');
+  }
+  if (!Number.isInteger(folds) || folds < 2) {
+    throw new Error(`Invalid folds: ${folds}. Use a whole number of 2 or more.`);
+  }
+  if (options.holdout !== undefined && !(options.holdout > 0 && options.holdout < 1)) {
+    throw new Error(`Invalid holdout: ${options.holdout}. Use a fraction between 0 and 1.`);
+  }
+
+  const method = options.modelPath !== undefined ? 'pretrained' : options.holdout !== undefined ? 'holdout' : 'kfold';
+  const splits = method === 'pretrained'
+    ? [examples.map((_, i) => i)]
+    : splitExamples(examples, folds, options.holdout, seed);
+  const ruleList = mergeCategoryRules(options.rules ?? []);
+
+  const actual: Label[] = [];
+  const predictions: Record<EvaluatedStrategy, Label[]> = { hybrid: [], rules: [], ml: [] };
+  const mlPredictions: MLCategorizationResult[] = [];
+  const foldResults: FoldResult[] = [];
+
+  for (const [fold, testIndices] of splits.entries()) {
+    const testSet = new Set(testIndices);
+    const test = testIndices.map((i) => examples[i]!);
+    const train = examples.filter((_, i) => !testSet.has(i));
+
+    // A fresh classifier per fold, so no fold sees another fold's test examples
+    const classifier = createClassifier(engine);
+    const hybrid = new HybridCategorizer({ rules: options.rules ?? [], classifier });
+    try {
+      await hybrid.initialize();
+      if (options.modelPath !== undefined) {
+        progress(`Scoring ${options.modelPath} on ${test.length} example(s)`);
+        await hybrid.loadMLModel(options.modelPath);
+      } else {
+        const label = method === 'holdout' ? 'Holdout' : `Fold ${fold + 1}/${splits.length}`;
+        progress(`${label}: training on ${train.length}, testing on ${test.length}`);
+        await hybrid.trainML(train, options.epochs !== undefined ? { epochs: options.epochs } : {});
+      }
+
+      const descriptions = test.map((e) => e.description);
+      const channelTypes = test.map((e) => e.channelType);
+      const ml = await classifier.predictBatch(descriptions, channelTypes);
+      const results: Record<EvaluatedStrategy, Label[]> = {
+        hybrid: await hybrid.categorizeBatchAsync(descriptions, channelTypes, test.map((e) => e.context)),
+        rules: test.map((e) => categorizeWithRules(ruleList, e.description, e.channelType, e.context)),
+        ml,
+      };
+
+      const labels: Label[] = test.map((e) => ({ category: e.category, subcategory: e.subcategory }));
+      const foldAccuracy = (strategy: EvaluatedStrategy): number =>
+        ratio(results[strategy].filter((p, i) => p.category === labels[i]!.category).length, labels.length);
+
+      actual.push(...labels);
+      mlPredictions.push(...ml);
+      for (const strategy of EVALUATED_STRATEGIES) {
+        predictions[strategy].push(...results[strategy]);
+      }
+      const accuracy = { hybrid: foldAccuracy('hybrid'), rules: foldAccuracy('rules'), ml: foldAccuracy('ml') };
+      foldResults.push({ fold: fold + 1, train: train.length, test: test.length, accuracy });
+    } finally {
+      hybrid.dispose();
+    }
+  }
+
+  const bySource: Partial<Record<LabelSource, number>> = {};
+  for (const example of examples) {
+    bySource[example.source] = (bySource[example.source] ?? 0) + 1;
+  }
+
+  const report: EvaluationReport = {
+    generatedAt: new Date().toISOString(),
+    engine,
+    method,
+    seed,
+    examples: { total: examples.length, bySource },
+    folds: foldResults,
+    strategies: {
+      hybrid: scoreCategorization(actual, predictions.hybrid),
+      rules: scoreCategorization(actual, predictions.rules),
+      ml: scoreCategorization(actual, predictions.ml),
+    },
+    calibration: computeCalibration(actual, mlPredictions, options.calibrationBins),
+  };
+  if (options.epochs !== undefined && method !== 'pretrained') {
+    report.epochs = options.epochs;
+  }
+  if (options.modelPath !== undefined) {
+    report.modelPath = options.modelPath;
+  }
+  return report;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format a human-readable evaluation report: the strategy comparison,
+ * per-category metrics and confusion matrix of one strategy (default: ml),
+ * and the ML calibration table.
+ */
+export function formatEvaluationReport(report: EvaluationReport, strategy: EvaluatedStrategy = 'ml'): string {
+  const lines: string[] = [];
+  const sources = Object.entries(report.examples.bySource).map(([source, count]) => `${count} ${source}`).join(', ');
+  const method = report.method === 'kfold' ? `${report.folds.length}-fold cross-validation` : report.method;
+
+  lines.push('');
+  lines.push('=== ML Categorizer Evaluation ===');
+  lines.push('');
+  lines.push(`Engine:    ${report.engine}`);
+  lines.push(`Method:    ${method}${report.modelPath !== undefined ? ` (${report.modelPath})` : ''}`);
+  lines.push(`Examples:  ${report.examples.total} (${sources})`);
+  lines.push('');
+  lines.push('Strategy   Accuracy  +Subcat   Macro F1  Coverage');
+  for (const name of EVALUATED_STRATEGIES) {
+    const m = report.strategies[name];
+    lines.push(`  ${name.padEnd(8)} ${[m.accuracy, m.subcategoryAccuracy, m.macroF1, m.coverage].map((v) => percent(v).padStart(8)).join('  ')}`);
+  }
+
+  const metrics = report.strategies[strategy];
+  lines.push('');
+  lines.push(`Per category (${strategy}):`);
+  lines.push(`  ${'Category'.padEnd(16)} ${'Support'.padStart(7)}  Precision  Recall     F1`);
+  for (const c of metrics.categories) {
+    lines.push(`  ${c.category.padEnd(16)} ${String(c.support).padStart(7)}  ${percent(c.precision).padStart(9)}  ${percent(c.recall).padStart(6)}  ${percent(c.f1).padStart(6)}`);
+  }
+
+  // Columns are numbered to keep the matrix narrow
+  const { labels, counts } = metrics.confusion;
+  const width = Math.max(4, ...counts.flat().map((n) => String(n).length + 1));
+  lines.push('');
+  lines.push(`Confusion matrix (${strategy}; rows actual, columns predicted):`);
+  lines.push(`  ${''.padEnd(20)}${labels.map((_, i) => String(i + 1).padStart(width)).join('')}`);
+  labels.forEach((label, i) => {
+    lines.push(`  ${`${i + 1}. ${label}`.padEnd(20)}${counts[i]!.map((n) => (n === 0 ? '.' : String(n)).padStart(width)).join('')}`);
+  });
+
+  const calibration = report.calibration;
+  lines.push('');
+  lines.push(`ML calibration (${calibration.predictions} prediction(s), ${calibration.abstained} below threshold; ECE ${percent(calibration.expectedCalibrationError)}):`);
+  lines.push('  Confidence    Count  Mean conf  Accuracy');
+  for (const bin of calibration.bins) {
+    if (bin.count === 0) continue;
+    lines.push(`  ${`${percent(bin.lower)}-${percent(bin.upper)}`.padEnd(12)} ${String(bin.count).padStart(6)}  ${percent(bin.meanConfidence).padStart(9)}  ${percent(bin.accuracy).padStart(8)}`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
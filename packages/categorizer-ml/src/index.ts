@@ -10,6 +10,16 @@ export type {
   MLCategorizerConfig,
 } from './ml-categorizer.js';
 
+// Offline ML categorization and the classifier interface
+export {
+  LocalMLCategorizer,
+  LOCAL_MODEL_FILE,
+  LOCAL_WEIGHTS_FILE,
+} from './local-categorizer.js';
+export type { LocalMLCategorizerConfig } from './local-categorizer.js';
+export { createClassifier, isMLEngine, ML_ENGINES } from './classifier.js';
+export type { TransactionClassifier, ClassifierTrainOptions, MLEngine } from './classifier.js';
+
 // Hybrid categorization (rule + ML)
 export { 
   HybridCategorizer,
@@ -26,3 +36,25 @@ export {
   generateFromParsedTransactions,
   MERCHANT_TEMPLATES,
 } from './training-data-generator.js';
+
+// Model evaluation
+export {
+  evaluateCategorizer,
+  scoreCategorization,
+  computeCalibration,
+  formatEvaluationReport,
+  EVALUATED_STRATEGIES,
+} from './evaluation.js';
+export type {
+  LabelledExample,
+  LabelSource,
+  EvaluatedStrategy,
+  EvaluationOptions,
+  EvaluationReport,
+  StrategyMetrics,
+  CategoryMetrics,
+  ConfusionMatrix,
+  CalibrationReport,
+  CalibrationBin,
+  FoldResult,
+} from './evaluation.js';
@@ -14,8 +14,9 @@
 
 import * as tf from '@tensorflow/tfjs';
 import { writeFile, readFile, mkdir } from 'fs/promises';
-import type { Category, Subcategory, ChannelType } from '@findata/types';
+import { CATEGORIES, type Category, type Subcategory, type ChannelType } from '@findata/types';
 import type { CategorizationResultV2 as CategorizationResult } from '@findata/categorizer';
+import type { TransactionClassifier } from './classifier.js';
 
 interface UniversalSentenceEncoder {
   embed(sentences: string[]): Promise<tf.Tensor2D>;
@@ -48,13 +49,6 @@ const DEFAULT_CONFIG: MLCategorizerConfig = {
   minConfidenceThreshold: 0.6,
 };
 
-const CATEGORIES: Category[] = [
-  'Income', 'Housing', 'Utilities', 'Transportation', 'Food & Dining',
-  'Shopping', 'Entertainment', 'Health', 'Financial', 'Transfer',
-  'Fees', 'Travel', 'Education', 'Personal Care', 'Insurance',
-  'Taxes', 'Charity', 'Pets', 'Childcare', 'Uncategorized',
-];
-
 const SUBCATEGORIES: Subcategory[] = [
   'Salary', 'Interest', 'Dividends', 'Refund', 'Transfer',
   'Rent', 'Mortgage', 'HOA', 'Property Tax',
@@ -82,7 +76,22 @@ const CHANNEL_TYPES: ChannelType[] = [
   'FINANCIAL_CENTER_DEPOSIT', 'ONLINE_BANKING_TRANSFER', 'ZELLE', 'CHECK', 'FEE', 'OTHER',
 ];
 
-export class MLCategorizer {
+/**
+ * Normalize a description for the ML models: lowercase, without dates,
+ * masked numbers, trace numbers and long reference codes.
+ */
+export function preprocessDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\d{2}\/\d{2}\/?\d{0,4}/g, '') // Remove dates
+    .replace(/\*+\d+/g, '') // Remove masked numbers
+    .replace(/\b\d{10,}\b/g, '') // Remove long numbers (trace numbers)
+    .replace(/\b[A-Z0-9]{20,}\b/gi, '') // Remove long alphanumeric codes
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export class MLCategorizer implements TransactionClassifier {
   private model: tf.LayersModel | null = null;
   private encoder: UniversalSentenceEncoder | null = null;
   private config: MLCategorizerConfig;
@@ -111,22 +120,11 @@ export class MLCategorizer {
     }
   }
 
-  private preprocessDescription(description: string): string {
-    return description
-      .toLowerCase()
-      .replace(/\d{2}\/\d{2}\/?\d{0,4}/g, '') // Remove dates
-      .replace(/\*+\d+/g, '') // Remove masked numbers
-      .replace(/\b\d{10,}\b/g, '') // Remove long numbers (trace numbers)
-      .replace(/\b[A-Z0-9]{20,}\b/gi, '') // Remove long alphanumeric codes
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
   async getEmbedding(text: string): Promise<tf.Tensor2D> {
     if (this.encoder === null) {
       throw new Error('Encoder not initialized. Call initialize() first.');
     }
-    const processed = this.preprocessDescription(text);
+    const processed = preprocessDescription(text);
     return await this.encoder.embed([processed]);
   }
 
@@ -134,7 +132,7 @@ export class MLCategorizer {
     if (this.encoder === null) {
       throw new Error('Encoder not initialized. Call initialize() first.');
     }
-    const processed = texts.map(t => this.preprocessDescription(t));
+    const processed = texts.map(t => preprocessDescription(t));
     return await this.encoder.embed(processed);
   }
 
@@ -194,9 +192,14 @@ export class MLCategorizer {
 
   async train(
     examples: TrainingExample[],
-    options: { epochs?: number; batchSize?: number; validationSplit?: number } = {}
+    options: {
+      epochs?: number;
+      batchSize?: number;
+      validationSplit?: number;
+      onEpoch?: (epoch: number, loss: number, accuracy: number) => void;
+    } = {}
   ): Promise<tf.History> {
-    const { epochs = 50, batchSize = 32, validationSplit = 0.2 } = options;
+    const { epochs = 50, batchSize = 32, validationSplit = 0.2, onEpoch } = options;
 
     if (!this.isInitialized) {
       await this.initialize();
@@ -241,9 +244,11 @@ export class MLCategorizer {
         shuffle: true,
         callbacks: {
           onEpochEnd: (epoch, logs) => {
-            if (epoch % 10 === 0) {
-              const loss = typeof logs?.['loss'] === 'number' ? logs['loss'] : undefined;
-              const accuracy = typeof logs?.['category_output_accuracy'] === 'number' ? logs['category_output_accuracy'] : undefined;
+            const loss = typeof logs?.['loss'] === 'number' ? logs['loss'] : undefined;
+            const accuracy = typeof logs?.['category_output_accuracy'] === 'number' ? logs['category_output_accuracy'] : undefined;
+            if (onEpoch !== undefined) {
+              onEpoch(epoch, loss ?? NaN, accuracy ?? NaN);
+            } else if (epoch % 10 === 0) {
               // eslint-disable-next-line no-console
               console.log(`Epoch ${epoch}: loss = ${loss?.toFixed(4) ?? 'N/A'}, accuracy = ${accuracy?.toFixed(4) ?? 'N/A'}`);
             }
@@ -9,7 +9,7 @@
  * IMPORTANT: Categorization NEVER uses cardTransactionTraceNumber or other bank reference numbers.
  */
 
-import type { Category, Subcategory, ChannelType } from '@findata/types';
+import type { Category, Subcategory, ChannelType, AccountType, Direction } from '@findata/types';
 
 export interface CategoryRule {
   id: string;
@@ -20,6 +20,27 @@ export interface CategoryRule {
   confidence: number;
   excludePatterns?: RegExp[];
   channelTypes?: ChannelType[];
+  /** Absolute transaction amount, inclusive on both ends */
+  amountRange?: { min?: number; max?: number };
+  direction?: Direction;
+  accountTypes?: AccountType[];
+  /** Last four digits of the account number */
+  accountNumbers?: string[];
+  /** Institution names, compared case-insensitively */
+  institutions?: string[];
+}
+
+/**
+ * Transaction and account details used by rule filters. A rule that filters
+ * on a field never matches when that field is not known.
+ */
+export interface CategorizationContext {
+  amount?: number;
+  direction?: Direction;
+  accountType?: AccountType;
+  /** Masked account number, e.g. ****1234 */
+  accountNumberMasked?: string;
+  institution?: string;
 }
 
 export interface CategorizationResult {
@@ -155,18 +176,69 @@ export const DEFAULT_CATEGORY: Category = 'Uncategorized';
 export const DEFAULT_SUBCATEGORY: Subcategory = null;
 export const DEFAULT_CONFIDENCE = CONFIDENCE.LOW;
 
-export function categorizeTransaction(
+/**
+ * Merge user rules into a rule list. A user rule replaces the rule with the
+ * same id; on equal priority user rules are tried first.
+ */
+export function mergeCategoryRules(
+  userRules: CategoryRule[],
+  baseRules: CategoryRule[] = CATEGORY_RULES_V2
+): CategoryRule[] {
+  const userIds = new Set(userRules.map((r) => r.id));
+  return [...userRules, ...baseRules.filter((r) => !userIds.has(r.id))]
+    .sort((a, b) => a.priority - b.priority);
+}
+
+function matchesContext(rule: CategoryRule, context: CategorizationContext): boolean {
+  if (rule.amountRange !== undefined) {
+    if (context.amount === undefined) return false;
+    const amount = Math.abs(context.amount);
+    if (rule.amountRange.min !== undefined && amount < rule.amountRange.min) return false;
+    if (rule.amountRange.max !== undefined && amount > rule.amountRange.max) return false;
+  }
+
+  if (rule.direction !== undefined && context.direction !== rule.direction) {
+    return false;
+  }
+
+  if (rule.accountTypes !== undefined) {
+    if (context.accountType === undefined || !rule.accountTypes.includes(context.accountType)) return false;
+  }
+
+  if (rule.accountNumbers !== undefined) {
+    const lastFour = context.accountNumberMasked?.slice(-4);
+    if (lastFour === undefined || !rule.accountNumbers.includes(lastFour)) return false;
+  }
+
+  if (rule.institutions !== undefined) {
+    const institution = context.institution?.toLowerCase();
+    if (institution === undefined || !rule.institutions.some((i) => i.toLowerCase() === institution)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Categorize a description against a rule list sorted by priority.
+ */
+export function categorizeWithRules(
+  ruleList: CategoryRule[],
   description: string,
-  channelType?: ChannelType
+  channelType?: ChannelType,
+  context: CategorizationContext = {}
 ): CategorizationResult {
   const normalizedDesc = description.toLowerCase().trim();
   
-  for (const rule of rules) {
+  for (const rule of ruleList) {
     if (rule.channelTypes !== undefined && channelType !== undefined) {
       if (!rule.channelTypes.includes(channelType)) {
         continue;
       }
     }
+
+    if (!matchesContext(rule, context)) {
+      continue;
+    }
     
     if (rule.excludePatterns !== undefined) {
       const excluded = rule.excludePatterns.some((p) => p.test(normalizedDesc));
@@ -194,6 +266,14 @@ export function categorizeTransaction(
   };
 }
 
+export function categorizeTransaction(
+  description: string,
+  channelType?: ChannelType,
+  context?: CategorizationContext
+): CategorizationResult {
+  return categorizeWithRules(rules, description, channelType, context);
+}
+
 export function getCategoryRuleById(id: string): CategoryRule | undefined {
   return CATEGORY_RULES_V2.find((r) => r.id === id);
 }
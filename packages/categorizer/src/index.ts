@@ -7,10 +7,56 @@ export type { CategorizationResult } from './categorizer.js';
 // V2 categorizer (rule-based with DSL, priority, channel-aware)
 export { 
   categorizeTransaction,
+  categorizeWithRules,
+  mergeCategoryRules,
   CATEGORY_RULES_V2,
   DEFAULT_CATEGORY as DEFAULT_CATEGORY_V2,
   DEFAULT_CONFIDENCE as DEFAULT_CONFIDENCE_V2,
   getCategoryRuleById,
   getRulesByCategory,
 } from './categorizer-v2.js';
-export type { CategoryRule as CategoryRuleV2, CategorizationResult as CategorizationResultV2 } from './categorizer-v2.js';
+export type {
+  CategoryRule as CategoryRuleV2,
+  CategorizationResult as CategorizationResultV2,
+  CategorizationContext,
+} from './categorizer-v2.js';
+
+// User rules file
+export {
+  parseCategoryRules,
+  loadCategoryRules,
+  applyCategoryRules,
+  createUserRuleMatcher,
+  transactionContext,
+} from './rules-loader.js';
+export type { ApplyCategoryRulesOptions } from './rules-loader.js';
+
+// Rules learned from human overrides
+export {
+  normalizeMerchantKey,
+  learnRulesFromOverrides,
+  loadLearnedRules,
+  acceptLearnedRules,
+  DEFAULT_LEARNED_RULES_PATH,
+  LEARNED_RULE_PRIORITY,
+} from './override-rules.js';
+export type { OverrideExample, LearnedRuleProposal, LearnRulesOptions } from './override-rules.js';
+
+// Review queue for low-confidence transactions
+export {
+  needsReview,
+  reviewMerchantKey,
+  findSimilarTransactions,
+  suggestDecision,
+  sameMerchantItems,
+  parseCategoryAnswer,
+  subcategoryChoices,
+  applyReviewDecisions,
+  reviewItemsFromResult,
+  overridesSidecarPath,
+  loadOverridesSidecar,
+  saveOverridesSidecar,
+  REVIEW_CONFIDENCE_THRESHOLD,
+  REVIEW_CATEGORIES,
+} from './review.js';
+export type { ReviewItem, ReviewDecision, SidecarOverride } from './review.js';
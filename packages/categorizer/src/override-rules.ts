@@ -0,0 +1,261 @@
+/**
+ * Learn categorization rules from human overrides.
+ *
+ * Overrides are grouped by normalized merchant; a merchant whose corrections
+ * mostly agree on one category becomes a proposed merchant → category rule.
+ * Accepted proposals are kept in a rules file (same format as `--rules`) and
+ * run ahead of the built-in rules on later parses and syncs.
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { CATEGORIES, type Category, type Direction, type Subcategory } from '@findata/types';
+import type { CategoryRule } from './categorizer-v2.js';
+import { parseCategoryRules } from './rules-loader.js';
+
+/**
+ * A transaction a human re-categorized
+ */
+export interface OverrideExample {
+  description: string;
+  /** Merchant name from the override, when the human set one */
+  merchant?: string | null;
+  /** Direction of the overridden transaction, when known */
+  direction?: Direction;
+  category: string;
+  subcategory: string | null;
+}
+
+export interface LearnedRuleProposal {
+  /** Rule id, `learned-<merchant>` */
+  id: string;
+  /** Normalized merchant the overrides were grouped by */
+  merchant: string;
+  category: Category;
+  subcategory: Subcategory;
+  /** Overrides for this merchant that chose this category and subcategory */
+  support: number;
+  /** All overrides for this merchant */
+  total: number;
+  /** support / total */
+  consistency: number;
+  /** A few of the overridden descriptions */
+  examples: string[];
+  /** Set when every agreeing override had this direction */
+  direction?: Direction;
+  rule: CategoryRule;
+}
+
+export interface LearnRulesOptions {
+  /** Minimum agreeing overrides for a proposal (default: 2) */
+  minSupport?: number;
+  /** Minimum share of the merchant's overrides that agree (default: 0.8) */
+  minConsistency?: number;
+}
+
+export const DEFAULT_LEARNED_RULES_PATH = join(homedir(), '.boa-parser', 'learned-rules.json');
+
+/** Learned rules run after `--rules` (priority 0) and before the built-in rules (100+) */
+export const LEARNED_RULE_PRIORITY = 50;
+const LEARNED_RULE_CONFIDENCE = 0.95;
+
+const DEFAULT_MIN_SUPPORT = 2;
+const DEFAULT_MIN_CONSISTENCY = 0.8;
+const MAX_MERCHANT_WORDS = 3;
+const MAX_EXAMPLES = 3;
+
+const KNOWN_CATEGORIES = new Set<string>(CATEGORIES);
+
+/** Channel prefixes and bank reference tails that are not part of the merchant */
+const MERCHANT_NOISE: RegExp[] = [
+  /^(?:checkcard|purchase|pos|debit\s+card\s+purchase|recurring\s+payment)(?:\s+\d{4})?(?:\s+|$)/,
+  /^zelle\s+(?:payment|transfer)\s+(?:to|from)\s+/,
+  /\s+(?:des|id|indn|co\s+id|conf#?|confirmation#?)\s*:.*$/,
+  /\s+conf#.*$/,
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pattern source matching a merchant key in a description
+ */
+function merchantPattern(merchant: string): string {
+  return `\\b${merchant.split(' ').map(escapeRegExp).join('\\W+')}\\b`;
+}
+
+function merchantWords(text: string): string | null {
+  let cleaned = text.toLowerCase();
+  for (const pattern of MERCHANT_NOISE) {
+    cleaned = cleaned.replace(pattern, '');
+  }
+
+  const words = cleaned
+    .replace(/[^a-z0-9&'\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => /^[a-z&']+$/.test(word) && /[a-z]/.test(word))
+    .slice(0, MAX_MERCHANT_WORDS);
+
+  const key = words.join(' ');
+  return key.length >= 3 ? key : null;
+}
+
+/**
+ * Merchant key for grouping overrides: the first words of the merchant name,
+ * lowercased, without card prefixes, reference numbers or punctuation.
+ * A merchant name that does not appear in the description is ignored, since
+ * the learned rule has to match the description. Returns null when nothing
+ * recognizable is left.
+ */
+export function normalizeMerchantKey(description: string, merchant?: string | null): string | null {
+  if (merchant !== undefined && merchant !== null) {
+    const key = merchantWords(merchant);
+    if (key !== null && new RegExp(merchantPattern(key), 'i').test(description)) {
+      return key;
+    }
+  }
+  return merchantWords(description);
+}
+
+function slugify(merchant: string): string {
+  return merchant.replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Propose merchant → category rules from human overrides. Proposals are
+ * sorted by support (most corrections first).
+ */
+export function learnRulesFromOverrides(
+  examples: OverrideExample[],
+  options: LearnRulesOptions = {}
+): LearnedRuleProposal[] {
+  const minSupport = options.minSupport ?? DEFAULT_MIN_SUPPORT;
+  const minConsistency = options.minConsistency ?? DEFAULT_MIN_CONSISTENCY;
+
+  const byMerchant = new Map<string, OverrideExample[]>();
+  for (const example of examples) {
+    if (!KNOWN_CATEGORIES.has(example.category) || example.category === 'Uncategorized') continue;
+    const key = normalizeMerchantKey(example.description, example.merchant);
+    if (key === null) continue;
+    const group = byMerchant.get(key) ?? [];
+    group.push(example);
+    byMerchant.set(key, group);
+  }
+
+  const proposals: LearnedRuleProposal[] = [];
+  for (const [merchant, group] of byMerchant) {
+    // Most common category + subcategory; ties go to the first one seen
+    const counts = new Map<string, OverrideExample[]>();
+    for (const example of group) {
+      const label = `${example.category}\u0000${example.subcategory ?? ''}`;
+      counts.set(label, [...(counts.get(label) ?? []), example]);
+    }
+    const [winner] = [...counts.values()].sort((a, b) => b.length - a.length);
+    if (winner === undefined) continue;
+
+    const support = winner.length;
+    const consistency = support / group.length;
+    if (support < minSupport || consistency < minConsistency) continue;
+
+    const first = winner[0]!;
+    const id = `learned-${slugify(merchant)}`;
+    const category = first.category as Category;
+    const subcategory = first.subcategory as Subcategory;
+    // "Zelle payment to X" and "from X" share a merchant key; keep the rule to one side
+    const direction = winner.every((e) => e.direction !== undefined && e.direction === first.direction)
+      ? first.direction
+      : undefined;
+
+    const rule: CategoryRule = {
+      id,
+      priority: LEARNED_RULE_PRIORITY,
+      patterns: [new RegExp(merchantPattern(merchant), 'i')],
+      category,
+      subcategory,
+      confidence: LEARNED_RULE_CONFIDENCE,
+    };
+    const proposal: LearnedRuleProposal = {
+      id,
+      merchant,
+      category,
+      subcategory,
+      support,
+      total: group.length,
+      consistency,
+      examples: [...new Set(winner.map((e) => e.description))].slice(0, MAX_EXAMPLES),
+      rule,
+    };
+    if (direction !== undefined) {
+      rule.direction = direction;
+      proposal.direction = direction;
+    }
+    proposals.push(proposal);
+  }
+
+  return proposals.sort((a, b) => b.support - a.support || a.merchant.localeCompare(b.merchant));
+}
+
+/**
+ * Read the learned rules file; no rules when it does not exist yet.
+ */
+export async function loadLearnedRules(filePath: string = DEFAULT_LEARNED_RULES_PATH): Promise<CategoryRule[]> {
+  const absolutePath = resolve(filePath);
+  if (!existsSync(absolutePath)) {
+    return [];
+  }
+
+  try {
+    return parseCategoryRules(JSON.parse(await readFile(absolutePath, 'utf-8')));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid learned rules file ${absolutePath}: ${message}`);
+  }
+}
+
+/**
+ * Add accepted proposals to the learned rules file. A proposal replaces an
+ * earlier rule with the same id. Returns the number of rules added and updated.
+ */
+export async function acceptLearnedRules(
+  proposals: LearnedRuleProposal[],
+  filePath: string = DEFAULT_LEARNED_RULES_PATH
+): Promise<{ added: number; updated: number }> {
+  const absolutePath = resolve(filePath);
+  // Validates the existing file before it is rewritten
+  await loadLearnedRules(absolutePath);
+
+  const existing: Array<Record<string, unknown>> = existsSync(absolutePath)
+    ? (JSON.parse(await readFile(absolutePath, 'utf-8')) as { rules: Array<Record<string, unknown>> }).rules
+    : [];
+
+  let added = 0;
+  let updated = 0;
+  for (const proposal of proposals) {
+    const entry: Record<string, unknown> = {
+      id: proposal.id,
+      patterns: proposal.rule.patterns.map((p) => p.source),
+      category: proposal.category,
+      subcategory: proposal.subcategory,
+      priority: proposal.rule.priority,
+      confidence: proposal.rule.confidence,
+    };
+    if (proposal.direction !== undefined) {
+      entry['direction'] = proposal.direction;
+    }
+    const index = existing.findIndex((rule) => rule['id'] === proposal.id);
+    if (index === -1) {
+      existing.push(entry);
+      added++;
+    } else {
+      existing[index] = entry;
+      updated++;
+    }
+  }
+
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, JSON.stringify({ rules: existing }, null, 2) + '\n', 'utf-8');
+  return { added, updated };
+}
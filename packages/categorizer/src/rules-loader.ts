@@ -0,0 +1,305 @@
+/**
+ * User-defined categorization rules, loaded from a JSON rules file.
+ *
+ * ```json
+ * {
+ *   "rules": [
+ *     {
+ *       "id": "rent-landlord",
+ *       "patterns": ["zelle.*acme properties"],
+ *       "category": "Housing",
+ *       "subcategory": "Rent",
+ *       "amountRange": { "min": 1500, "max": 2500 },
+ *       "direction": "debit",
+ *       "accountNumbers": ["1234"]
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * Rules take the same fields as the built-in `CategoryRule`s. Patterns are
+ * case-insensitive regular expressions. `priority` defaults to 0, ahead of
+ * every built-in rule; a rule whose id matches a built-in rule replaces it.
+ */
+
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import {
+  CATEGORIES,
+  type AccountType,
+  type Category,
+  type ChannelType,
+  type Direction,
+  type ParsedStatement,
+  type Subcategory,
+  type ZodTransaction as Transaction,
+} from '@findata/types';
+import {
+  categorizeWithRules,
+  mergeCategoryRules,
+  type CategorizationContext,
+  type CategorizationResult,
+  type CategoryRule,
+} from './categorizer-v2.js';
+
+const CHANNEL_TYPES: ChannelType[] = [
+  'CHECKCARD', 'PURCHASE', 'ATM_DEPOSIT', 'ATM_WITHDRAWAL', 'FINANCIAL_CENTER_DEPOSIT',
+  'ONLINE_BANKING_TRANSFER', 'ZELLE', 'CHECK', 'FEE', 'OTHER',
+];
+
+const DIRECTIONS: Direction[] = ['debit', 'credit'];
+const ACCOUNT_TYPES: AccountType[] = ['checking', 'savings', 'credit'];
+
+const RULE_FIELDS = new Set([
+  'id', 'patterns', 'excludePatterns', 'channelTypes', 'priority', 'confidence', 'category', 'subcategory',
+  'amountRange', 'direction', 'accountTypes', 'accountNumbers', 'institutions',
+]);
+
+const DEFAULT_USER_RULE_PRIORITY = 0;
+const DEFAULT_USER_RULE_CONFIDENCE = 0.95;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringList(value: unknown, field: string, label: string): string[] {
+  if (!Array.isArray(value) || value.length === 0 || !value.every((v): v is string => typeof v === 'string' && v.length > 0)) {
+    throw new Error(`${label}: "${field}" must be a non-empty array of strings`);
+  }
+  return value;
+}
+
+function enumList<T extends string>(value: unknown, field: string, label: string, allowed: readonly T[]): T[] {
+  const list = stringList(value, field, label);
+  for (const item of list) {
+    if (!(allowed as readonly string[]).includes(item)) {
+      throw new Error(`${label}: unknown ${field} value "${item}" (expected one of: ${allowed.join(', ')})`);
+    }
+  }
+  return list as T[];
+}
+
+function compilePatterns(value: unknown, field: string, label: string): RegExp[] {
+  return stringList(value, field, label).map((source) => {
+    try {
+      return new RegExp(source, 'i');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${label}: invalid pattern in "${field}": ${message}`);
+    }
+  });
+}
+
+function parseAmountRange(value: unknown, label: string): { min?: number; max?: number } {
+  if (!isRecord(value)) {
+    throw new Error(`${label}: "amountRange" must be an object with "min" and/or "max"`);
+  }
+  for (const key of Object.keys(value)) {
+    if (key !== 'min' && key !== 'max') {
+      throw new Error(`${label}: unknown field "amountRange.${key}"`);
+    }
+  }
+
+  const range: { min?: number; max?: number } = {};
+  for (const key of ['min', 'max'] as const) {
+    const bound = value[key];
+    if (bound === undefined) continue;
+    if (typeof bound !== 'number' || !Number.isFinite(bound) || bound < 0) {
+      throw new Error(`${label}: "amountRange.${key}" must be a number >= 0`);
+    }
+    range[key] = bound;
+  }
+
+  if (range.min === undefined && range.max === undefined) {
+    throw new Error(`${label}: "amountRange" needs "min" and/or "max"`);
+  }
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    throw new Error(`${label}: "amountRange.min" is greater than "amountRange.max"`);
+  }
+  return range;
+}
+
+function parseRule(input: unknown, index: number): CategoryRule {
+  if (!isRecord(input)) {
+    throw new Error(`Rule ${index + 1} must be an object`);
+  }
+  if (typeof input['id'] !== 'string' || input['id'].trim() === '') {
+    throw new Error(`Rule ${index + 1}: "id" must be a non-empty string`);
+  }
+  const id = input['id'];
+  const label = `Rule "${id}"`;
+
+  for (const key of Object.keys(input)) {
+    if (!RULE_FIELDS.has(key)) {
+      throw new Error(`${label}: unknown field "${key}"`);
+    }
+  }
+
+  const category = input['category'];
+  if (typeof category !== 'string' || !(CATEGORIES as readonly string[]).includes(category)) {
+    throw new Error(`${label}: "category" must be one of: ${CATEGORIES.join(', ')}`);
+  }
+
+  const subcategory = input['subcategory'] ?? null;
+  if (subcategory !== null && (typeof subcategory !== 'string' || subcategory === '')) {
+    throw new Error(`${label}: "subcategory" must be a non-empty string or null`);
+  }
+
+  const priority = input['priority'] ?? DEFAULT_USER_RULE_PRIORITY;
+  if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+    throw new Error(`${label}: "priority" must be a number`);
+  }
+
+  const confidence = input['confidence'] ?? DEFAULT_USER_RULE_CONFIDENCE;
+  if (typeof confidence !== 'number' || confidence < 0 || confidence > 1) {
+    throw new Error(`${label}: "confidence" must be a number between 0 and 1`);
+  }
+
+  const direction = input['direction'];
+  if (direction !== undefined && (typeof direction !== 'string' || !(DIRECTIONS as string[]).includes(direction))) {
+    throw new Error(`${label}: "direction" must be "debit" or "credit"`);
+  }
+
+  const rule: CategoryRule = {
+    id,
+    priority,
+    patterns: compilePatterns(input['patterns'], 'patterns', label),
+    category: category as Category,
+    subcategory: subcategory as Subcategory,
+    confidence,
+  };
+
+  if (input['excludePatterns'] !== undefined) {
+    rule.excludePatterns = compilePatterns(input['excludePatterns'], 'excludePatterns', label);
+  }
+  if (input['channelTypes'] !== undefined) {
+    rule.channelTypes = enumList(input['channelTypes'], 'channelTypes', label, CHANNEL_TYPES);
+  }
+  if (input['amountRange'] !== undefined) {
+    rule.amountRange = parseAmountRange(input['amountRange'], label);
+  }
+  if (direction !== undefined) {
+    rule.direction = direction as Direction;
+  }
+  if (input['accountTypes'] !== undefined) {
+    rule.accountTypes = enumList(input['accountTypes'], 'accountTypes', label, ACCOUNT_TYPES);
+  }
+  if (input['accountNumbers'] !== undefined) {
+    const accountNumbers = stringList(input['accountNumbers'], 'accountNumbers', label);
+    const invalid = accountNumbers.find((n) => !/^\d{4}$/.test(n));
+    if (invalid !== undefined) {
+      throw new Error(`${label}: "accountNumbers" must hold the last four digits, got "${invalid}"`);
+    }
+    rule.accountNumbers = accountNumbers;
+  }
+  if (input['institutions'] !== undefined) {
+    rule.institutions = stringList(input['institutions'], 'institutions', label);
+  }
+
+  return rule;
+}
+
+/**
+ * Validate a parsed rules file.
+ */
+export function parseCategoryRules(input: unknown): CategoryRule[] {
+  if (!isRecord(input) || !Array.isArray(input['rules'])) {
+    throw new Error('Rules file must be an object with a "rules" array');
+  }
+
+  const rules = input['rules'].map((rule, index) => parseRule(rule, index));
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (seen.has(rule.id)) {
+      throw new Error(`Rule "${rule.id}" is defined more than once`);
+    }
+    seen.add(rule.id);
+  }
+  return rules;
+}
+
+/**
+ * Read and validate a JSON rules file.
+ */
+export async function loadCategoryRules(filePath: string): Promise<CategoryRule[]> {
+  const absolutePath = resolve(filePath);
+  const content = await readFile(absolutePath, 'utf-8');
+
+  try {
+    return parseCategoryRules(JSON.parse(content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid rules file ${absolutePath}: ${message}`);
+  }
+}
+
+/**
+ * Rule filter context for a parsed transaction and its statement's account.
+ */
+export function transactionContext(
+  statement: ParsedStatement,
+  transaction: Transaction
+): CategorizationContext {
+  return {
+    amount: transaction.amount,
+    direction: transaction.direction,
+    accountType: statement.account.accountType,
+    accountNumberMasked: statement.account.accountNumberMasked,
+    institution: statement.account.institution,
+  };
+}
+
+export interface ApplyCategoryRulesOptions {
+  /** Channel of a transaction in a statement, for rules with `channelTypes` */
+  channelOf?: (description: string, statement: ParsedStatement) => ChannelType | undefined;
+}
+
+/**
+ * Build a categorizer for user rules merged into the built-in rules. It
+ * returns the result only when the best match is a user rule, so callers keep
+ * their own categorization otherwise.
+ */
+export function createUserRuleMatcher(
+  userRules: CategoryRule[]
+): (description: string, channelType?: ChannelType, context?: CategorizationContext) => CategorizationResult | null {
+  const merged = mergeCategoryRules(userRules);
+  const userIds = new Set(userRules.map((r) => r.id));
+
+  return (description, channelType, context = {}) => {
+    if (userIds.size === 0) return null;
+    const result = categorizeWithRules(merged, description, channelType, context);
+    return result.ruleId !== null && userIds.has(result.ruleId) ? result : null;
+  };
+}
+
+/**
+ * Re-categorize parsed transactions with user rules merged into the built-in
+ * rules. Only transactions whose best match is a user rule are changed.
+ * Returns the number of transactions matched by a user rule.
+ */
+export function applyCategoryRules(
+  statements: ParsedStatement[],
+  userRules: CategoryRule[],
+  options: ApplyCategoryRulesOptions = {}
+): number {
+  if (userRules.length === 0) return 0;
+
+  const match = createUserRuleMatcher(userRules);
+  let matched = 0;
+
+  for (const stmt of statements) {
+    for (const tx of stmt.transactions) {
+      const channelType = options.channelOf !== undefined ? options.channelOf(tx.description, stmt) : undefined;
+      const result = match(tx.description, channelType, transactionContext(stmt, tx));
+
+      if (result !== null) {
+        tx.category = result.category;
+        tx.subcategory = result.subcategory;
+        tx.confidence = result.confidence;
+        matched++;
+      }
+    }
+  }
+
+  return matched;
+}
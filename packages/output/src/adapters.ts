@@ -2,9 +2,10 @@
  * Output adapters for converting canonical internal representation to v1 and v2 schema formats.
  */
 
-import type { ParsedStatement } from '@findata/types';
+import type { CreditDetails, ParsedStatement } from '@findata/types';
 import type { SchemaVersion } from '@findata/types';
-import { generateAnalytics, type AnalyticsResult } from './analytics.js';
+import { generateAnalytics, type AnalyticsOptions, type AnalyticsResult } from './analytics.js';
+import { convertCurrency, hasFxRate, sumAmounts, toInstitutionId } from '@findata/types';
 import { checkIntegrity, type IntegrityCheckResult } from './integrity.js';
 import {
   computeStatementId,
@@ -23,6 +24,22 @@ export interface CanonicalOutput {
   parseErrors?: Array<{ filename: string; error: string }>;
 }
 
+/**
+ * One credit card billing cycle in the V2 account block: the statement's
+ * balances and card details plus utilization (new balance / credit limit, 0-1).
+ */
+export interface CreditCycle extends CreditDetails {
+  statementId: string;
+  periodLabel: string;
+  statementPeriod: {
+    start: string;
+    end: string;
+  };
+  startingBalance: number;
+  endingBalance: number;
+  utilization: number | null;
+}
+
 /**
  * V1 output format - array of statements with metadata
  */
@@ -30,14 +47,17 @@ export interface FinalResultV1 {
   schemaVersion?: 'v1';
   statements: Array<{
     account: {
-      institution: 'Bank of America';
+      institution: string;
+      institutionId?: string;
+      routingNumber?: string;
+      fid?: string;
       accountType: string;
       accountNumberMasked: string;
       statementPeriod: {
         start: string;
         end: string;
       };
-      currency: 'USD';
+      currency: string;
     };
     summary: {
       startingBalance: number;
@@ -55,11 +75,14 @@ export interface FinalResultV1 {
       category: string;
       subcategory: string | null;
       confidence: number;
+      currency?: string;
       raw: {
         originalText: string;
         page: number;
       };
     }>;
+    dailyBalances?: Array<{ date: string; balance: number }>;
+    creditDetails?: CreditDetails;
     metadata: {
       parserVersion: string;
       parsedAt: string;
@@ -85,6 +108,9 @@ export interface FinalResultV2 {
   accounts: Array<{
     account: {
       institution: string;
+      institutionId?: string;
+      routingNumber?: string;
+      fid?: string;
       accountType: string;
       accountNumberMasked: string;
       statementPeriod: {
@@ -109,6 +135,7 @@ export interface FinalResultV2 {
       category: string;
       subcategory: string | null;
       confidence: number;
+      currency?: string;
       statementId: string;
       periodLabel: string;
       transactionId: string;
@@ -117,11 +144,42 @@ export interface FinalResultV2 {
         page: number;
       };
     }>;
+    /** Credit accounts only: card details per billing cycle, oldest first */
+    creditCycles?: CreditCycle[];
     totalStatements: number;
     totalTransactions: number;
   }>;
 }
 
+interface InstitutionIdentity {
+  institution: string;
+  institutionId?: string;
+  routingNumber?: string;
+  fid?: string;
+}
+
+/**
+ * Copy the institution fields of an account, omitting optional ones that are unset.
+ */
+function institutionIdentity(account: ParsedStatement['account']): InstitutionIdentity {
+  const identity: InstitutionIdentity = { institution: account.institution };
+  if (account.institutionId !== undefined) identity.institutionId = account.institutionId;
+  if (account.routingNumber !== undefined) identity.routingNumber = account.routingNumber;
+  if (account.fid !== undefined) identity.fid = account.fid;
+  return identity;
+}
+
+/**
+ * File name stem for a per-account export, e.g. 'boa_checking_3529'.
+ * Prefixed with the institution id so that accounts with the same type and
+ * last four digits at two institutions do not overwrite each other's files.
+ */
+export function accountFileStem(account: FinalResultV2['accounts'][number]['account']): string {
+  const institutionId = account.institutionId ?? toInstitutionId(account.institution);
+  const last4 = account.accountNumberMasked.replace(/\*/g, '').slice(-4);
+  return `${institutionId}_${account.accountType.toLowerCase()}_${last4}`;
+}
+
 /**
  * Convert canonical output to V1 format.
  * V1 is the current/legacy format with statements array.
@@ -130,7 +188,7 @@ export function toFinalResultV1(canonical: CanonicalOutput, includeSchemaVersion
   const result: FinalResultV1 = {
     statements: canonical.statements.map((stmt) => ({
       account: {
-        institution: stmt.account.institution,
+        ...institutionIdentity(stmt.account),
         accountType: stmt.account.accountType,
         accountNumberMasked: stmt.account.accountNumberMasked,
         statementPeriod: {
@@ -155,11 +213,16 @@ export function toFinalResultV1(canonical: CanonicalOutput, includeSchemaVersion
         category: txn.category,
         subcategory: txn.subcategory,
         confidence: txn.confidence,
+        ...(txn.currency !== undefined ? { currency: txn.currency } : {}),
         raw: {
           originalText: txn.raw.originalText,
           page: txn.raw.page,
         },
       })),
+      ...(stmt.dailyBalances !== undefined && stmt.dailyBalances.length > 0
+        ? { dailyBalances: stmt.dailyBalances.map((day) => ({ date: day.date, balance: day.balance })) }
+        : {}),
+      ...(stmt.creditDetails !== undefined ? { creditDetails: stmt.creditDetails } : {}),
       metadata: {
         parserVersion: stmt.metadata.parserVersion,
         parsedAt: stmt.metadata.parsedAt,
@@ -181,6 +244,30 @@ export function toFinalResultV1(canonical: CanonicalOutput, includeSchemaVersion
   return result;
 }
 
+/**
+ * Card details per billing cycle for the statements that carry them.
+ */
+function toCreditCycles(statements: ParsedStatement[]): CreditCycle[] {
+  return statements.flatMap((stmt) => {
+    if (stmt.creditDetails === undefined) return [];
+    const limit = stmt.creditDetails.creditLimit;
+    return [{
+      statementId: computeStatementId(stmt),
+      periodLabel: computePeriodLabel(stmt),
+      statementPeriod: {
+        start: stmt.account.statementPeriod.start,
+        end: stmt.account.statementPeriod.end,
+      },
+      startingBalance: stmt.summary.startingBalance,
+      endingBalance: stmt.summary.endingBalance,
+      ...stmt.creditDetails,
+      utilization: limit !== null && limit > 0
+        ? Math.round((Math.max(stmt.summary.endingBalance, 0) / limit) * 10000) / 10000
+        : null,
+    }];
+  });
+}
+
 /**
  * Group statements by account number for V2 rollup
  */
@@ -211,10 +298,21 @@ function groupStatementsByAccount(statements: ParsedStatement[]): AccountGroup[]
 /**
  * Convert canonical output to V2 format (BOFA rollup).
  * V2 groups transactions by account and provides rollup totals.
+ *
+ * When accounts use different currencies, the rollup totals are reported in
+ * the analytics base currency: other accounts are converted with
+ * `options.fxRates`. Accounts in a currency without a rate are left out of the
+ * totals, listed in `analytics.unconvertedCurrencies` and reported in the
+ * integrity warnings.
  */
-export function toFinalResultV2(canonical: CanonicalOutput): FinalResultV2 {
+export function toFinalResultV2(canonical: CanonicalOutput, options: AnalyticsOptions = {}): FinalResultV2 {
   const accountGroups = groupStatementsByAccount(canonical.statements);
 
+  // Generate analytics from all statements
+  const analytics = generateAnalytics(canonical.statements, options);
+  const rollupCurrency = analytics.currency;
+  const unconvertedCurrencies = new Set(analytics.unconvertedCurrencies);
+
   // Calculate rollup totals across all accounts
   let totalStartingBalance = 0;
   let totalEndingBalance = 0;
@@ -244,8 +342,16 @@ export function toFinalResultV2(canonical: CanonicalOutput): FinalResultV2 {
       accountTotalDebits += stmt.summary.totalDebits;
     }
 
-    totalStartingBalance += accountStartingBalance;
-    totalEndingBalance += accountEndingBalance;
+    const accountCurrency = firstStatement.account.currency;
+    if (rollupCurrency === undefined || accountCurrency === rollupCurrency) {
+      totalStartingBalance += accountStartingBalance;
+      totalEndingBalance += accountEndingBalance;
+    } else if (options.fxRates !== undefined && hasFxRate(accountCurrency, options.fxRates)) {
+      totalStartingBalance += convertCurrency(accountStartingBalance, accountCurrency, rollupCurrency, options.fxRates);
+      totalEndingBalance += convertCurrency(accountEndingBalance, accountCurrency, rollupCurrency, options.fxRates);
+    } else {
+      unconvertedCurrencies.add(accountCurrency);
+    }
 
     // Collect all transactions for this account with traceability and transaction IDs
     const allTransactions = group.statements.flatMap((stmt) => {
@@ -263,6 +369,7 @@ export function toFinalResultV2(canonical: CanonicalOutput): FinalResultV2 {
           category: txn.category,
           subcategory: txn.subcategory,
           confidence: txn.confidence,
+          ...(txn.currency !== undefined ? { currency: txn.currency } : {}),
           statementId,
           periodLabel,
           transactionId,
@@ -281,9 +388,11 @@ export function toFinalResultV2(canonical: CanonicalOutput): FinalResultV2 {
     const periodStart = firstStatement.account.statementPeriod.start;
     const periodEnd = lastStatement.account.statementPeriod.end;
 
+    const creditCycles = toCreditCycles(sortedStatements);
+
     return {
       account: {
-        institution: firstStatement.account.institution,
+        ...institutionIdentity(firstStatement.account),
         accountType: firstStatement.account.accountType,
         accountNumberMasked: firstStatement.account.accountNumberMasked,
         statementPeriod: {
@@ -299,17 +408,23 @@ export function toFinalResultV2(canonical: CanonicalOutput): FinalResultV2 {
         totalDebits: accountTotalDebits,
       },
       transactions: allTransactions,
+      ...(creditCycles.length > 0 ? { creditCycles } : {}),
       totalStatements: group.statements.length,
       totalTransactions: allTransactions.length,
     };
   });
 
-  // Generate analytics from all statements
-  const analytics = generateAnalytics(canonical.statements);
-
   // Run integrity checks on all statements
   const integrity = checkIntegrity(canonical.statements);
 
+  if (unconvertedCurrencies.size > 0 && rollupCurrency !== undefined) {
+    const currencies = [...unconvertedCurrencies].sort();
+    integrity.summary.warnings.push(
+      `No FX rate for ${currencies.join(', ')}: left out of the ${rollupCurrency} totals`
+    );
+    analytics.unconvertedCurrencies = currencies;
+  }
+
   return {
     schemaVersion: 'v2',
     startingBalance: totalStartingBalance,
@@ -327,16 +442,119 @@ export function toFinalResultV2(canonical: CanonicalOutput): FinalResultV2 {
  */
 export function toFinalResult(
   canonical: CanonicalOutput,
-  version: SchemaVersion
+  version: SchemaVersion,
+  options: AnalyticsOptions = {}
 ): FinalResultV1 | FinalResultV2 {
   switch (version) {
     case 'v1':
       return toFinalResultV1(canonical, true);
     case 'v2':
-      return toFinalResultV2(canonical);
+      return toFinalResultV2(canonical, options);
     default: {
       const _exhaustive: never = version;
       throw new Error(`Unknown schema version: ${String(_exhaustive)}`);
     }
   }
 }
+
+const STATEMENT_ID_PERIOD = /-(\d{4}-\d{2}-\d{2})-(\d{4}-\d{2}-\d{2})$/;
+
+type V2Account = FinalResultV2['accounts'][number];
+
+/**
+ * Split a V2 account back into one statement per `statementId`. The period
+ * comes from the id; balances are chained from the account's starting
+ * balance, with credit cycles supplying the card statements' own balances.
+ */
+function statementsFromV2Account(group: V2Account): ParsedStatement[] {
+  const { account } = group;
+  const byId = new Map<string, V2Account['transactions']>();
+  for (const cycle of group.creditCycles ?? []) {
+    byId.set(cycle.statementId, []);
+  }
+  for (const txn of group.transactions) {
+    byId.set(txn.statementId, [...(byId.get(txn.statementId) ?? []), txn]);
+  }
+  if (byId.size === 0) {
+    byId.set(computeStatementId({ account }), []);
+  }
+
+  const periods = [...byId.entries()]
+    .map(([statementId, transactions]) => {
+      const match = STATEMENT_ID_PERIOD.exec(statementId);
+      return {
+        statementId,
+        transactions,
+        start: match?.[1] ?? account.statementPeriod.start,
+        end: match?.[2] ?? account.statementPeriod.end,
+      };
+    })
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  let balance = group.summary.startingBalance;
+  return periods.map((period, i) => {
+    const cycle = group.creditCycles?.find((c) => c.statementId === period.statementId);
+    const total = (direction: 'debit' | 'credit'): number => sumAmounts(
+      period.transactions.filter((t) => t.direction === direction).map((t) => Math.abs(t.amount)),
+      account.currency
+    );
+    const totalCredits = total('credit');
+    const totalDebits = total('debit');
+    const net = account.accountType === 'credit' ? totalDebits - totalCredits : totalCredits - totalDebits;
+    const startingBalance = cycle?.startingBalance ?? balance;
+    const endingBalance = cycle?.endingBalance
+      ?? (i === periods.length - 1 ? group.summary.endingBalance : sumAmounts([startingBalance, net], account.currency));
+    balance = endingBalance;
+
+    const statement: ParsedStatement = {
+      account: {
+        ...account,
+        accountType: account.accountType as ParsedStatement['account']['accountType'],
+        statementPeriod: { start: period.start, end: period.end },
+      },
+      summary: { startingBalance, endingBalance, totalCredits, totalDebits },
+      transactions: period.transactions.map((txn) => ({
+        date: txn.date,
+        postedDate: txn.postedDate,
+        description: txn.description,
+        merchant: txn.merchant === 'Unknown' ? null : txn.merchant,
+        amount: txn.amount,
+        direction: txn.direction,
+        category: txn.category,
+        subcategory: txn.subcategory,
+        confidence: txn.confidence,
+        ...(txn.currency !== undefined ? { currency: txn.currency } : {}),
+        raw: { originalText: txn.raw.originalText, page: txn.raw.page },
+      })),
+      metadata: { parserVersion: 'unknown', parsedAt: new Date().toISOString(), warnings: [] },
+    };
+    if (cycle !== undefined) {
+      statement.creditDetails = {
+        creditLimit: cycle.creditLimit,
+        availableCredit: cycle.availableCredit,
+        paymentDueDate: cycle.paymentDueDate,
+        minimumPaymentDue: cycle.minimumPaymentDue,
+        aprs: cycle.aprs,
+        interestCharged: cycle.interestCharged,
+        feesCharged: cycle.feesCharged,
+        rewards: cycle.rewards,
+        latePaymentWarning: cycle.latePaymentWarning,
+      };
+    }
+    return statement;
+  });
+}
+
+/**
+ * Statements of a result written by toFinalResult, so that new statements
+ * can be merged into it. V1 statements are returned as they are; V2 accounts
+ * are split per statement (see statementsFromV2Account), which cannot
+ * recover daily balances or the exact balances of statements between the
+ * first and the last.
+ */
+export function statementsFromFinalResult(result: FinalResultV1 | FinalResultV2): ParsedStatement[] {
+  if ('accounts' in result) {
+    return result.accounts.flatMap(statementsFromV2Account);
+  }
+  return result.statements as ParsedStatement[];
+}
@@ -0,0 +1,323 @@
+/**
+ * Columnar Exporter Module
+ *
+ * Converts v2 rollup output to Apache Parquet or Arrow IPC files for
+ * DuckDB, pandas and Polars. Every file has one row per transaction and the
+ * fixed column schema in TRANSACTION_COLUMNS, so multi-year exports can be
+ * queried together without type drift.
+ */
+
+import {
+  Bool,
+  DateDay,
+  Field,
+  Float64,
+  Int64,
+  Schema,
+  Table,
+  Utf8,
+  tableToIPC,
+  vectorFromArray,
+  type DataType,
+} from 'apache-arrow';
+import { parquetWriteBuffer, type SchemaElement } from 'hyparquet-writer';
+import { accountFileStem, type FinalResultV2 } from './adapters.js';
+import { getRecurringFlags, type RecurringDetectionResult } from './recurring-detector.js';
+import { toMinorUnits, type PlaidMatch } from '@findata/types';
+
+/**
+ * Version of the columnar schema, stored in file metadata as
+ * `findata.schema_version`. Bumped whenever a column changes.
+ */
+export const COLUMNAR_SCHEMA_VERSION = '1';
+
+export type ColumnarFormat = 'parquet' | 'arrow';
+
+export type ColumnType = 'string' | 'date' | 'double' | 'int64' | 'boolean';
+
+export interface ColumnDefinition {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+}
+
+/**
+ * Column schema shared by the Parquet and Arrow exports, in file order.
+ * `amount_minor` is the exact amount in the currency's minor units.
+ */
+export const TRANSACTION_COLUMNS: readonly ColumnDefinition[] = [
+  { name: 'transaction_id', type: 'string', nullable: false },
+  { name: 'statement_id', type: 'string', nullable: false },
+  { name: 'period_label', type: 'string', nullable: false },
+  { name: 'institution', type: 'string', nullable: false },
+  { name: 'institution_id', type: 'string', nullable: true },
+  { name: 'account_type', type: 'string', nullable: false },
+  { name: 'account_number_masked', type: 'string', nullable: false },
+  { name: 'date', type: 'date', nullable: false },
+  { name: 'posted_date', type: 'date', nullable: true },
+  { name: 'description', type: 'string', nullable: false },
+  { name: 'merchant', type: 'string', nullable: false },
+  { name: 'amount', type: 'double', nullable: false },
+  { name: 'amount_minor', type: 'int64', nullable: false },
+  { name: 'currency', type: 'string', nullable: false },
+  { name: 'direction', type: 'string', nullable: false },
+  { name: 'category', type: 'string', nullable: false },
+  { name: 'subcategory', type: 'string', nullable: true },
+  { name: 'confidence', type: 'double', nullable: false },
+  { name: 'is_recurring', type: 'boolean', nullable: false },
+  { name: 'is_subscription', type: 'boolean', nullable: false },
+  { name: 'recurring_pattern_id', type: 'string', nullable: true },
+  { name: 'plaid_transaction_id', type: 'string', nullable: true },
+  { name: 'plaid_match_type', type: 'string', nullable: true },
+  { name: 'plaid_match_confidence', type: 'double', nullable: true },
+  { name: 'plaid_merchant_name', type: 'string', nullable: true },
+  { name: 'plaid_category_primary', type: 'string', nullable: true },
+  { name: 'plaid_category_detailed', type: 'string', nullable: true },
+];
+
+/**
+ * Options for Parquet and Arrow export
+ */
+export interface ColumnarExportOptions {
+  /**
+   * Recurring detection result used to fill the recurring columns. Without
+   * it, flags already present on the transactions are used.
+   */
+  recurring?: RecurringDetectionResult;
+}
+
+type AccountBlock = FinalResultV2['accounts'][number];
+
+/**
+ * Fields a transaction may carry after recurring detection or Plaid enrichment
+ */
+type ColumnarTransaction = AccountBlock['transactions'][number] & {
+  flags?: {
+    isRecurring?: boolean;
+    isSubscription?: boolean;
+  };
+  plaidMatch?: PlaidMatch;
+};
+
+type ColumnValue = string | number | bigint | boolean | Date | null;
+
+type RecurringFlags = ReturnType<typeof getRecurringFlags>;
+
+/**
+ * ISO date (YYYY-MM-DD) to a UTC midnight Date
+ */
+function toDate(isoDate: string): Date {
+  return new Date(`${isoDate}T00:00:00Z`);
+}
+
+function buildRow(
+  account: AccountBlock,
+  txn: ColumnarTransaction,
+  recurringFlags: RecurringFlags
+): Record<string, ColumnValue> {
+  const currency = txn.currency ?? account.account.currency;
+  const recurring = recurringFlags.get(txn.transactionId);
+  const plaidMatch = txn.plaidMatch;
+
+  return {
+    transaction_id: txn.transactionId,
+    statement_id: txn.statementId,
+    period_label: txn.periodLabel,
+    institution: account.account.institution,
+    institution_id: account.account.institutionId ?? null,
+    account_type: account.account.accountType,
+    account_number_masked: account.account.accountNumberMasked,
+    date: toDate(txn.date),
+    posted_date: txn.postedDate !== null ? toDate(txn.postedDate) : null,
+    description: txn.description,
+    merchant: txn.merchant,
+    amount: txn.amount,
+    amount_minor: BigInt(toMinorUnits(txn.amount, currency)),
+    currency,
+    direction: txn.direction,
+    category: txn.category,
+    subcategory: txn.subcategory,
+    confidence: txn.confidence,
+    is_recurring: recurring?.isRecurring ?? txn.flags?.isRecurring ?? false,
+    is_subscription: recurring?.isSubscription ?? txn.flags?.isSubscription ?? false,
+    recurring_pattern_id: recurring?.patternId ?? null,
+    plaid_transaction_id: plaidMatch?.plaidTransactionId ?? null,
+    plaid_match_type: plaidMatch?.matchType ?? null,
+    plaid_match_confidence: plaidMatch?.matchConfidence ?? null,
+    plaid_merchant_name: plaidMatch?.merchantName ?? null,
+    plaid_category_primary: plaidMatch?.personalFinanceCategory?.primary ?? null,
+    plaid_category_detailed: plaidMatch?.personalFinanceCategory?.detailed ?? null,
+  };
+}
+
+/**
+ * Flatten accounts into column arrays keyed by column name
+ */
+function buildColumns(
+  accounts: AccountBlock[],
+  options: ColumnarExportOptions
+): Map<string, ColumnValue[]> {
+  const recurringFlags: RecurringFlags = options.recurring !== undefined
+    ? getRecurringFlags(options.recurring)
+    : new Map<string, { isRecurring: boolean; isSubscription: boolean; patternId: string }>();
+
+  const columns = new Map<string, ColumnValue[]>(
+    TRANSACTION_COLUMNS.map((column) => [column.name, []])
+  );
+
+  for (const account of accounts) {
+    // Sort transactions by date for deterministic output
+    const sortedTransactions = [...account.transactions].sort((a, b) => {
+      const dateCompare = a.date.localeCompare(b.date);
+      if (dateCompare !== 0) return dateCompare;
+      return a.transactionId.localeCompare(b.transactionId);
+    });
+
+    for (const txn of sortedTransactions) {
+      const row = buildRow(account, txn, recurringFlags);
+      for (const column of TRANSACTION_COLUMNS) {
+        columns.get(column.name)?.push(row[column.name] ?? null);
+      }
+    }
+  }
+
+  return columns;
+}
+
+function toParquetSchemaElement(column: ColumnDefinition): SchemaElement {
+  const repetition_type = column.nullable ? 'OPTIONAL' : 'REQUIRED';
+  switch (column.type) {
+    case 'string':
+      return { name: column.name, type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type };
+    case 'date':
+      return { name: column.name, type: 'INT32', converted_type: 'DATE', repetition_type };
+    case 'double':
+      return { name: column.name, type: 'DOUBLE', repetition_type };
+    case 'int64':
+      return { name: column.name, type: 'INT64', repetition_type };
+    case 'boolean':
+      return { name: column.name, type: 'BOOLEAN', repetition_type };
+  }
+}
+
+function toArrowType(type: ColumnType): DataType {
+  switch (type) {
+    case 'string':
+      return new Utf8();
+    case 'date':
+      return new DateDay();
+    case 'double':
+      return new Float64();
+    case 'int64':
+      return new Int64();
+    case 'boolean':
+      return new Bool();
+  }
+}
+
+function encodeParquet(accounts: AccountBlock[], options: ColumnarExportOptions): Uint8Array {
+  const columns = buildColumns(accounts, options);
+  const buffer = parquetWriteBuffer({
+    columnData: TRANSACTION_COLUMNS.map((column) => ({
+      name: column.name,
+      data: columns.get(column.name) ?? [],
+    })),
+    schema: [
+      { name: 'root', num_children: TRANSACTION_COLUMNS.length },
+      ...TRANSACTION_COLUMNS.map(toParquetSchemaElement),
+    ],
+    kvMetadata: [{ key: 'findata.schema_version', value: COLUMNAR_SCHEMA_VERSION }],
+  });
+  return new Uint8Array(buffer);
+}
+
+function encodeArrow(accounts: AccountBlock[], options: ColumnarExportOptions): Uint8Array {
+  const columns = buildColumns(accounts, options);
+  const schema = new Schema(
+    TRANSACTION_COLUMNS.map((column) => new Field(column.name, toArrowType(column.type), column.nullable)),
+    new Map([['findata.schema_version', COLUMNAR_SCHEMA_VERSION]])
+  );
+  const vectors = Object.fromEntries(
+    TRANSACTION_COLUMNS.map((column) => [
+      column.name,
+      vectorFromArray(columns.get(column.name) ?? [], toArrowType(column.type)),
+    ])
+  );
+  return tableToIPC(new Table(schema, vectors), 'file');
+}
+
+/**
+ * Export v2 rollup transactions to an Apache Parquet file.
+ *
+ * @param v2Result - The v2 rollup result to export
+ * @param options - Export options
+ * @returns Parquet file bytes
+ */
+export function exportParquet(
+  v2Result: FinalResultV2,
+  options: ColumnarExportOptions = {}
+): Uint8Array {
+  return encodeParquet(v2Result.accounts, options);
+}
+
+/**
+ * Export v2 rollup transactions to an Arrow IPC file (Feather v2).
+ *
+ * @param v2Result - The v2 rollup result to export
+ * @param options - Export options
+ * @returns Arrow IPC file bytes
+ */
+export function exportArrow(
+  v2Result: FinalResultV2,
+  options: ColumnarExportOptions = {}
+): Uint8Array {
+  return encodeArrow(v2Result.accounts, options);
+}
+
+/**
+ * Result of split-by-account export
+ */
+export interface SplitColumnarResult {
+  /** Account type (e.g., 'checking', 'credit') */
+  accountType: string;
+  /** Last 4 digits of account number */
+  accountLast4: string;
+  /** Suggested filename (e.g., 'boa_checking_3529.parquet') */
+  filename: string;
+  /** File content for this account */
+  content: Uint8Array;
+}
+
+/**
+ * Export v2 rollup to separate Parquet or Arrow files per account.
+ *
+ * @param v2Result - The v2 rollup result to export
+ * @param format - 'parquet' or 'arrow'
+ * @param options - Export options
+ * @returns Array of split results, one per account
+ */
+export function exportColumnarByAccount(
+  v2Result: FinalResultV2,
+  format: ColumnarFormat,
+  options: ColumnarExportOptions = {}
+): SplitColumnarResult[] {
+  const results: SplitColumnarResult[] = [];
+
+  for (const account of v2Result.accounts) {
+    const accountType = account.account.accountType.toLowerCase();
+    const last4 = account.account.accountNumberMasked.replace(/\*/g, '').slice(-4);
+    const filename = `${accountFileStem(account.account)}.${format}`;
+    const content = format === 'parquet'
+      ? encodeParquet([account], options)
+      : encodeArrow([account], options);
+
+    results.push({
+      accountType,
+      accountLast4: last4,
+      filename,
+      content,
+    });
+  }
+
+  return results;
+}
@@ -6,9 +6,11 @@ export {
   toFinalResultV1,
   toFinalResultV2,
   toFinalResult,
+  statementsFromFinalResult,
   type CanonicalOutput,
   type FinalResultV1,
   type FinalResultV2,
+  type CreditCycle,
 } from './adapters.js';
 
 export {
@@ -17,7 +19,10 @@ export {
   calculateIncomeVsExpenses,
   calculateLenderSummary,
   calculateTaxPreparation,
+  resolveBaseCurrency,
   type AnalyticsResult,
+  type AnalyticsOptions,
+  type CurrencyAnalytics,
   type QuarterlyCashFlow,
   type IncomeVsExpenses,
   type LenderSummary,
@@ -28,11 +33,14 @@ export {
 export {
   checkIntegrity,
   checkStatementIntegrity,
+  checkDailyBalances,
   addTraceability,
   DEFAULT_EPSILON,
   type IntegrityCheckResult,
   type StatementIntegrityResult,
   type BalanceDiscrepancy,
+  type DailyBalanceCheck,
+  type DailyBalanceDiscrepancy,
 } from './integrity.js';
 
 export {
@@ -51,6 +59,35 @@ export {
   type SplitCsvResult,
 } from './csv-exporter.js';
 
+export {
+  exportQif,
+  exportAccountQif,
+  exportQifByAccount,
+  type QifExportOptions,
+  type SplitQifResult,
+} from './qif-exporter.js';
+
+export {
+  exportBeancount,
+  exportLedger,
+  parseAccountingMapping,
+  type AccountingMapping,
+  type PlainTextExportOptions,
+} from './plaintext-exporter.js';
+
+export {
+  exportParquet,
+  exportArrow,
+  exportColumnarByAccount,
+  TRANSACTION_COLUMNS,
+  COLUMNAR_SCHEMA_VERSION,
+  type ColumnarFormat,
+  type ColumnarExportOptions,
+  type ColumnDefinition,
+  type ColumnType,
+  type SplitColumnarResult,
+} from './columnar-exporter.js';
+
 export {
   detectRecurring,
   detectRecurringFromStatements,
@@ -4,11 +4,16 @@
  * Implements deterministic validation per statement period:
  * BeginningBalance + TotalDeposits - (ATM/Debit + Other + Checks + Fees) = EndingBalance
  * 
+ * When the statement lists daily ledger balances, the transaction flow is also
+ * replayed day by day, so a dropped or duplicated transaction is pinned to the
+ * day it happened rather than only showing up as a period-level delta.
+ *
  * Discrepancies are flagged explicitly, never silently fixed.
  */
 
 import type { ParsedStatement } from '@findata/types';
 import { computeStatementId, computePeriodLabel } from '@findata/types';
+import { calculateEndingBalance, fromMinorUnits, sumAmounts, toDecimalString, toMinorUnits } from '@findata/types';
 
 /**
  * Balance discrepancy diagnostic
@@ -29,6 +34,30 @@ export interface BalanceDiscrepancy {
   message: string;
 }
 
+/**
+ * A day whose ledger balance the transactions do not reproduce
+ */
+export interface DailyBalanceDiscrepancy {
+  date: string;
+  statementBalance: number;
+  calculatedBalance: number;
+  /** Difference that first appears on this day (statement minus calculated) */
+  delta: number;
+  /** Total difference at the end of this day, including earlier days */
+  cumulativeDelta: number;
+  severity: 'warning' | 'error';
+  message: string;
+}
+
+/**
+ * Day-by-day replay of the transactions against the daily ledger balances
+ */
+export interface DailyBalanceCheck {
+  passed: boolean;
+  daysChecked: number;
+  discrepancies: DailyBalanceDiscrepancy[];
+}
+
 /**
  * Statement integrity check result
  */
@@ -50,6 +79,8 @@ export interface StatementIntegrityResult {
     expectedCount: number;
     actualCount: number;
   };
+  /** Present when the statement lists daily ledger balances */
+  dailyBalanceCheck?: DailyBalanceCheck;
   discrepancies: BalanceDiscrepancy[];
 }
 
@@ -63,19 +94,87 @@ export interface IntegrityCheckResult {
   statementResults: StatementIntegrityResult[];
   summary: {
     totalDiscrepancies: number;
+    /** Sum of the balance deltas; 0 when the statements mix currencies */
     totalDelta: number;
+    /** Sum of the balance deltas per currency, present when the statements mix currencies */
+    totalDeltaByCurrency?: Record<string, number>;
     warnings: string[];
     epsilon?: number;
   };
 }
 
-/** Default epsilon for balance reconciliation */
-export const DEFAULT_EPSILON = 0.01;
+/**
+ * Default epsilon for balance reconciliation. Balances are compared in
+ * integer minor units, so no tolerance is needed for float drift.
+ */
+export const DEFAULT_EPSILON = 0;
+
+/**
+ * Replay the transactions against the statement's daily ledger balances.
+ *
+ * Each listed balance must equal the beginning balance plus every transaction
+ * dated on or before that day. A discrepancy is reported only on days where
+ * the difference changes, so a single missing or duplicated transaction shows
+ * up once, on its own day, instead of on every later day.
+ *
+ * @param statement - The parsed statement to check
+ * @param epsilon - Tolerance for balance comparison (default: 0, exact)
+ * @returns null if the statement has no daily balances
+ */
+export function checkDailyBalances(
+  statement: ParsedStatement,
+  epsilon: number = DEFAULT_EPSILON
+): DailyBalanceCheck | null {
+  const dailyBalances = statement.dailyBalances ?? [];
+  if (dailyBalances.length === 0) return null;
+
+  const currency = statement.account.currency;
+  const days = [...dailyBalances].sort((a, b) => a.date.localeCompare(b.date));
+  const transactions = [...statement.transactions].sort((a, b) => a.date.localeCompare(b.date));
+
+  const discrepancies: DailyBalanceDiscrepancy[] = [];
+  let runningMinor = toMinorUnits(statement.summary.startingBalance, currency);
+  let previousDeltaMinor = 0;
+  let next = 0;
+
+  for (const day of days) {
+    while (next < transactions.length && (transactions[next]?.date ?? '') <= day.date) {
+      runningMinor += toMinorUnits(transactions[next]?.amount ?? 0, currency);
+      next++;
+    }
+
+    const cumulativeDeltaMinor = toMinorUnits(day.balance, currency) - runningMinor;
+    const delta = fromMinorUnits(cumulativeDeltaMinor - previousDeltaMinor, currency);
+    previousDeltaMinor = cumulativeDeltaMinor;
+
+    if (Math.abs(delta) <= epsilon) continue;
+
+    const calculatedBalance = fromMinorUnits(runningMinor, currency);
+    const hint = delta > 0
+      ? 'a credit may be missing or a debit duplicated'
+      : 'a debit may be missing or a credit duplicated';
+    discrepancies.push({
+      date: day.date,
+      statementBalance: day.balance,
+      calculatedBalance,
+      delta,
+      cumulativeDelta: fromMinorUnits(cumulativeDeltaMinor, currency),
+      severity: Math.abs(delta) > 1.00 ? 'error' : 'warning',
+      message: `Daily balance mismatch on ${day.date}: statement shows ${day.balance}, transactions give ${calculatedBalance} (delta: ${delta}); ${hint} on this day`,
+    });
+  }
+
+  return {
+    passed: discrepancies.length === 0,
+    daysChecked: days.length,
+    discrepancies,
+  };
+}
 
 /**
  * Check accounting integrity for a single statement
  * @param statement - The parsed statement to check
- * @param epsilon - Tolerance for balance comparison (default: 0.01)
+ * @param epsilon - Tolerance for balance comparison (default: 0, exact)
  */
 export function checkStatementIntegrity(
   statement: ParsedStatement,
@@ -88,11 +187,19 @@ export function checkStatementIntegrity(
   const endingBalance = statement.summary.endingBalance;
   const totalCredits = statement.summary.totalCredits;
   const totalDebits = statement.summary.totalDebits;
+  const currency = statement.account.currency;
+  const isCreditCard = statement.account.accountType === 'credit';
   
   // Calculate expected ending balance
   // EndingBalance = BeginningBalance + Credits - Debits
-  const calculatedEnding = beginningBalance + totalCredits - totalDebits;
-  const delta = Math.round((endingBalance - calculatedEnding) * 100) / 100;
+  // Credit cards report the amount owed, so charges raise it and payments lower it
+  const calculatedEnding = isCreditCard
+    ? calculateEndingBalance(beginningBalance, totalDebits, totalCredits, currency)
+    : calculateEndingBalance(beginningBalance, totalCredits, totalDebits, currency);
+  const delta = fromMinorUnits(
+    toMinorUnits(endingBalance, currency) - toMinorUnits(calculatedEnding, currency),
+    currency
+  );
   
   const balancePassed = Math.abs(delta) <= epsilon;
   
@@ -100,6 +207,9 @@ export function checkStatementIntegrity(
   const actualCount = statement.transactions.length;
   const expectedCount = actualCount; // We don't have a separate expected count
   const transactionPassed = true; // Always passes unless we have external validation
+
+  const dailyBalanceCheck = checkDailyBalances(statement, epsilon);
+  const dailyPassed = dailyBalanceCheck?.passed ?? true;
   
   const discrepancies: BalanceDiscrepancy[] = [];
   
@@ -119,14 +229,16 @@ export function checkStatementIntegrity(
         calculatedEnding,
       },
       severity,
-      message: `Balance mismatch: ${beginningBalance} + ${totalCredits} - ${totalDebits} = ${calculatedEnding}, but statement shows ${endingBalance} (delta: ${delta})`,
+      message: isCreditCard
+        ? `Balance mismatch: ${beginningBalance} - ${totalCredits} + ${totalDebits} = ${calculatedEnding}, but statement shows ${endingBalance} (delta: ${delta})`
+        : `Balance mismatch: ${beginningBalance} + ${totalCredits} - ${totalDebits} = ${calculatedEnding}, but statement shows ${endingBalance} (delta: ${delta})`,
     });
   }
   
   return {
     statementId,
     periodLabel,
-    isValid: balancePassed && transactionPassed,
+    isValid: balancePassed && transactionPassed && dailyPassed,
     balanceCheck: {
       passed: balancePassed,
       beginningBalance,
@@ -141,6 +253,7 @@ export function checkStatementIntegrity(
       expectedCount,
       actualCount,
     },
+    ...(dailyBalanceCheck !== null ? { dailyBalanceCheck } : {}),
     discrepancies,
   };
 }
@@ -148,7 +261,7 @@ export function checkStatementIntegrity(
 /**
  * Check accounting integrity for all statements
  * @param statements - Array of parsed statements to check
- * @param epsilon - Tolerance for balance comparison (default: 0.01)
+ * @param epsilon - Tolerance for balance comparison (default: 0, exact)
  */
 export function checkIntegrity(
   statements: ParsedStatement[],
@@ -158,14 +271,40 @@ export function checkIntegrity(
   
   const statementsWithIssues = statementResults.filter(r => !r.isValid).length;
   const allDiscrepancies = statementResults.flatMap(r => r.discrepancies);
-  const totalDelta = allDiscrepancies.reduce((sum, d) => sum + d.delta, 0);
+
+  // Deltas are only summed within a currency: adding USD to JPY means nothing.
+  const deltasByCurrency = new Map<string, number[]>();
+  statements.forEach((stmt, i) => {
+    const currency = stmt.account.currency;
+    const deltas = deltasByCurrency.get(currency) ?? [];
+    deltas.push(...(statementResults[i]?.discrepancies ?? []).map((d) => d.delta));
+    deltasByCurrency.set(currency, deltas);
+  });
+  const totalDeltaByCurrency: Record<string, number> = {};
+  for (const [currency, deltas] of deltasByCurrency) {
+    totalDeltaByCurrency[currency] = sumAmounts(deltas, currency);
+  }
+  const mixedCurrencies = deltasByCurrency.size > 1;
+  const totalDelta = mixedCurrencies ? 0 : Object.values(totalDeltaByCurrency)[0] ?? 0;
   
   const warnings: string[] = [];
   if (statementsWithIssues > 0) {
     warnings.push(`${statementsWithIssues} statement(s) have balance discrepancies`);
   }
-  if (Math.abs(totalDelta) > 1) {
-    warnings.push(`Total cumulative delta: $${totalDelta.toFixed(2)}`);
+  const dailyDiscrepancies = statementResults.flatMap((r) => r.dailyBalanceCheck?.discrepancies ?? []);
+  if (dailyDiscrepancies.length > 0) {
+    warnings.push(
+      `Daily balances diverge on ${dailyDiscrepancies.map((d) => d.date).join(', ')}`
+    );
+  }
+  for (const [currency, delta] of Object.entries(totalDeltaByCurrency)) {
+    if (Math.abs(delta) > 1) {
+      warnings.push(
+        currency === 'USD'
+          ? `Total cumulative delta: $${toDecimalString(delta, currency)}`
+          : `Total cumulative delta: ${toDecimalString(delta, currency)} ${currency}`
+      );
+    }
   }
   
   return {
@@ -175,7 +314,8 @@ export function checkIntegrity(
     statementResults,
     summary: {
       totalDiscrepancies: allDiscrepancies.length,
-      totalDelta: Math.round(totalDelta * 100) / 100,
+      totalDelta,
+      ...(mixedCurrencies ? { totalDeltaByCurrency } : {}),
       warnings,
       epsilon,
     },
@@ -0,0 +1,286 @@
+/**
+ * QIF Exporter Module
+ *
+ * Converts v2 rollup output to QIF (Quicken Interchange Format) text for
+ * Quicken versions and desktop tools that cannot import OFX.
+ */
+
+import { accountFileStem, type FinalResultV2 } from './adapters.js';
+import { toDecimalString } from '@findata/types';
+
+/**
+ * QIF account types used in `!Type:` and `!Account` headers
+ */
+type QifAccountType = 'Bank' | 'CCard';
+
+/**
+ * Options for QIF export
+ */
+export interface QifExportOptions {
+  /**
+   * Precede each account with an `!Account` block so Quicken routes the
+   * transactions to the matching account (default: true)
+   */
+  includeAccountHeader?: boolean;
+  /** Write the statement description as a memo when it differs from the payee (default: true) */
+  includeMemo?: boolean;
+}
+
+/**
+ * Transaction data for QIF export
+ */
+interface QifTransaction {
+  date: string;
+  description: string;
+  merchant: string;
+  amount: number;
+  direction: 'credit' | 'debit';
+  category: string;
+  subcategory: string | null;
+  bankReference?: {
+    checkNumber?: string | null;
+  };
+}
+
+/**
+ * Map an account type to its QIF type
+ */
+function getQifAccountType(accountType: string): QifAccountType {
+  return accountType.toLowerCase() === 'credit' ? 'CCard' : 'Bank';
+}
+
+/**
+ * Format a date string (YYYY-MM-DD) to QIF date format (MM/DD/YYYY)
+ */
+function formatQifDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Format amount for QIF (signed, credit positive, debit negative)
+ */
+function formatQifAmount(amount: number, direction: 'credit' | 'debit', currency: string): string {
+  const absAmount = Math.abs(amount);
+  const signedAmount = direction === 'credit' ? absAmount : -absAmount;
+  return toDecimalString(signedAmount, currency);
+}
+
+/**
+ * QIF fields are line-based; keep values on a single line
+ */
+function sanitizeQifText(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Category names may not contain ':' (subcategory separator) or '/' (class separator)
+ */
+function sanitizeQifCategoryName(value: string): string {
+  return sanitizeQifText(value).replace(/[:/]/g, ' ').replace(/\s+/g, ' ');
+}
+
+/**
+ * Build the `L` line value ("Category:Subcategory"), or null for uncategorized transactions
+ */
+function formatQifCategory(category: string, subcategory: string | null): string | null {
+  if (category === '' || category === 'Uncategorized') {
+    return null;
+  }
+  const name = sanitizeQifCategoryName(category);
+  if (subcategory !== null && subcategory !== '') {
+    return `${name}:${sanitizeQifCategoryName(subcategory)}`;
+  }
+  return name;
+}
+
+/**
+ * Check number from the bank reference, falling back to "CHECK #1234" descriptions
+ */
+function getCheckNumber(txn: QifTransaction): string | null {
+  const fromReference = txn.bankReference?.checkNumber;
+  if (fromReference !== undefined && fromReference !== null && fromReference !== '') {
+    return fromReference;
+  }
+  const checkMatch = txn.description.match(/CHECK\s*#?\s*(\d+)/i);
+  return checkMatch?.[1] ?? null;
+}
+
+/**
+ * Generate QIF for a single transaction
+ */
+function generateTransactionQif(txn: QifTransaction, currency: string, includeMemo: boolean): string {
+  const payee = sanitizeQifText(txn.merchant !== '' ? txn.merchant : txn.description);
+  const lines = [
+    `D${formatQifDate(txn.date)}`,
+    `T${formatQifAmount(txn.amount, txn.direction, currency)}`,
+  ];
+
+  const checkNumber = getCheckNumber(txn);
+  if (checkNumber !== null) {
+    lines.push(`N${checkNumber}`);
+  }
+
+  lines.push(`P${payee}`);
+
+  const description = sanitizeQifText(txn.description);
+  if (includeMemo && description !== payee) {
+    lines.push(`M${description}`);
+  }
+
+  const category = formatQifCategory(txn.category, txn.subcategory);
+  if (category !== null) {
+    lines.push(`L${category}`);
+  }
+
+  lines.push('^');
+  return lines.join('\n');
+}
+
+/**
+ * Generate the `!Account` block for an account
+ */
+function generateAccountHeaderQif(account: FinalResultV2['accounts'][number]): string {
+  const qifType = getQifAccountType(account.account.accountType);
+  const last4 = account.account.accountNumberMasked.replace(/\*/g, '').slice(-4);
+  const accountType = account.account.accountType.charAt(0).toUpperCase() + account.account.accountType.slice(1);
+  const name = sanitizeQifText(`${account.account.institution} ${accountType} ${last4}`);
+
+  return [
+    '!Account',
+    `N${name}`,
+    `T${qifType}`,
+    `/${formatQifDate(account.account.statementPeriod.end)}`,
+    `$${toDecimalString(account.summary.endingBalance, account.account.currency)}`,
+    '^',
+  ].join('\n');
+}
+
+/**
+ * Generate QIF for an account: optional `!Account` block, `!Type:` header and transactions
+ */
+function generateAccountQif(
+  account: FinalResultV2['accounts'][number],
+  includeAccountHeader: boolean,
+  includeMemo: boolean
+): string {
+  // Sort transactions by date for deterministic output
+  const sortedTransactions = [...account.transactions].sort((a, b) => {
+    const dateCompare = a.date.localeCompare(b.date);
+    if (dateCompare !== 0) return dateCompare;
+    return a.transactionId.localeCompare(b.transactionId);
+  });
+
+  const parts: string[] = [];
+  if (includeAccountHeader) {
+    parts.push(generateAccountHeaderQif(account));
+  }
+  parts.push(`!Type:${getQifAccountType(account.account.accountType)}`);
+  for (const txn of sortedTransactions) {
+    parts.push(generateTransactionQif(txn, account.account.currency, includeMemo));
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Export v2 rollup to QIF format.
+ *
+ * Multiple accounts are written with `!Account` blocks between
+ * `!Option:AutoSwitch` / `!Clear:AutoSwitch` so a single file imports into
+ * several Quicken accounts.
+ *
+ * @param v2Result - The v2 rollup result to export
+ * @param options - Export options
+ * @returns QIF text string
+ */
+export function exportQif(
+  v2Result: FinalResultV2,
+  options: QifExportOptions = {}
+): string {
+  const {
+    includeAccountHeader = true,
+    includeMemo = true,
+  } = options;
+
+  const parts: string[] = [];
+
+  if (includeAccountHeader) {
+    parts.push('!Option:AutoSwitch');
+  }
+
+  for (const account of v2Result.accounts) {
+    parts.push(generateAccountQif(account, includeAccountHeader, includeMemo));
+  }
+
+  if (includeAccountHeader) {
+    parts.push('!Clear:AutoSwitch');
+  }
+
+  return `${parts.join('\n')}\n`;
+}
+
+/**
+ * Export a single account block to QIF format.
+ *
+ * Without an account header the file imports into whichever account the
+ * user picks in Quicken, which is what most single-account imports expect.
+ *
+ * @param accountBlock - Single account block from v2 result
+ * @param options - Export options (includeAccountHeader defaults to false)
+ * @returns QIF text string
+ */
+export function exportAccountQif(
+  accountBlock: FinalResultV2['accounts'][number],
+  options: QifExportOptions = {}
+): string {
+  const {
+    includeAccountHeader = false,
+    includeMemo = true,
+  } = options;
+
+  return `${generateAccountQif(accountBlock, includeAccountHeader, includeMemo)}\n`;
+}
+
+/**
+ * Result of split-by-account export
+ */
+export interface SplitQifResult {
+  /** Account type (e.g., 'checking', 'credit') */
+  accountType: string;
+  /** Last 4 digits of account number */
+  accountLast4: string;
+  /** Suggested filename (e.g., 'boa_checking_3529.qif') */
+  filename: string;
+  /** QIF content for this account */
+  content: string;
+}
+
+/**
+ * Export v2 rollup to separate QIF files per account.
+ *
+ * @param v2Result - The v2 rollup result to export
+ * @param options - Export options
+ * @returns Array of split results, one per account
+ */
+export function exportQifByAccount(
+  v2Result: FinalResultV2,
+  options: QifExportOptions = {}
+): SplitQifResult[] {
+  const results: SplitQifResult[] = [];
+
+  for (const account of v2Result.accounts) {
+    const accountType = account.account.accountType.toLowerCase();
+    const last4 = account.account.accountNumberMasked.replace(/\*/g, '').slice(-4);
+    const filename = `${accountFileStem(account.account)}.qif`;
+    const content = exportAccountQif(account, options);
+
+    results.push({
+      accountType,
+      accountLast4: last4,
+      filename,
+      content,
+    });
+  }
+
+  return results;
+}
@@ -1,6 +1,7 @@
 // PDF extraction
 export {
   extractPDF,
+  extractPDFFromBuffer,
   findLinesByPattern,
   extractTextBetweenMarkers,
 } from './pdf-extractor.js';
@@ -15,7 +16,17 @@ export {
   buildLinesForPage,
 } from './layout-pdfjs.js';
 
-export type { TextItem, LayoutExtractedPDF } from './layout-pdfjs.js';
+export type { TextItem, LayoutExtractedPDF, LayoutExtractOptions } from './layout-pdfjs.js';
+
+// Encrypted PDFs
+export { PdfPasswordError, isPdfPasswordError } from './pdf-password.js';
+
+export type { PdfPasswordOptions, PdfPasswordReason } from './pdf-password.js';
+
+// OCR fallback for scanned pages
+export { recognizePages, ocrLinesToTextItems, DEFAULT_OCR_DPI } from './ocr.js';
+
+export type { OcrOptions, OcrPageResult, OcrLine, OcrWord, OcrBox } from './ocr.js';
 
 // Layout utilities (rows + columns)
 export * from './layout/index.js';
@@ -6,6 +6,9 @@
  * reliable row/column reconstruction for table parsing.
  */
 import { readFile } from 'fs/promises';
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { recognizePages, type OcrOptions } from './ocr.js';
+import { collectPasswords, PdfPasswordError, type PdfPasswordOptions } from './pdf-password.js';
 
 /**
  * A text item with positional information extracted from PDF.
@@ -23,6 +26,8 @@ export interface TextItem {
   height: number;
   /** Page number (1-indexed) */
   page: number;
+  /** Recognition confidence (0-1) for items read with OCR; absent for text-layer items */
+  ocrConfidence?: number;
 }
 
 /**
@@ -33,6 +38,10 @@ export interface LayoutExtractedPDF {
   items: TextItem[];
   /** Total number of pages */
   totalPages: number;
+  /** Pages without a text layer that were read with OCR */
+  ocrPages: Array<{ page: number; confidence: number }>;
+  /** Opened with a password */
+  encrypted: boolean;
   /** Metadata from the PDF */
   metadata: {
     title?: string | undefined;
@@ -41,6 +50,14 @@ export interface LayoutExtractedPDF {
   };
 }
 
+/**
+ * Options for layout-aware extraction.
+ */
+export interface LayoutExtractOptions extends OcrOptions, PdfPasswordOptions {
+  /** OCR pages that have no text layer, e.g. scanned statements (default: true) */
+  ocr?: boolean;
+}
+
 /**
  * Internal interface for pdfjs text items.
  */
@@ -57,30 +74,76 @@ interface PdfjsTextItemLike {
  * @param filePath - Path to the PDF file
  * @returns Promise resolving to extracted items with positions
  */
-export async function extractTextItems(filePath: string): Promise<LayoutExtractedPDF> {
+export async function extractTextItems(
+  filePath: string,
+  options: LayoutExtractOptions = {}
+): Promise<LayoutExtractedPDF> {
   const dataBuffer = await readFile(filePath);
-  return extractTextItemsFromBuffer(new Uint8Array(dataBuffer));
+  return extractTextItemsFromBuffer(new Uint8Array(dataBuffer), options);
 }
 
 /**
- * Extract text items from a buffer.
+ * pdfjs PasswordException codes (PasswordResponses)
+ */
+const NEED_PASSWORD = 1;
+const INCORRECT_PASSWORD = 2;
+
+function getPasswordExceptionCode(error: unknown): number | null {
+  if (!(error instanceof Error) || error.name !== 'PasswordException') return null;
+  const code = (error as Error & { code?: unknown }).code;
+  return code === NEED_PASSWORD || code === INCORRECT_PASSWORD ? code : null;
+}
+
+/**
+ * Open a PDF, trying each known password and then `options.onPassword`
+ * until one works. Throws PdfPasswordError when the PDF stays locked.
  */
-export async function extractTextItemsFromBuffer(buffer: Buffer | Uint8Array): Promise<LayoutExtractedPDF> {
+async function openDocument(data: Uint8Array, options: PdfPasswordOptions): Promise<{ document: PDFDocumentProxy; encrypted: boolean }> {
   // Dynamic import for pdfjs-dist (ESM compatibility)
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
   const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
-  
+  const candidates = collectPasswords(options);
+  let password: string | undefined;
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      // pdfjs takes ownership of the buffer, so each attempt gets a copy
+      const loadingTask = pdfjs.getDocument({
+        data: new Uint8Array(data),
+        useSystemFonts: true,
+        ...(password !== undefined ? { password } : {}),
+      });
+      return { document: await loadingTask.promise, encrypted: password !== undefined };
+    } catch (error) {
+      const code = getPasswordExceptionCode(error);
+      if (code === null) throw error;
+
+      const reason = code === NEED_PASSWORD ? 'missing' : 'incorrect';
+      const next = candidates[attempt] ?? (options.onPassword !== undefined ? await options.onPassword(reason) : null);
+      attempt++;
+      if (next === null || next === undefined) {
+        throw new PdfPasswordError(reason);
+      }
+      password = next;
+    }
+  }
+}
+
+/**
+ * Extract text items from a buffer.
+ * Pages with no text layer are rendered and read with OCR unless `options.ocr` is false.
+ * Encrypted PDFs are opened with `options.password` / `options.passwords` /
+ * `options.onPassword`; PdfPasswordError is thrown when none works.
+ */
+export async function extractTextItemsFromBuffer(
+  buffer: Buffer | Uint8Array,
+  options: LayoutExtractOptions = {}
+): Promise<LayoutExtractedPDF> {
   const data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
   
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-  const loadingTask = pdfjs.getDocument({
-    data,
-    useSystemFonts: true,
-  });
-  
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
-  const pdfDocument = await loadingTask.promise;
+  const { document: pdfDocument, encrypted } = await openDocument(data, options);
   const items: TextItem[] = [];
+  const imageOnlyPages: Parameters<typeof recognizePages>[0] = [];
   
   // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
   const numPages: number = pdfDocument.numPages;
@@ -93,6 +156,7 @@ export async function extractTextItemsFromBuffer(buffer: Buffer | Uint8Array): P
     
     // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
     const contentItems = textContent.items as unknown[];
+    const itemCountBefore = items.length;
     
     for (const item of contentItems) {
       // Type guard: only process actual text items (not marked content)
@@ -119,6 +183,21 @@ export async function extractTextItemsFromBuffer(buffer: Buffer | Uint8Array): P
         page: pageNum,
       });
     }
+
+    if (items.length === itemCountBefore) {
+      imageOnlyPages.push({ pageNumber: pageNum, page });
+    }
+  }
+
+  // Scanned pages have no text layer: read them with OCR
+  const ocrPages: LayoutExtractedPDF['ocrPages'] = [];
+  if (options.ocr !== false && imageOnlyPages.length > 0) {
+    const ocrResults = await recognizePages(imageOnlyPages, options);
+    for (const result of ocrResults) {
+      if (result.items.length === 0) continue;
+      items.push(...result.items);
+      ocrPages.push({ page: result.pageNumber, confidence: result.confidence });
+    }
   }
   
   // Extract metadata safely
@@ -143,6 +222,8 @@ export async function extractTextItemsFromBuffer(buffer: Buffer | Uint8Array): P
   return {
     items,
     totalPages: numPages,
+    ocrPages,
+    encrypted,
     metadata: {
       title,
       author,
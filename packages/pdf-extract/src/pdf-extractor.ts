@@ -1,16 +1,20 @@
-import { extractTextItemsFromBuffer, buildLinesForPage } from './layout-pdfjs.js';
+import { extractTextItemsFromBuffer, buildLinesForPage, type LayoutExtractOptions } from './layout-pdfjs.js';
 import { readFile } from 'fs/promises';
 
 export interface ExtractedPage {
   pageNumber: number;
   text: string;
   lines: string[];
+  /** Mean OCR confidence (0-1), set only for scanned pages read with OCR */
+  ocrConfidence?: number;
 }
 
 export interface ExtractedPDF {
   pages: ExtractedPage[];
   fullText: string;
   totalPages: number;
+  /** Set when the PDF was opened with a password */
+  encrypted?: boolean;
   metadata: {
     title?: string | undefined;
     author?: string | undefined;
@@ -21,20 +25,29 @@ export interface ExtractedPDF {
 /**
  * Extract PDF using layout-aware pdfjs-dist extraction.
  * This properly handles column gaps to prevent text from being "glued" together.
+ * Scanned pages without a text layer are read with OCR (disable with `ocr: false`).
  */
-export async function extractPDF(filePath: string): Promise<ExtractedPDF> {
-  const dataBuffer = await readFile(filePath);
-  const layoutResult = await extractTextItemsFromBuffer(new Uint8Array(dataBuffer));
+export async function extractPDF(filePath: string, options: LayoutExtractOptions = {}): Promise<ExtractedPDF> {
+  return extractPDFFromBuffer(await readFile(filePath), options);
+}
+
+/**
+ * Same as extractPDF, for PDF contents already in memory (e.g. read out of a ZIP archive).
+ */
+export async function extractPDFFromBuffer(buffer: Buffer | Uint8Array, options: LayoutExtractOptions = {}): Promise<ExtractedPDF> {
+  const layoutResult = await extractTextItemsFromBuffer(new Uint8Array(buffer), options);
 
   // Build pages using layout-aware line reconstruction
   const pages: ExtractedPage[] = [];
   for (let pageNum = 1; pageNum <= layoutResult.totalPages; pageNum++) {
     const lines = buildLinesForPage(layoutResult.items, pageNum);
     const text = lines.join('\n');
+    const ocrPage = layoutResult.ocrPages.find((p) => p.page === pageNum);
     pages.push({
       pageNumber: pageNum,
       text,
       lines,
+      ...(ocrPage !== undefined ? { ocrConfidence: ocrPage.confidence } : {}),
     });
   }
 
@@ -44,6 +57,7 @@ export async function extractPDF(filePath: string): Promise<ExtractedPDF> {
     pages,
     fullText,
     totalPages: layoutResult.totalPages,
+    ...(layoutResult.encrypted ? { encrypted: true } : {}),
     metadata: layoutResult.metadata,
   };
 }
@@ -0,0 +1,62 @@
+/**
+ * Password handling for encrypted PDFs.
+ *
+ * Banks often protect downloaded statements with a password such as the
+ * last four digits of the SSN. Extraction tries the known passwords in order
+ * and can ask the caller (e.g. an interactive prompt) for more; when none
+ * opens the file it throws `PdfPasswordError`, so callers can tell an
+ * encrypted file apart from one that failed to parse.
+ */
+
+/**
+ * Why an encrypted PDF could not be opened: no password was available, or
+ * every password tried was rejected.
+ */
+export type PdfPasswordReason = 'missing' | 'incorrect';
+
+/**
+ * Password options for opening encrypted PDFs.
+ */
+export interface PdfPasswordOptions {
+  /** Password to open the PDF with */
+  password?: string;
+  /** Passwords to try, in order, after `password` */
+  passwords?: string[];
+  /** Asked for another password once the others fail; return null to give up */
+  onPassword?: (reason: PdfPasswordReason) => Promise<string | null>;
+}
+
+/**
+ * Thrown when a PDF is encrypted and no available password opens it.
+ */
+export class PdfPasswordError extends Error {
+  readonly reason: PdfPasswordReason;
+
+  constructor(reason: PdfPasswordReason) {
+    super(
+      reason === 'missing'
+        ? 'PDF is password-protected and no password was provided'
+        : 'PDF is password-protected and none of the provided passwords opened it'
+    );
+    this.name = 'PdfPasswordError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Type guard for PdfPasswordError.
+ */
+export function isPdfPasswordError(error: unknown): error is PdfPasswordError {
+  return error instanceof PdfPasswordError;
+}
+
+/**
+ * Candidate passwords in the order they are tried.
+ */
+export function collectPasswords(options: PdfPasswordOptions): string[] {
+  const candidates = [
+    ...(options.password !== undefined ? [options.password] : []),
+    ...(options.passwords ?? []),
+  ];
+  return [...new Set(candidates)];
+}
@@ -10,7 +10,8 @@
 
 import type { PlaidTransaction, PlaidAccount } from '@findata/types';
 import type { ReconciliationResult } from './reconcile.js';
-import { mapAccountType } from './normalizer.js';
+import { mapAccountType, resolvePlaidCurrency } from './normalizer.js';
+import { DEFAULT_CURRENCY } from '@findata/types';
 
 /** Shape of a transaction in result.json (v2 format) */
 export interface ResultTransaction {
@@ -23,6 +24,7 @@ export interface ResultTransaction {
   category: string;
   subcategory: string | null;
   confidence: number;
+  currency?: string;
   statementId: string;
   periodLabel: string;
   transactionId: string;
@@ -146,6 +148,7 @@ function plaidToResultTransaction(
   const categoryMapping = mapPlaidPrimaryCategory(
     plaidTx.personalFinanceCategory?.primary
   );
+  const currency = resolvePlaidCurrency(plaidTx.isoCurrencyCode, plaidTx.unofficialCurrencyCode);
 
   return {
     date: plaidTx.date,
@@ -157,6 +160,7 @@ function plaidToResultTransaction(
     category: categoryMapping.category,
     subcategory: categoryMapping.subcategory,
     confidence: 0.9,
+    ...(currency !== null ? { currency } : {}),
     statementId,
     periodLabel,
     transactionId: `plaid_${plaidTx.transactionId}`,
@@ -332,7 +336,10 @@ export function mergePlaidData(
           accountType: plaidType,
           accountNumberMasked: `****${mask}`,
           statementPeriod: { start: startDate, end: endDate },
-          currency: 'USD',
+          currency: resolvePlaidCurrency(
+            plaidAccount?.balances.isoCurrencyCode,
+            plaidAccount?.balances.unofficialCurrencyCode
+          ) ?? DEFAULT_CURRENCY,
         },
         summary: {
           startingBalance: 0,
@@ -11,9 +11,9 @@
 /* eslint-disable @typescript-eslint/strict-boolean-expressions */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-import { createHash } from 'crypto';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { FinalResultV2 } from '@findata/output';
+import type { CreditDetails } from '@findata/types';
 import { PARSER_VERSION } from '@findata/types';
 
 type SupabaseClientAny = SupabaseClient<any, any, any>;
@@ -184,6 +184,7 @@ export interface UpsertStatementInput {
   transactionCount?: number;
   pageStart?: number;
   pageEnd?: number;
+  creditDetails?: CreditDetails;
   provenance?: Record<string, unknown>;
   metadata?: Record<string, unknown>;
 }
@@ -193,6 +194,37 @@ export interface UpsertStatementResult {
   isNew: boolean;
 }
 
+export interface StatementCreditColumns {
+  credit_limit: number | null;
+  available_credit: number | null;
+  payment_due_date: string | null;
+  minimum_payment_due: number | null;
+  interest_charged: number | null;
+  fees_charged: number | null;
+  credit_details: Pick<CreditDetails, 'aprs' | 'rewards' | 'latePaymentWarning'>;
+}
+
+/**
+ * Map credit card details onto the statements credit columns.
+ * Scalar figures get their own columns; APRs, rewards and the late-payment
+ * warning are kept together in credit_details.
+ */
+export function toStatementCreditColumns(details: CreditDetails): StatementCreditColumns {
+  return {
+    credit_limit: details.creditLimit,
+    available_credit: details.availableCredit,
+    payment_due_date: details.paymentDueDate,
+    minimum_payment_due: details.minimumPaymentDue,
+    interest_charged: details.interestCharged,
+    fees_charged: details.feesCharged,
+    credit_details: {
+      aprs: details.aprs,
+      rewards: details.rewards,
+      latePaymentWarning: details.latePaymentWarning,
+    },
+  };
+}
+
 /**
  * Create or update a statement using statementId for deduplication.
  */
@@ -221,6 +253,7 @@ export async function upsertStatement(
         transaction_count: input.transactionCount,
         page_start: input.pageStart,
         page_end: input.pageEnd,
+        ...(input.creditDetails ? toStatementCreditColumns(input.creditDetails) : {}),
         provenance: input.provenance ?? {},
         metadata: input.metadata ?? {},
       })
@@ -250,6 +283,7 @@ export async function upsertStatement(
       transaction_count: input.transactionCount,
       page_start: input.pageStart,
       page_end: input.pageEnd,
+      ...(input.creditDetails ? toStatementCreditColumns(input.creditDetails) : {}),
       provenance: input.provenance ?? {},
       metadata: input.metadata ?? {},
     })
@@ -495,6 +529,8 @@ export async function importV2Result(
         }
       }
 
+      const creditCycle = account.creditCycles?.find((c) => c.statementId === txn.statementId);
+
       // Upsert statement
       const statementResult = await upsertStatement(client, userId, {
         accountId: accountResult.accountId,
@@ -502,11 +538,12 @@ export async function importV2Result(
         periodStart,
         periodEnd,
         statementKind: account.account.accountType,
-        startingBalance: account.summary.startingBalance,
-        endingBalance: account.summary.endingBalance,
+        startingBalance: creditCycle?.startingBalance ?? account.summary.startingBalance,
+        endingBalance: creditCycle?.endingBalance ?? account.summary.endingBalance,
         totalCredits,
         totalDebits,
         transactionCount: statementTxns.length,
+        ...(creditCycle ? { creditDetails: creditCycle } : {}),
       });
 
       if (statementResult.isNew) {
@@ -546,10 +583,3 @@ export async function importV2Result(
 
   return stats;
 }
-
-/**
- * Compute SHA-256 hash of file contents.
- */
-export function computeFileSha256(content: Buffer): string {
-  return createHash('sha256').update(content).digest('hex');
-}
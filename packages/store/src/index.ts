@@ -1,5 +1,5 @@
 /**
- * @findata/store — Supabase persistence layer.
+ * @findata/store — Supabase and SQLite persistence layer.
  */
 
 // Client
@@ -33,7 +33,6 @@ export {
   upsertTransactions,
   linkStatementSource,
   importV2Result,
-  computeFileSha256,
   type ImportSourceInput,
   type ImportSourceResult,
   type ImportParseRunInput,
@@ -49,11 +48,15 @@ export {
   type ImportV2ResultOutput,
 } from './import.js';
 
+// File hashing (source files and the parse cache)
+export { computeFileSha256 } from '@findata/types';
+
 // Query functions
 export {
   getTransactions,
   getStatements,
   getAccountSummary,
+  getCreditCardCycles,
   getMonthlyCategoryTotals,
   getMerchantSpending,
   getTransactionsNeedingReview,
@@ -66,6 +69,7 @@ export {
   type StatementFilter,
   type StatementRow,
   type AccountSummaryRow,
+  type CreditCardCycleRow,
   type MonthlyCategoryTotalsFilter,
   type MonthlyCategoryTotalsRow,
   type MerchantSpendingFilter,
@@ -100,3 +104,20 @@ export {
   type AutoMigrationConfig,
   type AutoMigrationResult,
 } from './migrations.js';
+
+// Storage adapters (Supabase / SQLite)
+export {
+  STORAGE_BACKENDS,
+  isStorageBackend,
+  createSupabaseStorage,
+  SqliteStorage,
+  openSqliteStorage,
+  openSqliteDatabase,
+  applySqliteSchema,
+  SqlitePlaidItemStore,
+  LOCAL_USER_ID,
+  DEFAULT_SQLITE_PATH,
+  type StorageAdapter,
+  type StorageBackend,
+  type DailyBalanceRow,
+} from './storage/index.js';
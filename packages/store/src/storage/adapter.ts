@@ -0,0 +1,111 @@
+/**
+ * Storage adapter interface.
+ * Abstracts the ledger database so the import, query and override
+ * operations can run against Supabase or a local SQLite file.
+ */
+
+import type {
+  ImportParseRunInput,
+  ImportParseRunResult,
+  ImportSourceInput,
+  ImportSourceResult,
+  ImportV2ResultInput,
+  ImportV2ResultOutput,
+  UpsertAccountInput,
+  UpsertAccountResult,
+  UpsertStatementInput,
+  UpsertStatementResult,
+  UpsertTransactionsInput,
+  UpsertTransactionsResult,
+} from '../import.js';
+import type {
+  AccountDateRange,
+  AccountRow,
+  AccountSummaryRow,
+  CreditCardCycleRow,
+  MerchantSpendingFilter,
+  MerchantSpendingRow,
+  MonthlyCategoryTotalsFilter,
+  MonthlyCategoryTotalsRow,
+  StatementFilter,
+  StatementRow,
+  TransactionFilter,
+  TransactionNeedingReviewRow,
+  TransactionRow,
+} from '../queries.js';
+import type {
+  SetTransactionOverrideInput,
+  TransactionOverrideRow,
+} from '../overrides.js';
+
+export type StorageBackend = 'supabase' | 'sqlite';
+
+export const STORAGE_BACKENDS: readonly StorageBackend[] = ['supabase', 'sqlite'];
+
+/**
+ * User ID for the SQLite backend when the database is not shared between users
+ */
+export const LOCAL_USER_ID = 'local';
+
+/**
+ * Default database file for the SQLite backend
+ */
+export const DEFAULT_SQLITE_PATH = './findata.db';
+
+export interface DailyBalanceRow {
+  date: string;
+  daily_net: number;
+  running_balance: number;
+  transaction_count: number;
+}
+
+/**
+ * Ledger storage scoped to a single user.
+ * Row shapes match the Supabase tables and views (snake_case columns).
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  readonly userId: string;
+
+  // Import
+  importSource(input: ImportSourceInput): Promise<ImportSourceResult>;
+  importParseRun(input: ImportParseRunInput): Promise<ImportParseRunResult>;
+  upsertAccount(input: UpsertAccountInput): Promise<UpsertAccountResult>;
+  upsertStatement(input: UpsertStatementInput): Promise<UpsertStatementResult>;
+  upsertTransactions(input: UpsertTransactionsInput): Promise<UpsertTransactionsResult>;
+  linkStatementSource(statementDbId: string, sourceId: string, parseRunId: string, role?: string): Promise<void>;
+  importV2Result(input: ImportV2ResultInput): Promise<ImportV2ResultOutput>;
+
+  // Queries
+  getTransactions(filter?: TransactionFilter): Promise<TransactionRow[]>;
+  getStatements(filter?: StatementFilter): Promise<StatementRow[]>;
+  getAccounts(): Promise<AccountRow[]>;
+  getTransactionByTransactionId(transactionId: string): Promise<TransactionRow | null>;
+  getAccountDateRanges(): Promise<AccountDateRange[]>;
+
+  // Analytics views
+  getAccountSummary(): Promise<AccountSummaryRow[]>;
+  getCreditCardCycles(accountId?: string): Promise<CreditCardCycleRow[]>;
+  getMonthlyCategoryTotals(filter?: MonthlyCategoryTotalsFilter): Promise<MonthlyCategoryTotalsRow[]>;
+  getMerchantSpending(filter?: MerchantSpendingFilter): Promise<MerchantSpendingRow[]>;
+  getTransactionsNeedingReview(limit?: number): Promise<TransactionNeedingReviewRow[]>;
+  getDailyBalance(accountId: string, startDate?: string, endDate?: string): Promise<DailyBalanceRow[]>;
+
+  // Overrides
+  setTransactionOverride(input: SetTransactionOverrideInput): Promise<TransactionOverrideRow>;
+  getTransactionOverride(transactionDbId: string): Promise<TransactionOverrideRow | null>;
+  deleteTransactionOverride(transactionDbId: string): Promise<void>;
+  setTransactionOverridesBatch(inputs: SetTransactionOverrideInput[]): Promise<{ succeeded: number; failed: number }>;
+  getAllOverrides(limit?: number): Promise<TransactionOverrideRow[]>;
+  getOverridesBySource(source: 'human' | 'ml' | 'rule'): Promise<TransactionOverrideRow[]>;
+
+  /** Release the underlying connection (no-op for Supabase) */
+  close(): Promise<void>;
+}
+
+/**
+ * Check whether a string names a supported storage backend
+ */
+export function isStorageBackend(value: string): value is StorageBackend {
+  return (STORAGE_BACKENDS as readonly string[]).includes(value);
+}
@@ -0,0 +1,80 @@
+/**
+ * Supabase storage adapter.
+ * Binds the existing Supabase import/query/override functions to a client and user.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StorageAdapter } from './adapter.js';
+import {
+  importParseRun,
+  importSource,
+  importV2Result,
+  linkStatementSource,
+  upsertAccount,
+  upsertStatement,
+  upsertTransactions,
+} from '../import.js';
+import {
+  getAccountDateRanges,
+  getAccounts,
+  getAccountSummary,
+  getCreditCardCycles,
+  getDailyBalance,
+  getMerchantSpending,
+  getMonthlyCategoryTotals,
+  getStatements,
+  getTransactionByTransactionId,
+  getTransactions,
+  getTransactionsNeedingReview,
+} from '../queries.js';
+import {
+  deleteTransactionOverride,
+  getAllOverrides,
+  getOverridesBySource,
+  getTransactionOverride,
+  setTransactionOverride,
+  setTransactionOverridesBatch,
+} from '../overrides.js';
+
+/**
+ * Create a storage adapter backed by Supabase.
+ */
+export function createSupabaseStorage(client: SupabaseClient, userId: string): StorageAdapter {
+  return {
+    backend: 'supabase',
+    userId,
+
+    importSource: (input) => importSource(client, userId, input),
+    importParseRun: (input) => importParseRun(client, userId, input),
+    upsertAccount: (input) => upsertAccount(client, userId, input),
+    upsertStatement: (input) => upsertStatement(client, userId, input),
+    upsertTransactions: (input) => upsertTransactions(client, userId, input),
+    linkStatementSource: (statementDbId, sourceId, parseRunId, role) =>
+      linkStatementSource(client, statementDbId, sourceId, parseRunId, role),
+    importV2Result: (input) => importV2Result(client, userId, input),
+
+    getTransactions: (filter) => getTransactions(client, userId, filter),
+    getStatements: (filter) => getStatements(client, userId, filter),
+    getAccounts: () => getAccounts(client, userId),
+    getTransactionByTransactionId: (transactionId) =>
+      getTransactionByTransactionId(client, userId, transactionId),
+    getAccountDateRanges: () => getAccountDateRanges(client, userId),
+
+    getAccountSummary: () => getAccountSummary(client, userId),
+    getCreditCardCycles: (accountId) => getCreditCardCycles(client, userId, accountId),
+    getMonthlyCategoryTotals: (filter) => getMonthlyCategoryTotals(client, userId, filter),
+    getMerchantSpending: (filter) => getMerchantSpending(client, userId, filter),
+    getTransactionsNeedingReview: (limit) => getTransactionsNeedingReview(client, userId, limit),
+    getDailyBalance: (accountId, startDate, endDate) =>
+      getDailyBalance(client, userId, accountId, startDate, endDate),
+
+    setTransactionOverride: (input) => setTransactionOverride(client, userId, input),
+    getTransactionOverride: (transactionDbId) => getTransactionOverride(client, userId, transactionDbId),
+    deleteTransactionOverride: (transactionDbId) => deleteTransactionOverride(client, userId, transactionDbId),
+    setTransactionOverridesBatch: (inputs) => setTransactionOverridesBatch(client, userId, inputs),
+    getAllOverrides: (limit) => getAllOverrides(client, userId, limit),
+    getOverridesBySource: (source) => getOverridesBySource(client, userId, source),
+
+    close: () => Promise.resolve(),
+  };
+}
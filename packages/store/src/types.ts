@@ -125,6 +125,13 @@ export interface Database {
           transaction_count: number | null;
           page_start: number | null;
           page_end: number | null;
+          credit_limit: number | null;
+          available_credit: number | null;
+          payment_due_date: string | null;
+          minimum_payment_due: number | null;
+          interest_charged: number | null;
+          fees_charged: number | null;
+          credit_details: Json | null;
           provenance: Json;
           metadata: Json;
           created_at: string;
@@ -144,6 +151,13 @@ export interface Database {
           transaction_count?: number | null;
           page_start?: number | null;
           page_end?: number | null;
+          credit_limit?: number | null;
+          available_credit?: number | null;
+          payment_due_date?: string | null;
+          minimum_payment_due?: number | null;
+          interest_charged?: number | null;
+          fees_charged?: number | null;
+          credit_details?: Json | null;
           provenance?: Json;
           metadata?: Json;
           created_at?: string;
@@ -163,6 +177,13 @@ export interface Database {
           transaction_count?: number | null;
           page_start?: number | null;
           page_end?: number | null;
+          credit_limit?: number | null;
+          available_credit?: number | null;
+          payment_due_date?: string | null;
+          minimum_payment_due?: number | null;
+          interest_charged?: number | null;
+          fees_charged?: number | null;
+          credit_details?: Json | null;
           provenance?: Json;
           metadata?: Json;
           created_at?: string;
@@ -365,6 +386,25 @@ export interface Database {
           latest_balance: number | null;
         };
       };
+      credit_card_cycles: {
+        Row: {
+          user_id: string;
+          account_id: string;
+          statement_id: string;
+          period_start: string;
+          period_end: string;
+          ending_balance: number | null;
+          credit_limit: number | null;
+          available_credit: number | null;
+          utilization: number | null;
+          payment_due_date: string | null;
+          minimum_payment_due: number | null;
+          interest_charged: number | null;
+          fees_charged: number | null;
+          cumulative_interest: number;
+          credit_details: Json;
+        };
+      };
       merchant_spending: {
         Row: {
           user_id: string;
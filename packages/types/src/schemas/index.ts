@@ -2,10 +2,18 @@ export {
   AccountTypeSchema,
   TransactionDirectionSchema,
   StatementPeriodSchema,
+  InstitutionIdSchema,
+  RoutingNumberSchema,
+  CurrencyCodeSchema,
   AccountSchema,
   SummarySchema,
   RawTransactionDataSchema,
   TransactionSchema,
+  DailyBalanceSchema,
+  CreditAprSchema,
+  CreditRewardsSchema,
+  LatePaymentWarningSchema,
+  CreditDetailsSchema,
   MetadataSchema,
   ParsedStatementSchema,
   ParserOptionsSchema,
@@ -17,9 +25,16 @@ export type {
   AccountType as ZodAccountType,
   TransactionDirection,
   StatementPeriod,
+  InstitutionId,
+  CurrencyCode,
   Account as ZodAccount,
   Summary as ZodSummary,
   RawTransactionData,
+  DailyBalance,
+  CreditApr,
+  CreditRewards,
+  LatePaymentWarning,
+  CreditDetails,
   Transaction as ZodTransaction,
   Metadata,
   ParsedStatement,
@@ -31,6 +31,14 @@ export type Category =
   | 'Childcare'
   | 'Uncategorized';
 
+/** Every Category, in display order; validators and classifiers share this list */
+export const CATEGORIES: readonly Category[] = [
+  'Income', 'Housing', 'Utilities', 'Transportation', 'Food & Dining',
+  'Shopping', 'Entertainment', 'Health', 'Financial', 'Transfer',
+  'Fees', 'Travel', 'Education', 'Personal Care', 'Insurance',
+  'Taxes', 'Charity', 'Pets', 'Childcare', 'Uncategorized',
+];
+
 export type Subcategory =
   | 'Salary' | 'Interest' | 'Dividends' | 'Refund' | 'Transfer'
   | 'Rent' | 'Mortgage' | 'HOA' | 'Property Tax'
@@ -96,11 +104,15 @@ export interface StatementFileOutput {
 export interface Statement {
   statementId: string;
   account: {
-    institution: 'Bank of America';
+    institution: string;
+    institutionId?: string;
+    routingNumber?: string;
+    fid?: string;
     productName?: string;
     accountType: AccountType;
     accountNumberMasked: string;
-    currency: 'USD';
+    /** ISO 4217 code, e.g. USD */
+    currency: string;
     statementPeriod: {
       start: ISODate;
       end: ISODate;
@@ -149,6 +161,8 @@ export interface Transaction {
   date: ISODate;
   postedDate: ISODate | null;
   amount: number;
+  /** ISO 4217 code; the account currency applies when omitted */
+  currency?: string;
   direction: Direction;
   description: string;
   descriptionRaw: string;
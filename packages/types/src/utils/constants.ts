@@ -1,6 +1,16 @@
-export const PARSER_VERSION = '1.1.1';
+export const PARSER_VERSION = '1.2.0';
 
 export const BOA_INSTITUTION_NAME = 'Bank of America';
+export const BOA_INSTITUTION_ID = 'boa';
+
+export const CHIME_INSTITUTION_NAME = 'Chime';
+export const CHIME_INSTITUTION_ID = 'chime';
+
+export const CAPITAL_ONE_INSTITUTION_NAME = 'Capital One';
+export const CAPITAL_ONE_INSTITUTION_ID = 'capitalone';
+
+/** ISO 4217 code assumed when a statement or transaction does not carry one */
+export const DEFAULT_CURRENCY = 'USD';
 
 export const DATE_FORMATS = {
   ISO: 'YYYY-MM-DD',
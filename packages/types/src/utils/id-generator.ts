@@ -6,22 +6,24 @@
  */
 
 import { createHash } from 'crypto';
+import { findInstitution } from './institutions.js';
 
 /**
- * Normalize institution name for ID generation.
- * Maps common variations to canonical short form.
+ * Normalize institution for ID generation.
+ * Prefers an explicit institution ID, then the registered ID of a known
+ * institution, then the uppercased display name.
  */
-function normalizeInstitution(institution: string): string {
-  const normalized = institution.trim().toUpperCase().replace(/\s+/g, ' ');
-  
-  // Map known institutions to short codes
-  const institutionMap: Record<string, string> = {
-    'BANK OF AMERICA': 'BOA',
-    'BANK OF AMERICA, N.A.': 'BOA',
-    'BOFA': 'BOA',
-  };
-  
-  return institutionMap[normalized] ?? normalized.replace(/\s+/g, '_');
+function normalizeInstitution(institution: string, institutionId?: string): string {
+  if (institutionId !== undefined && institutionId.trim() !== '') {
+    return institutionId.trim().toUpperCase();
+  }
+
+  const known = findInstitution(institution);
+  if (known !== null) {
+    return known.id.toUpperCase();
+  }
+
+  return institution.trim().toUpperCase().replace(/\s+/g, '_');
 }
 
 /**
@@ -43,6 +45,7 @@ function normalizeAccountType(accountType: string): string {
 export function computeStatementId(statement: {
   account: {
     institution: string;
+    institutionId?: string | undefined;
     accountType: string;
     accountNumberMasked: string;
     statementPeriod: {
@@ -51,7 +54,7 @@ export function computeStatementId(statement: {
     };
   };
 }): string {
-  const institution = normalizeInstitution(statement.account.institution);
+  const institution = normalizeInstitution(statement.account.institution, statement.account.institutionId);
   const accountType = normalizeAccountType(statement.account.accountType);
   const masked = statement.account.accountNumberMasked;
   const start = statement.account.statementPeriod.start;
@@ -72,6 +75,7 @@ export function computeStatementId(statement: {
 export function computePeriodLabel(statement: {
   account: {
     institution: string;
+    institutionId?: string | undefined;
     accountType: string;
     statementPeriod: {
       start: string;
@@ -79,7 +83,7 @@ export function computePeriodLabel(statement: {
     };
   };
 }): string {
-  const institution = normalizeInstitution(statement.account.institution);
+  const institution = normalizeInstitution(statement.account.institution, statement.account.institutionId);
   const accountType = capitalize(statement.account.accountType);
   const start = statement.account.statementPeriod.start;
   const end = statement.account.statementPeriod.end;
@@ -242,3 +246,10 @@ export function isValidStatementId(id: string): boolean {
   
   return true;
 }
+
+/**
+ * Compute SHA-256 hash of file contents.
+ */
+export function computeFileSha256(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
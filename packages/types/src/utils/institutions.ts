@@ -0,0 +1,97 @@
+/**
+ * Institution identity helpers.
+ *
+ * `account.institution` is an open display name: any non-empty name validates.
+ * Institutions the toolkit ships parsers for are listed here so that names
+ * seen in statements, Plaid items and user input resolve to one stable id.
+ */
+
+import {
+  BOA_INSTITUTION_ID,
+  BOA_INSTITUTION_NAME,
+  CHIME_INSTITUTION_ID,
+  CHIME_INSTITUTION_NAME,
+  CAPITAL_ONE_INSTITUTION_ID,
+  CAPITAL_ONE_INSTITUTION_NAME,
+} from './constants.js';
+
+export interface InstitutionInfo {
+  /** Stable lowercase identifier, matching the parser id (e.g. 'boa') */
+  id: string;
+  /** Display name written to `account.institution` */
+  name: string;
+  /** Other spellings that refer to the same institution */
+  aliases: string[];
+  /** ABA routing number, for institutions that publish a single one */
+  routingNumber?: string;
+  /** OFX financial institution ID */
+  fid?: string;
+}
+
+/** Institution ids are lowercase slugs: 'boa', 'capitalone', 'first_tech_fcu' */
+export const INSTITUTION_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** ABA routing numbers are exactly nine digits */
+export const ROUTING_NUMBER_PATTERN = /^\d{9}$/;
+
+export const KNOWN_INSTITUTIONS: readonly InstitutionInfo[] = [
+  {
+    id: BOA_INSTITUTION_ID,
+    name: BOA_INSTITUTION_NAME,
+    aliases: ['Bank of America, N.A.', 'BofA', 'BOA'],
+    fid: '5959',
+  },
+  {
+    id: CHIME_INSTITUTION_ID,
+    name: CHIME_INSTITUTION_NAME,
+    aliases: ['Chime Financial'],
+  },
+  {
+    id: CAPITAL_ONE_INSTITUTION_ID,
+    name: CAPITAL_ONE_INSTITUTION_NAME,
+    aliases: ['Capital One, N.A.', 'Capital One 360', 'CapitalOne'],
+  },
+];
+
+function normalizeName(name: string): string {
+  return name.trim().toUpperCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Look up a known institution by id, display name or alias (case-insensitive).
+ */
+export function findInstitution(nameOrId: string): InstitutionInfo | null {
+  const normalized = normalizeName(nameOrId);
+  if (normalized === '') return null;
+
+  return KNOWN_INSTITUTIONS.find((info) =>
+    info.id.toUpperCase() === normalized ||
+    normalizeName(info.name) === normalized ||
+    info.aliases.some((alias) => normalizeName(alias) === normalized)
+  ) ?? null;
+}
+
+/**
+ * Derive an institution id from a display name.
+ * Known institutions resolve to their registered id; anything else is slugged
+ * ("First Tech FCU" -> "first_tech_fcu").
+ */
+export function toInstitutionId(name: string): string {
+  const known = findInstitution(name);
+  if (known !== null) {
+    return known.id;
+  }
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function isValidInstitutionId(id: string): boolean {
+  return INSTITUTION_ID_PATTERN.test(id);
+}
+
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  return ROUTING_NUMBER_PATTERN.test(routingNumber);
+}
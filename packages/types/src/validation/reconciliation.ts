@@ -1,8 +1,11 @@
 /**
  * Balance reconciliation validation for parsed statements.
- * Verifies that: beginning_balance + credits - debits ≈ ending_balance
+ * Verifies that: beginning_balance + credits - debits = ending_balance,
+ * computed in integer cents so the comparison is exact.
  */
 
+import { calculateEndingBalance, fromMinorUnits, sumAmounts, toMinorUnits } from '../utils/money.js';
+
 export interface ReconciliationResult {
   /** Whether the reconciliation passed within tolerance */
   passed: boolean;
@@ -24,7 +27,7 @@ export interface ReconciliationResult {
 }
 
 export interface ReconciliationOptions {
-  /** Tolerance for balance comparison (default: 0.01) */
+  /** Tolerance for balance comparison (default: 0, exact to the cent) */
   tolerance?: number;
   /** Whether to treat missing balances as errors */
   strictBalances?: boolean;
@@ -49,14 +52,14 @@ export function validateReconciliation(
   totalDebits: number,
   options: ReconciliationOptions = {}
 ): ReconciliationResult {
-  const { tolerance = 0.01 } = options;
+  const { tolerance = 0 } = options;
   
   // Calculate expected ending balance
   // Note: totalDebits should be positive, we subtract it
-  const calculatedEnding = startingBalance + totalCredits - totalDebits;
+  const calculatedEnding = calculateEndingBalance(startingBalance, totalCredits, totalDebits);
   
   // Calculate difference
-  const difference = Math.abs(calculatedEnding - endingBalance);
+  const difference = fromMinorUnits(Math.abs(toMinorUnits(calculatedEnding) - toMinorUnits(endingBalance)));
   
   // Check if within tolerance
   const passed = difference <= tolerance;
@@ -103,14 +106,14 @@ export function validateStatementReconciliation(
 export function calculateTotalCredits(
   transactions: Array<{ amount: number | string }>
 ): number {
-  let total = 0;
+  const credits: number[] = [];
   for (const txn of transactions) {
     const amount = typeof txn.amount === 'string' ? parseFloat(txn.amount.replace(/,/g, '')) : txn.amount;
     if (!isNaN(amount) && amount > 0) {
-      total += amount;
+      credits.push(amount);
     }
   }
-  return Math.round(total * 100) / 100;
+  return sumAmounts(credits);
 }
 
 /**
@@ -119,14 +122,14 @@ export function calculateTotalCredits(
 export function calculateTotalDebits(
   transactions: Array<{ amount: number | string }>
 ): number {
-  let total = 0;
+  const debits: number[] = [];
   for (const txn of transactions) {
     const amount = typeof txn.amount === 'string' ? parseFloat(txn.amount.replace(/,/g, '')) : txn.amount;
     if (!isNaN(amount) && amount < 0) {
-      total += Math.abs(amount);
+      debits.push(Math.abs(amount));
     }
   }
-  return Math.round(total * 100) / 100;
+  return sumAmounts(debits);
 }
 
 /**
@@ -138,7 +141,7 @@ export function validateTransactionTotals(
     totalCredits: number;
     totalDebits: number;
   },
-  tolerance: number = 0.01
+  tolerance: number = 0
 ): {
   creditsMatch: boolean;
   debitsMatch: boolean;
@@ -150,8 +153,8 @@ export function validateTransactionTotals(
   const calculatedCredits = calculateTotalCredits(transactions);
   const calculatedDebits = calculateTotalDebits(transactions);
   
-  const creditsDifference = Math.abs(calculatedCredits - summary.totalCredits);
-  const debitsDifference = Math.abs(calculatedDebits - summary.totalDebits);
+  const creditsDifference = fromMinorUnits(Math.abs(toMinorUnits(calculatedCredits) - toMinorUnits(summary.totalCredits)));
+  const debitsDifference = fromMinorUnits(Math.abs(toMinorUnits(calculatedDebits) - toMinorUnits(summary.totalDebits)));
   
   return {
     creditsMatch: creditsDifference <= tolerance,
@@ -1,16 +1,23 @@
-import { extractPDF, type ExtractedPDF } from '../extractors/index.js';
-import { parseBoaMultipleStatements, isTransactionDetailsPDF, parseTransactionDetails, type RawTransaction } from '../parsers/index.js';
-import type { ParsedStatement, Transaction } from '../schemas/index.js';
-import { categorizeTransaction, extractMerchant } from '../categorization/index.js';
-import { parseAmount, roundToTwoDecimals, sumAmounts } from '../utils/money.js';
-import { PARSER_VERSION, BOA_INSTITUTION_NAME } from '../utils/constants.js';
-import type { PdfFileInfo } from '../utils/directory-scanner.js';
+import { basename } from 'path';
+import { extractPDFFromBuffer, isPdfPasswordError, type PdfPasswordReason } from '../extractors/index.js';
+import {
+  getDefaultParserRegistry,
+  restoreParserRegistry,
+  type ParserRegistry,
+  type ParserRegistrySnapshot,
+} from '../parsers/registry.js';
+import { importStatementBuffer, isImportFile } from '../importers/index.js';
+import type { ParsedStatement } from '../schemas/index.js';
+import { readStatementFile, type PdfFileInfo } from '../utils/directory-scanner.js';
+import { computeFileSha256 } from '../utils/id-generator.js';
 import {
   mergeStatementsWithSources,
   isCombinedPdfFilename,
   type MergeResult,
   type StatementWithSource,
 } from '../utils/statement-merger.js';
+import { ParseCache } from './parse-cache.js';
+import { runWorkerPool, workerModuleUrl } from './worker-pool.js';
 
 export interface ParseError {
   filename: string;
@@ -25,13 +32,20 @@ export interface BatchProcessResult {
   totalStatements: number;
   totalTransactions: number;
   parseErrors: ParseError[];
+  /** Password-protected PDFs that no available password opened (not counted as parse errors) */
+  encryptedFiles: ParseError[];
   summary: {
     totalPdfsFound: number;
     pdfsSucceeded: number;
     pdfsFailed: number;
+    pdfsEncrypted: number;
     statementsBeforeDedup: number;
     duplicateStatementsRemoved: number;
     duplicateTransactionsRemoved: number;
+    /** Number of files handled by each institution parser or importer ('ofx', 'qfx', 'boa-csv') */
+    pdfsByParser: Record<string, number>;
+    /** Files served from the parse cache (not extracted again) */
+    cacheHits: number;
   };
 }
 
@@ -40,14 +54,73 @@ export interface BatchProcessOptions {
   verbose?: boolean;
   onProgress?: (current: number, total: number, filename: string) => void;
   onError?: (error: ParseError) => void;
+  /** Called with each file's statements before the merge */
+  onFileParsed?: (file: PdfFileInfo, result: { parserId: string; statements: ParsedStatement[]; cached: boolean }) => void;
+  /** Institution parser registry (defaults to the built-in parsers) */
+  registry?: ParserRegistry;
+  /** OCR scanned pages that have no text layer (default: true) */
+  ocr?: boolean;
+  /** Passwords for encrypted PDFs, keyed by relative path (PdfFileInfo.fileName), bare file name or full path */
+  passwordMap?: Record<string, string>;
+  /** Passwords tried, in order, on every encrypted PDF */
+  passwords?: string[];
+  /** Asked for a password once the others fail (e.g. an interactive prompt); return null to skip the file */
+  onPassword?: (fileName: string, reason: PdfPasswordReason) => Promise<string | null>;
+  /** Called for each encrypted PDF that could not be opened */
+  onEncrypted?: (error: ParseError) => void;
+  /**
+   * Number of files processed in parallel on worker threads (default: 1, no workers).
+   * Plugin parsers must be loaded from modules (loadParserPlugins) to be used by workers.
+   */
+  concurrency?: number;
+  /** Heap limit per worker thread in MB; a file that exceeds it fails with a parse error */
+  workerMemoryLimitMb?: number;
+  /** Reuse results for files that are unchanged since an earlier run */
+  cache?: ParseCache;
+}
+
+/**
+ * Outcome of processing one file, in the calling thread or a worker
+ */
+export type FileOutcome =
+  | { ok: true; parserId: string; statements: ParsedStatement[]; cached: boolean }
+  | { ok: false; encrypted: boolean; error: ParseError };
+
+/**
+ * Options handed to batch workers; callbacks stay in the calling thread
+ */
+export interface BatchWorkerData {
+  strict: boolean;
+  verbose: boolean;
+  ocr: boolean;
+  passwordMap?: Record<string, string>;
+  passwords?: string[];
+  /** Whether workers should ask the calling thread for passwords (onPassword) */
+  promptForPasswords: boolean;
+  /** Registry to rebuild in each worker (null: built-in parsers) */
+  registry: ParserRegistrySnapshot | null;
+  /** Parse cache directory shared with the calling thread (null: no cache) */
+  cacheDir: string | null;
+}
+
+/**
+ * Password prompt relayed from a worker to onPassword
+ */
+export interface WorkerPasswordRequest {
+  fileName: string;
+  reason: PdfPasswordReason;
 }
 
 /**
  * Processes multiple PDF files and merges results into a single consolidated output.
  * 
- * Processing is sequential to ensure deterministic results and avoid memory pressure.
- * Each PDF is parsed using the existing multi-statement parser, then all results
- * are merged with robust statement-level and transaction-level deduplication.
+ * Files are processed one at a time by default. With `concurrency` above 1 they are
+ * extracted and parsed on a pool of worker threads, each holding one file at a time.
+ * Either way results are merged in input order, so the output does not depend on
+ * which file finished first.
+ * Each PDF is parsed by the best-matching institution parser from the registry
+ * (OFX/QFX/CSV files are read by the importers instead),
+ * then all results are merged with robust statement-level and transaction-level deduplication.
  * 
  * Deduplication handles:
  * - Same monthly statement appearing in multiple PDFs
@@ -58,42 +131,75 @@ export async function processBatch(
   files: PdfFileInfo[],
   options: BatchProcessOptions = {}
 ): Promise<BatchProcessResult> {
+  const outcomes: Array<FileOutcome | undefined> = new Array<FileOutcome | undefined>(files.length);
+  const recordOutcome = (index: number, outcome: FileOutcome): void => {
+    outcomes[index] = outcome;
+    if (outcome.ok) {
+      const file = files[index];
+      if (options.onFileParsed !== undefined && file !== undefined) {
+        options.onFileParsed(file, { parserId: outcome.parserId, statements: outcome.statements, cached: outcome.cached });
+      }
+      return;
+    }
+
+    if (outcome.encrypted) {
+      if (options.onEncrypted !== undefined) {
+        options.onEncrypted(outcome.error);
+      }
+    } else if (options.onError !== undefined) {
+      options.onError(outcome.error);
+    }
+  };
+
+  const concurrency = Math.min(options.concurrency ?? 1, files.length);
+  if (concurrency > 1) {
+    await processInWorkers(files, options, concurrency, recordOutcome);
+  } else {
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      if (file === undefined) continue;
+
+      // Report progress
+      if (options.onProgress !== undefined) {
+        options.onProgress(i + 1, files.length, file.fileName);
+      }
+
+      recordOutcome(i, await processFile(file, options));
+    }
+  }
+
   const allStatementArrays: StatementWithSource[][] = [];
   const parseErrors: ParseError[] = [];
+  const encryptedFiles: ParseError[] = [];
+  const pdfsByParser: Record<string, number> = {};
   let pdfsSucceeded = 0;
   let statementsBeforeDedup = 0;
-  
+  let cacheHits = 0;
+
+  // Collect in input order so the merge is deterministic
   for (let i = 0; i < files.length; i++) {
     const file = files[i];
-    if (file === undefined) continue;
-    
-    // Report progress
-    if (options.onProgress !== undefined) {
-      options.onProgress(i + 1, files.length, file.fileName);
-    }
-    
-    try {
-      const statements = await processSinglePdf(file.filePath, options);
-      
-      // Wrap statements with source metadata for deduplication
-      const isCombined = isCombinedPdfFilename(file.fileName);
-      const statementsWithSource: StatementWithSource[] = statements.map(statement => ({
-        statement,
-        sourceFile: file.fileName,
-        isCombinedPdf: isCombined,
-      }));
-      
-      allStatementArrays.push(statementsWithSource);
-      statementsBeforeDedup += statements.length;
-      pdfsSucceeded++;
-    } catch (error) {
-      const parseError = createParseError(file, error);
-      parseErrors.push(parseError);
-      
-      if (options.onError !== undefined) {
-        options.onError(parseError);
-      }
+    const outcome = outcomes[i];
+    if (file === undefined || outcome === undefined) continue;
+
+    if (!outcome.ok) {
+      (outcome.encrypted ? encryptedFiles : parseErrors).push(outcome.error);
+      continue;
     }
+
+    // Wrap statements with source metadata for deduplication
+    const isCombined = isCombinedPdfFilename(basename(file.fileName));
+    const statementsWithSource: StatementWithSource[] = outcome.statements.map(statement => ({
+      statement,
+      sourceFile: file.fileName,
+      isCombinedPdf: isCombined,
+    }));
+
+    allStatementArrays.push(statementsWithSource);
+    statementsBeforeDedup += outcome.statements.length;
+    pdfsByParser[outcome.parserId] = (pdfsByParser[outcome.parserId] ?? 0) + 1;
+    pdfsSucceeded++;
+    if (outcome.cached) cacheHits++;
   }
   
   // Merge all statements with robust deduplication
@@ -106,133 +212,191 @@ export async function processBatch(
     totalStatements: mergeResult.statements.length,
     totalTransactions: mergeResult.totalTransactions,
     parseErrors,
+    encryptedFiles,
     summary: {
       totalPdfsFound: files.length,
       pdfsSucceeded,
       pdfsFailed: parseErrors.length,
+      pdfsEncrypted: encryptedFiles.length,
       statementsBeforeDedup,
       duplicateStatementsRemoved: mergeResult.duplicateStatementsRemoved,
       duplicateTransactionsRemoved: mergeResult.duplicateTransactionsRemoved,
+      pdfsByParser,
+      cacheHits,
     },
   };
 }
 
+/**
+ * Processes one file (PDF or OFX/QFX/CSV import), turning failures into a ParseError.
+ */
+export async function processFile(file: PdfFileInfo, options: BatchProcessOptions): Promise<FileOutcome> {
+  try {
+    const result = isImportFile(file.fileName)
+      ? await processSingleImport(file, options)
+      : await processSinglePdf(file, options);
+    return { ok: true, ...result };
+  } catch (error) {
+    return { ok: false, encrypted: isPdfPasswordError(error), error: createParseError(file, error) };
+  }
+}
+
+/**
+ * Processes files on a pool of worker threads (see batch-worker.ts).
+ * Outcomes are recorded as workers finish; password prompts are relayed back
+ * to options.onPassword one at a time.
+ */
+async function processInWorkers(
+  files: PdfFileInfo[],
+  options: BatchProcessOptions,
+  concurrency: number,
+  recordOutcome: (index: number, outcome: FileOutcome) => void
+): Promise<void> {
+  const onPassword = options.onPassword;
+  const workerData: BatchWorkerData = {
+    strict: options.strict ?? false,
+    verbose: options.verbose ?? false,
+    ocr: options.ocr ?? true,
+    ...(options.passwordMap !== undefined ? { passwordMap: options.passwordMap } : {}),
+    ...(options.passwords !== undefined ? { passwords: options.passwords } : {}),
+    promptForPasswords: onPassword !== undefined,
+    registry: options.registry !== undefined ? options.registry.snapshot() : null,
+    cacheDir: options.cache !== undefined ? options.cache.getDir() : null,
+  };
+
+  await runWorkerPool<PdfFileInfo, FileOutcome>({
+    workerUrl: workerModuleUrl('batch-worker', import.meta.url),
+    workerData,
+    tasks: files,
+    concurrency,
+    ...(options.workerMemoryLimitMb !== undefined ? { memoryLimitMb: options.workerMemoryLimitMb } : {}),
+    onStart: (index, file) => {
+      if (options.onProgress !== undefined) {
+        options.onProgress(index + 1, files.length, file.fileName);
+      }
+    },
+    onResult: recordOutcome,
+    onWorkerError: (index, file, error) => {
+      recordOutcome(index, { ok: false, encrypted: false, error: createParseError(file, error) });
+    },
+    ...(onPassword !== undefined
+      ? {
+          onRequest: (payload: unknown): Promise<string | null> => {
+            const request = payload as WorkerPasswordRequest;
+            return onPassword(request.fileName, request.reason);
+          },
+        }
+      : {}),
+  });
+}
+
+/**
+ * Build processFile options inside a batch worker.
+ */
+export async function batchWorkerOptions(
+  data: BatchWorkerData,
+  requestPassword: (request: WorkerPasswordRequest) => Promise<string | null>
+): Promise<BatchProcessOptions> {
+  return {
+    strict: data.strict,
+    verbose: data.verbose,
+    ocr: data.ocr,
+    ...(data.passwordMap !== undefined ? { passwordMap: data.passwordMap } : {}),
+    ...(data.passwords !== undefined ? { passwords: data.passwords } : {}),
+    ...(data.promptForPasswords
+      ? { onPassword: (fileName: string, reason: PdfPasswordReason) => requestPassword({ fileName, reason }) }
+      : {}),
+    ...(data.registry !== null ? { registry: await restoreParserRegistry(data.registry) } : {}),
+    ...(data.cacheDir !== null ? { cache: new ParseCache(data.cacheDir) } : {}),
+  };
+}
+
+type FileResult = { parserId: string; statements: ParsedStatement[]; cached: boolean };
+
 /**
  * Processes a single PDF file and returns its statements.
- * This wraps the existing parser logic and handles both monthly statements
- * and "Print Transaction Details" exports.
+ * The institution parser is chosen by the registry based on detection confidence.
+ * With a parse cache, unchanged files are not extracted or parsed again.
  */
 async function processSinglePdf(
-  filePath: string,
+  file: PdfFileInfo,
   options: BatchProcessOptions
-): Promise<ParsedStatement[]> {
-  // Extract PDF content
-  const pdf = await extractPDF(filePath);
-  
-  // Check for password-protected PDFs (pdf-parse throws specific error)
-  if (pdf.fullText.length === 0 && pdf.totalPages > 0) {
-    throw new Error('PDF appears to be password-protected or contains no extractable text');
+): Promise<FileResult> {
+  const strict = options.strict ?? false;
+  const registry = options.registry ?? getDefaultParserRegistry();
+  const cache = options.cache;
+  const data = await readStatementFile(file);
+  const fileHash = cache !== undefined ? computeFileSha256(data) : undefined;
+  const entry = cache !== undefined && fileHash !== undefined ? cache.get(fileHash) : null;
+
+  // Only reuse statements when the same parsers are registered, so that a new,
+  // removed or upgraded parser gets the chance to win detection again
+  const registeredParsers = registry.cacheIds();
+  if (entry !== null && entry.strict === strict && entry.registeredParsers?.join(',') === registeredParsers.join(',')) {
+    return { parserId: entry.parserId, statements: entry.statements, cached: true };
   }
+
+  // Extract PDF content (or reuse the cached layout); encrypted PDFs throw
+  // PdfPasswordError if no password opens them
+  const mappedPassword = options.passwordMap?.[file.fileName]
+    ?? options.passwordMap?.[basename(file.fileName)]
+    ?? options.passwordMap?.[file.filePath];
+  const onPassword = options.onPassword;
+  const pdf = entry?.layout ?? await extractPDFFromBuffer(data, {
+    ocr: options.ocr ?? true,
+    ...(mappedPassword !== undefined ? { password: mappedPassword } : {}),
+    ...(options.passwords !== undefined ? { passwords: options.passwords } : {}),
+    ...(onPassword !== undefined ? { onPassword: (reason: PdfPasswordReason): Promise<string | null> => onPassword(file.fileName, reason) } : {}),
+  });
   
-  // Check if this is a "Print Transaction Details" PDF
-  if (isTransactionDetailsPDF(pdf)) {
-    return parseTransactionDetailsPdf(pdf, options);
+  if (pdf.fullText.length === 0 && pdf.totalPages > 0) {
+    throw new Error('PDF contains no extractable text');
   }
   
-  // Parse using existing multi-statement parser for monthly statements
-  const result = parseBoaMultipleStatements(pdf, {
-    strict: options.strict ?? false,
+  const result = registry.parse(pdf, {
+    strict,
     verbose: options.verbose ?? false,
   });
   
-  if (!result.success || result.statements.length === 0) {
+  if (result.statements.length === 0) {
     throw new Error('Failed to parse any statements from PDF');
   }
+
+  // Decrypted contents stay out of the cache
+  if (cache !== undefined && fileHash !== undefined && pdf.encrypted !== true) {
+    cache.set({ fileHash, parserId: result.parser.id, registeredParsers, layout: pdf, strict, statements: result.statements });
+  }
   
-  return result.statements;
+  // Reusing the cached layout still skips extraction, so it counts as a hit
+  return { parserId: result.parser.id, statements: result.statements, cached: entry !== null };
 }
 
 /**
- * Parse a "Print Transaction Details" PDF into a single statement.
- * These PDFs contain a flat list of transactions from online banking export.
+ * Imports a single OFX/QFX/CSV file and returns its statements.
  */
-function parseTransactionDetailsPdf(
-  pdf: ExtractedPDF,
-  _options: BatchProcessOptions
-): ParsedStatement[] {
-  const result = parseTransactionDetails(pdf);
-  
-  if (result.transactions.length === 0) {
-    throw new Error('No transactions found in transaction details PDF');
+async function processSingleImport(
+  file: PdfFileInfo,
+  options: BatchProcessOptions
+): Promise<FileResult> {
+  const cache = options.cache;
+  const data = await readStatementFile(file);
+  const fileHash = cache !== undefined ? computeFileSha256(data) : undefined;
+  const entry = cache !== undefined && fileHash !== undefined ? cache.get(fileHash) : null;
+  if (entry !== null) {
+    return { parserId: entry.parserId, statements: entry.statements, cached: true };
   }
-  
-  // Normalize raw transactions to full Transaction objects
-  const transactions: Transaction[] = result.transactions.map((raw: RawTransaction) => {
-    const amount = parseAmount(raw.amount);
-    const absAmount = roundToTwoDecimals(Math.abs(amount));
-    const direction: 'debit' | 'credit' = amount >= 0 ? 'credit' : 'debit';
-    
-    // Categorize based on section or description
-    let categorization;
-    if (raw.section === 'fees') {
-      categorization = { category: 'Fees', subcategory: 'Bank', confidence: 0.95 };
-    } else {
-      categorization = categorizeTransaction(raw.description);
-    }
-    const merchant = extractMerchant(raw.description);
-    
-    return {
-      date: raw.date,
-      postedDate: null,
-      description: raw.description,
-      merchant,
-      amount: direction === 'debit' ? -absAmount : absAmount,
-      direction,
-      category: categorization.category,
-      subcategory: categorization.subcategory,
-      confidence: categorization.confidence,
-      raw: {
-        originalText: raw.originalLine,
-        page: raw.page,
-      },
-    };
-  });
-  
-  // Calculate totals from transactions
-  const totalCredits = sumAmounts(
-    transactions.filter((t) => t.direction === 'credit').map((t) => t.amount)
-  );
-  const totalDebits = sumAmounts(
-    transactions.filter((t) => t.direction === 'debit').map((t) => Math.abs(t.amount))
-  );
-  
-  // Build the statement
-  const statement: ParsedStatement = {
-    account: {
-      institution: BOA_INSTITUTION_NAME,
-      accountType: result.accountInfo.accountType,
-      accountNumberMasked: result.accountInfo.accountNumberMasked,
-      statementPeriod: {
-        start: result.accountInfo.statementPeriodStart,
-        end: result.accountInfo.statementPeriodEnd,
-      },
-      currency: 'USD',
-    },
-    summary: {
-      startingBalance: result.balanceInfo.startingBalance,
-      endingBalance: result.balanceInfo.endingBalance,
-      totalCredits,
-      totalDebits,
-    },
-    transactions,
-    metadata: {
-      parserVersion: PARSER_VERSION,
-      parsedAt: new Date().toISOString(),
-      warnings: result.warnings,
-    },
-  };
-  
-  return [statement];
+
+  const result = importStatementBuffer(data, file.fileName);
+
+  if (result.statements.length === 0) {
+    throw new Error('Failed to import any statements from file');
+  }
+
+  if (cache !== undefined && fileHash !== undefined) {
+    cache.set({ fileHash, parserId: result.format, strict: false, statements: result.statements });
+  }
+
+  return { parserId: result.format, statements: result.statements, cached: false };
 }
 
 /**
@@ -260,6 +424,7 @@ export function isNonBoaPdfError(error: ParseError): boolean {
     'Failed to parse any statements',
     'Unable to detect account type',
     'No transactions found',
+    'No registered institution parser',
   ];
   
   return nonBoaIndicators.some(indicator => 
@@ -0,0 +1,16 @@
+/**
+ * Worker thread entry for parallel batch processing (processBatch with concurrency > 1).
+ * Rebuilds the parser registry once, then extracts and parses files one at a time.
+ */
+
+import { workerData } from 'worker_threads';
+import type { PdfFileInfo } from '../utils/directory-scanner.js';
+import { batchWorkerOptions, processFile, type BatchWorkerData, type FileOutcome } from './batch-processor.js';
+import { requestFromPool, serveWorkerTasks } from './worker-pool.js';
+
+const options = await batchWorkerOptions(workerData as BatchWorkerData, async (passwordRequest) => {
+  const password = await requestFromPool(passwordRequest);
+  return typeof password === 'string' ? password : null;
+});
+
+serveWorkerTasks<PdfFileInfo, FileOutcome>((file) => processFile(file, options));
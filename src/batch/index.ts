@@ -5,3 +5,32 @@ export {
   type BatchProcessResult,
   type BatchProcessOptions,
 } from './batch-processor.js';
+
+export {
+  runWorkerPool,
+  serveWorkerTasks,
+  requestFromPool,
+  workerModuleUrl,
+  type WorkerPoolOptions,
+} from './worker-pool.js';
+
+export {
+  ParseCache,
+  computeParseCacheKey,
+  DEFAULT_PARSE_CACHE_DIR,
+  type ParseCacheEntry,
+} from './parse-cache.js';
+
+export {
+  FolderWatcher,
+  type FolderWatcherOptions,
+  type WatchUpdate,
+  type WatchFileStatus,
+  type WatchFileState,
+} from './folder-watcher.js';
+
+export {
+  parsePdfPasswordConfig,
+  loadPdfPasswordConfig,
+  type PdfPasswordConfig,
+} from './pdf-passwords.js';
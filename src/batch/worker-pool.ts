@@ -0,0 +1,175 @@
+/**
+ * Worker thread pool for parallel statement processing.
+ *
+ * Each worker handles one task at a time, so memory use grows with the
+ * concurrency rather than with the number of files. Results come back tagged
+ * with their task index, which lets callers merge them in input order no matter
+ * which worker finishes first.
+ */
+
+import { Worker, parentPort, type WorkerOptions } from 'worker_threads';
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
+
+type ToWorkerMessage<TTask> =
+  | { type: 'task'; index: number; task: TTask }
+  | { type: 'reply'; requestId: number; value: unknown };
+
+type FromWorkerMessage<TResult> =
+  | { type: 'result'; index: number; result: TResult }
+  | { type: 'request'; requestId: number; payload: unknown };
+
+export interface WorkerPoolOptions<TTask, TResult> {
+  /** Worker entry module (see workerModuleUrl) */
+  workerUrl: URL;
+  /** Passed to every worker as `workerData` */
+  workerData?: unknown;
+  tasks: TTask[];
+  /** Number of workers; capped at the number of tasks */
+  concurrency: number;
+  /** Heap limit per worker in MB; a worker that exceeds it fails its current task */
+  memoryLimitMb?: number;
+  /** Called when a task is handed to a worker */
+  onStart?: (index: number, task: TTask) => void;
+  onResult: (index: number, result: TResult) => void;
+  /** Called when a worker dies mid-task; the pool carries on with a fresh worker */
+  onWorkerError: (index: number, task: TTask, error: Error) => void;
+  /** Answers requests posted by workers (e.g. password prompts), one at a time */
+  onRequest?: (payload: unknown) => Promise<unknown>;
+}
+
+/**
+ * URL of a worker entry module that sits next to `moduleUrl`, keeping its
+ * extension: `.js` in the build, `.ts` when running from the sources.
+ */
+export function workerModuleUrl(name: string, moduleUrl: string): URL {
+  return new URL(`./${name}${extname(fileURLToPath(moduleUrl))}`, moduleUrl);
+}
+
+function startWorker(url: URL, workerData: unknown, memoryLimitMb: number | undefined): Worker {
+  const options: WorkerOptions = {
+    workerData,
+    ...(memoryLimitMb !== undefined ? { resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb } } : {}),
+  };
+
+  if (url.pathname.endsWith('.ts')) {
+    // Running from the TypeScript sources (tests, ts-node): load the worker through tsx
+    const bootstrap = `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(url.href)}); });`;
+    return new Worker(bootstrap, { ...options, eval: true });
+  }
+
+  return new Worker(url, options);
+}
+
+/**
+ * Run tasks on a pool of worker threads started from `workerUrl`.
+ * The worker module must call serveWorkerTasks. Resolves once every task has
+ * reported a result or a worker error.
+ */
+export async function runWorkerPool<TTask, TResult>(options: WorkerPoolOptions<TTask, TResult>): Promise<void> {
+  const { tasks } = options;
+  let nextIndex = 0;
+  let requests: Promise<void> = Promise.resolve();
+
+  const runWorker = (): Promise<void> => new Promise((resolve) => {
+    const worker = startWorker(options.workerUrl, options.workerData, options.memoryLimitMb);
+    let current: number | undefined;
+    let failure: Error | undefined;
+
+    const dispatch = (): void => {
+      const index = nextIndex++;
+      const task = tasks[index];
+      if (task === undefined) {
+        current = undefined;
+        void worker.terminate();
+        return;
+      }
+      current = index;
+      if (options.onStart !== undefined) {
+        options.onStart(index, task);
+      }
+      worker.postMessage({ type: 'task', index, task } satisfies ToWorkerMessage<TTask>);
+    };
+
+    worker.on('message', (message: FromWorkerMessage<TResult>) => {
+      if (message.type === 'result') {
+        options.onResult(message.index, message.result);
+        dispatch();
+        return;
+      }
+
+      // Serialize requests across workers so interactive prompts never overlap
+      const onRequest = options.onRequest;
+      requests = requests.then(async () => {
+        let value: unknown = null;
+        try {
+          value = onRequest !== undefined ? await onRequest(message.payload) : null;
+        } catch {
+          value = null;
+        }
+        worker.postMessage({ type: 'reply', requestId: message.requestId, value } satisfies ToWorkerMessage<TTask>);
+      });
+    });
+
+    worker.on('error', (error) => {
+      failure = error;
+    });
+
+    worker.on('exit', (code) => {
+      const task = current !== undefined ? tasks[current] : undefined;
+      if (current === undefined || task === undefined) {
+        resolve();
+        return;
+      }
+      options.onWorkerError(current, task, failure ?? new Error(`Worker exited with code ${code}`));
+      resolve(nextIndex < tasks.length ? runWorker() : undefined);
+    });
+
+    dispatch();
+  });
+
+  const workerCount = Math.min(options.concurrency, tasks.length);
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+}
+
+/** Pending requestFromPool calls in this worker, by request id */
+const pendingRequests = new Map<number, (value: unknown) => void>();
+let nextRequestId = 0;
+
+function workerPort(): NonNullable<typeof parentPort> {
+  if (parentPort === null) {
+    throw new Error('Worker pool functions must be called from a worker thread');
+  }
+  return parentPort;
+}
+
+/**
+ * Worker side: ask the pool's onRequest (in the calling thread) and wait for the answer.
+ */
+export function requestFromPool(payload: unknown): Promise<unknown> {
+  const port = workerPort();
+  return new Promise((resolve) => {
+    const requestId = nextRequestId++;
+    pendingRequests.set(requestId, resolve);
+    port.postMessage({ type: 'request', requestId, payload } satisfies FromWorkerMessage<never>);
+  });
+}
+
+/**
+ * Worker side of runWorkerPool: handle tasks one at a time and post back each result.
+ */
+export function serveWorkerTasks<TTask, TResult>(handle: (task: TTask) => Promise<TResult>): void {
+  const port = workerPort();
+
+  port.on('message', (message: ToWorkerMessage<TTask>) => {
+    if (message.type === 'reply') {
+      pendingRequests.get(message.requestId)?.(message.value);
+      pendingRequests.delete(message.requestId);
+      return;
+    }
+
+    void handle(message.task).then((result) => {
+      port.postMessage({ type: 'result', index: message.index, result } satisfies FromWorkerMessage<TResult>);
+    });
+  });
+}
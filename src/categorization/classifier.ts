@@ -0,0 +1,49 @@
+/**
+ * Common interface for the ML classifiers behind HybridCategorizer.
+ *
+ * Two engines implement it:
+ * - `use`: MLCategorizer, Universal Sentence Encoder embeddings with a dense
+ *   network (downloads the encoder on initialize)
+ * - `local`: LocalMLCategorizer, hashed word and character n-gram features
+ *   with a softmax regression; needs no network access
+ */
+
+import type { ChannelType } from '../types/output.js';
+import type { MLCategorizationResult, TrainingExample } from './ml-categorizer.js';
+import { MLCategorizer } from './ml-categorizer.js';
+import { LocalMLCategorizer } from './local-categorizer.js';
+
+export interface ClassifierTrainOptions {
+  epochs?: number;
+  batchSize?: number;
+  /** Called after every training epoch with its mean loss and category accuracy */
+  onEpoch?: (epoch: number, loss: number, accuracy: number) => void;
+}
+
+export interface TransactionClassifier {
+  /** Load whatever the classifier needs before training or prediction */
+  initialize(): Promise<void>;
+  train(examples: TrainingExample[], options?: ClassifierTrainOptions): Promise<unknown>;
+  predict(description: string, channelType?: ChannelType): Promise<MLCategorizationResult>;
+  predictBatch(descriptions: string[], channelTypes?: (ChannelType | undefined)[]): Promise<MLCategorizationResult[]>;
+  /** Write the trained model into a model directory */
+  saveModel(path: string): Promise<void>;
+  /** Read a model written by saveModel from a model directory */
+  loadModel(path: string): Promise<void>;
+  getModelSummary(): string;
+  dispose(): void;
+}
+
+export const ML_ENGINES = ['use', 'local'] as const;
+export type MLEngine = typeof ML_ENGINES[number];
+
+export function isMLEngine(value: string): value is MLEngine {
+  return (ML_ENGINES as readonly string[]).includes(value);
+}
+
+/**
+ * Create an untrained classifier for an engine.
+ */
+export function createClassifier(engine: MLEngine): TransactionClassifier {
+  return engine === 'local' ? new LocalMLCategorizer() : new MLCategorizer();
+}
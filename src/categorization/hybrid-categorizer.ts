@@ -10,8 +10,16 @@
  */
 
 import type { ChannelType } from '../types/output.js';
-import { categorizeTransaction as categorizeRuleBased, type CategorizationResult } from './categorizer-v2.js';
-import { MLCategorizer, type MLCategorizationResult, type TrainingExample } from './ml-categorizer.js';
+import {
+  categorizeTransaction as categorizeRuleBased,
+  categorizeWithRules,
+  mergeCategoryRules,
+  type CategorizationContext,
+  type CategorizationResult,
+  type CategoryRule,
+} from './categorizer-v2.js';
+import type { MLCategorizationResult, TrainingExample } from './ml-categorizer.js';
+import { createClassifier, type ClassifierTrainOptions, type MLEngine, type TransactionClassifier } from './classifier.js';
 
 export interface HybridCategorizationResult extends CategorizationResult {
   source: 'rule' | 'ml' | 'hybrid';
@@ -26,6 +34,12 @@ export interface HybridCategorizerConfig {
   ruleWeight: number;
   useMLForValidation: boolean;
   useMLForUncategorized: boolean;
+  /** User rules (e.g. from a rules file), merged with the built-in rules by priority */
+  rules: CategoryRule[];
+  /** ML classifier: `use` (Universal Sentence Encoder, downloaded) or `local` (offline) */
+  engine: MLEngine;
+  /** Custom classifier; takes precedence over `engine` */
+  classifier?: TransactionClassifier;
 }
 
 const DEFAULT_CONFIG: HybridCategorizerConfig = {
@@ -35,23 +49,27 @@ const DEFAULT_CONFIG: HybridCategorizerConfig = {
   ruleWeight: 0.6,
   useMLForValidation: true,
   useMLForUncategorized: true,
+  rules: [],
+  engine: 'use',
 };
 
 export class HybridCategorizer {
-  private mlCategorizer: MLCategorizer;
+  private mlCategorizer: TransactionClassifier;
   private config: HybridCategorizerConfig;
+  private ruleList: CategoryRule[];
   private isMLReady = false;
 
   constructor(config: Partial<HybridCategorizerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.mlCategorizer = new MLCategorizer();
+    this.ruleList = mergeCategoryRules(this.config.rules);
+    this.mlCategorizer = this.config.classifier ?? createClassifier(this.config.engine);
   }
 
   async initialize(): Promise<void> {
     await this.mlCategorizer.initialize();
   }
 
-  async trainML(examples: TrainingExample[], options?: { epochs?: number; batchSize?: number }): Promise<void> {
+  async trainML(examples: TrainingExample[], options?: ClassifierTrainOptions): Promise<void> {
     await this.mlCategorizer.train(examples, options);
     this.isMLReady = true;
   }
@@ -65,8 +83,8 @@ export class HybridCategorizer {
     await this.mlCategorizer.saveModel(path);
   }
 
-  categorize(description: string, channelType?: ChannelType): HybridCategorizationResult {
-    const ruleResult = categorizeRuleBased(description, channelType);
+  categorize(description: string, channelType?: ChannelType, context?: CategorizationContext): HybridCategorizationResult {
+    const ruleResult = categorizeWithRules(this.ruleList, description, channelType, context);
 
     if (ruleResult.confidence >= this.config.ruleHighConfidenceThreshold) {
       return {
@@ -91,8 +109,12 @@ export class HybridCategorizer {
     };
   }
 
-  async categorizeAsync(description: string, channelType?: ChannelType): Promise<HybridCategorizationResult> {
-    const ruleResult = categorizeRuleBased(description, channelType);
+  async categorizeAsync(
+    description: string,
+    channelType?: ChannelType,
+    context?: CategorizationContext
+  ): Promise<HybridCategorizationResult> {
+    const ruleResult = categorizeWithRules(this.ruleList, description, channelType, context);
 
     if (ruleResult.confidence >= this.config.ruleHighConfidenceThreshold) {
       return {
@@ -169,12 +191,13 @@ export class HybridCategorizer {
 
   async categorizeBatchAsync(
     descriptions: string[],
-    channelTypes?: (ChannelType | undefined)[]
+    channelTypes?: (ChannelType | undefined)[],
+    contexts?: (CategorizationContext | undefined)[]
   ): Promise<HybridCategorizationResult[]> {
     const results: HybridCategorizationResult[] = [];
     
     const ruleResults = descriptions.map((desc, i) => 
-      categorizeRuleBased(desc, channelTypes?.[i])
+      categorizeWithRules(this.ruleList, desc, channelTypes?.[i], contexts?.[i])
     );
 
     if (!this.isMLReady) {
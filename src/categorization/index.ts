@@ -5,13 +5,59 @@ export type { CategorizationResult } from './categorizer.js';
 
 export { 
   categorizeTransaction,
+  categorizeWithRules,
+  mergeCategoryRules,
   CATEGORY_RULES_V2,
   DEFAULT_CATEGORY as DEFAULT_CATEGORY_V2,
   DEFAULT_CONFIDENCE as DEFAULT_CONFIDENCE_V2,
   getCategoryRuleById,
   getRulesByCategory,
 } from './categorizer-v2.js';
-export type { CategoryRule as CategoryRuleV2, CategorizationResult as CategorizationResultV2 } from './categorizer-v2.js';
+export type {
+  CategoryRule as CategoryRuleV2,
+  CategorizationResult as CategorizationResultV2,
+  CategorizationContext,
+} from './categorizer-v2.js';
+
+// User rules file
+export {
+  parseCategoryRules,
+  loadCategoryRules,
+  applyCategoryRules,
+  createUserRuleMatcher,
+  transactionContext,
+} from './rules-loader.js';
+export type { ApplyCategoryRulesOptions } from './rules-loader.js';
+
+// Rules learned from human overrides
+export {
+  normalizeMerchantKey,
+  learnRulesFromOverrides,
+  loadLearnedRules,
+  acceptLearnedRules,
+  DEFAULT_LEARNED_RULES_PATH,
+  LEARNED_RULE_PRIORITY,
+} from './override-rules.js';
+export type { OverrideExample, LearnedRuleProposal, LearnRulesOptions } from './override-rules.js';
+
+// Review queue for low-confidence transactions
+export {
+  needsReview,
+  reviewMerchantKey,
+  findSimilarTransactions,
+  suggestDecision,
+  sameMerchantItems,
+  parseCategoryAnswer,
+  subcategoryChoices,
+  applyReviewDecisions,
+  reviewItemsFromResult,
+  overridesSidecarPath,
+  loadOverridesSidecar,
+  saveOverridesSidecar,
+  REVIEW_CONFIDENCE_THRESHOLD,
+  REVIEW_CATEGORIES,
+} from './review.js';
+export type { ReviewItem, ReviewDecision, SidecarOverride } from './review.js';
 
 // ML-based categorization
 export { 
@@ -25,6 +71,16 @@ export type {
   MLCategorizerConfig,
 } from './ml-categorizer.js';
 
+// Offline ML categorization and the classifier interface
+export {
+  LocalMLCategorizer,
+  LOCAL_MODEL_FILE,
+  LOCAL_WEIGHTS_FILE,
+} from './local-categorizer.js';
+export type { LocalMLCategorizerConfig } from './local-categorizer.js';
+export { createClassifier, isMLEngine, ML_ENGINES } from './classifier.js';
+export type { TransactionClassifier, ClassifierTrainOptions, MLEngine } from './classifier.js';
+
 // Hybrid categorization (rule + ML)
 export { 
   HybridCategorizer,
@@ -41,3 +97,25 @@ export {
   generateFromParsedTransactions,
   MERCHANT_TEMPLATES,
 } from './training-data-generator.js';
+
+// Model evaluation
+export {
+  evaluateCategorizer,
+  scoreCategorization,
+  computeCalibration,
+  formatEvaluationReport,
+  EVALUATED_STRATEGIES,
+} from './evaluation.js';
+export type {
+  LabelledExample,
+  LabelSource,
+  EvaluatedStrategy,
+  EvaluationOptions,
+  EvaluationReport,
+  StrategyMetrics,
+  CategoryMetrics,
+  ConfusionMatrix,
+  CalibrationReport,
+  CalibrationBin,
+  FoldResult,
+} from './evaluation.js';
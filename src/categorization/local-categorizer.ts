@@ -0,0 +1,420 @@
+/**
+ * Offline ML Categorizer - hashed n-gram features with softmax regression
+ *
+ * A fully local alternative to MLCategorizer: nothing is downloaded, and
+ * training and prediction run in plain TypeScript.
+ *
+ * Architecture:
+ * 1. Text preprocessing (same as MLCategorizer)
+ * 2. Words, word bigrams and character 3/4-grams, hashed into a fixed
+ *    number of buckets and L2-normalized, plus the channel type
+ * 3. Two softmax regressions (category and subcategory) trained with SGD
+ * 4. Subcategory restricted to those seen with the predicted category
+ *
+ * The model is saved next to the Universal Sentence Encoder model, as
+ * `local-model.json` (labels and weight manifest) and `local-weights.bin`
+ * (float32 weights), so both can share a model directory.
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import type { Category, Subcategory, ChannelType } from '../types/output.js';
+import type { ClassifierTrainOptions, TransactionClassifier } from './classifier.js';
+import {
+  CATEGORIES_LIST,
+  SUBCATEGORIES_LIST,
+  preprocessDescription,
+  type MLCategorizationResult,
+  type TrainingExample,
+} from './ml-categorizer.js';
+
+export interface LocalMLCategorizerConfig {
+  /** Feature vector size; hashed features share buckets beyond this */
+  hashBuckets: number;
+  /** Initial SGD learning rate */
+  learningRate: number;
+  /** Seed for shuffling training examples */
+  seed: number;
+  minConfidenceThreshold: number;
+}
+
+const DEFAULT_CONFIG: LocalMLCategorizerConfig = {
+  hashBuckets: 4096,
+  learningRate: 0.5,
+  seed: 42,
+  minConfidenceThreshold: 0.6,
+};
+
+export const LOCAL_MODEL_FILE = 'local-model.json';
+export const LOCAL_WEIGHTS_FILE = 'local-weights.bin';
+
+const LOCAL_MODEL_FORMAT = 'findata-local-classifier';
+const LOCAL_MODEL_VERSION = 1;
+const DEFAULT_EPOCHS = 10;
+const CHAR_NGRAM_SIZES = [3, 4];
+
+/** Sparse, L2-normalized feature vector */
+interface Features {
+  indices: number[];
+  values: number[];
+}
+
+interface LocalModelFile {
+  format: string;
+  version: number;
+  hashBuckets: number;
+  categories: Category[];
+  subcategories: Subcategory[];
+  /** Subcategories seen with each category in the training data */
+  subcategoriesByCategory: Record<string, Subcategory[]>;
+  trainingExamples: number;
+  weights: Array<{ name: string; shape: number[] }>;
+}
+
+function argmax(values: ArrayLike<number>, allowed?: number[]): number {
+  const candidates = allowed ?? Array.from({ length: values.length }, (_, i) => i);
+  let best = candidates[0] ?? 0;
+  for (const i of candidates) {
+    if (values[i]! > values[best]!) best = i;
+  }
+  return best;
+}
+
+/**
+ * One softmax regression over hashed features. Weights are class-major:
+ * `kernel[c * buckets + f]`.
+ */
+class SoftmaxLayer {
+  readonly kernel: Float32Array;
+  readonly bias: Float32Array;
+  private readonly scores: Float64Array;
+
+  constructor(readonly classes: number, readonly buckets: number) {
+    this.kernel = new Float32Array(classes * buckets);
+    this.bias = new Float32Array(classes);
+    this.scores = new Float64Array(classes);
+  }
+
+  /** Class probabilities (the returned array is reused by the next call) */
+  probabilities(x: Features): Float64Array {
+    let max = -Infinity;
+    for (let c = 0; c < this.classes; c++) {
+      let score = this.bias[c]!;
+      const offset = c * this.buckets;
+      for (let k = 0; k < x.indices.length; k++) {
+        score += this.kernel[offset + x.indices[k]!]! * x.values[k]!;
+      }
+      this.scores[c] = score;
+      if (score > max) max = score;
+    }
+
+    let sum = 0;
+    for (let c = 0; c < this.classes; c++) {
+      const e = Math.exp(this.scores[c]! - max);
+      this.scores[c] = e;
+      sum += e;
+    }
+    for (let c = 0; c < this.classes; c++) {
+      this.scores[c] = this.scores[c]! / sum;
+    }
+    return this.scores;
+  }
+
+  /** One SGD step on cross-entropy loss; returns the loss and whether the prediction was right */
+  step(x: Features, target: number, learningRate: number): { loss: number; correct: boolean } {
+    const probs = this.probabilities(x);
+    const loss = -Math.log(Math.max(probs[target]!, 1e-12));
+    const correct = argmax(probs) === target;
+
+    for (let c = 0; c < this.classes; c++) {
+      const gradient = probs[c]! - (c === target ? 1 : 0);
+      if (Math.abs(gradient) < 1e-6) continue;
+      this.bias[c] = this.bias[c]! - learningRate * gradient;
+      const offset = c * this.buckets;
+      for (let k = 0; k < x.indices.length; k++) {
+        const i = offset + x.indices[k]!;
+        this.kernel[i] = this.kernel[i]! - learningRate * gradient * x.values[k]!;
+      }
+    }
+    return { loss, correct };
+  }
+}
+
+/** 32-bit FNV-1a */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Deterministic PRNG (mulberry32) for shuffling */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class LocalMLCategorizer implements TransactionClassifier {
+  private config: LocalMLCategorizerConfig;
+  private categories: Category[] = [...CATEGORIES_LIST];
+  private subcategories: Subcategory[] = [...SUBCATEGORIES_LIST];
+  private subcategoriesByCategory = new Map<Category, number[]>();
+  private categoryLayer: SoftmaxLayer | null = null;
+  private subcategoryLayer: SoftmaxLayer | null = null;
+  private trainingExamples = 0;
+
+  constructor(config: Partial<LocalMLCategorizerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /** Nothing to load: the local model needs no encoder */
+  initialize(): Promise<void> {
+    // No-op; kept for the TransactionClassifier interface
+    return Promise.resolve();
+  }
+
+  /**
+   * Hashed features for a description: words, word bigrams, character
+   * n-grams of each word, and the channel type.
+   */
+  featurize(description: string, channelType?: ChannelType): Features {
+    const words = preprocessDescription(description)
+      .split(/[^a-z0-9&']+/)
+      .filter((word) => word.length > 0 && !/^\d+$/.test(word));
+
+    const tokens: string[] = [];
+    for (const [i, word] of words.entries()) {
+      tokens.push(`w:${word}`);
+      const next = words[i + 1];
+      if (next !== undefined) tokens.push(`b:${word} ${next}`);
+      const padded = `<${word}>`;
+      for (const n of CHAR_NGRAM_SIZES) {
+        for (let j = 0; j + n <= padded.length; j++) {
+          tokens.push(`c:${padded.slice(j, j + n)}`);
+        }
+      }
+    }
+    if (channelType !== undefined) {
+      tokens.push(`ch:${channelType}`);
+    }
+
+    const counts = new Map<number, number>();
+    for (const token of tokens) {
+      const bucket = hashToken(token) % this.config.hashBuckets;
+      counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+    }
+    const norm = Math.sqrt([...counts.values()].reduce((sum, v) => sum + v * v, 0)) || 1;
+    return {
+      indices: [...counts.keys()],
+      values: [...counts.values()].map((v) => v / norm),
+    };
+  }
+
+  train(examples: TrainingExample[], options: ClassifierTrainOptions = {}): Promise<{ loss: number; accuracy: number }> {
+    const epochs = options.epochs ?? DEFAULT_EPOCHS;
+    const categoryIndex = new Map(this.categories.map((c, i) => [c, i]));
+    const subcategoryIndex = new Map(this.subcategories.map((s, i) => [s, i]));
+
+    const samples = examples.flatMap((e) => {
+      const category = categoryIndex.get(e.category);
+      const subcategory = subcategoryIndex.get(e.subcategory);
+      if (category === undefined || subcategory === undefined) return [];
+      return [{ features: this.featurize(e.description, e.channelType), category, subcategory }];
+    });
+    if (samples.length === 0) {
+      return Promise.reject(new Error('No training examples with a known category and subcategory'));
+    }
+
+    const buckets = this.config.hashBuckets;
+    this.categoryLayer = new SoftmaxLayer(this.categories.length, buckets);
+    this.subcategoryLayer = new SoftmaxLayer(this.subcategories.length, buckets);
+    this.subcategoriesByCategory = new Map();
+    for (const sample of samples) {
+      const category = this.categories[sample.category]!;
+      const seen = this.subcategoriesByCategory.get(category) ?? [];
+      if (!seen.includes(sample.subcategory)) seen.push(sample.subcategory);
+      this.subcategoriesByCategory.set(category, seen);
+    }
+
+    const random = seededRandom(this.config.seed);
+    let loss = 0;
+    let correct = 0;
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      // Fisher-Yates shuffle
+      for (let i = samples.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [samples[i], samples[j]] = [samples[j]!, samples[i]!];
+      }
+
+      const learningRate = this.config.learningRate / (1 + epoch * 0.1);
+      loss = 0;
+      correct = 0;
+      for (const sample of samples) {
+        const categoryStep = this.categoryLayer.step(sample.features, sample.category, learningRate);
+        const subcategoryStep = this.subcategoryLayer.step(sample.features, sample.subcategory, learningRate);
+        loss += categoryStep.loss + subcategoryStep.loss;
+        if (categoryStep.correct) correct++;
+      }
+      loss /= samples.length;
+      options.onEpoch?.(epoch, loss, correct / samples.length);
+    }
+
+    this.trainingExamples = samples.length;
+    return Promise.resolve({ loss, accuracy: correct / samples.length });
+  }
+
+  predict(description: string, channelType?: ChannelType): Promise<MLCategorizationResult> {
+    if (this.categoryLayer === null || this.subcategoryLayer === null) {
+      return Promise.reject(new Error('Model not trained. Call train() first or load a pre-trained model.'));
+    }
+
+    const features = this.featurize(description, channelType);
+    const categoryProbs = this.categoryLayer.probabilities(features);
+    const categoryIdx = argmax(categoryProbs);
+    const categoryConfidence = categoryProbs[categoryIdx] ?? 0;
+    const category = this.categories[categoryIdx] ?? 'Uncategorized';
+
+    // Pick among the subcategories seen with this category, renormalized
+    const subcategoryProbs = this.subcategoryLayer.probabilities(features);
+    const allowed = this.subcategoriesByCategory.get(category);
+    const subcategoryIdx = argmax(subcategoryProbs, allowed);
+    const allowedMass = allowed !== undefined ? allowed.reduce((sum, i) => sum + subcategoryProbs[i]!, 0) : 1;
+    const subcategoryConfidence = allowedMass > 0 ? (subcategoryProbs[subcategoryIdx] ?? 0) / allowedMass : 0;
+    const subcategory = this.subcategories[subcategoryIdx] ?? null;
+
+    const combinedConfidence = (categoryConfidence + subcategoryConfidence) / 2;
+
+    if (combinedConfidence < this.config.minConfidenceThreshold) {
+      return Promise.resolve({
+        category: 'Uncategorized',
+        subcategory: null,
+        confidence: combinedConfidence,
+        mlConfidence: combinedConfidence,
+        ruleId: null,
+        rationale: `ML confidence ${(combinedConfidence * 100).toFixed(1)}% below threshold`,
+      });
+    }
+
+    return Promise.resolve({
+      category,
+      subcategory,
+      confidence: combinedConfidence,
+      mlConfidence: combinedConfidence,
+      ruleId: 'ml-local-classifier',
+      rationale: `ML prediction: ${category}/${subcategory} (${(combinedConfidence * 100).toFixed(1)}%)`,
+    });
+  }
+
+  predictBatch(
+    descriptions: string[],
+    channelTypes?: (ChannelType | undefined)[]
+  ): Promise<MLCategorizationResult[]> {
+    return Promise.all(descriptions.map((description, i) => this.predict(description, channelTypes?.[i])));
+  }
+
+  async saveModel(path: string): Promise<void> {
+    if (this.categoryLayer === null || this.subcategoryLayer === null) {
+      throw new Error('No model to save');
+    }
+
+    await mkdir(path, { recursive: true });
+
+    const layers = [this.categoryLayer, this.subcategoryLayer];
+    const modelFile: LocalModelFile = {
+      format: LOCAL_MODEL_FORMAT,
+      version: LOCAL_MODEL_VERSION,
+      hashBuckets: this.config.hashBuckets,
+      categories: this.categories,
+      subcategories: this.subcategories,
+      subcategoriesByCategory: Object.fromEntries(
+        [...this.subcategoriesByCategory].map(([category, indices]) => [category, indices.map((i) => this.subcategories[i] ?? null)])
+      ),
+      trainingExamples: this.trainingExamples,
+      weights: [
+        { name: 'category/kernel', shape: [this.categoryLayer.classes, this.categoryLayer.buckets] },
+        { name: 'category/bias', shape: [this.categoryLayer.classes] },
+        { name: 'subcategory/kernel', shape: [this.subcategoryLayer.classes, this.subcategoryLayer.buckets] },
+        { name: 'subcategory/bias', shape: [this.subcategoryLayer.classes] },
+      ],
+    };
+
+    const arrays = layers.flatMap((layer) => [layer.kernel, layer.bias]);
+    const weights = Buffer.concat(arrays.map((a) => Buffer.from(a.buffer, a.byteOffset, a.byteLength)));
+    await writeFile(join(path, LOCAL_MODEL_FILE), JSON.stringify(modelFile, null, 2));
+    await writeFile(join(path, LOCAL_WEIGHTS_FILE), weights);
+  }
+
+  async loadModel(path: string): Promise<void> {
+    const modelPath = resolve(path, LOCAL_MODEL_FILE);
+    if (!existsSync(modelPath)) {
+      throw new Error(`No local model in ${resolve(path)} (${LOCAL_MODEL_FILE}); train one with --train-ml --ml-engine local`);
+    }
+
+    try {
+      const modelFile = JSON.parse(await readFile(modelPath, 'utf-8')) as LocalModelFile;
+      if (modelFile.format !== LOCAL_MODEL_FORMAT || modelFile.version !== LOCAL_MODEL_VERSION) {
+        throw new Error(`expected format "${LOCAL_MODEL_FORMAT}" version ${LOCAL_MODEL_VERSION}`);
+      }
+
+      const buckets = modelFile.hashBuckets;
+      const categoryLayer = new SoftmaxLayer(modelFile.categories.length, buckets);
+      const subcategoryLayer = new SoftmaxLayer(modelFile.subcategories.length, buckets);
+      const arrays = [categoryLayer.kernel, categoryLayer.bias, subcategoryLayer.kernel, subcategoryLayer.bias];
+
+      const weights = await readFile(resolve(path, LOCAL_WEIGHTS_FILE));
+      const expectedBytes = arrays.reduce((sum, a) => sum + a.byteLength, 0);
+      if (weights.byteLength !== expectedBytes) {
+        throw new Error(`${LOCAL_WEIGHTS_FILE} has ${weights.byteLength} bytes, expected ${expectedBytes}`);
+      }
+      let offset = 0;
+      for (const array of arrays) {
+        new Uint8Array(array.buffer).set(weights.subarray(offset, offset + array.byteLength));
+        offset += array.byteLength;
+      }
+
+      const subcategoryIndex = new Map(modelFile.subcategories.map((s, i) => [s, i]));
+      this.config = { ...this.config, hashBuckets: buckets };
+      this.categories = modelFile.categories;
+      this.subcategories = modelFile.subcategories;
+      this.subcategoriesByCategory = new Map(
+        Object.entries(modelFile.subcategoriesByCategory).map(([category, subs]) => [
+          category as Category,
+          subs.flatMap((s) => subcategoryIndex.get(s) ?? []),
+        ])
+      );
+      this.trainingExamples = modelFile.trainingExamples;
+      this.categoryLayer = categoryLayer;
+      this.subcategoryLayer = subcategoryLayer;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid local model file ${modelPath}: ${message}`);
+    }
+  }
+
+  getModelSummary(): string {
+    if (this.categoryLayer === null || this.subcategoryLayer === null) {
+      return 'Model not built';
+    }
+    return [
+      'Local classifier (hashed word and character n-grams, softmax regression)',
+      `  Feature buckets: ${this.config.hashBuckets}`,
+      `  Categories:      ${this.categoryLayer.classes}`,
+      `  Subcategories:   ${this.subcategoryLayer.classes}`,
+      `  Trained on:      ${this.trainingExamples} example(s)`,
+    ].join('\n');
+  }
+
+  dispose(): void {
+    this.categoryLayer = null;
+    this.subcategoryLayer = null;
+  }
+}
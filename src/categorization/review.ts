@@ -0,0 +1,319 @@
+/**
+ * Review queue for low-confidence and uncategorized transactions.
+ *
+ * The CLI builds review items from the `transactions_needing_review` view or
+ * from a parse result JSON. This module picks what needs review, finds
+ * similar categorized transactions and same-merchant items for bulk
+ * decisions, and keeps decisions for result files in an overrides sidecar
+ * file (`<result>.overrides.json`) next to the result.
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import { CATEGORIES, type Category, type Direction } from '../types/output.js';
+import { computeStatementId, computeTransactionId } from '../utils/id-generator.js';
+import { getRulesByCategory } from './categorizer-v2.js';
+import { normalizeMerchantKey } from './override-rules.js';
+
+/**
+ * A transaction in the review queue or its history
+ */
+export interface ReviewItem {
+  /** Transaction database id, or the transaction id in a result file */
+  id: string;
+  date: string;
+  description: string;
+  merchant: string | null;
+  amount: number;
+  direction?: Direction;
+  /** Account label for display, e.g. `checking ****1234` */
+  account?: string;
+  category: string;
+  subcategory: string | null;
+  confidence: number | null;
+  ruleId: string | null;
+  rationale: string | null;
+}
+
+export interface ReviewDecision {
+  category: Category;
+  subcategory: string | null;
+}
+
+/**
+ * A decision recorded in an overrides sidecar file
+ */
+export interface SidecarOverride extends ReviewDecision {
+  transactionId: string;
+  description: string;
+  merchant?: string | null;
+  direction?: Direction;
+  source: 'human';
+  updatedAt: string;
+}
+
+/** Same cut-off as the `transactions_needing_review` view */
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+/** Categories a transaction can be reviewed into, numbered from 1 in prompts */
+export const REVIEW_CATEGORIES: Category[] = CATEGORIES.filter((c) => c !== 'Uncategorized');
+
+const SIDECAR_SUFFIX = '.overrides.json';
+const HUMAN_OVERRIDE_RATIONALE = 'Human override';
+
+/**
+ * Uncategorized, or categorized with confidence under the threshold.
+ */
+export function needsReview(
+  item: Pick<ReviewItem, 'category' | 'confidence'>,
+  threshold: number = REVIEW_CONFIDENCE_THRESHOLD
+): boolean {
+  return item.category === 'Uncategorized' || item.confidence === null || item.confidence < threshold;
+}
+
+/**
+ * Merchant key used to group review items (see normalizeMerchantKey).
+ */
+export function reviewMerchantKey(item: Pick<ReviewItem, 'description' | 'merchant'>): string | null {
+  return normalizeMerchantKey(item.description, item.merchant);
+}
+
+/**
+ * Categorized transactions from the same merchant, most recent first.
+ */
+export function findSimilarTransactions(
+  item: ReviewItem,
+  history: ReviewItem[],
+  limit = 3,
+  threshold: number = REVIEW_CONFIDENCE_THRESHOLD
+): ReviewItem[] {
+  const key = reviewMerchantKey(item);
+  if (key === null) return [];
+
+  return history
+    .filter((other) => other.id !== item.id && !needsReview(other, threshold) && reviewMerchantKey(other) === key)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, limit);
+}
+
+/**
+ * Most common category and subcategory among similar transactions; ties go
+ * to the most recent one.
+ */
+export function suggestDecision(similar: ReviewItem[]): ReviewDecision | null {
+  const counts = new Map<string, { decision: ReviewDecision; count: number }>();
+  for (const other of similar) {
+    const category = REVIEW_CATEGORIES.find((c) => c === other.category);
+    if (category === undefined) continue;
+    const label = `${category}\u0000${other.subcategory ?? ''}`;
+    const entry = counts.get(label) ?? { decision: { category, subcategory: other.subcategory }, count: 0 };
+    entry.count++;
+    counts.set(label, entry);
+  }
+
+  const [best] = [...counts.values()].sort((a, b) => b.count - a.count);
+  return best?.decision ?? null;
+}
+
+/**
+ * Other queued items from the same merchant, for "apply to all".
+ */
+export function sameMerchantItems(item: ReviewItem, queue: ReviewItem[]): ReviewItem[] {
+  const key = reviewMerchantKey(item);
+  if (key === null) return [];
+  return queue.filter((other) => other.id !== item.id && reviewMerchantKey(other) === key);
+}
+
+/**
+ * Category for a prompt answer: its number in REVIEW_CATEGORIES, its name,
+ * or an unambiguous prefix of the name (case-insensitive).
+ */
+export function parseCategoryAnswer(answer: string): Category | null {
+  const trimmed = answer.trim().toLowerCase();
+  if (trimmed === '') return null;
+
+  if (/^\d+$/.test(trimmed)) {
+    return REVIEW_CATEGORIES[Number(trimmed) - 1] ?? null;
+  }
+  const exact = REVIEW_CATEGORIES.find((c) => c.toLowerCase() === trimmed);
+  if (exact !== undefined) return exact;
+  const matches = REVIEW_CATEGORIES.filter((c) => c.toLowerCase().startsWith(trimmed));
+  return matches.length === 1 ? matches[0]! : null;
+}
+
+/**
+ * Subcategories the built-in rules use for a category, to offer in prompts.
+ */
+export function subcategoryChoices(category: Category): string[] {
+  const subcategories = getRulesByCategory(category).flatMap((rule) => (rule.subcategory !== null ? [rule.subcategory] : []));
+  return [...new Set(subcategories)].sort();
+}
+
+/**
+ * Apply decisions (by item id) to review items, as the database view does
+ * with human overrides.
+ */
+export function applyReviewDecisions(items: ReviewItem[], decisions: Map<string, ReviewDecision>): ReviewItem[] {
+  return items.map((item) => {
+    const decision = decisions.get(item.id);
+    if (decision === undefined) return item;
+    return { ...item, ...decision, confidence: 1, ruleId: null, rationale: HUMAN_OVERRIDE_RATIONALE };
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Transaction id of a v1 result transaction, computed from its statement's
+ * account and period as the v2 adapter does, so it does not change when the
+ * result is regenerated or merged. Null when a field the id needs is missing.
+ */
+function v1TransactionId(account: Record<string, unknown>, tx: Record<string, unknown>): string | null {
+  const period = isRecord(account['statementPeriod']) ? account['statementPeriod'] : {};
+  const raw = isRecord(tx['raw']) ? tx['raw'] : {};
+  const institution = stringOrNull(account['institution']);
+  const institutionId = stringOrNull(account['institutionId']);
+  const accountType = stringOrNull(account['accountType']);
+  const accountNumberMasked = stringOrNull(account['accountNumberMasked']);
+  const start = stringOrNull(period['start']);
+  const end = stringOrNull(period['end']);
+  const date = stringOrNull(tx['date']);
+  const direction = tx['direction'];
+  const page = raw['page'];
+  const originalText = stringOrNull(raw['originalText']);
+  if (
+    institution === null || accountType === null || accountNumberMasked === null || start === null || end === null ||
+    date === null || (direction !== 'debit' && direction !== 'credit') || typeof page !== 'number' || originalText === null ||
+    typeof tx['amount'] !== 'number' || typeof tx['description'] !== 'string'
+  ) {
+    return null;
+  }
+
+  const statementId = computeStatementId({
+    account: {
+      institution,
+      ...(institutionId !== null ? { institutionId } : {}),
+      accountType,
+      accountNumberMasked,
+      statementPeriod: { start, end },
+    },
+  });
+  return computeTransactionId({
+    date,
+    postedDate: stringOrNull(tx['postedDate']),
+    direction,
+    amount: tx['amount'],
+    description: tx['description'],
+    merchant: stringOrNull(tx['merchant']),
+    raw: { page, originalText },
+  }, statementId);
+}
+
+/**
+ * Review items for every transaction in a parse result (v1 `statements` or
+ * v2 `accounts`). Transactions without a `transactionId` (v1) get the id the
+ * v2 adapter would give them, or a date, amount and description key when the
+ * result lacks the fields it is computed from.
+ */
+export function reviewItemsFromResult(result: unknown): ReviewItem[] {
+  const statements = isRecord(result) ? result['accounts'] ?? result['statements'] : undefined;
+  if (!Array.isArray(statements)) {
+    throw new Error('expected an "accounts" or "statements" array');
+  }
+
+  const items: ReviewItem[] = [];
+  for (const statement of statements) {
+    if (!isRecord(statement) || !Array.isArray(statement['transactions'])) continue;
+    const account = isRecord(statement['account']) ? statement['account'] : {};
+    const accountLabel = [account['accountType'], account['accountNumberMasked']].filter((v) => typeof v === 'string').join(' ');
+
+    for (const tx of statement['transactions']) {
+      if (!isRecord(tx) || typeof tx['description'] !== 'string' || typeof tx['amount'] !== 'number') continue;
+      const date = stringOrNull(tx['date']) ?? '';
+      const direction = tx['direction'];
+      const merchant = isRecord(tx['merchant']) ? tx['merchant']['name'] : tx['merchant'];
+
+      const item: ReviewItem = {
+        id: stringOrNull(tx['transactionId']) ?? v1TransactionId(account, tx) ?? `${date}|${tx['amount']}|${tx['description']}`,
+        date,
+        description: tx['description'],
+        merchant: stringOrNull(merchant),
+        amount: tx['amount'],
+        category: stringOrNull(tx['category']) ?? 'Uncategorized',
+        subcategory: stringOrNull(tx['subcategory']),
+        confidence: typeof tx['confidence'] === 'number' ? tx['confidence'] : null,
+        ruleId: stringOrNull(tx['ruleId']),
+        rationale: stringOrNull(tx['rationale']),
+      };
+      if (direction === 'debit' || direction === 'credit') {
+        item.direction = direction;
+      }
+      if (accountLabel !== '') {
+        item.account = accountLabel;
+      }
+      items.push(item);
+    }
+  }
+  return items;
+}
+
+/**
+ * Overrides sidecar file for a result file: `result.json` → `result.overrides.json`.
+ */
+export function overridesSidecarPath(resultPath: string): string {
+  const absolutePath = resolve(resultPath);
+  return join(dirname(absolutePath), `${basename(absolutePath).replace(/\.json$/i, '')}${SIDECAR_SUFFIX}`);
+}
+
+/**
+ * Read an overrides sidecar file; no overrides when it does not exist yet.
+ */
+export async function loadOverridesSidecar(filePath: string): Promise<SidecarOverride[]> {
+  const absolutePath = resolve(filePath);
+  if (!existsSync(absolutePath)) {
+    return [];
+  }
+
+  try {
+    const data = JSON.parse(await readFile(absolutePath, 'utf-8')) as unknown;
+    if (!isRecord(data) || !Array.isArray(data['overrides'])) {
+      throw new Error('must be an object with an "overrides" array');
+    }
+    data['overrides'].forEach((override: unknown, i) => {
+      if (!isRecord(override) || typeof override['transactionId'] !== 'string') {
+        throw new Error(`Override ${i + 1}: "transactionId" must be a string`);
+      }
+      if (!REVIEW_CATEGORIES.some((c) => c === override['category'])) {
+        throw new Error(`Override ${i + 1}: "category" must be one of: ${REVIEW_CATEGORIES.join(', ')}`);
+      }
+    });
+    return data['overrides'] as SidecarOverride[];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid overrides file ${absolutePath}: ${message}`);
+  }
+}
+
+/**
+ * Record decisions in an overrides sidecar file. A decision replaces an
+ * earlier one for the same transaction.
+ */
+export async function saveOverridesSidecar(filePath: string, overrides: SidecarOverride[]): Promise<void> {
+  const absolutePath = resolve(filePath);
+  const existing = await loadOverridesSidecar(absolutePath);
+
+  const byId = new Map(existing.map((override) => [override.transactionId, override]));
+  for (const override of overrides) {
+    byId.set(override.transactionId, override);
+  }
+
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, JSON.stringify({ overrides: [...byId.values()] }, null, 2) + '\n', 'utf-8');
+}
@@ -1,5 +1,6 @@
 export {
   extractPDF,
+  extractPDFFromBuffer,
   findLinesByPattern,
   extractTextBetweenMarkers,
 } from './pdf-extractor.js';
@@ -12,4 +13,14 @@ export {
   extractTextItemsFromBuffer,
 } from './layout-pdfjs.js';
 
-export type { TextItem, LayoutExtractedPDF } from './layout-pdfjs.js';
+export type { TextItem, LayoutExtractedPDF, LayoutExtractOptions } from './layout-pdfjs.js';
+
+// Encrypted PDFs
+export { PdfPasswordError, isPdfPasswordError } from './pdf-password.js';
+
+export type { PdfPasswordOptions, PdfPasswordReason } from './pdf-password.js';
+
+// OCR fallback for scanned pages
+export { recognizePages, ocrLinesToTextItems, DEFAULT_OCR_DPI } from './ocr.js';
+
+export type { OcrOptions, OcrPageResult, OcrLine, OcrWord, OcrBox } from './ocr.js';
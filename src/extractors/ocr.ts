@@ -0,0 +1,204 @@
+/**
+ * OCR fallback for scanned (image-only) PDF pages.
+ *
+ * Pages without a text layer are rendered with pdfjs onto a canvas and read
+ * with tesseract.js using the English language data bundled in
+ * `@tesseract.js-data/eng`, so recognition runs locally without network
+ * access. Recognized words are grouped into phrases and returned as TextItems
+ * in PDF units, so row/column reconstruction and the parsers work unchanged.
+ */
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import type { PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from './layout-pdfjs.js';
+
+/** Render resolution for OCR (tesseract is tuned for ~300 DPI scans) */
+export const DEFAULT_OCR_DPI = 300;
+
+/** Words closer than this fraction of the text height belong to the same phrase */
+const PHRASE_GAP_RATIO = 0.6;
+
+/**
+ * Options for OCR of image-only pages.
+ */
+export interface OcrOptions {
+  /** Render resolution in dots per inch (default: 300) */
+  dpi?: number;
+}
+
+/**
+ * Bounding box or baseline in image pixels (origin top-left).
+ */
+export interface OcrBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * A recognized word (structurally compatible with tesseract.js words).
+ */
+export interface OcrWord {
+  text: string;
+  /** Recognition confidence, 0-100 */
+  confidence: number;
+  bbox: OcrBox;
+}
+
+/**
+ * A recognized text line (structurally compatible with tesseract.js lines).
+ */
+export interface OcrLine {
+  words: OcrWord[];
+  baseline: OcrBox;
+}
+
+/**
+ * OCR output for one page.
+ */
+export interface OcrPageResult {
+  pageNumber: number;
+  items: TextItem[];
+  /** Mean word confidence, 0-1 */
+  confidence: number;
+}
+
+type RenderParameters = Parameters<PDFPageProxy['render']>[0];
+
+/**
+ * Convert recognized lines into TextItems in PDF units.
+ *
+ * Words on a line are joined into phrases while the gap between them stays
+ * below ~0.6 of the text height, mirroring how pdfjs returns text runs. Every
+ * phrase on a line shares the line's baseline, so slightly skewed scans still
+ * group into one row.
+ *
+ * @param lines - Recognized lines from the rendered page image
+ * @param pageNumber - Page number (1-indexed)
+ * @param pageHeight - Page height in PDF units
+ * @param scale - Image pixels per PDF unit used when rendering
+ */
+export function ocrLinesToTextItems(
+  lines: OcrLine[],
+  pageNumber: number,
+  pageHeight: number,
+  scale: number
+): TextItem[] {
+  const items: TextItem[] = [];
+
+  for (const line of lines) {
+    const words = line.words
+      .map((word) => ({ ...word, text: word.text.trim() }))
+      .filter((word) => word.text.length > 0)
+      .sort((a, b) => a.bbox.x0 - b.bbox.x0);
+    if (words.length === 0) continue;
+
+    const textHeight = words.reduce((sum, word) => sum + (word.bbox.y1 - word.bbox.y0), 0) / words.length;
+    const baselineY = (line.baseline.y0 + line.baseline.y1) / 2;
+    const y = pageHeight - baselineY / scale;
+
+    let phrase: OcrWord[] = [];
+    const flush = (): void => {
+      const first = phrase[0];
+      const last = phrase[phrase.length - 1];
+      if (first === undefined || last === undefined) return;
+
+      const top = Math.min(...phrase.map((word) => word.bbox.y0));
+      const bottom = Math.max(...phrase.map((word) => word.bbox.y1));
+      const meanConfidence = phrase.reduce((sum, word) => sum + word.confidence, 0) / phrase.length;
+
+      items.push({
+        str: phrase.map((word) => word.text).join(' '),
+        x: first.bbox.x0 / scale,
+        y,
+        width: (last.bbox.x1 - first.bbox.x0) / scale,
+        height: (bottom - top) / scale,
+        page: pageNumber,
+        ocrConfidence: Math.round(meanConfidence) / 100,
+      });
+      phrase = [];
+    };
+
+    for (const word of words) {
+      const previous = phrase[phrase.length - 1];
+      if (previous !== undefined && word.bbox.x0 - previous.bbox.x1 > textHeight * PHRASE_GAP_RATIO) {
+        flush();
+      }
+      phrase.push(word);
+    }
+    flush();
+  }
+
+  return items;
+}
+
+/**
+ * Mean word confidence (0-1) across recognized lines, or 0 if nothing was read.
+ */
+function meanWordConfidence(lines: OcrLine[]): number {
+  const words = lines.flatMap((line) => line.words).filter((word) => word.text.trim().length > 0);
+  if (words.length === 0) return 0;
+  const total = words.reduce((sum, word) => sum + word.confidence, 0);
+  return Math.round(total / words.length) / 100;
+}
+
+/**
+ * Directory holding the bundled LSTM language data for tesseract.js.
+ */
+function resolveLanguageDataPath(): string {
+  const require = createRequire(import.meta.url);
+  return join(dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0_best_int');
+}
+
+/**
+ * Render pages to images and recognize their text.
+ *
+ * One tesseract worker is started for all pages and terminated afterwards.
+ *
+ * @param pages - pdfjs page proxies with their page numbers
+ * @param options - OCR options
+ * @returns OCR results in page order
+ */
+export async function recognizePages(
+  pages: Array<{ pageNumber: number; page: PDFPageProxy }>,
+  options: OcrOptions = {}
+): Promise<OcrPageResult[]> {
+  if (pages.length === 0) return [];
+
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const { default: Tesseract } = await import('tesseract.js');
+
+  const scale = (options.dpi ?? DEFAULT_OCR_DPI) / 72;
+  const worker = await Tesseract.createWorker('eng', Tesseract.OEM.LSTM_ONLY, {
+    langPath: resolveLanguageDataPath(),
+    gzip: true,
+    cacheMethod: 'none',
+  });
+
+  try {
+    const results: OcrPageResult[] = [];
+
+    for (const { pageNumber, page } of pages) {
+      const pageHeight = page.getViewport({ scale: 1 }).height;
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      // @napi-rs/canvas is the canvas implementation pdfjs itself uses under Node
+      const renderParams = { canvasContext: canvas.getContext('2d'), canvas, viewport };
+      await page.render(renderParams as unknown as RenderParameters).promise;
+
+      const { data } = await worker.recognize(canvas.toBuffer('image/png'), {}, { blocks: true });
+      const lines = (data.blocks ?? []).flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines));
+
+      results.push({
+        pageNumber,
+        items: ocrLinesToTextItems(lines, pageNumber, pageHeight, scale),
+        confidence: meanWordConfidence(lines),
+      });
+    }
+
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
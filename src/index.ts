@@ -1,7 +1,11 @@
 // ─── Extractors ─────────────────────────────────────────────────────────────
-export { extractPDF, findLinesByPattern, extractTextBetweenMarkers } from './extractors/index.js';
+export { extractPDF, extractPDFFromBuffer, findLinesByPattern, extractTextBetweenMarkers } from './extractors/index.js';
 export { extractTextItems, extractTextItemsFromBuffer } from './extractors/index.js';
-export type { ExtractedPage, ExtractedPDF, TextItem, LayoutExtractedPDF } from './extractors/index.js';
+export { recognizePages, ocrLinesToTextItems, DEFAULT_OCR_DPI } from './extractors/index.js';
+export { PdfPasswordError, isPdfPasswordError } from './extractors/index.js';
+export type { ExtractedPage, ExtractedPDF, TextItem, LayoutExtractedPDF, LayoutExtractOptions } from './extractors/index.js';
+export type { OcrOptions, OcrPageResult, OcrLine, OcrWord, OcrBox } from './extractors/index.js';
+export type { PdfPasswordOptions, PdfPasswordReason } from './extractors/index.js';
 
 // ─── Parsers ────────────────────────────────────────────────────────────────
 export {
@@ -10,8 +14,55 @@ export {
   detectAccountType,
   isTransactionDetailsPDF,
   parseTransactionDetails,
+  boaParser,
+  detectChime,
+  parseChimeStatement,
+  parseChimeMultipleStatements,
+  chimeParser,
+  detectCapitalOne,
+  parseCapitalOneStatements,
+  parseCapitalOneLayout,
+  capitalOneParser,
+  ParserRegistry,
+  createParserRegistry,
+  getDefaultParserRegistry,
+  loadParserPlugins,
+  loadParserConfig,
+  restoreParserRegistry,
+  applyOcrConfidence,
+  extractInstitutionChannel,
 } from './parsers/index.js';
-export type { ParseResult, MultiStatementParseResult, RawTransaction, AccountInfo, BalanceInfo } from './parsers/index.js';
+export type {
+  ParseResult,
+  MultiStatementParseResult,
+  RawTransaction,
+  AccountInfo,
+  BalanceInfo,
+  InstitutionParser,
+  ParserMatch,
+  ParserPluginConfig,
+  ParserRegistrySnapshot,
+} from './parsers/index.js';
+
+// ─── Importers (OFX/QFX, bank CSV) ──────────────────────────────────────────
+export {
+  importStatementFile,
+  importStatementBuffer,
+  importStatements,
+  detectImportFormat,
+  isImportFile,
+  IMPORT_FILE_EXTENSIONS,
+  importOfx,
+  parseOfxDocument,
+  importBoaCsv,
+} from './importers/index.js';
+export type {
+  ImportFormat,
+  StatementImportOptions,
+  StatementImportResult,
+  OfxImportOptions,
+  BoaCsvImportOptions,
+} from './importers/index.js';
 
 // ─── Categorization ─────────────────────────────────────────────────────────
 export {
@@ -22,19 +73,54 @@ export {
   CATEGORY_RULES_V2,
   getCategoryRuleById,
   getRulesByCategory,
+  mergeCategoryRules,
+  parseCategoryRules,
+  loadCategoryRules,
+  applyCategoryRules,
+  createUserRuleMatcher,
+  transactionContext,
+  normalizeMerchantKey,
+  learnRulesFromOverrides,
+  loadLearnedRules,
+  acceptLearnedRules,
+  DEFAULT_LEARNED_RULES_PATH,
+  reviewItemsFromResult,
+  loadOverridesSidecar,
+  saveOverridesSidecar,
   HybridCategorizer,
   categorizeWithRulesOnly,
   MLCategorizer,
+  LocalMLCategorizer,
+  createClassifier,
+  isMLEngine,
+  ML_ENGINES,
   generateTrainingData,
   generateFromParsedTransactions,
+  evaluateCategorizer,
+  formatEvaluationReport,
 } from './categorization/index.js';
 export type {
   CategoryRule,
   CategorizationResult,
+  CategoryRuleV2,
+  CategorizationContext,
+  ApplyCategoryRulesOptions,
+  OverrideExample,
+  LearnedRuleProposal,
+  LearnRulesOptions,
+  ReviewItem,
+  ReviewDecision,
+  SidecarOverride,
   HybridCategorizationResult,
   HybridCategorizerConfig,
   MLCategorizationResult,
   TrainingExample,
+  LocalMLCategorizerConfig,
+  TransactionClassifier,
+  MLEngine,
+  LabelledExample,
+  EvaluationOptions,
+  EvaluationReport,
 } from './categorization/index.js';
 
 // ─── Normalizers ────────────────────────────────────────────────────────────
@@ -51,8 +137,12 @@ export {
   ParsedStatementSchema,
   TransactionSchema,
   AccountSchema,
+  InstitutionIdSchema,
+  CurrencyCodeSchema,
   SummarySchema,
   MetadataSchema,
+  DailyBalanceSchema,
+  CreditDetailsSchema,
 } from './schemas/index.js';
 export type {
   ParsedStatement,
@@ -60,19 +150,27 @@ export type {
   Account,
   Summary,
   Metadata,
+  DailyBalance,
+  CreditDetails,
+  CreditApr,
   AccountType,
   TransactionDirection,
   ParserOptions,
 } from './schemas/index.js';
 
 // ─── Utils ──────────────────────────────────────────────────────────────────
-export { PARSER_VERSION, BOA_INSTITUTION_NAME } from './utils/index.js';
+export { PARSER_VERSION, BOA_INSTITUTION_NAME, CHIME_INSTITUTION_NAME, CAPITAL_ONE_INSTITUTION_NAME } from './utils/index.js';
+export { KNOWN_INSTITUTIONS, findInstitution, toInstitutionId } from './utils/index.js';
+export { DEFAULT_CURRENCY, formatCurrency, convertCurrency } from './utils/index.js';
+export { money, moneyToNumber, addMoney, subtractMoney, sumMoney, toMinorUnits, fromMinorUnits } from './utils/index.js';
+export type { InstitutionInfo, FxRateTable, Money, ParseAmountOptions } from './utils/index.js';
 
 // ─── Output (adapters, analytics, export formats, recurring detection) ──────
 export {
   toFinalResultV1,
   toFinalResultV2,
   toFinalResult,
+  statementsFromFinalResult,
   generateAnalytics,
   checkIntegrity,
   exportOfx,
@@ -81,6 +179,16 @@ export {
   exportCsv,
   exportAccountCsv,
   exportCsvByAccount,
+  exportQif,
+  exportAccountQif,
+  exportQifByAccount,
+  exportBeancount,
+  exportLedger,
+  parseAccountingMapping,
+  exportParquet,
+  exportArrow,
+  exportColumnarByAccount,
+  TRANSACTION_COLUMNS,
   detectRecurring,
   detectRecurringFromStatements,
   getRecurringFlags,
@@ -90,10 +198,18 @@ export type {
   CanonicalOutput,
   FinalResultV1,
   FinalResultV2,
+  CreditCycle,
   AnalyticsResult,
+  AnalyticsOptions,
   IntegrityCheckResult,
+  DailyBalanceDiscrepancy,
   OfxExportOptions,
   CsvExportOptions,
+  QifExportOptions,
+  AccountingMapping,
+  PlainTextExportOptions,
+  ColumnarExportOptions,
+  ColumnDefinition,
   RecurringDetectionResult,
   RecurringDetectionOptions,
   RecurringPattern,
@@ -183,6 +299,7 @@ export {
   getTransactions as getSupabaseTransactions,
   getStatements as getSupabaseStatements,
   getAccountSummary,
+  getCreditCardCycles,
   getMonthlyCategoryTotals,
   getMerchantSpending,
   getTransactionsNeedingReview,
@@ -200,17 +317,33 @@ export type {
   SetTransactionOverrideInput,
 } from './supabase/index.js';
 
+// ─── Storage Adapters (Supabase / SQLite) ───────────────────────────────────
+export {
+  createSupabaseStorage,
+  SqliteStorage,
+  SqlitePlaidItemStore,
+  openSqliteStorage,
+  openSqliteDatabase,
+  isStorageBackend,
+} from './storage/index.js';
+export type {
+  StorageAdapter,
+  StorageBackend,
+  DailyBalanceRow,
+} from './storage/index.js';
+
 // ─── Convenience ────────────────────────────────────────────────────────────
 export async function parseStatementFile(
   filePath: string,
   options: { strict?: boolean; verbose?: boolean } = {}
 ): Promise<import('./parsers/index.js').ParseResult> {
   const { extractPDF } = await import('./extractors/index.js');
-  const { parseBoaStatement } = await import('./parsers/index.js');
+  const { parseBoaStatement, applyOcrConfidence } = await import('./parsers/index.js');
 
   const pdf = await extractPDF(filePath);
-  return parseBoaStatement(pdf, {
+  const result = parseBoaStatement(pdf, {
     strict: options.strict ?? false,
     verbose: options.verbose ?? false,
   });
+  return { ...result, statement: applyOcrConfidence(result.statement, pdf) };
 }
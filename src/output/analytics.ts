@@ -4,6 +4,8 @@
  */
 
 import type { ParsedStatement, Transaction } from '../schemas/index.js';
+import { convertCurrency, fromMinorUnits, hasFxRate, roundToCurrency, toMinorUnits, type FxRateTable } from '../utils/money.js';
+import { DEFAULT_CURRENCY } from '../utils/constants.js';
 
 /**
  * Quarterly cash flow data
@@ -87,15 +89,41 @@ export interface TaxPreparation {
 }
 
 /**
- * Complete analytics result
+ * Analytics for the transactions of a single currency
  */
-export interface AnalyticsResult {
+export interface CurrencyAnalytics {
   quarterlyCashFlow: QuarterlyCashFlow[];
   incomeVsExpenses: IncomeVsExpenses;
   lenderSummary: LenderSummary;
   taxPreparation: TaxPreparation;
 }
 
+/**
+ * Complete analytics result.
+ * `currency`, `fxRates`, `byCurrency` and `unconvertedCurrencies` are only set
+ * when the transactions are not all in the base currency.
+ */
+export interface AnalyticsResult extends CurrencyAnalytics {
+  /** Currency the top-level analytics are reported in */
+  currency?: string;
+  /** Rates used to convert other currencies into `currency` */
+  fxRates?: FxRateTable;
+  /** Per-currency analytics, when some currencies could not be converted */
+  byCurrency?: Record<string, CurrencyAnalytics>;
+  /** Currencies without an FX rate, left out of the top-level analytics */
+  unconvertedCurrencies?: string[];
+}
+
+/**
+ * Options for multi-currency analytics
+ */
+export interface AnalyticsOptions {
+  /** Currency to report in (default: the only currency present, else USD if present, else the first alphabetically) */
+  baseCurrency?: string;
+  /** Static FX rates into `baseCurrency`; without them, currencies are analysed separately */
+  fxRates?: FxRateTable;
+}
+
 // Categories that indicate internal transfers (excluded from income/expense calculations)
 const TRANSFER_CATEGORIES = ['Transfer'];
 const TRANSFER_SUBCATEGORIES = ['Transfer', 'Internal Transfer', 'Internal', 'Zelle', 'Venmo', 'Wire', 'ACH'];
@@ -204,9 +232,13 @@ function getQuarterDateRange(year: number, quarterNumber: number): { start: stri
 }
 
 /**
- * Calculate quarterly cash flow from transactions
+ * Calculate quarterly cash flow from transactions.
+ * Totals accumulate in integer minor units of `currency`.
  */
-export function calculateQuarterlyCashFlow(transactions: Transaction[]): QuarterlyCashFlow[] {
+export function calculateQuarterlyCashFlow(
+  transactions: Transaction[],
+  currency: string = DEFAULT_CURRENCY
+): QuarterlyCashFlow[] {
   const quarterMap = new Map<string, {
     year: number;
     quarterNumber: 1 | 2 | 3 | 4;
@@ -228,9 +260,9 @@ export function calculateQuarterlyCashFlow(transactions: Transaction[]): Quarter
     };
     
     if (isIncome(txn)) {
-      existing.income += Math.abs(txn.amount);
+      existing.income += toMinorUnits(Math.abs(txn.amount), currency);
     } else if (isExpense(txn)) {
-      existing.expenses += Math.abs(txn.amount);
+      existing.expenses += toMinorUnits(Math.abs(txn.amount), currency);
     }
     existing.count++;
     
@@ -246,9 +278,9 @@ export function calculateQuarterlyCashFlow(transactions: Transaction[]): Quarter
         quarterNumber: data.quarterNumber,
         startDate: dateRange.start,
         endDate: dateRange.end,
-        totalIncome: Math.round(data.income * 100) / 100,
-        totalExpenses: Math.round(data.expenses * 100) / 100,
-        netCashFlow: Math.round((data.income - data.expenses) * 100) / 100,
+        totalIncome: fromMinorUnits(data.income, currency),
+        totalExpenses: fromMinorUnits(data.expenses, currency),
+        netCashFlow: fromMinorUnits(data.income - data.expenses, currency),
         transactionCount: data.count,
       };
     })
@@ -256,12 +288,14 @@ export function calculateQuarterlyCashFlow(transactions: Transaction[]): Quarter
 }
 
 /**
- * Calculate income vs expenses summary
+ * Calculate income vs expenses summary.
+ * Totals accumulate in integer minor units of `currency`.
  */
 export function calculateIncomeVsExpenses(
   transactions: Transaction[],
   periodStart: string,
-  periodEnd: string
+  periodEnd: string,
+  currency: string = DEFAULT_CURRENCY
 ): IncomeVsExpenses {
   let totalIncome = 0;
   let totalExpenses = 0;
@@ -270,37 +304,36 @@ export function calculateIncomeVsExpenses(
   const expensesByCategory: Record<string, number> = {};
   
   for (const txn of transactions) {
+    const amount = toMinorUnits(Math.abs(txn.amount), currency);
     if (isInternalTransfer(txn)) {
-      excludedTransfers += Math.abs(txn.amount);
+      excludedTransfers += amount;
       continue;
     }
     
     if (isIncome(txn)) {
-      const amount = Math.abs(txn.amount);
       totalIncome += amount;
       incomeByCategory[txn.category] = (incomeByCategory[txn.category] ?? 0) + amount;
     } else if (isExpense(txn)) {
-      const amount = Math.abs(txn.amount);
       totalExpenses += amount;
       expensesByCategory[txn.category] = (expensesByCategory[txn.category] ?? 0) + amount;
     }
   }
   
-  // Round category totals
+  // Convert category totals back to decimal amounts
   for (const key of Object.keys(incomeByCategory)) {
-    incomeByCategory[key] = Math.round((incomeByCategory[key] ?? 0) * 100) / 100;
+    incomeByCategory[key] = fromMinorUnits(incomeByCategory[key] ?? 0, currency);
   }
   for (const key of Object.keys(expensesByCategory)) {
-    expensesByCategory[key] = Math.round((expensesByCategory[key] ?? 0) * 100) / 100;
+    expensesByCategory[key] = fromMinorUnits(expensesByCategory[key] ?? 0, currency);
   }
   
   return {
-    totalIncome: Math.round(totalIncome * 100) / 100,
-    totalExpenses: Math.round(totalExpenses * 100) / 100,
-    netIncome: Math.round((totalIncome - totalExpenses) * 100) / 100,
+    totalIncome: fromMinorUnits(totalIncome, currency),
+    totalExpenses: fromMinorUnits(totalExpenses, currency),
+    netIncome: fromMinorUnits(totalIncome - totalExpenses, currency),
     incomeByCategory,
     expensesByCategory,
-    excludedTransfers: Math.round(excludedTransfers * 100) / 100,
+    excludedTransfers: fromMinorUnits(excludedTransfers, currency),
     periodStart,
     periodEnd,
   };
@@ -309,7 +342,10 @@ export function calculateIncomeVsExpenses(
 /**
  * Calculate lender-ready income stability summary
  */
-export function calculateLenderSummary(transactions: Transaction[]): LenderSummary {
+export function calculateLenderSummary(
+  transactions: Transaction[],
+  currency: string = DEFAULT_CURRENCY
+): LenderSummary {
   // Group by month
   const monthlyData = new Map<string, { income: number; expenses: number; sources: Set<string> }>();
   
@@ -320,10 +356,10 @@ export function calculateLenderSummary(transactions: Transaction[]): LenderSumma
     const existing = monthlyData.get(month) ?? { income: 0, expenses: 0, sources: new Set() };
     
     if (isIncome(txn)) {
-      existing.income += Math.abs(txn.amount);
+      existing.income += toMinorUnits(Math.abs(txn.amount), currency);
       existing.sources.add(txn.category);
     } else if (isExpense(txn)) {
-      existing.expenses += Math.abs(txn.amount);
+      existing.expenses += toMinorUnits(Math.abs(txn.amount), currency);
     }
     
     monthlyData.set(month, existing);
@@ -334,9 +370,9 @@ export function calculateLenderSummary(transactions: Transaction[]): LenderSumma
     const data = monthlyData.get(month)!;
     return {
       month,
-      income: Math.round(data.income * 100) / 100,
-      expenses: Math.round(data.expenses * 100) / 100,
-      netCashFlow: Math.round((data.income - data.expenses) * 100) / 100,
+      income: fromMinorUnits(data.income, currency),
+      expenses: fromMinorUnits(data.expenses, currency),
+      netCashFlow: fromMinorUnits(data.income - data.expenses, currency),
     };
   });
   
@@ -390,8 +426,8 @@ export function calculateLenderSummary(transactions: Transaction[]): LenderSumma
   const regularIncomeDetected = Array.from(amountCounts.values()).some(count => count >= 3);
   
   return {
-    averageMonthlyIncome: Math.round(avgIncome * 100) / 100,
-    averageMonthlyExpenses: Math.round(avgExpenses * 100) / 100,
+    averageMonthlyIncome: roundToCurrency(avgIncome, currency),
+    averageMonthlyExpenses: roundToCurrency(avgExpenses, currency),
     monthlyIncomeVariance: Math.round(incomeVariance * 10000) / 10000,
     incomeStabilityScore: stabilityScore,
     consecutiveMonthsWithIncome: consecutiveMonths,
@@ -399,7 +435,7 @@ export function calculateLenderSummary(transactions: Transaction[]): LenderSumma
     monthlyBreakdown,
     incomeSourceDiversity: allSources.size,
     regularIncomeDetected,
-    estimatedAnnualIncome: Math.round(avgIncome * 12 * 100) / 100,
+    estimatedAnnualIncome: roundToCurrency(avgIncome * 12, currency),
   };
 }
 
@@ -433,7 +469,10 @@ function getTaxRelevance(category: string, subcategory: string | null): 'deducti
 /**
  * Calculate tax preparation summary
  */
-export function calculateTaxPreparation(transactions: Transaction[]): TaxPreparation {
+export function calculateTaxPreparation(
+  transactions: Transaction[],
+  currency: string = DEFAULT_CURRENCY
+): TaxPreparation {
   // Determine tax year from transactions
   const years = transactions.map(t => new Date(t.date).getFullYear());
   const taxYear = years.length > 0 ? Math.max(...years) : new Date().getFullYear();
@@ -467,7 +506,7 @@ export function calculateTaxPreparation(transactions: Transaction[]): TaxPrepara
     
     const key = `${txn.category}|${txn.subcategory ?? ''}`;
     const relevance = getTaxRelevance(txn.category, txn.subcategory);
-    const amount = Math.abs(txn.amount);
+    const amount = toMinorUnits(Math.abs(txn.amount), currency);
     
     const existing = categoryMap.get(key) ?? {
       category: txn.category,
@@ -508,20 +547,20 @@ export function calculateTaxPreparation(transactions: Transaction[]): TaxPrepara
   const allCategories: TaxCategorySummary[] = Array.from(categoryMap.values()).map(c => ({
     category: c.category,
     subcategory: c.subcategory,
-    totalAmount: Math.round(c.total * 100) / 100,
+    totalAmount: fromMinorUnits(c.total, currency),
     transactionCount: c.count,
     taxRelevance: c.relevance,
   }));
   
-  // Round summary values
+  // Convert summary values back to decimal amounts
   for (const key of Object.keys(summary) as (keyof typeof summary)[]) {
-    summary[key] = Math.round(summary[key] * 100) / 100;
+    summary[key] = fromMinorUnits(summary[key], currency);
   }
   
   return {
     taxYear,
-    totalTaxableIncome: Math.round(totalTaxableIncome * 100) / 100,
-    totalDeductibleExpenses: Math.round(totalDeductibleExpenses * 100) / 100,
+    totalTaxableIncome: fromMinorUnits(totalTaxableIncome, currency),
+    totalDeductibleExpenses: fromMinorUnits(totalDeductibleExpenses, currency),
     potentialDeductions: allCategories.filter(c => c.taxRelevance === 'deductible'),
     incomeCategories: allCategories.filter(c => c.taxRelevance === 'income'),
     reviewRequired: allCategories.filter(c => c.taxRelevance === 'review'),
@@ -530,23 +569,107 @@ export function calculateTaxPreparation(transactions: Transaction[]): TaxPrepara
 }
 
 /**
- * Generate complete analytics from statements
+ * Currency of a transaction, falling back to its statement's account currency
  */
-export function generateAnalytics(statements: ParsedStatement[]): AnalyticsResult {
-  // Collect all transactions
-  const allTransactions = statements.flatMap(s => s.transactions);
-  
-  // Sort by date
-  allTransactions.sort((a, b) => a.date.localeCompare(b.date));
-  
+function transactionCurrency(txn: Transaction, statement: ParsedStatement): string {
+  return txn.currency ?? statement.account.currency;
+}
+
+/**
+ * Pick the currency analytics and rollup totals are reported in.
+ */
+export function resolveBaseCurrency(currencies: Iterable<string>, requested?: string): string {
+  if (requested !== undefined) {
+    return requested;
+  }
+  const unique = [...new Set(currencies)].sort();
+  if (unique.length === 1 && unique[0] !== undefined) {
+    return unique[0];
+  }
+  if (unique.includes(DEFAULT_CURRENCY)) {
+    return DEFAULT_CURRENCY;
+  }
+  return unique[0] ?? DEFAULT_CURRENCY;
+}
+
+function analyzeTransactions(transactions: Transaction[], currency: string): CurrencyAnalytics {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+
   // Determine period
-  const periodStart = allTransactions[0]?.date ?? '';
-  const periodEnd = allTransactions[allTransactions.length - 1]?.date ?? '';
-  
+  const periodStart = sorted[0]?.date ?? '';
+  const periodEnd = sorted[sorted.length - 1]?.date ?? '';
+
   return {
-    quarterlyCashFlow: calculateQuarterlyCashFlow(allTransactions),
-    incomeVsExpenses: calculateIncomeVsExpenses(allTransactions, periodStart, periodEnd),
-    lenderSummary: calculateLenderSummary(allTransactions),
-    taxPreparation: calculateTaxPreparation(allTransactions),
+    quarterlyCashFlow: calculateQuarterlyCashFlow(sorted, currency),
+    incomeVsExpenses: calculateIncomeVsExpenses(sorted, periodStart, periodEnd, currency),
+    lenderSummary: calculateLenderSummary(sorted, currency),
+    taxPreparation: calculateTaxPreparation(sorted, currency),
   };
 }
+
+/**
+ * Generate complete analytics from statements.
+ *
+ * Transactions in a single currency are analysed as-is. When statements span
+ * several currencies, currencies with a rate in `fxRates` are converted into
+ * the base currency. Any currency without a rate is listed in
+ * `unconvertedCurrencies` and left out of the top level; `byCurrency` then
+ * holds a separate breakdown for it and for the base currency.
+ */
+export function generateAnalytics(statements: ParsedStatement[], options: AnalyticsOptions = {}): AnalyticsResult {
+  const byCurrency = new Map<string, Transaction[]>();
+  for (const statement of statements) {
+    for (const txn of statement.transactions) {
+      const currency = transactionCurrency(txn, statement);
+      const bucket = byCurrency.get(currency);
+      if (bucket !== undefined) {
+        bucket.push(txn);
+      } else {
+        byCurrency.set(currency, [txn]);
+      }
+    }
+  }
+
+  const base = resolveBaseCurrency(byCurrency.keys(), options.baseCurrency);
+  const foreign = [...byCurrency.keys()].filter((currency) => currency !== base).sort();
+
+  if (foreign.length === 0) {
+    return analyzeTransactions(byCurrency.get(base) ?? [], base);
+  }
+
+  const rates = options.fxRates ?? {};
+  const fxRates: FxRateTable = {};
+  const unconvertedCurrencies: string[] = [];
+  for (const currency of foreign) {
+    const rate = rates[currency];
+    if (rate !== undefined && hasFxRate(currency, rates)) {
+      fxRates[currency] = rate;
+    } else {
+      unconvertedCurrencies.push(currency);
+    }
+  }
+
+  const converted = [...(byCurrency.get(base) ?? [])];
+  for (const currency of Object.keys(fxRates)) {
+    for (const txn of byCurrency.get(currency) ?? []) {
+      converted.push({ ...txn, amount: convertCurrency(txn.amount, currency, base, fxRates), currency: base });
+    }
+  }
+  const baseAnalytics = analyzeTransactions(converted, base);
+  const analytics: AnalyticsResult = {
+    ...baseAnalytics,
+    currency: base,
+    ...(Object.keys(fxRates).length > 0 ? { fxRates } : {}),
+  };
+  if (unconvertedCurrencies.length === 0) {
+    return analytics;
+  }
+
+  const perCurrency: Record<string, CurrencyAnalytics> = {};
+  for (const currency of [base, ...unconvertedCurrencies].sort()) {
+    perCurrency[currency] = currency === base
+      ? baseAnalytics
+      : analyzeTransactions(byCurrency.get(currency) ?? [], currency);
+  }
+  return { ...analytics, byCurrency: perCurrency, unconvertedCurrencies };
+}
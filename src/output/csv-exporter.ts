@@ -5,6 +5,7 @@
  */
 
 import type { FinalResultV2 } from './adapters.js';
+import { toDecimalString } from '../utils/money.js';
 
 /**
  * Options for CSV export
@@ -40,6 +41,7 @@ const BASE_COLUMNS = [
 const ACCOUNT_COLUMNS = [
   'Account Type',
   'Account Number',
+  'Currency',
 ] as const;
 
 const CATEGORY_COLUMNS = [
@@ -100,12 +102,12 @@ function formatDate(isoDate: string | null, format: 'iso' | 'us'): string {
 }
 
 /**
- * Format amount with sign based on direction
+ * Format amount with sign based on direction, using the currency's decimal places
  */
-function formatAmount(amount: number, direction: 'credit' | 'debit'): string {
+function formatAmount(amount: number, direction: 'credit' | 'debit', currency: string): string {
   const absAmount = Math.abs(amount);
   const signedAmount = direction === 'credit' ? absAmount : -absAmount;
-  return signedAmount.toFixed(2);
+  return toDecimalString(signedAmount, currency);
 }
 
 /**
@@ -171,12 +173,13 @@ function buildDataRow(
   account: FinalResultV2['accounts'][number]['account'],
   options: Required<CsvExportOptions>
 ): string[] {
+  const currency = txn.currency ?? account.currency;
   const row: string[] = [
     formatDate(txn.date, options.dateFormat),
     formatDate(txn.postedDate, options.dateFormat),
     txn.description,
     txn.merchant,
-    formatAmount(txn.amount, txn.direction),
+    formatAmount(txn.amount, txn.direction, currency),
     txn.direction,
     getTransactionType(txn.description, txn.direction),
   ];
@@ -185,6 +188,7 @@ function buildDataRow(
     row.push(
       account.accountType,
       account.accountNumberMasked,
+      currency,
     );
   }
   
@@ -3,10 +3,17 @@
  * 
  * Converts v2 rollup output to OFX (Open Financial Exchange) text format.
  * Uses transactionId as FITID for OFX compatibility.
+ *
+ * Checking and savings accounts are emitted as bank statements
+ * (BANKMSGSRSV1/STMTRS), credit card accounts as credit card statements
+ * (CREDITCARDMSGSRSV1/CCSTMTRS) so Quicken and GnuCash file them as cards.
  */
 
 import type { FinalResultV2 } from './adapters.js';
 import { computeTransactionId } from '../utils/id-generator.js';
+import { fromMinorUnits, toDecimalString, toMinorUnits } from '../utils/money.js';
+import { BOA_INSTITUTION_ID } from '../utils/constants.js';
+import { toInstitutionId } from '../utils/institutions.js';
 
 /**
  * OFX transaction type mapping
@@ -103,13 +110,44 @@ function detectTrnType(description: string, direction: 'credit' | 'debit'): TrnT
   return { trnType: direction === 'credit' ? 'CREDIT' : 'DEBIT' };
 }
 
+/**
+ * Detect OFX transaction type for a credit card transaction.
+ * Payments and refunds reduce the balance owed (credit direction),
+ * purchases, fees, interest and cash advances increase it (debit direction).
+ */
+function detectCardTrnType(description: string, direction: 'credit' | 'debit'): TrnTypeResult {
+  const desc = description.toUpperCase();
+
+  if (direction === 'credit') {
+    if (desc.includes('PAYMENT') || desc.includes('AUTOPAY')) {
+      return { trnType: 'PAYMENT' };
+    }
+    return { trnType: 'CREDIT' };
+  }
+
+  if (desc.includes('FEE')) {
+    return { trnType: 'FEE' };
+  }
+  if (desc.includes('INTEREST') || desc.includes('FINANCE CHARGE')) {
+    return { trnType: 'INT' };
+  }
+  if (desc.includes('CASH ADVANCE') || desc.includes('ATM')) {
+    return { trnType: 'ATM' };
+  }
+  return { trnType: 'DEBIT' };
+}
+
 /**
  * Options for OFX export
  */
 export interface OfxExportOptions {
   /** Include OFX header (default: true) */
   includeHeader?: boolean;
-  /** Bank ID for OFX (default: '121000358' - Bank of America routing) */
+  /**
+   * Bank ID for bank accounts without a `routingNumber` (default: '121000358',
+   * the Bank of America routing number, for BoA accounts; other institutions'
+   * accounts are written without a BANKID)
+   */
   bankId?: string;
   /** Organization name (default: 'Bank of America') */
   org?: string;
@@ -117,7 +155,10 @@ export interface OfxExportOptions {
   fid?: string;
   /** Split into separate STMTTRNRS blocks per statement period (default: true) */
   splitByStatement?: boolean;
-  /** Include AVAILBAL (available balance) same as LEDGERBAL (default: true) */
+  /**
+   * Include AVAILBAL (available balance) same as LEDGERBAL (default: true).
+   * Not emitted for credit cards, where AVAILBAL is the available credit.
+   */
   includeAvailBal?: boolean;
 }
 
@@ -129,12 +170,13 @@ function formatOfxDate(isoDate: string): string {
 }
 
 /**
- * Format amount for OFX (signed, credit positive, debit negative)
+ * Format amount for OFX (signed, credit positive, debit negative).
+ * For credit cards this makes charges negative and payments positive.
  */
-function formatOfxAmount(amount: number, direction: 'credit' | 'debit'): string {
+function formatOfxAmount(amount: number, direction: 'credit' | 'debit', currency: string): string {
   const absAmount = Math.abs(amount);
   const signedAmount = direction === 'credit' ? absAmount : -absAmount;
-  return signedAmount.toFixed(2);
+  return toDecimalString(signedAmount, currency);
 }
 
 /**
@@ -185,16 +227,35 @@ function generateOfxHeader(): string {
 <DTSERVER>${dtServer}</DTSERVER>
 <LANGUAGE>ENG</LANGUAGE>
 </SONRS>
-</SIGNONMSGSRSV1>
-<BANKMSGSRSV1>`;
+</SIGNONMSGSRSV1>`;
 }
 
 /**
  * Generate OFX footer
  */
 function generateOfxFooter(): string {
-  return `</BANKMSGSRSV1>
-</OFX>`;
+  return '</OFX>';
+}
+
+/**
+ * Check whether an account is exported as a credit card statement
+ */
+function isCreditCardAccount(account: FinalResultV2['accounts'][number]): boolean {
+  return account.account.accountType.toLowerCase() === 'credit';
+}
+
+/**
+ * Opening and closing balances in OFX sign convention.
+ *
+ * Parsed card statements report the amount owed as a positive balance, while
+ * OFX reports it as a negative amount, so credit card balances are flipped.
+ */
+function getOfxBalances(account: FinalResultV2['accounts'][number]): { opening: number; closing: number } {
+  const { startingBalance, endingBalance } = account.summary;
+  if (isCreditCardAccount(account)) {
+    return { opening: -startingBalance, closing: -endingBalance };
+  }
+  return { opening: startingBalance, closing: endingBalance };
 }
 
 /**
@@ -230,12 +291,19 @@ interface OfxTransaction {
 /**
  * Generate OFX for a single transaction
  */
-function generateTransactionOfx(txn: OfxTransaction, statementId: string): string {
+function generateTransactionOfx(
+  txn: OfxTransaction,
+  statementId: string,
+  currency: string,
+  isCreditCard: boolean
+): string {
   const dtPosted = formatOfxDate(txn.postedDate ?? txn.date);
-  const trnAmt = formatOfxAmount(txn.amount, txn.direction);
+  const trnAmt = formatOfxAmount(txn.amount, txn.direction, currency);
   
   // Detect specific transaction type and check number
-  const { trnType, checkNum } = detectTrnType(txn.description, txn.direction);
+  const { trnType, checkNum } = isCreditCard
+    ? detectCardTrnType(txn.description, txn.direction)
+    : detectTrnType(txn.description, txn.direction);
   
   // Use existing transactionId or compute one
   let fitId = txn.transactionId;
@@ -337,17 +405,20 @@ function groupTransactionsByStatement(
   }
   
   // If only one statement, use account's ending balance
+  const balances = getOfxBalances(account);
   if (sortedGroups.length === 1 && sortedGroups[0] !== undefined) {
-    sortedGroups[0].endingBalance = account.summary.endingBalance;
+    sortedGroups[0].endingBalance = balances.closing;
   } else {
     // For multiple statements, calculate running balance (approximate)
     // Note: This is an approximation since we don't have per-statement balances in v2
-    let runningBalance = account.summary.startingBalance;
+    const currency = account.account.currency;
+    let runningMinor = toMinorUnits(balances.opening, currency);
     for (const group of sortedGroups) {
       for (const txn of group.transactions) {
-        runningBalance += txn.direction === 'credit' ? Math.abs(txn.amount) : -Math.abs(txn.amount);
+        const amountMinor = toMinorUnits(Math.abs(txn.amount), currency);
+        runningMinor += txn.direction === 'credit' ? amountMinor : -amountMinor;
       }
-      group.endingBalance = runningBalance;
+      group.endingBalance = fromMinorUnits(runningMinor, currency);
     }
   }
   
@@ -355,55 +426,92 @@ function groupTransactionsByStatement(
 }
 
 /**
- * Generate a single STMTTRNRS block for a statement period
+ * Statement body for one STMTTRNRS/CCSTMTTRNRS block
+ */
+interface StatementBlock {
+  startDate: string;
+  endDate: string;
+  transactions: FinalResultV2['accounts'][number]['transactions'];
+  endingBalance: number;
+}
+
+/** Bank of America routing number, the BANKID for BoA accounts without their own */
+const BOA_ROUTING_NUMBER = '121000358';
+
+/**
+ * BANKID for a bank account: its own routing number, else the `bankId`
+ * option, else the BoA routing number for BoA accounts. Undefined when none
+ * applies, rather than labelling another bank's account as BoA's.
  */
-function generateStatementOfx(
+function resolveBankId(account: FinalResultV2['accounts'][number], bankId: string | undefined): string | undefined {
+  if (account.account.routingNumber !== undefined) return account.account.routingNumber;
+  if (bankId !== undefined) return bankId;
+  const institutionId = account.account.institutionId ?? toInstitutionId(account.account.institution);
+  return institutionId === BOA_INSTITUTION_ID ? BOA_ROUTING_NUMBER : undefined;
+}
+
+/**
+ * Generate the statement response for a bank account (STMTTRNRS) or
+ * credit card (CCSTMTTRNRS)
+ */
+function generateStatementResponseOfx(
   account: FinalResultV2['accounts'][number],
-  period: StatementPeriodInfo,
-  bankId: string,
+  block: StatementBlock,
+  bankId: string | undefined,
   includeAvailBal: boolean
 ): string {
-  const acctType = getOfxAccountType(account.account.accountType);
+  const isCreditCard = isCreditCardAccount(account);
   const acctId = toNumericAcctId(account.account.accountNumberMasked);
-  const dtStart = formatOfxDate(period.startDate);
-  const dtEnd = formatOfxDate(period.endDate);
+  const dtStart = formatOfxDate(block.startDate);
+  const dtEnd = formatOfxDate(block.endDate);
   const lastFour = account.account.accountNumberMasked.replace(/\*/g, '').slice(-4);
   const trnUid = `stmt_${dtStart}_${dtEnd}_${lastFour}`;
-  
-  const transactionsOfx = period.transactions
-    .map((txn) => generateTransactionOfx(txn, txn.statementId))
+  const balAmt = toDecimalString(block.endingBalance, account.account.currency);
+
+  const transactionsOfx = block.transactions
+    .map((txn) => generateTransactionOfx(txn, txn.statementId, account.account.currency, isCreditCard))
     .join('\n');
-  
-  const availBalSection = includeAvailBal ? `
+
+  const accountBankId = resolveBankId(account, bankId);
+  const bankIdLine = accountBankId !== undefined ? `\n<BANKID>${accountBankId}</BANKID>` : '';
+  const acctFrom = isCreditCard
+    ? `<CCACCTFROM>
+<ACCTID>${acctId}</ACCTID>
+</CCACCTFROM>`
+    : `<BANKACCTFROM>${bankIdLine}
+<ACCTID>${acctId}</ACCTID>
+<ACCTTYPE>${getOfxAccountType(account.account.accountType)}</ACCTTYPE>
+</BANKACCTFROM>`;
+
+  const availBalSection = includeAvailBal && !isCreditCard ? `
 <AVAILBAL>
-<BALAMT>${period.endingBalance.toFixed(2)}</BALAMT>
+<BALAMT>${balAmt}</BALAMT>
 <DTASOF>${dtEnd}</DTASOF>
 </AVAILBAL>` : '';
-  
-  return `<STMTTRNRS>
+
+  const trnRs = isCreditCard ? 'CCSTMTTRNRS' : 'STMTTRNRS';
+  const stmtRs = isCreditCard ? 'CCSTMTRS' : 'STMTRS';
+
+  return `<${trnRs}>
 <TRNUID>${trnUid}</TRNUID>
 <STATUS>
 <CODE>0</CODE>
 <SEVERITY>INFO</SEVERITY>
 </STATUS>
-<STMTRS>
+<${stmtRs}>
 <CURDEF>${account.account.currency}</CURDEF>
-<BANKACCTFROM>
-<BANKID>${bankId}</BANKID>
-<ACCTID>${acctId}</ACCTID>
-<ACCTTYPE>${acctType}</ACCTTYPE>
-</BANKACCTFROM>
+${acctFrom}
 <BANKTRANLIST>
 <DTSTART>${dtStart}</DTSTART>
 <DTEND>${dtEnd}</DTEND>
 ${transactionsOfx}
 </BANKTRANLIST>
 <LEDGERBAL>
-<BALAMT>${period.endingBalance.toFixed(2)}</BALAMT>
+<BALAMT>${balAmt}</BALAMT>
 <DTASOF>${dtEnd}</DTASOF>
 </LEDGERBAL>${availBalSection}
-</STMTRS>
-</STMTTRNRS>`;
+</${stmtRs}>
+</${trnRs}>`;
 }
 
 /**
@@ -411,57 +519,27 @@ ${transactionsOfx}
  */
 function generateAccountOfxSingle(
   account: FinalResultV2['accounts'][number],
-  bankId: string,
+  bankId: string | undefined,
   includeAvailBal: boolean
 ): string {
-  const acctType = getOfxAccountType(account.account.accountType);
-  const acctId = toNumericAcctId(account.account.accountNumberMasked);
-  const dtStart = formatOfxDate(account.account.statementPeriod.start);
-  const dtEnd = formatOfxDate(account.account.statementPeriod.end);
-  const lastFour = account.account.accountNumberMasked.replace(/\*/g, '').slice(-4);
-  const trnUid = `stmt_${dtStart}_${dtEnd}_${lastFour}`;
-  
   // Sort transactions by date for deterministic output
   const sortedTransactions = [...account.transactions].sort((a, b) => {
     const dateCompare = a.date.localeCompare(b.date);
     if (dateCompare !== 0) return dateCompare;
     return a.transactionId.localeCompare(b.transactionId);
   });
-  
-  const transactionsOfx = sortedTransactions
-    .map((txn) => generateTransactionOfx(txn, txn.statementId))
-    .join('\n');
-  
-  const availBalSection = includeAvailBal ? `
-<AVAILBAL>
-<BALAMT>${account.summary.endingBalance.toFixed(2)}</BALAMT>
-<DTASOF>${dtEnd}</DTASOF>
-</AVAILBAL>` : '';
-  
-  return `<STMTTRNRS>
-<TRNUID>${trnUid}</TRNUID>
-<STATUS>
-<CODE>0</CODE>
-<SEVERITY>INFO</SEVERITY>
-</STATUS>
-<STMTRS>
-<CURDEF>${account.account.currency}</CURDEF>
-<BANKACCTFROM>
-<BANKID>${bankId}</BANKID>
-<ACCTID>${acctId}</ACCTID>
-<ACCTTYPE>${acctType}</ACCTTYPE>
-</BANKACCTFROM>
-<BANKTRANLIST>
-<DTSTART>${dtStart}</DTSTART>
-<DTEND>${dtEnd}</DTEND>
-${transactionsOfx}
-</BANKTRANLIST>
-<LEDGERBAL>
-<BALAMT>${account.summary.endingBalance.toFixed(2)}</BALAMT>
-<DTASOF>${dtEnd}</DTASOF>
-</LEDGERBAL>${availBalSection}
-</STMTRS>
-</STMTTRNRS>`;
+
+  return generateStatementResponseOfx(
+    account,
+    {
+      startDate: account.account.statementPeriod.start,
+      endDate: account.account.statementPeriod.end,
+      transactions: sortedTransactions,
+      endingBalance: getOfxBalances(account).closing,
+    },
+    bankId,
+    includeAvailBal
+  );
 }
 
 /**
@@ -469,22 +547,59 @@ ${transactionsOfx}
  */
 function generateAccountOfx(
   account: FinalResultV2['accounts'][number],
-  bankId: string,
+  bankId: string | undefined,
   splitByStatement: boolean,
   includeAvailBal: boolean
 ): string {
   if (splitByStatement) {
     const periods = groupTransactionsByStatement(account);
     return periods
-      .map((period) => generateStatementOfx(account, period, bankId, includeAvailBal))
+      .map((period) => generateStatementResponseOfx(account, period, bankId, includeAvailBal))
       .join('\n');
   } else {
     return generateAccountOfxSingle(account, bankId, includeAvailBal);
   }
 }
 
+/**
+ * Generate the message set responses for a list of accounts.
+ * Bank accounts go in BANKMSGSRSV1 and credit cards in CREDITCARDMSGSRSV1;
+ * a message set is only emitted when it has at least one account.
+ * Without the header, the statement responses are returned unwrapped.
+ */
+function generateMessageSetsOfx(
+  accounts: FinalResultV2['accounts'],
+  bankId: string | undefined,
+  splitByStatement: boolean,
+  includeAvailBal: boolean,
+  wrap: boolean
+): string[] {
+  const bankBlocks: string[] = [];
+  const cardBlocks: string[] = [];
+
+  for (const account of accounts) {
+    const blocks = isCreditCardAccount(account) ? cardBlocks : bankBlocks;
+    blocks.push(generateAccountOfx(account, bankId, splitByStatement, includeAvailBal));
+  }
+
+  if (!wrap) {
+    return [...bankBlocks, ...cardBlocks];
+  }
+
+  const parts: string[] = [];
+  if (bankBlocks.length > 0 || cardBlocks.length === 0) {
+    parts.push('<BANKMSGSRSV1>', ...bankBlocks, '</BANKMSGSRSV1>');
+  }
+  if (cardBlocks.length > 0) {
+    parts.push('<CREDITCARDMSGSRSV1>', ...cardBlocks, '</CREDITCARDMSGSRSV1>');
+  }
+  return parts;
+}
+
 /**
  * Export v2 rollup to OFX format.
+ * Bank and credit card accounts are combined into one file with a
+ * message set for each.
  * 
  * @param v2Result - The v2 rollup result to export
  * @param options - Export options
@@ -496,7 +611,7 @@ export function exportOfx(
 ): string {
   const {
     includeHeader = true,
-    bankId = '121000358',
+    bankId,
     splitByStatement = true,
     includeAvailBal = true,
   } = options;
@@ -507,10 +622,8 @@ export function exportOfx(
     parts.push(generateOfxHeader());
   }
   
-  // Generate OFX for each account
-  for (const account of v2Result.accounts) {
-    parts.push(generateAccountOfx(account, bankId, splitByStatement, includeAvailBal));
-  }
+  // Generate OFX for each account, grouped by message set
+  parts.push(...generateMessageSetsOfx(v2Result.accounts, bankId, splitByStatement, includeAvailBal, includeHeader));
   
   if (includeHeader) {
     parts.push(generateOfxFooter());
@@ -532,7 +645,7 @@ export function exportAccountOfx(
 ): string {
   const {
     includeHeader = true,
-    bankId = '121000358',
+    bankId,
     splitByStatement = true,
     includeAvailBal = true,
   } = options;
@@ -543,7 +656,7 @@ export function exportAccountOfx(
     parts.push(generateOfxHeader());
   }
   
-  parts.push(generateAccountOfx(accountBlock, bankId, splitByStatement, includeAvailBal));
+  parts.push(...generateMessageSetsOfx([accountBlock], bankId, splitByStatement, includeAvailBal, includeHeader));
   
   if (includeHeader) {
     parts.push(generateOfxFooter());
@@ -21,7 +21,9 @@ import {
   normalizeTransactions,
   mapAccountType,
   generatePlaidStatementId,
+  resolvePlaidCurrency,
 } from '../plaid/normalizer.js';
+import { DEFAULT_CURRENCY } from '../utils/constants.js';
 
 export type MergeStrategy = 'pdf-primary' | 'plaid-primary' | 'union';
 
@@ -50,6 +52,7 @@ function convertToV2Transaction(tx: Transaction, plaidAccount: PlaidAccount): V2
     category: tx.categorization?.category ?? 'Uncategorized',
     subcategory: tx.categorization?.subcategory ?? null,
     confidence: tx.categorization?.confidence ?? 0.5,
+    ...(tx.currency !== undefined ? { currency: tx.currency } : {}),
     statementId,
     periodLabel,
     transactionId: tx.transactionId,
@@ -319,7 +322,10 @@ export function enrichWithPlaid(
               start: txs.reduce((min, tx) => tx.date < min ? tx.date : min, txs[0]?.date ?? ''),
               end: txs.reduce((max, tx) => tx.date > max ? tx.date : max, txs[0]?.date ?? ''),
             },
-            currency: 'USD',
+            currency: resolvePlaidCurrency(
+              plaidAccount.balances.isoCurrencyCode,
+              plaidAccount.balances.unofficialCurrencyCode
+            ) ?? DEFAULT_CURRENCY,
           },
           summary: {
             startingBalance: 0,
@@ -0,0 +1,375 @@
+/**
+ * Plain-Text Accounting Exporter Module
+ *
+ * Converts v2 rollup output to beancount and ledger/hledger journals.
+ * Each statement account becomes an asset (or, for credit cards, liability)
+ * account; each category/subcategory becomes an income or expense account.
+ * Statement balances are emitted as balance assertions and `transactionId`
+ * is attached to every entry so re-exports can be deduplicated.
+ */
+
+import type { FinalResultV2 } from './adapters.js';
+import { toDecimalString } from '../utils/money.js';
+
+type AccountBlock = FinalResultV2['accounts'][number];
+type AccountTransaction = AccountBlock['transactions'][number];
+
+/**
+ * Maps statement accounts and categories to ledger account names
+ */
+export interface AccountingMapping {
+  /** Ledger account per statement account, keyed by the last four digits of the account number */
+  accounts?: Record<string, string>;
+  /** Ledger account per category, keyed by "Category:Subcategory" or "Category" */
+  categories?: Record<string, string>;
+  /** Account for uncategorized debits (default: 'Expenses:Uncategorized') */
+  defaultExpenseAccount?: string;
+  /** Account for uncategorized credits (default: 'Income:Uncategorized') */
+  defaultIncomeAccount?: string;
+  /** Account for transfers between your own accounts (default: 'Assets:Transfers') */
+  transferAccount?: string;
+  /** Counter-account for opening balances (default: 'Equity:Opening-Balances') */
+  openingBalanceAccount?: string;
+}
+
+/**
+ * Options for beancount and ledger export
+ */
+export interface PlainTextExportOptions {
+  /** Account and category mapping (defaults derive names from the statement data) */
+  mapping?: AccountingMapping;
+  /**
+   * Bring each account to its statement starting balance from the opening
+   * balance account before asserting it (default: true). Disable when the
+   * journal already holds earlier history for these accounts.
+   */
+  includeOpeningBalances?: boolean;
+}
+
+interface ResolvedMapping {
+  accounts: Record<string, string>;
+  categories: Record<string, string>;
+  defaultExpenseAccount: string;
+  defaultIncomeAccount: string;
+  transferAccount: string;
+  openingBalanceAccount: string;
+}
+
+/** Ledger account names: capitalized components separated by ':' */
+const ACCOUNT_NAME_PATTERN = /^(Assets|Liabilities|Equity|Income|Expenses)(:[A-Z0-9][A-Za-z0-9-]*)+$/;
+
+function resolveMapping(mapping: AccountingMapping = {}): ResolvedMapping {
+  return {
+    accounts: mapping.accounts ?? {},
+    categories: mapping.categories ?? {},
+    defaultExpenseAccount: mapping.defaultExpenseAccount ?? 'Expenses:Uncategorized',
+    defaultIncomeAccount: mapping.defaultIncomeAccount ?? 'Income:Uncategorized',
+    transferAccount: mapping.transferAccount ?? 'Assets:Transfers',
+    openingBalanceAccount: mapping.openingBalanceAccount ?? 'Equity:Opening-Balances',
+  };
+}
+
+/**
+ * Validate a user-supplied accounting mapping (e.g. loaded from JSON).
+ */
+export function parseAccountingMapping(input: unknown): AccountingMapping {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Accounting mapping must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+
+  const checkAccount = (value: unknown, field: string): string => {
+    if (typeof value !== 'string' || !ACCOUNT_NAME_PATTERN.test(value)) {
+      throw new Error(`Invalid account name for ${field}: ${String(value)}`);
+    }
+    return value;
+  };
+  const checkTable = (value: unknown, field: string): Record<string, string> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Accounting mapping "${field}" must be an object`);
+    }
+    const table: Record<string, string> = {};
+    for (const [key, account] of Object.entries(value)) {
+      table[key] = checkAccount(account, `${field}.${key}`);
+    }
+    return table;
+  };
+
+  const mapping: AccountingMapping = {};
+  if (raw['accounts'] !== undefined) mapping.accounts = checkTable(raw['accounts'], 'accounts');
+  if (raw['categories'] !== undefined) mapping.categories = checkTable(raw['categories'], 'categories');
+  if (raw['defaultExpenseAccount'] !== undefined) {
+    mapping.defaultExpenseAccount = checkAccount(raw['defaultExpenseAccount'], 'defaultExpenseAccount');
+  }
+  if (raw['defaultIncomeAccount'] !== undefined) {
+    mapping.defaultIncomeAccount = checkAccount(raw['defaultIncomeAccount'], 'defaultIncomeAccount');
+  }
+  if (raw['transferAccount'] !== undefined) {
+    mapping.transferAccount = checkAccount(raw['transferAccount'], 'transferAccount');
+  }
+  if (raw['openingBalanceAccount'] !== undefined) {
+    mapping.openingBalanceAccount = checkAccount(raw['openingBalanceAccount'], 'openingBalanceAccount');
+  }
+  return mapping;
+}
+
+/**
+ * Turn free text into an account name component ("Food & Dining" -> "FoodDining")
+ */
+function toAccountComponent(value: string): string {
+  const component = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word !== '')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return component !== '' ? component : 'Other';
+}
+
+function getLast4(account: AccountBlock): string {
+  return account.account.accountNumberMasked.replace(/\*/g, '').slice(-4);
+}
+
+function isLiability(account: AccountBlock): boolean {
+  return account.account.accountType.toLowerCase() === 'credit';
+}
+
+/**
+ * Ledger account for a statement account, e.g. Assets:Bank:BankOfAmerica:Checking-3529
+ */
+function getStatementAccountName(account: AccountBlock, mapping: ResolvedMapping): string {
+  const last4 = getLast4(account);
+  const mapped = mapping.accounts[last4];
+  if (mapped !== undefined) {
+    return mapped;
+  }
+  const institution = toAccountComponent(account.account.institution);
+  const accountType = toAccountComponent(account.account.accountType);
+  return isLiability(account)
+    ? `Liabilities:CreditCard:${institution}:${accountType}-${last4}`
+    : `Assets:Bank:${institution}:${accountType}-${last4}`;
+}
+
+/**
+ * Income/expense account for a transaction's category and subcategory
+ */
+function getCategoryAccountName(txn: AccountTransaction, mapping: ResolvedMapping): string {
+  const subcategory = txn.subcategory ?? '';
+  const mapped = (subcategory !== '' ? mapping.categories[`${txn.category}:${subcategory}`] : undefined)
+    ?? mapping.categories[txn.category];
+  if (mapped !== undefined) {
+    return mapped;
+  }
+
+  if (txn.category === 'Transfer') {
+    return mapping.transferAccount;
+  }
+  if (txn.category === '' || txn.category === 'Uncategorized') {
+    return txn.direction === 'credit' ? mapping.defaultIncomeAccount : mapping.defaultExpenseAccount;
+  }
+  if (txn.category === 'Income') {
+    return `Income:${toAccountComponent(subcategory !== '' ? subcategory : 'Other')}`;
+  }
+  const parts = ['Expenses', toAccountComponent(txn.category)];
+  if (subcategory !== '') {
+    parts.push(toAccountComponent(subcategory));
+  }
+  return parts.join(':');
+}
+
+function signedAmount(txn: AccountTransaction): number {
+  const absAmount = Math.abs(txn.amount);
+  return txn.direction === 'credit' ? absAmount : -absAmount;
+}
+
+/**
+ * Opening and closing balances in ledger sign convention.
+ *
+ * Parsed card statements report the amount owed as a positive balance; a
+ * liability with money owed carries a negative balance, so they are flipped.
+ */
+function getLedgerBalances(account: AccountBlock): { opening: number; closing: number } {
+  const { startingBalance, endingBalance } = account.summary;
+  if (isLiability(account)) {
+    return { opening: -startingBalance, closing: -endingBalance };
+  }
+  return { opening: startingBalance, closing: endingBalance };
+}
+
+function sortTransactions(account: AccountBlock): AccountTransaction[] {
+  return [...account.transactions].sort((a, b) => {
+    const dateCompare = a.date.localeCompare(b.date);
+    if (dateCompare !== 0) return dateCompare;
+    return a.transactionId.localeCompare(b.transactionId);
+  });
+}
+
+function shiftDate(isoDate: string, days: number): string {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0] ?? isoDate;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${toDecimalString(amount, currency)} ${currency}`;
+}
+
+function sanitizeText(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+function quoteBeancount(value: string): string {
+  return `"${sanitizeText(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function payeeOf(txn: AccountTransaction): string {
+  return txn.merchant !== '' ? txn.merchant : txn.description;
+}
+
+/**
+ * Generate beancount directives for one account
+ */
+function generateAccountBeancount(
+  account: AccountBlock,
+  mapping: ResolvedMapping,
+  includeOpeningBalances: boolean
+): string {
+  const name = getStatementAccountName(account, mapping);
+  const currency = account.account.currency;
+  const { opening, closing } = getLedgerBalances(account);
+  const { start, end } = account.account.statementPeriod;
+  const parts: string[] = [
+    `; ${sanitizeText(account.account.institution)} ${account.account.accountType} ${account.account.accountNumberMasked}`,
+  ];
+
+  if (includeOpeningBalances) {
+    parts.push(`${shiftDate(start, -1)} pad ${name} ${mapping.openingBalanceAccount}`);
+  }
+  parts.push(`${start} balance ${name} ${formatAmount(opening, currency)}`);
+
+  for (const txn of sortTransactions(account)) {
+    parts.push([
+      `${txn.date} * ${quoteBeancount(payeeOf(txn))} ${quoteBeancount(txn.description)} ^${txn.transactionId}`,
+      `  transaction_id: ${quoteBeancount(txn.transactionId)}`,
+      `  ${name}  ${formatAmount(signedAmount(txn), currency)}`,
+      `  ${getCategoryAccountName(txn, mapping)}`,
+    ].join('\n'));
+  }
+
+  // beancount checks balances at the start of the day, so assert the
+  // closing balance on the day after the statement period ends
+  parts.push(`${shiftDate(end, 1)} balance ${name} ${formatAmount(closing, currency)}`);
+  return parts.join('\n\n');
+}
+
+/**
+ * Export v2 rollup to a beancount journal.
+ *
+ * @param v2Result - The v2 rollup result to export
+ * @param options - Export options
+ * @returns beancount text
+ */
+export function exportBeancount(
+  v2Result: FinalResultV2,
+  options: PlainTextExportOptions = {}
+): string {
+  const { includeOpeningBalances = true } = options;
+  const mapping = resolveMapping(options.mapping);
+
+  // Every account used has to be opened before its first directive
+  const openDates = new Map<string, string>();
+  const noteOpen = (name: string, date: string): void => {
+    const existing = openDates.get(name);
+    if (existing === undefined || date < existing) {
+      openDates.set(name, date);
+    }
+  };
+  for (const account of v2Result.accounts) {
+    const openDate = shiftDate(account.account.statementPeriod.start, -1);
+    noteOpen(getStatementAccountName(account, mapping), openDate);
+    if (includeOpeningBalances) {
+      noteOpen(mapping.openingBalanceAccount, openDate);
+    }
+    for (const txn of account.transactions) {
+      noteOpen(getCategoryAccountName(txn, mapping), openDate);
+    }
+  }
+
+  const opens = [...openDates.entries()]
+    .sort(([nameA, dateA], [nameB, dateB]) => dateA.localeCompare(dateB) || nameA.localeCompare(nameB))
+    .map(([name, date]) => `${date} open ${name}`);
+
+  const parts = [opens.join('\n')];
+  for (const account of v2Result.accounts) {
+    parts.push(generateAccountBeancount(account, mapping, includeOpeningBalances));
+  }
+  return `${parts.join('\n\n')}\n`;
+}
+
+/**
+ * Generate ledger/hledger transactions for one account
+ */
+function generateAccountLedger(
+  account: AccountBlock,
+  mapping: ResolvedMapping,
+  includeOpeningBalances: boolean
+): string {
+  const name = getStatementAccountName(account, mapping);
+  const currency = account.account.currency;
+  const { opening, closing } = getLedgerBalances(account);
+  const { start, end } = account.account.statementPeriod;
+  const parts: string[] = [
+    `; ${sanitizeText(account.account.institution)} ${account.account.accountType} ${account.account.accountNumberMasked}`,
+  ];
+
+  // Balance assignment when opening the account, plain assertion otherwise
+  parts.push(includeOpeningBalances
+    ? [
+      `${start} * Opening balance`,
+      `    ${name}  = ${formatAmount(opening, currency)}`,
+      `    ${mapping.openingBalanceAccount}`,
+    ].join('\n')
+    : [
+      `${start} * Opening balance assertion`,
+      `    ${name}  ${formatAmount(0, currency)} = ${formatAmount(opening, currency)}`,
+    ].join('\n'));
+
+  for (const txn of sortTransactions(account)) {
+    const payee = sanitizeText(payeeOf(txn));
+    const description = sanitizeText(txn.description);
+    const lines = [`${txn.date} * ${payee}`, `    ; transaction_id: ${txn.transactionId}`];
+    if (description !== payee) {
+      lines.push(`    ; ${description}`);
+    }
+    lines.push(
+      `    ${name}  ${formatAmount(signedAmount(txn), currency)}`,
+      `    ${getCategoryAccountName(txn, mapping)}`
+    );
+    parts.push(lines.join('\n'));
+  }
+
+  parts.push([
+    `${end} * Closing balance assertion`,
+    `    ${name}  ${formatAmount(0, currency)} = ${formatAmount(closing, currency)}`,
+  ].join('\n'));
+  return parts.join('\n\n');
+}
+
+/**
+ * Export v2 rollup to a ledger journal (also readable by hledger).
+ *
+ * @param v2Result - The v2 rollup result to export
+ * @param options - Export options
+ * @returns ledger text
+ */
+export function exportLedger(
+  v2Result: FinalResultV2,
+  options: PlainTextExportOptions = {}
+): string {
+  const { includeOpeningBalances = true } = options;
+  const mapping = resolveMapping(options.mapping);
+
+  const parts = v2Result.accounts.map((account) =>
+    generateAccountLedger(account, mapping, includeOpeningBalances)
+  );
+  return `${parts.join('\n\n')}\n`;
+}
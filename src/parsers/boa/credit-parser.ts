@@ -1,6 +1,7 @@
 import type { ExtractedPDF, ExtractedPage } from '../../extractors/index.js';
 import { parseUSDate } from '../../utils/date.js';
 import { parseAmount } from '../../utils/money.js';
+import type { CreditApr, CreditDetails } from '../../schemas/index.js';
 import type { RawTransaction, AccountInfo, BalanceInfo } from './types.js';
 
 const CREDIT_PATTERNS = {
@@ -21,10 +22,29 @@ const CREDIT_PATTERNS = {
   accountSummary: /account\s+summary/i,
 };
 
+// "Cash Credit Line" / "Cash Credit Available" are the cash advance sub-limits
+const CREDIT_DETAIL_PATTERNS = {
+  creditLimit: /(?<!Cash\s)Credit\s+(?:Limit|Line)\s*[:\s$]*([0-9,]+\.\d{2})/i,
+  availableCredit: /(?<!Cash\s)(?:Credit\s+Available|Available\s+Credit)\s*[:\s$]*(-?[0-9,]+\.\d{2})/i,
+  paymentDueDate: /Payment\s+Due\s+Date\s*[:\s]*(\d{1,2}\/\d{1,2}\/\d{2,4}|[A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
+  minimumPaymentDue: /Minimum\s+Payment\s+Due\s*[:\s$]*([0-9,]+\.\d{2})/i,
+  interestChargedTotal: /Total\s+Interest\s+Charged\s+for\s+this\s+Period\s*[:\s$]*([0-9,]+\.\d{2})/i,
+  interestCharged: /Interest\s+Charged\s*[:\s$+]*([0-9,]+\.\d{2})/i,
+  feesChargedTotal: /Total\s+Fees\s+Charged\s+for\s+this\s+Period\s*[:\s$]*([0-9,]+\.\d{2})/i,
+  feesCharged: /Fees\s+Charged\s*[:\s$+]*([0-9,]+\.\d{2})/i,
+  // Interest charge calculation rows: type, APR, balance subject to interest, interest charged
+  aprRow: /^(Purchases|Balance\s+Transfers?|Cash\s+Advances?|Promotional\s+[A-Za-z ]+?)\s+(\d{1,2}(?:\.\d{1,2})?)%(?:\s*[VvFf]\b)?(?:\s+\$?([0-9,]+\.\d{2})\s+\$?([0-9,]+\.\d{2}))?/,
+  cashRewards: /(?:Cash\s+)?Rewards\s+Earned(?:\s+This\s+(?:Period|Statement))?\s*[:\s$+]*([0-9,]+\.\d{2})/i,
+  pointsRewards: /Points\s+Earned(?:\s+This\s+(?:Period|Statement))?\s*[:\s+]*([0-9,]+)(?![0-9.])/i,
+  lateFee: /late\s+fee\s+of\s+up\s+to\s+\$([0-9,]+\.\d{2})/i,
+  penaltyApr: /Penalty\s+APR\s+of\s+(\d{1,2}(?:\.\d{1,2})?)%/i,
+};
+
 export function parseCreditStatement(pdf: ExtractedPDF): {
   accountInfo: AccountInfo;
   balanceInfo: BalanceInfo;
   transactions: RawTransaction[];
+  creditDetails: CreditDetails | null;
   warnings: string[];
 } {
   const warnings: string[] = [];
@@ -33,8 +53,9 @@ export function parseCreditStatement(pdf: ExtractedPDF): {
   const accountInfo = extractAccountInfo(fullText, warnings);
   const balanceInfo = extractBalanceInfo(fullText, warnings);
   const transactions = extractTransactions(pdf.pages, accountInfo, warnings);
+  const creditDetails = extractCreditDetails(fullText, pdf.pages);
 
-  return { accountInfo, balanceInfo, transactions, warnings };
+  return { accountInfo, balanceInfo, transactions, creditDetails, warnings };
 }
 
 function extractAccountInfo(text: string, warnings: string[]): AccountInfo {
@@ -130,6 +151,75 @@ function extractBalanceInfo(text: string, warnings: string[]): BalanceInfo {
   return { startingBalance, endingBalance, totalCredits, totalDebits };
 }
 
+/**
+ * Extract the card terms and cycle figures printed around the account summary:
+ * credit limit, payment due, APRs, interest and fees charged, rewards and the
+ * late payment warning. Returns null when none of them are found.
+ */
+function extractCreditDetails(text: string, pages: ExtractedPage[]): CreditDetails | null {
+  const amount = (...patterns: RegExp[]): number | null => {
+    for (const pattern of patterns) {
+      const match = pattern.exec(text);
+      if (match?.[1] !== undefined) return parseAmount(match[1]);
+    }
+    return null;
+  };
+
+  const dueMatch = CREDIT_DETAIL_PATTERNS.paymentDueDate.exec(text);
+  let paymentDueDate: string | null = null;
+  if (dueMatch?.[1] !== undefined) {
+    try {
+      paymentDueDate = dueMatch[1].includes('/') ? parseUSDate(dueMatch[1]) : parseMonthDayYear(dueMatch[1]);
+    } catch {
+      paymentDueDate = null;
+    }
+  }
+
+  const aprs: CreditApr[] = [];
+  for (const page of pages) {
+    for (const line of page.lines) {
+      const match = CREDIT_DETAIL_PATTERNS.aprRow.exec(line.trim());
+      if (match?.[1] === undefined || match[2] === undefined) continue;
+      const balanceType = match[1].replace(/\s+/g, ' ');
+      if (aprs.some((apr) => apr.balanceType === balanceType)) continue;
+      aprs.push({
+        balanceType,
+        apr: parseFloat(match[2]),
+        balanceSubjectToInterest: match[3] !== undefined ? parseAmount(match[3]) : null,
+        interestCharged: match[4] !== undefined ? parseAmount(match[4]) : null,
+      });
+    }
+  }
+
+  const cashRewards = amount(CREDIT_DETAIL_PATTERNS.cashRewards);
+  const pointsMatch = CREDIT_DETAIL_PATTERNS.pointsRewards.exec(text);
+  let rewards: CreditDetails['rewards'] = null;
+  if (cashRewards !== null) {
+    rewards = { earned: cashRewards, unit: 'cash' };
+  } else if (pointsMatch?.[1] !== undefined) {
+    rewards = { earned: parseInt(pointsMatch[1].replace(/,/g, ''), 10), unit: 'points' };
+  }
+
+  const lateFee = amount(CREDIT_DETAIL_PATTERNS.lateFee);
+  const penaltyAprMatch = CREDIT_DETAIL_PATTERNS.penaltyApr.exec(text);
+  const penaltyApr = penaltyAprMatch?.[1] !== undefined ? parseFloat(penaltyAprMatch[1]) : null;
+
+  const details: CreditDetails = {
+    creditLimit: amount(CREDIT_DETAIL_PATTERNS.creditLimit),
+    availableCredit: amount(CREDIT_DETAIL_PATTERNS.availableCredit),
+    paymentDueDate,
+    minimumPaymentDue: amount(CREDIT_DETAIL_PATTERNS.minimumPaymentDue),
+    aprs,
+    interestCharged: amount(CREDIT_DETAIL_PATTERNS.interestChargedTotal, CREDIT_DETAIL_PATTERNS.interestCharged),
+    feesCharged: amount(CREDIT_DETAIL_PATTERNS.feesChargedTotal, CREDIT_DETAIL_PATTERNS.feesCharged),
+    rewards,
+    latePaymentWarning: lateFee !== null || penaltyApr !== null ? { lateFee, penaltyApr } : null,
+  };
+
+  const found = Object.values(details).some((value) => value !== null && !(Array.isArray(value) && value.length === 0));
+  return found ? details : null;
+}
+
 function extractTransactions(
   pages: ExtractedPage[],
   accountInfo: AccountInfo,
@@ -1,12 +1,14 @@
 import type { ExtractedPDF } from '../../extractors/index.js';
-import type { ParsedStatement, Transaction, ParserOptions } from '../../schemas/index.js';
+import type { ParsedStatement, Transaction, ParserOptions, DailyBalance, CreditDetails } from '../../schemas/index.js';
 import { parseCheckingStatement, parseMultipleCheckingStatements } from './checking-parser.js';
 import { parseSavingsStatement, parseMultipleSavingsStatements } from './savings-parser.js';
 import { parseCreditStatement } from './credit-parser.js';
 import { categorizeTransaction, extractMerchant } from '../../categorization/index.js';
-import { parseAmount, roundToTwoDecimals, sumAmounts } from '../../utils/money.js';
-import { PARSER_VERSION, BOA_INSTITUTION_NAME } from '../../utils/constants.js';
+import { amountsEqual, calculateEndingBalance, parseAmount, roundToCurrency, sumAmounts } from '../../utils/money.js';
+import { PARSER_VERSION, BOA_INSTITUTION_NAME, BOA_INSTITUTION_ID } from '../../utils/constants.js';
+import { isTransactionDetailsPDF, parseTransactionDetails } from './transaction-details-parser.js';
 import type { RawTransaction, AccountInfo, BalanceInfo } from './types.js';
+import type { InstitutionParser } from '../registry.js';
 
 export interface ParseResult {
   statement: ParsedStatement;
@@ -129,12 +131,15 @@ export function parseBoaStatement(
   let accountInfo: AccountInfo;
   let balanceInfo: BalanceInfo;
   let rawTransactions: RawTransaction[];
+  let dailyBalances: DailyBalance[] = [];
+  let creditDetails: CreditDetails | null = null;
 
   if (accountType === 'credit') {
     const result = parseCreditStatement(pdf);
     accountInfo = result.accountInfo;
     balanceInfo = result.balanceInfo;
     rawTransactions = result.transactions;
+    creditDetails = result.creditDetails;
     warnings.push(...result.warnings);
   } else if (accountType === 'savings') {
     const result = parseSavingsStatement(pdf);
@@ -147,6 +152,7 @@ export function parseBoaStatement(
     accountInfo = result.accountInfo;
     balanceInfo = result.balanceInfo;
     rawTransactions = result.transactions;
+    dailyBalances = result.dailyBalances;
     warnings.push(...result.warnings);
   }
 
@@ -173,6 +179,7 @@ export function parseBoaStatement(
   const statement: ParsedStatement = {
     account: {
       institution: BOA_INSTITUTION_NAME,
+      institutionId: BOA_INSTITUTION_ID,
       accountType: accountInfo.accountType,
       accountNumberMasked: accountInfo.accountNumberMasked,
       statementPeriod: {
@@ -188,6 +195,8 @@ export function parseBoaStatement(
       totalDebits: balanceInfo.totalDebits,
     },
     transactions,
+    ...(dailyBalances.length > 0 ? { dailyBalances } : {}),
+    ...(creditDetails !== null ? { creditDetails } : {}),
     metadata: {
       parserVersion: PARSER_VERSION,
       parsedAt: new Date().toISOString(),
@@ -204,7 +213,7 @@ function normalizeTransactions(
 ): Transaction[] {
   return rawTransactions.map((raw) => {
     const amount = parseAmount(raw.amount);
-    const absAmount = roundToTwoDecimals(Math.abs(amount));
+    const absAmount = roundToCurrency(Math.abs(amount));
 
     let direction: 'debit' | 'credit';
     if (isCreditCard) {
@@ -262,11 +271,12 @@ function validateStatement(
     warnings.push('STRICT: No transactions were parsed');
   }
 
-  const calculatedBalance = roundToTwoDecimals(
-    balanceInfo.startingBalance + balanceInfo.totalCredits - balanceInfo.totalDebits
+  const calculatedBalance = calculateEndingBalance(
+    balanceInfo.startingBalance,
+    balanceInfo.totalCredits,
+    balanceInfo.totalDebits
   );
-  const diff = Math.abs(calculatedBalance - balanceInfo.endingBalance);
-  if (diff > 0.01) {
+  if (!amountsEqual(calculatedBalance, balanceInfo.endingBalance)) {
     warnings.push(
       `STRICT: Balance mismatch - calculated ${calculatedBalance}, reported ${balanceInfo.endingBalance}`
     );
@@ -294,8 +304,9 @@ export function parseBoaMultipleStatements(
   }
   
   // Parse multiple checking or savings statements based on detected account type
+  // (only checking statements carry the daily ledger balance table)
   const parsedStatements = accountType === 'savings'
-    ? parseMultipleSavingsStatements(pdf)
+    ? parseMultipleSavingsStatements(pdf).map((parsed) => ({ ...parsed, dailyBalances: [] as DailyBalance[] }))
     : parseMultipleCheckingStatements(pdf);
   const statements: ParsedStatement[] = [];
   let totalTransactions = 0;
@@ -329,6 +340,7 @@ export function parseBoaMultipleStatements(
     const statement: ParsedStatement = {
       account: {
         institution: BOA_INSTITUTION_NAME,
+        institutionId: BOA_INSTITUTION_ID,
         accountType: parsed.accountInfo.accountType,
         accountNumberMasked: parsed.accountInfo.accountNumberMasked,
         statementPeriod: {
@@ -344,6 +356,7 @@ export function parseBoaMultipleStatements(
         totalDebits,
       },
       transactions,
+      ...(parsed.dailyBalances.length > 0 ? { dailyBalances: parsed.dailyBalances } : {}),
       metadata: {
         parserVersion: PARSER_VERSION,
         parsedAt: new Date().toISOString(),
@@ -362,6 +375,95 @@ export function parseBoaMultipleStatements(
   };
 }
 
+/**
+ * Parse a "Print Transaction Details" PDF into a single statement.
+ * These PDFs contain a flat list of transactions from online banking export.
+ */
+export function parseBoaTransactionDetailsStatement(pdf: ExtractedPDF): ParsedStatement {
+  const result = parseTransactionDetails(pdf);
+
+  if (result.transactions.length === 0) {
+    throw new Error('No transactions found in transaction details PDF');
+  }
+
+  const transactions = normalizeTransactions(result.transactions, false);
+
+  const totalCredits = sumAmounts(
+    transactions.filter((t) => t.direction === 'credit').map((t) => t.amount)
+  );
+  const totalDebits = sumAmounts(
+    transactions.filter((t) => t.direction === 'debit').map((t) => Math.abs(t.amount))
+  );
+
+  return {
+    account: {
+      institution: BOA_INSTITUTION_NAME,
+      institutionId: BOA_INSTITUTION_ID,
+      accountType: result.accountInfo.accountType,
+      accountNumberMasked: result.accountInfo.accountNumberMasked,
+      statementPeriod: {
+        start: result.accountInfo.statementPeriodStart,
+        end: result.accountInfo.statementPeriodEnd,
+      },
+      currency: 'USD',
+    },
+    summary: {
+      startingBalance: result.balanceInfo.startingBalance,
+      endingBalance: result.balanceInfo.endingBalance,
+      totalCredits,
+      totalDebits,
+    },
+    transactions,
+    metadata: {
+      parserVersion: PARSER_VERSION,
+      parsedAt: new Date().toISOString(),
+      warnings: result.warnings,
+    },
+  };
+}
+
+/**
+ * Score how likely a PDF is a Bank of America statement or export.
+ * Layout-only matches (no institution name) score low so that a more
+ * specific institution parser wins when one is registered.
+ */
+export function detectBoa(pdf: ExtractedPDF): number {
+  if (isTransactionDetailsPDF(pdf)) {
+    return 1;
+  }
+
+  const text = pdf.fullText.toLowerCase();
+  const mentionsBoa = text.includes('bank of america') || text.includes('bankofamerica.com');
+  const recognizedLayout = detectAccountType(pdf) !== 'unknown';
+
+  if (mentionsBoa && recognizedLayout) return 0.9;
+  if (mentionsBoa) return 0.5;
+  if (recognizedLayout) return 0.3;
+  return 0;
+}
+
+/**
+ * Bank of America institution parser: monthly statements (checking, savings,
+ * credit, including combined multi-statement PDFs) and "Print Transaction Details" exports.
+ */
+export const boaParser: InstitutionParser = {
+  id: 'boa',
+  institution: BOA_INSTITUTION_NAME,
+  version: PARSER_VERSION,
+  detect: detectBoa,
+  parse(pdf: ExtractedPDF, options: ParserOptions = { strict: false, verbose: false }): ParsedStatement[] {
+    if (isTransactionDetailsPDF(pdf)) {
+      return [parseBoaTransactionDetailsStatement(pdf)];
+    }
+
+    const result = parseBoaMultipleStatements(pdf, options);
+    if (!result.success || result.statements.length === 0) {
+      throw new Error('Failed to parse any statements from PDF');
+    }
+    return result.statements;
+  },
+};
+
 export { parseCheckingStatement, parseMultipleCheckingStatements } from './checking-parser.js';
 export { parseSavingsStatement, parseMultipleSavingsStatements } from './savings-parser.js';
 export { parseCreditStatement } from './credit-parser.js';
@@ -0,0 +1,146 @@
+import { parseAmount } from '../../utils/money.js';
+import { extractStatementPeriod, getCell, resolveMonthDay } from './statement-lines.js';
+import type {
+  CapitalOneAccountInfo,
+  CapitalOneParsedAccount,
+  CapitalOneRawTransaction,
+  StatementLine,
+} from './types.js';
+
+const MONTH_DAY = /^[A-Za-z]{3}\s+\d{1,2}$/;
+
+const CHECKING_PATTERNS = {
+  accountHeader: /^(360\s+(?:Checking|Performance\s+Savings))\b.*?(\d{4})$/i,
+  openingBalance: /^([A-Za-z]{3}\s+\d{1,2})\s+Opening\s+Balance\s+(-?\$[0-9,]+\.\d{2})$/i,
+  closingBalance: /^([A-Za-z]{3}\s+\d{1,2})\s+Closing\s+Balance\s+(-?\$[0-9,]+\.\d{2})$/i,
+  transactionLine: /^([A-Za-z]{3}\s+\d{1,2})\s+(.+?)\s+(?:(Debit|Credit)\s+)?([-+])\s*\$([0-9,]+\.\d{2})\s+(-?\$[0-9,]+\.\d{2})$/i,
+};
+
+interface AccountSegment {
+  name: string;
+  last4: string;
+  lines: StatementLine[];
+}
+
+/**
+ * Capital One 360 statements list every account (360 Checking, 360 Performance
+ * Savings) in one PDF, each with its own activity table.
+ */
+function segmentAccounts(lines: StatementLine[]): AccountSegment[] {
+  const segments: AccountSegment[] = [];
+  let current: AccountSegment | null = null;
+
+  for (const line of lines) {
+    const header = CHECKING_PATTERNS.accountHeader.exec(line.text);
+    if (header?.[1] !== undefined && header[2] !== undefined) {
+      current = { name: header[1], last4: header[2], lines: [] };
+      segments.push(current);
+      continue;
+    }
+    current?.lines.push(line);
+  }
+
+  return segments;
+}
+
+/**
+ * Parse every account in a Capital One 360 statement.
+ */
+export function parse360Statements(lines: StatementLine[]): CapitalOneParsedAccount[] {
+  const period = extractStatementPeriod(lines.map((l) => l.text).join('\n'));
+
+  return segmentAccounts(lines).map((segment) => {
+    const warnings: string[] = [];
+    if (period === null) {
+      warnings.push('Could not extract statement period from Capital One 360 statement');
+    }
+
+    const accountInfo: CapitalOneAccountInfo = {
+      accountType: /savings/i.test(segment.name) ? 'savings' : 'checking',
+      accountNumberMasked: `****${segment.last4}`,
+      statementPeriodStart: period?.start ?? '',
+      statementPeriodEnd: period?.end ?? '',
+    };
+
+    let startingBalance: number | null = null;
+    let endingBalance: number | null = null;
+    const transactions: CapitalOneRawTransaction[] = [];
+
+    for (const line of segment.lines) {
+      const opening = CHECKING_PATTERNS.openingBalance.exec(line.text);
+      if (opening?.[2] !== undefined) {
+        startingBalance = parseAmount(opening[2]);
+        continue;
+      }
+
+      const closing = CHECKING_PATTERNS.closingBalance.exec(line.text);
+      if (closing?.[2] !== undefined) {
+        endingBalance = parseAmount(closing[2]);
+        continue;
+      }
+
+      const txn = parseTransactionLine(line, accountInfo.statementPeriodEnd);
+      if (txn !== null) {
+        transactions.push(txn);
+      }
+    }
+
+    if (startingBalance === null) {
+      warnings.push(`Could not extract opening balance for ${segment.name}`);
+    }
+    if (endingBalance === null) {
+      warnings.push(`Could not extract closing balance for ${segment.name}`);
+    }
+    if (transactions.length === 0) {
+      warnings.push(`No transactions found for ${segment.name}`);
+    }
+
+    return {
+      accountInfo,
+      balanceInfo: { startingBalance: startingBalance ?? 0, endingBalance: endingBalance ?? 0 },
+      transactions,
+      warnings,
+    };
+  });
+}
+
+function parseTransactionLine(line: StatementLine, periodEnd: string): CapitalOneRawTransaction | null {
+  let date: string | null = null;
+  let description: string | null = null;
+  let sign: string | null = null;
+  let amountStr: string | null = null;
+
+  const cellDate = getCell(line, 'date');
+  const cellAmount = getCell(line, 'amount');
+  if (cellDate !== null && cellAmount !== null && MONTH_DAY.test(cellDate)) {
+    date = cellDate;
+    description = getCell(line, 'description');
+    const category = getCell(line, 'category');
+    const signed = /^([-+])?\s*\$?([0-9,]+\.\d{2})$/.exec(cellAmount);
+    if (signed?.[2] !== undefined) {
+      sign = signed[1] ?? (category?.toLowerCase() === 'debit' ? '-' : '+');
+      amountStr = signed[2];
+    }
+  } else {
+    const match = CHECKING_PATTERNS.transactionLine.exec(line.text);
+    if (match !== null) {
+      [, date = null, description = null, , sign = null, amountStr = null] = match;
+    }
+  }
+
+  if (date === null || description === null || sign === null || amountStr === null) {
+    return null;
+  }
+
+  const absAmount = parseAmount(amountStr);
+  return {
+    date: resolveMonthDay(date, periodEnd),
+    postedDate: null,
+    description: description.trim(),
+    amount: sign === '-' ? -absAmount : absAmount,
+    page: line.page,
+    lineIndex: line.index,
+    originalLine: line.text,
+    section: 'activity',
+  };
+}
@@ -0,0 +1,198 @@
+import type { ExtractedPDF } from '../../extractors/index.js';
+import type { LayoutExtractedPDF } from '../../extractors/layout-pdfjs.js';
+import type { ParsedStatement, Transaction, ParserOptions } from '../../schemas/index.js';
+import { categorizeTransaction, extractMerchant } from '../../categorization/index.js';
+import { amountsEqual, calculateEndingBalance, roundToCurrency, sumAmounts } from '../../utils/money.js';
+import { PARSER_VERSION, CAPITAL_ONE_INSTITUTION_NAME, CAPITAL_ONE_INSTITUTION_ID } from '../../utils/constants.js';
+import type { InstitutionParser } from '../registry.js';
+import { parseCapitalOneCreditStatement } from './credit-parser.js';
+import { parse360Statements } from './checking-parser.js';
+import { linesFromLayout, linesFromText } from './statement-lines.js';
+import type { CapitalOneParsedAccount, CapitalOneRawTransaction, StatementLine } from './types.js';
+
+export type CapitalOneStatementKind = 'credit' | '360' | 'unknown';
+
+/**
+ * Tell credit card statements apart from 360 deposit account statements.
+ */
+export function detectCapitalOneStatementKind(text: string): CapitalOneStatementKind {
+  const lower = text.toLowerCase();
+  if (/360\s+(checking|performance\s+savings)/.test(lower)) {
+    return '360';
+  }
+
+  const creditIndicators = [
+    'payments, credits and adjustments',
+    'interest charged',
+    'minimum payment',
+    'credit limit',
+    'new balance',
+  ];
+  const hits = creditIndicators.filter((indicator) => lower.includes(indicator)).length;
+  return hits >= 2 ? 'credit' : 'unknown';
+}
+
+/**
+ * Score how likely a PDF is a Capital One credit card or 360 statement.
+ */
+export function detectCapitalOne(pdf: ExtractedPDF): number {
+  const text = pdf.fullText.toLowerCase();
+  const mentionsCapitalOne = text.includes('capital one') || text.includes('capitalone.com');
+  if (!mentionsCapitalOne) {
+    return 0;
+  }
+  return detectCapitalOneStatementKind(text) !== 'unknown' ? 0.95 : 0.5;
+}
+
+function categorize(raw: CapitalOneRawTransaction): { category: string; subcategory: string | null; confidence: number } {
+  // Fee and interest sections are unambiguous, like BoA's fees section
+  if (raw.section === 'fees') {
+    return { category: 'Fees', subcategory: 'Bank', confidence: 0.95 };
+  }
+  if (raw.section === 'interest') {
+    return { category: 'Fees', subcategory: 'Interest', confidence: 0.95 };
+  }
+  if (raw.section === 'payments' && /\b(pymt|payment)\b/i.test(raw.description)) {
+    return { category: 'Financial', subcategory: 'Credit Card Payment', confidence: 0.9 };
+  }
+  return categorizeTransaction(raw.description);
+}
+
+function normalizeTransactions(rawTransactions: CapitalOneRawTransaction[]): Transaction[] {
+  return rawTransactions.map((raw) => {
+    const absAmount = roundToCurrency(Math.abs(raw.amount));
+    const direction: 'debit' | 'credit' = raw.amount >= 0 ? 'credit' : 'debit';
+    const categorization = categorize(raw);
+
+    return {
+      date: raw.date,
+      postedDate: raw.postedDate,
+      description: raw.description,
+      merchant: extractMerchant(raw.description),
+      amount: direction === 'debit' ? -absAmount : absAmount,
+      direction,
+      category: categorization.category,
+      subcategory: categorization.subcategory,
+      confidence: categorization.confidence,
+      raw: {
+        originalText: raw.originalLine,
+        page: raw.page,
+      },
+    };
+  });
+}
+
+function buildStatement(parsed: CapitalOneParsedAccount, options: ParserOptions): ParsedStatement {
+  const warnings = [...parsed.warnings];
+  const transactions = normalizeTransactions(parsed.transactions);
+
+  const totalCredits = sumAmounts(
+    transactions.filter((t) => t.direction === 'credit').map((t) => t.amount)
+  );
+  const totalDebits = sumAmounts(
+    transactions.filter((t) => t.direction === 'debit').map((t) => Math.abs(t.amount))
+  );
+
+  if (options.strict) {
+    const { startingBalance } = parsed.balanceInfo;
+    // Card balances are the amount owed: purchases raise it, payments lower it
+    const calculated = parsed.accountInfo.accountType === 'credit'
+      ? calculateEndingBalance(startingBalance, totalDebits, totalCredits)
+      : calculateEndingBalance(startingBalance, totalCredits, totalDebits);
+    if (!amountsEqual(calculated, parsed.balanceInfo.endingBalance)) {
+      warnings.push(
+        `STRICT: Balance mismatch - calculated ${calculated}, reported ${parsed.balanceInfo.endingBalance}`
+      );
+    }
+  }
+
+  return {
+    account: {
+      institution: CAPITAL_ONE_INSTITUTION_NAME,
+      institutionId: CAPITAL_ONE_INSTITUTION_ID,
+      accountType: parsed.accountInfo.accountType,
+      accountNumberMasked: parsed.accountInfo.accountNumberMasked,
+      statementPeriod: {
+        start: parsed.accountInfo.statementPeriodStart,
+        end: parsed.accountInfo.statementPeriodEnd,
+      },
+      currency: 'USD',
+    },
+    summary: {
+      startingBalance: parsed.balanceInfo.startingBalance,
+      endingBalance: parsed.balanceInfo.endingBalance,
+      totalCredits,
+      totalDebits,
+    },
+    transactions,
+    metadata: {
+      parserVersion: PARSER_VERSION,
+      parsedAt: new Date().toISOString(),
+      warnings,
+    },
+  };
+}
+
+function parseLines(lines: StatementLine[], options: ParserOptions): ParsedStatement[] {
+  const kind = detectCapitalOneStatementKind(lines.map((l) => l.text).join('\n'));
+  if (kind === 'unknown') {
+    throw new Error('Could not determine Capital One statement type (expected credit card or 360)');
+  }
+
+  const accounts = kind === 'credit'
+    ? [parseCapitalOneCreditStatement(lines)]
+    : parse360Statements(lines);
+  return accounts.map((account) => buildStatement(account, options));
+}
+
+/**
+ * Parse a Capital One credit card or 360 statement from extracted text.
+ */
+export function parseCapitalOneStatements(
+  pdf: ExtractedPDF,
+  options: ParserOptions = { strict: false, verbose: false }
+): ParsedStatement[] {
+  return parseLines(linesFromText(pdf), options);
+}
+
+/**
+ * Parse a Capital One statement from positioned text items
+ * (see `extractTextItems`). Transaction tables are split into cells with the
+ * header-based column detection, which copes with descriptions that run
+ * into the amount column in plain text extraction.
+ */
+export function parseCapitalOneLayout(
+  layout: LayoutExtractedPDF,
+  options: ParserOptions = { strict: false, verbose: false }
+): ParsedStatement[] {
+  return parseLines(linesFromLayout(layout), options);
+}
+
+/**
+ * Capital One institution parser: credit card and 360 Checking/Savings statements.
+ */
+export const capitalOneParser: InstitutionParser = {
+  id: 'capitalone',
+  institution: CAPITAL_ONE_INSTITUTION_NAME,
+  version: PARSER_VERSION,
+  detect: detectCapitalOne,
+  parse(pdf: ExtractedPDF, options: ParserOptions = { strict: false, verbose: false }): ParsedStatement[] {
+    const statements = parseCapitalOneStatements(pdf, options);
+    if (statements.length === 0) {
+      throw new Error('Failed to parse any statements from PDF');
+    }
+    return statements;
+  },
+};
+
+export { parseCapitalOneCreditStatement } from './credit-parser.js';
+export { parse360Statements } from './checking-parser.js';
+export { linesFromText, linesFromLayout } from './statement-lines.js';
+export type {
+  CapitalOneRawTransaction,
+  CapitalOneAccountInfo,
+  CapitalOneBalanceInfo,
+  CapitalOneParsedAccount,
+  CapitalOneSection,
+  StatementLine,
+} from './types.js';
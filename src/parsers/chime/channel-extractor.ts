@@ -0,0 +1,84 @@
+/**
+ * Channel detection for Chime transaction descriptions.
+ * Maps Chime-specific money movement (Round Ups, Save When I Get Paid,
+ * Spending <-> Savings transfers, Pay Anyone, SpotMe) onto the shared
+ * ChannelType values and falls back to the generic extractor for the rest.
+ */
+
+import type { ChannelInfo } from '../../types/output.js';
+import { extractChannel } from '../boa/channel-extractor.js';
+import type { ChimeTransactionType } from './types.js';
+
+const CHIME_CHANNEL_PATTERNS = {
+  ROUND_UP: /\bRound\s*Up\b/i,
+  SAVE_WHEN_PAID: /Save\s+When\s+I\s+Get\s+Paid|Automatic\s+Savings/i,
+  TRANSFER_TO_SAVINGS: /Transfer\s+to\s+(?:Chime\s+)?Savings/i,
+  TRANSFER_FROM_SAVINGS: /Transfer\s+from\s+(?:Chime\s+)?Savings/i,
+  TRANSFER_TO_SPENDING: /Transfer\s+to\s+(?:Chime\s+)?(?:Spending|Checking)/i,
+  TRANSFER_FROM_SPENDING: /Transfer\s+from\s+(?:Chime\s+)?(?:Spending|Checking)/i,
+  PAY_ANYONE: /Pay\s+(?:Anyone|Friends)/i,
+  SPOTME: /\bSpotMe\b/i,
+  ATM: /\bATM\b/i,
+  MOBILE_CHECK_DEPOSIT: /Mobile\s+Check\s+Deposit|Check\s+Deposit/i,
+};
+
+export function extractChimeChannel(
+  description: string,
+  type: ChimeTransactionType | null = null
+): ChannelInfo {
+  const desc = description.trim();
+
+  if (CHIME_CHANNEL_PATTERNS.ROUND_UP.test(desc) || type === 'Round Up') {
+    return { type: 'ONLINE_BANKING_TRANSFER', subtype: 'round_up' };
+  }
+
+  if (CHIME_CHANNEL_PATTERNS.SAVE_WHEN_PAID.test(desc)) {
+    return { type: 'ONLINE_BANKING_TRANSFER', subtype: 'save_when_i_get_paid' };
+  }
+
+  if (CHIME_CHANNEL_PATTERNS.TRANSFER_TO_SAVINGS.test(desc)) {
+    return { type: 'ONLINE_BANKING_TRANSFER', subtype: 'transfer_to_sav' };
+  }
+
+  if (CHIME_CHANNEL_PATTERNS.TRANSFER_FROM_SAVINGS.test(desc)) {
+    return { type: 'ONLINE_BANKING_TRANSFER', subtype: 'transfer_from_sav' };
+  }
+
+  if (CHIME_CHANNEL_PATTERNS.TRANSFER_TO_SPENDING.test(desc)) {
+    return { type: 'ONLINE_BANKING_TRANSFER', subtype: 'transfer_to_chk' };
+  }
+
+  if (CHIME_CHANNEL_PATTERNS.TRANSFER_FROM_SPENDING.test(desc)) {
+    return { type: 'ONLINE_BANKING_TRANSFER', subtype: 'transfer_from_chk' };
+  }
+
+  if (CHIME_CHANNEL_PATTERNS.PAY_ANYONE.test(desc)) {
+    return { type: 'ONLINE_BANKING_TRANSFER', subtype: 'pay_anyone' };
+  }
+
+  if (CHIME_CHANNEL_PATTERNS.SPOTME.test(desc) || type === 'SpotMe Tip') {
+    return { type: 'OTHER', subtype: 'spotme' };
+  }
+
+  if (type === 'ATM Withdrawal' || (type === 'Withdrawal' && CHIME_CHANNEL_PATTERNS.ATM.test(desc))) {
+    return { type: 'ATM_WITHDRAWAL', subtype: null };
+  }
+
+  if (CHIME_CHANNEL_PATTERNS.MOBILE_CHECK_DEPOSIT.test(desc)) {
+    return { type: 'OTHER', subtype: 'mobile_check_deposit' };
+  }
+
+  if (type === 'Fee') {
+    return { type: 'FEE', subtype: null };
+  }
+
+  if (type === 'Purchase') {
+    return { type: 'PURCHASE', subtype: null };
+  }
+
+  if (type === 'Transfer') {
+    return { type: 'ONLINE_BANKING_TRANSFER', subtype: null };
+  }
+
+  return extractChannel(desc);
+}
@@ -7,6 +7,70 @@ export {
   parseCreditStatement,
   isTransactionDetailsPDF,
   parseTransactionDetails,
+  parseBoaTransactionDetailsStatement,
+  detectBoa,
+  boaParser,
 } from './boa/index.js';
 
 export type { ParseResult, MultiStatementParseResult, RawTransaction, AccountInfo, BalanceInfo, ParseContext } from './boa/index.js';
+
+export {
+  detectChime,
+  parseChimeStatement,
+  parseChimeMultipleStatements,
+  parseChimeStatementSections,
+  extractChimeChannel,
+  chimeParser,
+} from './chime/index.js';
+
+export type {
+  ChimeRawTransaction,
+  ChimeTransactionType,
+  ChimeAccountInfo,
+  ChimeBalanceInfo,
+  ChimeStatementSection,
+} from './chime/index.js';
+
+export {
+  detectCapitalOne,
+  detectCapitalOneStatementKind,
+  parseCapitalOneStatements,
+  parseCapitalOneLayout,
+  parseCapitalOneCreditStatement,
+  parse360Statements,
+  capitalOneParser,
+} from './capitalone/index.js';
+
+export type {
+  CapitalOneStatementKind,
+  CapitalOneRawTransaction,
+  CapitalOneAccountInfo,
+  CapitalOneBalanceInfo,
+  CapitalOneParsedAccount,
+  CapitalOneSection,
+  StatementLine as CapitalOneStatementLine,
+} from './capitalone/index.js';
+
+export { extractInstitutionChannel } from './channels.js';
+
+export {
+  ParserRegistry,
+  createParserRegistry,
+  getDefaultParserRegistry,
+  resetDefaultParserRegistry,
+  isInstitutionParser,
+  loadParserPlugins,
+  loadParserConfig,
+  restoreParserRegistry,
+  DEFAULT_MIN_CONFIDENCE,
+  OCR_MAX_CONFIDENCE,
+  applyOcrConfidence,
+} from './registry.js';
+
+export type {
+  InstitutionParser,
+  ParserMatch,
+  ParserRegistryParseResult,
+  ParserPluginConfig,
+  ParserRegistrySnapshot,
+} from './registry.js';
@@ -0,0 +1,407 @@
+/**
+ * Institution parser registry.
+ *
+ * Each institution integration implements `InstitutionParser`: a detection
+ * function that scores how likely a PDF belongs to that institution, and a
+ * parse function that turns it into canonical `ParsedStatement`s. The batch
+ * processor, unified sync and CLI ask the registry for the best parser per
+ * PDF instead of calling a bank-specific parser directly.
+ *
+ * Third-party parsers can be registered at runtime, either programmatically
+ * or from a JSON config file / npm package name via `loadParserPlugins`.
+ */
+
+import { readFile } from 'fs/promises';
+import { createRequire } from 'module';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { ExtractedPDF } from '../extractors/index.js';
+import type { ParsedStatement, ParserOptions } from '../schemas/index.js';
+import { roundToTwoDecimals } from '../utils/money.js';
+import { boaParser } from './boa/index.js';
+import { chimeParser } from './chime/index.js';
+import { capitalOneParser } from './capitalone/index.js';
+
+export interface InstitutionParser {
+  /** Stable identifier, e.g. 'boa' */
+  readonly id: string;
+  /** Institution display name, e.g. 'Bank of America' */
+  readonly institution: string;
+  /** Parser version; cached parse results from another version are parsed again */
+  readonly version?: string;
+  /** Confidence in [0, 1] that this parser understands the PDF (0 = not ours) */
+  detect(pdf: ExtractedPDF): number;
+  /** Parse the PDF into one or more canonical statements */
+  parse(pdf: ExtractedPDF, options?: ParserOptions): ParsedStatement[];
+}
+
+export interface ParserMatch {
+  parser: InstitutionParser;
+  confidence: number;
+}
+
+export interface ParserRegistryParseResult extends ParserMatch {
+  statements: ParsedStatement[];
+}
+
+export interface ParserPluginConfig {
+  /** Module specifiers: npm package names or paths relative to the config file */
+  plugins: string[];
+}
+
+/**
+ * Serializable description of a registry, used to rebuild it in worker threads.
+ */
+export interface ParserRegistrySnapshot {
+  /** Registered parser ids, in registration order */
+  parserIds: string[];
+  /** Resolved URLs of the plugin modules the non-built-in parsers came from */
+  pluginModules: string[];
+}
+
+/**
+ * Minimum detection confidence for a parser to be selected.
+ */
+export const DEFAULT_MIN_CONFIDENCE = 0.25;
+
+/**
+ * Highest confidence kept for transactions read with OCR, before scaling by
+ * the page's recognition confidence.
+ */
+export const OCR_MAX_CONFIDENCE = 0.6;
+
+export class ParserRegistry {
+  private parsers: Map<string, InstitutionParser> = new Map();
+  /** Plugin module URL per parser id, for parsers loaded with loadParserPlugins */
+  private sources: Map<string, string> = new Map();
+
+  /**
+   * Register a parser. Throws if a parser with the same id is already
+   * registered, unless `replace` is set. `source` is the URL of the plugin
+   * module the parser was loaded from.
+   */
+  register(parser: InstitutionParser, options: { replace?: boolean; source?: string } = {}): void {
+    if (!isInstitutionParser(parser)) {
+      throw new Error('Invalid institution parser: expected { id, institution, detect(), parse() }');
+    }
+    if (this.parsers.has(parser.id) && options.replace !== true) {
+      throw new Error(`Institution parser already registered: "${parser.id}"`);
+    }
+    this.parsers.set(parser.id, parser);
+    if (options.source !== undefined) {
+      this.sources.set(parser.id, options.source);
+    } else {
+      this.sources.delete(parser.id);
+    }
+  }
+
+  unregister(id: string): boolean {
+    this.sources.delete(id);
+    return this.parsers.delete(id);
+  }
+
+  get(id: string): InstitutionParser | null {
+    return this.parsers.get(id) ?? null;
+  }
+
+  list(): InstitutionParser[] {
+    return [...this.parsers.values()];
+  }
+
+  /**
+   * Registered parsers as `id@version` (or just `id` when a parser has no
+   * version), in registration order. The parse cache stores these so that
+   * adding, removing or upgrading a parser invalidates its entries.
+   */
+  cacheIds(): string[] {
+    return this.list().map((parser) => (parser.version !== undefined ? `${parser.id}@${parser.version}` : parser.id));
+  }
+
+  /**
+   * Describe the registry so worker threads can rebuild it with
+   * restoreParserRegistry. Throws if a parser was registered directly rather
+   * than built in or loaded from a plugin module, since it cannot be re-created
+   * in another thread.
+   */
+  snapshot(): ParserRegistrySnapshot {
+    const pluginModules: string[] = [];
+    for (const parser of this.parsers.values()) {
+      const source = this.sources.get(parser.id);
+      if (source !== undefined) {
+        if (!pluginModules.includes(source)) pluginModules.push(source);
+      } else if (!BUILT_IN_PARSERS.includes(parser)) {
+        throw new Error(
+          `Institution parser "${parser.id}" was registered directly and cannot be used from worker threads; load it as a plugin module instead`
+        );
+      }
+    }
+    return { parserIds: [...this.parsers.keys()], pluginModules };
+  }
+
+  /**
+   * Score every registered parser against the PDF.
+   * Returns matches with confidence > 0, best first. Ties keep registration order.
+   */
+  detectAll(pdf: ExtractedPDF): ParserMatch[] {
+    const matches: ParserMatch[] = [];
+
+    for (const parser of this.parsers.values()) {
+      const confidence = clampConfidence(parser.detect(pdf));
+      if (confidence > 0) {
+        matches.push({ parser, confidence });
+      }
+    }
+
+    return matches.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Pick the best parser for a PDF, or null if none reaches `minConfidence`.
+   */
+  select(pdf: ExtractedPDF, minConfidence: number = DEFAULT_MIN_CONFIDENCE): ParserMatch | null {
+    const best = this.detectAll(pdf)[0];
+    if (best === undefined || best.confidence < minConfidence) {
+      return null;
+    }
+    return best;
+  }
+
+  /**
+   * Select the best parser and parse the PDF with it.
+   */
+  parse(
+    pdf: ExtractedPDF,
+    options: ParserOptions = { strict: false, verbose: false },
+    minConfidence: number = DEFAULT_MIN_CONFIDENCE
+  ): ParserRegistryParseResult {
+    const match = this.select(pdf, minConfidence);
+    if (match === null) {
+      const known = this.list().map((p) => p.id).join(', ');
+      throw new Error(`No registered institution parser recognized this PDF (registered: ${known !== '' ? known : 'none'})`);
+    }
+
+    return {
+      ...match,
+      statements: match.parser.parse(pdf, options).map((statement) => applyOcrConfidence(statement, pdf)),
+    };
+  }
+}
+
+/**
+ * Lower the confidence of transactions that came from scanned pages read
+ * with OCR, and add a warning so they get reviewed.
+ *
+ * Confidence is capped at OCR_MAX_CONFIDENCE times the page's recognition
+ * confidence; applying it twice has no further effect on the transactions.
+ */
+export function applyOcrConfidence(statement: ParsedStatement, pdf: ExtractedPDF): ParsedStatement {
+  const ocrConfidenceByPage = new Map<number, number>();
+  for (const page of pdf.pages) {
+    if (page.ocrConfidence !== undefined) {
+      ocrConfidenceByPage.set(page.pageNumber, page.ocrConfidence);
+    }
+  }
+  if (ocrConfidenceByPage.size === 0) return statement;
+
+  const ocrPages = new Set<number>();
+  const transactions = statement.transactions.map((transaction) => {
+    const pageConfidence = ocrConfidenceByPage.get(transaction.raw.page);
+    if (pageConfidence === undefined) return transaction;
+    ocrPages.add(transaction.raw.page);
+    return {
+      ...transaction,
+      confidence: Math.min(transaction.confidence, roundToTwoDecimals(OCR_MAX_CONFIDENCE * pageConfidence)),
+    };
+  });
+  if (ocrPages.size === 0) return statement;
+
+  const pageList = [...ocrPages].sort((a, b) => a - b).join(', ');
+  const warning = `Transactions on scanned page(s) ${pageList} were read with OCR; verify dates and amounts`;
+  const warnings = statement.metadata.warnings.includes(warning)
+    ? statement.metadata.warnings
+    : [...statement.metadata.warnings, warning];
+
+  return {
+    ...statement,
+    transactions,
+    metadata: { ...statement.metadata, warnings },
+  };
+}
+
+const BUILT_IN_PARSERS: InstitutionParser[] = [boaParser, chimeParser, capitalOneParser];
+
+function clampConfidence(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) return 0;
+  return Math.min(value, 1);
+}
+
+/**
+ * Type guard for objects implementing InstitutionParser.
+ */
+export function isInstitutionParser(value: unknown): value is InstitutionParser {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate['id'] === 'string' &&
+    candidate['id'] !== '' &&
+    typeof candidate['institution'] === 'string' &&
+    typeof candidate['detect'] === 'function' &&
+    typeof candidate['parse'] === 'function'
+  );
+}
+
+/**
+ * Create a registry pre-populated with the built-in institution parsers.
+ */
+export function createParserRegistry(): ParserRegistry {
+  const registry = new ParserRegistry();
+  for (const parser of BUILT_IN_PARSERS) {
+    registry.register(parser);
+  }
+  return registry;
+}
+
+let defaultRegistry: ParserRegistry | null = null;
+
+export function getDefaultParserRegistry(): ParserRegistry {
+  if (defaultRegistry === null) {
+    defaultRegistry = createParserRegistry();
+  }
+  return defaultRegistry;
+}
+
+export function resetDefaultParserRegistry(): void {
+  defaultRegistry = null;
+}
+
+// ─── Plugin loading ──────────────────────────────────────────────────────────
+
+/**
+ * Extract parsers from a loaded plugin module.
+ * Accepts a default export or a named `parser`/`parsers` export, each being
+ * a single InstitutionParser or an array of them. A CommonJS module imported
+ * from ESM has its `module.exports` as the default export, so a plain default
+ * object is searched for `parsers`/`parser` as well.
+ */
+function parsersFromModule(mod: Record<string, unknown>, specifier: string): InstitutionParser[] {
+  const defaultExport = mod['default'];
+  const isExportsObject = typeof defaultExport === 'object' && defaultExport !== null &&
+    !Array.isArray(defaultExport) && !isInstitutionParser(defaultExport);
+  const exported = isExportsObject
+    ? (defaultExport as Record<string, unknown>)['parsers'] ?? (defaultExport as Record<string, unknown>)['parser']
+    : defaultExport ?? mod['parsers'] ?? mod['parser'];
+  const candidates = Array.isArray(exported) ? (exported as unknown[]) : [exported];
+  const parsers = candidates.filter(isInstitutionParser);
+
+  if (parsers.length === 0 || parsers.length !== candidates.length) {
+    throw new Error(
+      `Parser plugin "${specifier}" must export an InstitutionParser (or an array of them) as default, "parser" or "parsers"`
+    );
+  }
+
+  return parsers;
+}
+
+/**
+ * Resolve a plugin specifier to an importable URL.
+ * Paths are resolved against `baseDir`; package names are resolved from `baseDir`
+ * so plugins installed in the user's project are found by a global CLI install.
+ */
+function resolvePluginSpecifier(specifier: string, baseDir: string): string {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    return pathToFileURL(resolve(baseDir, specifier)).href;
+  }
+  const require = createRequire(join(baseDir, 'noop.js'));
+  return pathToFileURL(require.resolve(specifier)).href;
+}
+
+/**
+ * Import a plugin module and register its parsers.
+ */
+async function loadPluginModule(
+  registry: ParserRegistry,
+  url: string,
+  specifier: string
+): Promise<InstitutionParser[]> {
+  let mod: Record<string, unknown>;
+  try {
+    mod = (await import(url)) as Record<string, unknown>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load parser plugin "${specifier}": ${message}`);
+  }
+
+  const parsers = parsersFromModule(mod, specifier);
+  for (const parser of parsers) {
+    registry.register(parser, { replace: true, source: url });
+  }
+  return parsers;
+}
+
+/**
+ * Load parser plugins by module specifier and register them.
+ * Returns the registered parsers in load order.
+ */
+export async function loadParserPlugins(
+  registry: ParserRegistry,
+  specifiers: string[],
+  baseDir: string = process.cwd()
+): Promise<InstitutionParser[]> {
+  const loaded: InstitutionParser[] = [];
+
+  for (const specifier of specifiers) {
+    let url: string;
+    try {
+      url = resolvePluginSpecifier(specifier, baseDir);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load parser plugin "${specifier}": ${message}`);
+    }
+    loaded.push(...(await loadPluginModule(registry, url, specifier)));
+  }
+
+  return loaded;
+}
+
+/**
+ * Rebuild a registry from ParserRegistry.snapshot(), e.g. inside a worker thread.
+ */
+export async function restoreParserRegistry(snapshot: ParserRegistrySnapshot): Promise<ParserRegistry> {
+  const registry = createParserRegistry();
+  for (const url of snapshot.pluginModules) {
+    await loadPluginModule(registry, url, url);
+  }
+  for (const parser of registry.list()) {
+    if (!snapshot.parserIds.includes(parser.id)) {
+      registry.unregister(parser.id);
+    }
+  }
+  return registry;
+}
+
+/**
+ * Load a JSON parser config file (`{ "plugins": ["pkg-name", "./local-parser.js"] }`)
+ * and register its plugins. Relative paths resolve against the config file's directory.
+ */
+export async function loadParserConfig(
+  registry: ParserRegistry,
+  configPath: string
+): Promise<InstitutionParser[]> {
+  const absolutePath = resolve(configPath);
+  const content = await readFile(absolutePath, 'utf-8');
+
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid parser config ${absolutePath}: ${message}`);
+  }
+
+  const plugins = (config as Partial<ParserPluginConfig> | null)?.plugins;
+  if (!Array.isArray(plugins) || !plugins.every((p) => typeof p === 'string')) {
+    throw new Error(`Invalid parser config ${absolutePath}: "plugins" must be an array of module specifiers`);
+  }
+
+  return loadParserPlugins(registry, plugins, dirname(absolutePath));
+}
@@ -205,7 +205,10 @@ export {
 export {
   runUnifiedSync,
   scanAndParsePdfs,
+  parseSyncFile,
   type UnifiedSyncOptions,
+  type SyncFileOutcome,
+  type SyncItemStore,
   type UnifiedSyncResult,
   type AccountKey,
   type DateRange,
@@ -7,6 +7,7 @@ import { createHash } from 'crypto';
 import type { PlaidTransaction, PlaidAccount } from './types.js';
 import type { Transaction, ISODate, Direction, Category, Subcategory, ChannelType } from '../types/output.js';
 import { categorizeTransaction } from '../categorization/index.js';
+import { isValidCurrencyCode } from '../utils/money.js';
 
 /**
  * Map Plaid payment channel to our ChannelType.
@@ -69,6 +70,21 @@ export function generatePlaidStatementId(
   return `${accountType.toUpperCase()}-${accountMask}-${startDate}-${endDate}`;
 }
 
+/**
+ * Resolve a Plaid `iso_currency_code` / `unofficial_currency_code` pair to an
+ * ISO 4217 code. Unofficial codes (e.g. crypto tickers) are only used when
+ * they happen to be three-letter codes; otherwise `null` is returned.
+ */
+export function resolvePlaidCurrency(isoCurrencyCode?: string, unofficialCurrencyCode?: string): string | null {
+  for (const code of [isoCurrencyCode, unofficialCurrencyCode]) {
+    const normalized = code?.trim().toUpperCase();
+    if (normalized !== undefined && isValidCurrencyCode(normalized)) {
+      return normalized;
+    }
+  }
+  return null;
+}
+
 /**
  * Convert a Plaid transaction to our canonical Transaction format.
  */
@@ -106,12 +122,14 @@ export function normalizeTransaction(
   }
 
   const transactionId = generateTransactionId(plaidTx);
+  const currency = resolvePlaidCurrency(plaidTx.isoCurrencyCode, plaidTx.unofficialCurrencyCode);
 
   const tx: Transaction = {
     transactionId,
     date: plaidTx.date as ISODate,
     postedDate: (plaidTx.authorizedDate ?? plaidTx.date) as ISODate,
     amount,
+    ...(currency !== null ? { currency } : {}),
     direction,
     description,
     descriptionRaw: plaidTx.name,
@@ -0,0 +1,18 @@
+/**
+ * Worker thread entry for scanAndParsePdfs with concurrency > 1.
+ * Rebuilds the parser registry once, then parses files one at a time.
+ */
+
+import { workerData } from 'worker_threads';
+import { getDefaultParserRegistry, restoreParserRegistry } from '../parsers/registry.js';
+import { serveWorkerTasks } from '../batch/worker-pool.js';
+import { ParseCache } from '../batch/parse-cache.js';
+import type { PdfFileInfo } from '../utils/directory-scanner.js';
+import { parseSyncFile, type SyncFileOutcome, type SyncWorkerData } from './unified-sync.js';
+
+const data = workerData as SyncWorkerData;
+const registry = data.registry !== null ? await restoreParserRegistry(data.registry) : getDefaultParserRegistry();
+
+const cache = data.cacheDir !== null ? new ParseCache(data.cacheDir) : undefined;
+
+serveWorkerTasks<PdfFileInfo, SyncFileOutcome>((file) => parseSyncFile(file, registry, data.verbose, cache));
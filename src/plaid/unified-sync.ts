@@ -1,10 +1,10 @@
 /**
- * Unified sync pipeline: multi-PDF + Supabase + Plaid → combined v2 result.
+ * Unified sync pipeline: multi-PDF + database (Supabase or SQLite) + Plaid → combined v2 result.
  *
  * Architecture: DATABASE IS THE SOURCE OF TRUTH.
  *
  * Pipeline stages:
- *   1. Scan folder for PDFs, parse each → upload to DB (upsert, dedup by transactionId)
+ *   1. Scan folder for PDFs (and OFX/QFX/CSV downloads), parse each → upload to DB (upsert, dedup by transactionId)
  *   2. Query DB for date ranges per account (now includes freshly uploaded PDF data)
  *   3. Compute coverage gaps (DB ranges vs requested date range)
  *   4. Fill gaps from Plaid → upload to DB (upsert, dedup by transactionId)
@@ -20,21 +20,35 @@
 /* eslint-disable @typescript-eslint/explicit-function-return-type */
 /* eslint-disable prefer-const */
 
-import { readdirSync, existsSync } from 'fs';
-import { join, resolve, basename } from 'path';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { ParsedStatement, Transaction } from '../schemas/index.js';
+import type { AccountType } from '../types/output.js';
 import type { PlaidTransaction, PlaidAccount, PlaidItem } from './types.js';
 import type { ReconciliationResult } from './reconcile.js';
 import type { FinalResultV2 } from '../output/adapters.js';
-import { type FilePlaidItemStore, PlaidGapCache } from './file-store.js';
+import { PlaidGapCache } from './file-store.js';
+import type { PlaidItemStore } from './store.js';
+import type { StorageAdapter } from '../storage/adapter.js';
 import { toFinalResultV2, type CanonicalOutput } from '../output/adapters.js';
 import { transactionDetailsToParsedStatement } from './v2-builder.js';
 import { reconcileTransactions } from './reconcile.js';
-import { extractPDF } from '../extractors/index.js';
-import { isTransactionDetailsPDF, parseTransactionDetails, parseBoaMultipleStatements } from '../parsers/boa/index.js';
+import { extractPDFFromBuffer } from '../extractors/index.js';
+import { isTransactionDetailsPDF, parseTransactionDetails } from '../parsers/boa/index.js';
+import { extractInstitutionChannel } from '../parsers/channels.js';
+import { applyCategoryRules, createUserRuleMatcher } from '../categorization/rules-loader.js';
+import type { CategoryRule } from '../categorization/categorizer-v2.js';
+import { applyOcrConfidence, getDefaultParserRegistry, type ParserRegistry, type ParserRegistrySnapshot } from '../parsers/registry.js';
+import { runWorkerPool, workerModuleUrl } from '../batch/worker-pool.js';
+import { ParseCache } from '../batch/parse-cache.js';
+import { importStatementBuffer, isImportFile } from '../importers/index.js';
+import { readStatementFile, scanDirectoryForStatementFiles, type PdfFileInfo, type ScanOptions } from '../utils/directory-scanner.js';
+import { computeFileSha256 } from '../utils/id-generator.js';
 import { getAccounts as getPlaidAccounts, getTransactionsByDateRange, getEarliestTransactionDates } from './transactions.js';
 import { normalizeTransaction, mapAccountType, generatePlaidStatementId } from './normalizer.js';
 import { computeTransactionId } from '../utils/id-generator.js';
+import { calculateEndingBalance, sumAmounts } from '../utils/money.js';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -61,27 +75,55 @@ export interface AccountCoverage {
 
 export interface ParsedPdfFile {
   filePath: string;
-  fileName: string;
+  fileName: string; // path relative to inputDir
   accountKey: AccountKey;
   statement: ParsedStatement;
   transactionCount: number;
+  cached: boolean; // file served from the parse cache
 }
 
+/**
+ * Plaid item store that can list every linked Item (file or SQLite store)
+ */
+export type SyncItemStore = PlaidItemStore & { getAllItems(): Promise<PlaidItem[]> };
+
 export interface UnifiedSyncOptions {
   inputDir?: string | undefined;
-  store: FilePlaidItemStore;
-  supabaseClient?: unknown; // SupabaseClient — optional
+  store: SyncItemStore;
+  storage?: StorageAdapter | undefined; // ledger database — Supabase or SQLite
+  supabaseClient?: SupabaseClient | undefined; // used when storage is not given
   userId?: string | undefined;
   startDate?: string | undefined; // YYYY-MM-DD — start of requested range
   endDate?: string | undefined;   // YYYY-MM-DD — end of requested range (defaults to today)
   verbose?: boolean | undefined;
   log?: ((msg: string) => void) | undefined;
+  registry?: ParserRegistry | undefined; // institution parsers — defaults to built-ins
+  concurrency?: number | undefined; // statement files parsed in parallel on worker threads (default 1)
+  cache?: ParseCache | undefined; // reuse results for files unchanged since an earlier run
+  scan?: ScanOptions | undefined; // subfolders, ZIP archives and include/exclude globs
+  rules?: CategoryRule[] | undefined; // user categorization rules applied to parsed statements and Plaid gap fills
+}
+
+/** Statements parsed from one input file, plus the log lines it produced */
+export interface SyncFileOutcome {
+  statements: ParsedStatement[];
+  messages: string[];
+  /** Served from the parse cache (not extracted again) */
+  cached: boolean;
+}
+
+/** workerData for sync-worker.ts */
+export interface SyncWorkerData {
+  registry: ParserRegistrySnapshot | null;
+  verbose: boolean;
+  cacheDir: string | null;
 }
 
 export interface UnifiedSyncResult {
   v2Output: Record<string, unknown>;
   stats: {
     pdfFiles: number;
+    cacheHits: number;
     accounts: number;
     pdfTransactions: number;
     plaidTransactions: number;
@@ -100,10 +142,6 @@ function accountKeyStr(k: AccountKey): string {
   return `${k.institution}|${k.accountType}|${k.accountNumberMasked}`;
 }
 
-function round2(n: number): number {
-  return Math.round(n * 100) / 100;
-}
-
 function log(opts: UnifiedSyncOptions, msg: string): void {
   const fn = opts.log ?? ((m: string): void => { console.error(m); });
   fn(msg);
@@ -117,90 +155,201 @@ export async function scanAndParsePdfs(inputDir: string, opts: UnifiedSyncOption
     throw new Error(`Directory not found: ${dirPath}`);
   }
 
-  const files = readdirSync(dirPath)
-    .filter((f) => f.toLowerCase().endsWith('.pdf'))
-    .map((f) => join(dirPath, f));
+  const { files } = await scanDirectoryForStatementFiles(dirPath, opts.scan);
 
   if (files.length === 0) {
-    throw new Error(`No PDF files found in: ${dirPath}`);
+    throw new Error(`No PDF, OFX, QFX or CSV files found in: ${dirPath}`);
   }
 
-  log(opts, `[1/5] Scanning ${files.length} PDF file(s) in ${dirPath}`);
+  log(opts, `[1/5] Scanning ${files.length} statement file(s) in ${dirPath}`);
 
   const results: ParsedPdfFile[] = [];
+  const registry = opts.registry ?? getDefaultParserRegistry();
 
-  for (const filePath of files) {
-    const fileName = basename(filePath);
-    log(opts, `  Parsing: ${fileName}`);
+  const addFile = (file: PdfFileInfo, outcome: SyncFileOutcome): void => {
+    for (const message of outcome.messages) {
+      log(opts, `    ${message}`);
+    }
 
-    try {
-      const pdf = await extractPDF(filePath);
+    if (opts.rules !== undefined && opts.rules.length > 0) {
+      applyCategoryRules(outcome.statements, opts.rules, {
+        channelOf: (description, statement) => extractInstitutionChannel(description, statement.account.institutionId).type,
+      });
+    }
 
-      if (isTransactionDetailsPDF(pdf)) {
-        // "Print Transaction Details" format
-        const parseResult = parseTransactionDetails(pdf);
+    for (const stmt of outcome.statements) {
+      const accountKey: AccountKey = {
+        institution: stmt.account.institution,
+        accountType: stmt.account.accountType,
+        accountNumberMasked: stmt.account.accountNumberMasked,
+      };
 
-        if (parseResult.warnings.length > 0 && opts.verbose) {
-          for (const w of parseResult.warnings) {
-            log(opts, `    [WARN] ${w}`);
-          }
-        }
+      log(opts, `    → ${accountKey.accountType} ${accountKey.accountNumberMasked}: ${stmt.transactions.length} transactions`);
 
-        const statement = transactionDetailsToParsedStatement(
-          parseResult.accountInfo,
-          parseResult.balanceInfo,
-          parseResult.transactions,
-          parseResult.warnings
-        );
+      results.push({
+        filePath: file.filePath,
+        fileName: file.fileName,
+        accountKey,
+        statement: stmt,
+        transactionCount: stmt.transactions.length,
+        cached: outcome.cached,
+      });
+    }
+  };
 
-        const accountKey: AccountKey = {
-          institution: 'Bank of America',
-          accountType: parseResult.accountInfo.accountType,
-          accountNumberMasked: parseResult.accountInfo.accountNumberMasked,
-        };
+  const logCacheHits = (outcomes: SyncFileOutcome[]): void => {
+    const hits = outcomes.filter((o) => o.cached).length;
+    if (hits > 0) {
+      log(opts, `  ${hits} unchanged file(s) served from the parse cache`);
+    }
+  };
 
-        log(opts, `    → ${accountKey.accountType} ${accountKey.accountNumberMasked}: ${statement.transactions.length} transactions`);
+  const concurrency = Math.min(opts.concurrency ?? 1, files.length);
+  if (concurrency <= 1) {
+    const sequential: SyncFileOutcome[] = [];
+    for (const file of files) {
+      log(opts, `  Parsing: ${file.fileName}`);
+      const outcome = await parseSyncFile(file, registry, opts.verbose ?? false, opts.cache);
+      addFile(file, outcome);
+      sequential.push(outcome);
+    }
+    logCacheHits(sequential);
+    return results;
+  }
 
-        results.push({
-          filePath,
-          fileName,
-          accountKey,
-          statement,
-          transactionCount: statement.transactions.length,
-        });
-      } else {
-        // Monthly statement format
-        const parseResult = parseBoaMultipleStatements(pdf);
+  // Parse on worker threads, then log and collect in input order so the
+  // output matches a sequential run
+  const outcomes = new Array<SyncFileOutcome | undefined>(files.length);
+  const workerData: SyncWorkerData = {
+    registry: opts.registry !== undefined ? opts.registry.snapshot() : null,
+    verbose: opts.verbose ?? false,
+    cacheDir: opts.cache !== undefined ? opts.cache.getDir() : null,
+  };
 
-        if (parseResult.statements.length === 0) {
-          log(opts, `    [WARN] No statements found, skipping`);
-          continue;
-        }
+  await runWorkerPool<PdfFileInfo, SyncFileOutcome>({
+    workerUrl: workerModuleUrl('sync-worker', import.meta.url),
+    workerData,
+    tasks: files,
+    concurrency,
+    onResult: (index, outcome) => {
+      outcomes[index] = outcome;
+    },
+    onWorkerError: (index, file, error) => {
+      outcomes[index] = {
+        statements: [],
+        messages: [`[ERROR] Failed to parse ${file.fileName}: ${error.message}`],
+        cached: false,
+      };
+    },
+  });
 
-        for (const stmt of parseResult.statements) {
-          const accountKey: AccountKey = {
-            institution: stmt.account.institution,
-            accountType: stmt.account.accountType,
-            accountNumberMasked: stmt.account.accountNumberMasked,
-          };
+  files.forEach((file, i) => {
+    const outcome = outcomes[i];
+    log(opts, `  Parsing: ${file.fileName}`);
+    if (outcome !== undefined) {
+      addFile(file, outcome);
+    }
+  });
+  logCacheHits(outcomes.filter((o): o is SyncFileOutcome => o !== undefined));
 
-          log(opts, `    → ${accountKey.accountType} ${accountKey.accountNumberMasked}: ${stmt.transactions.length} transactions`);
+  return results;
+}
 
-          results.push({
-            filePath,
-            fileName,
-            accountKey,
-            statement: stmt,
-            transactionCount: stmt.transactions.length,
-          });
+/**
+ * Parse one statement file for the unified sync. Never throws: failures and
+ * skips are reported through `messages` (logged under the file name).
+ * With a parse cache, unchanged files are not extracted again.
+ */
+export async function parseSyncFile(
+  file: PdfFileInfo,
+  registry: ParserRegistry,
+  verbose: boolean,
+  cache?: ParseCache
+): Promise<SyncFileOutcome> {
+  const fileName = file.fileName;
+  const messages: string[] = [];
+
+  try {
+    const data = await readStatementFile(file);
+    const fileHash = cache !== undefined ? computeFileSha256(data) : undefined;
+    const entry = cache !== undefined && fileHash !== undefined ? cache.get(fileHash) : null;
+    if (entry !== null && verbose) {
+      messages.push('Unchanged since an earlier run (parse cache)');
+    }
+
+    if (isImportFile(fileName)) {
+      // OFX/QFX/CSV download
+      if (entry !== null) {
+        return { statements: entry.statements, messages, cached: true };
+      }
+      const imported = importStatementBuffer(data, fileName);
+      if (verbose) {
+        messages.push(`Importer: ${imported.format}`);
+      }
+      if (cache !== undefined && fileHash !== undefined && imported.statements.length > 0) {
+        cache.set({ fileHash, parserId: imported.format, strict: false, statements: imported.statements });
+      }
+      return { statements: imported.statements, messages, cached: false };
+    }
+
+    const pdf = entry?.layout ?? await extractPDFFromBuffer(data);
+    const cached = entry !== null;
+    const match = registry.select(pdf);
+
+    if (match === null) {
+      messages.push('[WARN] No registered institution parser recognized this PDF, skipping');
+      return { statements: [], messages, cached };
+    }
+
+    if (verbose) {
+      messages.push(`Parser: ${match.parser.id} (confidence ${match.confidence.toFixed(2)})`);
+    }
+
+    if (match.parser.id === 'boa' && isTransactionDetailsPDF(pdf)) {
+      // "Print Transaction Details" format. The sync converts these itself, so
+      // only the layout is reused from the cache
+      const parseResult = parseTransactionDetails(pdf);
+
+      if (verbose) {
+        for (const w of parseResult.warnings) {
+          messages.push(`[WARN] ${w}`);
         }
       }
-    } catch (err) {
-      log(opts, `    [ERROR] Failed to parse ${fileName}: ${err instanceof Error ? err.message : String(err)}`);
+
+      const statement = applyOcrConfidence(transactionDetailsToParsedStatement(
+        parseResult.accountInfo,
+        parseResult.balanceInfo,
+        parseResult.transactions,
+        parseResult.warnings
+      ), pdf);
+      if (cache !== undefined && fileHash !== undefined && entry === null && pdf.encrypted !== true) {
+        cache.set({ fileHash, parserId: match.parser.id, layout: pdf, strict: false, statements: [statement] });
+      }
+      return { statements: [statement], messages, cached };
     }
-  }
 
-  return results;
+    // Monthly statement format. Scanned pages cap transaction confidence, as
+    // registry.parse() does
+    const registeredParsers = registry.cacheIds();
+    if (
+      entry !== null &&
+      entry.parserId === match.parser.id &&
+      !entry.strict &&
+      entry.registeredParsers?.join(',') === registeredParsers.join(',')
+    ) {
+      return { statements: entry.statements.map((statement) => applyOcrConfidence(statement, pdf)), messages, cached };
+    }
+    const statements = match.parser.parse(pdf).map((statement) => applyOcrConfidence(statement, pdf));
+    if (statements.length === 0) {
+      messages.push('[WARN] No statements found, skipping');
+    } else if (cache !== undefined && fileHash !== undefined && pdf.encrypted !== true) {
+      cache.set({ fileHash, parserId: match.parser.id, registeredParsers, layout: pdf, strict: false, statements });
+    }
+    return { statements, messages, cached };
+  } catch (err) {
+    messages.push(`[ERROR] Failed to parse ${fileName}: ${err instanceof Error ? err.message : String(err)}`);
+    return { statements: [], messages, cached: false };
+  }
 }
 
 // ─── Stage 2: Query Supabase Date Ranges ─────────────────────────────────────
@@ -213,15 +362,15 @@ interface SupabaseDateRange {
 }
 
 async function getSupabaseDateRanges(opts: UnifiedSyncOptions): Promise<SupabaseDateRange[]> {
-  if (opts.supabaseClient === undefined || opts.userId === undefined) {
+  const storage = opts.storage;
+  if (storage === undefined) {
     return [];
   }
 
-  log(opts, `[2/5] Querying Supabase for existing data ranges...`);
+  log(opts, `[2/5] Querying ${storage.backend} for existing data ranges...`);
 
   try {
-    const { getAccountDateRanges } = await import('../supabase/queries.js');
-    const ranges = await getAccountDateRanges(opts.supabaseClient as any, opts.userId);
+    const ranges = await storage.getAccountDateRanges();
 
     for (const r of ranges) {
       log(opts, `  ${r.accountType} ${r.accountNumberMasked}: ${r.minDate} → ${r.maxDate} (${r.transactionCount} txns)`);
@@ -238,7 +387,7 @@ async function getSupabaseDateRanges(opts: UnifiedSyncOptions): Promise<Supabase
       transactionCount: r.transactionCount,
     }));
   } catch (err) {
-    log(opts, `  [WARN] Supabase query failed: ${err instanceof Error ? err.message : String(err)}`);
+    log(opts, `  [WARN] ${storage.backend} query failed: ${err instanceof Error ? err.message : String(err)}`);
     return [];
   }
 }
@@ -392,7 +541,7 @@ interface PlaidAccountMatch {
 }
 
 async function matchPlaidAccounts(
-  store: FilePlaidItemStore,
+  store: SyncItemStore,
   accountKeys: AccountKey[]
 ): Promise<PlaidAccountMatch[]> {
   const allItems = await store.getAllItems();
@@ -433,7 +582,7 @@ interface PlaidFillResult {
 
 async function fillGapsFromPlaid(
   coverage: AccountCoverage[],
-  store: FilePlaidItemStore,
+  store: SyncItemStore,
   requestedRange: DateRange,
   opts: UnifiedSyncOptions,
   gapCache?: PlaidGapCache
@@ -557,7 +706,7 @@ async function fillGapsFromPlaid(
 
       // Fetch only the effective gap ranges from Plaid
       let allGapTxns: PlaidTransaction[] = [];
-      const hasDb = opts.supabaseClient !== undefined && opts.userId !== undefined;
+      const hasDb = opts.storage !== undefined;
 
       for (const gap of effectiveGaps) {
         log(opts, `  Fetching: ${match.item.institutionName} ${match.accountKey.accountType} ${match.accountKey.accountNumberMasked} gap ${gap.start} → ${gap.end}`);
@@ -649,12 +798,11 @@ async function uploadPdfDataToDb(
   parsedFiles: ParsedPdfFile[],
   opts: UnifiedSyncOptions
 ): Promise<{ inserted: number; skipped: number }> {
-  if (opts.supabaseClient === undefined || opts.userId === undefined) {
+  const storage = opts.storage;
+  if (storage === undefined) {
     return { inserted: 0, skipped: 0 };
   }
 
-  const { importV2Result } = await import('../supabase/import.js');
-
   // Build a minimal v2 from parsed PDFs for the import function
   const allStatements: ParsedStatement[] = parsedFiles.map((pf) => pf.statement);
   const totalPdfTx = allStatements.reduce((sum, s) => sum + s.transactions.length, 0);
@@ -665,7 +813,7 @@ async function uploadPdfDataToDb(
   };
   const v2ForUpload: FinalResultV2 = toFinalResultV2(canonical);
 
-  const result = await importV2Result(opts.supabaseClient as any, opts.userId, {
+  const result = await storage.importV2Result({
     result: v2ForUpload,
   });
 
@@ -677,19 +825,50 @@ async function uploadPdfDataToDb(
 
 // ─── Stage 4b: Upload Plaid gap-fill transactions to DB ─────────────────────
 
+/**
+ * Re-categorize a Plaid gap-fill transaction with the user rules (--rules and
+ * learned rules), which take precedence over the built-in rules and Plaid's
+ * own category.
+ */
+function applyUserRulesToPlaidTransaction(
+  tx: ReturnType<typeof normalizeTransaction>,
+  accountType: AccountType,
+  accountNumberMasked: string,
+  matchUserRule: ReturnType<typeof createUserRuleMatcher> | null
+): void {
+  if (matchUserRule === null) return;
+
+  const result = matchUserRule(tx.description, tx.channel.type, {
+    amount: tx.direction === 'debit' ? -tx.amount : tx.amount,
+    direction: tx.direction,
+    accountType,
+    accountNumberMasked,
+    institution: 'Bank of America',
+  });
+  if (result !== null) {
+    tx.categorization = {
+      category: result.category,
+      subcategory: result.subcategory,
+      confidence: result.confidence,
+      ruleId: result.ruleId,
+      rationale: result.rationale,
+    };
+  }
+}
+
 async function uploadPlaidGapDataToDb(
   plaidTxns: PlaidTransaction[],
   plaidAccounts: PlaidAccount[],
   opts: UnifiedSyncOptions
 ): Promise<{ inserted: number; skipped: number }> {
-  if (opts.supabaseClient === undefined || opts.userId === undefined) {
+  const storage = opts.storage;
+  if (storage === undefined) {
     return { inserted: 0, skipped: 0 };
   }
 
-  const { upsertAccount, upsertTransactions } = await import('../supabase/import.js');
-
   let totalInserted = 0;
   let totalSkipped = 0;
+  const matchUserRule = opts.rules !== undefined && opts.rules.length > 0 ? createUserRuleMatcher(opts.rules) : null;
 
   // Group Plaid transactions by account
   const txnsByAccount = new Map<string, PlaidTransaction[]>();
@@ -707,7 +886,7 @@ async function uploadPlaidGapDataToDb(
     const acctMask = pa.mask ?? '';
 
     // Upsert account
-    const acctResult = await upsertAccount(opts.supabaseClient as any, opts.userId, {
+    const acctResult = await storage.upsertAccount({
       institution: 'Bank of America',
       accountType: acctType,
       accountNumberMasked: `****${acctMask}`,
@@ -717,6 +896,7 @@ async function uploadPlaidGapDataToDb(
     // Convert Plaid transactions to TransactionInput format
     const transactionInputs = txns.map((pt) => {
       const canonicalTx = normalizeTransaction(pt, pa, generatePlaidStatementId(acctType, acctMask, pt.date));
+      applyUserRulesToPlaidTransaction(canonicalTx, acctType, `****${acctMask}`, matchUserRule);
       const stmtId = generatePlaidStatementId(acctType, acctMask, pt.date);
       const txId = computeTransactionId(
         {
@@ -746,7 +926,7 @@ async function uploadPlaidGapDataToDb(
       };
     });
 
-    const result = await upsertTransactions(opts.supabaseClient as any, opts.userId, {
+    const result = await storage.upsertTransactions({
       accountId: acctResult.accountId,
       transactions: transactionInputs,
     });
@@ -783,13 +963,12 @@ async function buildV2FromDb(
   requestedRange: DateRange,
   opts: UnifiedSyncOptions
 ): Promise<{ accounts: DbAccountBlock[]; totalTransactions: number } | null> {
-  if (opts.supabaseClient === undefined || opts.userId === undefined) {
+  const storage = opts.storage;
+  if (storage === undefined) {
     return null;
   }
 
-  const { getAccounts, getTransactions } = await import('../supabase/queries.js');
-
-  const accounts = await getAccounts(opts.supabaseClient as any, opts.userId);
+  const accounts = await storage.getAccounts();
   if (accounts.length === 0) return null;
 
   const result: DbAccountBlock[] = [];
@@ -797,7 +976,7 @@ async function buildV2FromDb(
 
   for (const acct of accounts) {
     // Get all transactions for this account in the requested range
-    const txns = await getTransactions(opts.supabaseClient as any, opts.userId, {
+    const txns = await storage.getTransactions({
       accountId: acct.id,
       startDate: requestedRange.start,
       endDate: requestedRange.end,
@@ -820,22 +999,16 @@ async function buildV2FromDb(
     uniqueTxns.sort((a, b) => a.date.localeCompare(b.date));
 
     // Compute totals from deduplicated transactions
-    let totalCredits = 0;
-    let totalDebits = 0;
-    for (const tx of uniqueTxns) {
-      if (tx.direction === 'credit') {
-        totalCredits += Math.abs(tx.amount);
-      } else {
-        totalDebits += Math.abs(tx.amount);
-      }
-    }
-    totalCredits = round2(totalCredits);
-    totalDebits = round2(totalDebits);
+    const totalCredits = sumAmounts(
+      uniqueTxns.filter((tx) => tx.direction === 'credit').map((tx) => Math.abs(tx.amount))
+    );
+    const totalDebits = sumAmounts(
+      uniqueTxns.filter((tx) => tx.direction !== 'credit').map((tx) => Math.abs(tx.amount))
+    );
 
     // Derive balances: use the latest statement's ending balance as anchor,
     // then adjust for transactions after the statement period.
-    const { getStatements } = await import('../supabase/queries.js');
-    const statements = await getStatements(opts.supabaseClient as any, opts.userId, {
+    const statements = await storage.getStatements({
       accountId: acct.id,
     });
 
@@ -849,19 +1022,17 @@ async function buildV2FromDb(
     if (latestStmt?.ending_balance !== null && latestStmt?.ending_balance !== undefined) {
       // Adjust for transactions after the statement period
       const stmtEndDate = latestStmt.period_end;
-      const postStmtNet = round2(uniqueTxns
+      const postStmtNet = sumAmounts(uniqueTxns
         .filter((tx) => tx.date > stmtEndDate)
-        .reduce((sum, tx) => {
-          return sum + (tx.direction === 'credit' ? Math.abs(tx.amount) : -Math.abs(tx.amount));
-        }, 0));
-      endingBalance = round2(latestStmt.ending_balance + postStmtNet);
+        .map((tx) => (tx.direction === 'credit' ? Math.abs(tx.amount) : -Math.abs(tx.amount))));
+      endingBalance = sumAmounts([latestStmt.ending_balance, postStmtNet]);
     } else {
       // No statement balance available — derive from totals (starting from 0)
-      endingBalance = round2(totalCredits - totalDebits);
+      endingBalance = calculateEndingBalance(0, totalCredits, totalDebits);
     }
 
     // Derive startingBalance from the balance equation so it always holds
-    const startingBalance = round2(endingBalance - totalCredits + totalDebits);
+    const startingBalance = calculateEndingBalance(endingBalance, totalDebits, totalCredits);
 
     const periodStart = uniqueTxns[0]!.date;
     const periodEnd = uniqueTxns[uniqueTxns.length - 1]!.date;
@@ -921,9 +1092,21 @@ async function buildV2FromDb(
 
 // ─── Main Pipeline ───────────────────────────────────────────────────────────
 
-export async function runUnifiedSync(opts: UnifiedSyncOptions): Promise<UnifiedSyncResult> {
+/**
+ * Use opts.storage, or wrap a Supabase client + userId in a storage adapter.
+ */
+async function resolveStorage(opts: UnifiedSyncOptions): Promise<UnifiedSyncOptions> {
+  if (opts.storage !== undefined || opts.supabaseClient === undefined || opts.userId === undefined) {
+    return opts;
+  }
+  const { createSupabaseStorage } = await import('../storage/supabase-storage.js');
+  return { ...opts, storage: createSupabaseStorage(opts.supabaseClient, opts.userId) };
+}
+
+export async function runUnifiedSync(syncOptions: UnifiedSyncOptions): Promise<UnifiedSyncResult> {
+  const opts = await resolveStorage(syncOptions);
   const today = new Date().toISOString().split('T')[0]!;
-  const hasDb = opts.supabaseClient !== undefined && opts.userId !== undefined;
+  const hasDb = opts.storage !== undefined;
 
   // Initialize gap cache to avoid re-fetching empty Plaid ranges
   const gapCache = new PlaidGapCache();
@@ -973,7 +1156,7 @@ export async function runUnifiedSync(opts: UnifiedSyncOptions): Promise<UnifiedS
   // Stage 2: Query DB for date ranges (now includes freshly uploaded PDF data)
   const supabaseRanges = await getSupabaseDateRanges(opts);
   if (supabaseRanges.length === 0) {
-    log(opts, `[2/6] Supabase: no existing data (not configured or empty)`);
+    log(opts, `[2/6] Database: no existing data (not configured or empty)`);
   }
 
   // Stage 3: Gap analysis (DB ranges vs requested range)
@@ -1070,8 +1253,8 @@ export async function runUnifiedSync(opts: UnifiedSyncOptions): Promise<UnifiedS
       combinedTotalTransactions = dbResult.totalTransactions;
       totalPlaidOnlyAdded = plaidUploadStats.inserted;
 
-      const topStartingBalance = round2(dbResult.accounts.reduce((sum, a) => sum + a.summary.startingBalance, 0));
-      const topEndingBalance = round2(dbResult.accounts.reduce((sum, a) => sum + a.summary.endingBalance, 0));
+      const topStartingBalance = sumAmounts(dbResult.accounts.map((a) => a.summary.startingBalance));
+      const topEndingBalance = sumAmounts(dbResult.accounts.map((a) => a.summary.endingBalance));
 
       // Generate analytics/integrity: prefer PDF statements, fall back to synthetic from DB
       let allStatements: ParsedStatement[];
@@ -1092,16 +1275,17 @@ export async function runUnifiedSync(opts: UnifiedSyncOptions): Promise<UnifiedS
               confidence: (tr['confidence'] as number) ?? 0.5,
               postedDate: (tr['postedDate'] as string | null) ?? null,
               merchant: (tr['merchant'] as string | null) ?? null,
+              ...(typeof tr['currency'] === 'string' ? { currency: tr['currency'] } : {}),
               raw: (tr['raw'] as { originalText: string; page: number }) ?? { originalText: tr['description'] as string, page: 1 },
             };
           }) as Transaction[];
           return {
             account: {
-              institution: acct.account.institution as 'Bank of America',
+              institution: acct.account.institution,
               accountType: acct.account.accountType as 'checking' | 'savings' | 'credit',
               accountNumberMasked: acct.account.accountNumberMasked,
               statementPeriod: acct.account.statementPeriod,
-              currency: (acct.account.currency ?? 'USD') as 'USD',
+              currency: acct.account.currency ?? 'USD',
             },
             summary: {
               startingBalance: acct.summary.startingBalance,
@@ -1162,7 +1346,7 @@ export async function runUnifiedSync(opts: UnifiedSyncOptions): Promise<UnifiedS
       end: requestedRange.end,
     },
     pdf: {
-      files: parsedFiles.map((f) => f.filePath),
+      files: parsedFiles.map((f) => f.fileName),
       transactionCount: totalPdfTransactions,
       parseDate: new Date().toISOString(),
     },
@@ -1203,6 +1387,7 @@ export async function runUnifiedSync(opts: UnifiedSyncOptions): Promise<UnifiedS
     v2Output,
     stats: {
       pdfFiles: parsedFiles.length,
+      cacheHits: new Set(parsedFiles.filter((f) => f.cached).map((f) => f.filePath)).size,
       accounts: accountCount,
       pdfTransactions: totalPdfTransactions,
       plaidTransactions: totalPlaidTxns,
@@ -1226,7 +1411,7 @@ function buildV2InMemory(
   allPlaidAccounts: PlaidAccount[],
   coverage: AccountCoverage[],
   _requestedRange: DateRange,
-  _opts: UnifiedSyncOptions
+  opts: UnifiedSyncOptions
 ): {
   v2Output: Record<string, unknown>;
   combinedTotalTransactions: number;
@@ -1316,6 +1501,7 @@ function buildV2InMemory(
   }
 
   // Enrich accounts
+  const matchUserRule = opts.rules !== undefined && opts.rules.length > 0 ? createUserRuleMatcher(opts.rules) : null;
   const enrichedAccounts = v2Base.accounts.map((account) => {
     const acctType = account.account.accountType;
     const acctMask = account.account.accountNumberMasked;
@@ -1341,6 +1527,7 @@ function buildV2InMemory(
       if (pa === undefined) continue;
 
       const canonicalTx = normalizeTransaction(pt, pa, generatePlaidStatementId(acctType, pdfMask, pt.date));
+      applyUserRulesToPlaidTransaction(canonicalTx, acctType as AccountType, acctMask, matchUserRule);
       const statementId = generatePlaidStatementId(acctType, pdfMask, pt.date);
       const [year, month] = pt.date.split('-');
       const periodLabel = `${year}-${month}`;
@@ -1395,14 +1582,13 @@ function buildV2InMemory(
 
     enrichedTxns.sort((a, b) => a.date.localeCompare(b.date));
 
-    const newTotalCredits = round2(enrichedTxns.filter((t) => t.direction === 'credit').reduce((sum, t) => sum + Math.abs(t.amount), 0));
-    const newTotalDebits = round2(enrichedTxns.filter((t) => t.direction === 'debit').reduce((sum, t) => sum + Math.abs(t.amount), 0));
+    const newTotalCredits = sumAmounts(enrichedTxns.filter((t) => t.direction === 'credit').map((t) => Math.abs(t.amount)));
+    const newTotalDebits = sumAmounts(enrichedTxns.filter((t) => t.direction === 'debit').map((t) => Math.abs(t.amount)));
 
     const pdfPeriodEnd = account.account.statementPeriod.end;
-    const pdfEndingBalance = round2(account.summary.endingBalance);
-    const postPdfNet = round2(plaidOnlyTxns.filter((pt) => pt.date > pdfPeriodEnd).reduce((sum, pt) => sum - pt.amount, 0));
-    const newEndingBalance = round2(pdfEndingBalance + postPdfNet);
-    const newStartingBalance = round2(newEndingBalance - newTotalCredits + newTotalDebits);
+    const postPdfNet = sumAmounts(plaidOnlyTxns.filter((pt) => pt.date > pdfPeriodEnd).map((pt) => -pt.amount));
+    const newEndingBalance = sumAmounts([account.summary.endingBalance, postPdfNet]);
+    const newStartingBalance = calculateEndingBalance(newEndingBalance, newTotalDebits, newTotalCredits);
 
     const firstTxDate = enrichedTxns[0]?.date ?? account.account.statementPeriod.start;
     const lastTxDate = enrichedTxns[enrichedTxns.length - 1]?.date ?? account.account.statementPeriod.end;
@@ -1419,8 +1605,8 @@ function buildV2InMemory(
   });
 
   const combinedTotalTransactions = enrichedAccounts.reduce((sum, a) => sum + a.totalTransactions, 0);
-  const topStartingBalance = round2(enrichedAccounts.reduce((sum, a) => sum + a.summary.startingBalance, 0));
-  const topEndingBalance = round2(enrichedAccounts.reduce((sum, a) => sum + a.summary.endingBalance, 0));
+  const topStartingBalance = sumAmounts(enrichedAccounts.map((a) => a.summary.startingBalance));
+  const topEndingBalance = sumAmounts(enrichedAccounts.map((a) => a.summary.endingBalance));
 
   const v2Output: Record<string, unknown> = {
     schemaVersion: 'v2',
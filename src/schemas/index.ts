@@ -2,10 +2,18 @@ export {
   AccountTypeSchema,
   TransactionDirectionSchema,
   StatementPeriodSchema,
+  InstitutionIdSchema,
+  RoutingNumberSchema,
+  CurrencyCodeSchema,
   AccountSchema,
   SummarySchema,
   RawTransactionDataSchema,
   TransactionSchema,
+  DailyBalanceSchema,
+  CreditAprSchema,
+  CreditRewardsSchema,
+  LatePaymentWarningSchema,
+  CreditDetailsSchema,
   MetadataSchema,
   ParsedStatementSchema,
   ParserOptionsSchema,
@@ -15,9 +23,16 @@ export type {
   AccountType,
   TransactionDirection,
   StatementPeriod,
+  InstitutionId,
+  CurrencyCode,
   Account,
   Summary,
   RawTransactionData,
+  DailyBalance,
+  CreditApr,
+  CreditRewards,
+  LatePaymentWarning,
+  CreditDetails,
   Transaction,
   Metadata,
   ParsedStatement,
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { INSTITUTION_ID_PATTERN, ROUTING_NUMBER_PATTERN } from '../utils/institutions.js';
+import { CURRENCY_CODE_PATTERN } from '../utils/money.js';
 
 export const AccountTypeSchema = z.enum(['checking', 'savings', 'credit']);
 export type AccountType = z.infer<typeof AccountTypeSchema>;
@@ -12,12 +14,25 @@ export const StatementPeriodSchema = z.object({
 });
 export type StatementPeriod = z.infer<typeof StatementPeriodSchema>;
 
+export const InstitutionIdSchema = z
+  .string()
+  .regex(INSTITUTION_ID_PATTERN, 'Institution ID must be a lowercase slug like "boa"');
+export type InstitutionId = z.infer<typeof InstitutionIdSchema>;
+
+export const RoutingNumberSchema = z.string().regex(ROUTING_NUMBER_PATTERN, 'Routing number must be 9 digits');
+
+export const CurrencyCodeSchema = z.string().regex(CURRENCY_CODE_PATTERN, 'Currency must be an ISO 4217 code like "USD"');
+export type CurrencyCode = z.infer<typeof CurrencyCodeSchema>;
+
 export const AccountSchema = z.object({
-  institution: z.literal('Bank of America'),
+  institution: z.string().min(1).max(128),
+  institutionId: InstitutionIdSchema.optional(),
+  routingNumber: RoutingNumberSchema.optional(),
+  fid: z.string().min(1).optional(),
   accountType: AccountTypeSchema,
   accountNumberMasked: z.string().regex(/^\*{4}\d{4}$/, 'Must be in format ****1234'),
   statementPeriod: StatementPeriodSchema,
-  currency: z.literal('USD'),
+  currency: CurrencyCodeSchema,
 });
 export type Account = z.infer<typeof AccountSchema>;
 
@@ -48,10 +63,53 @@ export const TransactionSchema = z.object({
   category: z.string().min(1),
   subcategory: z.string().nullable(),
   confidence: z.number().min(0).max(1),
+  currency: CurrencyCodeSchema.optional(),
   raw: RawTransactionDataSchema,
 });
 export type Transaction = z.infer<typeof TransactionSchema>;
 
+export const DailyBalanceSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  balance: z.number(),
+});
+export type DailyBalance = z.infer<typeof DailyBalanceSchema>;
+
+export const CreditAprSchema = z.object({
+  balanceType: z.string().min(1),
+  apr: z.number().min(0),
+  balanceSubjectToInterest: z.number().nullable(),
+  interestCharged: z.number().nullable(),
+});
+export type CreditApr = z.infer<typeof CreditAprSchema>;
+
+export const CreditRewardsSchema = z.object({
+  earned: z.number(),
+  unit: z.enum(['cash', 'points']),
+});
+export type CreditRewards = z.infer<typeof CreditRewardsSchema>;
+
+export const LatePaymentWarningSchema = z.object({
+  lateFee: z.number().nullable(),
+  penaltyApr: z.number().nullable(),
+});
+export type LatePaymentWarning = z.infer<typeof LatePaymentWarningSchema>;
+
+export const CreditDetailsSchema = z.object({
+  creditLimit: z.number().nullable(),
+  availableCredit: z.number().nullable(),
+  paymentDueDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .nullable(),
+  minimumPaymentDue: z.number().nullable(),
+  aprs: z.array(CreditAprSchema),
+  interestCharged: z.number().nullable(),
+  feesCharged: z.number().nullable(),
+  rewards: CreditRewardsSchema.nullable(),
+  latePaymentWarning: LatePaymentWarningSchema.nullable(),
+});
+export type CreditDetails = z.infer<typeof CreditDetailsSchema>;
+
 export const MetadataSchema = z.object({
   parserVersion: z.string(),
   parsedAt: z.string().datetime(),
@@ -63,6 +121,8 @@ export const ParsedStatementSchema = z.object({
   account: AccountSchema,
   summary: SummarySchema,
   transactions: z.array(TransactionSchema),
+  dailyBalances: z.array(DailyBalanceSchema).optional(),
+  creditDetails: CreditDetailsSchema.optional(),
   metadata: MetadataSchema,
 });
 export type ParsedStatement = z.infer<typeof ParsedStatementSchema>;
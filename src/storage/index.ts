@@ -0,0 +1,25 @@
+/**
+ * Storage adapters for the normalized ledger.
+ * Supabase (hosted Postgres) or SQLite (local file) behind one interface.
+ */
+
+export {
+  STORAGE_BACKENDS,
+  LOCAL_USER_ID,
+  DEFAULT_SQLITE_PATH,
+  isStorageBackend,
+  type StorageAdapter,
+  type StorageBackend,
+  type DailyBalanceRow,
+} from './adapter.js';
+
+export { createSupabaseStorage } from './supabase-storage.js';
+
+export {
+  SqliteStorage,
+  openSqliteStorage,
+  openSqliteDatabase,
+  applySqliteSchema,
+} from './sqlite-storage.js';
+
+export { SqlitePlaidItemStore } from './sqlite-plaid-store.js';
@@ -0,0 +1,182 @@
+/**
+ * SQLite-backed Plaid item store.
+ * Keeps linked Items in the same local database as the SQLite ledger.
+ */
+
+/* eslint-disable @typescript-eslint/require-await */
+
+import type Database from 'better-sqlite3';
+import type { PlaidItemStore } from '../plaid/store.js';
+import type { PlaidItem, PlaidItemStatus } from '../plaid/types.js';
+
+const PLAID_ITEMS_SQL = `
+create table if not exists plaid_items (
+  item_id text primary key,
+  access_token text not null,
+  institution_id text not null,
+  institution_name text not null,
+  user_id text not null,
+  sync_cursor text,
+  last_sync_at text,
+  status text not null,
+  available_products text,
+  billed_products text,
+  consent_expiration_time text,
+  created_at text not null,
+  updated_at text not null
+);
+
+create index if not exists idx_plaid_items_user on plaid_items(user_id);
+`;
+
+/** PlaidItem fields and their plaid_items columns, in update order */
+const UPDATABLE_COLUMNS: ReadonlyArray<[keyof PlaidItem, string]> = [
+  ['accessToken', 'access_token'],
+  ['institutionId', 'institution_id'],
+  ['institutionName', 'institution_name'],
+  ['syncCursor', 'sync_cursor'],
+  ['lastSyncAt', 'last_sync_at'],
+  ['status', 'status'],
+  ['availableProducts', 'available_products'],
+  ['billedProducts', 'billed_products'],
+  ['consentExpirationTime', 'consent_expiration_time'],
+];
+
+type PlaidItemRow = Record<string, string | null>;
+
+function toColumnValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return JSON.stringify(value);
+  return String(value);
+}
+
+export class SqlitePlaidItemStore implements PlaidItemStore {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(PLAID_ITEMS_SQL);
+  }
+
+  async getItem(itemId: string): Promise<PlaidItem | null> {
+    const row = this.db
+      .prepare('select * from plaid_items where item_id = ?')
+      .get(itemId) as PlaidItemRow | undefined;
+    return row !== undefined ? this.rowToItem(row) : null;
+  }
+
+  async getItemByAccessToken(accessToken: string): Promise<PlaidItem | null> {
+    const row = this.db
+      .prepare('select * from plaid_items where access_token = ?')
+      .get(accessToken) as PlaidItemRow | undefined;
+    return row !== undefined ? this.rowToItem(row) : null;
+  }
+
+  async getItemsByUserId(userId: string): Promise<PlaidItem[]> {
+    const rows = this.db
+      .prepare('select * from plaid_items where user_id = ? order by created_at desc')
+      .all(userId) as PlaidItemRow[];
+    return rows.map((row) => this.rowToItem(row));
+  }
+
+  async getAllItems(): Promise<PlaidItem[]> {
+    const rows = this.db
+      .prepare('select * from plaid_items order by created_at asc')
+      .all() as PlaidItemRow[];
+    return rows.map((row) => this.rowToItem(row));
+  }
+
+  async saveItem(item: PlaidItem): Promise<void> {
+    this.db
+      .prepare(
+        `insert or replace into plaid_items
+           (item_id, access_token, institution_id, institution_name, user_id, sync_cursor, last_sync_at,
+            status, available_products, billed_products, consent_expiration_time, created_at, updated_at)
+         values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        item.itemId,
+        item.accessToken,
+        item.institutionId,
+        item.institutionName,
+        item.userId,
+        toColumnValue(item.syncCursor),
+        toColumnValue(item.lastSyncAt),
+        item.status,
+        toColumnValue(item.availableProducts),
+        toColumnValue(item.billedProducts),
+        toColumnValue(item.consentExpirationTime),
+        item.createdAt,
+        item.updatedAt
+      );
+  }
+
+  async updateItem(itemId: string, updates: Partial<PlaidItem>): Promise<void> {
+    const assignments = ['updated_at = ?'];
+    const params: Array<string | null> = [new Date().toISOString()];
+
+    for (const [field, column] of UPDATABLE_COLUMNS) {
+      if (updates[field] !== undefined) {
+        assignments.push(`${column} = ?`);
+        params.push(toColumnValue(updates[field]));
+      }
+    }
+
+    this.db
+      .prepare(`update plaid_items set ${assignments.join(', ')} where item_id = ?`)
+      .run(...params, itemId);
+  }
+
+  async deleteItem(itemId: string): Promise<void> {
+    this.db.prepare('delete from plaid_items where item_id = ?').run(itemId);
+  }
+
+  async updateSyncCursor(itemId: string, cursor: string): Promise<void> {
+    await this.updateItem(itemId, {
+      syncCursor: cursor,
+      lastSyncAt: new Date().toISOString(),
+    });
+  }
+
+  async updateStatus(itemId: string, status: PlaidItemStatus): Promise<void> {
+    await this.updateItem(itemId, { status });
+  }
+
+  /**
+   * Path of the database file (':memory:' for in-memory databases)
+   */
+  getFilePath(): string {
+    return this.db.name;
+  }
+
+  private rowToItem(row: PlaidItemRow): PlaidItem {
+    const item: PlaidItem = {
+      itemId: row['item_id'] ?? '',
+      accessToken: row['access_token'] ?? '',
+      institutionId: row['institution_id'] ?? '',
+      institutionName: row['institution_name'] ?? '',
+      userId: row['user_id'] ?? '',
+      status: (row['status'] ?? 'active') as PlaidItemStatus,
+      createdAt: row['created_at'] ?? '',
+      updatedAt: row['updated_at'] ?? '',
+    };
+
+    const syncCursor = row['sync_cursor'];
+    if (typeof syncCursor === 'string') item.syncCursor = syncCursor;
+
+    const lastSyncAt = row['last_sync_at'];
+    if (typeof lastSyncAt === 'string') item.lastSyncAt = lastSyncAt;
+
+    const availableProducts = row['available_products'];
+    if (typeof availableProducts === 'string') {
+      item.availableProducts = JSON.parse(availableProducts) as NonNullable<PlaidItem['availableProducts']>;
+    }
+
+    const billedProducts = row['billed_products'];
+    if (typeof billedProducts === 'string') {
+      item.billedProducts = JSON.parse(billedProducts) as NonNullable<PlaidItem['billedProducts']>;
+    }
+
+    const consentExpirationTime = row['consent_expiration_time'];
+    if (typeof consentExpirationTime === 'string') item.consentExpirationTime = consentExpirationTime;
+
+    return item;
+  }
+}
@@ -0,0 +1,1034 @@
+/**
+ * SQLite storage adapter.
+ * Local, single-file alternative to Supabase with the same tables, views and
+ * deduplication rules. JSON columns are stored as TEXT and parsed on read.
+ */
+
+/* eslint-disable @typescript-eslint/require-await */
+
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import Database from 'better-sqlite3';
+import {
+  DEFAULT_SQLITE_PATH,
+  LOCAL_USER_ID,
+  type DailyBalanceRow,
+  type StorageAdapter,
+  type StorageBackend,
+} from './adapter.js';
+import { toStatementCreditColumns } from '../supabase/import.js';
+import type {
+  ImportParseRunInput,
+  ImportParseRunResult,
+  ImportSourceInput,
+  ImportSourceResult,
+  ImportV2ResultInput,
+  ImportV2ResultOutput,
+  UpsertAccountInput,
+  UpsertAccountResult,
+  UpsertStatementInput,
+  UpsertStatementResult,
+  UpsertTransactionsInput,
+  UpsertTransactionsResult,
+} from '../supabase/import.js';
+import type {
+  AccountDateRange,
+  AccountRow,
+  AccountSummaryRow,
+  CreditCardCycleRow,
+  MerchantSpendingFilter,
+  MerchantSpendingRow,
+  MonthlyCategoryTotalsFilter,
+  MonthlyCategoryTotalsRow,
+  StatementFilter,
+  StatementRow,
+  TransactionFilter,
+  TransactionNeedingReviewRow,
+  TransactionRow,
+} from '../supabase/queries.js';
+import type {
+  SetTransactionOverrideInput,
+  TransactionOverrideRow,
+} from '../supabase/overrides.js';
+import { PARSER_VERSION } from '../utils/constants.js';
+import { sumAmounts } from '../utils/money.js';
+
+/**
+ * SQL schema for all tables. Mirrors the Supabase schema with
+ * uuid/jsonb/timestamptz columns mapped to TEXT and numeric to REAL.
+ */
+const SCHEMA_SQL = `
+create table if not exists sources (
+  id text primary key,
+  user_id text not null,
+  provider text not null,
+  file_name text not null,
+  file_sha256 text not null,
+  page_count integer not null,
+  uploaded_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  notes text,
+  unique (user_id, file_sha256)
+);
+
+create table if not exists parse_runs (
+  id text primary key,
+  user_id text not null,
+  source_id text references sources(id),
+  parser_version text not null,
+  schema_version text not null,
+  options text not null default '{}',
+  status text not null check (status in ('success','failed')),
+  warnings text not null default '[]',
+  output_snapshot text,
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+create table if not exists accounts (
+  id text primary key,
+  user_id text not null,
+  institution text not null,
+  account_type text not null,
+  account_number_masked text not null,
+  currency text not null default 'USD',
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  unique (user_id, institution, account_type, account_number_masked)
+);
+
+create table if not exists statements (
+  id text primary key,
+  user_id text not null,
+  account_id text not null references accounts(id),
+  statement_id text not null,
+  period_start text not null,
+  period_end text not null,
+  statement_kind text not null,
+  starting_balance real,
+  ending_balance real,
+  total_credits real,
+  total_debits real,
+  transaction_count integer,
+  page_start integer,
+  page_end integer,
+  credit_limit real,
+  available_credit real,
+  payment_due_date text,
+  minimum_payment_due real,
+  interest_charged real,
+  fees_charged real,
+  credit_details text,
+  provenance text not null default '{}',
+  metadata text not null default '{}',
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  unique (user_id, statement_id)
+);
+
+create table if not exists statement_sources (
+  statement_id text references statements(id),
+  source_id text references sources(id),
+  parse_run_id text references parse_runs(id),
+  role text not null,
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  primary key (statement_id, source_id, parse_run_id)
+);
+
+create table if not exists transactions (
+  id text primary key,
+  user_id text not null,
+  account_id text not null references accounts(id),
+  statement_db_id text references statements(id),
+  transaction_id text not null,
+  date text not null,
+  posted_date text,
+  amount real not null,
+  direction text not null,
+  description text not null,
+  description_raw text,
+  merchant text not null default '{}',
+  bank_reference text not null default '{}',
+  channel text not null default '{}',
+  category text,
+  subcategory text,
+  confidence real,
+  rule_id text,
+  rationale text,
+  flags text not null default '{}',
+  raw text not null default '{}',
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  unique (user_id, transaction_id)
+);
+
+create table if not exists transaction_overrides (
+  id text primary key,
+  user_id text not null,
+  transaction_db_id text not null references transactions(id),
+  category text,
+  subcategory text,
+  merchant_normalized_name text,
+  notes text,
+  source text not null check (source in ('human','ml','rule')),
+  confidence real,
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  unique (transaction_db_id)
+);
+
+create index if not exists idx_transactions_user_date on transactions(user_id, date);
+create index if not exists idx_transactions_user_account_date on transactions(user_id, account_id, date);
+create index if not exists idx_transactions_user_category on transactions(user_id, category);
+create index if not exists idx_transactions_user_statement on transactions(user_id, statement_db_id);
+create index if not exists idx_statements_user_account_period
+  on statements(user_id, account_id, period_start, period_end);
+create index if not exists idx_transaction_overrides_user
+  on transaction_overrides(user_id);
+`;
+
+/**
+ * SQL for the analytics views, ported from the Supabase views.
+ */
+const VIEWS_SQL = `
+create view if not exists transactions_effective as
+select
+  t.*,
+  coalesce(o.category, t.category) as effective_category,
+  coalesce(o.subcategory, t.subcategory) as effective_subcategory,
+  coalesce(o.merchant_normalized_name, json_extract(t.merchant, '$.normalizedName')) as effective_merchant,
+  o.source as override_source,
+  o.notes as override_notes
+from transactions t
+left join transaction_overrides o on o.transaction_db_id = t.id;
+
+create view if not exists monthly_category_totals as
+select
+  user_id,
+  strftime('%Y-%m-01', date) as month,
+  effective_category,
+  round(sum(case when amount < 0 then amount else 0 end), 2) as total_debits,
+  round(sum(case when amount > 0 then amount else 0 end), 2) as total_credits,
+  round(sum(amount), 2) as net_amount,
+  count(*) as transaction_count
+from transactions_effective
+group by 1, 2, 3;
+
+create view if not exists account_summary as
+select
+  a.id as account_id,
+  a.user_id,
+  a.institution,
+  a.account_type,
+  a.account_number_masked,
+  a.currency,
+  count(distinct s.id) as statement_count,
+  count(distinct t.id) as transaction_count,
+  min(s.period_start) as earliest_period,
+  max(s.period_end) as latest_period,
+  (
+    select ending_balance
+    from statements s2
+    where s2.account_id = a.id
+    order by s2.period_end desc
+    limit 1
+  ) as latest_balance
+from accounts a
+left join statements s on s.account_id = a.id
+left join transactions t on t.account_id = a.id
+group by a.id, a.user_id, a.institution, a.account_type, a.account_number_masked, a.currency;
+
+create view if not exists credit_card_cycles as
+select
+  s.user_id,
+  s.account_id,
+  s.statement_id,
+  s.period_start,
+  s.period_end,
+  s.ending_balance,
+  s.credit_limit,
+  s.available_credit,
+  round(max(s.ending_balance, 0) / nullif(s.credit_limit, 0), 4) as utilization,
+  s.payment_due_date,
+  s.minimum_payment_due,
+  s.interest_charged,
+  s.fees_charged,
+  sum(coalesce(s.interest_charged, 0)) over (
+    partition by s.user_id, s.account_id
+    order by s.period_end
+    rows unbounded preceding
+  ) as cumulative_interest,
+  s.credit_details
+from statements s
+where s.credit_details is not null;
+
+create view if not exists merchant_spending as
+select
+  user_id,
+  effective_merchant,
+  effective_category,
+  count(*) as transaction_count,
+  round(sum(case when amount < 0 then abs(amount) else 0 end), 2) as total_spent,
+  avg(case when amount < 0 then abs(amount) else null end) as avg_transaction,
+  min(date) as first_seen,
+  max(date) as last_seen
+from transactions_effective
+where effective_merchant is not null
+group by 1, 2, 3;
+
+create view if not exists daily_balance as
+select
+  user_id,
+  account_id,
+  date,
+  round(sum(amount), 2) as daily_net,
+  round(sum(sum(amount)) over (
+    partition by user_id, account_id
+    order by date
+    rows unbounded preceding
+  ), 2) as running_balance,
+  count(*) as transaction_count
+from transactions
+group by 1, 2, 3;
+
+create view if not exists parse_run_stats as
+select
+  pr.id as parse_run_id,
+  pr.user_id,
+  pr.parser_version,
+  pr.schema_version,
+  pr.status,
+  pr.created_at,
+  s.file_name,
+  s.provider,
+  json_array_length(pr.warnings) as warning_count,
+  (
+    select count(*)
+    from statements st
+    join statement_sources ss on ss.statement_id = st.id
+    where ss.parse_run_id = pr.id
+  ) as statement_count
+from parse_runs pr
+left join sources s on s.id = pr.source_id;
+
+create view if not exists transactions_needing_review as
+select *
+from transactions_effective
+where effective_category is null
+   or effective_category = 'Uncategorized'
+   or confidence < 0.7;
+`;
+
+type SqlValue = string | number | null;
+
+/** Transaction columns holding JSON objects */
+const TRANSACTION_JSON_COLUMNS = ['merchant', 'bank_reference', 'channel', 'flags', 'raw'] as const;
+
+/** Statement columns holding JSON objects */
+const STATEMENT_JSON_COLUMNS = ['provenance', 'metadata'] as const;
+
+function parseJsonObject(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'string' || value === '') {
+    return {};
+  }
+  const parsed: unknown = JSON.parse(value);
+  return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Replace JSON TEXT columns with parsed objects
+ */
+function parseJsonColumns<T>(row: Record<string, unknown>, columns: readonly string[]): T {
+  const parsed: Record<string, unknown> = { ...row };
+  for (const column of columns) {
+    parsed[column] = parseJsonObject(row[column]);
+  }
+  return parsed as T;
+}
+
+function toTransactionRow<T extends TransactionRow = TransactionRow>(row: Record<string, unknown>): T {
+  return parseJsonColumns<T>(row, TRANSACTION_JSON_COLUMNS);
+}
+
+function toStatementRow(row: Record<string, unknown>): StatementRow {
+  const statement = parseJsonColumns<StatementRow>(row, STATEMENT_JSON_COLUMNS);
+  // credit_details is only set on credit card statements
+  statement.credit_details = row['credit_details'] === null ? null : parseJsonObject(row['credit_details']);
+  return statement;
+}
+
+/**
+ * Build a WHERE clause from (condition, value) pairs, always scoped to user_id
+ */
+function buildWhere(userId: string, conditions: Array<[string, SqlValue]>): { sql: string; params: SqlValue[] } {
+  const clauses = ['user_id = ?', ...conditions.map(([clause]) => clause)];
+  return {
+    sql: `where ${clauses.join(' and ')}`,
+    params: [userId, ...conditions.map(([, value]) => value)],
+  };
+}
+
+/** Statement columns added after the initial schema, with their SQLite types */
+const STATEMENT_ADDED_COLUMNS: Array<[string, string]> = [
+  ['credit_limit', 'real'],
+  ['available_credit', 'real'],
+  ['payment_due_date', 'text'],
+  ['minimum_payment_due', 'real'],
+  ['interest_charged', 'real'],
+  ['fees_charged', 'real'],
+  ['credit_details', 'text'],
+];
+
+/**
+ * Create tables, indexes and views if they don't exist, and add columns
+ * introduced since a database file was created.
+ */
+export function applySqliteSchema(db: Database.Database): void {
+  db.exec(SCHEMA_SQL);
+
+  const statementColumns = new Set(
+    (db.pragma('table_info(statements)') as Array<{ name: string }>).map((column) => column.name)
+  );
+  for (const [name, type] of STATEMENT_ADDED_COLUMNS) {
+    if (!statementColumns.has(name)) {
+      db.exec(`alter table statements add column ${name} ${type}`);
+    }
+  }
+
+  db.exec(VIEWS_SQL);
+}
+
+/**
+ * Open (or create) a SQLite database file and apply the schema.
+ * Use ':memory:' for a throwaway database.
+ */
+export function openSqliteDatabase(filePath: string = DEFAULT_SQLITE_PATH): Database.Database {
+  if (filePath !== ':memory:') {
+    mkdirSync(dirname(resolve(filePath)), { recursive: true });
+  }
+  const db = new Database(filePath);
+  db.pragma('foreign_keys = ON');
+  applySqliteSchema(db);
+  return db;
+}
+
+/**
+ * SQLite-backed storage adapter.
+ * Writes run synchronously inside SQLite transactions, so a failed
+ * importV2Result leaves the database unchanged.
+ */
+export class SqliteStorage implements StorageAdapter {
+  readonly backend: StorageBackend = 'sqlite';
+
+  constructor(private readonly db: Database.Database, readonly userId: string = LOCAL_USER_ID) {}
+
+  /**
+   * Underlying database handle (shared with SqlitePlaidItemStore)
+   */
+  getDatabase(): Database.Database {
+    return this.db;
+  }
+
+  // ─── Import ────────────────────────────────────────────────────────────────
+
+  async importSource(input: ImportSourceInput): Promise<ImportSourceResult> {
+    const existing = this.db
+      .prepare('select id from sources where user_id = ? and file_sha256 = ?')
+      .get(this.userId, input.fileSha256) as { id: string } | undefined;
+
+    if (existing !== undefined) {
+      return { sourceId: existing.id, isNew: false };
+    }
+
+    const id = randomUUID();
+    this.db
+      .prepare(
+        `insert into sources (id, user_id, provider, file_name, file_sha256, page_count, notes)
+         values (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        this.userId,
+        input.provider ?? 'Bank of America',
+        input.fileName,
+        input.fileSha256,
+        input.pageCount,
+        input.notes ?? null
+      );
+
+    return { sourceId: id, isNew: true };
+  }
+
+  async importParseRun(input: ImportParseRunInput): Promise<ImportParseRunResult> {
+    const id = randomUUID();
+    this.db
+      .prepare(
+        `insert into parse_runs
+           (id, user_id, source_id, parser_version, schema_version, options, status, warnings, output_snapshot)
+         values (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        id,
+        this.userId,
+        input.sourceId ?? null,
+        PARSER_VERSION,
+        input.schemaVersion,
+        JSON.stringify(input.options ?? {}),
+        input.status,
+        JSON.stringify(input.warnings),
+        input.outputSnapshot !== undefined ? JSON.stringify(input.outputSnapshot) : null
+      );
+
+    return { parseRunId: id };
+  }
+
+  async upsertAccount(input: UpsertAccountInput): Promise<UpsertAccountResult> {
+    return this.upsertAccountSync(input);
+  }
+
+  async upsertStatement(input: UpsertStatementInput): Promise<UpsertStatementResult> {
+    return this.upsertStatementSync(input);
+  }
+
+  async upsertTransactions(input: UpsertTransactionsInput): Promise<UpsertTransactionsResult> {
+    return this.db.transaction(() => this.upsertTransactionsSync(input))();
+  }
+
+  async linkStatementSource(
+    statementDbId: string,
+    sourceId: string,
+    parseRunId: string,
+    role: string = 'primary'
+  ): Promise<void> {
+    this.linkStatementSourceSync(statementDbId, sourceId, parseRunId, role);
+  }
+
+  /**
+   * Import a complete FinalResultV2 output in a single SQLite transaction.
+   * Same account/statement/transaction deduplication as the Supabase import.
+   */
+  async importV2Result(input: ImportV2ResultInput): Promise<ImportV2ResultOutput> {
+    return this.db.transaction(() => this.importV2ResultSync(input))();
+  }
+
+  // ─── Queries ───────────────────────────────────────────────────────────────
+
+  async getTransactions(filter?: TransactionFilter): Promise<TransactionRow[]> {
+    const conditions: Array<[string, SqlValue]> = [];
+    if (filter?.startDate !== undefined) conditions.push(['date >= ?', filter.startDate]);
+    if (filter?.endDate !== undefined) conditions.push(['date <= ?', filter.endDate]);
+    if (filter?.accountId !== undefined) conditions.push(['account_id = ?', filter.accountId]);
+    if (filter?.category !== undefined) conditions.push(['category = ?', filter.category]);
+    if (filter?.subcategory !== undefined) conditions.push(['subcategory = ?', filter.subcategory]);
+    if (filter?.minAmount !== undefined) conditions.push(['amount >= ?', filter.minAmount]);
+    if (filter?.maxAmount !== undefined) conditions.push(['amount <= ?', filter.maxAmount]);
+    if (filter?.direction !== undefined) conditions.push(['direction = ?', filter.direction]);
+
+    const where = buildWhere(this.userId, conditions);
+    let sql = `select * from transactions ${where.sql} order by date desc, rowid desc`;
+    const params = [...where.params];
+
+    // Same paging semantics as the Supabase query (offset defaults to pages of 100)
+    const offset = filter?.offset ?? 0;
+    if (offset > 0) {
+      sql += ' limit ? offset ?';
+      params.push(filter?.limit ?? 100, offset);
+    } else if (filter?.limit !== undefined && filter.limit > 0) {
+      sql += ' limit ?';
+      params.push(filter.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as Array<Record<string, unknown>>;
+    return rows.map((row) => toTransactionRow(row));
+  }
+
+  async getStatements(filter?: StatementFilter): Promise<StatementRow[]> {
+    const conditions: Array<[string, SqlValue]> = [];
+    if (filter?.accountId !== undefined) conditions.push(['account_id = ?', filter.accountId]);
+    if (filter?.startDate !== undefined) conditions.push(['period_start >= ?', filter.startDate]);
+    if (filter?.endDate !== undefined) conditions.push(['period_end <= ?', filter.endDate]);
+
+    const where = buildWhere(this.userId, conditions);
+    let sql = `select * from statements ${where.sql} order by period_start desc`;
+    const params = [...where.params];
+    if (filter?.limit !== undefined && filter.limit > 0) {
+      sql += ' limit ?';
+      params.push(filter.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as Array<Record<string, unknown>>;
+    return rows.map(toStatementRow);
+  }
+
+  async getAccounts(): Promise<AccountRow[]> {
+    return this.db
+      .prepare('select * from accounts where user_id = ? order by created_at desc, rowid desc')
+      .all(this.userId) as AccountRow[];
+  }
+
+  async getTransactionByTransactionId(transactionId: string): Promise<TransactionRow | null> {
+    const row = this.db
+      .prepare('select * from transactions where user_id = ? and transaction_id = ?')
+      .get(this.userId, transactionId) as Record<string, unknown> | undefined;
+    return row !== undefined ? toTransactionRow(row) : null;
+  }
+
+  async getAccountDateRanges(): Promise<AccountDateRange[]> {
+    const rows = this.db
+      .prepare(
+        `select
+           a.id as accountId,
+           a.institution as institution,
+           a.account_type as accountType,
+           a.account_number_masked as accountNumberMasked,
+           min(t.date) as minDate,
+           max(t.date) as maxDate,
+           count(*) as transactionCount
+         from accounts a
+         join transactions t on t.account_id = a.id and t.user_id = a.user_id
+         where a.user_id = ?
+         group by a.id, a.institution, a.account_type, a.account_number_masked
+         order by a.rowid`
+      )
+      .all(this.userId);
+    return rows as AccountDateRange[];
+  }
+
+  // ─── Analytics views ───────────────────────────────────────────────────────
+
+  async getAccountSummary(): Promise<AccountSummaryRow[]> {
+    return this.db
+      .prepare('select * from account_summary where user_id = ?')
+      .all(this.userId) as AccountSummaryRow[];
+  }
+
+  async getCreditCardCycles(accountId?: string): Promise<CreditCardCycleRow[]> {
+    const where = buildWhere(this.userId, accountId !== undefined ? [['account_id = ?', accountId]] : []);
+    const rows = this.db
+      .prepare(`select * from credit_card_cycles ${where.sql} order by period_end`)
+      .all(...where.params) as Array<Record<string, unknown>>;
+    return rows.map((row) => parseJsonColumns<CreditCardCycleRow>(row, ['credit_details']));
+  }
+
+  async getMonthlyCategoryTotals(filter?: MonthlyCategoryTotalsFilter): Promise<MonthlyCategoryTotalsRow[]> {
+    const conditions: Array<[string, SqlValue]> = [];
+    if (filter?.startMonth !== undefined) conditions.push(['month >= ?', filter.startMonth]);
+    if (filter?.endMonth !== undefined) conditions.push(['month <= ?', filter.endMonth]);
+    if (filter?.category !== undefined) conditions.push(['effective_category = ?', filter.category]);
+
+    const where = buildWhere(this.userId, conditions);
+    return this.db
+      .prepare(`select * from monthly_category_totals ${where.sql} order by month desc`)
+      .all(...where.params) as MonthlyCategoryTotalsRow[];
+  }
+
+  async getMerchantSpending(filter?: MerchantSpendingFilter): Promise<MerchantSpendingRow[]> {
+    const conditions: Array<[string, SqlValue]> = [];
+    if (filter?.minSpent !== undefined) conditions.push(['total_spent >= ?', filter.minSpent]);
+    if (filter?.category !== undefined) conditions.push(['effective_category = ?', filter.category]);
+
+    const where = buildWhere(this.userId, conditions);
+    let sql = `select * from merchant_spending ${where.sql} order by total_spent desc`;
+    const params = [...where.params];
+    if (filter?.limit !== undefined && filter.limit > 0) {
+      sql += ' limit ?';
+      params.push(filter.limit);
+    }
+
+    return this.db.prepare(sql).all(...params) as MerchantSpendingRow[];
+  }
+
+  async getTransactionsNeedingReview(limit?: number): Promise<TransactionNeedingReviewRow[]> {
+    let sql = 'select * from transactions_needing_review where user_id = ? order by date desc';
+    const params: SqlValue[] = [this.userId];
+    if (limit !== undefined && limit > 0) {
+      sql += ' limit ?';
+      params.push(limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as Array<Record<string, unknown>>;
+    return rows.map((row) => toTransactionRow<TransactionNeedingReviewRow>(row));
+  }
+
+  async getDailyBalance(accountId: string, startDate?: string, endDate?: string): Promise<DailyBalanceRow[]> {
+    const conditions: Array<[string, SqlValue]> = [['account_id = ?', accountId]];
+    if (startDate !== undefined) conditions.push(['date >= ?', startDate]);
+    if (endDate !== undefined) conditions.push(['date <= ?', endDate]);
+
+    const where = buildWhere(this.userId, conditions);
+    return this.db
+      .prepare(
+        `select date, daily_net, running_balance, transaction_count
+         from daily_balance ${where.sql} order by date asc`
+      )
+      .all(...where.params) as DailyBalanceRow[];
+  }
+
+  // ─── Overrides ─────────────────────────────────────────────────────────────
+
+  async setTransactionOverride(input: SetTransactionOverrideInput): Promise<TransactionOverrideRow> {
+    return this.db
+      .prepare(
+        `insert into transaction_overrides
+           (id, user_id, transaction_db_id, category, subcategory, merchant_normalized_name,
+            notes, source, confidence, updated_at)
+         values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         on conflict (transaction_db_id) do update set
+           user_id = excluded.user_id,
+           category = excluded.category,
+           subcategory = excluded.subcategory,
+           merchant_normalized_name = excluded.merchant_normalized_name,
+           notes = excluded.notes,
+           source = excluded.source,
+           confidence = excluded.confidence,
+           updated_at = excluded.updated_at
+         returning *`
+      )
+      .get(
+        randomUUID(),
+        this.userId,
+        input.transactionDbId,
+        input.category ?? null,
+        input.subcategory ?? null,
+        input.merchantNormalizedName ?? null,
+        input.notes ?? null,
+        input.source,
+        input.confidence ?? null,
+        new Date().toISOString()
+      ) as TransactionOverrideRow;
+  }
+
+  async getTransactionOverride(transactionDbId: string): Promise<TransactionOverrideRow | null> {
+    const row = this.db
+      .prepare('select * from transaction_overrides where user_id = ? and transaction_db_id = ?')
+      .get(this.userId, transactionDbId) as TransactionOverrideRow | undefined;
+    return row ?? null;
+  }
+
+  async deleteTransactionOverride(transactionDbId: string): Promise<void> {
+    this.db
+      .prepare('delete from transaction_overrides where user_id = ? and transaction_db_id = ?')
+      .run(this.userId, transactionDbId);
+  }
+
+  async setTransactionOverridesBatch(
+    inputs: SetTransactionOverrideInput[]
+  ): Promise<{ succeeded: number; failed: number }> {
+    let succeeded = 0;
+    let failed = 0;
+
+    for (const input of inputs) {
+      try {
+        await this.setTransactionOverride(input);
+        succeeded++;
+      } catch {
+        failed++;
+      }
+    }
+
+    return { succeeded, failed };
+  }
+
+  async getAllOverrides(limit?: number): Promise<TransactionOverrideRow[]> {
+    let sql = 'select * from transaction_overrides where user_id = ? order by updated_at desc';
+    const params: SqlValue[] = [this.userId];
+    if (limit !== undefined && limit > 0) {
+      sql += ' limit ?';
+      params.push(limit);
+    }
+    return this.db.prepare(sql).all(...params) as TransactionOverrideRow[];
+  }
+
+  async getOverridesBySource(source: 'human' | 'ml' | 'rule'): Promise<TransactionOverrideRow[]> {
+    return this.db
+      .prepare('select * from transaction_overrides where user_id = ? and source = ? order by updated_at desc')
+      .all(this.userId, source) as TransactionOverrideRow[];
+  }
+
+  async close(): Promise<void> {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  // ─── Synchronous helpers (run inside db.transaction) ──────────────────────
+
+  private upsertAccountSync(input: UpsertAccountInput): UpsertAccountResult {
+    const existing = this.db
+      .prepare(
+        `select id from accounts
+         where user_id = ? and institution = ? and account_type = ? and account_number_masked = ?`
+      )
+      .get(this.userId, input.institution, input.accountType, input.accountNumberMasked) as
+      { id: string } | undefined;
+
+    if (existing !== undefined) {
+      return { accountId: existing.id, isNew: false };
+    }
+
+    const id = randomUUID();
+    this.db
+      .prepare(
+        `insert into accounts (id, user_id, institution, account_type, account_number_masked, currency)
+         values (?, ?, ?, ?, ?, ?)`
+      )
+      .run(id, this.userId, input.institution, input.accountType, input.accountNumberMasked, input.currency ?? 'USD');
+
+    return { accountId: id, isNew: true };
+  }
+
+  private upsertStatementSync(input: UpsertStatementInput): UpsertStatementResult {
+    const existing = this.db
+      .prepare('select id from statements where user_id = ? and statement_id = ?')
+      .get(this.userId, input.statementId) as { id: string } | undefined;
+
+    const credit = input.creditDetails !== undefined ? toStatementCreditColumns(input.creditDetails) : null;
+    const values = {
+      starting_balance: input.startingBalance ?? null,
+      ending_balance: input.endingBalance ?? null,
+      total_credits: input.totalCredits ?? null,
+      total_debits: input.totalDebits ?? null,
+      transaction_count: input.transactionCount ?? null,
+      page_start: input.pageStart ?? null,
+      page_end: input.pageEnd ?? null,
+      credit_limit: credit?.credit_limit ?? null,
+      available_credit: credit?.available_credit ?? null,
+      payment_due_date: credit?.payment_due_date ?? null,
+      minimum_payment_due: credit?.minimum_payment_due ?? null,
+      interest_charged: credit?.interest_charged ?? null,
+      fees_charged: credit?.fees_charged ?? null,
+      credit_details: credit !== null ? JSON.stringify(credit.credit_details) : null,
+      provenance: JSON.stringify(input.provenance ?? {}),
+      metadata: JSON.stringify(input.metadata ?? {}),
+    };
+
+    if (existing !== undefined) {
+      this.db
+        .prepare(
+          `update statements set
+             starting_balance = @starting_balance,
+             ending_balance = @ending_balance,
+             total_credits = @total_credits,
+             total_debits = @total_debits,
+             transaction_count = @transaction_count,
+             page_start = @page_start,
+             page_end = @page_end,
+             credit_limit = @credit_limit,
+             available_credit = @available_credit,
+             payment_due_date = @payment_due_date,
+             minimum_payment_due = @minimum_payment_due,
+             interest_charged = @interest_charged,
+             fees_charged = @fees_charged,
+             credit_details = @credit_details,
+             provenance = @provenance,
+             metadata = @metadata
+           where id = @id`
+        )
+        .run({ ...values, id: existing.id });
+
+      return { statementDbId: existing.id, isNew: false };
+    }
+
+    const id = randomUUID();
+    this.db
+      .prepare(
+        `insert into statements
+           (id, user_id, account_id, statement_id, period_start, period_end, statement_kind,
+            starting_balance, ending_balance, total_credits, total_debits, transaction_count,
+            page_start, page_end, credit_limit, available_credit, payment_due_date,
+            minimum_payment_due, interest_charged, fees_charged, credit_details, provenance, metadata)
+         values
+           (@id, @user_id, @account_id, @statement_id, @period_start, @period_end, @statement_kind,
+            @starting_balance, @ending_balance, @total_credits, @total_debits, @transaction_count,
+            @page_start, @page_end, @credit_limit, @available_credit, @payment_due_date,
+            @minimum_payment_due, @interest_charged, @fees_charged, @credit_details, @provenance, @metadata)`
+      )
+      .run({
+        ...values,
+        id,
+        user_id: this.userId,
+        account_id: input.accountId,
+        statement_id: input.statementId,
+        period_start: input.periodStart,
+        period_end: input.periodEnd,
+        statement_kind: input.statementKind,
+      });
+
+    return { statementDbId: id, isNew: true };
+  }
+
+  private upsertTransactionsSync(input: UpsertTransactionsInput): UpsertTransactionsResult {
+    const findExisting = this.db.prepare('select id from transactions where user_id = ? and transaction_id = ?');
+    const insert = this.db.prepare(
+      `insert into transactions
+         (id, user_id, account_id, statement_db_id, transaction_id, date, posted_date, amount, direction,
+          description, description_raw, merchant, bank_reference, channel, category, subcategory,
+          confidence, rule_id, rationale, flags, raw)
+       values
+         (@id, @user_id, @account_id, @statement_db_id, @transaction_id, @date, @posted_date, @amount, @direction,
+          @description, @description_raw, @merchant, @bank_reference, @channel, @category, @subcategory,
+          @confidence, @rule_id, @rationale, @flags, @raw)`
+    );
+
+    let inserted = 0;
+    let skipped = 0;
+    const transactionDbIds: string[] = [];
+
+    for (const txn of input.transactions) {
+      const existing = findExisting.get(this.userId, txn.transactionId) as { id: string } | undefined;
+      if (existing !== undefined) {
+        transactionDbIds.push(existing.id);
+        skipped++;
+        continue;
+      }
+
+      const id = randomUUID();
+      insert.run({
+        id,
+        user_id: this.userId,
+        account_id: input.accountId,
+        statement_db_id: input.statementDbId ?? null,
+        transaction_id: txn.transactionId,
+        date: txn.date,
+        posted_date: txn.postedDate ?? null,
+        amount: txn.amount,
+        direction: txn.direction,
+        description: txn.description,
+        description_raw: txn.descriptionRaw ?? null,
+        merchant: JSON.stringify(txn.merchant ?? {}),
+        bank_reference: JSON.stringify(txn.bankReference ?? {}),
+        channel: JSON.stringify(txn.channel ?? {}),
+        category: txn.category ?? null,
+        subcategory: txn.subcategory ?? null,
+        confidence: txn.confidence ?? null,
+        rule_id: txn.ruleId ?? null,
+        rationale: txn.rationale ?? null,
+        flags: JSON.stringify(txn.flags ?? {}),
+        raw: JSON.stringify(txn.raw ?? {}),
+      });
+      transactionDbIds.push(id);
+      inserted++;
+    }
+
+    return { inserted, skipped, transactionDbIds };
+  }
+
+  private linkStatementSourceSync(statementDbId: string, sourceId: string, parseRunId: string, role: string): void {
+    this.db
+      .prepare(
+        `insert into statement_sources (statement_id, source_id, parse_run_id, role)
+         values (?, ?, ?, ?)
+         on conflict (statement_id, source_id, parse_run_id) do update set role = excluded.role`
+      )
+      .run(statementDbId, sourceId, parseRunId, role);
+  }
+
+  private importV2ResultSync(input: ImportV2ResultInput): ImportV2ResultOutput {
+    const { result, sourceId, parseRunId } = input;
+    const stats: ImportV2ResultOutput = {
+      accountsCreated: 0,
+      accountsExisting: 0,
+      statementsCreated: 0,
+      statementsUpdated: 0,
+      transactionsInserted: 0,
+      transactionsSkipped: 0,
+    };
+
+    for (const account of result.accounts) {
+      const currency = account.account.currency;
+      const accountResult = this.upsertAccountSync({
+        institution: account.account.institution,
+        accountType: account.account.accountType,
+        accountNumberMasked: account.account.accountNumberMasked,
+        currency,
+      });
+
+      if (accountResult.isNew) {
+        stats.accountsCreated++;
+      } else {
+        stats.accountsExisting++;
+      }
+
+      // Group transactions by statementId, keeping first-seen order
+      const txnsByStatement = new Map<string, typeof account.transactions>();
+      for (const txn of account.transactions) {
+        const existing = txnsByStatement.get(txn.statementId) ?? [];
+        existing.push(txn);
+        txnsByStatement.set(txn.statementId, existing);
+      }
+
+      for (const [statementId, statementTxns] of txnsByStatement) {
+        // Extract period from statementId (format: BOA-checking-****3529-2025-03-11-2025-04-09)
+        const parts = statementId.split('-');
+        const periodEnd = parts.slice(-3).join('-');
+        const periodStart = parts.slice(-6, -3).join('-');
+
+        const totalCredits = sumAmounts(
+          statementTxns.filter((t) => t.direction === 'credit').map((t) => t.amount),
+          currency
+        );
+        const totalDebits = sumAmounts(
+          statementTxns.filter((t) => t.direction !== 'credit').map((t) => Math.abs(t.amount)),
+          currency
+        );
+
+        const creditCycle = account.creditCycles?.find((c) => c.statementId === statementId);
+
+        const statementResult = this.upsertStatementSync({
+          accountId: accountResult.accountId,
+          statementId,
+          periodStart,
+          periodEnd,
+          statementKind: account.account.accountType,
+          startingBalance: creditCycle?.startingBalance ?? account.summary.startingBalance,
+          endingBalance: creditCycle?.endingBalance ?? account.summary.endingBalance,
+          totalCredits,
+          totalDebits,
+          transactionCount: statementTxns.length,
+          ...(creditCycle !== undefined ? { creditDetails: creditCycle } : {}),
+        });
+
+        if (statementResult.isNew) {
+          stats.statementsCreated++;
+        } else {
+          stats.statementsUpdated++;
+        }
+
+        if (sourceId !== undefined && parseRunId !== undefined) {
+          this.linkStatementSourceSync(statementResult.statementDbId, sourceId, parseRunId, 'primary');
+        }
+
+        const txnResult = this.upsertTransactionsSync({
+          accountId: accountResult.accountId,
+          statementDbId: statementResult.statementDbId,
+          transactions: statementTxns.map((t) => ({
+            transactionId: t.transactionId,
+            date: t.date,
+            postedDate: t.postedDate,
+            amount: t.direction === 'debit' ? -Math.abs(t.amount) : Math.abs(t.amount),
+            direction: t.direction,
+            description: t.description,
+            merchant: { name: t.merchant },
+            category: t.category,
+            subcategory: t.subcategory,
+            confidence: t.confidence,
+            raw: t.raw,
+          })),
+        });
+
+        stats.transactionsInserted += txnResult.inserted;
+        stats.transactionsSkipped += txnResult.skipped;
+      }
+    }
+
+    return stats;
+  }
+}
+
+/**
+ * Open a SQLite database file and return a storage adapter for it.
+ */
+export function openSqliteStorage(
+  filePath: string = DEFAULT_SQLITE_PATH,
+  userId: string = LOCAL_USER_ID
+): SqliteStorage {
+  return new SqliteStorage(openSqliteDatabase(filePath), userId);
+}
@@ -34,7 +34,6 @@ export {
   upsertTransactions,
   linkStatementSource,
   importV2Result,
-  computeFileSha256,
   type ImportSourceInput,
   type ImportSourceResult,
   type ImportParseRunInput,
@@ -50,11 +49,15 @@ export {
   type ImportV2ResultOutput,
 } from './import.js';
 
+// File hashing (source files and the parse cache)
+export { computeFileSha256 } from '../utils/id-generator.js';
+
 // Query functions
 export {
   getTransactions,
   getStatements,
   getAccountSummary,
+  getCreditCardCycles,
   getMonthlyCategoryTotals,
   getMerchantSpending,
   getTransactionsNeedingReview,
@@ -67,6 +70,7 @@ export {
   type StatementFilter,
   type StatementRow,
   type AccountSummaryRow,
+  type CreditCardCycleRow,
   type MonthlyCategoryTotalsFilter,
   type MonthlyCategoryTotalsRow,
   type MerchantSpendingFilter,
@@ -71,6 +71,13 @@ create table if not exists statements (
   transaction_count int,
   page_start int,
   page_end int,
+  credit_limit numeric(14,2),
+  available_credit numeric(14,2),
+  payment_due_date date,
+  minimum_payment_due numeric(14,2),
+  interest_charged numeric(14,2),
+  fees_charged numeric(14,2),
+  credit_details jsonb,
   provenance jsonb not null default '{}'::jsonb,
   metadata jsonb not null default '{}'::jsonb,
   created_at timestamptz not null default now(),
@@ -126,6 +133,15 @@ create table if not exists transaction_overrides (
   updated_at timestamptz not null default now(),
   unique (transaction_db_id)
 );
+
+-- Credit card cycle columns (added after the initial schema)
+alter table statements add column if not exists credit_limit numeric(14,2);
+alter table statements add column if not exists available_credit numeric(14,2);
+alter table statements add column if not exists payment_due_date date;
+alter table statements add column if not exists minimum_payment_due numeric(14,2);
+alter table statements add column if not exists interest_charged numeric(14,2);
+alter table statements add column if not exists fees_charged numeric(14,2);
+alter table statements add column if not exists credit_details jsonb;
 `;
 
 /**
@@ -265,6 +281,31 @@ left join statements s on s.account_id = a.id
 left join transactions t on t.account_id = a.id
 group by a.id, a.user_id, a.institution, a.account_type, a.account_number_masked, a.currency;
 
+-- Credit card cycles with utilization and cumulative interest cost
+create or replace view credit_card_cycles as
+select
+  s.user_id,
+  s.account_id,
+  s.statement_id,
+  s.period_start,
+  s.period_end,
+  s.ending_balance,
+  s.credit_limit,
+  s.available_credit,
+  round(greatest(s.ending_balance, 0) / nullif(s.credit_limit, 0), 4) as utilization,
+  s.payment_due_date,
+  s.minimum_payment_due,
+  s.interest_charged,
+  s.fees_charged,
+  sum(coalesce(s.interest_charged, 0)) over (
+    partition by s.user_id, s.account_id
+    order by s.period_end
+    rows unbounded preceding
+  ) as cumulative_interest,
+  s.credit_details
+from statements s
+where s.credit_details is not null;
+
 -- Top merchants by spending
 create or replace view merchant_spending as
 select
@@ -129,6 +129,13 @@ export interface StatementRow {
   transaction_count: number | null;
   page_start: number | null;
   page_end: number | null;
+  credit_limit: number | null;
+  available_credit: number | null;
+  payment_due_date: string | null;
+  minimum_payment_due: number | null;
+  interest_charged: number | null;
+  fees_charged: number | null;
+  credit_details: Record<string, unknown> | null;
   provenance: Record<string, unknown>;
   metadata: Record<string, unknown>;
   created_at: string;
@@ -203,6 +210,50 @@ export async function getAccountSummary(
   return data ?? [];
 }
 
+export interface CreditCardCycleRow {
+  user_id: string;
+  account_id: string;
+  statement_id: string;
+  period_start: string;
+  period_end: string;
+  ending_balance: number | null;
+  credit_limit: number | null;
+  available_credit: number | null;
+  utilization: number | null;
+  payment_due_date: string | null;
+  minimum_payment_due: number | null;
+  interest_charged: number | null;
+  fees_charged: number | null;
+  cumulative_interest: number;
+  credit_details: Record<string, unknown>;
+}
+
+/**
+ * Get credit card statement cycles using the credit_card_cycles view.
+ */
+export async function getCreditCardCycles(
+  client: SupabaseClientAny,
+  userId: string,
+  accountId?: string
+): Promise<CreditCardCycleRow[]> {
+  let query = client
+    .from('credit_card_cycles')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (accountId) {
+    query = query.eq('account_id', accountId);
+  }
+
+  const { data, error } = await query.order('period_end', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to get credit card cycles: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
 export interface MonthlyCategoryTotalsFilter {
   startMonth?: string;
   endMonth?: string;
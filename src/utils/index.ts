@@ -1,6 +1,53 @@
-export { PARSER_VERSION, BOA_INSTITUTION_NAME, CONFIDENCE_THRESHOLDS } from './constants.js';
+export {
+  PARSER_VERSION,
+  BOA_INSTITUTION_NAME,
+  BOA_INSTITUTION_ID,
+  CHIME_INSTITUTION_NAME,
+  CHIME_INSTITUTION_ID,
+  CAPITAL_ONE_INSTITUTION_NAME,
+  CAPITAL_ONE_INSTITUTION_ID,
+  DEFAULT_CURRENCY,
+  CONFIDENCE_THRESHOLDS,
+} from './constants.js';
+export {
+  KNOWN_INSTITUTIONS,
+  INSTITUTION_ID_PATTERN,
+  ROUTING_NUMBER_PATTERN,
+  findInstitution,
+  toInstitutionId,
+  isValidInstitutionId,
+  isValidRoutingNumber,
+  type InstitutionInfo,
+} from './institutions.js';
 export { parseUSDate, inferStatementYear, isValidISODate, compareDates } from './date.js';
-export { parseAmount, roundToTwoDecimals, formatCurrency, sumAmounts } from './money.js';
+export {
+  parseAmount,
+  roundToTwoDecimals,
+  roundToCurrency,
+  formatCurrency,
+  sumAmounts,
+  toMinorUnits,
+  fromMinorUnits,
+  money,
+  moneyToNumber,
+  addMoney,
+  subtractMoney,
+  sumMoney,
+  moneyEquals,
+  amountsEqual,
+  calculateEndingBalance,
+  toDecimalString,
+  convertCurrency,
+  hasFxRate,
+  parseFxRateTable,
+  isValidCurrencyCode,
+  normalizeCurrencyCode,
+  getCurrencyMinorUnits,
+  CURRENCY_CODE_PATTERN,
+  type FxRateTable,
+  type Money,
+  type ParseAmountOptions,
+} from './money.js';
 export {
   computeStatementId,
   computePeriodLabel,
@@ -8,5 +55,6 @@ export {
   computeTransactionIds,
   isValidTransactionId,
   isValidStatementId,
+  computeFileSha256,
   type TransactionIdInput,
 } from './id-generator.js';
@@ -1,31 +1,236 @@
-export function parseAmount(amountStr: string): number {
-  const cleaned = amountStr.replace(/[$,\s]/g, '').replace(/[()]/g, '-');
+import { DEFAULT_CURRENCY } from './constants.js';
 
-  const isNegative = cleaned.startsWith('-') || amountStr.includes('(');
+/**
+ * Static FX rate table: units of the base currency per one unit of each
+ * listed currency, e.g. `{ EUR: 1.08 }` with base USD.
+ */
+export type FxRateTable = Record<string, number>;
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/** ISO 4217 minor units for currencies that do not use two decimals */
+const MINOR_UNITS: Record<string, number> = {
+  BHD: 3, CLP: 0, IQD: 3, ISK: 0, JOD: 3, JPY: 0, KRW: 0, KWD: 3,
+  LYD: 3, OMR: 3, PYG: 0, TND: 3, UGX: 0, VND: 0, XAF: 0, XOF: 0, XPF: 0,
+};
+
+export function isValidCurrencyCode(code: string): boolean {
+  return CURRENCY_CODE_PATTERN.test(code);
+}
+
+/**
+ * Upper-case and validate an ISO 4217 currency code.
+ */
+export function normalizeCurrencyCode(code: string): string {
+  const normalized = code.trim().toUpperCase();
+  if (!isValidCurrencyCode(normalized)) {
+    throw new Error(`Invalid currency code: ${code}`);
+  }
+  return normalized;
+}
+
+/**
+ * Number of decimal places used by a currency (2 unless ISO 4217 says otherwise).
+ */
+export function getCurrencyMinorUnits(currency: string = DEFAULT_CURRENCY): number {
+  return MINOR_UNITS[currency.toUpperCase()] ?? 2;
+}
+
+export interface ParseAmountOptions {
+  /**
+   * Decimal separator used by the source. Defaults to `.`, where commas are
+   * thousands separators (`1,234` is 1234); `,` reads `1.234,56` as 1234.56.
+   */
+  decimalSeparator?: '.' | ',';
+}
+
+/**
+ * Parse a statement amount. Currency symbols and codes are ignored. When a
+ * currency is given the result is rounded to that currency's minor units.
+ */
+export function parseAmount(amountStr: string, currency?: string, options: ParseAmountOptions = {}): number {
+  const isNegative = /^[^\d]*-/.test(amountStr) || amountStr.includes('(');
+
+  let numStr = amountStr.replace(/[^\d.,]/g, '');
+  numStr = options.decimalSeparator === ','
+    ? numStr.replace(/\./g, '').replace(',', '.')
+    : numStr.replace(/,/g, '');
 
-  const numStr = cleaned.replace(/^-/, '');
   const num = parseFloat(numStr);
 
   if (isNaN(num)) {
     throw new Error(`Unable to parse amount: ${amountStr}`);
   }
 
-  return isNegative ? -Math.abs(num) : Math.abs(num);
+  const signed = isNegative ? -Math.abs(num) : Math.abs(num);
+  return currency !== undefined ? roundToCurrency(signed, currency) : signed;
+}
+
+/**
+ * Scale to an integer, rounding half away from zero. `toPrecision` drops the
+ * binary noise in products such as `1.005 * 100 = 100.49999999999999`.
+ */
+function scaleToInteger(num: number, decimals: number): number {
+  const scaled = Number((num * 10 ** decimals).toPrecision(15));
+  const rounded = Math.round(Math.abs(scaled));
+  return scaled < 0 && rounded !== 0 ? -rounded : rounded;
 }
 
 export function roundToTwoDecimals(num: number): number {
-  return Math.round(num * 100) / 100;
+  return scaleToInteger(num, 2) / 100;
+}
+
+/**
+ * Round to the minor units of a currency (0 for JPY, 3 for KWD, 2 otherwise).
+ */
+export function roundToCurrency(num: number, currency: string = DEFAULT_CURRENCY): number {
+  return fromMinorUnits(toMinorUnits(num, currency), currency);
+}
+
+/**
+ * An exact monetary amount: an integer count of the currency's minor units
+ * (cents for USD, yen for JPY). Statements and exports keep decimal numbers;
+ * arithmetic on them goes through Money so sums never drift.
+ */
+export interface Money {
+  readonly minorUnits: number;
+  readonly currency: string;
+}
+
+/**
+ * Convert a decimal amount to integer minor units (12.34 USD -> 1234).
+ */
+export function toMinorUnits(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  return scaleToInteger(amount, getCurrencyMinorUnits(currency));
 }
 
-export function formatCurrency(amount: number): string {
+/**
+ * Convert integer minor units back to a decimal amount (1234 USD -> 12.34).
+ */
+export function fromMinorUnits(minorUnits: number, currency: string = DEFAULT_CURRENCY): number {
+  return minorUnits / 10 ** getCurrencyMinorUnits(currency);
+}
+
+export function money(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+  return { minorUnits: toMinorUnits(amount, currency), currency };
+}
+
+export function moneyToNumber(value: Money): number {
+  return fromMinorUnits(value.minorUnits, value.currency);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} vs ${b.currency}`);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minorUnits: a.minorUnits + b.minorUnits, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minorUnits: a.minorUnits - b.minorUnits, currency: a.currency };
+}
+
+export function sumMoney(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return values.reduce(addMoney, { minorUnits: 0, currency });
+}
+
+export function moneyEquals(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.minorUnits === b.minorUnits;
+}
+
+/**
+ * Compare two decimal amounts to the minor unit of their currency.
+ */
+export function amountsEqual(a: number, b: number, currency: string = DEFAULT_CURRENCY): boolean {
+  return toMinorUnits(a, currency) === toMinorUnits(b, currency);
+}
+
+/**
+ * Exact `startingBalance + totalCredits - totalDebits`.
+ */
+export function calculateEndingBalance(
+  startingBalance: number,
+  totalCredits: number,
+  totalDebits: number,
+  currency: string = DEFAULT_CURRENCY
+): number {
+  return moneyToNumber(
+    subtractMoney(addMoney(money(startingBalance, currency), money(totalCredits, currency)), money(totalDebits, currency))
+  );
+}
+
+/**
+ * Render an amount with exactly the currency's decimals ("-1234.50"), built
+ * from minor units rather than `toFixed` so large values never round wrongly.
+ */
+export function toDecimalString(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const decimals = getCurrencyMinorUnits(currency);
+  const minorUnits = toMinorUnits(amount, currency);
+  const digits = Math.abs(minorUnits).toString().padStart(decimals + 1, '0');
+  const sign = minorUnits < 0 ? '-' : '';
+  if (decimals === 0) {
+    return `${sign}${digits}`;
+  }
+  return `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+}
+
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY, locale = 'en-US'): string {
   const absAmount = Math.abs(amount);
-  const formatted = absAmount.toLocaleString('en-US', {
+  const formatted = absAmount.toLocaleString(locale, {
     style: 'currency',
-    currency: 'USD',
+    currency,
   });
   return amount < 0 ? `-${formatted}` : formatted;
 }
 
-export function sumAmounts(amounts: number[]): number {
-  return roundToTwoDecimals(amounts.reduce((sum, amt) => sum + amt, 0));
+/**
+ * Sum decimal amounts exactly, in the minor units of `currency`.
+ */
+export function sumAmounts(amounts: number[], currency: string = DEFAULT_CURRENCY): number {
+  return moneyToNumber(sumMoney(amounts.map((amount) => money(amount, currency)), currency));
+}
+
+/**
+ * Validate a user-supplied FX rate table (`{ "EUR": 1.08, ... }`).
+ */
+export function parseFxRateTable(input: unknown): FxRateTable {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('FX rate table must be an object mapping currency codes to rates');
+  }
+  const rates: FxRateTable = {};
+  for (const [code, rate] of Object.entries(input)) {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid FX rate for ${code}: ${String(rate)}`);
+    }
+    rates[normalizeCurrencyCode(code)] = rate;
+  }
+  return rates;
+}
+
+/**
+ * Whether the rate table holds a usable rate for a currency.
+ */
+export function hasFxRate(currency: string, rates: FxRateTable): boolean {
+  const rate = rates[currency];
+  return rate !== undefined && Number.isFinite(rate) && rate > 0;
+}
+
+/**
+ * Convert an amount between currencies using a static rate table whose rates
+ * are expressed in `to` units per one unit of the keyed currency.
+ */
+export function convertCurrency(amount: number, from: string, to: string, rates: FxRateTable): number {
+  if (from === to) {
+    return amount;
+  }
+  const rate = rates[from];
+  if (rate === undefined || !hasFxRate(from, rates)) {
+    throw new Error(`No FX rate for ${from} -> ${to}`);
+  }
+  return roundToCurrency(amount * rate, to);
 }
@@ -1,4 +1,5 @@
 import type { ParsedStatement, Transaction } from '../schemas/index.js';
+import { sumAmounts } from './money.js';
 
 export interface MergeResult {
   statements: ParsedStatement[];
@@ -276,17 +277,18 @@ function dedupeTransactions(transactions: Transaction[]): {
  * This ensures consistency after merging/deduping.
  */
 export function recalculateSummary(statement: ParsedStatement): void {
-  let totalCredits = 0;
-  let totalDebits = 0;
+  const currency = statement.account.currency;
+  const credits: number[] = [];
+  const debits: number[] = [];
   
   for (const txn of statement.transactions) {
     if (txn.direction === 'credit') {
-      totalCredits += txn.amount;
+      credits.push(txn.amount);
     } else {
-      totalDebits += Math.abs(txn.amount);
+      debits.push(Math.abs(txn.amount));
     }
   }
   
-  statement.summary.totalCredits = Math.round(totalCredits * 100) / 100;
-  statement.summary.totalDebits = Math.round(totalDebits * 100) / 100;
+  statement.summary.totalCredits = sumAmounts(credits, currency);
+  statement.summary.totalDebits = sumAmounts(debits, currency);
 }
@@ -0,0 +1,212 @@
+import { open, readFile, stat } from 'fs/promises';
+import { inflateRawSync } from 'zlib';
+
+/**
+ * File stored in a ZIP archive (from the central directory)
+ */
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  compressedSize: number;
+  /** Compression method: 0 (stored) or 8 (deflate) are supported */
+  method: number;
+  encrypted: boolean;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/** Largest entry (compressed or uncompressed) read out of an archive */
+export const MAX_ZIP_ENTRY_SIZE = 256 * 1024 * 1024;
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const earliest = Math.max(0, archive.length - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive (end of central directory not found)');
+}
+
+interface CentralDirectoryLocation {
+  entryCount: number;
+  offset: number;
+  size: number;
+}
+
+function readEndOfCentralDirectory(buffer: Buffer, end: number): CentralDirectoryLocation {
+  const location = {
+    entryCount: buffer.readUInt16LE(end + 10),
+    size: buffer.readUInt32LE(end + 12),
+    offset: buffer.readUInt32LE(end + 16),
+  };
+  if (location.entryCount === 0xffff || location.offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+  return location;
+}
+
+/**
+ * Parse the central directory records, starting at the beginning of `directory`.
+ */
+function parseCentralDirectory(directory: Buffer, entryCount: number): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP archive (bad central directory entry)');
+    }
+
+    const flags = directory.readUInt16LE(offset + 8);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    // Bit 11: name is UTF-8; otherwise it is usually plain ASCII
+    const name = directory
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString((flags & 0x800) !== 0 ? 'utf-8' : 'latin1')
+      .replace(/\\/g, '/');
+
+    if (!name.endsWith('/')) {
+      entries.push({
+        name,
+        size: directory.readUInt32LE(offset + 24),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        method: directory.readUInt16LE(offset + 10),
+        encrypted: (flags & 0x1) !== 0,
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+      });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * List the entries of a ZIP archive. Directory entries are left out.
+ */
+export function listZipEntries(archive: Buffer): ZipEntry[] {
+  const { entryCount, offset } = readEndOfCentralDirectory(archive, findEndOfCentralDirectory(archive));
+  return parseCentralDirectory(archive.subarray(offset), entryCount);
+}
+
+/**
+ * List the entries of a ZIP archive on disk, reading only the end of central
+ * directory record and the central directory rather than the whole file.
+ */
+export async function listZipFileEntries(archivePath: string): Promise<ZipEntry[]> {
+  const handle = await open(archivePath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const tail = Buffer.alloc(Math.min(fileSize, 22 + MAX_COMMENT_LENGTH));
+    await handle.read(tail, 0, tail.length, fileSize - tail.length);
+
+    const { entryCount, offset, size } = readEndOfCentralDirectory(tail, findEndOfCentralDirectory(tail));
+    if (offset + size > fileSize) {
+      throw new Error('Corrupt ZIP archive (central directory past the end of the file)');
+    }
+    const directory = Buffer.alloc(size);
+    await handle.read(directory, 0, size, offset);
+    return parseCentralDirectory(directory, entryCount);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read and decompress one entry of a ZIP archive. Entries whose header sizes
+ * exceed MAX_ZIP_ENTRY_SIZE are rejected, and inflation stops at the size the
+ * header declares.
+ */
+export function readZipEntry(archive: Buffer, entry: ZipEntry): Buffer {
+  if (entry.encrypted) {
+    throw new Error(`ZIP entry is encrypted: ${entry.name}`);
+  }
+  if (entry.size > MAX_ZIP_ENTRY_SIZE || entry.compressedSize > MAX_ZIP_ENTRY_SIZE) {
+    throw new Error(`ZIP entry is too large: ${entry.name} (${entry.size} bytes)`);
+  }
+
+  const offset = entry.localHeaderOffset;
+  if (offset + 30 > archive.length || archive.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP archive (bad local header for ${entry.name})`);
+  }
+  const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+  if (dataStart + entry.compressedSize > archive.length) {
+    throw new Error(`Corrupt ZIP archive (truncated data for ${entry.name})`);
+  }
+  const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return Buffer.from(data);
+    case 8:
+      try {
+        return inflateRawSync(data, { maxOutputLength: Math.max(entry.size, 1) });
+      } catch (error) {
+        throw new Error(`Corrupt ZIP entry ${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+  }
+}
+
+/**
+ * ZIP archive read into memory, with its central directory parsed once
+ */
+export interface ZipArchive {
+  entries: ZipEntry[];
+  read(entryName: string): Buffer;
+}
+
+/**
+ * Read a ZIP archive from disk and list its entries.
+ */
+export async function openZipArchive(archivePath: string): Promise<ZipArchive> {
+  const archive = await readFile(archivePath);
+  const entries = listZipEntries(archive);
+  const byName = new Map(entries.map((entry) => [entry.name, entry]));
+  return {
+    entries,
+    read: (entryName): Buffer => {
+      const entry = byName.get(entryName);
+      if (entry === undefined) {
+        throw new Error(`File not found in ZIP archive: ${entryName}`);
+      }
+      return readZipEntry(archive, entry);
+    },
+  };
+}
+
+// Scanned files are sorted, so the entries of one archive are read back to back
+let lastArchive: { path: string; mtimeMs: number; archive: Promise<ZipArchive> } | null = null;
+
+/**
+ * Read one file out of a ZIP archive on disk. The most recently opened archive
+ * is kept until the next one is needed (or the file changes), so reading every
+ * entry of an archive reads and parses it once.
+ */
+export async function readZipFile(archivePath: string, entryName: string): Promise<Buffer> {
+  const { mtimeMs } = await stat(archivePath);
+  if (lastArchive === null || lastArchive.path !== archivePath || lastArchive.mtimeMs !== mtimeMs) {
+    lastArchive = { path: archivePath, mtimeMs, archive: openZipArchive(archivePath) };
+  }
+
+  const cached = lastArchive;
+  let archive: ZipArchive;
+  try {
+    archive = await cached.archive;
+  } catch (error) {
+    // Do not keep a failed read: the next read of this archive tries again
+    if (lastArchive === cached) lastArchive = null;
+    throw error;
+  }
+  return archive.read(entryName);
+}
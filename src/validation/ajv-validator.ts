@@ -25,7 +25,7 @@ interface AjvValidateFunction {
 const SCHEMA = {
   "$schema": "http://json-schema.org/draft-07/schema#",
   "$id": "https://example.local/schemas/boa-statement-output.schema.json",
-  "title": "Bank of America Statement Parse Output",
+  "title": "Bank Statement Parse Output",
   "type": "object",
   "additionalProperties": false,
   "required": ["schemaVersion", "source", "statements", "metadata"],
@@ -81,11 +81,14 @@ const SCHEMA = {
           "additionalProperties": false,
           "required": ["institution", "accountType", "accountNumberMasked", "statementPeriod", "currency"],
           "properties": {
-            "institution": { "const": "Bank of America" },
+            "institution": { "type": "string", "minLength": 1, "maxLength": 128 },
+            "institutionId": { "type": "string", "pattern": "^[a-z0-9][a-z0-9_-]*$" },
+            "routingNumber": { "type": "string", "pattern": "^\\d{9}$" },
+            "fid": { "type": "string", "minLength": 1 },
             "productName": { "type": "string" },
             "accountType": { "enum": ["checking", "credit"] },
             "accountNumberMasked": { "type": "string", "minLength": 4 },
-            "currency": { "const": "USD" },
+            "currency": { "type": "string", "pattern": "^[A-Z]{3}$" },
             "statementCycle": { "type": "string" },
             "statementPeriod": {
               "type": "object",
@@ -160,6 +163,7 @@ const SCHEMA = {
         "date": { "$ref": "#/$defs/isoDate" },
         "postedDate": { "anyOf": [{ "$ref": "#/$defs/isoDate" }, { "type": "null" }] },
         "amount": { "type": "number" },
+        "currency": { "type": "string", "pattern": "^[A-Z]{3}$" },
         "direction": { "enum": ["debit", "credit"] },
         "description": { "type": "string", "minLength": 1 },
         "descriptionRaw": { "type": "string", "minLength": 1 },
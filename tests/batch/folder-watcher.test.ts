@@ -0,0 +1,136 @@
+/**
+ * Tests for watch-folder mode (FolderWatcher).
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FolderWatcher, type WatchFileStatus, type WatchUpdate } from '@findata/boa-parser';
+import { statementsFromFinalResult, toFinalResult } from '@findata/output';
+
+const checkingCsv = (month: string): string => `Description,,Summary Amt.
+Beginning balance as of ${month}/01/2025,,"1,000.00"
+Ending balance as of ${month}/28/2025,,"2,150.00"
+
+Date,Description,Amount,Running Bal.
+${month}/01/2025,Beginning balance as of ${month}/01/2025,,"1,000.00"
+${month}/15/2025,"ACME CORP DES:PAYROLL ID:1234","1,200.00","2,200.00"
+${month}/20/2025,"CHECKCARD AMAZON MKTPLACE","-50.00","2,150.00"
+`;
+
+describe('FolderWatcher', () => {
+  let dir: string;
+  let updates: WatchUpdate[];
+  let watcher: FolderWatcher;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'findata-watch-'));
+    updates = [];
+    watcher = new FolderWatcher({
+      inputDir: dir,
+      settleMs: 1000,
+      statusLogPath: join(dir, '.status.jsonl'),
+      onUpdate: (update) => {
+        updates.push(update);
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await watcher.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const statuses = (update: WatchUpdate | null): Array<[string, string]> =>
+    (update?.files ?? []).map((f) => [f.fileName, f.status]);
+
+  it('should wait for a file to settle before parsing it', async () => {
+    await writeFile(join(dir, 'jan.csv'), checkingCsv('01'));
+
+    expect(await watcher.poll(0)).toBeNull();
+    expect(await watcher.poll(500)).toBeNull();
+    const update = await watcher.poll(1000);
+
+    expect(statuses(update)).toEqual([['jan.csv', 'parsed']]);
+    expect(update?.merged.statements).toHaveLength(1);
+    expect(await watcher.poll(5000)).toBeNull();
+  });
+
+  it('should restart the settle time while a file is still growing', async () => {
+    await writeFile(join(dir, 'jan.csv'), checkingCsv('01').slice(0, 60));
+    expect(await watcher.poll(0)).toBeNull();
+
+    await writeFile(join(dir, 'jan.csv'), checkingCsv('01'));
+    expect(await watcher.poll(1000)).toBeNull();
+    expect(statuses(await watcher.poll(2000))).toEqual([['jan.csv', 'parsed']]);
+  });
+
+  it('should merge new files into the result and drop removed ones', async () => {
+    await writeFile(join(dir, 'jan.csv'), checkingCsv('01'));
+    await watcher.poll(0);
+    await watcher.poll(1000);
+
+    await writeFile(join(dir, 'feb.csv'), checkingCsv('02'));
+    await writeFile(join(dir, 'broken.pdf'), 'not a pdf');
+    await watcher.poll(2000);
+    const second = await watcher.poll(3000);
+
+    expect(statuses(second)).toEqual([['broken.pdf', 'failed'], ['feb.csv', 'parsed']]);
+    expect(second?.batch.statements).toHaveLength(1);
+    expect(second?.merged.statements.map((s) => s.account.statementPeriod.start)).toEqual(['2025-01-01', '2025-02-01']);
+
+    await unlink(join(dir, 'jan.csv'));
+    const third = await watcher.poll(4000);
+
+    expect(statuses(third)).toEqual([['jan.csv', 'removed']]);
+    expect(third?.merged.statements).toHaveLength(1);
+  });
+
+  it('should append one status line per handled file', async () => {
+    await writeFile(join(dir, 'jan.csv'), checkingCsv('01'));
+    await watcher.poll(0);
+    await watcher.poll(1000);
+
+    const lines = (await readFile(join(dir, '.status.jsonl'), 'utf-8')).trim().split('\n');
+    const entry = JSON.parse(lines[0]!) as WatchFileStatus;
+
+    expect(lines).toHaveLength(1);
+    expect(entry).toMatchObject({ fileName: 'jan.csv', status: 'parsed', parserId: 'boa-csv', statements: 1, transactions: 2 });
+  });
+
+  it.each(['v1', 'v2'] as const)('should merge into the statements of an existing %s result', async (version) => {
+    await writeFile(join(dir, 'jan.csv'), checkingCsv('01'));
+    await writeFile(join(dir, 'feb.csv'), checkingCsv('02'));
+    await watcher.poll(0);
+    const first = await watcher.poll(1000);
+    const existing = JSON.parse(JSON.stringify(toFinalResult({
+      statements: first?.merged.statements ?? [],
+      totalStatements: 2,
+      totalTransactions: first?.merged.totalTransactions ?? 0,
+    }, version))) as Parameters<typeof statementsFromFinalResult>[0];
+
+    const next = await mkdtemp(join(tmpdir(), 'findata-watch-'));
+    const resumed = new FolderWatcher({
+      inputDir: next,
+      settleMs: 0,
+      existingStatements: statementsFromFinalResult(existing),
+      onUpdate: () => {},
+    });
+    try {
+      await writeFile(join(next, 'feb.csv'), checkingCsv('02').replace('-50.00', '-60.00'));
+      await writeFile(join(next, 'mar.csv'), checkingCsv('03'));
+      await resumed.poll(0);
+      const update = await resumed.poll(1);
+
+      expect(statuses(update)).toEqual([['feb.csv', 'parsed'], ['mar.csv', 'parsed']]);
+      expect(update?.merged.statements.map((s) => s.account.statementPeriod.start)).toEqual(['2025-01-01', '2025-02-01', '2025-03-01']);
+      expect(update?.merged.statements[0]?.summary).toMatchObject({ startingBalance: 1000, endingBalance: 2150 });
+      // The folder's February statement replaces the existing one
+      expect(update?.merged.statements[1]?.transactions.map((t) => t.amount)).toContain(-60);
+      expect(update?.merged.totalTransactions).toBe(6);
+    } finally {
+      await resumed.close();
+      await rm(next, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for processBatch on worker threads (concurrency > 1).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { processBatch, createParserRegistry, type BatchProcessResult } from '@findata/boa-parser';
+import { FilePlaidItemStore, scanAndParsePdfs } from '@findata/plaid-bridge';
+
+const checkingCsv = (month: string, amount: string): string => `Description,,Summary Amt.
+Beginning balance as of ${month}/01/2025,,"1,000.00"
+Ending balance as of ${month}/28/2025,,"${amount}"
+
+Date,Description,Amount,Running Bal.
+${month}/01/2025,Beginning balance as of ${month}/01/2025,,"1,000.00"
+${month}/15/2025,"ACME CORP DES:PAYROLL ID:1234","1,200.00","2,200.00"
+${month}/20/2025,"CHECKCARD AMAZON MKTPLACE","-50.00","${amount}"
+`;
+
+const CREDIT_CSV = `Posted Date,Reference Number,Payee,Address,Amount
+01/10/2025,24692165010100012345678,"WHOLE FOODS MARKET #123","AUSTIN TX ","-120.00"
+01/25/2025,24692165025100087654321,"PAYMENT - THANK YOU","","300.00"
+`;
+
+/** parsedAt differs between runs */
+const withoutTimestamps = (result: BatchProcessResult): unknown => ({
+  ...result,
+  statements: result.statements.map((s) => ({ ...s, metadata: { ...s.metadata, parsedAt: '' } })),
+  parseErrors: result.parseErrors.map((e) => ({ ...e, stack: undefined, timestamp: '' })),
+});
+
+describe('processBatch with worker threads', () => {
+  let dir: string;
+  const names = ['stmt_1234563529_jan.csv', 'stmt_1234563529_feb.csv', 'broken.pdf', 'January2025_8812.csv', 'stmt_1234563529_jan_copy.csv'];
+  const files = (): Array<{ filePath: string; fileName: string; size: number }> =>
+    names.map((fileName) => ({ filePath: join(dir, fileName), fileName, size: 1 }));
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'findata-parallel-'));
+    await writeFile(join(dir, names[0]!), checkingCsv('01', '2,150.00'));
+    await writeFile(join(dir, names[1]!), checkingCsv('02', '2,150.00'));
+    await writeFile(join(dir, names[2]!), 'not a pdf');
+    await writeFile(join(dir, names[3]!), CREDIT_CSV);
+    await writeFile(join(dir, names[4]!), checkingCsv('01', '2,150.00'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should produce the same merged result as sequential processing', async () => {
+    const sequential = await processBatch(files(), { ocr: false });
+    const parallel = await processBatch(files(), { ocr: false, concurrency: 2 });
+
+    expect(parallel.summary.pdfsSucceeded).toBe(4);
+    expect(parallel.summary.duplicateStatementsRemoved).toBe(1);
+    expect(withoutTimestamps(parallel)).toEqual(withoutTimestamps(sequential));
+  }, 120_000);
+
+  it('should report progress for every file and errors in input order', async () => {
+    const progress: string[] = [];
+    const errors: string[] = [];
+
+    const result = await processBatch(files(), {
+      ocr: false,
+      concurrency: 3,
+      registry: createParserRegistry(),
+      onProgress: (current, total, fileName) => progress.push(`${current}/${total} ${fileName}`),
+      onError: (error) => errors.push(error.filename),
+    });
+
+    expect(progress).toEqual(names.map((name, i) => `${i + 1}/${names.length} ${name}`));
+    expect(errors).toEqual(['broken.pdf']);
+    expect(result.parseErrors.map((e) => e.filename)).toEqual(['broken.pdf']);
+  }, 120_000);
+
+  it('should reject parsers that were registered directly', async () => {
+    const registry = createParserRegistry();
+    registry.register({ id: 'local', institution: 'Local Bank', detect: () => 0, parse: () => [] });
+
+    await expect(processBatch(files(), { concurrency: 2, registry })).rejects.toThrow(
+      /"local" was registered directly/
+    );
+  });
+
+  it('should scan and parse sync inputs in parallel with the same log and results', async () => {
+    const scan = async (concurrency: number): Promise<{ lines: string[]; fileNames: string[] }> => {
+      const lines: string[] = [];
+      const parsed = await scanAndParsePdfs(dir, {
+        store: new FilePlaidItemStore(join(dir, 'plaid-items.json')),
+        concurrency,
+        log: (msg) => lines.push(msg),
+      });
+      return { lines, fileNames: parsed.map((p) => p.fileName) };
+    };
+
+    const sequential = await scan(1);
+    const parallel = await scan(3);
+
+    expect(parallel).toEqual(sequential);
+    expect(parallel.lines.some((line) => line.includes('[ERROR] Failed to parse broken.pdf'))).toBe(true);
+  }, 120_000);
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for the content-hash parse cache used by processBatch and the unified sync.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { processBatch, ParseCache, computeParseCacheKey, createParserRegistry, type ParserRegistry } from '@findata/boa-parser';
+import { FilePlaidItemStore, scanAndParsePdfs } from '@findata/plaid-bridge';
+import type { ExtractedPDF } from '@findata/pdf-extract';
+
+const CHECKING_CSV = `Description,,Summary Amt.
+Beginning balance as of 01/01/2025,,"1,000.00"
+Ending balance as of 01/28/2025,,"2,150.00"
+
+Date,Description,Amount,Running Bal.
+01/01/2025,Beginning balance as of 01/01/2025,,"1,000.00"
+01/15/2025,"ACME CORP DES:PAYROLL ID:1234","1,200.00","2,200.00"
+01/20/2025,"CHECKCARD AMAZON MKTPLACE","-50.00","2,150.00"
+`;
+
+const CHIME_LINES = [
+  'Chime',
+  'Spending Account Statement',
+  'Account number: 0001234567',
+  'Statement period: October 1, 2024 - October 31, 2024',
+  'Beginning balance $1,000.00',
+  'Ending balance $3,500.00',
+  'TRANSACTION DATE DESCRIPTION TYPE AMOUNT NET AMOUNT SETTLEMENT DATE',
+  '10/01/2024 ACME CORP PAYROLL Direct Deposit $2,500.00 $2,500.00 10/01/2024',
+];
+
+const chimeLayout: ExtractedPDF = {
+  pages: [{ pageNumber: 1, text: CHIME_LINES.join('\n'), lines: CHIME_LINES }],
+  fullText: CHIME_LINES.join('\n'),
+  totalPages: 1,
+  metadata: {},
+};
+
+describe('ParseCache', () => {
+  let dir: string;
+  let cache: ParseCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'findata-parse-cache-'));
+    cache = new ParseCache(join(dir, 'cache'));
+    await writeFile(join(dir, 'checking.csv'), CHECKING_CSV);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const files = (...names: string[]): Array<{ filePath: string; fileName: string; size: number }> =>
+    names.map((fileName) => ({ filePath: join(dir, fileName), fileName, size: 1 }));
+
+  it('should serve unchanged files from the cache on the next run', async () => {
+    const first = await processBatch(files('checking.csv'), { cache });
+    const second = await processBatch(files('checking.csv'), { cache });
+
+    expect(first.summary.cacheHits).toBe(0);
+    expect(second.summary.cacheHits).toBe(1);
+    expect(second.summary.pdfsByParser).toEqual({ 'boa-csv': 1 });
+    expect(second.statements).toEqual(first.statements);
+  });
+
+  it('should miss when the file contents change', async () => {
+    await processBatch(files('checking.csv'), { cache });
+    await writeFile(join(dir, 'checking.csv'), CHECKING_CSV.replace('AMAZON MKTPLACE', 'TARGET'));
+
+    const result = await processBatch(files('checking.csv'), { cache });
+
+    expect(result.summary.cacheHits).toBe(0);
+    expect(result.statements[0]?.transactions.some((t) => t.description.includes('TARGET'))).toBe(true);
+  });
+
+  it('should ignore entries written by another parser version', async () => {
+    await processBatch(files('checking.csv'), { cache });
+    const fileHash = await computeParseCacheKey(join(dir, 'checking.csv'));
+    const entryPath = join(cache.getDir(), `${fileHash}.json`);
+    const entry = JSON.parse(await readFile(entryPath, 'utf-8')) as Record<string, unknown>;
+    await writeFile(entryPath, JSON.stringify({ ...entry, parserVersion: '0.0.1' }));
+
+    expect(cache.get(fileHash)).toBeNull();
+    const result = await processBatch(files('checking.csv'), { cache });
+    expect(result.summary.cacheHits).toBe(0);
+    expect(cache.get(fileHash)).not.toBeNull();
+  });
+
+  it('should re-parse the cached layout instead of extracting the PDF again', async () => {
+    // Not a real PDF: extraction would fail, so success means the layout was reused
+    await writeFile(join(dir, 'chime.pdf'), 'cached layout only');
+    const fileHash = await computeParseCacheKey(join(dir, 'chime.pdf'));
+    cache.set({ fileHash, parserId: 'chime', layout: chimeLayout, strict: true, statements: [] });
+
+    const result = await processBatch(files('chime.pdf'), { cache });
+
+    expect(result.summary.cacheHits).toBe(1);
+    expect(result.summary.pdfsByParser).toEqual({ chime: 1 });
+    expect(result.statements[0]?.account.institution).toBe('Chime');
+    expect(cache.get(fileHash)?.statements).toHaveLength(1);
+  });
+
+  it('should parse the cached layout again when the registered parsers change', async () => {
+    await writeFile(join(dir, 'chime.pdf'), 'cached layout only');
+    const fileHash = await computeParseCacheKey(join(dir, 'chime.pdf'));
+    cache.set({ fileHash, parserId: 'chime', layout: chimeLayout, strict: true, statements: [] });
+    await processBatch(files('chime.pdf'), { cache });
+
+    const registry = createParserRegistry();
+    const chime = registry.get('chime')!;
+    registry.register({
+      id: 'neobank',
+      institution: 'Neobank',
+      detect: () => 1,
+      parse: (pdf) => chime.parse(pdf).map((s) => ({ ...s, account: { ...s.account, institution: 'Neobank' } })),
+    });
+    const result = await processBatch(files('chime.pdf'), { cache, registry });
+
+    expect(result.summary.pdfsByParser).toEqual({ neobank: 1 });
+    expect(result.statements[0]?.account.institution).toBe('Neobank');
+    expect(cache.get(fileHash)?.registeredParsers).toEqual(['boa@1.2.0', 'chime@1.2.0', 'capitalone@1.2.0', 'neobank']);
+  });
+
+  it('should parse the cached layout again when a parser is upgraded', async () => {
+    await writeFile(join(dir, 'chime.pdf'), 'cached layout only');
+    const fileHash = await computeParseCacheKey(join(dir, 'chime.pdf'));
+    cache.set({ fileHash, parserId: 'chime', layout: chimeLayout, strict: true, statements: [] });
+
+    const neobankRegistry = (version: string, institution: string): ParserRegistry => {
+      const registry = createParserRegistry();
+      const chime = registry.get('chime')!;
+      registry.register({
+        id: 'neobank',
+        institution,
+        version,
+        detect: () => 1,
+        parse: (pdf) => chime.parse(pdf).map((s) => ({ ...s, account: { ...s.account, institution } })),
+      });
+      return registry;
+    };
+    await processBatch(files('chime.pdf'), { cache, registry: neobankRegistry('1.0.0', 'Neobank') });
+    const result = await processBatch(files('chime.pdf'), { cache, registry: neobankRegistry('2.0.0', 'Neobank Inc.') });
+
+    expect(result.summary.cacheHits).toBe(1);
+    expect(result.statements[0]?.account.institution).toBe('Neobank Inc.');
+    expect(cache.get(fileHash)?.registeredParsers).toContain('neobank@2.0.0');
+  });
+
+  it('should report cache hits from the unified sync scan', async () => {
+    await writeFile(join(dir, 'chime.pdf'), 'cached layout only');
+    const fileHash = await computeParseCacheKey(join(dir, 'chime.pdf'));
+    cache.set({ fileHash, parserId: 'chime', layout: chimeLayout, strict: true, statements: [] });
+
+    const lines: string[] = [];
+    const parsed = await scanAndParsePdfs(dir, {
+      store: new FilePlaidItemStore(join(dir, 'plaid-items.json')),
+      cache,
+      log: (msg) => lines.push(msg),
+    });
+
+    expect(parsed.map((p) => [p.fileName, p.cached])).toEqual([['checking.csv', false], ['chime.pdf', true]]);
+    expect(lines).toContain('  1 unchanged file(s) served from the parse cache');
+  });
+
+  it('should cap the confidence of OCR transactions on the unified sync path', async () => {
+    await writeFile(join(dir, 'chime.pdf'), 'cached layout only');
+    const fileHash = await computeParseCacheKey(join(dir, 'chime.pdf'));
+    const scanned: ExtractedPDF = { ...chimeLayout, pages: chimeLayout.pages.map((page) => ({ ...page, ocrConfidence: 0.8 })) };
+    cache.set({ fileHash, parserId: 'chime', layout: scanned, strict: true, statements: [] });
+
+    const parsed = await scanAndParsePdfs(dir, {
+      store: new FilePlaidItemStore(join(dir, 'plaid-items.json')),
+      cache,
+      log: () => {},
+    });
+    const chime = parsed.find((p) => p.fileName === 'chime.pdf')?.statement;
+
+    expect(chime?.transactions.map((t) => t.confidence)).toEqual([0.48]);
+    expect(chime?.metadata.warnings).toContain('Transactions on scanned page(s) 1 were read with OCR; verify dates and amounts');
+  });
+});
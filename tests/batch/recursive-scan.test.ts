@@ -0,0 +1,210 @@
+/**
+ * Tests for recursive scanning, include/exclude globs and ZIP archive inputs.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { crc32, deflateRawSync } from 'zlib';
+import {
+  listZipEntries,
+  listZipFileEntries,
+  MAX_ZIP_ENTRY_SIZE,
+  processBatch,
+  readStatementFile,
+  readZipEntry,
+  scanDirectoryForStatementFiles,
+} from '@findata/boa-parser';
+import { FilePlaidItemStore, scanAndParsePdfs } from '@findata/plaid-bridge';
+
+const checkingCsv = (month: string): string => `Description,,Summary Amt.
+Beginning balance as of ${month}/01/2025,,"1,000.00"
+Ending balance as of ${month}/28/2025,,"2,150.00"
+
+Date,Description,Amount,Running Bal.
+${month}/01/2025,Beginning balance as of ${month}/01/2025,,"1,000.00"
+${month}/15/2025,"ACME CORP DES:PAYROLL ID:1234","1,200.00","2,200.00"
+${month}/20/2025,"CHECKCARD AMAZON MKTPLACE","-50.00","2,150.00"
+`;
+
+/**
+ * Build a ZIP archive; entries are deflated unless `stored` is set.
+ */
+function buildZip(files: Record<string, string>, stored = false): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf-8');
+    const data = Buffer.from(content, 'utf-8');
+    const body = stored ? data : deflateRawSync(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, body);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+describe('recursive scanning and archive inputs', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'findata-scan-'));
+    await mkdir(join(dir, '2025', 'checking'), { recursive: true });
+    await mkdir(join(dir, '.cache'));
+    await writeFile(join(dir, 'top.csv'), checkingCsv('01'));
+    await writeFile(join(dir, '2025', 'checking', 'feb.csv'), checkingCsv('02'));
+    await writeFile(join(dir, '2025', 'notes.pdf'), 'not a statement');
+    await writeFile(join(dir, '.cache', 'hidden.csv'), checkingCsv('03'));
+    await writeFile(join(dir, 'bundle.zip'), buildZip({
+      'statements/mar.csv': checkingCsv('03'),
+      'readme.txt': 'ignored',
+      '__MACOSX/statements/._mar.csv': 'resource fork',
+    }));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const names = async (options: Parameters<typeof scanDirectoryForStatementFiles>[1]): Promise<string[]> =>
+    (await scanDirectoryForStatementFiles(dir, options)).files.map((f) => f.fileName);
+
+  it('should list ZIP entries with their relative path', async () => {
+    expect(await names({})).toEqual(['bundle.zip/statements/mar.csv', 'top.csv']);
+    expect(await names({ archives: false })).toEqual(['top.csv']);
+  });
+
+  it('should descend into subfolders except hidden ones', async () => {
+    expect(await names({ recursive: true })).toEqual([
+      '2025/checking/feb.csv',
+      '2025/notes.pdf',
+      'bundle.zip/statements/mar.csv',
+      'top.csv',
+    ]);
+  });
+
+  it('should apply include and exclude globs to relative paths', async () => {
+    expect(await names({ recursive: true, include: ['2025/**'] })).toEqual(['2025/checking/feb.csv', '2025/notes.pdf']);
+    expect(await names({ recursive: true, include: ['*.csv'], exclude: ['bundle.zip'] })).toEqual([
+      '2025/checking/feb.csv',
+      'top.csv',
+    ]);
+    expect(await names({ recursive: true, exclude: ['**/*.{pdf,zip}'] })).toEqual(['2025/checking/feb.csv', 'top.csv']);
+  });
+
+  it('should read stored and deflated entries', async () => {
+    const archive = buildZip({ 'a.csv': 'stored' }, true);
+    expect(listZipEntries(archive).map((e) => [e.name, e.method, e.size])).toEqual([['a.csv', 0, 6]]);
+
+    const [entry] = (await scanDirectoryForStatementFiles(dir)).files;
+    expect(entry?.archivePath).toBe(join(dir, 'bundle.zip'));
+    expect((await readStatementFile(entry!)).toString('utf-8')).toBe(checkingCsv('03'));
+  });
+
+  it('should not inflate past the size in the entry header', () => {
+    const archive = buildZip({ 'a.csv': 'x'.repeat(1000) });
+    const [entry] = listZipEntries(archive);
+
+    expect(readZipEntry(archive, entry!)).toHaveLength(1000);
+    expect(() => readZipEntry(archive, { ...entry!, size: 10 })).toThrow('Corrupt ZIP entry a.csv');
+    expect(() => readZipEntry(archive, { ...entry!, size: MAX_ZIP_ENTRY_SIZE + 1 })).toThrow('ZIP entry is too large: a.csv');
+  });
+
+  it('should pick up an archive that changed between reads', async () => {
+    const [entry] = (await scanDirectoryForStatementFiles(dir)).files;
+    expect((await readStatementFile(entry!)).toString('utf-8')).toBe(checkingCsv('03'));
+
+    await writeFile(join(dir, 'bundle.zip'), buildZip({ 'statements/mar.csv': checkingCsv('04') }));
+    await utimes(join(dir, 'bundle.zip'), new Date(), new Date(Date.now() + 60_000));
+
+    expect((await readStatementFile(entry!)).toString('utf-8')).toBe(checkingCsv('04'));
+  });
+
+  it('should list entries from the central directory alone', async () => {
+    const archive = buildZip({ 'a.csv': 'first', 'b/c.csv': 'second' });
+    await writeFile(join(dir, 'pair.zip'), archive);
+
+    expect(await listZipFileEntries(join(dir, 'pair.zip'))).toEqual(listZipEntries(archive));
+    await expect(listZipFileEntries(join(dir, 'top.csv'))).rejects.toThrow('Not a ZIP archive');
+  });
+
+  it('should read an archive again after a failed read', async () => {
+    const [entry] = (await scanDirectoryForStatementFiles(dir)).files;
+    const modified = new Date(Date.now() + 120_000);
+    await writeFile(join(dir, 'bundle.zip'), 'not a zip yet');
+    await utimes(join(dir, 'bundle.zip'), modified, modified);
+    await expect(readStatementFile(entry!)).rejects.toThrow('Not a ZIP archive');
+
+    await writeFile(join(dir, 'bundle.zip'), buildZip({ 'statements/mar.csv': checkingCsv('05') }));
+    await utimes(join(dir, 'bundle.zip'), modified, modified);
+
+    expect((await readStatementFile(entry!)).toString('utf-8')).toBe(checkingCsv('05'));
+  });
+
+  it('should report unreadable archives as skipped', async () => {
+    await writeFile(join(dir, 'broken.zip'), 'not a zip');
+
+    const result = await scanDirectoryForStatementFiles(dir);
+
+    expect(result.skipped).toEqual([
+      { fileName: 'broken.zip', reason: expect.stringContaining('Unreadable ZIP archive') as unknown as string },
+    ]);
+  });
+
+  it('should record relative paths in parse errors and merge sources', async () => {
+    const { files } = await scanDirectoryForStatementFiles(dir, { recursive: true });
+    const parsed: string[] = [];
+
+    const result = await processBatch(files, { ocr: false, onFileParsed: (file) => parsed.push(file.fileName) });
+
+    expect(parsed).toEqual(['2025/checking/feb.csv', 'bundle.zip/statements/mar.csv', 'top.csv']);
+    expect(result.statements).toHaveLength(3);
+    expect(result.parseErrors.map((e) => e.filename)).toEqual(['2025/notes.pdf']);
+  });
+
+  it('should scan subfolders and archives in the unified sync', async () => {
+    const lines: string[] = [];
+    const parsed = await scanAndParsePdfs(dir, {
+      store: new FilePlaidItemStore(join(dir, 'plaid-items.json')),
+      scan: { recursive: true, include: ['*.csv'] },
+      log: (msg) => lines.push(msg),
+    });
+
+    expect(parsed.map((p) => p.fileName)).toEqual(['2025/checking/feb.csv', 'bundle.zip/statements/mar.csv', 'top.csv']);
+    expect(lines).toContain('  Parsing: bundle.zip/statements/mar.csv');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for ML categorizer evaluation (metrics, calibration and the
+ * hybrid / rules / ML comparison).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import {
+  computeCalibration,
+  evaluateCategorizer,
+  formatEvaluationReport,
+  generateTrainingData,
+  scoreCategorization,
+  type LabelledExample,
+  type MLCategorizationResult,
+} from '@findata/categorizer-ml';
+
+const label = (category: string, subcategory: string | null = null) =>
+  ({ category, subcategory }) as Pick<MLCategorizationResult, 'category' | 'subcategory'>;
+
+const mlResult = (category: string, mlConfidence: number) =>
+  ({ ...label(category), confidence: mlConfidence, mlConfidence, ruleId: null, rationale: '' }) as MLCategorizationResult;
+
+describe('scoreCategorization', () => {
+  it('should compute accuracy, per-category metrics and the confusion matrix', () => {
+    const actual = [label('Food & Dining', 'Restaurants'), label('Food & Dining', 'Groceries'), label('Shopping'), label('Shopping')];
+    const predicted = [label('Food & Dining', 'Restaurants'), label('Food & Dining', 'Restaurants'), label('Food & Dining'), label('Uncategorized')];
+
+    const metrics = scoreCategorization(actual, predicted);
+
+    expect(metrics).toMatchObject({ accuracy: 0.5, subcategoryAccuracy: 0.25, coverage: 0.75 });
+    expect(metrics.categories.map((c) => [c.category, c.support, c.precision, c.recall])).toEqual([
+      ['Food & Dining', 2, 2 / 3, 1],
+      ['Shopping', 2, 0, 0],
+    ]);
+    expect(metrics.macroF1).toBeCloseTo(0.4);
+    expect(metrics.confusion).toEqual({
+      labels: ['Food & Dining', 'Shopping', 'Uncategorized'],
+      counts: [[2, 0, 0], [1, 0, 1], [0, 0, 0]],
+    });
+  });
+
+  it('should reject mismatched lengths', () => {
+    expect(() => scoreCategorization([label('Shopping')], [])).toThrow('Expected one prediction per label');
+  });
+});
+
+describe('computeCalibration', () => {
+  it('should bin predictions by confidence and count abstentions', () => {
+    const actual = [label('Shopping'), label('Shopping'), label('Travel'), label('Travel')];
+    const predicted = [mlResult('Shopping', 0.95), mlResult('Travel', 0.91), mlResult('Travel', 0.65), mlResult('Uncategorized', 0.3)];
+
+    const calibration = computeCalibration(actual, predicted, 5);
+
+    expect(calibration).toMatchObject({ predictions: 3, abstained: 1 });
+    expect(calibration.bins.filter((b) => b.count > 0).map((b) => [b.lower, b.count, b.accuracy])).toEqual([
+      [0.6, 1, 1],
+      [0.8, 2, 0.5],
+    ]);
+    expect(calibration.expectedCalibrationError).toBeCloseTo((1 / 3) * 0.35 + (2 / 3) * 0.43);
+  });
+});
+
+describe('evaluateCategorizer', () => {
+  const examples: LabelledExample[] = generateTrainingData(600).map((e) => ({ ...e, source: 'synthetic' }));
+
+  it('should cross-validate the local engine against rules-only and hybrid', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const progress: string[] = [];
+    const report = await evaluateCategorizer(examples, {
+      engine: 'local',
+      folds: 3,
+      epochs: 3,
+      onProgress: (message) => progress.push(message),
+    });
+    vi.restoreAllMocks();
+
+    expect(report).toMatchObject({ engine: 'local', method: 'kfold', epochs: 3, examples: { total: 600, bySource: { synthetic: 600 } } });
+    expect(report.folds.map((f) => f.train + f.test)).toEqual([600, 600, 600]);
+    expect(report.folds.reduce((sum, f) => sum + f.test, 0)).toBe(600);
+    expect(progress[0]).toMatch(/^Fold 1\/3: training on \d+, testing on \d+$/);
+    expect(report.strategies.ml.accuracy).toBeGreaterThan(0.5);
+    expect(report.strategies.rules.confusion.counts.flat().reduce((a, b) => a + b, 0)).toBe(600);
+    expect(report.calibration.predictions + report.calibration.abstained).toBe(600);
+
+    const text = formatEvaluationReport(report);
+    expect(text).toContain('3-fold cross-validation');
+    expect(text).toMatch(/hybrid\s+\d+\.\d%/);
+    expect(text).toContain('Confusion matrix (ml');
+  });
+
+  it('should split the same way for the same seed', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const run = (): Promise<number[]> =>
+      evaluateCategorizer(examples, { engine: 'local', holdout: 0.25, epochs: 1 }).then((r) => r.folds.map((f) => f.accuracy.ml));
+    const [first, second] = [await run(), await run()];
+    vi.restoreAllMocks();
+
+    expect(first).toEqual(second);
+  });
+
+  it('should reject invalid options', async () => {
+    await expect(evaluateCategorizer([])).rejects.toThrow('No labelled examples');
+    await expect(evaluateCategorizer(examples, { folds: 1 })).rejects.toThrow('Invalid folds: 1');
+    await expect(evaluateCategorizer(examples, { holdout: 1 })).rejects.toThrow('Invalid holdout: 1');
+    await expect(evaluateCategorizer(examples.slice(0, 1), { engine: 'local' })).rejects.toThrow('Not enough labelled examples (1)');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for the offline ML categorizer (LocalMLCategorizer) and the
+ * classifier engine selection in HybridCategorizer.
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createClassifier,
+  generateTrainingData,
+  HybridCategorizer,
+  isMLEngine,
+  LocalMLCategorizer,
+  LOCAL_MODEL_FILE,
+  LOCAL_WEIGHTS_FILE,
+  MLCategorizer,
+} from '@findata/categorizer-ml';
+
+describe('LocalMLCategorizer', () => {
+  const categorizer = new LocalMLCategorizer();
+  const progress: number[] = [];
+  let consoleLogs = 0;
+
+  beforeAll(async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    await categorizer.initialize();
+    await categorizer.train(generateTrainingData(1500), { epochs: 5, onEpoch: (epoch) => progress.push(epoch) });
+    consoleLogs = log.mock.calls.length;
+    vi.restoreAllMocks();
+  });
+
+  it('should report training progress through onEpoch, not the console', () => {
+    expect(progress).toEqual([0, 1, 2, 3, 4]);
+    expect(consoleLogs).toBe(0);
+  });
+
+  it('should reject training without usable examples', async () => {
+    await expect(new LocalMLCategorizer().train([])).rejects.toThrow('No training examples');
+  });
+
+  it('should refuse to predict before training', async () => {
+    await expect(new LocalMLCategorizer().predict('STARBUCKS')).rejects.toThrow('Model not trained');
+  });
+
+  it('should predict categories for known merchants', async () => {
+    const result = await categorizer.predict('CHECKCARD 0312 STARBUCKS STORE 1234 SEATTLE WA', 'CHECKCARD');
+
+    expect(result.category).toBe('Food & Dining');
+    expect(result.ruleId).toBe('ml-local-classifier');
+    expect(result.mlConfidence).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('should fall back to Uncategorized below the confidence threshold', async () => {
+    const strict = new LocalMLCategorizer({ minConfidenceThreshold: 1.01 });
+    await strict.train(generateTrainingData(200), { epochs: 1 });
+
+    const result = await strict.predict('STARBUCKS');
+    expect(result).toMatchObject({ category: 'Uncategorized', subcategory: null, ruleId: null });
+  });
+
+  it('should save and load a model with the same predictions', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'findata-local-model-'));
+    try {
+      await categorizer.saveModel(dir);
+      const loaded = new LocalMLCategorizer();
+      await loaded.loadModel(dir);
+
+      const descriptions = ['SHELL OIL 57442', 'NETFLIX.COM', 'CVS/PHARMACY #1234'];
+      expect(await loaded.predictBatch(descriptions)).toEqual(await categorizer.predictBatch(descriptions));
+      expect(loaded.getModelSummary()).toContain('Trained on:      1500 example(s)');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report missing and invalid model files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'findata-local-model-'));
+    try {
+      await expect(new LocalMLCategorizer().loadModel(dir)).rejects.toThrow('--ml-engine local');
+
+      await categorizer.saveModel(dir);
+      await writeFile(join(dir, LOCAL_WEIGHTS_FILE), Buffer.alloc(16));
+      await expect(new LocalMLCategorizer().loadModel(dir)).rejects.toThrow(
+        `Invalid local model file ${join(dir, LOCAL_MODEL_FILE)}: ${LOCAL_WEIGHTS_FILE} has 16 bytes`
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('classifier engines', () => {
+  it('should create a classifier per engine', () => {
+    expect(isMLEngine('local')).toBe(true);
+    expect(isMLEngine('bert')).toBe(false);
+    expect(createClassifier('local')).toBeInstanceOf(LocalMLCategorizer);
+    expect(createClassifier('use')).toBeInstanceOf(MLCategorizer);
+  });
+
+  it('should use the local engine in HybridCategorizer for uncategorized transactions', async () => {
+    const hybrid = new HybridCategorizer({ engine: 'local' });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await hybrid.initialize();
+    await hybrid.trainML(generateTrainingData(1500), { epochs: 5 });
+    vi.restoreAllMocks();
+
+    const result = await hybrid.categorizeAsync('CHECKCARD 0312 STARBUCKS STORE 1234 SEATTLE WA', 'CHECKCARD');
+    expect(result.mlResult?.ruleId).toBe('ml-local-classifier');
+    hybrid.dispose();
+  });
+});
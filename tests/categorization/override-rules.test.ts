@@ -0,0 +1,123 @@
+/**
+ * Tests for learning categorization rules from human overrides.
+ */
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  acceptLearnedRules,
+  createUserRuleMatcher,
+  learnRulesFromOverrides,
+  loadLearnedRules,
+  normalizeMerchantKey,
+  type OverrideExample,
+} from '@findata/categorizer';
+
+const garage = (n: number): OverrideExample => ({
+  description: `CHECKCARD 01${n}5 JOES GARAGE LLC SEATTLE WA`,
+  direction: 'debit',
+  category: 'Transportation',
+  subcategory: 'Auto Maintenance',
+});
+
+const babysitter = (conf: string): OverrideExample => ({
+  description: `Zelle payment to MARIA LOPEZ Conf# ${conf}`,
+  direction: 'debit',
+  category: 'Childcare',
+  subcategory: null,
+});
+
+describe('normalizeMerchantKey', () => {
+  it('should strip channel prefixes and reference tails', () => {
+    expect(normalizeMerchantKey('CHECKCARD 0105 JOES GARAGE LLC SEATTLE WA')).toBe('joes garage llc');
+    expect(normalizeMerchantKey('Zelle payment to MARIA LOPEZ Conf# abc123')).toBe('maria lopez');
+    expect(normalizeMerchantKey('ACME CORP DES:PAYROLL ID:1234 INDN:JANE DOE')).toBe('acme corp');
+    expect(normalizeMerchantKey('#12 99')).toBeNull();
+  });
+
+  it('should prefer the override merchant only when it appears in the description', () => {
+    expect(normalizeMerchantKey('SQ *BLUE BOTTLE COF 0412', 'Blue Bottle')).toBe('blue bottle');
+    expect(normalizeMerchantKey('SQ *BLUE BOTTLE COF 0412', 'Blue Bottle Coffee')).toBe('sq blue bottle');
+    // Parsers without merchant extraction report the channel as the merchant
+    expect(normalizeMerchantKey('CHECKCARD 0105 JOES GARAGE LLC SEATTLE WA', 'CHECKCARD')).toBe('joes garage llc');
+  });
+});
+
+describe('learnRulesFromOverrides', () => {
+  it('should propose rules with support and consistency', () => {
+    const proposals = learnRulesFromOverrides([
+      garage(1), garage(2), garage(3),
+      { ...garage(4), category: 'Shopping', subcategory: null },
+      babysitter('a'), babysitter('b'),
+    ], { minConsistency: 0.7 });
+
+    expect(proposals.map((p) => [p.id, p.category, p.support, p.total, p.consistency])).toEqual([
+      ['learned-joes-garage-llc', 'Transportation', 3, 4, 0.75],
+      ['learned-maria-lopez', 'Childcare', 2, 2, 1],
+    ]);
+    expect(proposals[1]?.rule).toMatchObject({ priority: 50, direction: 'debit', subcategory: null });
+    expect(proposals[1]?.rule.patterns[0]?.test('ZELLE PAYMENT TO MARIA  LOPEZ CONF# Z9')).toBe(true);
+  });
+
+  it('should drop merchants below the support or consistency thresholds', () => {
+    const examples = [garage(1), garage(2), { ...garage(3), category: 'Shopping', subcategory: null }, babysitter('a')];
+
+    expect(learnRulesFromOverrides(examples)).toEqual([]);
+    expect(learnRulesFromOverrides(examples, { minSupport: 1, minConsistency: 0.6 }).map((p) => p.id)).toEqual([
+      'learned-joes-garage-llc',
+      'learned-maria-lopez',
+    ]);
+  });
+
+  it('should ignore overrides to unknown or Uncategorized categories', () => {
+    const examples = [
+      { ...garage(1), category: 'Cars' },
+      { ...garage(2), category: 'Uncategorized' },
+      garage(3),
+    ];
+
+    expect(learnRulesFromOverrides(examples, { minSupport: 1 }).map((p) => p.total)).toEqual([1]);
+  });
+});
+
+describe('learned rules file', () => {
+  it('should accept proposals, update them on re-accept, and apply them ahead of the built-in rules', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'findata-learned-'));
+    const file = join(dir, 'nested', 'learned-rules.json');
+    try {
+      expect(await loadLearnedRules(file)).toEqual([]);
+
+      const proposals = learnRulesFromOverrides([garage(1), garage(2), babysitter('a'), babysitter('b')]);
+      expect(await acceptLearnedRules(proposals.slice(0, 1), file)).toEqual({ added: 1, updated: 0 });
+      expect(await acceptLearnedRules(proposals, file)).toEqual({ added: 1, updated: 1 });
+
+      const rules = await loadLearnedRules(file);
+      expect(rules.map((r) => r.id)).toEqual(['learned-joes-garage-llc', 'learned-maria-lopez']);
+
+      // Built-in rules file Zelle payments under Transfer
+      const match = createUserRuleMatcher(rules);
+      expect(match('Zelle payment to MARIA LOPEZ Conf# q1', 'ZELLE', { direction: 'debit' })?.category).toBe('Childcare');
+      expect(match('Zelle payment from MARIA LOPEZ Conf# q2', 'ZELLE', { direction: 'credit' })).toBeNull();
+      expect(match('CHECKCARD 0105 AMAZON MKTPLACE', 'CHECKCARD', { direction: 'debit' })).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep hand-edited fields of other rules and refuse to overwrite an invalid file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'findata-learned-'));
+    const file = join(dir, 'learned-rules.json');
+    try {
+      const manual = { id: 'manual', patterns: ['x'], category: 'Housing', amountRange: { min: 10 } };
+      await writeFile(file, JSON.stringify({ rules: [manual] }));
+      await acceptLearnedRules(learnRulesFromOverrides([garage(1), garage(2)]), file);
+      expect((JSON.parse(await readFile(file, 'utf-8')) as { rules: unknown[] }).rules[0]).toEqual(manual);
+
+      await writeFile(file, '{"rules": [{"id": "bad"}]}');
+      await expect(acceptLearnedRules([], file)).rejects.toThrow(`Invalid learned rules file ${file}: Rule "bad"`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for the review queue helpers and the overrides sidecar file.
+ */
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  applyReviewDecisions,
+  findSimilarTransactions,
+  loadOverridesSidecar,
+  needsReview,
+  overridesSidecarPath,
+  parseCategoryAnswer,
+  reviewItemsFromResult,
+  sameMerchantItems,
+  saveOverridesSidecar,
+  subcategoryChoices,
+  suggestDecision,
+  type ReviewItem,
+  type SidecarOverride,
+} from '@findata/categorizer';
+import { toFinalResultV1, toFinalResultV2 } from '@findata/output';
+import type { ParsedStatement } from '@findata/types';
+
+const item = (id: string, description: string, category = 'Uncategorized', confidence = 0.5, date = '2025-01-15'): ReviewItem => ({
+  id,
+  date,
+  description,
+  merchant: 'CHECKCARD',
+  amount: -40,
+  category,
+  subcategory: null,
+  confidence,
+  ruleId: null,
+  rationale: null,
+});
+
+const override = (transactionId: string, category: SidecarOverride['category']): SidecarOverride => ({
+  transactionId,
+  description: 'CHECKCARD 0105 JOES GARAGE LLC',
+  category,
+  subcategory: null,
+  source: 'human',
+  updatedAt: '2025-02-01T00:00:00.000Z',
+});
+
+describe('review queue', () => {
+  const queue = [
+    item('a', 'CHECKCARD 0105 JOES GARAGE LLC SEATTLE WA'),
+    item('b', 'CHECKCARD 0112 JOES GARAGE LLC SEATTLE WA'),
+    item('c', 'CHECKCARD 0113 ACME WIDGETS PORTLAND OR'),
+  ];
+  const history = [
+    ...queue,
+    { ...item('h1', 'CHECKCARD 1201 JOES GARAGE LLC SEATTLE', 'Transportation', 0.95, '2024-12-01'), subcategory: 'Parking' },
+    item('h2', 'CHECKCARD 1115 JOES GARAGE LLC SEATTLE', 'Shopping', 0.9, '2024-11-15'),
+    item('h3', 'CHECKCARD 1020 JOES GARAGE LLC SEATTLE', 'Transportation', 0.9, '2024-10-20'),
+    item('h4', 'CHECKCARD 1002 JOES GARAGE LLC SEATTLE', 'Shopping', 0.6, '2024-10-02'),
+  ];
+
+  it('should select uncategorized and low-confidence transactions', () => {
+    expect(needsReview({ category: 'Uncategorized', confidence: 0.95 })).toBe(true);
+    expect(needsReview({ category: 'Shopping', confidence: 0.69 })).toBe(true);
+    expect(needsReview({ category: 'Shopping', confidence: null })).toBe(true);
+    expect(needsReview({ category: 'Shopping', confidence: 0.7 })).toBe(false);
+    expect(needsReview({ category: 'Shopping', confidence: 0.7 }, 0.8)).toBe(true);
+  });
+
+  it('should find categorized transactions from the same merchant and suggest the most common category', () => {
+    const similar = findSimilarTransactions(queue[0]!, history);
+
+    expect(similar.map((s) => s.id)).toEqual(['h1', 'h2', 'h3']);
+    expect(suggestDecision(similar)).toEqual({ category: 'Transportation', subcategory: 'Parking' });
+    expect(findSimilarTransactions(queue[2]!, history)).toEqual([]);
+    expect(suggestDecision([])).toBeNull();
+  });
+
+  it('should group queued items by merchant for bulk decisions', () => {
+    expect(sameMerchantItems(queue[0]!, queue).map((q) => q.id)).toEqual(['b']);
+    expect(sameMerchantItems(queue[2]!, queue)).toEqual([]);
+  });
+
+  it('should apply decisions as human overrides', () => {
+    const [decided, untouched] = applyReviewDecisions(queue.slice(0, 2), new Map([['a', { category: 'Pets' as const, subcategory: 'Pet Care' }]]));
+
+    expect(decided).toMatchObject({ category: 'Pets', subcategory: 'Pet Care', confidence: 1, rationale: 'Human override' });
+    expect(needsReview(decided!)).toBe(false);
+    expect(untouched).toBe(queue[1]);
+  });
+
+  it('should parse category answers by number, name or unique prefix', () => {
+    expect(parseCategoryAnswer('4')).toBe('Transportation');
+    expect(parseCategoryAnswer(' food & dining ')).toBe('Food & Dining');
+    expect(parseCategoryAnswer('shop')).toBe('Shopping');
+    expect(parseCategoryAnswer('trans')).toBeNull();
+    expect(parseCategoryAnswer('20')).toBeNull();
+    expect(parseCategoryAnswer('uncategorized')).toBeNull();
+    expect(subcategoryChoices('Food & Dining')).toContain('Groceries');
+  });
+});
+
+describe('reviewItemsFromResult', () => {
+  it('should read v2 accounts and v1 statements', () => {
+    const transaction = {
+      date: '2025-01-15',
+      description: 'CHECKCARD 0114 JOES GARAGE LLC',
+      merchant: { name: 'Joes Garage' },
+      amount: -50,
+      direction: 'debit',
+      category: 'Uncategorized',
+      subcategory: null,
+      confidence: 0.5,
+    };
+    const account = { accountType: 'checking', accountNumberMasked: '****1234' };
+
+    const [v2] = reviewItemsFromResult({ accounts: [{ account, transactions: [{ ...transaction, transactionId: 'tx_1' }] }] });
+    const [v1] = reviewItemsFromResult({ statements: [{ account, transactions: [{ ...transaction, merchant: null }] }] });
+
+    expect(v2).toMatchObject({ id: 'tx_1', merchant: 'Joes Garage', account: 'checking ****1234', direction: 'debit', confidence: 0.5 });
+    expect(v1).toMatchObject({ id: '2025-01-15|-50|CHECKCARD 0114 JOES GARAGE LLC', merchant: null });
+    expect(() => reviewItemsFromResult({ transactions: [] })).toThrow('expected an "accounts" or "statements" array');
+  });
+
+  it('should give v1 transactions the ids the v2 adapter gives them, whatever the statement order', () => {
+    const statement = (start: string, end: string, description: string): ParsedStatement => ({
+      account: {
+        institution: 'Bank of America',
+        accountType: 'checking',
+        accountNumberMasked: '****1234',
+        statementPeriod: { start, end },
+        currency: 'USD',
+      },
+      summary: { startingBalance: 100, endingBalance: 50, totalCredits: 0, totalDebits: 50 },
+      transactions: [{
+        date: start,
+        postedDate: null,
+        description,
+        merchant: null,
+        amount: -50,
+        direction: 'debit',
+        category: 'Uncategorized',
+        subcategory: null,
+        confidence: 0.5,
+        raw: { originalText: description, page: 1 },
+      }],
+      metadata: { parserVersion: '1.0.0', parsedAt: '2025-03-01T00:00:00.000Z', warnings: [] },
+    });
+    const statements = [statement('2025-01-01', '2025-01-31', 'JOES GARAGE'), statement('2025-02-01', '2025-02-28', 'JOES GARAGE')];
+    const canonical = { statements, totalStatements: 2, totalTransactions: 2 };
+
+    const v2Ids = toFinalResultV2(canonical).accounts[0]!.transactions.map((t) => t.transactionId);
+    const v1Ids = reviewItemsFromResult(toFinalResultV1(canonical)).map((i) => i.id);
+    const mergedIds = reviewItemsFromResult(toFinalResultV1({ ...canonical, statements: [...statements].reverse() })).map((i) => i.id);
+
+    expect(v1Ids).toEqual(v2Ids);
+    expect(new Set(v1Ids).size).toBe(2);
+    expect(mergedIds).toEqual([...v1Ids].reverse());
+  });
+});
+
+describe('overrides sidecar file', () => {
+  it('should sit next to the result file', () => {
+    expect(overridesSidecarPath('/data/result.json')).toBe('/data/result.overrides.json');
+    expect(overridesSidecarPath('/data/result')).toBe('/data/result.overrides.json');
+  });
+
+  it('should save decisions, replacing earlier ones for the same transaction', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'findata-review-'));
+    const file = join(dir, 'result.overrides.json');
+    try {
+      expect(await loadOverridesSidecar(file)).toEqual([]);
+
+      await saveOverridesSidecar(file, [override('tx_1', 'Shopping'), override('tx_2', 'Shopping')]);
+      await saveOverridesSidecar(file, [override('tx_1', 'Transportation')]);
+
+      expect((await loadOverridesSidecar(file)).map((o) => [o.transactionId, o.category])).toEqual([
+        ['tx_1', 'Transportation'],
+        ['tx_2', 'Shopping'],
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should name the file and override when it is invalid', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'findata-review-'));
+    const file = join(dir, 'result.overrides.json');
+    try {
+      await writeFile(file, JSON.stringify({ overrides: [{ transactionId: 'tx_1', category: 'Cars' }] }));
+      await expect(loadOverridesSidecar(file)).rejects.toThrow(`Invalid overrides file ${file}: Override 1: "category" must be one of`);
+      await expect(saveOverridesSidecar(file, [])).rejects.toThrow('Invalid overrides file');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
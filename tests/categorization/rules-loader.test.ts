@@ -0,0 +1,153 @@
+/**
+ * Tests for user rules files (parseCategoryRules / applyCategoryRules) and
+ * their merge with the built-in rules.
+ */
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  applyCategoryRules,
+  categorizeWithRules,
+  loadCategoryRules,
+  mergeCategoryRules,
+  parseCategoryRules,
+} from '@findata/categorizer';
+import { HybridCategorizer } from '@findata/categorizer-ml';
+import { extractInstitutionChannel } from '@findata/boa-parser';
+import type { ChannelType, ParsedStatement } from '@findata/types';
+
+const statement = (transactions: Array<{ description: string; amount: number }>): ParsedStatement => ({
+  account: {
+    institution: 'Bank of America',
+    accountType: 'checking',
+    accountNumberMasked: '****1234',
+    statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+    currency: 'USD',
+  },
+  summary: { startingBalance: 0, endingBalance: 0, totalCredits: 0, totalDebits: 0 },
+  transactions: transactions.map((tx) => ({
+    date: '2025-01-15',
+    postedDate: null,
+    description: tx.description,
+    merchant: null,
+    amount: tx.amount,
+    direction: tx.amount < 0 ? 'debit' : 'credit',
+    category: 'Uncategorized',
+    subcategory: null,
+    confidence: 0.5,
+    raw: { originalText: tx.description, page: 1 },
+  })),
+  metadata: { parserVersion: '1.0.0', parsedAt: '2025-02-01T00:00:00.000Z', warnings: [] },
+});
+
+describe('parseCategoryRules', () => {
+  it('should compile patterns and fill in defaults', () => {
+    const [rule] = parseCategoryRules({
+      rules: [{ id: 'rent', patterns: ['acme properties'], category: 'Housing', subcategory: 'Rent' }],
+    });
+
+    expect(rule).toMatchObject({ id: 'rent', priority: 0, confidence: 0.95, category: 'Housing', subcategory: 'Rent' });
+    expect(rule?.patterns[0]?.test('ZELLE TO ACME PROPERTIES')).toBe(true);
+  });
+
+  it('should reject invalid rules with the rule id in the message', () => {
+    const base = { id: 'r1', patterns: ['x'], category: 'Housing' };
+
+    expect(() => parseCategoryRules([])).toThrow('must be an object with a "rules" array');
+    expect(() => parseCategoryRules({ rules: [{ ...base, category: 'Rent' }] })).toThrow('Rule "r1": "category" must be one of');
+    expect(() => parseCategoryRules({ rules: [{ ...base, patterns: ['('] }] })).toThrow('Rule "r1": invalid pattern in "patterns"');
+    expect(() => parseCategoryRules({ rules: [{ ...base, amount: 5 }] })).toThrow('Rule "r1": unknown field "amount"');
+    expect(() => parseCategoryRules({ rules: [{ ...base, amountRange: { min: 10, max: 5 } }] })).toThrow('"amountRange.min" is greater');
+    expect(() => parseCategoryRules({ rules: [{ ...base, direction: 'out' }] })).toThrow('"direction" must be "debit" or "credit"');
+    expect(() => parseCategoryRules({ rules: [{ ...base, accountNumbers: ['****1234'] }] })).toThrow('last four digits');
+    expect(() => parseCategoryRules({ rules: [base, base] })).toThrow('Rule "r1" is defined more than once');
+    expect(() => parseCategoryRules({ rules: [{ patterns: ['x'] }] })).toThrow('Rule 1: "id" must be a non-empty string');
+  });
+
+  it('should name the file when loading fails', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'findata-rules-'));
+    try {
+      await writeFile(join(dir, 'rules.json'), '{"rules": [');
+      await expect(loadCategoryRules(join(dir, 'rules.json'))).rejects.toThrow(`Invalid rules file ${join(dir, 'rules.json')}`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('user rules', () => {
+  const userRules = parseCategoryRules({
+    rules: [
+      {
+        id: 'rent-landlord',
+        patterns: ['zelle.*acme properties'],
+        category: 'Housing',
+        subcategory: 'Rent',
+        amountRange: { min: 1500, max: 2500 },
+        direction: 'debit',
+        accountNumbers: ['1234'],
+      },
+      { id: 'food-coffee', priority: 1000, patterns: ['blue bottle'], category: 'Food & Dining', subcategory: 'Restaurants' },
+      { id: 'income-payroll', priority: 100, patterns: ['payroll'], category: 'Income', subcategory: 'Salary', confidence: 0.99 },
+    ],
+  });
+
+  it('should order user rules among the built-in rules by priority', () => {
+    const merged = mergeCategoryRules(userRules);
+
+    expect(merged[0]?.id).toBe('rent-landlord');
+    expect(merged.filter((r) => r.id === 'income-payroll')).toEqual([userRules[2]]);
+    expect(categorizeWithRules(merged, 'PAYROLL ACME').confidence).toBe(0.99);
+  });
+
+  it('should only match when the amount, direction and account filters match', () => {
+    const merged = mergeCategoryRules(userRules);
+    const context = { amount: -1800, direction: 'debit' as const, accountNumberMasked: '****1234' };
+
+    expect(categorizeWithRules(merged, 'Zelle payment to ACME PROPERTIES', undefined, context).ruleId).toBe('rent-landlord');
+    expect(categorizeWithRules(merged, 'Zelle payment to ACME PROPERTIES', undefined, { ...context, amount: -80 }).ruleId).not.toBe('rent-landlord');
+    expect(categorizeWithRules(merged, 'Zelle payment to ACME PROPERTIES', undefined, { ...context, accountNumberMasked: '****9999' }).ruleId).not.toBe('rent-landlord');
+    expect(categorizeWithRules(merged, 'Zelle payment to ACME PROPERTIES').ruleId).not.toBe('rent-landlord');
+  });
+
+  it('should re-categorize parsed transactions only where a user rule wins', () => {
+    const stmt = statement([
+      { description: 'Zelle payment to ACME PROPERTIES Conf# 1', amount: -1800 },
+      { description: 'BLUE BOTTLE #12', amount: -6 },
+      // Built-in food-restaurant (priority 502) comes before the user rule (1000)
+      { description: 'BLUE BOTTLE COFFEE', amount: -5 },
+    ]);
+
+    const matched = applyCategoryRules([stmt], userRules);
+
+    expect(matched).toBe(2);
+    expect(stmt.transactions.map((t) => [t.category, t.subcategory])).toEqual([
+      ['Housing', 'Rent'],
+      ['Food & Dining', 'Restaurants'],
+      ['Uncategorized', null],
+    ]);
+  });
+
+  it('should give channelOf the statement of each transaction', () => {
+    const [roundUps] = parseCategoryRules({
+      rules: [{ id: 'round-ups', patterns: ['round up'], channelTypes: ['ONLINE_BANKING_TRANSFER'], category: 'Transfer' }],
+    });
+    const chime = statement([{ description: 'Round Up Transfer', amount: -0.35 }]);
+    chime.account = { ...chime.account, institution: 'Chime', institutionId: 'chime' };
+    const boa = statement([{ description: 'Round Up Transfer', amount: -0.35 }]);
+    const channelOf = (description: string, stmt: ParsedStatement): ChannelType =>
+      extractInstitutionChannel(description, stmt.account.institutionId).type;
+
+    expect(applyCategoryRules([chime, boa], [roundUps!], { channelOf })).toBe(1);
+    expect(chime.transactions[0]?.category).toBe('Transfer');
+    expect(boa.transactions[0]?.category).toBe('Uncategorized');
+  });
+
+  it('should apply user rules in HybridCategorizer', () => {
+    const categorizer = new HybridCategorizer({ rules: userRules });
+
+    expect(categorizer.categorize('BLUE BOTTLE #12').ruleId).toBe('food-coffee');
+    expect(new HybridCategorizer().categorize('BLUE BOTTLE #12').category).toBe('Uncategorized');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Tests for the OCR fallback on scanned (image-only) PDF pages.
+ */
+import { describe, it, expect } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import {
+  ocrLinesToTextItems,
+  extractTextItemsFromBuffer,
+  groupByRows,
+  detectColumnsFromHeader,
+  type OcrLine,
+  type OcrWord,
+  type ExtractedPDF,
+} from '@findata/pdf-extract';
+import { applyOcrConfidence, OCR_MAX_CONFIDENCE } from '@findata/boa-parser';
+import type { ParsedStatement } from '@findata/types';
+
+// Rendered at 300 DPI: 300 / 72 image pixels per PDF unit
+const SCALE = 300 / 72;
+
+const word = (text: string, x0: number, x1: number, top: number, confidence = 95): OcrWord => ({
+  text,
+  confidence,
+  bbox: { x0, y0: top, x1, y1: top + 50 },
+});
+
+const line = (baselineY: number, words: OcrWord[]): OcrLine => ({
+  words,
+  baseline: { x0: words[0]?.bbox.x0 ?? 0, y0: baselineY, x1: words[words.length - 1]?.bbox.x1 ?? 0, y1: baselineY },
+});
+
+describe('ocrLinesToTextItems', () => {
+  it('should join nearby words into phrases and split at column gaps', () => {
+    const items = ocrLinesToTextItems(
+      [
+        line(1000, [
+          word('01/03/25', 204, 448, 955),
+          word('PAYROLL', 604, 868, 955),
+          word('ACME', 888, 1064, 955),
+          word('CORP', 1090, 1254, 955, 80),
+          word('2,500.00', 2004, 2246, 955),
+        ]),
+      ],
+      1,
+      792,
+      SCALE
+    );
+
+    expect(items.map((item) => item.str)).toEqual(['01/03/25', 'PAYROLL ACME CORP', '2,500.00']);
+    expect(items[1]?.x).toBeCloseTo(604 / SCALE, 5);
+    expect(items[1]?.width).toBeCloseTo((1254 - 604) / SCALE, 5);
+    expect(items[1]?.ocrConfidence).toBe(0.9);
+    expect(items[0]?.page).toBe(1);
+  });
+
+  it('should convert image rows to PDF coordinates with the origin at the bottom', () => {
+    const items = ocrLinesToTextItems(
+      [
+        line(900, [word('Date', 204, 330, 855), word('Amount', 2000, 2222, 855)]),
+        line(1000, [word('01/03/25', 204, 448, 955), word('2,500.00', 2004, 2246, 955)]),
+      ],
+      2,
+      792,
+      SCALE
+    );
+
+    expect(items[0]?.y).toBeCloseTo(792 - 900 / SCALE, 5);
+    expect(items[0]?.y).toBeGreaterThan(items[2]?.y ?? Infinity);
+    expect(items.every((item) => item.page === 2)).toBe(true);
+  });
+
+  it('should keep skewed words on one line in the same row', () => {
+    const skewed: OcrLine = {
+      words: [word('Date', 204, 330, 850), word('Description', 604, 928, 856), word('Amount', 2000, 2222, 866)],
+      baseline: { x0: 204, y0: 896, x1: 2222, y1: 916 },
+    };
+
+    const rows = groupByRows(ocrLinesToTextItems([skewed], 1, 792, SCALE));
+    expect(rows).toHaveLength(1);
+
+    const mapping = detectColumnsFromHeader(rows[0]!);
+    expect([...mapping.byName.keys()]).toEqual(expect.arrayContaining(['date', 'description', 'amount']));
+  });
+
+  it('should skip blank words and empty lines', () => {
+    const items = ocrLinesToTextItems(
+      [line(500, [word(' ', 100, 120, 455)]), line(600, [word('Total', 100, 200, 555), word('', 220, 240, 555)])],
+      1,
+      792,
+      SCALE
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0]?.str).toBe('Total');
+  });
+});
+
+/**
+ * Build a one-page PDF whose only content is a JPEG image of the given lines.
+ */
+function buildImageOnlyPdf(lines: Array<[string, number, number]>): Uint8Array {
+  const width = 1275;
+  const height = 1650;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = 'black';
+  ctx.font = '28px sans-serif';
+  for (const [text, x, y] of lines) {
+    ctx.fillText(text, x, y);
+  }
+  const jpeg = canvas.toBuffer('image/jpeg');
+
+  const content = 'q 612 0 0 792 0 0 cm /Im0 Do Q';
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+    Buffer.from('<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>'),
+    Buffer.from(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`),
+    Buffer.concat([
+      Buffer.from(`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`),
+      jpeg,
+      Buffer.from('\nendstream'),
+    ]),
+  ];
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  const offsets: number[] = [];
+  let length = chunks[0]!.length;
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    offsets.push(length);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  chunks.push(Buffer.from(
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`
+  ));
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+describe('extractTextItemsFromBuffer OCR fallback', () => {
+  // pdfjs takes ownership of the buffer it parses, so each test gets a copy
+  const scannedPdf = buildImageOnlyPdf([
+    ['Date', 100, 450],
+    ['Description', 300, 450],
+    ['Amount', 1000, 450],
+    ['01/03/25', 100, 500],
+    ['PAYROLL ACME CORP DES:DIRECT DEP', 300, 500],
+    ['2,500.00', 1000, 500],
+  ]);
+
+  it('should read image-only pages with OCR', async () => {
+    const result = await extractTextItemsFromBuffer(scannedPdf.slice());
+
+    expect(result.ocrPages).toHaveLength(1);
+    expect(result.ocrPages[0]?.page).toBe(1);
+    expect(result.ocrPages[0]?.confidence).toBeGreaterThan(0.5);
+
+    const rows = groupByRows(result.items).map((row) => row.items.map((item) => item.str));
+    expect(rows).toContainEqual(['Date', 'Description', 'Amount']);
+    expect(rows).toContainEqual(['01/03/25', 'PAYROLL ACME CORP DES:DIRECT DEP', '2,500.00']);
+    expect(result.items.every((item) => item.ocrConfidence !== undefined)).toBe(true);
+  }, 60_000);
+
+  it('should leave image-only pages empty when OCR is disabled', async () => {
+    const result = await extractTextItemsFromBuffer(scannedPdf.slice(), { ocr: false });
+
+    expect(result.items).toHaveLength(0);
+    expect(result.ocrPages).toHaveLength(0);
+  });
+});
+
+describe('applyOcrConfidence', () => {
+  const createStatement = (): ParsedStatement => ({
+    account: {
+      institution: 'Bank of America',
+      accountType: 'checking',
+      accountNumberMasked: '****9012',
+      statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+      currency: 'USD',
+    },
+    summary: { startingBalance: 100, endingBalance: 2594.25, totalCredits: 2500, totalDebits: 5.75 },
+    transactions: [
+      {
+        date: '2025-01-03',
+        postedDate: null,
+        description: 'PAYROLL ACME CORP DES:DIRECT DEP',
+        merchant: 'ACME CORP',
+        amount: 2500,
+        direction: 'credit',
+        category: 'Income',
+        subcategory: 'Salary',
+        confidence: 0.95,
+        raw: { originalText: '01/03/25 PAYROLL ACME CORP DES:DIRECT DEP 2,500.00', page: 1 },
+      },
+      {
+        date: '2025-01-05',
+        postedDate: null,
+        description: 'CHECKCARD 0105 STARBUCKS STORE 123',
+        merchant: 'STARBUCKS',
+        amount: -5.75,
+        direction: 'debit',
+        category: 'Food & Dining',
+        subcategory: 'Coffee',
+        confidence: 0.9,
+        raw: { originalText: '01/05/25 CHECKCARD 0105 STARBUCKS STORE 123 -5.75', page: 2 },
+      },
+    ],
+    metadata: { parserVersion: '1.0.0', parsedAt: '2025-02-01T00:00:00.000Z', warnings: [] },
+  });
+
+  const createPdf = (ocrConfidence?: number): ExtractedPDF => ({
+    pages: [
+      { pageNumber: 1, text: '', lines: [], ...(ocrConfidence !== undefined ? { ocrConfidence } : {}) },
+      { pageNumber: 2, text: '', lines: [] },
+    ],
+    fullText: '',
+    totalPages: 2,
+    metadata: {},
+  });
+
+  it('should cap the confidence of transactions on OCR pages', () => {
+    const statement = applyOcrConfidence(createStatement(), createPdf(0.9));
+
+    expect(statement.transactions[0]?.confidence).toBe(0.54);
+    expect(statement.transactions[1]?.confidence).toBe(0.9);
+    expect(statement.metadata.warnings).toEqual([
+      'Transactions on scanned page(s) 1 were read with OCR; verify dates and amounts',
+    ]);
+    expect(OCR_MAX_CONFIDENCE).toBe(0.6);
+  });
+
+  it('should be idempotent', () => {
+    const once = applyOcrConfidence(createStatement(), createPdf(0.9));
+    const twice = applyOcrConfidence(once, createPdf(0.9));
+
+    expect(twice.transactions.map((t) => t.confidence)).toEqual([0.54, 0.9]);
+    expect(twice.metadata.warnings).toHaveLength(1);
+  });
+
+  it('should return statements from text-layer PDFs unchanged', () => {
+    const statement = createStatement();
+    expect(applyOcrConfidence(statement, createPdf())).toBe(statement);
+  });
+});
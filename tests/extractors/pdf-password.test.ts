@@ -0,0 +1,258 @@
+/**
+ * Tests for opening password-protected (encrypted) PDFs.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  extractPDF,
+  extractTextItemsFromBuffer,
+  isPdfPasswordError,
+  PdfPasswordError,
+} from '@findata/pdf-extract';
+import { createParserRegistry, processBatch, parsePdfPasswordConfig, ParseCache } from '@findata/boa-parser';
+
+const PASSWORD_PAD = Buffer.from(
+  '28BF4E5E4E758A4164004E56FFFA01082E2E00B6D0683E802F0CA9FE6453697A',
+  'hex'
+);
+
+function rc4(key: Buffer, data: Buffer): Buffer {
+  const s = Array.from({ length: 256 }, (_, i) => i);
+  let j = 0;
+  for (let i = 0; i < 256; i++) {
+    j = (j + s[i]! + key[i % key.length]!) % 256;
+    [s[i], s[j]] = [s[j]!, s[i]!];
+  }
+  const out = Buffer.alloc(data.length);
+  let i = 0;
+  j = 0;
+  for (let n = 0; n < data.length; n++) {
+    i = (i + 1) % 256;
+    j = (j + s[i]!) % 256;
+    [s[i], s[j]] = [s[j]!, s[i]!];
+    out[n] = data[n]! ^ s[(s[i]! + s[j]!) % 256]!;
+  }
+  return out;
+}
+
+const md5 = (...parts: Buffer[]): Buffer => createHash('md5').update(Buffer.concat(parts)).digest();
+const padPassword = (password: string): Buffer =>
+  Buffer.concat([Buffer.from(password, 'latin1'), PASSWORD_PAD]).subarray(0, 32);
+
+/**
+ * Build a one-page PDF encrypted with the standard security handler
+ * (revision 2, 40-bit RC4) that opens with `userPassword`.
+ */
+function buildEncryptedPdf(text: string, userPassword: string): Uint8Array {
+  const fileId = md5(Buffer.from(text));
+  const permissions = Buffer.alloc(4);
+  permissions.writeInt32LE(-44);
+
+  const ownerEntry = rc4(md5(padPassword('owner-secret')).subarray(0, 5), padPassword(userPassword));
+  const fileKey = md5(padPassword(userPassword), ownerEntry, permissions, fileId).subarray(0, 5);
+  const userEntry = rc4(fileKey, PASSWORD_PAD);
+
+  const content = Buffer.from(`BT /F1 12 Tf 72 700 Td (${text}) Tj ET`);
+  const objectKey = md5(fileKey, Buffer.from([4, 0, 0, 0, 0])).subarray(0, 10);
+  const encryptedContent = rc4(objectKey, content);
+
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+    Buffer.from('<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>'),
+    Buffer.concat([
+      Buffer.from(`<< /Length ${encryptedContent.length} >>\nstream\n`),
+      encryptedContent,
+      Buffer.from('\nendstream'),
+    ]),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'),
+    Buffer.from(`<< /Filter /Standard /V 1 /R 2 /O <${ownerEntry.toString('hex')}> /U <${userEntry.toString('hex')}> /P -44 >>`),
+  ];
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  const offsets: number[] = [];
+  let length = chunks[0]!.length;
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    offsets.push(length);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  const id = fileId.toString('hex');
+  chunks.push(Buffer.from(
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${xref}` +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Encrypt 6 0 R /ID [<${id}> <${id}>] >>\n` +
+    `startxref\n${length}\n%%EOF\n`
+  ));
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+describe('encrypted PDF extraction', () => {
+  const encrypted = buildEncryptedPdf('Beginning balance on January 1, 2025', '1234');
+
+  it('should open an encrypted PDF with the right password', async () => {
+    const result = await extractTextItemsFromBuffer(encrypted, { password: '1234', ocr: false });
+
+    expect(result.items.map((item) => item.str).join(' ')).toContain('Beginning balance on January 1, 2025');
+  });
+
+  it('should try each password in order', async () => {
+    const result = await extractTextItemsFromBuffer(encrypted, { passwords: ['0000', '9999', '1234'], ocr: false });
+
+    expect(result.items.length).toBeGreaterThan(0);
+  });
+
+  it('should throw PdfPasswordError when no password is given', async () => {
+    const error: unknown = await extractTextItemsFromBuffer(encrypted, { ocr: false }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PdfPasswordError);
+    expect(isPdfPasswordError(error) && error.reason).toBe('missing');
+  });
+
+  it('should throw PdfPasswordError when every password is wrong', async () => {
+    const error: unknown = await extractTextItemsFromBuffer(encrypted, { passwords: ['0000'], ocr: false }).catch((e: unknown) => e);
+
+    expect(isPdfPasswordError(error) && error.reason).toBe('incorrect');
+  });
+
+  it('should ask onPassword after the known passwords fail', async () => {
+    const reasons: string[] = [];
+    const answers = ['5678', '1234'];
+
+    const result = await extractTextItemsFromBuffer(encrypted, {
+      passwords: ['0000'],
+      ocr: false,
+      onPassword: (reason) => {
+        reasons.push(reason);
+        return Promise.resolve(answers.shift() ?? null);
+      },
+    });
+
+    expect(result.items.length).toBeGreaterThan(0);
+    expect(reasons).toEqual(['incorrect', 'incorrect']);
+  });
+
+  it('should leave the caller buffer usable', async () => {
+    const copy = encrypted.slice();
+    await extractTextItemsFromBuffer(copy, { password: '1234', ocr: false });
+
+    expect(copy.byteLength).toBe(encrypted.byteLength);
+  });
+});
+
+describe('processBatch with encrypted PDFs', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'findata-encrypted-'));
+    await writeFile(join(dir, 'locked.pdf'), buildEncryptedPdf('Statement text', '1234'));
+    await writeFile(join(dir, 'broken.pdf'), 'not a pdf');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const files = (): Array<{ filePath: string; fileName: string; size: number }> => [
+    { filePath: join(dir, 'broken.pdf'), fileName: 'broken.pdf', size: 9 },
+    { filePath: join(dir, 'locked.pdf'), fileName: 'locked.pdf', size: 1 },
+  ];
+
+  it('should report encrypted files separately from parse errors', async () => {
+    const encryptedNames: string[] = [];
+    const result = await processBatch(files(), {
+      ocr: false,
+      onEncrypted: (error) => encryptedNames.push(error.filename),
+    });
+
+    expect(result.summary.pdfsFailed).toBe(1);
+    expect(result.summary.pdfsEncrypted).toBe(1);
+    expect(result.parseErrors.map((e) => e.filename)).toEqual(['broken.pdf']);
+    expect(result.encryptedFiles[0]?.error).toBe('PDF is password-protected and no password was provided');
+    expect(encryptedNames).toEqual(['locked.pdf']);
+  });
+
+  it('should open encrypted files with a per-file password', async () => {
+    const result = await processBatch(files(), { ocr: false, passwordMap: { 'locked.pdf': '1234' } });
+
+    // Unlocked, the file now reaches the parsers (and fails there: it is not a statement)
+    expect(result.summary.pdfsEncrypted).toBe(0);
+    expect(result.parseErrors.map((e) => e.filename)).toEqual(['broken.pdf', 'locked.pdf']);
+    expect(result.parseErrors[1]?.error).toMatch(/No registered institution parser/);
+  });
+
+  it('should relay password prompts from worker threads', async () => {
+    const asked: string[] = [];
+    const result = await processBatch(files(), {
+      ocr: false,
+      concurrency: 2,
+      onPassword: (fileName) => {
+        asked.push(fileName);
+        return Promise.resolve('1234');
+      },
+    });
+
+    expect(asked).toEqual(['locked.pdf']);
+    expect(result.summary.pdfsEncrypted).toBe(0);
+    expect(result.parseErrors.map((e) => e.filename)).toEqual(['broken.pdf', 'locked.pdf']);
+  }, 120_000);
+
+  it('should open encrypted files with extractPDF and a password list', async () => {
+    const pdf = await extractPDF(join(dir, 'locked.pdf'), { passwords: ['1111', '1234'], ocr: false });
+
+    expect(pdf.fullText).toContain('Statement text');
+    expect(pdf.encrypted).toBe(true);
+  });
+
+  it('should keep decrypted contents out of the parse cache', async () => {
+    const registry = createParserRegistry();
+    registry.register({
+      id: 'stub',
+      institution: 'Stub Bank',
+      detect: (pdf) => (pdf.fullText.includes('Statement text') ? 1 : 0),
+      parse: () => [{
+        account: {
+          institution: 'Stub Bank',
+          accountType: 'checking',
+          accountNumberMasked: '****1234',
+          statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+          currency: 'USD',
+        },
+        summary: { startingBalance: 0, endingBalance: 0, totalCredits: 0, totalDebits: 0 },
+        transactions: [],
+        metadata: { parserVersion: '1.0.0', parsedAt: '2025-02-01T00:00:00.000Z', warnings: [] },
+      }],
+    });
+    const cacheDir = join(dir, 'cache');
+    const result = await processBatch(files().slice(1), {
+      ocr: false,
+      registry,
+      cache: new ParseCache(cacheDir),
+      passwordMap: { 'locked.pdf': '1234' },
+    });
+
+    expect(result.summary.pdfsByParser).toEqual({ stub: 1 });
+    expect(await readdir(cacheDir).catch(() => [])).toEqual([]);
+  });
+});
+
+describe('parsePdfPasswordConfig', () => {
+  it('should read per-file passwords and a password list', () => {
+    expect(parsePdfPasswordConfig({ files: { 'jan.pdf': '1234' }, passwords: ['5678'] })).toEqual({
+      files: { 'jan.pdf': '1234' },
+      passwords: ['5678'],
+    });
+    expect(parsePdfPasswordConfig({ passwords: ['5678'] })).toEqual({ files: {}, passwords: ['5678'] });
+  });
+
+  it('should reject malformed password files', () => {
+    expect(() => parsePdfPasswordConfig(['1234'])).toThrow(/must be an object/);
+    expect(() => parsePdfPasswordConfig({ files: { 'jan.pdf': 1234 } })).toThrow(/jan.pdf must be a string/);
+    expect(() => parsePdfPasswordConfig({ passwords: '1234' })).toThrow(/array of strings/);
+  });
+});
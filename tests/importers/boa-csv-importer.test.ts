@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { importBoaCsv, detectBoaCsv, importStatements } from '@findata/boa-parser';
+import { ParsedStatementSchema } from '@findata/types';
+
+const CHECKING_CSV = `Description,,Summary Amt.
+Beginning balance as of 01/01/2025,,"1,000.00"
+Total credits,,"1,200.00"
+Total debits,,"-50.00"
+Ending balance as of 01/31/2025,,"2,150.00"
+
+Date,Description,Amount,Running Bal.
+01/01/2025,Beginning balance as of 01/01/2025,,"1,000.00"
+01/15/2025,"ACME CORP DES:PAYROLL ID:1234","1,200.00","2,200.00"
+01/20/2025,"CHECKCARD 0120 AMAZON MKTPLACE, SEATTLE","-50.00","2,150.00"
+`;
+
+const CREDIT_CSV = `Posted Date,Reference Number,Payee,Address,Amount
+01/10/2025,24692165010100012345678,"WHOLE FOODS MARKET #123","AUSTIN TX ","-120.00"
+01/25/2025,24692165025100087654321,"PAYMENT - THANK YOU","","300.00"
+`;
+
+describe('boa-csv-importer', () => {
+  it('should detect deposit and credit card layouts', () => {
+    expect(detectBoaCsv(CHECKING_CSV)).toBe('deposit');
+    expect(detectBoaCsv(CREDIT_CSV)).toBe('credit');
+    expect(detectBoaCsv('Date,Amount\n01/01/2025,1.00')).toBeNull();
+  });
+
+  it('should import a checking download with summary balances and period', () => {
+    const [statement] = importBoaCsv(CHECKING_CSV, { accountNumber: '1234563529' });
+
+    expect(statement?.account).toMatchObject({
+      institution: 'Bank of America',
+      institutionId: 'boa',
+      accountType: 'checking',
+      accountNumberMasked: '****3529',
+      statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+    });
+    expect(statement?.summary).toEqual({
+      startingBalance: 1000,
+      endingBalance: 2150,
+      totalCredits: 1200,
+      totalDebits: 50,
+    });
+    expect(statement?.transactions.map((t) => [t.date, t.description, t.amount, t.direction])).toEqual([
+      ['2025-01-15', 'ACME CORP DES:PAYROLL ID:1234', 1200, 'credit'],
+      ['2025-01-20', 'CHECKCARD 0120 AMAZON MKTPLACE, SEATTLE', -50, 'debit'],
+    ]);
+    expect(ParsedStatementSchema.safeParse(statement).success).toBe(true);
+  });
+
+  it('should import a credit card download with the account from the file name', () => {
+    const [statement] = importBoaCsv(CREDIT_CSV, { fileName: 'January2025_8812.csv' });
+
+    expect(statement?.account.accountType).toBe('credit');
+    expect(statement?.account.accountNumberMasked).toBe('****8812');
+    expect(statement?.account.statementPeriod).toEqual({ start: '2025-01-10', end: '2025-01-25' });
+    expect(statement?.transactions.map((t) => [t.description, t.amount, t.direction])).toEqual([
+      ['WHOLE FOODS MARKET #123', -120, 'debit'],
+      ['PAYMENT - THANK YOU', 300, 'credit'],
+    ]);
+    expect(statement?.metadata.warnings).toContain('No balances in import file; summary reflects period activity only');
+  });
+
+  it('should warn when no account number is available', () => {
+    const { format, statements } = importStatements(CHECKING_CSV, 'stmt.csv', { accountType: 'savings' });
+
+    expect(format).toBe('boa-csv');
+    expect(statements[0]?.account.accountType).toBe('savings');
+    expect(statements[0]?.account.accountNumberMasked).toBe('****0000');
+    expect(statements[0]?.metadata.warnings.some((w) => w.includes('Account number not found'))).toBe(true);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { importOfx, parseOfxDocument, importStatements, processBatch, scanDirectoryForStatementFiles } from '@findata/boa-parser';
+import { ParsedStatementSchema } from '@findata/types';
+import { exportOfx, toFinalResultV2 } from '@findata/output';
+
+const SGML_BANK = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<SIGNONMSGSRSV1>
+<SONRS>
+<STATUS>
+<CODE>0
+<SEVERITY>INFO
+</STATUS>
+<DTSERVER>20250201120000[-5:EST]
+<LANGUAGE>ENG
+<FI>
+<ORG>Bank of America
+<FID>5959
+</FI>
+</SONRS>
+</SIGNONMSGSRSV1>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>0
+<STATUS>
+<CODE>0
+<SEVERITY>INFO
+</STATUS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>121000358
+<ACCTID>000123453529
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250101
+<DTEND>20250131
+<STMTTRN>
+<TRNTYPE>DEP
+<DTPOSTED>20250115120000
+<TRNAMT>200.00
+<FITID>20250115001
+<NAME>ACME CORP DES:PAYROLL
+<MEMO>ACME CORP DES:PAYROLL ID:1234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>POS
+<DTPOSTED>20250121
+<DTUSER>20250120
+<TRNAMT>-50.00
+<FITID>20250121002
+<NAME>AMAZON MKTPLACE &amp; CO
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>1150.00
+<DTASOF>20250131
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+const XML_CARD = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+<SIGNONMSGSRSV1>
+<SONRS>
+<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+<DTSERVER>20250205</DTSERVER>
+<LANGUAGE>ENG</LANGUAGE>
+</SONRS>
+</SIGNONMSGSRSV1>
+<CREDITCARDMSGSRSV1>
+<CCSTMTTRNRS>
+<TRNUID>1</TRNUID>
+<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+<CCSTMTRS>
+<CURDEF>USD</CURDEF>
+<CCACCTFROM><ACCTID>4111111111118812</ACCTID></CCACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250105</DTSTART>
+<DTEND>20250204</DTEND>
+<STMTTRN>
+<TRNTYPE>DEBIT</TRNTYPE>
+<DTPOSTED>20250110</DTPOSTED>
+<TRNAMT>-120.00</TRNAMT>
+<FITID>CC001</FITID>
+<NAME>WHOLE FOODS MARKET</NAME>
+<MEMO></MEMO>
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>PAYMENT</TRNTYPE>
+<DTPOSTED>20250125</DTPOSTED>
+<TRNAMT>300.00</TRNAMT>
+<FITID>CC002</FITID>
+<NAME>PAYMENT - THANK YOU</NAME>
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>-320.00</BALAMT><DTASOF>20250204</DTASOF></LEDGERBAL>
+</CCSTMTRS>
+</CCSTMTTRNRS>
+</CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+describe('ofx-importer', () => {
+  describe('parseOfxDocument', () => {
+    it('should parse SGML leaf elements without closing tags', () => {
+      const root = parseOfxDocument(SGML_BANK);
+      const signon = root.children.find((el) => el.name === 'SIGNONMSGSRSV1');
+      const fi = signon?.children[0]?.children.find((el) => el.name === 'FI');
+
+      expect(fi?.children.map((el) => [el.name, el.value])).toEqual([
+        ['ORG', 'Bank of America'],
+        ['FID', '5959'],
+      ]);
+    });
+
+    it('should reject content without an OFX element', () => {
+      expect(() => parseOfxDocument('not ofx')).toThrow('missing <OFX>');
+    });
+  });
+
+  describe('importOfx', () => {
+    it('should import an OFX 1.x bank statement', () => {
+      const [statement] = importOfx(SGML_BANK);
+
+      expect(statement?.account).toMatchObject({
+        institution: 'Bank of America',
+        institutionId: 'boa',
+        routingNumber: '121000358',
+        fid: '5959',
+        accountType: 'checking',
+        accountNumberMasked: '****3529',
+        statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+        currency: 'USD',
+      });
+      expect(statement?.summary).toEqual({
+        startingBalance: 1000,
+        endingBalance: 1150,
+        totalCredits: 200,
+        totalDebits: 50,
+      });
+      expect(ParsedStatementSchema.safeParse(statement).success).toBe(true);
+    });
+
+    it('should map amounts, dates and descriptions', () => {
+      const [statement] = importOfx(SGML_BANK);
+      const [deposit, purchase] = statement?.transactions ?? [];
+
+      expect(deposit).toMatchObject({
+        date: '2025-01-15',
+        postedDate: null,
+        description: 'ACME CORP DES:PAYROLL ID:1234',
+        amount: 200,
+        direction: 'credit',
+      });
+      expect(purchase).toMatchObject({
+        date: '2025-01-20',
+        postedDate: '2025-01-21',
+        description: 'AMAZON MKTPLACE & CO',
+        amount: -50,
+        direction: 'debit',
+      });
+      expect(deposit?.raw.originalText).toContain('FITID:20250115001');
+      expect(deposit?.category).not.toBe('');
+    });
+
+    it('should import an OFX 2.x credit card statement with the balance owed as positive', () => {
+      const [statement] = importOfx(XML_CARD, { institution: 'Chase' });
+
+      expect(statement?.account.accountType).toBe('credit');
+      expect(statement?.account.accountNumberMasked).toBe('****8812');
+      expect(statement?.account.institution).toBe('Chase');
+      expect(statement?.summary).toEqual({
+        startingBalance: 500,
+        endingBalance: 320,
+        totalCredits: 300,
+        totalDebits: 120,
+      });
+      expect(statement?.transactions.map((t) => [t.description, t.amount, t.direction])).toEqual([
+        ['WHOLE FOODS MARKET', -120, 'debit'],
+        ['PAYMENT - THANK YOU', 300, 'credit'],
+      ]);
+    });
+
+    it('should round-trip through the OFX exporter', () => {
+      const statements = importOfx(XML_CARD);
+      const v2 = toFinalResultV2({
+        statements,
+        totalStatements: statements.length,
+        totalTransactions: statements[0]?.transactions.length ?? 0,
+      });
+      const reimported = importOfx(exportOfx(v2));
+
+      expect(reimported[0]?.account.accountType).toBe('credit');
+      expect(reimported[0]?.summary.endingBalance).toBe(320);
+      expect(reimported[0]?.transactions.map((t) => t.amount)).toEqual([-120, 300]);
+    });
+
+    it('should throw when the file has no statements', () => {
+      const empty = '<OFX><SIGNONMSGSRSV1><SONRS></SONRS></SIGNONMSGSRSV1></OFX>';
+      expect(() => importOfx(empty)).toThrow('no bank or credit card statements');
+    });
+  });
+
+  describe('importStatements', () => {
+    it('should report qfx for .qfx files', () => {
+      const result = importStatements(SGML_BANK, 'download.qfx');
+      expect(result.format).toBe('qfx');
+      expect(result.statements).toHaveLength(1);
+    });
+
+    it('should reject unrecognized content', () => {
+      expect(() => importStatements('a,b,c\n1,2,3', 'other.csv')).toThrow('Unrecognized import file');
+    });
+  });
+
+  describe('processBatch', () => {
+    it('should import OFX files and dedupe a statement downloaded twice', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'ofx-batch-'));
+      try {
+        await writeFile(join(dir, 'january.ofx'), SGML_BANK);
+        await writeFile(join(dir, 'january-again.qfx'), SGML_BANK);
+        await writeFile(join(dir, 'card.ofx'), XML_CARD);
+
+        const { files } = await scanDirectoryForStatementFiles(dir);
+        const result = await processBatch(files);
+
+        expect(result.parseErrors).toEqual([]);
+        expect(result.summary.pdfsByParser).toEqual({ ofx: 2, qfx: 1 });
+        expect(result.summary.duplicateStatementsRemoved).toBe(1);
+        expect(result.totalStatements).toBe(2);
+        expect(result.totalTransactions).toBe(4);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { parseBoaStatement } from '@findata/boa-parser';
 import type { ExtractedPDF } from '@findata/pdf-extract';
+import { checkStatementIntegrity } from '@findata/output';
 
 const createMockCheckingPDF = (): ExtractedPDF => ({
   pages: [
@@ -107,7 +108,7 @@ describe('parseBoaStatement integration', () => {
     const pdf = createMockCheckingPDF();
     const result = parseBoaStatement(pdf);
 
-    expect(result.statement.metadata.parserVersion).toBe('1.1.1');
+    expect(result.statement.metadata.parserVersion).toBe('1.2.0');
     expect(result.statement.metadata.parsedAt).toBeTruthy();
     expect(Array.isArray(result.statement.metadata.warnings)).toBe(true);
   });
@@ -133,3 +134,73 @@ describe('parseBoaStatement integration', () => {
     }
   });
 });
+
+const createLedgerPDF = (lines: string[]): ExtractedPDF => {
+  const text = lines.join('\n');
+  return {
+    pages: [{ pageNumber: 1, text, lines }],
+    fullText: text,
+    totalPages: 1,
+    metadata: {},
+  };
+};
+
+describe('parseBoaStatement daily ledger balances', () => {
+  const statementLines = (period: string, ledgerRows: string[]): string[] => [
+    'Bank of America',
+    'Adv Plus Banking',
+    'Account number: 0000 1234 5678',
+    `for ${period}`,
+    'Beginning balance $1,000.00',
+    'Ending balance $1,150.00',
+    'Deposits and other additions',
+    '01/05/24 PAYROLL DIRECT DEP ACME CORP 500.00',
+    'Withdrawals and other subtractions',
+    '01/10/24 STARBUCKS STORE 12345 -50.00',
+    '01/20/24 ATM WITHDRAWAL -300.00',
+    'Daily ledger balances',
+    'Date Balance ($) Date Balance($) Date Balance ($)',
+    ...ledgerRows,
+  ];
+
+  it('should extract the daily ledger balances without reading them as transactions', () => {
+    const pdf = createLedgerPDF(statementLines('January 1, 2024 to January 31, 2024', [
+      '01/05 1,500.00 01/10 1,450.00 01/20 1,150.00',
+    ]));
+    const { statement } = parseBoaStatement(pdf);
+
+    expect(statement.transactions).toHaveLength(3);
+    expect(statement.dailyBalances).toEqual([
+      { date: '2024-01-05', balance: 1500 },
+      { date: '2024-01-10', balance: 1450 },
+      { date: '2024-01-20', balance: 1150 },
+    ]);
+    expect(checkStatementIntegrity(statement).dailyBalanceCheck?.passed).toBe(true);
+  });
+
+  it('should pinpoint the day of a transaction the parser dropped', () => {
+    const pdf = createLedgerPDF(statementLines('January 1, 2024 to January 31, 2024', [
+      '01/05 1,500.00 01/10 1,450.00 01/12 1,425.00',
+      '01/20 1,125.00',
+    ]));
+    const { statement } = parseBoaStatement(pdf);
+
+    const check = checkStatementIntegrity(statement).dailyBalanceCheck;
+    expect(check?.discrepancies.map((d) => [d.date, d.delta])).toEqual([['2024-01-12', -25]]);
+  });
+
+  it('should place December dates in the prior year for periods spanning New Year', () => {
+    const pdf = createLedgerPDF(statementLines('December 15, 2023 to January 14, 2024', [
+      '12/29 1,000.00 01/05 1,500.00 01/10 1,450.00',
+    ]));
+    const { statement } = parseBoaStatement(pdf);
+
+    expect(statement.dailyBalances?.map((d) => d.date)).toEqual(['2023-12-29', '2024-01-05', '2024-01-10']);
+  });
+
+  it('should leave dailyBalances unset when the statement has no ledger table', () => {
+    const { statement } = parseBoaStatement(createMockCheckingPDF());
+
+    expect(statement.dailyBalances).toBeUndefined();
+  });
+});
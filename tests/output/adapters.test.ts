@@ -3,6 +3,7 @@ import {
   toFinalResultV1,
   toFinalResultV2,
   toFinalResult,
+  generateAnalytics,
   type CanonicalOutput,
 } from '@findata/output';
 import type { ParsedStatement } from '@findata/types';
@@ -313,6 +314,160 @@ describe('output adapters', () => {
       expect(result.accounts[0]?.transactions[0]?.amount).toBe(-75.50);
       expect(result.accounts[0]?.transactions[0]?.direction).toBe('debit');
     });
+
+    it('should carry credit details into per-cycle utilization', () => {
+      const creditStatement = (start: string, end: string, endingBalance: number, interestCharged: number): ParsedStatement => {
+        const base = createMockStatement({ summary: { startingBalance: 0, endingBalance, totalCredits: 0, totalDebits: 0 } });
+        return {
+          ...base,
+          account: { ...base.account, accountType: 'credit', statementPeriod: { start, end } },
+          creditDetails: {
+            creditLimit: 5000,
+            availableCredit: 5000 - endingBalance,
+            paymentDueDate: null,
+            minimumPaymentDue: 35,
+            aprs: [{ balanceType: 'Purchases', apr: 21.99, balanceSubjectToInterest: null, interestCharged }],
+            interestCharged,
+            feesCharged: 0,
+            rewards: null,
+            latePaymentWarning: null,
+          },
+        };
+      };
+
+      const result = toFinalResultV2({
+        statements: [
+          creditStatement('2025-02-01', '2025-02-28', 2000, 30.5),
+          creditStatement('2025-01-01', '2025-01-31', 1250, 12.25),
+        ],
+        totalStatements: 2,
+        totalTransactions: 4,
+      });
+
+      const cycles = result.accounts[0]?.creditCycles;
+      expect(cycles?.map((c) => c.statementPeriod.end)).toEqual(['2025-01-31', '2025-02-28']);
+      expect(cycles?.map((c) => c.utilization)).toEqual([0.25, 0.4]);
+      expect(cycles?.map((c) => [c.startingBalance, c.endingBalance])).toEqual([[0, 1250], [0, 2000]]);
+      expect(cycles?.[1]?.interestCharged).toBe(30.5);
+      expect(cycles?.[1]?.statementId).toMatch(/2025-02-01-2025-02-28$/);
+    });
+
+    it('should omit credit cycles for accounts without credit details', () => {
+      const result = toFinalResultV2({
+        statements: [createMockStatement()],
+        totalStatements: 1,
+        totalTransactions: 2,
+      });
+
+      expect(result.accounts[0]).not.toHaveProperty('creditCycles');
+    });
+  });
+
+  describe('multi-currency', () => {
+    const eurStatement = createMockStatement({
+      account: {
+        institution: 'Example Bank',
+        accountType: 'checking',
+        accountNumberMasked: '****9999',
+        statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+        currency: 'EUR',
+      },
+      summary: { startingBalance: 1000, endingBalance: 900, totalCredits: 0, totalDebits: 100 },
+      transactions: [
+        {
+          date: '2025-01-10',
+          postedDate: null,
+          description: 'Rent',
+          merchant: 'Landlord',
+          amount: -100,
+          direction: 'debit',
+          category: 'Housing',
+          subcategory: null,
+          confidence: 0.9,
+          raw: { originalText: 'Rent -100,00', page: 1 },
+        },
+      ],
+    });
+    const canonical: CanonicalOutput = {
+      statements: [createMockStatement(), eurStatement],
+      totalStatements: 2,
+      totalTransactions: 3,
+    };
+
+    it('should leave single-currency analytics unchanged', () => {
+      const analytics = generateAnalytics([createMockStatement()]);
+
+      expect(analytics.currency).toBeUndefined();
+      expect(analytics.byCurrency).toBeUndefined();
+      expect(analytics.incomeVsExpenses.totalIncome).toBe(150);
+    });
+
+    it('should segregate analytics by currency without FX rates', () => {
+      const result = toFinalResultV2(canonical);
+
+      expect(result.analytics.currency).toBe('USD');
+      expect(result.analytics.incomeVsExpenses.totalExpenses).toBe(50);
+      expect(result.analytics.byCurrency?.EUR?.incomeVsExpenses.totalExpenses).toBe(100);
+      expect(Object.keys(result.analytics.byCurrency ?? {})).toEqual(['EUR', 'USD']);
+      // EUR balances are left out of the USD rollup totals, and reported
+      expect(result.startingBalance).toBe(100);
+      expect(result.endingBalance).toBe(200);
+      expect(result.analytics.unconvertedCurrencies).toEqual(['EUR']);
+      expect(result.integrity.summary.warnings).toContain('No FX rate for EUR: left out of the USD totals');
+    });
+
+    it('should report currencies missing from the FX rate table instead of throwing', () => {
+      const gbpStatement = createMockStatement({
+        account: { ...eurStatement.account, accountNumberMasked: '****7777', currency: 'GBP' },
+        summary: { startingBalance: 500, endingBalance: 500, totalCredits: 0, totalDebits: 0 },
+        transactions: [{ ...eurStatement.transactions[0]!, amount: -10 }],
+      });
+      const result = toFinalResultV2(
+        { statements: [...canonical.statements, gbpStatement], totalStatements: 3, totalTransactions: 4 },
+        { fxRates: { EUR: 1.1 } }
+      );
+
+      expect(result.analytics.fxRates).toEqual({ EUR: 1.1 });
+      expect(result.analytics.unconvertedCurrencies).toEqual(['GBP']);
+      expect(Object.keys(result.analytics.byCurrency ?? {})).toEqual(['GBP', 'USD']);
+      expect(result.analytics.incomeVsExpenses.totalExpenses).toBe(160);
+      expect(result.analytics.byCurrency?.GBP?.incomeVsExpenses.totalExpenses).toBe(10);
+      expect(result.endingBalance).toBe(1190);
+      expect(result.integrity.summary.warnings).toContain('No FX rate for GBP: left out of the USD totals');
+    });
+
+    it('should convert into the base currency with FX rates', () => {
+      const result = toFinalResultV2(canonical, { fxRates: { EUR: 1.1 } });
+
+      expect(result.analytics.currency).toBe('USD');
+      expect(result.analytics.fxRates).toEqual({ EUR: 1.1 });
+      expect(result.analytics.byCurrency).toBeUndefined();
+      expect(result.analytics.unconvertedCurrencies).toBeUndefined();
+      expect(result.analytics.incomeVsExpenses.totalExpenses).toBe(160);
+      expect(result.startingBalance).toBe(1200);
+      expect(result.endingBalance).toBe(1190);
+    });
+
+    it('should honour an explicit base currency', () => {
+      const result = toFinalResultV2(canonical, { baseCurrency: 'EUR', fxRates: { USD: 0.5 } });
+
+      expect(result.analytics.currency).toBe('EUR');
+      expect(result.endingBalance).toBe(1000);
+    });
+
+    it('should carry account and transaction currencies into both formats', () => {
+      const withTxnCurrency = createMockStatement();
+      const firstTxn = withTxnCurrency.transactions[0];
+      if (firstTxn !== undefined) firstTxn.currency = 'CAD';
+
+      const v1 = toFinalResultV1({ statements: [withTxnCurrency], totalStatements: 1, totalTransactions: 2 });
+      expect(v1.statements[0]?.account.currency).toBe('USD');
+      expect(v1.statements[0]?.transactions[0]?.currency).toBe('CAD');
+      expect(v1.statements[0]?.transactions[1]).not.toHaveProperty('currency');
+
+      const v2 = toFinalResultV2(canonical);
+      expect(v2.accounts.map((a) => a.account.currency).sort()).toEqual(['EUR', 'USD']);
+    });
   });
 
   describe('toFinalResult', () => {
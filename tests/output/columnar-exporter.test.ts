@@ -0,0 +1,277 @@
+import { describe, it, expect } from 'vitest';
+import { tableFromIPC } from 'apache-arrow';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import {
+  exportParquet,
+  exportArrow,
+  exportColumnarByAccount,
+  TRANSACTION_COLUMNS,
+  COLUMNAR_SCHEMA_VERSION,
+} from '@findata/output';
+import type { FinalResultV2, RecurringDetectionResult } from '@findata/output';
+
+const createMockV2Result = (): FinalResultV2 => ({
+  schemaVersion: 'v2',
+  startingBalance: 1000,
+  endingBalance: 1150,
+  totalStatements: 1,
+  totalTransactions: 2,
+  analytics: {
+    quarterlyCashFlow: [],
+    incomeVsExpenses: {
+      totalIncome: 200,
+      totalExpenses: 50,
+      netIncome: 150,
+      incomeByCategory: {},
+      expensesByCategory: {},
+      excludedTransfers: 0,
+      periodStart: '2025-01-01',
+      periodEnd: '2025-01-31',
+    },
+    lenderSummary: {
+      averageMonthlyIncome: 200,
+      averageMonthlyExpenses: 50,
+      monthlyIncomeVariance: 0,
+      incomeStabilityScore: 100,
+      consecutiveMonthsWithIncome: 1,
+      totalMonthsAnalyzed: 1,
+      monthlyBreakdown: [],
+      incomeSourceDiversity: 1,
+      regularIncomeDetected: true,
+      estimatedAnnualIncome: 2400,
+    },
+    taxPreparation: {
+      taxYear: 2025,
+      totalTaxableIncome: 200,
+      totalDeductibleExpenses: 0,
+      potentialDeductions: [],
+      incomeCategories: [],
+      reviewRequired: [],
+      summary: {
+        businessExpenses: 0,
+        medicalExpenses: 0,
+        charitableContributions: 0,
+        homeOffice: 0,
+        professionalServices: 0,
+        otherDeductible: 0,
+      },
+    },
+  },
+  integrity: {
+    overallValid: true,
+    statementsChecked: 1,
+    statementsWithIssues: 0,
+    statementResults: [],
+    summary: {
+      totalDiscrepancies: 0,
+      totalDelta: 0,
+      warnings: [],
+      epsilon: 0.01,
+    },
+  },
+  accounts: [
+    {
+      account: {
+        institution: 'Bank of America',
+        accountType: 'checking',
+        accountNumberMasked: '****3529',
+        statementPeriod: {
+          start: '2025-01-01',
+          end: '2025-01-31',
+        },
+        currency: 'USD',
+      },
+      summary: {
+        startingBalance: 1000,
+        endingBalance: 1150,
+        totalCredits: 200,
+        totalDebits: 50,
+      },
+      transactions: [
+        {
+          date: '2025-01-15',
+          postedDate: '2025-01-16',
+          description: 'Direct Deposit ACME Corp',
+          merchant: 'ACME Corp',
+          amount: 200,
+          direction: 'credit',
+          category: 'Income',
+          subcategory: 'Salary',
+          confidence: 0.95,
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          transactionId: 'tx_abcdef1234567890abcdef12',
+          raw: {
+            originalText: '01/15 01/16 Direct Deposit ACME Corp 200.00',
+            page: 1,
+          },
+        },
+        {
+          date: '2025-01-20',
+          postedDate: null,
+          description: 'CHECKCARD 0120 AMAZON MKTPLACE',
+          merchant: 'Amazon',
+          amount: -50,
+          direction: 'debit',
+          category: 'Shopping',
+          subcategory: 'Online',
+          confidence: 0.9,
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          transactionId: 'tx_123456789012345678901234',
+          raw: {
+            originalText: '01/20 CHECKCARD 0120 AMAZON MKTPLACE -50.00',
+            page: 2,
+          },
+        },
+      ],
+      totalStatements: 1,
+      totalTransactions: 2,
+    },
+  ],
+});
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const createRecurringResult = (): RecurringDetectionResult => ({
+  patterns: [
+    {
+      patternId: 'rec_amazon',
+      merchantKey: 'amazon',
+      merchantName: 'Amazon',
+      frequency: 'monthly',
+      averageAmount: -50,
+      amountVariance: 0,
+      confidence: 0.9,
+      transactionIds: ['tx_123456789012345678901234'],
+      firstSeen: '2025-01-20',
+      lastSeen: '2025-01-20',
+      occurrences: 1,
+      isSubscription: true,
+      category: 'Shopping',
+      subcategory: 'Online',
+    },
+  ],
+  summary: {
+    totalPatterns: 1,
+    totalRecurringTransactions: 1,
+    estimatedMonthlyRecurring: 50,
+    subscriptionCount: 1,
+  },
+} as unknown as RecurringDetectionResult);
+
+describe('columnar-exporter', () => {
+  describe('exportParquet', () => {
+    it('should write the stable column schema with typed columns', () => {
+      const bytes = exportParquet(createMockV2Result());
+      const metadata = parquetMetadata(toArrayBuffer(bytes));
+      const columns = metadata.schema.slice(1);
+
+      expect(columns.map((c) => c.name)).toEqual(TRANSACTION_COLUMNS.map((c) => c.name));
+      expect(columns.find((c) => c.name === 'date')).toMatchObject({ type: 'INT32', converted_type: 'DATE', repetition_type: 'REQUIRED' });
+      expect(columns.find((c) => c.name === 'subcategory')).toMatchObject({ type: 'BYTE_ARRAY', repetition_type: 'OPTIONAL' });
+      expect(columns.find((c) => c.name === 'amount_minor')).toMatchObject({ type: 'INT64' });
+      expect(metadata.key_value_metadata).toContainEqual({ key: 'findata.schema_version', value: COLUMNAR_SCHEMA_VERSION });
+    });
+
+    it('should write one row per transaction', async () => {
+      const rows = await parquetReadObjects({ file: toArrayBuffer(exportParquet(createMockV2Result())) });
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        transaction_id: 'tx_abcdef1234567890abcdef12',
+        institution: 'Bank of America',
+        account_type: 'checking',
+        account_number_masked: '****3529',
+        date: new Date('2025-01-15T00:00:00Z'),
+        posted_date: new Date('2025-01-16T00:00:00Z'),
+        amount: 200,
+        amount_minor: 20000n,
+        currency: 'USD',
+        category: 'Income',
+        subcategory: 'Salary',
+        is_recurring: false,
+        plaid_transaction_id: null,
+      });
+      expect(rows[1]).toMatchObject({ posted_date: null, amount_minor: -5000n });
+    });
+
+    it('should fill recurring columns from a detection result', async () => {
+      const bytes = exportParquet(createMockV2Result(), { recurring: createRecurringResult() });
+      const rows = await parquetReadObjects({ file: toArrayBuffer(bytes) });
+
+      expect(rows[1]).toMatchObject({ is_recurring: true, is_subscription: true, recurring_pattern_id: 'rec_amazon' });
+      expect(rows[0]).toMatchObject({ is_recurring: false, recurring_pattern_id: null });
+    });
+
+    it('should fill Plaid match columns from enriched transactions', async () => {
+      const v2Result = createMockV2Result();
+      Object.assign(v2Result.accounts[0]!.transactions[1]!, {
+        plaidMatch: {
+          plaidTransactionId: 'plaid_tx_1',
+          matchConfidence: 0.95,
+          matchType: 'exact',
+          merchantName: 'Amazon.com',
+          personalFinanceCategory: { primary: 'GENERAL_MERCHANDISE', detailed: 'GENERAL_MERCHANDISE_ONLINE_MARKETPLACES' },
+          differences: [],
+        },
+      });
+      const rows = await parquetReadObjects({ file: toArrayBuffer(exportParquet(v2Result)) });
+
+      expect(rows[1]).toMatchObject({
+        plaid_transaction_id: 'plaid_tx_1',
+        plaid_match_type: 'exact',
+        plaid_match_confidence: 0.95,
+        plaid_merchant_name: 'Amazon.com',
+        plaid_category_primary: 'GENERAL_MERCHANDISE',
+      });
+    });
+  });
+
+  describe('exportArrow', () => {
+    it('should write an Arrow IPC file with the same columns', () => {
+      const table = tableFromIPC(exportArrow(createMockV2Result()));
+
+      expect(table.schema.fields.map((f) => f.name)).toEqual(TRANSACTION_COLUMNS.map((c) => c.name));
+      expect(table.schema.metadata.get('findata.schema_version')).toBe(COLUMNAR_SCHEMA_VERSION);
+      expect(table.numRows).toBe(2);
+      expect(String(table.schema.fields.find((f) => f.name === 'date')?.type)).toBe('Date32<DAY>');
+      expect(table.get(0)?.toJSON()).toMatchObject({
+        transaction_id: 'tx_abcdef1234567890abcdef12',
+        amount: 200,
+        amount_minor: 20000n,
+        subcategory: 'Salary',
+      });
+      expect(table.get(1)?.toJSON()).toMatchObject({ posted_date: null });
+    });
+  });
+
+  describe('exportColumnarByAccount', () => {
+    it('should produce one file per account', () => {
+      const v2Result = createMockV2Result();
+      const savings = structuredClone(v2Result.accounts[0]!);
+      savings.account.accountType = 'savings';
+      savings.account.accountNumberMasked = '****4971';
+      v2Result.accounts.push(savings);
+
+      const results = exportColumnarByAccount(v2Result, 'arrow');
+
+      expect(results.map((r) => r.filename)).toEqual(['boa_checking_3529.arrow', 'boa_savings_4971.arrow']);
+      expect(tableFromIPC(results[1]!.content).get(0)?.toJSON()).toMatchObject({ account_type: 'savings' });
+      expect(exportColumnarByAccount(v2Result, 'parquet')[0]!.filename).toBe('boa_checking_3529.parquet');
+    });
+
+    it('should keep same-numbered accounts at different institutions in separate files', () => {
+      const v2Result = createMockV2Result();
+      const chime = structuredClone(v2Result.accounts[0]!);
+      chime.account.institution = 'Chime';
+      chime.account.institutionId = 'chime';
+      v2Result.accounts.push(chime);
+
+      const results = exportColumnarByAccount(v2Result, 'parquet');
+
+      expect(results.map((r) => r.filename)).toEqual(['boa_checking_3529.parquet', 'chime_checking_3529.parquet']);
+    });
+  });
+});
@@ -157,6 +157,7 @@ describe('csv-exporter', () => {
 
       expect(header).toContain('Account Type');
       expect(header).toContain('Account Number');
+      expect(header).toContain('Currency');
     });
 
     it('should include category columns by default', () => {
@@ -301,6 +302,17 @@ describe('csv-exporter', () => {
 
       expect(csv1).toBe(csv2);
     });
+
+    it('should format amounts with the minor units of the currency', () => {
+      const v2Result = createMockV2Result();
+      v2Result.accounts[0]!.account.currency = 'JPY';
+      v2Result.accounts[0]!.transactions[1]!.currency = 'EUR';
+      const lines = exportCsv(v2Result).split('\n');
+
+      expect(lines[1]).toContain(',200,');
+      expect(lines[1]).toContain('JPY');
+      expect(lines[2]).toContain('-50.00');
+    });
   });
 
   describe('transaction type detection', () => {
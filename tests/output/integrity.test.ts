@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import {
   checkIntegrity,
   checkStatementIntegrity,
+  checkDailyBalances,
   DEFAULT_EPSILON,
 } from '@findata/output';
 import type { ParsedStatement } from '@findata/types';
@@ -60,8 +61,8 @@ const createMockStatement = (overrides: Partial<{
 
 describe('integrity', () => {
   describe('DEFAULT_EPSILON', () => {
-    it('should be 0.01', () => {
-      expect(DEFAULT_EPSILON).toBe(0.01);
+    it('should be 0 (balances are compared in integer cents)', () => {
+      expect(DEFAULT_EPSILON).toBe(0);
     });
   });
 
@@ -77,13 +78,30 @@ describe('integrity', () => {
       expect(result.discrepancies).toHaveLength(0);
     });
 
-    it('should pass when delta is within epsilon', () => {
-      // 1000 + 200 - 50 = 1150, but ending is 1150.005 (within 0.01)
-      const stmt = createMockStatement({ endingBalance: 1150.005 });
+    it('should reconcile exactly where float arithmetic drifts', () => {
+      // 0.1 + 0.2 - 0 is 0.30000000000000004 in floats
+      const small = createMockStatement({ startingBalance: 0.1, totalCredits: 0.2, totalDebits: 0, endingBalance: 0.3 });
+      // multi-year rollup sized balances
+      const large = createMockStatement({
+        startingBalance: 9876543.21,
+        totalCredits: 1234567.89,
+        totalDebits: 0.07,
+        endingBalance: 11111111.03,
+      });
+
+      expect(checkStatementIntegrity(small).balanceCheck.delta).toBe(0);
+      expect(checkStatementIntegrity(small).isValid).toBe(true);
+      expect(checkStatementIntegrity(large).balanceCheck.calculatedEnding).toBe(11111111.03);
+      expect(checkStatementIntegrity(large).isValid).toBe(true);
+    });
+
+    it('should flag a one-cent discrepancy by default', () => {
+      const stmt = createMockStatement({ endingBalance: 1150.01 });
       const result = checkStatementIntegrity(stmt);
 
-      expect(result.isValid).toBe(true);
-      expect(result.balanceCheck.passed).toBe(true);
+      expect(result.isValid).toBe(false);
+      expect(result.balanceCheck.delta).toBe(0.01);
+      expect(checkStatementIntegrity(stmt, 0.01).isValid).toBe(true);
     });
 
     it('should fail when delta exceeds epsilon', () => {
@@ -101,7 +119,7 @@ describe('integrity', () => {
       // 1000 + 200 - 50 = 1150, ending is 1150.50
       const stmt = createMockStatement({ endingBalance: 1150.50 });
       
-      // With default epsilon (0.01), should fail
+      // With the default (exact) comparison, should fail
       const result1 = checkStatementIntegrity(stmt);
       expect(result1.isValid).toBe(false);
 
@@ -143,6 +161,103 @@ describe('integrity', () => {
       expect(discrepancy?.equation.totalDebits).toBe(50);
       expect(discrepancy?.equation.calculatedEnding).toBe(1150);
     });
+
+    it('should treat credit card balances as the amount owed', () => {
+      const stmt = createMockStatement({ startingBalance: 500, endingBalance: 350, totalCredits: 200, totalDebits: 50 });
+      stmt.account.accountType = 'credit';
+
+      expect(checkStatementIntegrity(stmt).isValid).toBe(true);
+
+      stmt.summary.endingBalance = 750;
+      const result = checkStatementIntegrity(stmt);
+      expect(result.balanceCheck.calculatedEnding).toBe(350);
+      expect(result.discrepancies[0]?.message).toContain('500 - 200 + 50 = 350');
+    });
+  });
+
+  describe('checkDailyBalances', () => {
+    // Transactions: +200 on 01/15, -50 on 01/20
+    const withDailyBalances = (balances: Array<[string, number]>): ParsedStatement => ({
+      ...createMockStatement(),
+      dailyBalances: balances.map(([date, balance]) => ({ date, balance })),
+    });
+
+    it('should return null without daily balances', () => {
+      expect(checkDailyBalances(createMockStatement())).toBeNull();
+      expect(checkStatementIntegrity(createMockStatement()).dailyBalanceCheck).toBeUndefined();
+    });
+
+    it('should pass when every day is reproduced', () => {
+      const result = checkDailyBalances(withDailyBalances([
+        ['2025-01-15', 1200],
+        ['2025-01-20', 1150],
+      ]));
+
+      expect(result).toEqual({ passed: true, daysChecked: 2, discrepancies: [] });
+    });
+
+    it('should pinpoint the day a transaction is missing', () => {
+      // A 75.00 debit on 01/17 was dropped: 01/17 and every later day are off by -75
+      const result = checkDailyBalances(withDailyBalances([
+        ['2025-01-15', 1200],
+        ['2025-01-17', 1125],
+        ['2025-01-20', 1075],
+      ]));
+
+      expect(result?.passed).toBe(false);
+      expect(result?.discrepancies).toHaveLength(1);
+      expect(result?.discrepancies[0]).toMatchObject({
+        date: '2025-01-17',
+        statementBalance: 1125,
+        calculatedBalance: 1200,
+        delta: -75,
+        cumulativeDelta: -75,
+        severity: 'error',
+      });
+      expect(result?.discrepancies[0]?.message).toContain('a debit may be missing or a credit duplicated');
+    });
+
+    it('should pinpoint a duplicated transaction on its own day', () => {
+      const stmt = withDailyBalances([
+        ['2025-01-15', 1200],
+        ['2025-01-20', 1150],
+      ]);
+      stmt.transactions.push({ ...stmt.transactions[0]! });
+
+      const result = checkDailyBalances(stmt);
+
+      expect(result?.discrepancies.map((d) => [d.date, d.delta, d.cumulativeDelta])).toEqual([
+        ['2025-01-15', -200, -200],
+      ]);
+    });
+
+    it('should report each day where the difference changes', () => {
+      const result = checkDailyBalances(withDailyBalances([
+        ['2025-01-15', 1200.5],
+        ['2025-01-20', 1150],
+      ]));
+
+      expect(result?.discrepancies.map((d) => [d.date, d.delta, d.severity])).toEqual([
+        ['2025-01-15', 0.5, 'warning'],
+        ['2025-01-20', -0.5, 'warning'],
+      ]);
+      expect(checkDailyBalances(withDailyBalances([['2025-01-15', 1200.5]]), 1)?.passed).toBe(true);
+    });
+
+    it('should fail the statement integrity check on a daily mismatch', () => {
+      // The period-level equation still balances
+      const result = checkStatementIntegrity(withDailyBalances([
+        ['2025-01-15', 1250],
+        ['2025-01-20', 1150],
+      ]));
+
+      expect(result.balanceCheck.passed).toBe(true);
+      expect(result.isValid).toBe(false);
+      expect(result.dailyBalanceCheck?.discrepancies.map((d) => d.date)).toEqual(['2025-01-15', '2025-01-20']);
+      expect(checkIntegrity([withDailyBalances([['2025-01-15', 1250]])]).summary.warnings).toContain(
+        'Daily balances diverge on 2025-01-15'
+      );
+    });
   });
 
   describe('checkIntegrity', () => {
@@ -193,6 +308,30 @@ describe('integrity', () => {
       expect(result.summary.totalDelta).toBe(3);
     });
 
+    it('should total deltas per currency when statements mix currencies', () => {
+      const eur = createMockStatement({ endingBalance: 1155 }); // delta = 5
+      eur.account.currency = 'EUR';
+      const statements = [
+        createMockStatement({ endingBalance: 1151 }), // delta = 1
+        createMockStatement({ endingBalance: 1152 }), // delta = 2
+        eur,
+      ];
+
+      const result = checkIntegrity(statements);
+
+      expect(result.summary.totalDelta).toBe(0);
+      expect(result.summary.totalDeltaByCurrency).toEqual({ USD: 3, EUR: 5 });
+      expect(result.summary.warnings).toContain('Total cumulative delta: $3.00');
+      expect(result.summary.warnings).toContain('Total cumulative delta: 5.00 EUR');
+    });
+
+    it('should omit per-currency totals when every statement shares a currency', () => {
+      const result = checkIntegrity([createMockStatement({ endingBalance: 1151 })]);
+
+      expect(result.summary.totalDelta).toBe(1);
+      expect(result.summary.totalDeltaByCurrency).toBeUndefined();
+    });
+
     it('should include epsilon in summary', () => {
       const statements = [createMockStatement()];
       const result = checkIntegrity(statements, 0.05);
@@ -123,6 +123,68 @@ const createMockV2Result = (): FinalResultV2 => ({
   ],
 });
 
+type AccountBlock = FinalResultV2['accounts'][number];
+
+/**
+ * Credit card statement: 500.00 owed, 120.00 of charges, 300.00 payment, 320.00 owed.
+ */
+const createMockCreditAccount = (): AccountBlock => ({
+  account: {
+    institution: 'Bank of America',
+    accountType: 'credit',
+    accountNumberMasked: '****8812',
+    statementPeriod: {
+      start: '2025-01-05',
+      end: '2025-02-04',
+    },
+    currency: 'USD',
+  },
+  summary: {
+    startingBalance: 500,
+    endingBalance: 320,
+    totalCredits: 300,
+    totalDebits: 120,
+  },
+  transactions: [
+    {
+      date: '2025-01-10',
+      postedDate: '2025-01-11',
+      description: 'WHOLE FOODS MARKET #123',
+      merchant: 'Whole Foods',
+      amount: -120,
+      direction: 'debit',
+      category: 'Groceries',
+      subcategory: null,
+      confidence: 0.9,
+      statementId: 'BOA-credit-****8812-2025-01-05-2025-02-04',
+      periodLabel: '2025-01 BOA Credit',
+      transactionId: 'tx_cccccccccccccccccccccc01',
+      raw: {
+        originalText: '01/10 01/11 WHOLE FOODS MARKET #123 120.00',
+        page: 1,
+      },
+    },
+    {
+      date: '2025-01-25',
+      postedDate: null,
+      description: 'PAYMENT - THANK YOU',
+      merchant: '',
+      amount: 300,
+      direction: 'credit',
+      category: 'Transfer',
+      subcategory: null,
+      confidence: 0.95,
+      statementId: 'BOA-credit-****8812-2025-01-05-2025-02-04',
+      periodLabel: '2025-01 BOA Credit',
+      transactionId: 'tx_cccccccccccccccccccccc02',
+      raw: {
+        originalText: '01/25 PAYMENT - THANK YOU -300.00',
+        page: 1,
+      },
+    },
+  ],
+});
+
 describe('ofx-exporter', () => {
   describe('exportOfx', () => {
     it('should generate valid OFX structure', () => {
@@ -216,6 +278,21 @@ describe('ofx-exporter', () => {
       expect(ofx).toContain('<BALAMT>1150.00</BALAMT>');
     });
 
+    it('should carry an exact running balance across statements', () => {
+      const v2Result = createMockV2Result();
+      const account = v2Result.accounts[0]!;
+      const february = 'BOA-checking-****3529-2025-02-01-2025-02-28';
+      account.summary.startingBalance = 0.1;
+      account.transactions[0]!.amount = 0.2;
+      account.transactions[1]!.statementId = february;
+      account.transactions[1]!.amount = -0.3;
+      account.transactions.push({ ...account.transactions[0]!, date: '2025-02-10', amount: 0.7, statementId: february });
+      const ofx = exportOfx(v2Result);
+
+      expect(ofx).toContain('<BALAMT>0.30</BALAMT>');
+      expect(ofx).toContain('<BALAMT>0.70</BALAMT>');
+    });
+
     it('should be deterministic (same input = same output)', () => {
       const v2Result = createMockV2Result();
       const ofx1 = exportOfx(v2Result);
@@ -242,6 +319,24 @@ describe('ofx-exporter', () => {
 
       expect(ofx).toContain('<BANKID>999999999</BANKID>');
     });
+
+    it('should use the account routing number and keep the BoA bank ID to BoA accounts', () => {
+      const v2Result = createMockV2Result();
+      const boa = v2Result.accounts[0]!;
+      v2Result.accounts = [
+        boa,
+        { ...boa, account: { ...boa.account, institution: 'Capital One', institutionId: 'capitalone', routingNumber: '031176110' } },
+        { ...boa, account: { ...boa.account, institution: 'Chime', institutionId: 'chime' } },
+      ];
+
+      const [boaOfx, capitalOneOfx, chimeOfx] = v2Result.accounts.map((account) => exportAccountOfx(account));
+
+      expect(boaOfx).toContain('<BANKID>121000358</BANKID>');
+      expect(capitalOneOfx).toContain('<BANKID>031176110</BANKID>');
+      expect(capitalOneOfx).not.toContain('121000358');
+      expect(chimeOfx).not.toContain('<BANKID>');
+      expect(chimeOfx).toContain('<BANKACCTFROM>\n<ACCTID>');
+    });
   });
 
   describe('exportAccountOfx', () => {
@@ -328,6 +423,75 @@ describe('ofx-exporter', () => {
     });
   });
 
+  describe('credit card statements', () => {
+    it('should emit CCSTMTRS with CCACCTFROM inside CREDITCARDMSGSRSV1', () => {
+      const ofx = exportAccountOfx(createMockCreditAccount());
+
+      expect(ofx).toContain('<CREDITCARDMSGSRSV1>');
+      expect(ofx).toContain('<CCSTMTTRNRS>');
+      expect(ofx).toContain('<CCSTMTRS>');
+      expect(ofx).toContain('<CCACCTFROM>\n<ACCTID>00008812</ACCTID>\n</CCACCTFROM>');
+      expect(ofx).toContain('</CREDITCARDMSGSRSV1>');
+      expect(ofx).not.toContain('<BANKMSGSRSV1>');
+      expect(ofx).not.toContain('<BANKACCTFROM>');
+      expect(ofx).not.toContain('<STMTRS>');
+    });
+
+    it('should make charges negative and payments positive', () => {
+      const ofx = exportAccountOfx(createMockCreditAccount());
+
+      expect(ofx).toContain('<TRNTYPE>DEBIT</TRNTYPE>\n<DTPOSTED>20250111</DTPOSTED>\n<TRNAMT>-120.00</TRNAMT>');
+      expect(ofx).toContain('<TRNTYPE>PAYMENT</TRNTYPE>\n<DTPOSTED>20250125</DTPOSTED>\n<TRNAMT>300.00</TRNAMT>');
+    });
+
+    it('should report the amount owed as a negative ledger balance', () => {
+      const ofx = exportAccountOfx(createMockCreditAccount());
+
+      expect(ofx).toContain('<LEDGERBAL>\n<BALAMT>-320.00</BALAMT>\n<DTASOF>20250204</DTASOF>');
+      expect(ofx).not.toContain('<AVAILBAL>');
+    });
+
+    it('should classify card fees, interest and refunds', () => {
+      const account = createMockCreditAccount();
+      account.transactions[0]!.description = 'LATE FEE';
+      account.transactions[1]!.description = 'AMAZON.COM RETURN';
+      const ofx = exportAccountOfx(account);
+
+      expect(ofx).toContain('<TRNTYPE>FEE</TRNTYPE>');
+      expect(ofx).toContain('<TRNTYPE>CREDIT</TRNTYPE>');
+
+      account.transactions[0]!.description = 'INTEREST CHARGED ON PURCHASES';
+      expect(exportAccountOfx(account)).toContain('<TRNTYPE>INT</TRNTYPE>');
+    });
+
+    it('should combine bank and card message sets in one file', () => {
+      const v2Result = createMockV2Result();
+      v2Result.accounts.push(createMockCreditAccount());
+      const ofx = exportOfx(v2Result);
+
+      const bankStart = ofx.indexOf('<BANKMSGSRSV1>');
+      const bankEnd = ofx.indexOf('</BANKMSGSRSV1>');
+      const cardStart = ofx.indexOf('<CREDITCARDMSGSRSV1>');
+      const cardEnd = ofx.indexOf('</CREDITCARDMSGSRSV1>');
+
+      expect(bankStart).toBeGreaterThan(ofx.indexOf('</SIGNONMSGSRSV1>'));
+      expect(bankStart).toBeLessThan(ofx.indexOf('<STMTTRNRS>'));
+      expect(ofx.indexOf('</STMTTRNRS>')).toBeLessThan(bankEnd);
+      expect(bankEnd).toBeLessThan(cardStart);
+      expect(cardStart).toBeLessThan(ofx.indexOf('<CCSTMTTRNRS>'));
+      expect(ofx.indexOf('</CCSTMTTRNRS>')).toBeLessThan(cardEnd);
+      expect(cardEnd).toBeLessThan(ofx.indexOf('</OFX>'));
+    });
+
+    it('should keep card statements in CCSTMTRS when not split by statement', () => {
+      const ofx = exportAccountOfx(createMockCreditAccount(), { splitByStatement: false });
+
+      expect(ofx).toContain('<CCSTMTRS>');
+      expect(ofx).toContain('<TRNUID>stmt_20250105_20250204_8812</TRNUID>');
+      expect(ofx).toContain('<BALAMT>-320.00</BALAMT>');
+    });
+  });
+
   describe('exportOfxByAccount', () => {
     it('should split accounts into separate results', () => {
       const v2Result = createMockV2Result();
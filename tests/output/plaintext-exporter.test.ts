@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest';
+import { exportBeancount, exportLedger, parseAccountingMapping } from '@findata/output';
+import type { FinalResultV2 } from '@findata/output';
+
+const createMockV2Result = (): FinalResultV2 => ({
+  schemaVersion: 'v2',
+  startingBalance: 1000,
+  endingBalance: 1150,
+  totalStatements: 1,
+  totalTransactions: 2,
+  analytics: {
+    quarterlyCashFlow: [],
+    incomeVsExpenses: {
+      totalIncome: 200,
+      totalExpenses: 50,
+      netIncome: 150,
+      incomeByCategory: {},
+      expensesByCategory: {},
+      excludedTransfers: 0,
+      periodStart: '2025-01-01',
+      periodEnd: '2025-01-31',
+    },
+    lenderSummary: {
+      averageMonthlyIncome: 200,
+      averageMonthlyExpenses: 50,
+      monthlyIncomeVariance: 0,
+      incomeStabilityScore: 100,
+      consecutiveMonthsWithIncome: 1,
+      totalMonthsAnalyzed: 1,
+      monthlyBreakdown: [],
+      incomeSourceDiversity: 1,
+      regularIncomeDetected: true,
+      estimatedAnnualIncome: 2400,
+    },
+    taxPreparation: {
+      taxYear: 2025,
+      totalTaxableIncome: 200,
+      totalDeductibleExpenses: 0,
+      potentialDeductions: [],
+      incomeCategories: [],
+      reviewRequired: [],
+      summary: {
+        businessExpenses: 0,
+        medicalExpenses: 0,
+        charitableContributions: 0,
+        homeOffice: 0,
+        professionalServices: 0,
+        otherDeductible: 0,
+      },
+    },
+  },
+  integrity: {
+    overallValid: true,
+    statementsChecked: 1,
+    statementsWithIssues: 0,
+    statementResults: [],
+    summary: {
+      totalDiscrepancies: 0,
+      totalDelta: 0,
+      warnings: [],
+      epsilon: 0.01,
+    },
+  },
+  accounts: [
+    {
+      account: {
+        institution: 'Bank of America',
+        accountType: 'checking',
+        accountNumberMasked: '****3529',
+        statementPeriod: {
+          start: '2025-01-01',
+          end: '2025-01-31',
+        },
+        currency: 'USD',
+      },
+      summary: {
+        startingBalance: 1000,
+        endingBalance: 1150,
+        totalCredits: 200,
+        totalDebits: 50,
+      },
+      transactions: [
+        {
+          date: '2025-01-15',
+          postedDate: '2025-01-16',
+          description: 'Direct Deposit ACME Corp',
+          merchant: 'ACME Corp',
+          amount: 200,
+          direction: 'credit',
+          category: 'Income',
+          subcategory: 'Salary',
+          confidence: 0.95,
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          transactionId: 'tx_abcdef1234567890abcdef12',
+          raw: {
+            originalText: '01/15 01/16 Direct Deposit ACME Corp 200.00',
+            page: 1,
+          },
+        },
+        {
+          date: '2025-01-20',
+          postedDate: null,
+          description: 'CHECKCARD 0120 AMAZON MKTPLACE',
+          merchant: 'Amazon',
+          amount: -50,
+          direction: 'debit',
+          category: 'Shopping',
+          subcategory: 'Online',
+          confidence: 0.9,
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          transactionId: 'tx_123456789012345678901234',
+          raw: {
+            originalText: '01/20 CHECKCARD 0120 AMAZON MKTPLACE -50.00',
+            page: 2,
+          },
+        },
+      ],
+      totalStatements: 1,
+      totalTransactions: 2,
+    },
+  ],
+});
+
+describe('plaintext-exporter', () => {
+  describe('exportBeancount', () => {
+    it('should open every account before the statement period', () => {
+      const beancount = exportBeancount(createMockV2Result());
+
+      expect(beancount).toContain('2024-12-31 open Assets:Bank:BankOfAmerica:Checking-3529');
+      expect(beancount).toContain('2024-12-31 open Equity:Opening-Balances');
+      expect(beancount).toContain('2024-12-31 open Income:Salary');
+      expect(beancount).toContain('2024-12-31 open Expenses:Shopping:Online');
+    });
+
+    it('should pad to the starting balance and assert both statement balances', () => {
+      const beancount = exportBeancount(createMockV2Result());
+
+      expect(beancount).toContain('2024-12-31 pad Assets:Bank:BankOfAmerica:Checking-3529 Equity:Opening-Balances');
+      expect(beancount).toContain('2025-01-01 balance Assets:Bank:BankOfAmerica:Checking-3529 1000.00 USD');
+      expect(beancount).toContain('2025-02-01 balance Assets:Bank:BankOfAmerica:Checking-3529 1150.00 USD');
+    });
+
+    it('should link transactions by transactionId with balanced postings', () => {
+      const beancount = exportBeancount(createMockV2Result());
+
+      expect(beancount).toContain([
+        '2025-01-20 * "Amazon" "CHECKCARD 0120 AMAZON MKTPLACE" ^tx_123456789012345678901234',
+        '  transaction_id: "tx_123456789012345678901234"',
+        '  Assets:Bank:BankOfAmerica:Checking-3529  -50.00 USD',
+        '  Expenses:Shopping:Online',
+      ].join('\n'));
+    });
+
+    it('should apply the account and category mapping', () => {
+      const beancount = exportBeancount(createMockV2Result(), {
+        mapping: {
+          accounts: { '3529': 'Assets:Checking' },
+          categories: { 'Income:Salary': 'Income:Job:Acme', Shopping: 'Expenses:Stuff' },
+        },
+      });
+
+      expect(beancount).toContain('  Assets:Checking  200.00 USD\n  Income:Job:Acme');
+      expect(beancount).toContain('  Expenses:Stuff');
+      expect(beancount).not.toContain('BankOfAmerica');
+    });
+
+    it('should escape quotes in payees and descriptions', () => {
+      const v2Result = createMockV2Result();
+      v2Result.accounts[0]!.transactions[1]!.merchant = 'Joe\'s "Diner"';
+      const beancount = exportBeancount(v2Result);
+
+      expect(beancount).toContain('* "Joe\'s \\"Diner\\"" ');
+    });
+
+    it('should report credit card amounts owed as negative liability balances', () => {
+      const v2Result = createMockV2Result();
+      const account = v2Result.accounts[0]!;
+      account.account.accountType = 'credit';
+      account.summary = { startingBalance: 500, endingBalance: 350, totalCredits: 200, totalDebits: 50 };
+      const beancount = exportBeancount(v2Result);
+
+      expect(beancount).toContain('2025-01-01 balance Liabilities:CreditCard:BankOfAmerica:Credit-3529 -500.00 USD');
+      expect(beancount).toContain('2025-02-01 balance Liabilities:CreditCard:BankOfAmerica:Credit-3529 -350.00 USD');
+    });
+
+    it('should skip the pad when opening balances are disabled', () => {
+      const beancount = exportBeancount(createMockV2Result(), { includeOpeningBalances: false });
+
+      expect(beancount).not.toContain(' pad ');
+      expect(beancount).not.toContain('Equity:Opening-Balances');
+    });
+
+    it('should be deterministic (same input = same output)', () => {
+      const v2Result = createMockV2Result();
+      expect(exportBeancount(v2Result)).toBe(exportBeancount(v2Result));
+    });
+  });
+
+  describe('exportLedger', () => {
+    it('should assign the opening balance and assert the closing balance', () => {
+      const ledger = exportLedger(createMockV2Result());
+
+      expect(ledger).toContain([
+        '2025-01-01 * Opening balance',
+        '    Assets:Bank:BankOfAmerica:Checking-3529  = 1000.00 USD',
+        '    Equity:Opening-Balances',
+      ].join('\n'));
+      expect(ledger).toContain([
+        '2025-01-31 * Closing balance assertion',
+        '    Assets:Bank:BankOfAmerica:Checking-3529  0.00 USD = 1150.00 USD',
+      ].join('\n'));
+    });
+
+    it('should tag transactions with their transactionId', () => {
+      const ledger = exportLedger(createMockV2Result());
+
+      expect(ledger).toContain([
+        '2025-01-15 * ACME Corp',
+        '    ; transaction_id: tx_abcdef1234567890abcdef12',
+        '    ; Direct Deposit ACME Corp',
+        '    Assets:Bank:BankOfAmerica:Checking-3529  200.00 USD',
+        '    Income:Salary',
+      ].join('\n'));
+    });
+
+    it('should route transfers and uncategorized transactions to the default accounts', () => {
+      const v2Result = createMockV2Result();
+      v2Result.accounts[0]!.transactions[0]!.category = 'Uncategorized';
+      v2Result.accounts[0]!.transactions[1]!.category = 'Transfer';
+      const ledger = exportLedger(v2Result, { mapping: { transferAccount: 'Assets:Savings' } });
+
+      expect(ledger).toContain('    Income:Uncategorized');
+      expect(ledger).toContain('    Assets:Savings');
+    });
+  });
+
+  describe('parseAccountingMapping', () => {
+    it('should accept a valid mapping', () => {
+      const mapping = parseAccountingMapping({
+        accounts: { '3529': 'Assets:Checking' },
+        categories: { 'Food & Dining': 'Expenses:Food' },
+        openingBalanceAccount: 'Equity:Opening',
+      });
+
+      expect(mapping.accounts).toEqual({ '3529': 'Assets:Checking' });
+      expect(mapping.categories).toEqual({ 'Food & Dining': 'Expenses:Food' });
+      expect(mapping.openingBalanceAccount).toBe('Equity:Opening');
+    });
+
+    it('should reject invalid account names', () => {
+      expect(() => parseAccountingMapping({ categories: { Shopping: 'Stuff' } })).toThrow(/categories\.Shopping/);
+      expect(() => parseAccountingMapping({ defaultExpenseAccount: 'Expenses:food court' })).toThrow();
+      expect(() => parseAccountingMapping([])).toThrow(/must be an object/);
+    });
+  });
+});
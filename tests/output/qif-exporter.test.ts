@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import { exportQif, exportAccountQif, exportQifByAccount } from '@findata/output';
+import type { FinalResultV2 } from '@findata/output';
+
+const createMockV2Result = (): FinalResultV2 => ({
+  schemaVersion: 'v2',
+  startingBalance: 1000,
+  endingBalance: 1150,
+  totalStatements: 1,
+  totalTransactions: 2,
+  analytics: {
+    quarterlyCashFlow: [],
+    incomeVsExpenses: {
+      totalIncome: 200,
+      totalExpenses: 50,
+      netIncome: 150,
+      incomeByCategory: {},
+      expensesByCategory: {},
+      excludedTransfers: 0,
+      periodStart: '2025-01-01',
+      periodEnd: '2025-01-31',
+    },
+    lenderSummary: {
+      averageMonthlyIncome: 200,
+      averageMonthlyExpenses: 50,
+      monthlyIncomeVariance: 0,
+      incomeStabilityScore: 100,
+      consecutiveMonthsWithIncome: 1,
+      totalMonthsAnalyzed: 1,
+      monthlyBreakdown: [],
+      incomeSourceDiversity: 1,
+      regularIncomeDetected: true,
+      estimatedAnnualIncome: 2400,
+    },
+    taxPreparation: {
+      taxYear: 2025,
+      totalTaxableIncome: 200,
+      totalDeductibleExpenses: 0,
+      potentialDeductions: [],
+      incomeCategories: [],
+      reviewRequired: [],
+      summary: {
+        businessExpenses: 0,
+        medicalExpenses: 0,
+        charitableContributions: 0,
+        homeOffice: 0,
+        professionalServices: 0,
+        otherDeductible: 0,
+      },
+    },
+  },
+  integrity: {
+    overallValid: true,
+    statementsChecked: 1,
+    statementsWithIssues: 0,
+    statementResults: [],
+    summary: {
+      totalDiscrepancies: 0,
+      totalDelta: 0,
+      warnings: [],
+      epsilon: 0.01,
+    },
+  },
+  accounts: [
+    {
+      account: {
+        institution: 'Bank of America',
+        accountType: 'checking',
+        accountNumberMasked: '****3529',
+        statementPeriod: {
+          start: '2025-01-01',
+          end: '2025-01-31',
+        },
+        currency: 'USD',
+      },
+      summary: {
+        startingBalance: 1000,
+        endingBalance: 1150,
+        totalCredits: 200,
+        totalDebits: 50,
+      },
+      transactions: [
+        {
+          date: '2025-01-15',
+          postedDate: '2025-01-16',
+          description: 'Direct Deposit ACME Corp',
+          merchant: 'ACME Corp',
+          amount: 200,
+          direction: 'credit',
+          category: 'Income',
+          subcategory: 'Salary',
+          confidence: 0.95,
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          transactionId: 'tx_abcdef1234567890abcdef12',
+          raw: {
+            originalText: '01/15 01/16 Direct Deposit ACME Corp 200.00',
+            page: 1,
+          },
+        },
+        {
+          date: '2025-01-20',
+          postedDate: null,
+          description: 'CHECKCARD 0120 AMAZON MKTPLACE',
+          merchant: 'Amazon',
+          amount: -50,
+          direction: 'debit',
+          category: 'Shopping',
+          subcategory: 'Online',
+          confidence: 0.9,
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          transactionId: 'tx_123456789012345678901234',
+          raw: {
+            originalText: '01/20 CHECKCARD 0120 AMAZON MKTPLACE -50.00',
+            page: 2,
+          },
+        },
+      ],
+      totalStatements: 1,
+      totalTransactions: 2,
+    },
+  ],
+});
+
+describe('qif-exporter', () => {
+  describe('exportQif', () => {
+    it('should wrap accounts in AutoSwitch with account headers', () => {
+      const qif = exportQif(createMockV2Result());
+      const lines = qif.split('\n');
+
+      expect(lines[0]).toBe('!Option:AutoSwitch');
+      expect(lines.slice(1, 7)).toEqual([
+        '!Account',
+        'NBank of America Checking 3529',
+        'TBank',
+        '/01/31/2025',
+        '$1150.00',
+        '^',
+      ]);
+      expect(lines[7]).toBe('!Type:Bank');
+      expect(qif.trimEnd().endsWith('!Clear:AutoSwitch')).toBe(true);
+    });
+
+    it('should write dated, signed transactions with payee, memo and category', () => {
+      const qif = exportQif(createMockV2Result());
+
+      expect(qif).toContain([
+        'D01/15/2025',
+        'T200.00',
+        'PACME Corp',
+        'MDirect Deposit ACME Corp',
+        'LIncome:Salary',
+        '^',
+      ].join('\n'));
+      expect(qif).toContain('D01/20/2025\nT-50.00\nPAmazon');
+    });
+
+    it('should use the CCard type for credit card accounts', () => {
+      const v2Result = createMockV2Result();
+      v2Result.accounts[0]!.account.accountType = 'credit';
+      const qif = exportQif(v2Result);
+
+      expect(qif).toContain('TCCard');
+      expect(qif).toContain('!Type:CCard');
+      expect(qif).not.toContain('!Type:Bank');
+    });
+
+    it('should take check numbers from the bank reference or the description', () => {
+      const v2Result = createMockV2Result();
+      Object.assign(v2Result.accounts[0]!.transactions[0]!, { bankReference: { checkNumber: '1042' } });
+      v2Result.accounts[0]!.transactions[1]!.description = 'CHECK #1234';
+      const qif = exportQif(v2Result);
+
+      expect(qif).toContain('T200.00\nN1042\n');
+      expect(qif).toContain('T-50.00\nN1234\n');
+    });
+
+    it('should sanitize category separators and skip uncategorized transactions', () => {
+      const v2Result = createMockV2Result();
+      v2Result.accounts[0]!.transactions[0]!.subcategory = 'Salary/Wages: Bonus';
+      v2Result.accounts[0]!.transactions[1]!.category = 'Uncategorized';
+      const qif = exportQif(v2Result);
+
+      expect(qif).toContain('LIncome:Salary Wages Bonus');
+      expect(qif.match(/^L/gm)).toHaveLength(1);
+    });
+
+    it('should omit headers and memos when requested', () => {
+      const qif = exportQif(createMockV2Result(), { includeAccountHeader: false, includeMemo: false });
+
+      expect(qif.startsWith('!Type:Bank\n')).toBe(true);
+      expect(qif).not.toContain('!Account');
+      expect(qif).not.toContain('AutoSwitch');
+      expect(qif).not.toMatch(/^M/m);
+    });
+
+    it('should be deterministic (same input = same output)', () => {
+      const v2Result = createMockV2Result();
+      expect(exportQif(v2Result)).toBe(exportQif(v2Result));
+    });
+  });
+
+  describe('exportAccountQif', () => {
+    it('should export a single account without an account header by default', () => {
+      const qif = exportAccountQif(createMockV2Result().accounts[0]!);
+
+      expect(qif.startsWith('!Type:Bank\n')).toBe(true);
+      expect(qif.match(/\^/g)).toHaveLength(2);
+    });
+  });
+
+  describe('exportQifByAccount', () => {
+    it('should split accounts into separate results', () => {
+      const v2Result = createMockV2Result();
+      v2Result.accounts.push({
+        ...v2Result.accounts[0]!,
+        account: {
+          ...v2Result.accounts[0]!.account,
+          accountType: 'credit',
+          accountNumberMasked: '****4971',
+        },
+      });
+
+      const results = exportQifByAccount(v2Result);
+
+      expect(results.map((r) => r.filename)).toEqual(['boa_checking_3529.qif', 'boa_credit_4971.qif']);
+      expect(results[0]!.content).toContain('!Type:Bank');
+      expect(results[1]!.content).toContain('!Type:CCard');
+    });
+
+    it('should keep same-numbered accounts at different institutions in separate files', () => {
+      const v2Result = createMockV2Result();
+      v2Result.accounts.push({
+        ...v2Result.accounts[0]!,
+        account: { ...v2Result.accounts[0]!.account, institution: 'Chime', institutionId: 'chime' },
+      });
+
+      const results = exportQifByAccount(v2Result);
+
+      expect(results.map((r) => r.filename)).toEqual(['boa_checking_3529.qif', 'chime_checking_3529.qif']);
+    });
+  });
+});
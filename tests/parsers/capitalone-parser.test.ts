@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createParserRegistry,
+  detectCapitalOne,
+  parseCapitalOneStatements,
+  parseCapitalOneLayout,
+} from '@findata/boa-parser';
+import { checkIntegrity } from '@findata/output';
+import { ParsedStatementSchema } from '@findata/types';
+import type { ExtractedPDF, LayoutExtractedPDF, TextItem } from '@findata/pdf-extract';
+
+const createMockPDF = (text: string): ExtractedPDF => {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const cleanText = lines.join('\n');
+  return {
+    pages: [{ pageNumber: 1, text: cleanText, lines }],
+    fullText: cleanText,
+    totalPages: 1,
+    metadata: {},
+  };
+};
+
+const CREDIT_STATEMENT = `
+  Capital One
+  Quicksilver Card | Visa Signature ending in 1234
+  Dec 6, 2024 - Jan 5, 2025 | 31 days in Billing Cycle
+  New Balance $948.70
+  Minimum Payment Due $35.00
+  Previous Balance $1,234.56
+  Payments - $500.00
+  Other Credits - $20.00
+  Transactions + $180.49
+  Fees Charged + $39.00
+  Interest Charged + $14.65
+  New Balance = $948.70
+  Credit Limit $5,000.00
+  Payments, Credits and Adjustments
+  Trans Date Post Date Description Amount
+  Dec 20 Dec 20 CAPITAL ONE MOBILE PYMT - $500.00
+  Dec 22 Dec 23 AMAZON MKTPLACE REFUND - $20.00
+  JANE DOE #1234: Transactions
+  Trans Date Post Date Description Amount
+  Dec 10 Dec 11 WHOLEFDS MKT 10234 $120.00
+  Dec 15 Dec 16 SHELL OIL 5744 HOUSTON TX $45.00
+  Jan 2 Jan 3 NETFLIX.COM $15.49
+  Total Transactions for This Period $180.49
+  Fees
+  Dec 28 Dec 28 PAST DUE FEE $39.00
+  Total Fees for This Period $39.00
+  Interest Charged
+  Interest Charge on Purchases $14.65
+  Interest Charge on Cash Advances $0.00
+  Total Interest for This Period $14.65
+  Interest Charge Calculation
+  Purchases 29.99% $1,000.00 $14.65
+`;
+
+const STATEMENT_360 = `
+  Capital One
+  STATEMENT PERIOD
+  Jan 1 - Jan 31, 2025
+  360 Checking - 36001234567
+  DATE DESCRIPTION CATEGORY AMOUNT BALANCE
+  Jan 1 Opening Balance $1,000.00
+  Jan 3 Debit Card Purchase - STARBUCKS 1234 SEATTLE WA Debit - $5.25 $994.75
+  Jan 15 Deposit from ACME CORP PAYROLL Credit + $2,000.00 $2,994.75
+  Jan 20 Withdrawal to 360 Performance Savings ...9876 Debit - $500.00 $2,494.75
+  Jan 31 Monthly Interest Paid Credit + $0.12 $2,494.87
+  Jan 31 Closing Balance $2,494.87
+  360 Performance Savings - 36009879876
+  DATE DESCRIPTION CATEGORY AMOUNT BALANCE
+  Jan 1 Opening Balance $5,000.00
+  Jan 20 Deposit from 360 Checking ...4567 Credit + $500.00 $5,500.00
+  Jan 31 Monthly Interest Paid Credit + $17.85 $5,517.85
+  Jan 31 Closing Balance $5,517.85
+`;
+
+describe('detectCapitalOne', () => {
+  it('should recognize credit card and 360 statements', () => {
+    expect(detectCapitalOne(createMockPDF(CREDIT_STATEMENT))).toBe(0.95);
+    expect(detectCapitalOne(createMockPDF(STATEMENT_360))).toBe(0.95);
+    expect(detectCapitalOne(createMockPDF('Capital One Arena tickets'))).toBe(0.5);
+    expect(detectCapitalOne(createMockPDF('Bank of America'))).toBe(0);
+  });
+
+  it('should win over the Bank of America parser for credit card statements', () => {
+    expect(createParserRegistry().select(createMockPDF(CREDIT_STATEMENT))?.parser.id).toBe('capitalone');
+  });
+});
+
+describe('Capital One credit card statements', () => {
+  const [statement] = parseCapitalOneStatements(createMockPDF(CREDIT_STATEMENT), { strict: true, verbose: false });
+
+  it('should emit a canonical credit statement', () => {
+    expect(statement).toBeDefined();
+    expect(ParsedStatementSchema.safeParse(statement).success).toBe(true);
+    expect(statement?.account).toMatchObject({
+      institution: 'Capital One',
+      accountType: 'credit',
+      accountNumberMasked: '****1234',
+      statementPeriod: { start: '2024-12-06', end: '2025-01-05' },
+    });
+    expect(statement?.metadata.warnings).toEqual([]);
+  });
+
+  it('should report the balance owed as positive and balance the equation', () => {
+    expect(statement?.summary).toEqual({
+      startingBalance: 1234.56,
+      endingBalance: 948.7,
+      totalCredits: 520,
+      totalDebits: 234.14,
+    });
+    expect(checkIntegrity(statement ? [statement] : []).overallValid).toBe(true);
+  });
+
+  it('should parse payments, purchases, fees and interest', () => {
+    const byDescription = new Map(statement?.transactions.map((t) => [t.description, t]));
+
+    expect(byDescription.get('CAPITAL ONE MOBILE PYMT')).toMatchObject({
+      amount: 500, direction: 'credit', category: 'Financial', subcategory: 'Credit Card Payment',
+    });
+    expect(byDescription.get('WHOLEFDS MKT 10234')).toMatchObject({
+      date: '2024-12-10', postedDate: '2024-12-11', amount: -120, direction: 'debit',
+    });
+    expect(byDescription.get('NETFLIX.COM')?.date).toBe('2025-01-02');
+    expect(byDescription.get('PAST DUE FEE')).toMatchObject({ amount: -39, category: 'Fees', subcategory: 'Bank' });
+    expect(byDescription.get('Interest Charge on Purchases')).toMatchObject({
+      date: '2025-01-05', amount: -14.65, category: 'Fees', subcategory: 'Interest',
+    });
+    expect(byDescription.has('Interest Charge on Cash Advances')).toBe(false);
+    expect(statement?.transactions).toHaveLength(7);
+  });
+});
+
+describe('Capital One 360 statements', () => {
+  const statements = parseCapitalOneStatements(createMockPDF(STATEMENT_360), { strict: true, verbose: false });
+
+  it('should emit one statement per account', () => {
+    expect(statements.map((s) => [s.account.accountType, s.account.accountNumberMasked])).toEqual([
+      ['checking', '****4567'],
+      ['savings', '****9876'],
+    ]);
+    expect(statements.every((s) => s.metadata.warnings.length === 0)).toBe(true);
+  });
+
+  it('should use the opening and closing balance rows', () => {
+    expect(statements[0]?.summary).toEqual({
+      startingBalance: 1000,
+      endingBalance: 2494.87,
+      totalCredits: 2000.12,
+      totalDebits: 505.25,
+    });
+    expect(statements[0]?.transactions[0]).toMatchObject({
+      date: '2025-01-03',
+      description: 'Debit Card Purchase - STARBUCKS 1234 SEATTLE WA',
+      amount: -5.25,
+    });
+  });
+
+  it('should pass the integrity check', () => {
+    expect(checkIntegrity(statements).overallValid).toBe(true);
+  });
+});
+
+describe('parseCapitalOneLayout', () => {
+  const item = (str: string, x: number, y: number): TextItem => ({
+    str, x, y, width: str.length * 5, height: 10, page: 1,
+  });
+  const line = (y: number, text: string): TextItem => item(text, 40, y);
+
+  // Description runs right up to the amount, which plain text extraction
+  // would glue together ("...STORE 00420$64.10")
+  const layout: LayoutExtractedPDF = {
+    items: [
+      line(760, 'Capital One'),
+      line(745, 'Account ending in 9012'),
+      line(730, 'Mar 6, 2025 - Apr 5, 2025'),
+      line(715, 'Previous Balance $100.00'),
+      line(700, 'New Balance = $164.10'),
+      line(685, 'Interest Charged + $0.00'),
+      line(670, 'Transactions'),
+      item('Trans Date', 40, 655), item('Post Date', 100, 655),
+      item('Description', 160, 655), item('Amount', 480, 655),
+      item('Mar 9', 40, 640), item('Mar 10', 100, 640),
+      item('TARGET STORE 00420', 160, 640), item('$64.10', 480, 640),
+    ],
+    totalPages: 1,
+    metadata: {},
+  };
+
+  it('should read transaction cells through header column detection', () => {
+    const [statement] = parseCapitalOneLayout(layout, { strict: true, verbose: false });
+
+    expect(statement?.transactions).toHaveLength(1);
+    expect(statement?.transactions[0]).toMatchObject({
+      date: '2025-03-09',
+      postedDate: '2025-03-10',
+      description: 'TARGET STORE 00420',
+      amount: -64.1,
+    });
+    expect(statement?.metadata.warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createParserRegistry,
+  detectChime,
+  detectBoa,
+  extractChimeChannel,
+  parseChimeStatement,
+  parseChimeMultipleStatements,
+} from '@findata/boa-parser';
+import { toFinalResultV2, exportCsv, exportOfx } from '@findata/output';
+import { ParsedStatementSchema } from '@findata/types';
+import type { ExtractedPDF } from '@findata/pdf-extract';
+
+const createMockPDF = (text: string): ExtractedPDF => {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const cleanText = lines.join('\n');
+  return {
+    pages: [{ pageNumber: 1, text: cleanText, lines }],
+    fullText: cleanText,
+    totalPages: 1,
+    metadata: {},
+  };
+};
+
+const SPENDING_STATEMENT = `
+  Chime
+  Spending Account Statement
+  Member Name: Jane Doe
+  Account number: 0001234567
+  Statement period: October 1, 2024 - October 31, 2024
+  Summary
+  Beginning balance $1,000.00
+  Ending balance $2,830.45
+  Transactions
+  TRANSACTION DATE DESCRIPTION TYPE AMOUNT NET AMOUNT SETTLEMENT DATE
+  10/01/2024 ACME CORP PAYROLL Direct Deposit $2,500.00 $2,500.00 10/01/2024
+  10/03/2024 WHOLEFDS MKT 10234 AUSTIN TX Purchase $54.55 -$54.55 10/04/2024
+  10/03/2024 Round Up Transfer to Chime Savings Account Round Up -$0.45 -$0.45 10/04/2024
+  10/05/2024 Save When I Get Paid Transfer to Chime Savings Transfer -$250.00 -$250.00 10/05/2024
+  10/12/2024 ALLPOINT ATM 4412 AUSTIN TX ATM Withdrawal $60.00 -$60.00 10/12/2024
+  10/20/2024 Pay Anyone to John Smith Transfer -$300.00 -$300.00 10/20/2024
+  10/22/2024 SpotMe Tip SpotMe Tip $4.55 -$4.55 10/22/2024
+  The Bancorp Bank, N.A. or Stride Bank, N.A.; Members FDIC
+`;
+
+const SAVINGS_STATEMENT = `
+  Chime
+  Savings Account Statement
+  Account number: 0009876543
+  Statement period: October 1, 2024 - October 31, 2024
+  Beginning balance $500.00
+  Ending balance $750.48
+  TRANSACTION DATE DESCRIPTION TYPE AMOUNT NET AMOUNT SETTLEMENT DATE
+  10/03/2024 Round Up Transfer from Chime Spending Account Round Up $0.45 $0.45 10/04/2024
+  10/05/2024 Save When I Get Paid Transfer from Chime Spending Transfer $250.00 $250.00 10/05/2024
+  10/31/2024 Interest Paid Interest $0.03 $0.03 10/31/2024
+`;
+
+describe('detectChime', () => {
+  it('should score Chime statements highly', () => {
+    expect(detectChime(createMockPDF(SPENDING_STATEMENT))).toBe(0.95);
+    expect(detectChime(createMockPDF(SAVINGS_STATEMENT))).toBe(0.95);
+  });
+
+  it('should return 0 for documents that do not mention Chime', () => {
+    expect(detectChime(createMockPDF('Bank of America\nBeginning balance $1.00'))).toBe(0);
+  });
+
+  it('should be selected over the Bank of America parser by the default registry', () => {
+    const pdf = createMockPDF(SPENDING_STATEMENT);
+    expect(detectBoa(pdf)).toBeLessThan(detectChime(pdf));
+    expect(createParserRegistry().select(pdf)?.parser.id).toBe('chime');
+  });
+});
+
+describe('extractChimeChannel', () => {
+  it('should classify Chime transfer and round-up lines', () => {
+    expect(extractChimeChannel('Round Up Transfer to Chime Savings Account', 'Round Up'))
+      .toEqual({ type: 'ONLINE_BANKING_TRANSFER', subtype: 'round_up' });
+    expect(extractChimeChannel('Save When I Get Paid Transfer to Chime Savings', 'Transfer'))
+      .toEqual({ type: 'ONLINE_BANKING_TRANSFER', subtype: 'save_when_i_get_paid' });
+    expect(extractChimeChannel('Transfer from Chime Savings', 'Transfer'))
+      .toEqual({ type: 'ONLINE_BANKING_TRANSFER', subtype: 'transfer_from_sav' });
+    expect(extractChimeChannel('Pay Anyone to John Smith', 'Transfer'))
+      .toEqual({ type: 'ONLINE_BANKING_TRANSFER', subtype: 'pay_anyone' });
+  });
+
+  it('should map the TYPE column for card and ATM activity', () => {
+    expect(extractChimeChannel('WHOLEFDS MKT 10234', 'Purchase').type).toBe('PURCHASE');
+    expect(extractChimeChannel('ALLPOINT ATM 4412', 'ATM Withdrawal').type).toBe('ATM_WITHDRAWAL');
+    expect(extractChimeChannel('SpotMe Tip', 'SpotMe Tip')).toEqual({ type: 'OTHER', subtype: 'spotme' });
+  });
+});
+
+describe('parseChimeStatement', () => {
+  it('should parse a Spending Account statement into the shared statement shape', () => {
+    const { statement } = parseChimeStatement(createMockPDF(SPENDING_STATEMENT), { strict: true, verbose: false });
+
+    expect(ParsedStatementSchema.safeParse(statement).success).toBe(true);
+    expect(statement.account).toEqual({
+      institution: 'Chime',
+      institutionId: 'chime',
+      accountType: 'checking',
+      accountNumberMasked: '****4567',
+      statementPeriod: { start: '2024-10-01', end: '2024-10-31' },
+      currency: 'USD',
+    });
+    expect(statement.summary).toEqual({
+      startingBalance: 1000,
+      endingBalance: 2830.45,
+      totalCredits: 2500,
+      totalDebits: 669.55,
+    });
+    expect(statement.metadata.warnings).toEqual([]);
+  });
+
+  it('should sign amounts from the TYPE column and strip it from descriptions', () => {
+    const { statement } = parseChimeStatement(createMockPDF(SPENDING_STATEMENT));
+    const [payroll, purchase, roundUp] = statement.transactions;
+
+    expect(payroll).toMatchObject({ description: 'ACME CORP PAYROLL', amount: 2500, direction: 'credit', category: 'Income' });
+    expect(purchase).toMatchObject({ description: 'WHOLEFDS MKT 10234 AUSTIN TX', amount: -54.55, direction: 'debit', postedDate: '2024-10-04' });
+    expect(roundUp).toMatchObject({ amount: -0.45, direction: 'debit', category: 'Transfer', subcategory: 'Internal' });
+  });
+
+  it('should parse a Savings Account statement', () => {
+    const { statement } = parseChimeStatement(createMockPDF(SAVINGS_STATEMENT), { strict: true, verbose: false });
+
+    expect(statement.account.accountType).toBe('savings');
+    expect(statement.account.accountNumberMasked).toBe('****6543');
+    expect(statement.transactions).toHaveLength(3);
+    expect(statement.transactions.every((t) => t.direction === 'credit')).toBe(true);
+    expect(statement.metadata.warnings).toEqual([]);
+  });
+
+  it('should split combined Spending and Savings statements', () => {
+    const result = parseChimeMultipleStatements(createMockPDF(`${SPENDING_STATEMENT}\n${SAVINGS_STATEMENT}`));
+
+    expect(result.statements.map((s) => s.account.accountType)).toEqual(['checking', 'savings']);
+    expect(result.totalTransactions).toBe(10);
+  });
+});
+
+describe('Chime output', () => {
+  const statements = parseChimeMultipleStatements(
+    createMockPDF(`${SPENDING_STATEMENT}\n${SAVINGS_STATEMENT}`)
+  ).statements;
+  const v2 = toFinalResultV2({
+    statements,
+    totalStatements: statements.length,
+    totalTransactions: statements.reduce((sum, s) => sum + s.transactions.length, 0),
+  });
+
+  it('should roll up into the v2 result', () => {
+    expect(v2.accounts).toHaveLength(2);
+    expect(v2.accounts[0]?.account.institution).toBe('Chime');
+    expect(v2.accounts[0]?.transactions[0]?.statementId).toMatch(/^CHIME-checking-\*{4}4567-/);
+  });
+
+  it('should export to CSV and OFX', () => {
+    const csv = exportCsv(v2);
+    expect(csv).toContain('WHOLEFDS MKT 10234 AUSTIN TX');
+    expect(csv).toContain('Round Up Transfer to Chime Savings Account');
+
+    const ofx = exportOfx(v2);
+    expect(ofx).toContain('<ACCTTYPE>CHECKING</ACCTTYPE>');
+    expect(ofx).toContain('<ACCTTYPE>SAVINGS</ACCTTYPE>');
+    expect(ofx).toContain('<TRNAMT>-54.55</TRNAMT>');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { parseCreditStatement } from '@findata/boa-parser';
+import type { ExtractedPDF } from '@findata/pdf-extract';
+
+const createMockPDF = (text: string, pageCount = 1): ExtractedPDF => {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const cleanText = lines.join('\n');
+  return {
+    pages: [{ pageNumber: 1, text: cleanText, lines }],
+    fullText: cleanText,
+    totalPages: pageCount,
+    metadata: {},
+  };
+};
+
+const CREDIT_STATEMENT = `
+  Customized Cash Rewards Visa Signature
+  Account number ending in 4821
+  Billing period: February 12, 2025 - March 11, 2025
+  Payment Information
+  New Balance Total $1,245.67
+  Minimum Payment Due $35.00
+  Payment Due Date 04/08/2025
+  Late Payment Warning: If we do not receive your minimum payment by the date listed above, you may have to pay a late fee of up to $40.00 and your APRs may be increased up to the Penalty APR of 29.99%.
+  Account Summary
+  Previous Balance $980.12
+  Payments and Other Credits -$980.12
+  Purchases and Adjustments $1,210.55
+  Fees Charged $0.00
+  Interest Charged $35.12
+  New Balance Total $1,245.67
+  Credit Limit $5,000.00
+  Credit Available $3,754.33
+  Cash Credit Line $1,500.00
+  Cash Credit Available $1,500.00
+  Statement Closing Date 03/11/2025
+  Cash Rewards Earned This Period $18.42
+  Interest Charge Calculation
+  Purchases 21.99% V $1,150.20 $20.81
+  Balance Transfers 0.00% $0.00 $0.00
+  Cash Advances 27.49% V $624.35 $14.31
+  Total Fees Charged for this Period $0.00
+  Total Interest Charged for this Period $35.12
+`;
+
+describe('parseCreditStatement credit details', () => {
+  it('should extract limit, available credit and payment information', () => {
+    const details = parseCreditStatement(createMockPDF(CREDIT_STATEMENT)).creditDetails;
+
+    expect(details?.creditLimit).toBe(5000);
+    expect(details?.availableCredit).toBe(3754.33);
+    expect(details?.paymentDueDate).toBe('2025-04-08');
+    expect(details?.minimumPaymentDue).toBe(35);
+  });
+
+  it('should extract APRs per balance type', () => {
+    const details = parseCreditStatement(createMockPDF(CREDIT_STATEMENT)).creditDetails;
+
+    expect(details?.aprs).toEqual([
+      { balanceType: 'Purchases', apr: 21.99, balanceSubjectToInterest: 1150.2, interestCharged: 20.81 },
+      { balanceType: 'Balance Transfers', apr: 0, balanceSubjectToInterest: 0, interestCharged: 0 },
+      { balanceType: 'Cash Advances', apr: 27.49, balanceSubjectToInterest: 624.35, interestCharged: 14.31 },
+    ]);
+  });
+
+  it('should extract interest, fees, rewards and the late payment warning', () => {
+    const details = parseCreditStatement(createMockPDF(CREDIT_STATEMENT)).creditDetails;
+
+    expect(details?.interestCharged).toBe(35.12);
+    expect(details?.feesCharged).toBe(0);
+    expect(details?.rewards).toEqual({ earned: 18.42, unit: 'cash' });
+    expect(details?.latePaymentWarning).toEqual({ lateFee: 40, penaltyApr: 29.99 });
+  });
+
+  it('should read points rewards and written-out due dates', () => {
+    const details = parseCreditStatement(createMockPDF(`
+      Travel Rewards Visa Signature
+      Account number ending in 4821
+      Billing period: February 12, 2025 - March 11, 2025
+      Payment Due Date: April 8, 2025
+      Points Earned This Period 1,842
+    `)).creditDetails;
+
+    expect(details?.paymentDueDate).toBe('2025-04-08');
+    expect(details?.rewards).toEqual({ earned: 1842, unit: 'points' });
+    expect(details?.creditLimit).toBeNull();
+    expect(details?.aprs).toEqual([]);
+    expect(details?.latePaymentWarning).toBeNull();
+  });
+
+  it('should return null when the statement has no credit details', () => {
+    const result = parseCreditStatement(createMockPDF(`
+      Account number ending in 4821
+      Billing period: February 12, 2025 - March 11, 2025
+      Previous Balance $980.12
+      New Balance $1,245.67
+    `));
+
+    expect(result.creditDetails).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  ParserRegistry,
+  createParserRegistry,
+  detectBoa,
+  loadParserPlugins,
+  loadParserConfig,
+  restoreParserRegistry,
+  type InstitutionParser,
+} from '@findata/boa-parser';
+import type { ExtractedPDF } from '@findata/pdf-extract';
+import type { ParsedStatement } from '@findata/types';
+
+const createMockPDF = (text: string): ExtractedPDF => ({
+  pages: [{ pageNumber: 1, text, lines: text.split('\n') }],
+  fullText: text,
+  totalPages: 1,
+  metadata: {},
+});
+
+const createStubParser = (id: string, keyword: string, confidence = 0.95): InstitutionParser => ({
+  id,
+  institution: `${id} bank`,
+  detect: (pdf) => (pdf.fullText.includes(keyword) ? confidence : 0),
+  parse: (): ParsedStatement[] => [],
+});
+
+describe('ParserRegistry', () => {
+  it('should register the built-in parsers by default', () => {
+    const registry = createParserRegistry();
+    expect(registry.list().map((p) => p.id)).toEqual(['boa', 'chime', 'capitalone']);
+    expect(registry.get('boa')?.institution).toBe('Bank of America');
+    expect(registry.get('chime')?.institution).toBe('Chime');
+  });
+
+  it('should reject duplicate parser ids unless replace is set', () => {
+    const registry = new ParserRegistry();
+    registry.register(createStubParser('acme', 'ACME'));
+
+    expect(() => registry.register(createStubParser('acme', 'ACME'))).toThrow(/already registered/);
+    expect(() => registry.register(createStubParser('acme', 'ACME'), { replace: true })).not.toThrow();
+  });
+
+  it('should reject objects that are not institution parsers', () => {
+    const registry = new ParserRegistry();
+    expect(() => registry.register({ id: 'broken' } as unknown as InstitutionParser)).toThrow(/Invalid institution parser/);
+  });
+
+  it('should select the parser with the highest confidence', () => {
+    const registry = createParserRegistry();
+    registry.register(createStubParser('acme', 'ACME Credit Union'));
+
+    const pdf = createMockPDF(`
+      ACME Credit Union
+      Beginning balance: $1,000.00
+      Ending balance: $1,500.00
+      Deposits and other additions
+      Withdrawals and other subtractions
+    `);
+
+    const match = registry.select(pdf);
+    expect(match?.parser.id).toBe('acme');
+    expect(registry.detectAll(pdf).map((m) => m.parser.id)).toEqual(['acme', 'boa']);
+  });
+
+  it('should return null when no parser reaches the minimum confidence', () => {
+    const registry = createParserRegistry();
+    const pdf = createMockPDF('Some unrelated document');
+
+    expect(registry.select(pdf)).toBeNull();
+    expect(() => registry.parse(pdf)).toThrow(/No registered institution parser/);
+  });
+});
+
+describe('detectBoa', () => {
+  it('should score named Bank of America statements highest', () => {
+    const pdf = createMockPDF(`
+      Bank of America
+      Beginning balance: $1,000.00
+      Ending balance: $1,500.00
+      Deposits and other additions
+      Withdrawals and other subtractions
+    `);
+    expect(detectBoa(pdf)).toBe(0.9);
+  });
+
+  it('should give a low score to an unnamed deposit-account layout', () => {
+    const pdf = createMockPDF(`
+      Beginning balance: $1,000.00
+      Ending balance: $1,500.00
+      Deposits and other additions
+    `);
+    expect(detectBoa(pdf)).toBe(0.3);
+  });
+
+  it('should return 0 for unrelated documents', () => {
+    expect(detectBoa(createMockPDF('Invoice #123'))).toBe(0);
+  });
+});
+
+describe('parser plugins', () => {
+  let testDir: string;
+
+  const pluginSource = `
+export default {
+  id: 'plugin-bank',
+  institution: 'Plugin Bank',
+  detect: (pdf) => (pdf.fullText.includes('Plugin Bank') ? 0.99 : 0),
+  parse: () => [],
+};
+`;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `parser-plugin-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'plugin-bank.mjs'), pluginSource);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should load a plugin module by path', async () => {
+    const registry = createParserRegistry();
+    const loaded = await loadParserPlugins(registry, ['./plugin-bank.mjs'], testDir);
+
+    expect(loaded.map((p) => p.id)).toEqual(['plugin-bank']);
+    expect(registry.select(createMockPDF('Plugin Bank statement'))?.parser.id).toBe('plugin-bank');
+  });
+
+  it('should load plugins listed in a config file', async () => {
+    const configPath = join(testDir, 'parsers.json');
+    await writeFile(configPath, JSON.stringify({ plugins: ['./plugin-bank.mjs'] }));
+
+    const registry = createParserRegistry();
+    await loadParserConfig(registry, configPath);
+
+    expect(registry.get('plugin-bank')).not.toBeNull();
+  });
+
+  it('should reject config files without a plugins array', async () => {
+    const configPath = join(testDir, 'parsers.json');
+    await writeFile(configPath, JSON.stringify({ parsers: 'nope' }));
+
+    await expect(loadParserConfig(createParserRegistry(), configPath)).rejects.toThrow(/"plugins" must be an array/);
+  });
+
+  it('should load CommonJS plugins that export parser or parsers on module.exports', async () => {
+    const parser = (id: string): string =>
+      `{ id: '${id}', institution: 'CJS Bank', detect: (pdf) => (pdf.fullText.includes('CJS Bank') ? 0.9 : 0), parse: () => [] }`;
+    await writeFile(join(testDir, 'single.cjs'), `const parser = ${parser('cjs-single')};\nmodule.exports = { parser };\n`);
+    await writeFile(join(testDir, 'many.cjs'), `module.exports = { parsers: [${parser('cjs-a')}, ${parser('cjs-b')}] };\n`);
+
+    const registry = createParserRegistry();
+    const loaded = await loadParserPlugins(registry, ['./single.cjs', './many.cjs'], testDir);
+
+    expect(loaded.map((p) => p.id)).toEqual(['cjs-single', 'cjs-a', 'cjs-b']);
+  });
+
+  it('should reject modules that do not export a parser', async () => {
+    await writeFile(join(testDir, 'empty.mjs'), 'export const nothing = 1;');
+
+    await expect(loadParserPlugins(createParserRegistry(), ['./empty.mjs'], testDir)).rejects.toThrow(/must export an InstitutionParser/);
+  });
+
+  it('should rebuild a registry from its snapshot', async () => {
+    const registry = createParserRegistry();
+    await loadParserPlugins(registry, ['./plugin-bank.mjs'], testDir);
+    registry.unregister('chime');
+
+    const snapshot = registry.snapshot();
+    expect(snapshot.parserIds).toEqual(['boa', 'capitalone', 'plugin-bank']);
+    expect(snapshot.pluginModules).toHaveLength(1);
+
+    const restored = await restoreParserRegistry(snapshot);
+    expect(restored.list().map((p) => p.id)).toEqual(['boa', 'capitalone', 'plugin-bank']);
+    expect(restored.select(createMockPDF('Plugin Bank statement'))?.parser.id).toBe('plugin-bank');
+  });
+
+  it('should refuse to snapshot parsers registered directly', () => {
+    const registry = createParserRegistry();
+    registry.register({ id: 'inline', institution: 'Inline Bank', detect: () => 0, parse: () => [] });
+
+    expect(() => registry.snapshot()).toThrow(/"inline" was registered directly/);
+  });
+});
@@ -295,6 +295,26 @@ describe('schema-registry', () => {
       expect(result.errors).toHaveLength(0);
     });
 
+    it('should accept any institution with identity fields in v2 output', () => {
+      const [block] = validV2Output.accounts;
+      const account = {
+        ...block!.account,
+        institution: 'Capital One',
+        institutionId: 'capitalone',
+        routingNumber: '056073502',
+      };
+      const result = validateOutput('v2', { ...validV2Output, accounts: [{ ...block!, account }] });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject malformed institution identity fields in v2 output', () => {
+      const [block] = validV2Output.accounts;
+      const badId = { ...block!.account, institutionId: 'Capital One' };
+      const badRouting = { ...block!.account, routingNumber: '12345' };
+      expect(validateOutput('v2', { ...validV2Output, accounts: [{ ...block!, account: badId }] }).valid).toBe(false);
+      expect(validateOutput('v2', { ...validV2Output, accounts: [{ ...block!, account: badRouting }] }).valid).toBe(false);
+    });
+
     it('should reject invalid v1 output', () => {
       const result = validateOutput('v1', { invalid: true });
       expect(result.valid).toBe(false);
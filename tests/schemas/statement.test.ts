@@ -97,9 +97,60 @@ describe('AccountSchema', () => {
     expect(result.success).toBe(false);
   });
 
-  it('should reject invalid institution', () => {
+  it('should accept institutions other than Bank of America', () => {
     const account = {
-      institution: 'Chase',
+      institution: 'Chime',
+      accountType: 'savings',
+      accountNumberMasked: '****1234',
+      statementPeriod: {
+        start: '2024-01-01',
+        end: '2024-01-31',
+      },
+      currency: 'USD',
+    };
+
+    const result = AccountSchema.safeParse(account);
+    expect(result.success).toBe(true);
+  });
+
+  it('should accept optional institution identity fields', () => {
+    const account = {
+      institution: 'Bank of America',
+      institutionId: 'boa',
+      routingNumber: '026009593',
+      fid: '5959',
+      accountType: 'checking',
+      accountNumberMasked: '****1234',
+      statementPeriod: {
+        start: '2024-01-01',
+        end: '2024-01-31',
+      },
+      currency: 'USD',
+    };
+
+    const result = AccountSchema.safeParse(account);
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject a non-slug institutionId and a malformed routing number', () => {
+    const account = {
+      institution: 'Bank of America',
+      accountType: 'checking',
+      accountNumberMasked: '****1234',
+      statementPeriod: {
+        start: '2024-01-01',
+        end: '2024-01-31',
+      },
+      currency: 'USD',
+    };
+
+    expect(AccountSchema.safeParse({ ...account, institutionId: 'Bank Of America' }).success).toBe(false);
+    expect(AccountSchema.safeParse({ ...account, routingNumber: '0260-0959' }).success).toBe(false);
+  });
+
+  it('should reject an empty institution', () => {
+    const account = {
+      institution: '',
       accountType: 'checking',
       accountNumberMasked: '****1234',
       statementPeriod: {
@@ -112,6 +163,22 @@ describe('AccountSchema', () => {
     const result = AccountSchema.safeParse(account);
     expect(result.success).toBe(false);
   });
+  it('should require an upper-case ISO 4217 currency code', () => {
+    const account = {
+      institution: 'Example Bank',
+      accountType: 'checking',
+      accountNumberMasked: '****1234',
+      statementPeriod: {
+        start: '2024-01-01',
+        end: '2024-01-31',
+      },
+      currency: 'EUR',
+    };
+
+    expect(AccountSchema.safeParse(account).success).toBe(true);
+    expect(AccountSchema.safeParse({ ...account, currency: 'eur' }).success).toBe(false);
+    expect(AccountSchema.safeParse({ ...account, currency: 'EURO' }).success).toBe(false);
+  });
 });
 
 describe('ParsedStatementSchema', () => {
@@ -0,0 +1,459 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteStorage, SqlitePlaidItemStore, applySqliteSchema, openSqliteDatabase, openSqliteStorage } from '@findata/store';
+import type { CreditCycle, FinalResultV2 } from '@findata/output';
+import type { PlaidItem } from '@findata/types';
+
+const createMockV2Result = (): FinalResultV2 => ({
+  schemaVersion: 'v2',
+  startingBalance: 1000,
+  endingBalance: 1150,
+  totalStatements: 1,
+  totalTransactions: 2,
+  analytics: {
+    quarterlyCashFlow: [],
+    incomeVsExpenses: {
+      totalIncome: 200,
+      totalExpenses: 50,
+      netIncome: 150,
+      incomeByCategory: {},
+      expensesByCategory: {},
+      excludedTransfers: 0,
+      periodStart: '2025-01-01',
+      periodEnd: '2025-01-31',
+    },
+    lenderSummary: {
+      averageMonthlyIncome: 200,
+      averageMonthlyExpenses: 50,
+      monthlyIncomeVariance: 0,
+      incomeStabilityScore: 100,
+      consecutiveMonthsWithIncome: 1,
+      totalMonthsAnalyzed: 1,
+      monthlyBreakdown: [],
+      incomeSourceDiversity: 1,
+      regularIncomeDetected: true,
+      estimatedAnnualIncome: 2400,
+    },
+    taxPreparation: {
+      taxYear: 2025,
+      totalTaxableIncome: 200,
+      totalDeductibleExpenses: 0,
+      potentialDeductions: [],
+      incomeCategories: [],
+      reviewRequired: [],
+      summary: {
+        businessExpenses: 0,
+        medicalExpenses: 0,
+        charitableContributions: 0,
+        homeOffice: 0,
+        professionalServices: 0,
+        otherDeductible: 0,
+      },
+    },
+  },
+  integrity: {
+    overallValid: true,
+    statementsChecked: 1,
+    statementsWithIssues: 0,
+    statementResults: [],
+    summary: {
+      totalDiscrepancies: 0,
+      totalDelta: 0,
+      warnings: [],
+      epsilon: 0.01,
+    },
+  },
+  accounts: [
+    {
+      account: {
+        institution: 'Bank of America',
+        accountType: 'checking',
+        accountNumberMasked: '****3529',
+        statementPeriod: {
+          start: '2025-01-01',
+          end: '2025-01-31',
+        },
+        currency: 'USD',
+      },
+      summary: {
+        startingBalance: 1000,
+        endingBalance: 1150,
+        totalCredits: 200,
+        totalDebits: 50,
+      },
+      transactions: [
+        {
+          date: '2025-01-15',
+          postedDate: '2025-01-16',
+          description: 'Direct Deposit ACME Corp',
+          merchant: 'ACME Corp',
+          amount: 200,
+          direction: 'credit',
+          category: 'Income',
+          subcategory: 'Salary',
+          confidence: 0.95,
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          transactionId: 'tx_abcdef1234567890abcdef12',
+          raw: {
+            originalText: '01/15 01/16 Direct Deposit ACME Corp 200.00',
+            page: 1,
+          },
+        },
+        {
+          date: '2025-01-20',
+          postedDate: null,
+          description: 'CHECKCARD 0120 AMAZON MKTPLACE',
+          merchant: 'Amazon',
+          amount: -50,
+          direction: 'debit',
+          category: 'Shopping',
+          subcategory: 'Online',
+          confidence: 0.9,
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          transactionId: 'tx_123456789012345678901234',
+          raw: {
+            originalText: '01/20 CHECKCARD 0120 AMAZON MKTPLACE -50.00',
+            page: 2,
+          },
+        },
+      ],
+      totalStatements: 1,
+      totalTransactions: 2,
+    },
+  ],
+});
+
+
+describe('SqliteStorage', () => {
+  let storage: SqliteStorage;
+
+  beforeEach(() => {
+    storage = openSqliteStorage(':memory:', 'user_1');
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  describe('importV2Result', () => {
+    it('should create accounts, statements and transactions', async () => {
+      const stats = await storage.importV2Result({ result: createMockV2Result() });
+
+      expect(stats).toEqual({
+        accountsCreated: 1,
+        accountsExisting: 0,
+        statementsCreated: 1,
+        statementsUpdated: 0,
+        transactionsInserted: 2,
+        transactionsSkipped: 0,
+      });
+    });
+
+    it('should deduplicate on re-import', async () => {
+      await storage.importV2Result({ result: createMockV2Result() });
+      const stats = await storage.importV2Result({ result: createMockV2Result() });
+
+      expect(stats.accountsExisting).toBe(1);
+      expect(stats.statementsUpdated).toBe(1);
+      expect(stats.transactionsInserted).toBe(0);
+      expect(stats.transactionsSkipped).toBe(2);
+      expect(await storage.getTransactions()).toHaveLength(2);
+    });
+
+    it('should store debits as negative amounts and parse JSON columns', async () => {
+      await storage.importV2Result({ result: createMockV2Result() });
+
+      const debit = await storage.getTransactionByTransactionId('tx_123456789012345678901234');
+      expect(debit?.amount).toBe(-50);
+      expect(debit?.merchant).toEqual({ name: 'Amazon' });
+      expect(debit?.raw).toEqual({ originalText: '01/20 CHECKCARD 0120 AMAZON MKTPLACE -50.00', page: 2 });
+      expect(await storage.getTransactionByTransactionId('tx_missing')).toBeNull();
+    });
+
+    it('should derive the statement period and totals', async () => {
+      await storage.importV2Result({ result: createMockV2Result() });
+
+      const [statement] = await storage.getStatements();
+      expect(statement?.period_start).toBe('2025-01-01');
+      expect(statement?.period_end).toBe('2025-01-31');
+      expect(statement?.total_credits).toBe(200);
+      expect(statement?.total_debits).toBe(50);
+      expect(statement?.ending_balance).toBe(1150);
+      expect(statement?.provenance).toEqual({});
+      expect(statement?.credit_limit).toBeNull();
+      expect(statement?.credit_details).toBeNull();
+    });
+
+    it('should store credit card cycle details', async () => {
+      const result = createMockV2Result();
+      const account = result.accounts[0]!;
+      account.creditCycles = [
+        {
+          statementId: 'BOA-checking-****3529-2025-01-01-2025-01-31',
+          periodLabel: '2025-01 BOA Checking',
+          statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+          startingBalance: 1000,
+          endingBalance: 1150,
+          creditLimit: 4600,
+          availableCredit: 3450,
+          paymentDueDate: '2025-02-25',
+          minimumPaymentDue: 35,
+          aprs: [{ balanceType: 'Purchases', apr: 21.99, balanceSubjectToInterest: 1000, interestCharged: 18.07 }],
+          interestCharged: 18.07,
+          feesCharged: 0,
+          rewards: { earned: 12.5, unit: 'cash' },
+          latePaymentWarning: { lateFee: 40, penaltyApr: 29.99 },
+          utilization: 0.25,
+        },
+      ];
+
+      await storage.importV2Result({ result });
+
+      const [statement] = await storage.getStatements();
+      expect(statement).toMatchObject({
+        credit_limit: 4600,
+        available_credit: 3450,
+        payment_due_date: '2025-02-25',
+        minimum_payment_due: 35,
+        interest_charged: 18.07,
+        fees_charged: 0,
+      });
+      expect(statement?.credit_details).toEqual({
+        aprs: [{ balanceType: 'Purchases', apr: 21.99, balanceSubjectToInterest: 1000, interestCharged: 18.07 }],
+        rewards: { earned: 12.5, unit: 'cash' },
+        latePaymentWarning: { lateFee: 40, penaltyApr: 29.99 },
+      });
+
+      const [cycle] = await storage.getCreditCardCycles();
+      expect(cycle).toMatchObject({ utilization: 0.25, cumulative_interest: 18.07 });
+      expect(cycle?.credit_details).toMatchObject({ rewards: { earned: 12.5, unit: 'cash' } });
+    });
+
+    it('should store each credit card cycle with its own balances', async () => {
+      const result = createMockV2Result();
+      const account = result.accounts[0]!;
+      const cycle = (start: string, end: string, startingBalance: number, endingBalance: number): CreditCycle => ({
+        statementId: `BOA-credit-****3529-${start}-${end}`,
+        periodLabel: `${start.slice(0, 7)} BOA Credit`,
+        statementPeriod: { start, end },
+        startingBalance,
+        endingBalance,
+        creditLimit: 5000,
+        availableCredit: 5000 - endingBalance,
+        paymentDueDate: null,
+        minimumPaymentDue: null,
+        aprs: [],
+        interestCharged: null,
+        feesCharged: null,
+        rewards: null,
+        latePaymentWarning: null,
+        utilization: endingBalance / 5000,
+      });
+      const [january, february] = [cycle('2025-01-01', '2025-01-31', 0, 2500), cycle('2025-02-01', '2025-02-28', 2500, 1000)];
+      account.account.accountType = 'credit';
+      account.summary = { ...account.summary, startingBalance: 0, endingBalance: 1000 };
+      account.creditCycles = [january, february];
+      account.transactions = [
+        { ...account.transactions[1]!, statementId: january.statementId },
+        { ...account.transactions[0]!, date: '2025-02-15', statementId: february.statementId },
+      ];
+
+      await storage.importV2Result({ result });
+
+      const cycles = await storage.getCreditCardCycles();
+      expect(cycles.map((c) => [c.period_end, c.ending_balance, c.utilization])).toEqual([
+        ['2025-01-31', 2500, 0.5],
+        ['2025-02-28', 1000, 0.2],
+      ]);
+      const statements = await storage.getStatements();
+      expect(statements.map((s) => [s.period_start, s.starting_balance])).toEqual(
+        expect.arrayContaining([['2025-01-01', 0], ['2025-02-01', 2500]])
+      );
+    });
+
+    it('should add credit columns to databases created before them', async () => {
+      const db = storage.getDatabase();
+      db.exec('drop view credit_card_cycles');
+      db.exec('alter table statements drop column credit_details');
+      db.exec('alter table statements drop column credit_limit');
+
+      applySqliteSchema(db);
+
+      const columns = (db.pragma('table_info(statements)') as Array<{ name: string }>).map((c) => c.name);
+      expect(columns).toEqual(expect.arrayContaining(['credit_limit', 'credit_details']));
+      expect(await storage.getCreditCardCycles()).toEqual([]);
+    });
+  });
+
+  describe('queries', () => {
+    beforeEach(async () => {
+      await storage.importV2Result({ result: createMockV2Result() });
+    });
+
+    it('should filter transactions', async () => {
+      expect(await storage.getTransactions({ direction: 'credit' })).toHaveLength(1);
+      expect(await storage.getTransactions({ startDate: '2025-01-18' })).toHaveLength(1);
+      expect(await storage.getTransactions({ maxAmount: 0 })).toHaveLength(1);
+      expect(await storage.getTransactions({ limit: 1 })).toHaveLength(1);
+
+      const all = await storage.getTransactions();
+      expect(all.map((t) => t.date)).toEqual(['2025-01-20', '2025-01-15']);
+    });
+
+    it('should return account date ranges', async () => {
+      const [range] = await storage.getAccountDateRanges();
+      expect(range).toMatchObject({
+        institution: 'Bank of America',
+        accountType: 'checking',
+        accountNumberMasked: '****3529',
+        minDate: '2025-01-15',
+        maxDate: '2025-01-20',
+        transactionCount: 2,
+      });
+    });
+
+    it('should compute monthly category totals', async () => {
+      const totals = await storage.getMonthlyCategoryTotals();
+      const shopping = totals.find((t) => t.effective_category === 'Shopping');
+      expect(shopping).toMatchObject({
+        month: '2025-01-01',
+        total_debits: -50,
+        total_credits: 0,
+        net_amount: -50,
+        transaction_count: 1,
+      });
+    });
+
+    it('should compute a daily running balance', async () => {
+      const [account] = await storage.getAccounts();
+      const balance = await storage.getDailyBalance(account!.id);
+      expect(balance).toEqual([
+        { date: '2025-01-15', daily_net: 200, running_balance: 200, transaction_count: 1 },
+        { date: '2025-01-20', daily_net: -50, running_balance: 150, transaction_count: 1 },
+      ]);
+    });
+
+    it('should summarize accounts', async () => {
+      const [summary] = await storage.getAccountSummary();
+      expect(summary).toMatchObject({
+        statement_count: 1,
+        transaction_count: 2,
+        latest_balance: 1150,
+      });
+    });
+
+    it('should scope rows to the user', async () => {
+      const other = new SqliteStorage(storage.getDatabase(), 'user_2');
+      expect(await other.getTransactions()).toEqual([]);
+      expect(await other.getAccounts()).toEqual([]);
+    });
+  });
+
+  describe('overrides', () => {
+    it('should apply overrides in the effective views', async () => {
+      await storage.importV2Result({ result: createMockV2Result() });
+      const txn = await storage.getTransactionByTransactionId('tx_123456789012345678901234');
+
+      await storage.setTransactionOverride({
+        transactionDbId: txn!.id,
+        category: 'Uncategorized',
+        merchantNormalizedName: 'Amazon',
+        source: 'human',
+      });
+
+      const review = await storage.getTransactionsNeedingReview();
+      expect(review).toHaveLength(1);
+      expect(review[0]?.effective_merchant).toBe('Amazon');
+      expect(review[0]?.override_source).toBe('human');
+
+      const merchants = await storage.getMerchantSpending();
+      expect(merchants[0]).toMatchObject({ effective_merchant: 'Amazon', total_spent: 50 });
+    });
+
+    it('should update, list and delete overrides', async () => {
+      await storage.importV2Result({ result: createMockV2Result() });
+      const txn = await storage.getTransactionByTransactionId('tx_abcdef1234567890abcdef12');
+
+      const first = await storage.setTransactionOverride({ transactionDbId: txn!.id, category: 'Transfer', source: 'rule' });
+      const second = await storage.setTransactionOverride({ transactionDbId: txn!.id, category: 'Income', source: 'human' });
+
+      expect(second.id).toBe(first.id);
+      expect(second.category).toBe('Income');
+      expect(await storage.getAllOverrides()).toHaveLength(1);
+      expect(await storage.getOverridesBySource('rule')).toEqual([]);
+
+      await storage.deleteTransactionOverride(txn!.id);
+      expect(await storage.getTransactionOverride(txn!.id)).toBeNull();
+    });
+  });
+
+  it('should persist to a database file', async () => {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-storage-'));
+    const dbPath = path.join(testDir, 'nested', 'findata.db');
+    try {
+      const first = openSqliteStorage(dbPath);
+      await first.importV2Result({ result: createMockV2Result() });
+      await first.close();
+
+      const reopened = openSqliteStorage(dbPath);
+      expect(await reopened.getTransactions()).toHaveLength(2);
+      expect(reopened.userId).toBe('local');
+      await reopened.close();
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SqlitePlaidItemStore', () => {
+  const createTestItem = (overrides: Partial<PlaidItem> = {}): PlaidItem => ({
+    itemId: 'item_123',
+    accessToken: 'access-sandbox-xxx',
+    institutionId: 'ins_1',
+    institutionName: 'Test Bank',
+    userId: 'user_456',
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  let store: SqlitePlaidItemStore;
+
+  beforeEach(() => {
+    store = new SqlitePlaidItemStore(openSqliteDatabase(':memory:'));
+  });
+
+  it('should save and retrieve items', async () => {
+    const item = createTestItem({ availableProducts: ['transactions'], syncCursor: 'cursor-1' });
+    await store.saveItem(item);
+
+    expect(await store.getItem('item_123')).toEqual(item);
+    expect(await store.getItemByAccessToken('access-sandbox-xxx')).toEqual(item);
+    expect(await store.getItemsByUserId('user_456')).toHaveLength(1);
+    expect(await store.getAllItems()).toHaveLength(1);
+    expect(await store.getItem('missing')).toBeNull();
+  });
+
+  it('should update cursor and status', async () => {
+    await store.saveItem(createTestItem());
+    await store.updateSyncCursor('item_123', 'cursor-2');
+    await store.updateStatus('item_123', 'login_required');
+
+    const item = await store.getItem('item_123');
+    expect(item?.syncCursor).toBe('cursor-2');
+    expect(item?.lastSyncAt).toBeDefined();
+    expect(item?.status).toBe('login_required');
+    expect(item?.updatedAt).not.toBe('2024-01-01T00:00:00Z');
+  });
+
+  it('should delete items', async () => {
+    await store.saveItem(createTestItem());
+    await store.deleteItem('item_123');
+    expect(await store.getAllItems()).toEqual([]);
+  });
+});
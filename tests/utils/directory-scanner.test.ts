@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { mkdir, writeFile, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { scanDirectoryForPdfs, validateDirectory } from '@findata/boa-parser';
+import { scanDirectoryForPdfs, scanDirectoryForStatementFiles, validateDirectory } from '@findata/boa-parser';
 
 describe('directory-scanner', () => {
   let testDir: string;
@@ -130,4 +130,20 @@ describe('directory-scanner', () => {
       expect(result.files[0]?.modifiedAt).toBeInstanceOf(Date);
     });
   });
+
+  describe('scanDirectoryForStatementFiles', () => {
+    it('should include OFX, QFX and CSV downloads alongside PDFs', async () => {
+      await writeFile(join(testDir, 'a.pdf'), 'pdf');
+      await writeFile(join(testDir, 'b.OFX'), 'ofx');
+      await writeFile(join(testDir, 'c.qfx'), 'qfx');
+      await writeFile(join(testDir, 'd.csv'), 'csv');
+      await writeFile(join(testDir, 'e.txt'), 'txt');
+
+      const result = await scanDirectoryForStatementFiles(testDir);
+      const pdfOnly = await scanDirectoryForPdfs(testDir);
+
+      expect(result.files.map((f) => f.fileName)).toEqual(['a.pdf', 'b.OFX', 'c.qfx', 'd.csv']);
+      expect(pdfOnly.files.map((f) => f.fileName)).toEqual(['a.pdf']);
+    });
+  });
 });
@@ -47,6 +47,35 @@ describe('id-generator', () => {
       expect(id).toContain('BOA-');
     });
 
+    it('should prefer an explicit institutionId', () => {
+      const id = computeStatementId({
+        account: {
+          institution: 'First Tech Federal Credit Union',
+          institutionId: 'firsttech',
+          accountType: 'checking',
+          accountNumberMasked: '****1234',
+          statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+        },
+      });
+
+      expect(id).toBe('FIRSTTECH-checking-****1234-2025-01-01-2025-01-31');
+    });
+
+    it('should map known institution aliases and fall back to the display name', () => {
+      const idFor = (institution: string): string => computeStatementId({
+        account: {
+          institution,
+          accountType: 'credit',
+          accountNumberMasked: '****1234',
+          statementPeriod: { start: '2025-01-01', end: '2025-01-31' },
+        },
+      });
+
+      expect(idFor('BofA')).toMatch(/^BOA-/);
+      expect(idFor('Capital One, N.A.')).toMatch(/^CAPITALONE-/);
+      expect(idFor('Ally Bank')).toMatch(/^ALLY_BANK-/);
+    });
+
     it('should handle different account types', () => {
       const checking = computeStatementId({
         account: {
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findInstitution,
+  toInstitutionId,
+  isValidInstitutionId,
+  isValidRoutingNumber,
+} from '@findata/types';
+
+describe('institutions', () => {
+  describe('findInstitution', () => {
+    it('should resolve ids, display names and aliases case-insensitively', () => {
+      expect(findInstitution('boa')?.name).toBe('Bank of America');
+      expect(findInstitution('  bank of   america ')?.id).toBe('boa');
+      expect(findInstitution('BANK OF AMERICA, N.A.')?.id).toBe('boa');
+      expect(findInstitution('Capital One 360')?.id).toBe('capitalone');
+      expect(findInstitution('Chime')?.id).toBe('chime');
+    });
+
+    it('should return null for unknown or empty names', () => {
+      expect(findInstitution('Ally Bank')).toBeNull();
+      expect(findInstitution('   ')).toBeNull();
+    });
+  });
+
+  describe('toInstitutionId', () => {
+    it('should use registered ids for known institutions', () => {
+      expect(toInstitutionId('Bank of America')).toBe('boa');
+      expect(toInstitutionId('CapitalOne')).toBe('capitalone');
+    });
+
+    it('should slug unknown institution names', () => {
+      const id = toInstitutionId(' First Tech Federal Credit Union (FCU) ');
+      expect(id).toBe('first_tech_federal_credit_union_fcu');
+      expect(isValidInstitutionId(id)).toBe(true);
+    });
+  });
+
+  describe('validators', () => {
+    it('should validate institution ids and routing numbers', () => {
+      expect(isValidInstitutionId('boa')).toBe(true);
+      expect(isValidInstitutionId('Bank of America')).toBe(false);
+      expect(isValidInstitutionId('_boa')).toBe(false);
+      expect(isValidRoutingNumber('026009593')).toBe(true);
+      expect(isValidRoutingNumber('26009593')).toBe(false);
+    });
+  });
+});
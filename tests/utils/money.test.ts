@@ -1,5 +1,27 @@
 import { describe, it, expect } from 'vitest';
-import { parseAmount, roundToTwoDecimals, formatCurrency, sumAmounts } from '@findata/types';
+import {
+  parseAmount,
+  roundToTwoDecimals,
+  roundToCurrency,
+  formatCurrency,
+  sumAmounts,
+  convertCurrency,
+  parseFxRateTable,
+  isValidCurrencyCode,
+  normalizeCurrencyCode,
+  getCurrencyMinorUnits,
+  toMinorUnits,
+  fromMinorUnits,
+  money,
+  moneyToNumber,
+  addMoney,
+  subtractMoney,
+  sumMoney,
+  moneyEquals,
+  amountsEqual,
+  calculateEndingBalance,
+  toDecimalString,
+} from '@findata/types';
 
 describe('parseAmount', () => {
   it('should parse positive amounts', () => {
@@ -58,3 +80,93 @@ describe('sumAmounts', () => {
     expect(sumAmounts([100, -50, 25])).toBe(75);
   });
 });
+
+describe('multi-currency helpers', () => {
+  it('should parse decimal-comma amounts when asked to', () => {
+    expect(parseAmount('1.234,56 €', 'EUR', { decimalSeparator: ',' })).toBe(1234.56);
+    expect(parseAmount('-12,50', undefined, { decimalSeparator: ',' })).toBe(-12.5);
+    expect(parseAmount('1.234', undefined, { decimalSeparator: ',' })).toBe(1234);
+  });
+
+  it('should read commas as US thousands separators by default', () => {
+    expect(parseAmount('1,234')).toBe(1234);
+    expect(parseAmount('$12,345')).toBe(12345);
+    expect(parseAmount('1,234,567')).toBe(1234567);
+    expect(parseAmount('-1,23')).toBe(-123);
+    expect(parseAmount('1,234.5')).toBe(1234.5);
+  });
+
+  it('should round to the minor units of the given currency', () => {
+    expect(parseAmount('¥1,234.6', 'JPY')).toBe(1235);
+    expect(parseAmount('1.2345', 'KWD')).toBe(1.235);
+    expect(roundToCurrency(10.005, 'EUR')).toBe(10.01);
+    expect(getCurrencyMinorUnits('jpy')).toBe(0);
+    expect(getCurrencyMinorUnits()).toBe(2);
+  });
+
+  it('should format non-USD currencies', () => {
+    expect(formatCurrency(1234.5, 'EUR')).toBe('€1,234.50');
+    expect(formatCurrency(-1200, 'JPY')).toBe('-¥1,200');
+  });
+
+  it('should validate currency codes', () => {
+    expect(isValidCurrencyCode('USD')).toBe(true);
+    expect(isValidCurrencyCode('usd')).toBe(false);
+    expect(normalizeCurrencyCode(' eur ')).toBe('EUR');
+    expect(() => normalizeCurrencyCode('EURO')).toThrow('Invalid currency code');
+  });
+
+  it('should parse FX rate tables', () => {
+    expect(parseFxRateTable({ eur: 1.08, GBP: 1.27 })).toEqual({ EUR: 1.08, GBP: 1.27 });
+    expect(() => parseFxRateTable([1.08])).toThrow('FX rate table must be an object');
+    expect(() => parseFxRateTable({ EUR: -1 })).toThrow('Invalid FX rate for EUR');
+    expect(() => parseFxRateTable({ EUR: '1.08' })).toThrow('Invalid FX rate for EUR');
+  });
+
+  it('should convert using a static rate table', () => {
+    const rates = { EUR: 1.08, JPY: 0.0067 };
+    expect(convertCurrency(100, 'EUR', 'USD', rates)).toBe(108);
+    expect(convertCurrency(1000, 'JPY', 'USD', rates)).toBe(6.7);
+    expect(convertCurrency(42, 'USD', 'USD', rates)).toBe(42);
+    expect(() => convertCurrency(1, 'GBP', 'USD', rates)).toThrow('No FX rate for GBP -> USD');
+  });
+});
+
+describe('Money', () => {
+  it('should convert between decimal amounts and minor units', () => {
+    expect(toMinorUnits(12.34)).toBe(1234);
+    expect(toMinorUnits(1.005)).toBe(101);
+    expect(toMinorUnits(-1.005)).toBe(-101);
+    expect(toMinorUnits(-0.001)).toBe(0);
+    expect(toMinorUnits(1234.6, 'JPY')).toBe(1235);
+    expect(fromMinorUnits(1234)).toBe(12.34);
+    expect(fromMinorUnits(1235, 'KWD')).toBe(1.235);
+  });
+
+  it('should add, subtract and sum without float drift', () => {
+    expect(moneyToNumber(addMoney(money(0.1), money(0.2)))).toBe(0.3);
+    expect(moneyToNumber(subtractMoney(money(1), money(0.9)))).toBe(0.1);
+    expect(sumMoney([money(0.1), money(0.2), money(0.3)])).toEqual({ minorUnits: 60, currency: 'USD' });
+    expect(moneyEquals(money(1.1, 'EUR'), { minorUnits: 110, currency: 'EUR' })).toBe(true);
+  });
+
+  it('should refuse to mix currencies', () => {
+    expect(() => addMoney(money(1, 'USD'), money(1, 'EUR'))).toThrow('Currency mismatch: USD vs EUR');
+  });
+
+  it('should keep long sums exact', () => {
+    const amounts = Array.from({ length: 10000 }, () => 0.1);
+    expect(sumAmounts(amounts)).toBe(1000);
+    expect(calculateEndingBalance(9876543.21, 1234567.89, 0.07)).toBe(11111111.03);
+    expect(amountsEqual(0.1 + 0.2, 0.3)).toBe(true);
+    expect(amountsEqual(10, 10.01)).toBe(false);
+  });
+
+  it('should render fixed decimal strings from minor units', () => {
+    expect(toDecimalString(-1234.5)).toBe('-1234.50');
+    expect(toDecimalString(0.07)).toBe('0.07');
+    expect(toDecimalString(1.005)).toBe('1.01');
+    expect(toDecimalString(1200, 'JPY')).toBe('1200');
+    expect(toDecimalString(-0.5, 'KWD')).toBe('-0.500');
+  });
+});
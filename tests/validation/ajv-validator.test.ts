@@ -206,6 +206,24 @@ describe('AJV Validator', () => {
       const result = validateOutput(output);
       expect(result.valid).toBe(false);
     });
+
+    it('should accept institutions other than Bank of America', () => {
+      const output = createValidOutput();
+      output.statements[0]!.account.institution = 'Chime';
+      output.statements[0]!.account.institutionId = 'chime';
+      const result = validateOutput(output);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject an invalid institutionId or routingNumber', () => {
+      const badId = createValidOutput();
+      badId.statements[0]!.account.institutionId = 'Bank of America';
+      expect(validateOutput(badId).valid).toBe(false);
+
+      const badRouting = createValidOutput();
+      badRouting.statements[0]!.account.routingNumber = '02600959';
+      expect(validateOutput(badRouting).valid).toBe(false);
+    });
   });
 
   describe('validateAndThrow', () => {
@@ -34,6 +34,12 @@ describe('validateReconciliation', () => {
     expect(result.difference).toBe(50);
   });
   
+  it('should be exact to the cent by default', () => {
+    expect(validateReconciliation(0.1, 0.3, 0.2, 0).passed).toBe(true);
+    expect(validateReconciliation(1000, 1200.01, 500, 300).passed).toBe(false);
+    expect(validateReconciliation(1000, 1200.01, 500, 300).difference).toBe(0.01);
+  });
+  
   it('should handle zero balances', () => {
     const result = validateReconciliation(0, 200, 200, 0);
     